@@ -1,6 +1,11 @@
 import { test, expect, Page } from "@playwright/test"
 
 const mockCovidDeathsResponse = {
+  cause: {
+    slug: "covid-19",
+    label: "COVID-19",
+    description: "Actors who died from COVID-19, coronavirus, or related complications.",
+  },
   persons: [
     {
       id: 12345,
@@ -29,10 +34,17 @@ const mockCovidDeathsResponse = {
     totalPages: 1,
     totalCount: 2,
   },
+  stats: {
+    averageAgeAtDeath: 68.5,
+    medianAgeAtDeath: 68.5,
+    youngestAgeAtDeath: 65,
+    oldestAgeAtDeath: 72,
+  },
+  decades: [{ decade: 2020, count: 2 }],
 }
 
 async function setupMocks(page: Page) {
-  await page.route("**/api/covid-deaths**", async (route) => {
+  await page.route("**/api/causes/covid-19**", async (route) => {
     await route.fulfill({
       status: 200,
       contentType: "application/json",
@@ -46,22 +58,27 @@ test.describe("COVID-19 Deaths Page", () => {
     await setupMocks(page)
   })
 
-  test("displays covid deaths page with actor list", async ({ page }) => {
+  test("redirects the old /covid-deaths URL", async ({ page }) => {
     await page.goto("/covid-deaths")
 
+    await expect(page).toHaveURL(/\/cause\/covid-19$/)
+    await expect(page.getByRole("heading", { name: "COVID-19 Deaths" })).toBeVisible()
+  })
+
+  test("displays covid deaths page with actor list", async ({ page }) => {
+    await page.goto("/cause/covid-19")
+
     // Verify page title
     await expect(page.getByRole("heading", { name: "COVID-19 Deaths" })).toBeVisible()
 
     // Verify page description is visible
-    await expect(
-      page.getByText(/Actors in our database who died from COVID-19/)
-    ).toBeVisible()
+    await expect(page.getByText(/Actors who died from COVID-19, coronavirus/)).toBeVisible()
 
     // Wait for actor list to load (skip loading state)
-    await page.waitForSelector('[data-testid^="covid-death-row-"]', { timeout: 10000 })
+    await page.waitForSelector('[data-testid^="cause-death-row-"]', { timeout: 10000 })
 
     // Verify at least one actor row is displayed
-    const actorRows = page.locator('[data-testid^="covid-death-row-"]')
+    const actorRows = page.locator('[data-testid^="cause-death-row-"]')
     await expect(actorRows.first()).toBeVisible()
 
     // Take full page screenshot
@@ -74,12 +91,12 @@ test.describe("COVID-19 Deaths Page", () => {
   test("actor row displays correctly on desktop", async ({ page, isMobile }) => {
     test.skip(isMobile === true, "Desktop-specific test")
 
-    await page.goto("/covid-deaths")
+    await page.goto("/cause/covid-19")
 
     // Wait for actor list to load
-    await page.waitForSelector('[data-testid^="covid-death-row-"]', { timeout: 10000 })
+    await page.waitForSelector('[data-testid^="cause-death-row-"]', { timeout: 10000 })
 
-    const firstRow = page.locator('[data-testid^="covid-death-row-"]').first()
+    const firstRow = page.locator('[data-testid^="cause-death-row-"]').first()
 
     // On desktop, we should see the full horizontal layout with all columns
     // Check that the desktop layout is visible (has md:flex class)
@@ -88,19 +105,19 @@ test.describe("COVID-19 Deaths Page", () => {
 
     // Take screenshot of just the first row for visual comparison
     await firstRow.screenshot({
-      path: "e2e/screenshots/covid-death-row-desktop.png",
+      path: "e2e/screenshots/cause-death-row-desktop.png",
     })
   })
 
   test("actor row displays correctly on mobile", async ({ page, isMobile }) => {
     test.skip(!isMobile, "Mobile-specific test")
 
-    await page.goto("/covid-deaths")
+    await page.goto("/cause/covid-19")
 
     // Wait for actor list to load
-    await page.waitForSelector('[data-testid^="covid-death-row-"]', { timeout: 10000 })
+    await page.waitForSelector('[data-testid^="cause-death-row-"]', { timeout: 10000 })
 
-    const firstRow = page.locator('[data-testid^="covid-death-row-"]').first()
+    const firstRow = page.locator('[data-testid^="cause-death-row-"]').first()
 
     // On mobile, we should see the stacked mobile layout
     // Check that the mobile layout is visible (has md:hidden class)
@@ -109,29 +126,29 @@ test.describe("COVID-19 Deaths Page", () => {
 
     // Take screenshot of just the first row for visual comparison
     await firstRow.screenshot({
-      path: "e2e/screenshots/covid-death-row-mobile.png",
+      path: "e2e/screenshots/cause-death-row-mobile.png",
     })
   })
 
   test("responsive layout changes between viewports", async ({ page }) => {
-    await page.goto("/covid-deaths")
+    await page.goto("/cause/covid-19")
 
     // Wait for actor list to load
-    await page.waitForSelector('[data-testid^="covid-death-row-"]', { timeout: 10000 })
+    await page.waitForSelector('[data-testid^="cause-death-row-"]', { timeout: 10000 })
 
-    const firstRow = page.locator('[data-testid^="covid-death-row-"]').first()
+    const firstRow = page.locator('[data-testid^="cause-death-row-"]').first()
 
     // Verify the row rendered successfully
     await expect(firstRow).toBeVisible()
   })
 
   test("actor rows are clickable links", async ({ page }) => {
-    await page.goto("/covid-deaths")
+    await page.goto("/cause/covid-19")
 
     // Wait for actor list to load
-    await page.waitForSelector('[data-testid^="covid-death-row-"]', { timeout: 10000 })
+    await page.waitForSelector('[data-testid^="cause-death-row-"]', { timeout: 10000 })
 
-    const firstRow = page.locator('[data-testid^="covid-death-row-"]').first()
+    const firstRow = page.locator('[data-testid^="cause-death-row-"]').first()
 
     // Verify it's a link
     await expect(firstRow).toHaveAttribute("href", /\/actor\//)
@@ -142,10 +159,10 @@ test.describe("COVID-19 Deaths Page", () => {
   })
 
   test("displays death information", async ({ page }) => {
-    await page.goto("/covid-deaths")
+    await page.goto("/cause/covid-19")
 
     // Wait for actor list to load
-    await page.waitForSelector('[data-testid^="covid-death-row-"]', { timeout: 10000 })
+    await page.waitForSelector('[data-testid^="cause-death-row-"]', { timeout: 10000 })
 
     // Verify that death-related info is shown (date, cause)
     // At least one row should show a death date - use visible: true to only match currently visible elements
@@ -0,0 +1,38 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  // Store the TMDB gender code (0 = unknown, 1 = female, 2 = male, 3 = non-binary)
+  // so expected mortality can use sex-specific actuarial tables
+  pgm.addColumn("actor_appearances", {
+    gender: {
+      type: "smallint",
+      notNull: false, // Allow null for existing records until backfilled
+    },
+  })
+
+  // Record which mortality model produced movies.expected_deaths so stale
+  // rows can be found and recomputed when the model changes
+  pgm.addColumn("movies", {
+    mortality_model: {
+      type: "text",
+      notNull: false,
+    },
+  })
+
+  pgm.createIndex("movies", "mortality_model")
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropIndex("movies", "mortality_model")
+  pgm.dropColumn("movies", "mortality_model")
+  pgm.dropColumn("actor_appearances", "gender")
+}
@@ -0,0 +1,37 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  // Poisson-binomial significance of the actual death count versus the
+  // per-actor actuarial probabilities, plus the 95% interval of deaths
+  // expected by chance
+  pgm.addColumns("movies", {
+    mortality_p_value: {
+      type: "decimal(8,6)",
+      notNull: false, // Null until calculated or backfilled
+    },
+    expected_deaths_low: {
+      type: "integer",
+      notNull: false,
+    },
+    expected_deaths_high: {
+      type: "integer",
+      notNull: false,
+    },
+  })
+
+  pgm.createIndex("movies", "mortality_p_value")
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropIndex("movies", "mortality_p_value")
+  pgm.dropColumns("movies", ["mortality_p_value", "expected_deaths_low", "expected_deaths_high"])
+}
@@ -0,0 +1,40 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  // Distinguish the single period table (stored under birth_year 2022) from
+  // per-birth-cohort qx curves, where birth_year is the actual year of birth
+  pgm.addColumn("actuarial_life_tables", {
+    table_type: {
+      type: "text",
+      notNull: true,
+      default: "period",
+    },
+  })
+
+  // A cohort born in 2022 must not collide with the 2022 period table
+  pgm.dropConstraint("actuarial_life_tables", "actuarial_life_tables_unique", { ifExists: true })
+  pgm.addConstraint("actuarial_life_tables", "actuarial_life_tables_unique", {
+    unique: ["table_type", "birth_year", "age", "gender"],
+  })
+
+  pgm.createIndex("actuarial_life_tables", ["table_type", "gender", "birth_year"])
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.sql("DELETE FROM actuarial_life_tables WHERE table_type <> 'period'")
+  pgm.dropIndex("actuarial_life_tables", ["table_type", "gender", "birth_year"])
+  pgm.dropConstraint("actuarial_life_tables", "actuarial_life_tables_unique")
+  pgm.addConstraint("actuarial_life_tables", "actuarial_life_tables_unique", {
+    unique: ["birth_year", "age", "gender"],
+  })
+  pgm.dropColumn("actuarial_life_tables", "table_type")
+}
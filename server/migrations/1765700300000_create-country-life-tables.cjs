@@ -0,0 +1,35 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  // Period life tables for countries other than the US, keyed by
+  // ISO 3166-1 alpha-2 code. US actors keep using actuarial_life_tables.
+  pgm.createTable("country_life_tables", {
+    id: "id",
+    country_code: { type: "text", notNull: true },
+    age: { type: "integer", notNull: true },
+    gender: { type: "text", notNull: true },
+    death_probability: { type: "decimal(10,8)", notNull: true },
+    life_expectancy: { type: "decimal(6,2)" },
+    survivors_per_100k: { type: "integer" },
+    source: { type: "text" },
+  })
+
+  pgm.addConstraint("country_life_tables", "country_life_tables_unique", {
+    unique: ["country_code", "age", "gender"],
+  })
+
+  pgm.createIndex("country_life_tables", ["country_code", "gender"])
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable("country_life_tables")
+}
@@ -0,0 +1,53 @@
+/**
+ * Migration: Create crew_appearances table
+ *
+ * Links key crew members (directors, writers, composers, cinematographers) to
+ * movies, alongside actor_appearances for the cast. One row per job, so a
+ * writer-director has two rows for the same movie.
+ */
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(
+    "crew_appearances",
+    {
+      id: "id",
+      person_tmdb_id: { type: "integer", notNull: true },
+      movie_tmdb_id: {
+        type: "integer",
+        notNull: true,
+        references: "movies(tmdb_id)",
+        onDelete: "CASCADE",
+      },
+      person_name: { type: "text", notNull: true },
+      job: { type: "text", notNull: true },
+      department: { type: "text", notNull: true },
+      age_at_filming: { type: "integer" },
+      is_deceased: { type: "boolean", default: false },
+      gender: { type: "smallint" },
+    },
+    { ifNotExists: true }
+  )
+
+  pgm.addConstraint("crew_appearances", "crew_appearances_unique", {
+    unique: ["person_tmdb_id", "movie_tmdb_id", "job"],
+  })
+
+  // Index for finding all movies a crew member worked on
+  pgm.createIndex("crew_appearances", "person_tmdb_id", { ifNotExists: true })
+
+  // Index for finding the key crew of a movie
+  pgm.createIndex("crew_appearances", "movie_tmdb_id", { ifNotExists: true })
+
+  // Index for filtering by deceased status
+  pgm.createIndex("crew_appearances", "is_deceased", { ifNotExists: true })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable("crew_appearances")
+}
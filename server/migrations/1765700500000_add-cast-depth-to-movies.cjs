@@ -0,0 +1,27 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  // Which part of the billed cast the stored statistics cover: the top 10,
+  // top 30, or the full cast. Existing rows were all calculated from the top 30.
+  pgm.addColumns("movies", {
+    cast_depth: {
+      type: "text",
+      notNull: true,
+      default: "30",
+      check: "cast_depth IN ('10', '30', 'all')",
+    },
+  })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns("movies", ["cast_depth"])
+}
@@ -0,0 +1,49 @@
+/**
+ * Migration: Create enrichment_jobs table
+ *
+ * Durable queue for cause-of-death enrichment. Movie requests enqueue one job per
+ * deceased person missing death info, and a worker loop on each replica claims
+ * jobs with SELECT ... FOR UPDATE SKIP LOCKED. Failed jobs are retried with
+ * backoff until max_attempts, then left in the 'dead' status for inspection.
+ */
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(
+    "enrichment_jobs",
+    {
+      id: "id",
+      // One job per person, no matter how many movies asked for it
+      person_tmdb_id: { type: "integer", notNull: true, unique: true },
+      person_name: { type: "text", notNull: true },
+      birthday: { type: "date" },
+      deathday: { type: "date", notNull: true },
+      status: {
+        type: "text",
+        notNull: true,
+        default: "pending",
+        check: "status IN ('pending', 'running', 'done', 'dead')",
+      },
+      attempts: { type: "integer", notNull: true, default: 0 },
+      max_attempts: { type: "integer", notNull: true, default: 5 },
+      run_at: { type: "timestamptz", notNull: true, default: pgm.func("NOW()") },
+      locked_at: { type: "timestamptz" },
+      last_error: { type: "text" },
+      created_at: { type: "timestamptz", notNull: true, default: pgm.func("NOW()") },
+      updated_at: { type: "timestamptz", notNull: true, default: pgm.func("NOW()") },
+    },
+    { ifNotExists: true }
+  )
+
+  // Index for the worker's claim query
+  pgm.createIndex("enrichment_jobs", ["status", "run_at"], { ifNotExists: true })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable("enrichment_jobs")
+}
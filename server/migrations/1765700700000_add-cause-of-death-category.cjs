@@ -0,0 +1,26 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  // Normalized cause of death from src/lib/cause-taxonomy.ts, e.g. 'cancer' and
+  // 'lung-cancer'. Existing rows are filled in by npm run backfill:cause-categories.
+  pgm.addColumns("deceased_persons", {
+    cause_of_death_category: { type: "text" },
+    cause_of_death_subcategory: { type: "text" },
+  })
+
+  pgm.createIndex("deceased_persons", "cause_of_death_category", { ifNotExists: true })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropIndex("deceased_persons", "cause_of_death_category", { ifExists: true })
+  pgm.dropColumns("deceased_persons", ["cause_of_death_category", "cause_of_death_subcategory"])
+}
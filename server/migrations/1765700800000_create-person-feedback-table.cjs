@@ -0,0 +1,53 @@
+/**
+ * Migration: Create person_feedback table
+ *
+ * Reader reports of wrong death information (wrong cause, wrong date, not actually
+ * dead). Reports never change deceased_persons directly; they wait in the 'pending'
+ * status until someone reviews them. The earlier add-cause-of-death-feedback
+ * migration was a stub and created nothing.
+ *
+ * submitter_hash is a salted hash of the submitter's IP address, kept only so
+ * submissions can be rate limited across replicas.
+ */
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(
+    "person_feedback",
+    {
+      id: "id",
+      // Not a foreign key: readers can report people we only know from TMDB
+      person_tmdb_id: { type: "integer", notNull: true },
+      category: {
+        type: "text",
+        notNull: true,
+        check: "category IN ('wrong_cause', 'wrong_date', 'not_dead', 'other')",
+      },
+      message: { type: "text", notNull: true },
+      submitter_hash: { type: "text", notNull: true },
+      status: {
+        type: "text",
+        notNull: true,
+        default: "pending",
+        check: "status IN ('pending', 'accepted', 'rejected')",
+      },
+      reviewed_at: { type: "timestamptz" },
+      created_at: { type: "timestamptz", notNull: true, default: pgm.func("NOW()") },
+    },
+    { ifNotExists: true }
+  )
+
+  // Index for the review queue
+  pgm.createIndex("person_feedback", ["status", "created_at"], { ifNotExists: true })
+  // Index for the rate limit check
+  pgm.createIndex("person_feedback", ["submitter_hash", "created_at"], { ifNotExists: true })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable("person_feedback")
+}
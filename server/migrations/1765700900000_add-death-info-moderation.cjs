@@ -0,0 +1,33 @@
+/**
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+exports.shorthands = undefined
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns("deceased_persons", {
+    // Set by the moderation console; updateDeathInfo leaves locked rows alone
+    death_info_locked: { type: "boolean", notNull: true, default: false },
+    // Share of source weight behind the resolved cause (see src/lib/cause-resolver.ts),
+    // null until the enrichment worker has compared sources for this person
+    cause_of_death_agreement: { type: "real" },
+  })
+
+  // Who accepted or rejected a reader report
+  pgm.addColumns("person_feedback", {
+    reviewed_by: { type: "text" },
+  })
+
+  pgm.createIndex("deceased_persons", "cause_of_death_agreement", { ifNotExists: true })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropIndex("deceased_persons", "cause_of_death_agreement", { ifExists: true })
+  pgm.dropColumns("person_feedback", ["reviewed_by"])
+  pgm.dropColumns("deceased_persons", ["death_info_locked", "cause_of_death_agreement"])
+}
@@ -0,0 +1,115 @@
+/**
+ * Migration: Create death_info_history table
+ *
+ * Append-only audit trail of every change to a person's death record. A trigger on
+ * deceased_persons writes a row whenever an insert or update changes one of the
+ * audited fields, with full before/after snapshots of those fields so any version
+ * can be restored.
+ *
+ * The trigger takes the actor and reason from transaction-local settings
+ * (dead_on_film.audit_actor, dead_on_film.audit_reason) that the write functions in
+ * src/lib/db.ts set. Writes made without them, such as one-off backfill scripts,
+ * are still recorded with the actor 'unknown'.
+ */
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(
+    "death_info_history",
+    {
+      id: "id",
+      // Not a foreign key: history outlives the record it describes
+      person_tmdb_id: { type: "integer", notNull: true },
+      actor: { type: "text", notNull: true },
+      reason: { type: "text" },
+      // Null for the entry that created the record
+      old_values: { type: "jsonb" },
+      new_values: { type: "jsonb", notNull: true },
+      created_at: { type: "timestamptz", notNull: true, default: pgm.func("NOW()") },
+    },
+    { ifNotExists: true }
+  )
+
+  // Index for a person's timeline
+  pgm.createIndex("death_info_history", ["person_tmdb_id", "created_at"], { ifNotExists: true })
+
+  pgm.sql(`
+    CREATE OR REPLACE FUNCTION death_info_snapshot(p deceased_persons)
+    RETURNS jsonb AS $$
+      SELECT jsonb_build_object(
+        'birthday', p.birthday,
+        'deathday', p.deathday,
+        'cause_of_death', p.cause_of_death,
+        'cause_of_death_source', p.cause_of_death_source,
+        'cause_of_death_details', p.cause_of_death_details,
+        'cause_of_death_details_source', p.cause_of_death_details_source,
+        'wikipedia_url', p.wikipedia_url,
+        'death_info_locked', p.death_info_locked
+      )
+    $$ LANGUAGE sql IMMUTABLE;
+  `)
+
+  pgm.sql(`
+    CREATE OR REPLACE FUNCTION record_death_info_history()
+    RETURNS TRIGGER AS $$
+    DECLARE
+      old_snapshot jsonb := NULL;
+      new_snapshot jsonb := death_info_snapshot(NEW);
+    BEGIN
+      IF TG_OP = 'UPDATE' THEN
+        old_snapshot := death_info_snapshot(OLD);
+        IF old_snapshot = new_snapshot THEN
+          RETURN NULL;
+        END IF;
+      END IF;
+
+      INSERT INTO death_info_history (person_tmdb_id, actor, reason, old_values, new_values)
+      VALUES (
+        NEW.tmdb_id,
+        COALESCE(NULLIF(current_setting('dead_on_film.audit_actor', true), ''), 'unknown'),
+        NULLIF(current_setting('dead_on_film.audit_reason', true), ''),
+        old_snapshot,
+        new_snapshot
+      );
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+  `)
+
+  pgm.sql(`
+    CREATE TRIGGER deceased_persons_history_trigger
+    AFTER INSERT OR UPDATE ON deceased_persons
+    FOR EACH ROW
+    EXECUTE FUNCTION record_death_info_history();
+  `)
+
+  // Keep the history append-only
+  pgm.sql(`
+    CREATE OR REPLACE FUNCTION reject_death_info_history_change()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'death_info_history is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+  `)
+
+  pgm.sql(`
+    CREATE TRIGGER death_info_history_append_only_trigger
+    BEFORE UPDATE OR DELETE ON death_info_history
+    FOR EACH ROW
+    EXECUTE FUNCTION reject_death_info_history_change();
+  `)
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.sql("DROP TRIGGER IF EXISTS deceased_persons_history_trigger ON deceased_persons;")
+  pgm.dropTable("death_info_history")
+  pgm.sql("DROP FUNCTION IF EXISTS record_death_info_history();")
+  pgm.sql("DROP FUNCTION IF EXISTS reject_death_info_history_change();")
+  pgm.sql("DROP FUNCTION IF EXISTS death_info_snapshot(deceased_persons);")
+}
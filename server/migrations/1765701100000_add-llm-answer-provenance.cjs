@@ -0,0 +1,43 @@
+/**
+ * Migration: Record which prompt and model produced each LLM answer
+ *
+ * Adds prompt_version (a template id from src/lib/cause-of-death-prompts.ts, e.g.
+ * 'cause-of-death@2') and model to the per-source answer tables. Both stay null for
+ * non-LLM sources. Claude answers stored before this migration all came from the
+ * original prompt and claude-3-haiku-20240307, so they are labelled as such.
+ */
+
+const LLM_TABLES = ["cause_of_death_data", "cause_of_death_detail_data"]
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  for (const table of LLM_TABLES) {
+    pgm.addColumns(table, {
+      prompt_version: { type: "text" },
+      model: { type: "text" },
+    })
+
+    pgm.sql(`
+      UPDATE ${table}
+      SET prompt_version = 'cause-of-death@1', model = 'claude-3-haiku-20240307'
+      WHERE source = 'claude'
+    `)
+  }
+
+  // Index for finding answers from outdated prompts or models
+  pgm.createIndex("cause_of_death_data", ["source", "prompt_version", "model"], {
+    ifNotExists: true,
+  })
+}
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropIndex("cause_of_death_data", ["source", "prompt_version", "model"], { ifExists: true })
+  for (const table of LLM_TABLES) {
+    pgm.dropColumns(table, ["prompt_version", "model"])
+  }
+}
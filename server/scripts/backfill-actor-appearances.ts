@@ -11,10 +11,12 @@
 import "dotenv/config"
 import { Command } from "commander"
 import { getMovieCredits, batchGetPersonDetails } from "../src/lib/tmdb.js"
-import { calculateMovieMortality } from "../src/lib/mortality-stats.js"
+import { calculateMovieMortality, getActuarialGender } from "../src/lib/mortality-stats.js"
+import { resolveBirthCountry } from "../src/lib/birthplace.js"
 import { getPool, batchUpsertActorAppearances, type ActorAppearanceRecord } from "../src/lib/db.js"
-
-const CAST_LIMIT = 30 // Top 30 actors per movie
+import { calculateAgeAtFilming } from "../src/lib/movie-cache.js"
+import { formatDate } from "../src/lib/date-utils.js"
+import { DEFAULT_CAST_DEPTH, limitCast } from "../src/lib/cast-depth.js"
 
 interface MovieToBackfill {
   tmdb_id: number
@@ -46,7 +48,6 @@ async function runBackfill() {
 
   try {
     const db = getPool()
-    const currentYear = new Date().getFullYear()
 
     // Find all movies that don't have any actor appearances
     const result = await db.query<MovieToBackfill>(`
@@ -77,7 +78,7 @@ async function runBackfill() {
       try {
         // Get credits from TMDB
         const credits = await getMovieCredits(movie.tmdb_id)
-        const topCast = credits.cast.slice(0, CAST_LIMIT)
+        const topCast = limitCast(credits.cast, DEFAULT_CAST_DEPTH)
         await delay(50)
 
         if (topCast.length === 0) {
@@ -97,16 +98,15 @@ async function runBackfill() {
             name: castMember.name,
             birthday: person?.birthday || null,
             deathday: person?.deathday || null,
+            gender: getActuarialGender(castMember.gender),
+            birthCountry: resolveBirthCountry(person?.place_of_birth),
           }
         })
 
         // Calculate mortality statistics
         const releaseYear = movie.release_year || movie.release_date?.getFullYear() || 0
-        const mortalityStats = await calculateMovieMortality(
-          releaseYear,
-          actorsForMortality,
-          currentYear
-        )
+        const release = movie.release_date ? formatDate(movie.release_date) : releaseYear
+        const mortalityStats = await calculateMovieMortality(release, actorsForMortality)
 
         // Update movie with mortality stats
         await db.query(
@@ -132,12 +132,7 @@ async function runBackfill() {
         const appearances: ActorAppearanceRecord[] = topCast.map((castMember, index) => {
           const person = personDetails.get(castMember.id)
           const birthday = person?.birthday
-          let ageAtFilming: number | null = null
-
-          if (birthday && releaseYear) {
-            const birthYear = parseInt(birthday.split("-")[0], 10)
-            ageAtFilming = releaseYear - birthYear
-          }
+          const ageAtFilming = calculateAgeAtFilming(birthday ?? null, release || null)
 
           return {
             actor_tmdb_id: castMember.id,
@@ -147,6 +142,7 @@ async function runBackfill() {
             billing_order: index,
             age_at_filming: ageAtFilming,
             is_deceased: !!person?.deathday,
+            gender: castMember.gender ?? null,
           }
         })
 
@@ -183,6 +183,7 @@ async function runBackfill(dryRun: boolean) {
 
     let updated = 0
     let cleared = 0
+    let failed = 0
 
     for (let i = 0; i < badEntries.length; i++) {
       const entry = badEntries[i]
@@ -191,7 +192,15 @@ async function runBackfill(dryRun: boolean) {
 
       console.log(`[${i + 1}/${badEntries.length}] ${entry.name}...`)
 
-      const claudeResult = await getCauseOfDeathFromClaude(entry.name, birthYear, deathYear)
+      let claudeResult
+      try {
+        claudeResult = await getCauseOfDeathFromClaude(entry.name, birthYear, deathYear)
+      } catch (error) {
+        // Leave the entry alone; a failed lookup says nothing about its details
+        console.error(`  Lookup failed, skipping:`, error)
+        failed++
+        continue
+      }
 
       if (claudeResult.details !== null) {
         // Got new details - update
@@ -225,6 +234,7 @@ async function runBackfill(dryRun: boolean) {
     console.log(`\nDone!`)
     console.log(`- Updated with new details: ${updated}`)
     console.log(`- Cleared (no meaningful details): ${cleared}`)
+    console.log(`- Skipped (lookup failed): ${failed}`)
   } catch (error) {
     console.error("Fatal error:", error)
     process.exit(1)
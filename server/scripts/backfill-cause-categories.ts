@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+/**
+ * Backfill script to normalize existing cause_of_death text into taxonomy categories.
+ *
+ * Each distinct cause text is mapped once with src/lib/cause-taxonomy.ts and every
+ * person with that text is updated together.
+ *
+ * Usage:
+ *   npm run backfill:cause-categories              # Categorize causes without a category
+ *   npm run backfill:cause-categories -- --all     # Recategorize every cause (after taxonomy changes)
+ *   npm run backfill:cause-categories -- --dry-run # Preview without writing
+ */
+
+import "dotenv/config"
+import { Command } from "commander"
+import { getDistinctCausesOfDeath, updateCauseOfDeathCategory, getPool } from "../src/lib/db.js"
+import { normalizeCauseOfDeath } from "../src/lib/cause-taxonomy.js"
+
+const program = new Command()
+  .name("backfill-cause-categories")
+  .description("Map free-text causes of death onto the cause-of-death taxonomy")
+  .option("-n, --dry-run", "Preview changes without writing to database")
+  .option("-a, --all", "Recategorize every cause, not just uncategorized ones")
+  .action(async (options: { dryRun?: boolean; all?: boolean }) => {
+    await runBackfill(options)
+  })
+
+interface BackfillOptions {
+  dryRun?: boolean
+  all?: boolean
+}
+
+async function runBackfill({ dryRun, all }: BackfillOptions) {
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL environment variable is required")
+    process.exit(1)
+  }
+
+  console.log("\nBackfilling cause of death categories...")
+  if (dryRun) {
+    console.log("(DRY RUN - no changes will be made)\n")
+  } else {
+    console.log("")
+  }
+
+  const db = getPool()
+
+  try {
+    const causes = await getDistinctCausesOfDeath(all)
+
+    console.log(`Found ${causes.length} distinct causes to categorize\n`)
+
+    if (causes.length === 0) {
+      console.log("Nothing to backfill. Done!")
+      return
+    }
+
+    let peopleUpdated = 0
+    const unmatched: Array<{ cause: string; count: number }> = []
+
+    for (const { cause, count } of causes) {
+      const normalized = normalizeCauseOfDeath(cause)
+      if (!normalized) continue
+
+      if (normalized.category === "other") {
+        unmatched.push({ cause, count })
+      }
+
+      if (!dryRun) {
+        peopleUpdated += await updateCauseOfDeathCategory(
+          cause,
+          normalized.category,
+          normalized.subcategory
+        )
+      } else {
+        peopleUpdated += count
+      }
+
+      const label = normalized.subcategory
+        ? `${normalized.category} → ${normalized.subcategory}`
+        : normalized.category
+      console.log(`  "${cause}" (${count}): ${label}`)
+    }
+
+    console.log("\nSummary:")
+    console.log(`  People updated: ${peopleUpdated}${dryRun ? " (dry run)" : ""}`)
+    console.log(`  Causes not in the taxonomy (categorized as other): ${unmatched.length}`)
+    for (const { cause, count } of unmatched.slice(0, 20)) {
+      console.log(`    "${cause}" (${count})`)
+    }
+    console.log("\nDone!")
+  } catch (error) {
+    console.error("Fatal error:", error)
+    process.exit(1)
+  } finally {
+    await db.end()
+  }
+}
+
+program.parse()
@@ -4,6 +4,8 @@
  * for existing deceased_persons records.
  *
  * Uses birth-year-specific cohort life expectancy from US SSA Actuarial Study No. 120.
+ * Gender is taken from actor_appearances when known; otherwise the combined table is used.
+ * The life tables are loaded once and every record is scored synchronously.
  *
  * Usage:
  *   npm run backfill:mortality         # Only update records with NULL values
@@ -15,7 +17,7 @@
 import "dotenv/config"
 import { Command } from "commander"
 import { getPool } from "../src/lib/db.js"
-import { calculateYearsLost } from "../src/lib/mortality-stats.js"
+import { getActuarialGender, loadLifeTables, scoreYearsLost } from "../src/lib/mortality-stats.js"
 
 const program = new Command()
   .name("backfill-mortality-stats")
@@ -40,18 +42,20 @@ async function runBackfill(updateAll: boolean) {
   try {
     // Get deceased persons that need backfilling
     // Cast dates to text to get string format for the calculation function
-    const whereClause = updateAll ? "" : "AND age_at_death IS NULL"
+    const whereClause = updateAll ? "" : "AND dp.age_at_death IS NULL"
     const result = await db.query<{
       tmdb_id: number
       name: string
       birthday: string | null
       deathday: string
+      gender: number | null
     }>(`
-      SELECT tmdb_id, name, birthday::text, deathday::text
-      FROM deceased_persons
-      WHERE birthday IS NOT NULL
+      SELECT dp.tmdb_id, dp.name, dp.birthday::text, dp.deathday::text,
+        (SELECT MAX(aa.gender) FROM actor_appearances aa WHERE aa.actor_tmdb_id = dp.tmdb_id) as gender
+      FROM deceased_persons dp
+      WHERE dp.birthday IS NOT NULL
         ${whereClause}
-      ORDER BY tmdb_id
+      ORDER BY dp.tmdb_id
     `)
 
     console.log(`Found ${result.rows.length} records to backfill\n`)
@@ -61,6 +65,8 @@ async function runBackfill(updateAll: boolean) {
       return
     }
 
+    await loadLifeTables()
+
     let updated = 0
     let skipped = 0
 
@@ -69,7 +75,11 @@ async function runBackfill(updateAll: boolean) {
       console.log(`  [${i + 1}/${result.rows.length}] ${person.name}...`)
 
       try {
-        const mortalityStats = await calculateYearsLost(person.birthday, person.deathday)
+        const mortalityStats = scoreYearsLost(
+          person.birthday,
+          person.deathday,
+          getActuarialGender(person.gender)
+        )
 
         if (mortalityStats) {
           await db.query(
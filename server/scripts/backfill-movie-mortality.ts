@@ -0,0 +1,222 @@
+#!/usr/bin/env tsx
+/**
+ * Backfill script to recompute expected_deaths and mortality_surprise_score for
+ * movies whose stored statistics were produced by an older mortality model, or
+ * that have no significance test (mortality_p_value) stored yet.
+ *
+ * Refetches credits and person details from TMDB so each actor's gender and
+ * birth/death dates are current, then stores the result along with the model
+ * identifier. Actor appearances are updated with gender at the same time.
+ *
+ * Usage:
+ *   npm run backfill:movie-mortality                # Only stale or untested movies
+ *   npm run backfill:movie-mortality -- --all       # Recompute ALL movies
+ *   npm run backfill:movie-mortality -- --limit 100 # Process at most 100 movies
+ *   npm run backfill:movie-mortality -- --dry-run   # Preview without writing
+ */
+
+import "dotenv/config"
+import { Command, InvalidArgumentError } from "commander"
+import { getMovieCredits, batchGetPersonDetails } from "../src/lib/tmdb.js"
+import {
+  getActuarialGender,
+  loadLifeTables,
+  scoreMovieMortality,
+  MORTALITY_MODEL,
+} from "../src/lib/mortality-stats.js"
+import { resolveBirthCountry } from "../src/lib/birthplace.js"
+import { limitCast, DEFAULT_CAST_DEPTH } from "../src/lib/cast-depth.js"
+import { getPool, batchUpsertActorAppearances, type ActorAppearanceRecord } from "../src/lib/db.js"
+import { calculateAgeAtFilming } from "../src/lib/movie-cache.js"
+
+interface MovieToRecalculate {
+  tmdb_id: number
+  title: string
+  release_date: string | null
+  release_year: number | null
+  mortality_model: string | null
+}
+
+function parsePositiveInt(value: string): number {
+  const parsed = parseInt(value, 10)
+  if (isNaN(parsed) || !Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Must be a positive integer")
+  }
+  return parsed
+}
+
+const program = new Command()
+  .name("backfill-movie-mortality")
+  .description("Recompute movie mortality statistics under the current mortality model")
+  .option("-a, --all", "Recompute ALL movies, not just those on an older model")
+  .option("-l, --limit <number>", "Maximum number of movies to process", parsePositiveInt)
+  .option("-n, --dry-run", "Preview changes without writing to database")
+  .action(async (options: { all?: boolean; limit?: number; dryRun?: boolean }) => {
+    await runBackfill(options.all ?? false, options.limit, options.dryRun ?? false)
+  })
+
+async function runBackfill(recalculateAll: boolean, limit: number | undefined, dryRun: boolean) {
+  // Check required environment variables
+  if (!process.env.TMDB_API_TOKEN) {
+    console.error("TMDB_API_TOKEN environment variable is required")
+    process.exit(1)
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL environment variable is required")
+    process.exit(1)
+  }
+
+  console.log(`\nRecomputing movie mortality statistics (model: ${MORTALITY_MODEL})...`)
+  console.log(`Mode: ${recalculateAll ? "ALL movies" : "Only movies on an older model"}`)
+  if (dryRun) console.log("DRY RUN - no changes will be written")
+  console.log()
+
+  const db = getPool()
+
+  try {
+    const whereClause = recalculateAll
+      ? ""
+      : "AND (mortality_model IS DISTINCT FROM $1 OR mortality_p_value IS NULL)"
+    const params: (string | number)[] = recalculateAll ? [] : [MORTALITY_MODEL]
+    const limitClause = limit ? `LIMIT $${params.length + 1}` : ""
+    if (limit) params.push(limit)
+
+    const result = await db.query<MovieToRecalculate>(
+      `SELECT tmdb_id, title, TO_CHAR(release_date, 'YYYY-MM-DD') as release_date, release_year, mortality_model
+       FROM movies
+       WHERE release_year IS NOT NULL
+         ${whereClause}
+       ORDER BY popularity DESC NULLS LAST
+       ${limitClause}`,
+      params
+    )
+
+    const movies = result.rows
+    console.log(`Found ${movies.length} movies to recompute\n`)
+
+    if (movies.length === 0) {
+      console.log("Nothing to recompute. Done!")
+      return
+    }
+
+    // Load the life tables once; each cast is then scored synchronously
+    await loadLifeTables()
+
+    let updated = 0
+    let skipped = 0
+
+    for (let i = 0; i < movies.length; i++) {
+      const movie = movies[i]
+      console.log(`[${i + 1}/${movies.length}] ${movie.title} (${movie.release_year})`)
+
+      try {
+        const credits = await getMovieCredits(movie.tmdb_id)
+        const topCast = limitCast(credits.cast, DEFAULT_CAST_DEPTH)
+        await delay(50)
+
+        if (topCast.length === 0) {
+          console.log("  No cast found, skipping")
+          skipped++
+          continue
+        }
+
+        const personIds = topCast.map((c) => c.id)
+        const personDetails = await batchGetPersonDetails(personIds, 10, 100)
+
+        const actorsForMortality = topCast.map((castMember) => {
+          const person = personDetails.get(castMember.id)
+          return {
+            tmdbId: castMember.id,
+            name: castMember.name,
+            birthday: person?.birthday || null,
+            deathday: person?.deathday || null,
+            gender: getActuarialGender(castMember.gender),
+            birthCountry: resolveBirthCountry(person?.place_of_birth),
+          }
+        })
+
+        const release = movie.release_date || movie.release_year!
+        const mortalityStats = scoreMovieMortality(release, actorsForMortality)
+
+        console.log(
+          `  ${movie.mortality_model ?? "unknown model"} -> ${mortalityStats.mortalityModel}: ` +
+            `${mortalityStats.expectedDeaths.toFixed(2)} expected, ` +
+            `${mortalityStats.actualDeaths} actual, score ${mortalityStats.mortalitySurpriseScore.toFixed(3)}, ` +
+            `p=${mortalityStats.significance.pValue.toFixed(4)}`
+        )
+
+        if (!dryRun) {
+          await db.query(
+            `UPDATE movies SET
+              cast_count = $1,
+              deceased_count = $2,
+              living_count = $3,
+              expected_deaths = $4,
+              mortality_surprise_score = $5,
+              mortality_model = $6,
+              mortality_p_value = $7,
+              expected_deaths_low = $8,
+              expected_deaths_high = $9,
+              cast_depth = $10,
+              updated_at = CURRENT_TIMESTAMP
+            WHERE tmdb_id = $11`,
+            [
+              topCast.length,
+              mortalityStats.actualDeaths,
+              topCast.length - mortalityStats.actualDeaths,
+              mortalityStats.expectedDeaths,
+              mortalityStats.mortalitySurpriseScore,
+              mortalityStats.mortalityModel,
+              mortalityStats.significance.pValue,
+              mortalityStats.significance.intervalLow,
+              mortalityStats.significance.intervalHigh,
+              DEFAULT_CAST_DEPTH,
+              movie.tmdb_id,
+            ]
+          )
+
+          const appearances: ActorAppearanceRecord[] = topCast.map((castMember, index) => {
+            const person = personDetails.get(castMember.id)
+            return {
+              actor_tmdb_id: castMember.id,
+              movie_tmdb_id: movie.tmdb_id,
+              actor_name: castMember.name,
+              character_name: castMember.character || null,
+              billing_order: index,
+              age_at_filming: calculateAgeAtFilming(person?.birthday ?? null, release),
+              is_deceased: !!person?.deathday,
+              gender: castMember.gender ?? null,
+            }
+          })
+
+          await batchUpsertActorAppearances(appearances)
+        }
+
+        updated++
+
+        // Small delay between movies
+        await delay(100)
+      } catch (error) {
+        console.error(`  Error: ${error}`)
+        skipped++
+      }
+    }
+
+    console.log("\nSummary:")
+    console.log(`  ${dryRun ? "Would update" : "Updated"}: ${updated}`)
+    console.log(`  Skipped: ${skipped}`)
+    console.log("\nDone!")
+  } catch (error) {
+    console.error("Fatal error:", error)
+    process.exit(1)
+  } finally {
+    await db.end()
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+program.parse()
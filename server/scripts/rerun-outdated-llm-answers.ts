@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+/**
+ * Re-run LLM cause-of-death lookups whose stored answer came from an older prompt
+ * version or a different model than the one configured now.
+ *
+ * Matching people are put back on the enrichment queue; the worker asks every source
+ * again, records the new answers with the current prompt version and model, and
+ * replaces the displayed cause with the newly resolved one. Locked records are
+ * skipped. Set LLM_PROVIDER / LLM_MODEL as the server would.
+ *
+ * Usage:
+ *   npm run rerun:llm-answers                 # Queue up to 500 people
+ *   npm run rerun:llm-answers -- --limit 5000 # Queue more
+ *   npm run rerun:llm-answers -- --dry-run    # Preview without queueing
+ */
+
+import "dotenv/config"
+import { Command, InvalidArgumentError } from "commander"
+import { getOutdatedLlmAnswerJobs, requeueEnrichmentJobs, getPool } from "../src/lib/db.js"
+import { getLlmProvider } from "../src/lib/llm-provider.js"
+import { CURRENT_CAUSE_OF_DEATH_PROMPT } from "../src/lib/cause-of-death-prompts.js"
+
+function parsePositiveInt(value: string): number {
+  const parsed = parseInt(value, 10)
+  if (isNaN(parsed) || !Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Must be a positive integer")
+  }
+  return parsed
+}
+
+const program = new Command()
+  .name("rerun-outdated-llm-answers")
+  .description("Queue people whose LLM cause-of-death answer is from an outdated prompt or model")
+  .option("-l, --limit <number>", "Maximum number of people to queue", parsePositiveInt, 500)
+  .option("-n, --dry-run", "Preview without queueing jobs")
+  .action(async (options: { limit: number; dryRun?: boolean }) => {
+    await runRerun(options)
+  })
+
+async function runRerun({ limit, dryRun }: { limit: number; dryRun?: boolean }) {
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL environment variable is required")
+    process.exit(1)
+  }
+
+  const provider = getLlmProvider()
+  if (!provider) {
+    console.error("No LLM provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER=stub)")
+    process.exit(1)
+  }
+
+  const promptVersion = CURRENT_CAUSE_OF_DEATH_PROMPT.id
+  console.log(`\nCurrent prompt: ${promptVersion}, model: ${provider.model}`)
+  if (dryRun) {
+    console.log("(DRY RUN - no jobs will be queued)")
+  }
+
+  const db = getPool()
+
+  try {
+    const jobs = await getOutdatedLlmAnswerJobs(promptVersion, provider.model, limit)
+    console.log(`Found ${jobs.length} people with outdated answers\n`)
+
+    for (const job of jobs.slice(0, 20)) {
+      console.log(`  ${job.person_name} (${job.person_tmdb_id})`)
+    }
+    if (jobs.length > 20) {
+      console.log(`  ...and ${jobs.length - 20} more`)
+    }
+
+    if (!dryRun) {
+      const queued = await requeueEnrichmentJobs(jobs)
+      console.log(`\nQueued ${queued} jobs (people already queued are left as they are)`)
+    }
+    console.log("\nDone!")
+  } catch (error) {
+    console.error("Fatal error:", error)
+    process.exit(1)
+  } finally {
+    await db.end()
+  }
+}
+
+program.parse()
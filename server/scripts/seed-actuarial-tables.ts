@@ -60,9 +60,9 @@ async function runSeed() {
     console.log(`Source: ${data.source}`)
     console.log(`Notes: ${data.notes}\n`)
 
-    // Clear existing data
+    // Clear existing period data (cohort curves are seeded separately)
     console.log("Clearing existing actuarial data...")
-    await pool.query("DELETE FROM actuarial_life_tables")
+    await pool.query("DELETE FROM actuarial_life_tables WHERE table_type = 'period'")
 
     // Use 2022 as the birth year for this period life table
     // (The table represents mortality rates as of 2022)
@@ -109,7 +109,7 @@ async function runSeed() {
 
     // Verify the data
     const result = await pool.query(
-      "SELECT gender, COUNT(*) as count FROM actuarial_life_tables GROUP BY gender"
+      "SELECT gender, COUNT(*) as count FROM actuarial_life_tables WHERE table_type = 'period' GROUP BY gender"
     )
     console.log("\nSummary:")
     for (const row of result.rows) {
@@ -121,7 +121,7 @@ async function runSeed() {
     const sampleResult = await pool.query(`
       SELECT age, gender, death_probability, life_expectancy
       FROM actuarial_life_tables
-      WHERE age IN (0, 50, 80) AND gender = 'combined'
+      WHERE age IN (0, 50, 80) AND gender = 'combined' AND table_type = 'period'
       ORDER BY age
     `)
     for (const row of sampleResult.rows) {
@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+/**
+ * Seed script to populate per-birth-cohort qx curves in actuarial_life_tables.
+ *
+ * Uses US Social Security Administration Actuarial Study No. 120 cohort life
+ * tables, which give the probability of dying at each age for people born in a
+ * given year (historical rates for ages already lived, projected rates beyond).
+ * Rows are stored with table_type = 'cohort' and birth_year set to the cohort's
+ * actual year of birth. The 2022 period table seeded by `npm run seed:actuarial`
+ * is left untouched and remains the fallback.
+ *
+ * Expected JSON format:
+ *   {
+ *     "source": "...",
+ *     "url": "...",
+ *     "notes": "...",
+ *     "cohorts": [
+ *       { "birthYear": 1900, "male": [{ "age": 0, "qx": 0.1456 }, ...], "female": [...] },
+ *       ...
+ *     ]
+ *   }
+ *
+ * The data is read from data/cohort-life-tables.json.
+ *
+ * Usage:
+ *   npm run seed:cohort-tables
+ */
+
+import "dotenv/config"
+import { Command } from "commander"
+import { Pool } from "pg"
+import { existsSync, readFileSync } from "fs"
+import { join, dirname } from "path"
+import { fileURLToPath } from "url"
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+interface CohortQxEntry {
+  age: number
+  qx: number // Death probability
+}
+
+interface CohortTable {
+  birthYear: number
+  male: CohortQxEntry[]
+  female: CohortQxEntry[]
+}
+
+interface CohortTablesData {
+  source: string
+  url: string
+  notes: string
+  cohorts: CohortTable[]
+}
+
+const program = new Command()
+  .name("seed-cohort-life-tables")
+  .description("Seed per-birth-cohort qx curves from US Social Security Administration data")
+  .action(async () => {
+    await runSeed()
+  })
+
+async function runSeed() {
+  // Check required environment variables
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL environment variable is required")
+    process.exit(1)
+  }
+
+  const dataPath = join(__dirname, "..", "data", "cohort-life-tables.json")
+  if (!existsSync(dataPath)) {
+    console.error(`Cohort life tables not found: ${dataPath}`)
+    console.error(
+      "Convert the SSA Actuarial Study No. 120 cohort tables to the JSON format described in this script."
+    )
+    process.exit(1)
+  }
+
+  console.log("\nSeeding cohort life tables...\n")
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    const rawData = readFileSync(dataPath, "utf-8")
+    const data: CohortTablesData = JSON.parse(rawData)
+
+    console.log(`Source: ${data.source}`)
+    console.log(`URL: ${data.url}`)
+    console.log(`Notes: ${data.notes}\n`)
+
+    // Clear existing cohort data (the period table is kept as the fallback)
+    console.log("Clearing existing cohort qx data...")
+    await pool.query("DELETE FROM actuarial_life_tables WHERE table_type = 'cohort'")
+
+    const insertQuery = `
+      INSERT INTO actuarial_life_tables (table_type, birth_year, age, gender, death_probability)
+      VALUES ('cohort', $1, $2, $3, $4)
+    `
+
+    for (const cohort of data.cohorts) {
+      for (const entry of cohort.male) {
+        await pool.query(insertQuery, [cohort.birthYear, entry.age, "male", entry.qx])
+      }
+      for (const entry of cohort.female) {
+        await pool.query(insertQuery, [cohort.birthYear, entry.age, "female", entry.qx])
+      }
+
+      // Also create "combined" entries by averaging male and female
+      const femaleByAge = new Map(cohort.female.map((e) => [e.age, e.qx]))
+      let combinedCount = 0
+      for (const male of cohort.male) {
+        const femaleQx = femaleByAge.get(male.age)
+        if (femaleQx !== undefined) {
+          await pool.query(insertQuery, [
+            cohort.birthYear,
+            male.age,
+            "combined",
+            (male.qx + femaleQx) / 2,
+          ])
+          combinedCount++
+        }
+      }
+
+      console.log(
+        `  Born ${cohort.birthYear}: ${cohort.male.length} male, ${cohort.female.length} female, ${combinedCount} combined entries`
+      )
+    }
+
+    // Verify the data
+    const result = await pool.query(
+      `SELECT gender, COUNT(DISTINCT birth_year) as cohorts, COUNT(*) as count
+       FROM actuarial_life_tables
+       WHERE table_type = 'cohort'
+       GROUP BY gender`
+    )
+    console.log("\nSummary:")
+    for (const row of result.rows) {
+      console.log(`  ${row.gender}: ${row.cohorts} cohorts, ${row.count} entries`)
+    }
+
+    console.log("\nDone!")
+  } catch (error) {
+    console.error("Fatal error:", error)
+    process.exit(1)
+  } finally {
+    await pool.end()
+  }
+}
+
+program.parse()
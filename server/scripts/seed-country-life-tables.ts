@@ -0,0 +1,179 @@
+#!/usr/bin/env tsx
+/**
+ * Seed script to populate country_life_tables with non-US period life tables.
+ *
+ * Actors born outside the US are evaluated against their birth country's
+ * mortality rates when a table exists here (e.g. from the Human Mortality
+ * Database or national statistics offices). Countries without a table fall
+ * back to the US SSA tables. US rows are skipped since the SSA data in
+ * actuarial_life_tables is always used for the US.
+ *
+ * Expected JSON format:
+ *   {
+ *     "source": "...",
+ *     "notes": "...",
+ *     "countries": [
+ *       {
+ *         "country": "GB",
+ *         "source": "ONS National Life Tables 2020-2022",
+ *         "male": [{ "age": 0, "qx": 0.0041, "lx": 100000, "ex": 78.6 }, ...],
+ *         "female": [...]
+ *       },
+ *       ...
+ *     ]
+ *   }
+ *
+ * The country field is an ISO 3166-1 alpha-2 code (see src/lib/birthplace.ts).
+ * lx and ex are optional. The data is read from data/country-life-tables.json, which
+ * the server also seeds on startup when country_life_tables is empty. Run this script
+ * to reseed after editing the file.
+ *
+ * Usage:
+ *   npm run seed:country-tables
+ */
+
+import "dotenv/config"
+import { Command } from "commander"
+import { Pool } from "pg"
+import { existsSync, readFileSync } from "fs"
+import { join, dirname } from "path"
+import { fileURLToPath } from "url"
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+interface CountryLifeTableEntry {
+  age: number
+  qx: number // Death probability
+  lx?: number // Survivors per 100k
+  ex?: number // Life expectancy
+}
+
+interface CountryLifeTable {
+  country: string
+  source?: string
+  male: CountryLifeTableEntry[]
+  female: CountryLifeTableEntry[]
+}
+
+interface CountryLifeTablesData {
+  source: string
+  notes: string
+  countries: CountryLifeTable[]
+}
+
+const program = new Command()
+  .name("seed-country-life-tables")
+  .description("Seed non-US period life tables used for actors born outside the US")
+  .action(async () => {
+    await runSeed()
+  })
+
+function average(a: number | undefined, b: number | undefined): number | null {
+  return a !== undefined && b !== undefined ? (a + b) / 2 : null
+}
+
+async function runSeed() {
+  // Check required environment variables
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL environment variable is required")
+    process.exit(1)
+  }
+
+  const dataPath = join(__dirname, "..", "data", "country-life-tables.json")
+  if (!existsSync(dataPath)) {
+    console.error(`Country life tables not found: ${dataPath}`)
+    console.error(
+      "Convert national period life tables to the JSON format described in this script."
+    )
+    process.exit(1)
+  }
+
+  console.log("\nSeeding country life tables...\n")
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    const rawData = readFileSync(dataPath, "utf-8")
+    const data: CountryLifeTablesData = JSON.parse(rawData)
+
+    console.log(`Source: ${data.source}`)
+    console.log(`Notes: ${data.notes}\n`)
+
+    console.log("Clearing existing country life tables...")
+    await pool.query("DELETE FROM country_life_tables")
+
+    const insertQuery = `
+      INSERT INTO country_life_tables
+      (country_code, age, gender, death_probability, life_expectancy, survivors_per_100k, source)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `
+
+    for (const table of data.countries) {
+      const country = table.country.toUpperCase()
+      if (country === "US") {
+        console.log("  Skipping US (SSA tables are used for the US)")
+        continue
+      }
+      const source = table.source ?? data.source
+
+      for (const gender of ["male", "female"] as const) {
+        for (const entry of table[gender]) {
+          await pool.query(insertQuery, [
+            country,
+            entry.age,
+            gender,
+            entry.qx,
+            entry.ex ?? null,
+            entry.lx ?? null,
+            source,
+          ])
+        }
+      }
+
+      // Also create "combined" entries by averaging male and female
+      const femaleByAge = new Map(table.female.map((e) => [e.age, e]))
+      let combinedCount = 0
+      for (const male of table.male) {
+        const female = femaleByAge.get(male.age)
+        if (female) {
+          const lx = average(male.lx, female.lx)
+          await pool.query(insertQuery, [
+            country,
+            male.age,
+            "combined",
+            (male.qx + female.qx) / 2,
+            average(male.ex, female.ex),
+            lx !== null ? Math.round(lx) : null,
+            source,
+          ])
+          combinedCount++
+        }
+      }
+
+      console.log(
+        `  ${country}: ${table.male.length} male, ${table.female.length} female, ${combinedCount} combined entries`
+      )
+    }
+
+    // Verify the data
+    const result = await pool.query(
+      `SELECT country_code, COUNT(*) as count
+       FROM country_life_tables
+       GROUP BY country_code
+       ORDER BY country_code`
+    )
+    console.log("\nSummary:")
+    for (const row of result.rows) {
+      console.log(`  ${row.country_code}: ${row.count} entries`)
+    }
+
+    console.log("\nDone!")
+  } catch (error) {
+    console.error("Fatal error:", error)
+    process.exit(1)
+  } finally {
+    await pool.end()
+  }
+}
+
+program.parse()
@@ -22,7 +22,7 @@ import {
 } from "../src/lib/tmdb.js"
 import { getCauseOfDeath } from "../src/lib/wikidata.js"
 import { batchUpsertDeceasedPersons, type DeceasedPersonRecord } from "../src/lib/db.js"
-import { calculateYearsLost } from "../src/lib/mortality-stats.js"
+import { calculateYearsLost, getActuarialGender } from "../src/lib/mortality-stats.js"
 
 const MOVIES_TO_FETCH = 100 // Top 100 movies per year range
 const CAST_LIMIT = 30 // Top 30 actors per movie
@@ -140,7 +140,11 @@ async function runSeeding(startYear: number, endYear: number) {
         } = await getCauseOfDeath(actor.name, actor.birthday, actor.deathday!)
 
         // Calculate mortality stats
-        const yearsLostResult = await calculateYearsLost(actor.birthday, actor.deathday!)
+        const yearsLostResult = await calculateYearsLost(
+          actor.birthday,
+          actor.deathday!,
+          getActuarialGender(actor.gender)
+        )
 
         records.push({
           tmdb_id: actor.id,
@@ -170,7 +174,11 @@ async function runSeeding(startYear: number, endYear: number) {
         console.error(`    Error: ${error}`)
         // Still add the record without cause of death
         // Calculate mortality stats even if cause of death lookup failed
-        const yearsLostResult = await calculateYearsLost(actor.birthday, actor.deathday!)
+        const yearsLostResult = await calculateYearsLost(
+          actor.birthday,
+          actor.deathday!,
+          getActuarialGender(actor.gender)
+        )
 
         records.push({
           tmdb_id: actor.id,
@@ -192,7 +200,7 @@ async function runSeeding(startYear: number, endYear: number) {
 
     // Step 6: Save to database
     console.log("\nSaving to database...")
-    await batchUpsertDeceasedPersons(records)
+    await batchUpsertDeceasedPersons(records, { actor: "seed", reason: "seed-deceased-actors" })
     console.log(`Successfully inserted/updated ${records.length} records\n`)
 
     // Summary
@@ -14,7 +14,10 @@
 import "dotenv/config"
 import { Command, InvalidArgumentError } from "commander"
 import { getMovieDetails, getMovieCredits, batchGetPersonDetails } from "../src/lib/tmdb.js"
-import { calculateMovieMortality } from "../src/lib/mortality-stats.js"
+import { calculateMovieMortality, getActuarialGender } from "../src/lib/mortality-stats.js"
+import { resolveBirthCountry } from "../src/lib/birthplace.js"
+import { limitCast, DEFAULT_CAST_DEPTH } from "../src/lib/cast-depth.js"
+import { calculateAgeAtFilming } from "../src/lib/movie-cache.js"
 import {
   upsertMovie,
   batchUpsertActorAppearances,
@@ -23,8 +26,6 @@ import {
   type ActorAppearanceRecord,
 } from "../src/lib/db.js"
 
-const CAST_LIMIT = 30
-
 function parsePositiveInt(value: string): number {
   const parsed = parseInt(value, 10)
   if (isNaN(parsed) || !Number.isInteger(parsed) || parsed <= 0) {
@@ -55,8 +56,6 @@ async function seedMovie(tmdbId: number) {
   console.log(`\nSeeding movie with TMDB ID: ${tmdbId}...\n`)
 
   try {
-    const currentYear = new Date().getFullYear()
-
     // Get full movie details
     console.log("Fetching movie details...")
     const details = await getMovieDetails(tmdbId)
@@ -66,7 +65,7 @@ async function seedMovie(tmdbId: number) {
     // Get credits
     console.log("Fetching credits...")
     const credits = await getMovieCredits(tmdbId)
-    const topCast = credits.cast.slice(0, CAST_LIMIT)
+    const topCast = limitCast(credits.cast, DEFAULT_CAST_DEPTH)
     console.log(`  Found ${topCast.length} cast members`)
 
     // Get person details for cast
@@ -82,15 +81,16 @@ async function seedMovie(tmdbId: number) {
         name: castMember.name,
         birthday: person?.birthday || null,
         deathday: person?.deathday || null,
+        gender: getActuarialGender(castMember.gender),
+        birthCountry: resolveBirthCountry(person?.place_of_birth),
       }
     })
 
     // Calculate mortality statistics
     console.log("Calculating mortality statistics...")
     const mortalityStats = await calculateMovieMortality(
-      releaseYear,
-      actorsForMortality,
-      currentYear
+      details.release_date || releaseYear,
+      actorsForMortality
     )
 
     // Save movie to database
@@ -109,6 +109,11 @@ async function seedMovie(tmdbId: number) {
       living_count: topCast.length - mortalityStats.actualDeaths,
       expected_deaths: mortalityStats.expectedDeaths,
       mortality_surprise_score: mortalityStats.mortalitySurpriseScore,
+      mortality_model: mortalityStats.mortalityModel,
+      mortality_p_value: mortalityStats.significance.pValue,
+      expected_deaths_low: mortalityStats.significance.intervalLow,
+      expected_deaths_high: mortalityStats.significance.intervalHigh,
+      cast_depth: DEFAULT_CAST_DEPTH,
     }
 
     await upsertMovie(movieRecord)
@@ -124,12 +129,10 @@ async function seedMovie(tmdbId: number) {
     for (const castMember of topCast) {
       const person = personDetails.get(castMember.id)
       const birthday = person?.birthday
-      let ageAtFilming: number | null = null
-
-      if (birthday && releaseYear) {
-        const birthYear = parseInt(birthday.split("-")[0], 10)
-        ageAtFilming = releaseYear - birthYear
-      }
+      const ageAtFilming = calculateAgeAtFilming(
+        birthday ?? null,
+        details.release_date || releaseYear || null
+      )
 
       appearances.push({
         actor_tmdb_id: castMember.id,
@@ -139,25 +142,29 @@ async function seedMovie(tmdbId: number) {
         billing_order: topCast.indexOf(castMember),
         age_at_filming: ageAtFilming,
         is_deceased: !!person?.deathday,
+        gender: castMember.gender ?? null,
       })
 
       // Also upsert deceased person if they're dead
       if (person?.deathday) {
-        await upsertDeceasedPerson({
-          tmdb_id: castMember.id,
-          name: castMember.name,
-          birthday: person.birthday || null,
-          deathday: person.deathday,
-          cause_of_death: null,
-          cause_of_death_source: null,
-          cause_of_death_details: null,
-          cause_of_death_details_source: null,
-          wikipedia_url: null,
-          profile_path: person.profile_path || null,
-          age_at_death: null,
-          expected_lifespan: null,
-          years_lost: null,
-        })
+        await upsertDeceasedPerson(
+          {
+            tmdb_id: castMember.id,
+            name: castMember.name,
+            birthday: person.birthday || null,
+            deathday: person.deathday,
+            cause_of_death: null,
+            cause_of_death_source: null,
+            cause_of_death_details: null,
+            cause_of_death_details_source: null,
+            wikipedia_url: null,
+            profile_path: person.profile_path || null,
+            age_at_death: null,
+            expected_lifespan: null,
+            years_lost: null,
+          },
+          { actor: "seed", reason: `seed-movie-by-id ${tmdbId}` }
+        )
         deceasedCount++
         console.log(`  - ${castMember.name} (deceased)`)
       }
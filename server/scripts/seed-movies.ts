@@ -27,16 +27,18 @@ import {
   batchGetPersonDetails,
   type TMDBMovie,
 } from "../src/lib/tmdb.js"
-import { calculateMovieMortality } from "../src/lib/mortality-stats.js"
+import { calculateMovieMortality, getActuarialGender } from "../src/lib/mortality-stats.js"
+import { resolveBirthCountry } from "../src/lib/birthplace.js"
+import { limitCast, DEFAULT_CAST_DEPTH } from "../src/lib/cast-depth.js"
 import {
   upsertMovie,
   batchUpsertActorAppearances,
   type MovieRecord,
   type ActorAppearanceRecord,
 } from "../src/lib/db.js"
+import { calculateAgeAtFilming } from "../src/lib/movie-cache.js"
 
 const DEFAULT_MOVIES_TO_FETCH = 200
-const CAST_LIMIT = 30 // Top 30 actors per movie
 const EARLIEST_YEAR = 1920
 
 function parsePositiveInt(value: string): number {
@@ -136,7 +138,6 @@ async function runSeeding({ startYear, endYear, moviesPerYear }: SeedOptions) {
   try {
     let grandTotalMoviesSaved = 0
     let grandTotalActorAppearances = 0
-    const currentYear = new Date().getFullYear()
 
     // Process each year individually
     for (let year = startYear; year <= endYear; year++) {
@@ -165,7 +166,7 @@ async function runSeeding({ startYear, endYear, moviesPerYear }: SeedOptions) {
 
           // Get credits
           const credits = await getMovieCredits(movie.id)
-          const topCast = credits.cast.slice(0, CAST_LIMIT)
+          const topCast = limitCast(credits.cast, DEFAULT_CAST_DEPTH)
           await delay(50)
 
           // Get person details for cast
@@ -180,15 +181,16 @@ async function runSeeding({ startYear, endYear, moviesPerYear }: SeedOptions) {
               name: castMember.name,
               birthday: person?.birthday || null,
               deathday: person?.deathday || null,
+              gender: getActuarialGender(castMember.gender),
+              birthCountry: resolveBirthCountry(person?.place_of_birth),
             }
           })
 
           // Calculate mortality statistics
           const releaseYear = parseInt(movie.release_date?.split("-")[0] || "0", 10)
           const mortalityStats = await calculateMovieMortality(
-            releaseYear,
-            actorsForMortality,
-            currentYear
+            movie.release_date || releaseYear,
+            actorsForMortality
           )
 
           // Save movie to database
@@ -207,6 +209,11 @@ async function runSeeding({ startYear, endYear, moviesPerYear }: SeedOptions) {
             living_count: topCast.length - mortalityStats.actualDeaths,
             expected_deaths: mortalityStats.expectedDeaths,
             mortality_surprise_score: mortalityStats.mortalitySurpriseScore,
+            mortality_model: mortalityStats.mortalityModel,
+            mortality_p_value: mortalityStats.significance.pValue,
+            expected_deaths_low: mortalityStats.significance.intervalLow,
+            expected_deaths_high: mortalityStats.significance.intervalHigh,
+            cast_depth: DEFAULT_CAST_DEPTH,
           }
 
           await upsertMovie(movieRecord)
@@ -220,12 +227,10 @@ async function runSeeding({ startYear, endYear, moviesPerYear }: SeedOptions) {
           const appearances: ActorAppearanceRecord[] = topCast.map((castMember, index) => {
             const person = personDetails.get(castMember.id)
             const birthday = person?.birthday
-            let ageAtFilming: number | null = null
-
-            if (birthday && releaseYear) {
-              const birthYear = parseInt(birthday.split("-")[0], 10)
-              ageAtFilming = releaseYear - birthYear
-            }
+            const ageAtFilming = calculateAgeAtFilming(
+              birthday ?? null,
+              movie.release_date || releaseYear || null
+            )
 
             return {
               actor_tmdb_id: castMember.id,
@@ -235,6 +240,7 @@ async function runSeeding({ startYear, endYear, moviesPerYear }: SeedOptions) {
               billing_order: index,
               age_at_filming: ageAtFilming,
               is_deceased: !!person?.deathday,
+              gender: castMember.gender ?? null,
             }
           })
 
@@ -41,7 +41,13 @@ import {
   type TMDBPerson,
 } from "../src/lib/tmdb.js"
 import { getCauseOfDeath } from "../src/lib/wikidata.js"
-import { calculateYearsLost, calculateMovieMortality } from "../src/lib/mortality-stats.js"
+import {
+  calculateYearsLost,
+  calculateMovieMortality,
+  getActuarialGender,
+} from "../src/lib/mortality-stats.js"
+import { resolveBirthCountry } from "../src/lib/birthplace.js"
+import { limitCast, DEFAULT_CAST_DEPTH } from "../src/lib/cast-depth.js"
 import { formatDate, subtractDays, getDateRanges } from "../src/lib/date-utils.js"
 
 const SYNC_TYPE_PEOPLE = "person_changes"
@@ -205,12 +211,9 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
-const CAST_LIMIT = 30
-
 // Helper to update a movie's mortality stats - used by both people and movie sync
 async function updateMovieMortalityStats(
   movieId: number,
-  currentYear: number,
   dryRun: boolean
 ): Promise<{ updated: boolean; title?: string; error?: string }> {
   try {
@@ -219,7 +222,7 @@ async function updateMovieMortalityStats(
       getMovieCredits(movieId),
     ])
 
-    const topCast = credits.cast.slice(0, CAST_LIMIT)
+    const topCast = limitCast(credits.cast, DEFAULT_CAST_DEPTH)
     const personIds = topCast.map((c) => c.id)
     const personDetails = await batchGetPersonDetails(personIds, 10, 100)
 
@@ -236,13 +239,14 @@ async function updateMovieMortalityStats(
         name: castMember.name,
         birthday: person?.birthday || null,
         deathday: person?.deathday || null,
+        gender: getActuarialGender(castMember.gender),
+        birthCountry: resolveBirthCountry(person?.place_of_birth),
       }
     })
 
     const mortalityStats = await calculateMovieMortality(
-      releaseYear,
-      actorsForMortality,
-      currentYear
+      details.release_date || releaseYear,
+      actorsForMortality
     )
 
     if (!dryRun) {
@@ -261,6 +265,11 @@ async function updateMovieMortalityStats(
         living_count: topCast.length - mortalityStats.actualDeaths,
         expected_deaths: mortalityStats.expectedDeaths,
         mortality_surprise_score: mortalityStats.mortalitySurpriseScore,
+        mortality_model: mortalityStats.mortalityModel,
+        mortality_p_value: mortalityStats.significance.pValue,
+        expected_deaths_low: mortalityStats.significance.intervalLow,
+        expected_deaths_high: mortalityStats.significance.intervalHigh,
+        cast_depth: DEFAULT_CAST_DEPTH,
       }
 
       await upsertMovie(movieRecord)
@@ -368,9 +377,8 @@ async function syncPeopleChanges(
     )
     console.log(`  Found ${affectedMovies.length} affected movies`)
 
-    const currentYear = new Date().getFullYear()
     for (const { movie_tmdb_id: movieId } of affectedMovies) {
-      const result = await updateMovieMortalityStats(movieId, currentYear, false)
+      const result = await updateMovieMortalityStats(movieId, false)
       if (result.error) {
         console.error(`    ${result.error}`)
         errors.push(result.error)
@@ -395,7 +403,11 @@ async function processNewDeath(person: TMDBPerson): Promise<void> {
   } = await getCauseOfDeath(person.name, person.birthday, person.deathday!)
 
   // Calculate mortality stats
-  const yearsLostResult = await calculateYearsLost(person.birthday, person.deathday!)
+  const yearsLostResult = await calculateYearsLost(
+    person.birthday,
+    person.deathday!,
+    getActuarialGender(person.gender)
+  )
 
   // Create deceased person record
   const record: DeceasedPersonRecord = {
@@ -414,7 +426,7 @@ async function processNewDeath(person: TMDBPerson): Promise<void> {
     years_lost: yearsLostResult?.yearsLost ?? null,
   }
 
-  await upsertDeceasedPerson(record)
+  await upsertDeceasedPerson(record, { actor: "sync", reason: "TMDB changes sync" })
 
   if (causeOfDeath) {
     console.log(`    -> ${causeOfDeath} (${causeOfDeathSource})`)
@@ -431,7 +443,6 @@ async function syncMovieChanges(
   console.log(`\n=== Syncing Movie Changes (${startDate} to ${endDate}) ===\n`)
 
   const errors: string[] = []
-  const currentYear = new Date().getFullYear()
 
   // Get all movies in our database
   console.log("Loading movie IDs from database...")
@@ -471,7 +482,7 @@ async function syncMovieChanges(
   for (const movieId of relevantIds) {
     console.log(`  Processing movie ${movieId}...`)
 
-    const result = await updateMovieMortalityStats(movieId, currentYear, dryRun)
+    const result = await updateMovieMortalityStats(movieId, dryRun)
     if (result.error) {
       console.error(`    ${result.error}`)
       errors.push(result.error)
@@ -9,16 +9,47 @@ import { searchMovies } from "./routes/search.js"
 import { getMovie } from "./routes/movie.js"
 import { getOnThisDay } from "./routes/on-this-day.js"
 import { getDeathInfoRoute } from "./routes/death-info.js"
-import { getDiscoverMovie, getCursedMovies, getCursedMoviesFilters } from "./routes/discover.js"
-import { getStats, getRecentDeathsHandler, getCovidDeathsHandler } from "./routes/stats.js"
+import { getMovieSurvivalCurve } from "./routes/survival-curve.js"
+import { getMovieProjection } from "./routes/projection.js"
+import {
+  getDiscoverMovie,
+  getCursedMovies,
+  getCursedMoviesFilters,
+  getCursedMoviesFunnel,
+  getBlessedMovies,
+} from "./routes/discover.js"
+import { getStats, getRecentDeathsHandler } from "./routes/stats.js"
+import { getCausesIndex, getCauseDeaths, getCovidDeathsHandler } from "./routes/causes.js"
 import { getCursedActorsRoute } from "./routes/actors.js"
+import { getCursedDirectorsRoute } from "./routes/directors.js"
 import { getActor } from "./routes/actor.js"
+import { getActorCollaboratorsRoute } from "./routes/collaborators.js"
+import { getConnections, searchConnectionActors } from "./routes/connections.js"
 import { getDeathWatchHandler } from "./routes/death-watch.js"
+import { getMortalityAnalytics } from "./routes/analytics.js"
+import { submitPersonFeedback } from "./routes/feedback.js"
+import {
+  getAdminSession,
+  searchAdminPersons,
+  getAdminPerson,
+  updateAdminPerson,
+  getAdminPersonHistory,
+  revertAdminPerson,
+  getAdminFeedbackQueue,
+  reviewAdminFeedback,
+  getAdminLowConfidenceQueue,
+} from "./routes/admin.js"
+import { requireAdmin } from "./lib/admin-auth.js"
 import { initializeDatabase } from "./lib/startup.js"
+import { startEnrichmentWorker } from "./lib/enrichment-queue.js"
+import { parseTrustProxyHops } from "./lib/trust-proxy.js"
 
 const app = express()
 const PORT = process.env.PORT || 8080
 
+// Behind the load balancer: take the client IP from X-Forwarded-For (feedback rate limits)
+app.set("trust proxy", parseTrustProxyHops(process.env.TRUST_PROXY_HOPS))
+
 // Middleware
 app.use(cors())
 app.use(express.json())
@@ -43,16 +74,40 @@ app.get("/health", (_req, res) => {
 app.get("/api/search", searchMovies)
 app.get("/api/movie/:id", getMovie)
 app.get("/api/movie/:id/death-info", getDeathInfoRoute)
+app.get("/api/movie/:id/survival-curve", getMovieSurvivalCurve)
+app.get("/api/movie/:id/projection", getMovieProjection)
 app.get("/api/on-this-day", getOnThisDay)
 app.get("/api/discover/:type", getDiscoverMovie)
 app.get("/api/cursed-movies", getCursedMovies)
+app.get("/api/cursed-movies/funnel", getCursedMoviesFunnel)
 app.get("/api/cursed-movies/filters", getCursedMoviesFilters)
+app.get("/api/blessed-movies", getBlessedMovies)
 app.get("/api/stats", getStats)
 app.get("/api/recent-deaths", getRecentDeathsHandler)
-app.get("/api/covid-deaths", getCovidDeathsHandler)
+app.get("/api/causes", getCausesIndex)
+app.get("/api/causes/:slug", getCauseDeaths)
+app.get("/api/covid-deaths", getCovidDeathsHandler) // Deprecated alias for /api/causes/covid-19
 app.get("/api/cursed-actors", getCursedActorsRoute)
+app.get("/api/cursed-directors", getCursedDirectorsRoute)
 app.get("/api/actor/:id", getActor)
+app.get("/api/actor/:id/collaborators", getActorCollaboratorsRoute)
+app.get("/api/connections", getConnections)
+app.get("/api/connections/actors", searchConnectionActors)
 app.get("/api/death-watch", getDeathWatchHandler)
+app.get("/api/analytics/mortality", getMortalityAnalytics)
+app.post("/api/person/:id/feedback", submitPersonFeedback)
+
+// Moderation console (admin-only)
+app.use("/api/admin", requireAdmin)
+app.get("/api/admin/session", getAdminSession)
+app.get("/api/admin/persons", searchAdminPersons)
+app.get("/api/admin/persons/:id", getAdminPerson)
+app.patch("/api/admin/persons/:id", updateAdminPerson)
+app.get("/api/admin/persons/:id/history", getAdminPersonHistory)
+app.post("/api/admin/persons/:id/history/:entryId/revert", revertAdminPerson)
+app.get("/api/admin/feedback", getAdminFeedbackQueue)
+app.patch("/api/admin/feedback/:id", reviewAdminFeedback)
+app.get("/api/admin/low-confidence", getAdminLowConfidenceQueue)
 
 // Initialize database and start server
 async function startServer() {
@@ -60,6 +115,11 @@ async function startServer() {
     // Initialize database (runs migrations and seeds required data)
     await initializeDatabase()
 
+    // Process queued cause-of-death enrichment jobs
+    if (process.env.DATABASE_URL) {
+      startEnrichmentWorker()
+    }
+
     // Start accepting requests
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`)
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import type { NextFunction, Request, Response } from "express"
+import { findAdminUser, parseAdminTokens, requireAdmin } from "./admin-auth.js"
+
+describe("parseAdminTokens", () => {
+  it("parses name:token pairs and skips malformed entries", () => {
+    const tokens = parseAdminTokens(" alice:secret-1 , bob:secret-2,broken,:no-name,carol:")
+
+    expect(tokens.map((t) => t.name)).toEqual(["alice", "bob"])
+  })
+
+  it("returns no tokens when unset", () => {
+    expect(parseAdminTokens(undefined)).toEqual([])
+    expect(parseAdminTokens("")).toEqual([])
+  })
+
+  it("keeps colons inside tokens", () => {
+    const tokens = parseAdminTokens("alice:abc:def")
+
+    expect(findAdminUser(tokens, "abc:def")).toBe("alice")
+  })
+})
+
+describe("findAdminUser", () => {
+  const tokens = parseAdminTokens("alice:secret-1,bob:secret-2")
+
+  it("returns the admin a token belongs to", () => {
+    expect(findAdminUser(tokens, "secret-2")).toBe("bob")
+  })
+
+  it("returns null for an unknown token", () => {
+    expect(findAdminUser(tokens, "secret-3")).toBeNull()
+    expect(findAdminUser(tokens, "")).toBeNull()
+  })
+})
+
+describe("requireAdmin", () => {
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+  let next: NextFunction
+
+  function request(authorization?: string): Request {
+    return {
+      get: (name: string) => (name.toLowerCase() === "authorization" ? authorization : undefined),
+    } as Request
+  }
+
+  beforeEach(() => {
+    process.env.ADMIN_API_TOKENS = "alice:secret-1"
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+      locals: {},
+    }
+    next = vi.fn()
+  })
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_TOKENS
+  })
+
+  it("lets a valid bearer token through and records the admin", () => {
+    requireAdmin(request("Bearer secret-1"), mockRes as Response, next)
+
+    expect(next).toHaveBeenCalled()
+    expect(mockRes.locals!.adminUser).toBe("alice")
+  })
+
+  it("returns 401 for a missing or wrong token", () => {
+    requireAdmin(request(), mockRes as Response, next)
+    requireAdmin(request("Bearer nope"), mockRes as Response, next)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(statusSpy).toHaveBeenCalledTimes(2)
+    expect(statusSpy).toHaveBeenCalledWith(401)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "Unauthorized" } })
+  })
+
+  it("returns 503 when no admin tokens are configured", () => {
+    delete process.env.ADMIN_API_TOKENS
+
+    requireAdmin(request("Bearer secret-1"), mockRes as Response, next)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(statusSpy).toHaveBeenCalledWith(503)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Authentication for the moderation console's /api/admin routes.
+ *
+ * Each team member gets their own bearer token, configured as comma-separated
+ * name:token pairs in ADMIN_API_TOKENS. The name is who gets credited with
+ * edits and reviews. Without ADMIN_API_TOKENS the admin API is disabled.
+ */
+import { createHash, timingSafeEqual } from "node:crypto"
+import type { NextFunction, Request, Response } from "express"
+
+export interface AdminToken {
+  name: string
+  digest: Buffer
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest()
+}
+
+/**
+ * Parse ADMIN_API_TOKENS ("alice:token1,bob:token2"). Malformed entries are skipped.
+ */
+export function parseAdminTokens(value: string | undefined): AdminToken[] {
+  if (!value) return []
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .map((entry) => {
+      const separator = entry.indexOf(":")
+      if (separator === -1) return { name: "", token: "" }
+      return {
+        name: entry.slice(0, separator).trim(),
+        token: entry.slice(separator + 1).trim(),
+      }
+    })
+    .filter(({ name, token }) => name && token)
+    .map(({ name, token }) => ({ name, digest: digest(token) }))
+}
+
+/**
+ * Find the admin a token belongs to. Compares digests in constant time so the
+ * response time doesn't leak how much of a token was right.
+ */
+export function findAdminUser(tokens: AdminToken[], token: string): string | null {
+  const candidate = digest(token)
+  let user: string | null = null
+  for (const admin of tokens) {
+    if (timingSafeEqual(admin.digest, candidate)) {
+      user = admin.name
+    }
+  }
+  return user
+}
+
+/**
+ * Express middleware for admin-only routes. Sets res.locals.adminUser.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const tokens = parseAdminTokens(process.env.ADMIN_API_TOKENS)
+  if (tokens.length === 0) {
+    return res.status(503).json({ error: { message: "Admin console is not configured" } })
+  }
+
+  const header = req.get("authorization") || ""
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  const user = match ? findAdminUser(tokens, match[1].trim()) : null
+  if (!user) {
+    return res.status(401).json({ error: { message: "Unauthorized" } })
+  }
+
+  res.locals.adminUser = user
+  next()
+}
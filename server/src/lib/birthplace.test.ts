@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest"
+import { resolveBirthCountry } from "./birthplace.js"
+
+describe("resolveBirthCountry", () => {
+  it("returns null for missing birthplaces", () => {
+    expect(resolveBirthCountry(null)).toBeNull()
+    expect(resolveBirthCountry(undefined)).toBeNull()
+    expect(resolveBirthCountry("")).toBeNull()
+  })
+
+  it("resolves a trailing country name", () => {
+    expect(resolveBirthCountry("Los Angeles, California, USA")).toBe("US")
+    expect(resolveBirthCountry("Paris, France")).toBe("FR")
+    expect(resolveBirthCountry("Tokyo, Japan")).toBe("JP")
+  })
+
+  it("maps UK constituent countries to GB", () => {
+    expect(resolveBirthCountry("London, England, UK")).toBe("GB")
+    expect(resolveBirthCountry("Edinburgh, Scotland")).toBe("GB")
+    expect(resolveBirthCountry("Cardiff, Wales, United Kingdom")).toBe("GB")
+  })
+
+  it("resolves US birthplaces that omit the country", () => {
+    expect(resolveBirthCountry("Brooklyn, New York City, New York")).toBe("US")
+    expect(resolveBirthCountry("Chicago, Illinois")).toBe("US")
+    expect(resolveBirthCountry("Austin, TX")).toBe("US")
+  })
+
+  it("prefers a country name over a US state of the same name or abbreviation", () => {
+    expect(resolveBirthCountry("Tbilisi, Georgia")).toBe("GE")
+    expect(resolveBirthCountry("Berlin, Germany, DE")).toBe("DE")
+    expect(resolveBirthCountry("Vancouver, CA, Canada")).toBe("CA")
+    expect(resolveBirthCountry("Wilmington, DE, USA")).toBe("US")
+    expect(resolveBirthCountry("Atlanta, Georgia, USA")).toBe("US")
+  })
+
+  it("prefers the present-day country in a [now X] annotation", () => {
+    expect(resolveBirthCountry("Kyiv, Russian Empire [now Ukraine]")).toBe("UA")
+    expect(resolveBirthCountry("Breslau, Germany (now Poland)")).toBe("PL")
+  })
+
+  it("ignores case, accents and extra whitespace", () => {
+    expect(resolveBirthCountry("Montréal, Québec,  CANADA ")).toBe("CA")
+    expect(resolveBirthCountry("Bogotá, Colombia")).toBe("CO")
+  })
+
+  it("does not treat lowercase words as state abbreviations", () => {
+    expect(resolveBirthCountry("Somewhere, in")).toBeNull()
+  })
+
+  it("returns null for unrecognized birthplaces", () => {
+    expect(resolveBirthCountry("Atlantis")).toBeNull()
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * Resolve free-text TMDB place_of_birth strings to ISO 3166-1 alpha-2 country codes.
+ *
+ * TMDB birthplaces are user-entered and inconsistent, e.g.:
+ * - "Los Angeles, California, USA"
+ * - "London, England, UK"
+ * - "Brooklyn, New York City, New York"
+ * - "Kyiv, Russian Empire [now Ukraine]"
+ *
+ * The resolver prefers a "[now X]" annotation over the historical name, then the
+ * last segment that names a country. Only when no segment names a country does it
+ * fall back to US state names and abbreviations, since many US birthplaces omit
+ * the country; that way "Tbilisi, Georgia" is Georgia and "Berlin, Germany, DE" is
+ * Germany. Returns null when nothing matches.
+ */
+
+// Country names and common variants, keyed by normalized name
+const COUNTRY_ALIASES: Record<string, string> = {
+  // United States
+  usa: "US",
+  us: "US",
+  "u.s.": "US",
+  "u.s.a.": "US",
+  "united states": "US",
+  "united states of america": "US",
+  america: "US",
+  // United Kingdom
+  uk: "GB",
+  "u.k.": "GB",
+  "united kingdom": "GB",
+  "great britain": "GB",
+  britain: "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  // Europe
+  ireland: "IE",
+  "republic of ireland": "IE",
+  france: "FR",
+  germany: "DE",
+  "west germany": "DE",
+  "east germany": "DE",
+  italy: "IT",
+  spain: "ES",
+  portugal: "PT",
+  netherlands: "NL",
+  "the netherlands": "NL",
+  holland: "NL",
+  belgium: "BE",
+  luxembourg: "LU",
+  switzerland: "CH",
+  austria: "AT",
+  denmark: "DK",
+  norway: "NO",
+  sweden: "SE",
+  finland: "FI",
+  iceland: "IS",
+  poland: "PL",
+  "czech republic": "CZ",
+  czechia: "CZ",
+  slovakia: "SK",
+  hungary: "HU",
+  romania: "RO",
+  bulgaria: "BG",
+  greece: "GR",
+  serbia: "RS",
+  croatia: "HR",
+  slovenia: "SI",
+  "bosnia and herzegovina": "BA",
+  ukraine: "UA",
+  russia: "RU",
+  "russian federation": "RU",
+  belarus: "BY",
+  lithuania: "LT",
+  latvia: "LV",
+  estonia: "EE",
+  georgia: "GE",
+  armenia: "AM",
+  turkey: "TR",
+  malta: "MT",
+  cyprus: "CY",
+  // Americas
+  canada: "CA",
+  mexico: "MX",
+  brazil: "BR",
+  argentina: "AR",
+  chile: "CL",
+  colombia: "CO",
+  peru: "PE",
+  venezuela: "VE",
+  cuba: "CU",
+  "puerto rico": "PR",
+  jamaica: "JM",
+  // Asia and Oceania
+  japan: "JP",
+  china: "CN",
+  "people's republic of china": "CN",
+  "hong kong": "HK",
+  taiwan: "TW",
+  "south korea": "KR",
+  korea: "KR",
+  "republic of korea": "KR",
+  india: "IN",
+  "british india": "IN",
+  pakistan: "PK",
+  philippines: "PH",
+  thailand: "TH",
+  vietnam: "VN",
+  indonesia: "ID",
+  malaysia: "MY",
+  singapore: "SG",
+  israel: "IL",
+  iran: "IR",
+  lebanon: "LB",
+  australia: "AU",
+  "new zealand": "NZ",
+  // Africa
+  "south africa": "ZA",
+  egypt: "EG",
+  nigeria: "NG",
+  kenya: "KE",
+  morocco: "MA",
+}
+
+// US states (and DC) so birthplaces like "Chicago, Illinois" resolve without a country
+const US_STATES = new Set([
+  "alabama",
+  "alaska",
+  "arizona",
+  "arkansas",
+  "california",
+  "colorado",
+  "connecticut",
+  "delaware",
+  "district of columbia",
+  "d.c.",
+  "florida",
+  "georgia",
+  "hawaii",
+  "idaho",
+  "illinois",
+  "indiana",
+  "iowa",
+  "kansas",
+  "kentucky",
+  "louisiana",
+  "maine",
+  "maryland",
+  "massachusetts",
+  "michigan",
+  "minnesota",
+  "mississippi",
+  "missouri",
+  "montana",
+  "nebraska",
+  "nevada",
+  "new hampshire",
+  "new jersey",
+  "new mexico",
+  "new york",
+  "north carolina",
+  "north dakota",
+  "ohio",
+  "oklahoma",
+  "oregon",
+  "pennsylvania",
+  "rhode island",
+  "south carolina",
+  "south dakota",
+  "tennessee",
+  "texas",
+  "utah",
+  "vermont",
+  "virginia",
+  "washington",
+  "west virginia",
+  "wisconsin",
+  "wyoming",
+])
+
+// Two-letter US state abbreviations, matched case-sensitively (e.g. "Los Angeles, CA")
+const US_STATE_ABBREVIATIONS = new Set(
+  "AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO MT NE NV NH NJ NM NY NC ND OH OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY".split(
+    " "
+  )
+)
+
+function normalize(segment: string): string {
+  return segment
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+}
+
+function lookupCountry(segment: string): string | null {
+  return COUNTRY_ALIASES[normalize(segment)] ?? null
+}
+
+function isUsState(segment: string): boolean {
+  return US_STATE_ABBREVIATIONS.has(segment.trim()) || US_STATES.has(normalize(segment))
+}
+
+/**
+ * Resolve a TMDB place_of_birth string to an ISO 3166-1 alpha-2 country code.
+ *
+ * @param placeOfBirth - Free-text birthplace from TMDB, or null
+ * @returns Country code (e.g. "US", "GB"), or null if it can't be resolved
+ */
+export function resolveBirthCountry(placeOfBirth: string | null | undefined): string | null {
+  if (!placeOfBirth) return null
+
+  // "[now Ukraine]" / "(now Poland)" annotations name the present-day country
+  const nowMatch = /[[(]\s*now\s+([^\])]+)[\])]/i.exec(placeOfBirth)
+  if (nowMatch) {
+    const country = lookupCountry(nowMatch[1])
+    if (country) return country
+  }
+
+  const withoutAnnotations = placeOfBirth.replace(/[[(][^\])]*[\])]/g, "")
+  const segments = withoutAnnotations
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+  // Most specific country is usually last, so search from the end
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const country = lookupCountry(segments[i])
+    if (country) return country
+  }
+
+  return segments.some(isUsState) ? "US" : null
+}
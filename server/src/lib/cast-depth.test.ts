@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest"
+import {
+  parseCastDepth,
+  parseCastWeighting,
+  limitCast,
+  getBillingWeight,
+  DEFAULT_CAST_DEPTH,
+} from "./cast-depth.js"
+
+describe("parseCastDepth", () => {
+  it("defaults to the top 30 when absent", () => {
+    expect(parseCastDepth(undefined)).toBe(DEFAULT_CAST_DEPTH)
+    expect(parseCastDepth("")).toBe("30")
+  })
+
+  it("accepts supported depths", () => {
+    expect(parseCastDepth("10")).toBe("10")
+    expect(parseCastDepth("30")).toBe("30")
+    expect(parseCastDepth("all")).toBe("all")
+  })
+
+  it("rejects unsupported depths", () => {
+    expect(parseCastDepth("20")).toBeNull()
+    expect(parseCastDepth(["10"])).toBeNull()
+  })
+})
+
+describe("parseCastWeighting", () => {
+  it("defaults to unweighted when absent", () => {
+    expect(parseCastWeighting(undefined)).toBe("none")
+  })
+
+  it("accepts billing weighting", () => {
+    expect(parseCastWeighting("billing")).toBe("billing")
+  })
+
+  it("rejects unknown weightings", () => {
+    expect(parseCastWeighting("fame")).toBeNull()
+  })
+})
+
+describe("limitCast", () => {
+  const cast = Array.from({ length: 45 }, (_, i) => i)
+
+  it("keeps the top-billed cast for numeric depths", () => {
+    expect(limitCast(cast, "10")).toEqual(cast.slice(0, 10))
+    expect(limitCast(cast, "30")).toHaveLength(30)
+  })
+
+  it("keeps everyone for the full cast", () => {
+    expect(limitCast(cast, "all")).toHaveLength(45)
+  })
+
+  it("keeps short casts intact", () => {
+    expect(limitCast([1, 2, 3], "10")).toEqual([1, 2, 3])
+  })
+})
+
+describe("getBillingWeight", () => {
+  it("gives the top-billed actor full weight", () => {
+    expect(getBillingWeight(0)).toBe(1)
+  })
+
+  it("halves every 10 billing positions", () => {
+    expect(getBillingWeight(10)).toBeCloseTo(0.5)
+    expect(getBillingWeight(20)).toBeCloseTo(0.25)
+  })
+
+  it("decreases with billing position", () => {
+    expect(getBillingWeight(1)).toBeLessThan(getBillingWeight(0))
+    expect(getBillingWeight(29)).toBeLessThan(getBillingWeight(28))
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * How much of a movie's billed cast goes into its mortality statistics, and how
+ * much each billing position counts.
+ */
+
+/** Supported cast depths: the top 10 or 30 billed, or the full cast */
+export const CAST_DEPTHS = ["10", "30", "all"] as const
+export type CastDepth = (typeof CAST_DEPTHS)[number]
+
+/** Depth used for the movie page by default, and for cached stats and leaderboards */
+export const DEFAULT_CAST_DEPTH: CastDepth = "30"
+
+/**
+ * "none" counts every cast member equally; "billing" weights each one by
+ * billing position so leads count more than bit parts.
+ */
+export const CAST_WEIGHTINGS = ["none", "billing"] as const
+export type CastWeighting = (typeof CAST_WEIGHTINGS)[number]
+
+/** Billing positions over which a cast member's weight halves */
+const BILLING_WEIGHT_HALF_LIFE = 10
+
+/**
+ * Parse a castDepth query value. Returns the default when absent, or null when invalid.
+ */
+export function parseCastDepth(value: unknown): CastDepth | null {
+  if (value === undefined || value === "") return DEFAULT_CAST_DEPTH
+  return CAST_DEPTHS.find((depth) => depth === value) ?? null
+}
+
+/**
+ * Parse a weighting query value. Returns "none" when absent, or null when invalid.
+ */
+export function parseCastWeighting(value: unknown): CastWeighting | null {
+  if (value === undefined || value === "") return "none"
+  return CAST_WEIGHTINGS.find((weighting) => weighting === value) ?? null
+}
+
+/**
+ * Limit a billing-ordered cast list to the given depth.
+ */
+export function limitCast<T>(cast: T[], depth: CastDepth): T[] {
+  return depth === "all" ? cast : cast.slice(0, Number(depth))
+}
+
+/**
+ * Weight of a cast member in billing-weighted statistics: 1 for the top-billed
+ * actor, halving every 10 positions (0.5 for 11th billing, 0.25 for 21st).
+ *
+ * @param billingOrder Zero-based position in the billing order
+ */
+export function getBillingWeight(billingOrder: number): number {
+  return Math.pow(0.5, billingOrder / BILLING_WEIGHT_HALF_LIFE)
+}
@@ -0,0 +1,116 @@
+/**
+ * Versioned prompt templates for the LLM cause-of-death lookup.
+ *
+ * Never edit a template that has been used: add a new version and point
+ * CURRENT_CAUSE_OF_DEATH_PROMPT at it. Stored answers record the template id
+ * ("cause-of-death@2"), so answers from older versions can be found and re-run
+ * with `npm run rerun:llm-answers`.
+ */
+import type { JsonObjectSchema } from "./llm-provider.js"
+
+export interface CauseOfDeathPromptInput {
+  name: string
+  birthYear: number | null
+  deathYear: number
+}
+
+export interface CauseOfDeathOutput {
+  cause: string | null
+  details: string | null
+}
+
+export interface PromptTemplate<Input> {
+  id: string // "<name>@<version>", stored with every answer
+  version: number
+  schemaName: string
+  schemaDescription: string
+  schema: JsonObjectSchema
+  maxTokens: number
+  render(input: Input): string
+}
+
+const CAUSE_OF_DEATH_SCHEMA: JsonObjectSchema = {
+  type: "object",
+  properties: {
+    cause: {
+      type: ["string", "null"],
+      description: 'The specific medical cause, e.g. "lung cancer", or null if unknown',
+      maxLength: 200,
+    },
+    details: {
+      type: ["string", "null"],
+      description: "Why or how they died, or null if only basic facts are known",
+      maxLength: 1000,
+    },
+  },
+  required: ["cause", "details"],
+  additionalProperties: false,
+}
+
+const SCHEMA_NAME = "record_cause_of_death"
+const SCHEMA_DESCRIPTION = "Record what is known about how a person died"
+
+function birthInfo(birthYear: number | null): string {
+  return birthYear ? ` (born ${birthYear})` : ""
+}
+
+// The original free-text prompt, answered as JSON in the message body. Kept so
+// answers stored before versioning (labelled with this id) can be interpreted.
+const CAUSE_OF_DEATH_PROMPT_V1: PromptTemplate<CauseOfDeathPromptInput> = {
+  id: "cause-of-death@1",
+  version: 1,
+  schemaName: SCHEMA_NAME,
+  schemaDescription: SCHEMA_DESCRIPTION,
+  schema: CAUSE_OF_DEATH_SCHEMA,
+  maxTokens: 300,
+  render: ({ name, birthYear, deathYear }) =>
+    `What was the cause of death for ${name}${birthInfo(birthYear)} who died in ${deathYear}?
+
+Provide:
+1. cause: The specific medical cause (e.g., "lung cancer", "heart attack")
+2. details: ONLY information that explains WHY or HOW they died - like underlying conditions, contributing factors, or notable circumstances. Return null if you only know basic facts.
+
+The details field should ONLY contain information directly relevant to their death. Do not include:
+- Marriage/relationship information (unless spouse caused the death)
+- Career achievements or biographical info
+- When other people died
+- Date, age, or location of death (already known)
+
+Just state facts - no flowery adjectives about the person.
+
+Respond in JSON only:
+{"cause": "specific cause", "details": "context about death circumstances, or null"}
+
+If unknown, respond: {"cause": null, "details": null}`,
+}
+
+// Structured output: the schema carries the format, so the prompt only asks the question
+const CAUSE_OF_DEATH_PROMPT_V2: PromptTemplate<CauseOfDeathPromptInput> = {
+  id: "cause-of-death@2",
+  version: 2,
+  schemaName: SCHEMA_NAME,
+  schemaDescription: SCHEMA_DESCRIPTION,
+  schema: CAUSE_OF_DEATH_SCHEMA,
+  maxTokens: 300,
+  render: ({ name, birthYear, deathYear }) =>
+    `What was the cause of death for ${name}${birthInfo(birthYear)} who died in ${deathYear}?
+
+Record:
+- cause: The specific medical cause (e.g., "lung cancer", "heart attack"), or null if you don't know it.
+- details: ONLY information that explains WHY or HOW they died - like underlying conditions, contributing factors, or notable circumstances. Use null if you only know basic facts.
+
+The details should ONLY contain information directly relevant to their death. Do not include:
+- Marriage/relationship information (unless spouse caused the death)
+- Career achievements or biographical info
+- When other people died
+- Date, age, or location of death (already known)
+
+Just state facts - no flowery adjectives about the person.`,
+}
+
+export const CAUSE_OF_DEATH_PROMPTS: PromptTemplate<CauseOfDeathPromptInput>[] = [
+  CAUSE_OF_DEATH_PROMPT_V1,
+  CAUSE_OF_DEATH_PROMPT_V2,
+]
+
+export const CURRENT_CAUSE_OF_DEATH_PROMPT = CAUSE_OF_DEATH_PROMPT_V2
@@ -0,0 +1,46 @@
+/**
+ * Registry of causes of death that can be browsed on /cause/:slug.
+ *
+ * A cause matches a deceased person when any of its patterns appears in their
+ * cause_of_death or cause_of_death_details text, or when their normalized
+ * cause_of_death_category is one of its categories. Every top-level taxonomy
+ * category is registered automatically; hand-picked causes narrower than a
+ * category (like COVID-19) are listed with their own patterns.
+ */
+import { CAUSE_TAXONOMY, type CauseCategory } from "./cause-taxonomy.js"
+
+export interface CauseMatch {
+  patterns: string[] // Case-insensitive substrings of the cause of death or its details
+  categories: CauseCategory[] // Normalized cause_of_death_category values
+}
+
+export interface CauseDefinition extends CauseMatch {
+  slug: string
+  label: string
+  description: string
+}
+
+// Causes matched by text rather than by taxonomy category
+const PATTERN_CAUSES: CauseDefinition[] = [
+  {
+    slug: "covid-19",
+    label: "COVID-19",
+    description: "Actors who died from COVID-19, coronavirus, or related complications.",
+    patterns: ["covid", "coronavirus", "sars-cov-2"],
+    categories: [],
+  },
+]
+
+const CATEGORY_CAUSES: CauseDefinition[] = CAUSE_TAXONOMY.map((category) => ({
+  slug: category.slug,
+  label: category.label,
+  description: `Actors whose cause of death is classified as ${category.label.toLowerCase()}.`,
+  patterns: [],
+  categories: [category.slug],
+}))
+
+export const CAUSE_REGISTRY: CauseDefinition[] = [...PATTERN_CAUSES, ...CATEGORY_CAUSES]
+
+export function getCauseDefinition(slug: string): CauseDefinition | null {
+  return CAUSE_REGISTRY.find((cause) => cause.slug === slug) ?? null
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest"
+import { resolveCauseOfDeath, scoreCauseAgreement } from "./cause-resolver.js"
+import type { CauseOfDeathAnswer } from "./wikidata.js"
+
+describe("resolveCauseOfDeath", () => {
+  it("treats synonyms as agreement", () => {
+    const answers: CauseOfDeathAnswer[] = [
+      { source: "claude", causeOfDeath: "heart attack", details: "He collapsed at home." },
+      { source: "wikidata", causeOfDeath: "myocardial infarction", details: null },
+      { source: "wikipedia_infobox", causeOfDeath: "Cardiac arrest", details: null },
+    ]
+
+    const result = resolveCauseOfDeath(answers)
+
+    expect(result.causeOfDeath).toBe("heart attack")
+    expect(result.causeOfDeathSource).toBe("claude")
+    expect(result.causeOfDeathDetails).toBe("He collapsed at home.")
+    expect(result.causeOfDeathDetailsSource).toBe("claude")
+    expect(result.agreement).toBe(1)
+    expect(result.answers.every((a) => a.agrees)).toBe(true)
+  })
+
+  it("lets agreeing sources outvote a single more trusted one", () => {
+    const answers: CauseOfDeathAnswer[] = [
+      { source: "claude", causeOfDeath: "stroke", details: null },
+      { source: "wikidata", causeOfDeath: "lung cancer", details: null },
+      { source: "wikipedia_infobox", causeOfDeath: "lung cancer", details: null },
+      { source: "wikipedia_prose", causeOfDeath: "complications of lung cancer", details: null },
+    ]
+
+    const result = resolveCauseOfDeath(answers)
+
+    expect(result.causeOfDeath).toBe("lung cancer")
+    expect(result.causeOfDeathSource).toBe("wikipedia")
+    expect(result.agreement).toBe(0.63) // 5 of 8
+    expect(result.answers.map((a) => a.agrees)).toEqual([false, true, true, true])
+  })
+
+  it("breaks ties in favor of the most trusted source", () => {
+    const answers: CauseOfDeathAnswer[] = [
+      { source: "wikidata", causeOfDeath: "pneumonia", details: null },
+      { source: "claude", causeOfDeath: "drowning", details: null },
+      { source: "wikipedia_prose", causeOfDeath: "pneumonia", details: null },
+    ]
+
+    const result = resolveCauseOfDeath(answers)
+
+    expect(result.causeOfDeath).toBe("drowning")
+    expect(result.agreement).toBe(0.5)
+  })
+
+  it("ignores vague answers when a specific one exists", () => {
+    const answers: CauseOfDeathAnswer[] = [
+      { source: "claude", causeOfDeath: "natural causes", details: null },
+      { source: "wikidata", causeOfDeath: "pancreatic cancer", details: null },
+    ]
+
+    const result = resolveCauseOfDeath(answers)
+
+    expect(result.causeOfDeath).toBe("pancreatic cancer")
+    expect(result.agreement).toBe(1)
+    expect(result.answers.map((a) => a.agrees)).toEqual([null, true])
+  })
+
+  it("falls back to vague answers when nothing more specific was found", () => {
+    const answers: CauseOfDeathAnswer[] = [
+      { source: "claude", causeOfDeath: "natural causes", details: null },
+      { source: "wikidata", causeOfDeath: null, details: null },
+    ]
+
+    const result = resolveCauseOfDeath(answers)
+
+    expect(result.causeOfDeath).toBe("natural causes")
+    expect(result.answers.map((a) => a.agrees)).toEqual([true, null])
+  })
+
+  it("takes details from a source that didn't name a cause, but not from a dissenter", () => {
+    const answers: CauseOfDeathAnswer[] = [
+      { source: "claude", causeOfDeath: "leukemia", details: null },
+      { source: "wikidata", causeOfDeath: "leukemia", details: null },
+      { source: "wikipedia_infobox", causeOfDeath: "suicide", details: "He took his own life." },
+      { source: "wikipedia_prose", causeOfDeath: null, details: "She died in hospital." },
+    ]
+
+    const result = resolveCauseOfDeath(answers)
+
+    expect(result.causeOfDeathDetails).toBe("She died in hospital.")
+    expect(result.causeOfDeathDetailsSource).toBe("wikipedia")
+  })
+
+  it("returns nothing when no source answered", () => {
+    const result = resolveCauseOfDeath([
+      { source: "claude", causeOfDeath: null, details: null },
+      { source: "wikipedia_prose", causeOfDeath: null, details: "She died at home." },
+    ])
+
+    expect(result).toEqual({
+      causeOfDeath: null,
+      causeOfDeathSource: null,
+      causeOfDeathDetails: null,
+      causeOfDeathDetailsSource: null,
+      agreement: null,
+      answers: [
+        { source: "claude", causeOfDeath: null, agrees: null },
+        { source: "wikipedia_prose", causeOfDeath: null, agrees: null },
+      ],
+    })
+  })
+})
+
+describe("scoreCauseAgreement", () => {
+  const answers: CauseOfDeathAnswer[] = [
+    { source: "claude", causeOfDeath: "stroke", details: null },
+    { source: "wikidata", causeOfDeath: "lung cancer", details: null },
+    { source: "wikipedia_infobox", causeOfDeath: "cancer of the lung", details: null },
+  ]
+
+  it("scores a cause other than the one the resolver would pick", () => {
+    // The resolver picks lung cancer (weight 4 of 7); a moderator chose stroke
+    const result = scoreCauseAgreement(answers, "Stroke")
+
+    expect(result.agreement).toBe(0.43)
+    expect(result.answers.map((a) => a.agrees)).toEqual([true, false, false])
+  })
+
+  it("returns no agreement for an empty cause", () => {
+    const result = scoreCauseAgreement(answers, null)
+
+    expect(result.agreement).toBeNull()
+    expect(result.answers.every((a) => a.agrees === null)).toBe(true)
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Resolve the displayed cause of death from every source's answer.
+ *
+ * Answers are compared by taxonomy subcategory (or category, when the text is no
+ * more specific), so "myocardial infarction" and "heart attack" count as agreeing.
+ * Each source votes with a weight reflecting how much we trust it; the answer
+ * with the most weight behind it wins, and the agreement score is that weight as
+ * a share of all the weight that voted. Vague answers ("natural causes") only
+ * vote when no source gave anything more specific.
+ *
+ * The same score can be taken against any cause, such as one a moderator entered,
+ * so the agreement shown always describes the cause that is displayed.
+ */
+import { isVagueCause } from "./claude.js"
+import { normalizeCauseOfDeath } from "./cause-taxonomy.js"
+import type { CauseOfDeathAnswer, CauseOfDeathAnswerSource, DeathInfoSource } from "./wikidata.js"
+
+// Agreement below this puts a person in the moderation console's low-confidence queue
+export const LOW_CONFIDENCE_AGREEMENT = 0.6
+
+const SOURCE_WEIGHTS: Record<CauseOfDeathAnswerSource, number> = {
+  claude: 3,
+  wikidata: 2,
+  wikipedia_infobox: 2,
+  wikipedia_prose: 1,
+}
+
+export interface ResolvedCauseAnswer {
+  source: CauseOfDeathAnswerSource
+  causeOfDeath: string | null
+  agrees: boolean | null // null when the source gave no answer or was outvoted as too vague
+}
+
+export interface CauseAgreement {
+  agreement: number | null // 0-1 share of voting weight behind the cause
+  answers: ResolvedCauseAnswer[]
+}
+
+export interface ResolvedCauseOfDeath {
+  causeOfDeath: string | null
+  causeOfDeathSource: DeathInfoSource
+  causeOfDeathDetails: string | null
+  causeOfDeathDetailsSource: DeathInfoSource
+  agreement: number | null // 0-1 share of voting weight behind the chosen cause
+  answers: ResolvedCauseAnswer[]
+}
+
+function toDeathInfoSource(source: CauseOfDeathAnswerSource): DeathInfoSource {
+  return source === "claude" ? "claude" : "wikipedia"
+}
+
+// Answers with the same key describe the same cause
+function getAgreementKey(cause: string): string {
+  const normalized = normalizeCauseOfDeath(cause)
+  if (!normalized || normalized.category === "other") {
+    return `text:${cause.trim().toLowerCase()}`
+  }
+  return normalized.subcategory ?? normalized.category
+}
+
+// The answers that vote: every specific answer, or the vague ones if that's all there is
+function getVoters(answers: CauseOfDeathAnswer[]): CauseOfDeathAnswer[] {
+  const withCause = answers.filter((a) => a.causeOfDeath?.trim())
+  const specific = withCause.filter((a) => !isVagueCause(a.causeOfDeath))
+  return specific.length > 0 ? specific : withCause
+}
+
+/**
+ * Score how well the sources agree with a cause, and mark which of them agree.
+ * Agreement is null when the cause is empty or no source voted.
+ */
+export function scoreCauseAgreement(
+  answers: CauseOfDeathAnswer[],
+  cause: string | null
+): CauseAgreement {
+  const voters = getVoters(answers)
+  const key = cause?.trim() ? getAgreementKey(cause) : null
+  const agreeing = key ? voters.filter((a) => getAgreementKey(a.causeOfDeath!) === key) : []
+
+  const weigh = (list: CauseOfDeathAnswer[]) =>
+    list.reduce((sum, a) => sum + SOURCE_WEIGHTS[a.source], 0)
+  const totalWeight = weigh(voters)
+
+  return {
+    agreement:
+      key && totalWeight > 0 ? Math.round((weigh(agreeing) / totalWeight) * 100) / 100 : null,
+    answers: answers.map((a) => ({
+      source: a.source,
+      causeOfDeath: a.causeOfDeath,
+      agrees: key && voters.includes(a) ? agreeing.includes(a) : null,
+    })),
+  }
+}
+
+export function resolveCauseOfDeath(answers: CauseOfDeathAnswer[]): ResolvedCauseOfDeath {
+  const voters = getVoters(answers)
+
+  // Tally weight per cause, remembering the most trusted answer for each
+  const tallies = new Map<string, { weight: number; best: CauseOfDeathAnswer }>()
+  for (const answer of voters) {
+    const key = getAgreementKey(answer.causeOfDeath!)
+    const weight = SOURCE_WEIGHTS[answer.source]
+    const tally = tallies.get(key)
+    if (!tally) {
+      tallies.set(key, { weight, best: answer })
+    } else {
+      tally.weight += weight
+      if (weight > SOURCE_WEIGHTS[tally.best.source]) tally.best = answer
+    }
+  }
+
+  // Highest weight wins; ties go to the cause backed by the most trusted source
+  let winnerKey: string | null = null
+  let winner: { weight: number; best: CauseOfDeathAnswer } | null = null
+  for (const [key, tally] of tallies) {
+    if (
+      !winner ||
+      tally.weight > winner.weight ||
+      (tally.weight === winner.weight &&
+        SOURCE_WEIGHTS[tally.best.source] > SOURCE_WEIGHTS[winner.best.source])
+    ) {
+      winnerKey = key
+      winner = tally
+    }
+  }
+
+  // Details come from the winning source, then sources that agree with it, then
+  // sources that didn't vote; never from a source that names a different cause
+  const agreeing = voters.filter((a) => getAgreementKey(a.causeOfDeath!) === winnerKey)
+  const nonVoters = answers.filter((a) => !voters.includes(a))
+  const detailsAnswer = winner
+    ? ([winner.best, ...agreeing, ...nonVoters].find((a) => a.details?.trim()) ?? null)
+    : null
+  const { agreement, answers: scoredAnswers } = scoreCauseAgreement(
+    answers,
+    winner?.best.causeOfDeath ?? null
+  )
+
+  return {
+    causeOfDeath: winner?.best.causeOfDeath ?? null,
+    causeOfDeathSource: winner ? toDeathInfoSource(winner.best.source) : null,
+    causeOfDeathDetails: detailsAnswer?.details ?? null,
+    causeOfDeathDetailsSource: detailsAnswer ? toDeathInfoSource(detailsAnswer.source) : null,
+    agreement,
+    answers: scoredAnswers,
+  }
+}
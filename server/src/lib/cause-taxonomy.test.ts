@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest"
+import { normalizeCauseOfDeath, getCauseCategoryLabel, CAUSE_TAXONOMY } from "./cause-taxonomy.js"
+
+describe("normalizeCauseOfDeath", () => {
+  it("maps synonyms of the same cause to one subcategory", () => {
+    const expected = { category: "cardiovascular", subcategory: "heart-attack" }
+    expect(normalizeCauseOfDeath("heart attack")).toEqual(expected)
+    expect(normalizeCauseOfDeath("Myocardial infarction")).toEqual(expected)
+    expect(normalizeCauseOfDeath("cardiac arrest")).toEqual(expected)
+  })
+
+  it("prefers the longest matching synonym", () => {
+    expect(normalizeCauseOfDeath("complications of lung cancer")).toEqual({
+      category: "cancer",
+      subcategory: "lung-cancer",
+    })
+    expect(normalizeCauseOfDeath("accidental overdose of barbiturates")).toEqual({
+      category: "overdose",
+      subcategory: null,
+    })
+    expect(normalizeCauseOfDeath("killed in a car crash")).toEqual({
+      category: "accident",
+      subcategory: "traffic-accident",
+    })
+  })
+
+  it("prefers a specific condition over a terminal event", () => {
+    expect(normalizeCauseOfDeath("COVID-19 pneumonia")).toEqual({
+      category: "infectious",
+      subcategory: "covid-19",
+    })
+    expect(normalizeCauseOfDeath("respiratory failure and emphysema")).toEqual({
+      category: "respiratory",
+      subcategory: "copd",
+    })
+    expect(normalizeCauseOfDeath("pneumonia")).toEqual({
+      category: "infectious",
+      subcategory: "pneumonia",
+    })
+  })
+
+  it("uses the underlying cause when the text names one", () => {
+    expect(normalizeCauseOfDeath("cardiac arrest secondary to lung cancer")).toEqual({
+      category: "cancer",
+      subcategory: "lung-cancer",
+    })
+    expect(normalizeCauseOfDeath("stroke due to a heart attack")).toEqual({
+      category: "cardiovascular",
+      subcategory: "heart-attack",
+    })
+    // Falls back to the whole text when the clause names nothing recognizable
+    expect(normalizeCauseOfDeath("heart failure due to unknown causes")).toEqual({
+      category: "cardiovascular",
+      subcategory: "heart-failure",
+    })
+  })
+
+  it("falls back to the category when no subcategory matches", () => {
+    expect(normalizeCauseOfDeath("stomach cancer")).toEqual({
+      category: "cancer",
+      subcategory: null,
+    })
+  })
+
+  it("matches whole words only", () => {
+    // "als" must not match inside "falls", which is an accident
+    expect(normalizeCauseOfDeath("injuries from falls")?.category).toBe("other")
+    expect(normalizeCauseOfDeath("fall down stairs")).toEqual({
+      category: "accident",
+      subcategory: null,
+    })
+  })
+
+  it("handles curly apostrophes", () => {
+    expect(normalizeCauseOfDeath("Alzheimer’s disease")).toEqual({
+      category: "neurological",
+      subcategory: "alzheimers",
+    })
+  })
+
+  it("categorizes unrecognized text as other", () => {
+    expect(normalizeCauseOfDeath("undisclosed")).toEqual({ category: "other", subcategory: null })
+  })
+
+  it("returns null when there is no cause", () => {
+    expect(normalizeCauseOfDeath(null)).toBeNull()
+    expect(normalizeCauseOfDeath("   ")).toBeNull()
+  })
+})
+
+describe("getCauseCategoryLabel", () => {
+  it("returns the label for a category", () => {
+    expect(getCauseCategoryLabel("cancer")).toBe("Cancer")
+    expect(getCauseCategoryLabel("natural")).toBe("Natural causes")
+  })
+
+  it("returns Other for other and unknown categories", () => {
+    expect(getCauseCategoryLabel("other")).toBe("Other")
+    expect(getCauseCategoryLabel("not-a-category")).toBe("Other")
+  })
+})
+
+describe("CAUSE_TAXONOMY", () => {
+  it("uses each synonym only once", () => {
+    const synonyms = CAUSE_TAXONOMY.flatMap((category) => [
+      ...category.synonyms,
+      ...category.subcategories.flatMap((subcategory) => subcategory.synonyms),
+    ])
+    expect(new Set(synonyms).size).toBe(synonyms.length)
+  })
+})
@@ -0,0 +1,320 @@
+/**
+ * Cause-of-death taxonomy.
+ *
+ * deceased_persons.cause_of_death is free text from Claude or Wikipedia, so the same
+ * cause arrives under many names ("heart attack", "myocardial infarction", "cardiac
+ * arrest"). This maps that text onto a fixed category hierarchy so statistics can
+ * group people by what actually killed them.
+ *
+ * Matching is on whole words, case-insensitively. When the text names an underlying
+ * cause ("cardiac arrest secondary to lung cancer"), that clause is matched first.
+ * Generic terminal events such as pneumonia or cardiac arrest lose to any more
+ * specific condition, so "COVID-19 pneumonia" is COVID-19. Otherwise the longest
+ * synonym wins, so "complications of lung cancer" is lung cancer, not just cancer.
+ */
+
+export type CauseCategory =
+  | "cancer"
+  | "cardiovascular"
+  | "respiratory"
+  | "neurological"
+  | "infectious"
+  | "organ-failure"
+  | "accident"
+  | "overdose"
+  | "suicide"
+  | "homicide"
+  | "natural"
+  | "other"
+
+interface CauseSubcategoryDefinition {
+  slug: string
+  label: string
+  synonyms: string[]
+}
+
+interface CauseCategoryDefinition {
+  slug: CauseCategory
+  label: string
+  synonyms: string[] // Match the category without a more specific subcategory
+  subcategories: CauseSubcategoryDefinition[]
+}
+
+export interface NormalizedCause {
+  category: CauseCategory
+  subcategory: string | null
+}
+
+export const CAUSE_TAXONOMY: CauseCategoryDefinition[] = [
+  {
+    slug: "cancer",
+    label: "Cancer",
+    synonyms: ["cancer", "carcinoma", "tumor", "tumour", "malignancy", "metastatic", "sarcoma"],
+    subcategories: [
+      { slug: "lung-cancer", label: "Lung cancer", synonyms: ["lung cancer", "lung carcinoma"] },
+      { slug: "breast-cancer", label: "Breast cancer", synonyms: ["breast cancer"] },
+      {
+        slug: "pancreatic-cancer",
+        label: "Pancreatic cancer",
+        synonyms: ["pancreatic cancer", "cancer of the pancreas"],
+      },
+      { slug: "prostate-cancer", label: "Prostate cancer", synonyms: ["prostate cancer"] },
+      {
+        slug: "colorectal-cancer",
+        label: "Colorectal cancer",
+        synonyms: ["colon cancer", "colorectal cancer", "rectal cancer", "bowel cancer"],
+      },
+      {
+        slug: "liver-cancer",
+        label: "Liver cancer",
+        synonyms: ["liver cancer", "hepatocellular carcinoma"],
+      },
+      {
+        slug: "brain-cancer",
+        label: "Brain cancer",
+        synonyms: ["brain cancer", "brain tumor", "brain tumour", "glioblastoma", "glioma"],
+      },
+      { slug: "leukemia", label: "Leukemia", synonyms: ["leukemia", "leukaemia"] },
+      { slug: "lymphoma", label: "Lymphoma", synonyms: ["lymphoma", "hodgkin's disease"] },
+      { slug: "melanoma", label: "Melanoma", synonyms: ["melanoma", "skin cancer"] },
+    ],
+  },
+  {
+    slug: "cardiovascular",
+    label: "Cardiovascular disease",
+    synonyms: ["heart disease", "cardiovascular disease", "heart condition", "cardiac disease"],
+    subcategories: [
+      {
+        slug: "heart-attack",
+        label: "Heart attack",
+        synonyms: [
+          "heart attack",
+          "myocardial infarction",
+          "cardiac arrest",
+          "coronary thrombosis",
+          "coronary occlusion",
+          "coronary artery disease",
+        ],
+      },
+      {
+        slug: "heart-failure",
+        label: "Heart failure",
+        synonyms: ["heart failure", "congestive heart failure", "cardiomyopathy"],
+      },
+      {
+        slug: "stroke",
+        label: "Stroke",
+        synonyms: [
+          "stroke",
+          "cerebral hemorrhage",
+          "cerebral haemorrhage",
+          "brain hemorrhage",
+          "cerebrovascular accident",
+          "cerebral infarction",
+        ],
+      },
+      { slug: "aneurysm", label: "Aneurysm", synonyms: ["aneurysm", "aortic dissection"] },
+    ],
+  },
+  {
+    slug: "respiratory",
+    label: "Respiratory disease",
+    synonyms: ["respiratory failure", "respiratory disease", "lung disease"],
+    subcategories: [
+      {
+        slug: "copd",
+        label: "COPD",
+        synonyms: ["copd", "chronic obstructive pulmonary disease", "emphysema"],
+      },
+      { slug: "pulmonary-fibrosis", label: "Pulmonary fibrosis", synonyms: ["pulmonary fibrosis"] },
+    ],
+  },
+  {
+    slug: "neurological",
+    label: "Neurological disease",
+    synonyms: ["dementia", "neurodegenerative disease"],
+    subcategories: [
+      { slug: "alzheimers", label: "Alzheimer's disease", synonyms: ["alzheimer's", "alzheimers"] },
+      { slug: "parkinsons", label: "Parkinson's disease", synonyms: ["parkinson's", "parkinsons"] },
+      {
+        slug: "als",
+        label: "ALS",
+        synonyms: ["als", "amyotrophic lateral sclerosis", "motor neurone disease", "lou gehrig's"],
+      },
+    ],
+  },
+  {
+    slug: "infectious",
+    label: "Infectious disease",
+    synonyms: ["infection", "sepsis", "septic shock"],
+    subcategories: [
+      {
+        slug: "covid-19",
+        label: "COVID-19",
+        synonyms: ["covid", "covid-19", "coronavirus", "sars-cov-2"],
+      },
+      { slug: "pneumonia", label: "Pneumonia", synonyms: ["pneumonia", "bronchopneumonia"] },
+      { slug: "hiv-aids", label: "HIV/AIDS", synonyms: ["aids", "hiv"] },
+      { slug: "tuberculosis", label: "Tuberculosis", synonyms: ["tuberculosis"] },
+      { slug: "influenza", label: "Influenza", synonyms: ["influenza", "flu"] },
+    ],
+  },
+  {
+    slug: "organ-failure",
+    label: "Organ failure",
+    synonyms: ["organ failure", "multiple organ failure"],
+    subcategories: [
+      {
+        slug: "kidney-failure",
+        label: "Kidney failure",
+        synonyms: ["kidney failure", "renal failure", "kidney disease"],
+      },
+      {
+        slug: "liver-disease",
+        label: "Liver disease",
+        synonyms: ["liver failure", "cirrhosis", "liver disease"],
+      },
+      { slug: "diabetes", label: "Diabetes", synonyms: ["diabetes"] },
+    ],
+  },
+  {
+    slug: "accident",
+    label: "Accident",
+    synonyms: ["accident", "accidental", "fall", "drowning", "drowned", "fire"],
+    subcategories: [
+      {
+        slug: "traffic-accident",
+        label: "Traffic accident",
+        synonyms: ["car accident", "car crash", "traffic accident", "motorcycle accident"],
+      },
+      {
+        slug: "aviation-accident",
+        label: "Aviation accident",
+        synonyms: ["plane crash", "helicopter crash", "aviation accident"],
+      },
+    ],
+  },
+  {
+    slug: "overdose",
+    label: "Overdose",
+    synonyms: ["overdose", "drug intoxication", "accidental overdose"],
+    subcategories: [
+      {
+        slug: "drug-overdose",
+        label: "Drug overdose",
+        synonyms: ["drug overdose", "heroin", "fentanyl", "opioid", "barbiturate overdose"],
+      },
+      {
+        slug: "alcohol-poisoning",
+        label: "Alcohol poisoning",
+        synonyms: ["alcohol poisoning", "acute alcohol intoxication"],
+      },
+    ],
+  },
+  {
+    slug: "suicide",
+    label: "Suicide",
+    synonyms: ["suicide", "self-inflicted"],
+    subcategories: [],
+  },
+  {
+    slug: "homicide",
+    label: "Homicide",
+    synonyms: ["homicide", "murder", "murdered", "killed", "shot", "stabbed", "assassinated"],
+    subcategories: [],
+  },
+  {
+    slug: "natural",
+    label: "Natural causes",
+    synonyms: ["natural causes", "old age", "age-related"],
+    subcategories: [],
+  },
+]
+
+const OTHER_LABEL = "Other"
+
+// Ways people die of something else; any other matching condition is the cause
+const TERMINAL_EVENTS = new Set([
+  "pneumonia",
+  "bronchopneumonia",
+  "cardiac arrest",
+  "respiratory failure",
+  "organ failure",
+  "multiple organ failure",
+  "sepsis",
+  "septic shock",
+])
+
+// Phrases that introduce the underlying cause, e.g. "heart failure due to amyloidosis"
+const UNDERLYING_CAUSE_PATTERN =
+  /(^|[^a-z])(secondary to|due to|complications of|complications from|caused by|as a result of)($|[^a-z])/
+
+interface SynonymEntry {
+  pattern: RegExp
+  length: number
+  terminal: boolean
+  cause: NormalizedCause
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Every synonym in the taxonomy, compiled once
+const SYNONYMS: SynonymEntry[] = CAUSE_TAXONOMY.flatMap((category) => [
+  ...category.synonyms.map((synonym) => ({
+    synonym,
+    cause: { category: category.slug, subcategory: null },
+  })),
+  ...category.subcategories.flatMap((subcategory) =>
+    subcategory.synonyms.map((synonym) => ({
+      synonym,
+      cause: { category: category.slug, subcategory: subcategory.slug },
+    }))
+  ),
+]).map(({ synonym, cause }) => ({
+  // eslint-disable-next-line security/detect-non-literal-regexp -- synonyms are escaped via escapeRegExp()
+  pattern: new RegExp(`(^|[^a-z])${escapeRegExp(synonym)}($|[^a-z])`),
+  length: synonym.length,
+  terminal: TERMINAL_EVENTS.has(synonym),
+  cause,
+}))
+
+/**
+ * Best synonym in the text: specific conditions before terminal events, then the longest.
+ */
+function findBestSynonym(text: string): SynonymEntry | null {
+  let best: SynonymEntry | null = null
+  for (const entry of SYNONYMS) {
+    const better =
+      !best ||
+      (best.terminal && !entry.terminal) ||
+      (best.terminal === entry.terminal && entry.length > best.length)
+    if (better && entry.pattern.test(text)) {
+      best = entry
+    }
+  }
+  return best
+}
+
+/**
+ * Map free-text cause of death onto the taxonomy.
+ * @returns The category and subcategory, "other" for unrecognized text, or null for no cause
+ */
+export function normalizeCauseOfDeath(cause: string | null): NormalizedCause | null {
+  const text = cause?.trim().toLowerCase().replace(/’/g, "'")
+  if (!text) return null
+
+  const underlying = UNDERLYING_CAUSE_PATTERN.exec(text)
+  const underlyingClause = underlying ? text.slice(underlying.index + underlying[0].length) : ""
+  const best = findBestSynonym(underlyingClause) ?? findBestSynonym(text)
+
+  return best ? best.cause : { category: "other", subcategory: null }
+}
+
+/**
+ * Display label for a category slug (unknown slugs get "Other").
+ */
+export function getCauseCategoryLabel(category: string): string {
+  return CAUSE_TAXONOMY.find((c) => c.slug === category)?.label ?? OTHER_LABEL
+}
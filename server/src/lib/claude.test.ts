@@ -1,5 +1,13 @@
-import { describe, it, expect } from "vitest"
-import { isVagueCause } from "./claude.js"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { getCauseOfDeathFromClaude, isVagueCause } from "./claude.js"
+import { CURRENT_CAUSE_OF_DEATH_PROMPT } from "./cause-of-death-prompts.js"
+import * as llmProvider from "./llm-provider.js"
+
+// Pass through to the real provider selection unless a test overrides it
+vi.mock("./llm-provider.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./llm-provider.js")>()
+  return { ...actual, getLlmProvider: vi.fn(actual.getLlmProvider) }
+})
 
 describe("isVagueCause", () => {
   it("returns true for null", () => {
@@ -63,6 +71,63 @@ describe("isVagueCause", () => {
   })
 })
 
-// Note: We don't test getCauseOfDeathFromClaude directly because it requires
-// actual API calls. In a production setting, you would mock the Anthropic client
-// to test the parsing and error handling logic.
+describe("getCauseOfDeathFromClaude", () => {
+  const saved = {
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+  }
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = "stub"
+    delete process.env.LLM_MODEL
+  })
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+  })
+
+  it("records the prompt version and model with the answer", async () => {
+    const result = await getCauseOfDeathFromClaude("Actor One", 1930, 2010)
+
+    expect(result.promptVersion).toBe(CURRENT_CAUSE_OF_DEATH_PROMPT.id)
+    expect(result.model).toBe("stub-1")
+    expect(result).toEqual(await getCauseOfDeathFromClaude("Actor One", 1930, 2010))
+  })
+
+  it("returns no answer when no provider is configured", async () => {
+    process.env.LLM_PROVIDER = "anthropic"
+    delete process.env.ANTHROPIC_API_KEY
+
+    const result = await getCauseOfDeathFromClaude("Actor One", 1930, 2010)
+
+    expect(result).toEqual({ causeOfDeath: null, details: null, promptVersion: null, model: null })
+  })
+
+  it("throws when the provider fails", async () => {
+    vi.mocked(llmProvider.getLlmProvider).mockReturnValueOnce({
+      name: "anthropic",
+      model: "claude-3-haiku-20240307",
+      generateStructured: () => Promise.reject(new Error("429 rate limited")),
+    })
+
+    await expect(getCauseOfDeathFromClaude("Actor One", 1930, 2010)).rejects.toThrow(
+      "429 rate limited"
+    )
+  })
+
+  it("throws when the answer doesn't match the schema", async () => {
+    vi.mocked(llmProvider.getLlmProvider).mockReturnValueOnce(
+      llmProvider.createStubProvider("stub-1", {
+        [CURRENT_CAUSE_OF_DEATH_PROMPT.schemaName]: { cause: [42], details: [null] },
+      })
+    )
+
+    await expect(getCauseOfDeathFromClaude("Actor One", 1930, 2010)).rejects.toThrow(
+      "did not match"
+    )
+  })
+})
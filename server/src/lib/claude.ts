@@ -1,20 +1,19 @@
-import Anthropic from "@anthropic-ai/sdk"
-
-let client: Anthropic | null = null
-
-function getClient(): Anthropic | null {
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return null
-  }
-  if (!client) {
-    client = new Anthropic()
-  }
-  return client
-}
+import { generateStructuredOutput, getLlmProvider } from "./llm-provider.js"
+import { CURRENT_CAUSE_OF_DEATH_PROMPT, type CauseOfDeathOutput } from "./cause-of-death-prompts.js"
 
 export interface ClaudeCauseOfDeathResult {
   causeOfDeath: string | null
   details: string | null
+  // Which prompt template and model produced the answer; null when no model was asked
+  promptVersion: string | null
+  model: string | null
+}
+
+const NO_ANSWER: ClaudeCauseOfDeathResult = {
+  causeOfDeath: null,
+  details: null,
+  promptVersion: null,
+  model: null,
 }
 
 // Vague causes that should trigger Claude lookup
@@ -32,85 +31,43 @@ export function isVagueCause(cause: string | null): boolean {
   return VAGUE_CAUSES.some((vague) => cause.toLowerCase().includes(vague.toLowerCase()))
 }
 
+/**
+ * Ask the configured LLM provider (see llm-provider.ts) for a cause of death. The
+ * "claude" source name predates other providers; `model` says what really answered.
+ *
+ * Returns an empty answer with no model when no provider is configured. Provider
+ * errors and answers that fail schema validation are thrown, so a failed lookup is
+ * never mistaken for the model not knowing the cause.
+ */
 export async function getCauseOfDeathFromClaude(
   name: string,
   birthYear: number | null,
   deathYear: number
 ): Promise<ClaudeCauseOfDeathResult> {
-  const anthropic = getClient()
-  if (!anthropic) {
-    return { causeOfDeath: null, details: null }
+  const provider = getLlmProvider()
+  if (!provider) {
+    return NO_ANSWER
   }
 
-  try {
-    const birthInfo = birthYear ? ` (born ${birthYear})` : ""
-    const prompt = `What was the cause of death for ${name}${birthInfo} who died in ${deathYear}?
-
-Provide:
-1. cause: The specific medical cause (e.g., "lung cancer", "heart attack")
-2. details: ONLY information that explains WHY or HOW they died - like underlying conditions, contributing factors, or notable circumstances. Return null if you only know basic facts.
-
-The details field should ONLY contain information directly relevant to their death. Do not include:
-- Marriage/relationship information (unless spouse caused the death)
-- Career achievements or biographical info
-- When other people died
-- Date, age, or location of death (already known)
-
-Just state facts - no flowery adjectives about the person.
-
-Respond in JSON only:
-{"cause": "specific cause", "details": "context about death circumstances, or null"}
-
-If unknown, respond: {"cause": null, "details": null}`
-
-    console.log(`Claude query for: ${name} (died ${deathYear})`)
-
-    const message = await anthropic.messages.create({
-      model: "claude-3-haiku-20240307",
-      max_tokens: 300,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    })
-
-    const responseText = message.content[0].type === "text" ? message.content[0].text : ""
-
-    // Parse JSON response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      console.log(`Claude response not JSON for ${name}: ${responseText}`)
-      return { causeOfDeath: null, details: null }
-    }
-
-    let parsed: { cause: string | null; details: string | null }
-
-    try {
-      parsed = JSON.parse(jsonMatch[0])
-    } catch {
-      // JSON parsing failed - try to extract values with regex as fallback
-      // This handles cases where Claude includes unescaped quotes in the values
-      console.log(`Claude JSON parse failed for ${name}, trying regex fallback: ${jsonMatch[0]}`)
-
-      const causeMatch = jsonMatch[0].match(/"cause"\s*:\s*"([^"]*)"/)
-      const detailsMatch = jsonMatch[0].match(/"details"\s*:\s*"([^"]*)"/)
-
-      parsed = {
-        cause: causeMatch ? causeMatch[1] : null,
-        details: detailsMatch ? detailsMatch[1] : null,
-      }
-    }
-
-    console.log(`Claude result for ${name}: cause="${parsed.cause}", details="${parsed.details}"`)
-
-    return {
-      causeOfDeath: parsed.cause,
-      details: parsed.details,
-    }
-  } catch (error) {
-    console.error(`Claude error for ${name}:`, error)
-    return { causeOfDeath: null, details: null }
+  const template = CURRENT_CAUSE_OF_DEATH_PROMPT
+  console.log(`${provider.model} query for: ${name} (died ${deathYear})`)
+
+  const output = await generateStructuredOutput<CauseOfDeathOutput>(provider, {
+    prompt: template.render({ name, birthYear, deathYear }),
+    schemaName: template.schemaName,
+    schemaDescription: template.schemaDescription,
+    schema: template.schema,
+    maxTokens: template.maxTokens,
+  })
+
+  console.log(
+    `${provider.model} result for ${name}: cause="${output.cause}", details="${output.details}"`
+  )
+
+  return {
+    causeOfDeath: output.cause,
+    details: output.details,
+    promptVersion: template.id,
+    model: provider.model,
   }
 }
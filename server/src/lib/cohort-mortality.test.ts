@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest"
+import { calculateSmrInterval, parseCohortDimensions, summarizeCohort } from "./cohort-mortality.js"
+
+describe("parseCohortDimensions", () => {
+  it("parses a single dimension", () => {
+    expect(parseCohortDimensions("genre")).toEqual(["genre"])
+  })
+
+  it("puts dimensions in canonical order and drops duplicates", () => {
+    expect(parseCohortDimensions("language, decade,genre,decade")).toEqual([
+      "genre",
+      "decade",
+      "language",
+    ])
+  })
+
+  it("returns null for an unknown dimension", () => {
+    expect(parseCohortDimensions("genre,director")).toBeNull()
+  })
+
+  it("returns null for an empty list or a non-string", () => {
+    expect(parseCohortDimensions("")).toBeNull()
+    expect(parseCohortDimensions(",")).toBeNull()
+    expect(parseCohortDimensions(["genre"])).toBeNull()
+  })
+})
+
+describe("calculateSmrInterval", () => {
+  it("brackets the SMR", () => {
+    const { low, high } = calculateSmrInterval(30, 20)
+
+    expect(low).toBeLessThan(1.5)
+    expect(high).toBeGreaterThan(1.5)
+  })
+
+  it("matches the exact Poisson interval closely", () => {
+    // Exact 95% interval for 10 observed deaths is 4.795 to 18.390
+    const { low, high } = calculateSmrInterval(10, 1)
+
+    expect(low).toBeCloseTo(4.795, 1)
+    expect(high).toBeCloseTo(18.39, 1)
+  })
+
+  it("narrows as deaths grow", () => {
+    const small = calculateSmrInterval(5, 5)
+    const large = calculateSmrInterval(500, 500)
+
+    expect(large.high - large.low).toBeLessThan(small.high - small.low)
+  })
+
+  it("has a lower bound of 0 with no deaths", () => {
+    const { low, high } = calculateSmrInterval(0, 2)
+
+    expect(low).toBe(0)
+    // Exact upper bound for 0 deaths is 3.689
+    expect(high * 2).toBeCloseTo(3.689, 1)
+  })
+})
+
+describe("summarizeCohort", () => {
+  it("adds the SMR and interval to the totals", () => {
+    const cohort = summarizeCohort({
+      genre: "Horror",
+      decade: 1970,
+      movieCount: 12,
+      deaths: 60,
+      expectedDeaths: 40,
+    })
+
+    expect(cohort).toMatchObject({
+      genre: "Horror",
+      decade: 1970,
+      movieCount: 12,
+      deaths: 60,
+      expectedDeaths: 40,
+      smr: 1.5,
+      significant: true,
+    })
+    expect(cohort.smrLow).toBeGreaterThan(1)
+    expect(cohort.smrHigh).toBeGreaterThan(1.5)
+  })
+
+  it("is not significant when the interval includes 1", () => {
+    const cohort = summarizeCohort({ genre: "Drama", movieCount: 5, deaths: 6, expectedDeaths: 5 })
+
+    expect(cohort.smr).toBe(1.2)
+    expect(cohort.significant).toBe(false)
+  })
+
+  it("flags significantly fewer deaths than expected", () => {
+    const cohort = summarizeCohort({
+      language: "fr",
+      movieCount: 20,
+      deaths: 10,
+      expectedDeaths: 30,
+    })
+
+    expect(cohort.smrHigh).toBeLessThan(1)
+    expect(cohort.significant).toBe(true)
+  })
+})
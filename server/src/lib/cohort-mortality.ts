@@ -0,0 +1,94 @@
+/**
+ * Mortality of movie cohorts: groups of movies sharing a genre, release decade
+ * and/or original language.
+ *
+ * A cohort's standardized mortality ratio (SMR) is its summed actual deaths over
+ * its summed expected deaths, so large casts weigh more than small ones. The 95%
+ * interval uses Byar's approximation to the exact Poisson interval for the deaths.
+ */
+
+/** Ways movies can be grouped, in the order group keys are reported */
+export const COHORT_DIMENSIONS = ["genre", "decade", "language"] as const
+export type CohortDimension = (typeof COHORT_DIMENSIONS)[number]
+
+/** Standard normal quantile for a two-sided 95% interval */
+const Z_95 = 1.959964
+
+/**
+ * Summed deaths for one cohort, as returned by getCohortMortalityTotals.
+ * Only the keys for the requested dimensions are set.
+ */
+export interface CohortTotals {
+  genre?: string
+  decade?: number
+  language?: string
+  movieCount: number
+  deaths: number
+  expectedDeaths: number
+}
+
+export interface CohortMortality extends CohortTotals {
+  smr: number
+  smrLow: number
+  smrHigh: number
+  // The interval excludes 1: more (or fewer) deaths than chance would explain
+  significant: boolean
+}
+
+/**
+ * Parse a comma-separated list of dimensions (e.g. "genre,decade").
+ * Duplicates are dropped and dimensions are put in canonical order.
+ *
+ * @returns The dimensions, or null if the list is empty or has an unknown dimension
+ */
+export function parseCohortDimensions(value: unknown): CohortDimension[] | null {
+  if (typeof value !== "string") return null
+
+  const requested = value
+    .split(",")
+    .map((d) => d.trim())
+    .filter(Boolean)
+  if (requested.length === 0) return null
+  if (!requested.every((d) => (COHORT_DIMENSIONS as readonly string[]).includes(d))) return null
+
+  return COHORT_DIMENSIONS.filter((d) => requested.includes(d))
+}
+
+/**
+ * 95% interval for an SMR with the given observed and expected deaths (Byar's approximation)
+ */
+export function calculateSmrInterval(
+  deaths: number,
+  expectedDeaths: number
+): { low: number; high: number } {
+  if (expectedDeaths <= 0) return { low: 0, high: Infinity }
+
+  const low =
+    deaths > 0 ? deaths * Math.pow(1 - 1 / (9 * deaths) - Z_95 / (3 * Math.sqrt(deaths)), 3) : 0
+  const upper = deaths + 1
+  const high = upper * Math.pow(1 - 1 / (9 * upper) + Z_95 / (3 * Math.sqrt(upper)), 3)
+
+  return { low: low / expectedDeaths, high: high / expectedDeaths }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Add the SMR and its interval to a cohort's totals
+ */
+export function summarizeCohort(totals: CohortTotals): CohortMortality {
+  const { deaths, expectedDeaths } = totals
+  const smr = expectedDeaths > 0 ? deaths / expectedDeaths : 0
+  const { low, high } = calculateSmrInterval(deaths, expectedDeaths)
+
+  return {
+    ...totals,
+    expectedDeaths: round(expectedDeaths),
+    smr: round(smr),
+    smrLow: round(low),
+    smrHigh: round(high),
+    significant: low > 1 || high < 1,
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest"
+import { findConnection, type CoStarEdge, type CoStarLookup } from "./connections.js"
+
+// Build a lookup from [actorA, actorB, movie] edges
+function graph(edges: Array<[number, number, number]>): CoStarLookup {
+  const coStars = new Map<number, CoStarEdge[]>()
+  for (const [a, b, movieId] of edges) {
+    coStars.set(a, [...(coStars.get(a) ?? []), { actorId: b, movieId }])
+    coStars.set(b, [...(coStars.get(b) ?? []), { actorId: a, movieId }])
+  }
+  return vi.fn(async (actorIds: number[]) => {
+    return new Map(actorIds.map((id) => [id, coStars.get(id) ?? []]))
+  })
+}
+
+describe("findConnection", () => {
+  it("connects co-stars through their shared movie", async () => {
+    const result = await findConnection(1, 2, graph([[1, 2, 100]]))
+
+    expect(result).toEqual({ actorIds: [1, 2], movieIds: [100] })
+  })
+
+  it("finds the shortest chain of movies", async () => {
+    // 1 - 2 - 3 - 4 - 5, with a shortcut 2 - 4
+    const lookup = graph([
+      [1, 2, 100],
+      [2, 3, 101],
+      [3, 4, 102],
+      [4, 5, 103],
+      [2, 4, 104],
+    ])
+
+    const result = await findConnection(1, 5, lookup)
+
+    expect(result).toEqual({ actorIds: [1, 2, 4, 5], movieIds: [100, 104, 103] })
+  })
+
+  it("returns the path in order when searching from both ends", async () => {
+    const lookup = graph([
+      [1, 2, 100],
+      [2, 3, 101],
+      [3, 4, 102],
+      [4, 5, 103],
+      [5, 6, 104],
+    ])
+
+    const result = await findConnection(6, 1, lookup)
+
+    expect(result).toEqual({ actorIds: [6, 5, 4, 3, 2, 1], movieIds: [104, 103, 102, 101, 100] })
+  })
+
+  it("returns null when the actors are not connected", async () => {
+    const lookup = graph([
+      [1, 2, 100],
+      [3, 4, 101],
+    ])
+
+    expect(await findConnection(1, 4, lookup)).toBeNull()
+  })
+
+  it("stops at the maximum number of degrees", async () => {
+    const lookup = graph([
+      [1, 2, 100],
+      [2, 3, 101],
+      [3, 4, 102],
+    ])
+
+    expect(await findConnection(1, 4, lookup, { maxDegrees: 2 })).toBeNull()
+    expect(await findConnection(1, 4, lookup, { maxDegrees: 3 })).toEqual({
+      actorIds: [1, 2, 3, 4],
+      movieIds: [100, 101, 102],
+    })
+  })
+
+  it("expands the smaller frontier", async () => {
+    // Actor 1 has many co-stars; actor 5 has one
+    const lookup = graph([
+      [1, 10, 100],
+      [1, 11, 101],
+      [1, 12, 102],
+      [1, 2, 103],
+      [2, 5, 104],
+    ])
+
+    await findConnection(1, 5, lookup)
+
+    expect(lookup).toHaveBeenNthCalledWith(1, [1])
+    expect(lookup).toHaveBeenNthCalledWith(2, [5])
+  })
+
+  it("gives up when the search visits too many actors", async () => {
+    const lookup = graph([
+      [1, 10, 100],
+      [1, 11, 101],
+      [1, 12, 102],
+      [12, 13, 103],
+      [13, 2, 104],
+    ])
+
+    expect(await findConnection(1, 2, lookup, { maxVisited: 3 })).toBeNull()
+  })
+
+  it("checks the budget before each chunk of a level", async () => {
+    // Actor 1's co-stars 10-13 form the next level; actor 10 alone blows the budget
+    const lookup = graph([
+      [1, 10, 100],
+      [1, 11, 101],
+      [1, 12, 102],
+      [1, 13, 103],
+      [10, 20, 104],
+      [10, 21, 105],
+      [10, 22, 106],
+      [2, 30, 107],
+      [2, 31, 108],
+      [2, 32, 109],
+      [2, 33, 110],
+      [2, 34, 111],
+    ])
+
+    expect(await findConnection(1, 2, lookup, { maxVisited: 12, chunkSize: 1 })).toBeNull()
+    // [1], [2], then [10] before the budget ran out; 11-13 were never fetched
+    expect(lookup).toHaveBeenCalledTimes(3)
+    expect(lookup).toHaveBeenLastCalledWith([10])
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Shortest co-star path between two actors ("Six Degrees of Death").
+ *
+ * Actors are nodes and shared movies are edges. The search is a bidirectional
+ * breadth-first search: each step expands whichever side has the smaller frontier,
+ * one whole level at a time, so a path found after a level is as short as possible.
+ * A level is fetched in chunks, with the visit budget checked before each one, so a
+ * well-connected actor can't pull an unbounded number of co-stars into memory.
+ */
+
+/** A co-star reached from an actor, and the movie they appeared in together */
+export interface CoStarEdge {
+  actorId: number
+  movieId: number
+}
+
+/** Looks up the co-stars of every actor in a frontier, keyed by actor */
+export type CoStarLookup = (actorIds: number[]) => Promise<Map<number, CoStarEdge[]>>
+
+export interface ConnectionPath {
+  actorIds: number[] // From the first actor to the second
+  movieIds: number[] // movieIds[i] connects actorIds[i] and actorIds[i + 1]
+}
+
+export interface FindConnectionOptions {
+  maxDegrees?: number // Longest path, in movies (default 6)
+  maxVisited?: number // Give up after visiting this many actors (default 50,000)
+  chunkSize?: number // Actors per co-star lookup (default 50)
+}
+
+interface Visit {
+  depth: number
+  parent: number | null
+  movieId: number | null // Movie shared with the parent
+}
+
+/**
+ * Walk the parent links from an actor back to the start of its search
+ */
+function tracePath(visits: Map<number, Visit>, actorId: number): ConnectionPath {
+  const actorIds = [actorId]
+  const movieIds: number[] = []
+  let visit = visits.get(actorId)!
+  while (visit.parent !== null) {
+    actorIds.push(visit.parent)
+    movieIds.push(visit.movieId!)
+    visit = visits.get(visit.parent)!
+  }
+  return { actorIds, movieIds }
+}
+
+/**
+ * Find the shortest chain of shared movies between two actors.
+ *
+ * @returns The path, or null if there is none within maxDegrees (or the search got too large)
+ */
+export async function findConnection(
+  fromId: number,
+  toId: number,
+  getCoStars: CoStarLookup,
+  options: FindConnectionOptions = {}
+): Promise<ConnectionPath | null> {
+  const { maxDegrees = 6, maxVisited = 50_000, chunkSize = 50 } = options
+
+  if (fromId === toId) {
+    return { actorIds: [fromId], movieIds: [] }
+  }
+
+  const forward = new Map<number, Visit>([[fromId, { depth: 0, parent: null, movieId: null }]])
+  const backward = new Map<number, Visit>([[toId, { depth: 0, parent: null, movieId: null }]])
+  let forwardFrontier = [fromId]
+  let backwardFrontier = [toId]
+  let degrees = 0
+
+  while (forwardFrontier.length > 0 && backwardFrontier.length > 0 && degrees < maxDegrees) {
+    const expandForward = forwardFrontier.length <= backwardFrontier.length
+    const visits = expandForward ? forward : backward
+    const others = expandForward ? backward : forward
+    const frontier = expandForward ? forwardFrontier : backwardFrontier
+
+    const next: number[] = []
+    let meeting: number | null = null
+    let meetingLength = Infinity
+
+    for (let start = 0; start < frontier.length; start += chunkSize) {
+      if (forward.size + backward.size > maxVisited) return null
+
+      const chunk = frontier.slice(start, start + chunkSize)
+      const coStars = await getCoStars(chunk)
+      for (const actorId of chunk) {
+        const depth = visits.get(actorId)!.depth + 1
+        for (const edge of coStars.get(actorId) ?? []) {
+          if (visits.has(edge.actorId)) continue
+          visits.set(edge.actorId, { depth, parent: actorId, movieId: edge.movieId })
+          next.push(edge.actorId)
+
+          const other = others.get(edge.actorId)
+          if (other && depth + other.depth < meetingLength) {
+            meeting = edge.actorId
+            meetingLength = depth + other.depth
+          }
+        }
+      }
+    }
+    degrees++
+
+    if (meeting !== null) {
+      const head = tracePath(forward, meeting)
+      const tail = tracePath(backward, meeting)
+      return {
+        actorIds: [...head.actorIds.reverse(), ...tail.actorIds.slice(1)],
+        movieIds: [...head.movieIds.reverse(), ...tail.movieIds],
+      }
+    }
+
+    if (forward.size + backward.size > maxVisited) return null
+
+    if (expandForward) {
+      forwardFrontier = next
+    } else {
+      backwardFrontier = next
+    }
+  }
+
+  return null
+}
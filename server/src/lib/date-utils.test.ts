@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest"
-import { formatDate, subtractDays, getDateRanges, MAX_QUERY_DAYS } from "./date-utils.js"
+import {
+  formatDate,
+  subtractDays,
+  getDateRanges,
+  toDecimalYear,
+  calculateAgeOnDate,
+  MAX_QUERY_DAYS,
+} from "./date-utils.js"
 
 describe("date-utils", () => {
   describe("formatDate", () => {
@@ -138,4 +145,55 @@ describe("date-utils", () => {
       expect(MAX_QUERY_DAYS).toBe(14)
     })
   })
+
+  describe("toDecimalYear", () => {
+    it("places a full date at noon on that day", () => {
+      expect(toDecimalYear("2023-01-01")).toBeCloseTo(2023 + 0.5 / 365, 10)
+      expect(toDecimalYear("2024-12-31")).toBeCloseTo(2024 + 365.5 / 366, 10)
+    })
+
+    it("places a bare year at mid-year", () => {
+      expect(toDecimalYear("1950")).toBe(1950.5)
+      expect(toDecimalYear(1950)).toBe(1950.5)
+    })
+
+    it("places a year and month at mid-month", () => {
+      expect(toDecimalYear("2023-02")).toBeCloseTo(2023 + (31 + 14) / 365, 10)
+    })
+
+    it("gives exact fractional differences between dates", () => {
+      const age = toDecimalYear("2020-07-01")! - toDecimalYear("1980-01-01")!
+      expect(age).toBeGreaterThan(40.49)
+      expect(age).toBeLessThan(40.51)
+    })
+
+    it("returns null for malformed values", () => {
+      expect(toDecimalYear("invalid-date")).toBeNull()
+      expect(toDecimalYear("2023-13-01")).toBeNull()
+      expect(toDecimalYear("2023-02-30")).toBeNull()
+      expect(toDecimalYear(1950.5)).toBeNull()
+    })
+  })
+
+  describe("calculateAgeOnDate", () => {
+    it("counts completed years when both dates are known to the day", () => {
+      expect(calculateAgeOnDate("1980-05-15", "2020-05-14")).toBe(39)
+      expect(calculateAgeOnDate("1980-05-15", "2020-05-15")).toBe(40)
+      expect(calculateAgeOnDate("1970-12-20", "2000-06-01")).toBe(29)
+    })
+
+    it("treats a Feb 29 birthday as reached on Mar 1 in non-leap years", () => {
+      expect(calculateAgeOnDate("1928-02-29", "2021-02-28")).toBe(92)
+      expect(calculateAgeOnDate("1928-02-29", "2021-03-01")).toBe(93)
+    })
+
+    it("falls back to the difference in years when only the year is known", () => {
+      expect(calculateAgeOnDate("1970-12-20", 2000)).toBe(30)
+      expect(calculateAgeOnDate("1970", "2000-06-01")).toBe(30)
+    })
+
+    it("returns null for malformed values", () => {
+      expect(calculateAgeOnDate("invalid-date", 2020)).toBeNull()
+    })
+  })
 })
@@ -1,5 +1,5 @@
 /**
- * Date utility functions for TMDB sync operations.
+ * Date utility functions for TMDB sync operations and age calculations.
  */
 
 export const MAX_QUERY_DAYS = 14 // TMDB API limit
@@ -63,3 +63,91 @@ export function getDateRanges(
 
   return ranges
 }
+
+interface PartialDate {
+  year: number
+  month: number | null // 1-12
+  day: number | null
+}
+
+/**
+ * Parse a date that may only be known to the year or month.
+ * Numbers are treated as a bare year. Returns null for malformed input.
+ */
+function parsePartialDate(value: string | number): PartialDate | null {
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { year: value, month: null, day: null } : null
+  }
+
+  // Accept YYYY, YYYY-MM or YYYY-MM-DD
+  const parts = value.split("-")
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null
+  if (parts[0].length !== 4 || parts.slice(1).some((part) => part.length !== 2)) return null
+
+  const year = Number(parts[0])
+  const month = parts[1] ? Number(parts[1]) : null
+  const day = parts[2] ? Number(parts[2]) : null
+  if (month !== null && (month < 1 || month > 12)) return null
+  if (month !== null && day !== null && (day < 1 || day > daysInMonth(year, month))) return null
+
+  return { year, month, day }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function daysInYear(year: number): number {
+  return (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / 86400000
+}
+
+/**
+ * Convert a full or partial date to a fractional (decimal) year, e.g. 1980-07-02 is ~1980.5.
+ *
+ * Full dates are placed at noon on that day. Dates known only to the month are
+ * placed at the middle of the month, and bare years at the middle of the year,
+ * so missing precision averages out rather than biasing ages in one direction.
+ *
+ * @param value - Date string (YYYY, YYYY-MM or YYYY-MM-DD) or a year number
+ * @returns Decimal year, or null if the value is malformed
+ */
+export function toDecimalYear(value: string | number): number | null {
+  const date = parsePartialDate(value)
+  if (!date) return null
+
+  const { year, month, day } = date
+  if (month === null) return year + 0.5
+
+  const monthStart = (Date.UTC(year, month - 1, 1) - Date.UTC(year, 0, 1)) / 86400000
+  const dayOffset = day !== null ? day - 1 + 0.5 : daysInMonth(year, month) / 2
+
+  return year + (monthStart + dayOffset) / daysInYear(year)
+}
+
+/**
+ * Calculate age in completed years on a given date.
+ *
+ * When both dates are known to the day, the birthday must have been reached
+ * for the year to count. If either date is only known to the year (or month),
+ * falls back to the difference in years (or months).
+ *
+ * @param birthday - Date of birth (YYYY, YYYY-MM or YYYY-MM-DD)
+ * @param onDate - Date to calculate the age on, or a year number
+ * @returns Age in completed years, or null if either value is malformed
+ */
+export function calculateAgeOnDate(birthday: string, onDate: string | number): number | null {
+  const birth = parsePartialDate(birthday)
+  const on = parsePartialDate(onDate)
+  if (!birth || !on) return null
+
+  let age = on.year - birth.year
+  if (birth.month === null || on.month === null) return age
+
+  if (on.month < birth.month) {
+    age--
+  } else if (on.month === birth.month && birth.day !== null && on.day !== null) {
+    if (on.day < birth.day) age--
+  }
+
+  return age
+}
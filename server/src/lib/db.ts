@@ -1,4 +1,16 @@
 import pg from "pg"
+import { DEFAULT_CAST_DEPTH, type CastDepth } from "./cast-depth.js"
+import type { MortalityPopulation } from "./mortality-shrinkage.js"
+import type { CohortDimension, CohortTotals } from "./cohort-mortality.js"
+import { RANKED_CREW_ROLES, type RankedCrewRole } from "./key-crew.js"
+import {
+  normalizeCauseOfDeath,
+  getCauseCategoryLabel,
+  type CauseCategory,
+} from "./cause-taxonomy.js"
+import type { CauseMatch } from "./cause-registry.js"
+import type { CauseOfDeathAnswer, CauseOfDeathAnswerSource } from "./wikidata.js"
+import type { FeedbackCategory } from "./feedback.js"
 
 const { Pool } = pg
 
@@ -139,7 +151,8 @@ export async function initDatabase(): Promise<void> {
   console.log("Database initialized")
 }
 
-export type DeathInfoSource = "claude" | "wikipedia" | null
+// "admin" marks values entered by hand in the moderation console
+export type DeathInfoSource = "claude" | "wikipedia" | "admin" | null
 
 export interface DeceasedPersonRecord {
   tmdb_id: number
@@ -155,6 +168,13 @@ export interface DeceasedPersonRecord {
   age_at_death: number | null
   expected_lifespan: number | null
   years_lost: number | null
+  // Normalized cause, derived from cause_of_death when the row is written
+  cause_of_death_category?: CauseCategory | null
+  cause_of_death_subcategory?: string | null
+  // Set by the moderation console to stop automated overwrites
+  death_info_locked?: boolean
+  // Share of source weight behind the resolved cause, once sources have been compared
+  cause_of_death_agreement?: number | null
 }
 
 // Get a deceased person by TMDB ID
@@ -187,75 +207,122 @@ export async function getDeceasedPersons(
   return map
 }
 
+// Who is writing a death record and why. Recorded in death_info_history by a
+// trigger on deceased_persons, e.g. { actor: "sync", reason: "TMDB changes sync" }
+// or { actor: "admin:alice" }.
+export interface AuditContext {
+  actor: string
+  reason?: string | null
+}
+
+// Run writes in a transaction labelled with an audit context. The settings are
+// transaction-local, so they can't leak to other queries on the pooled client.
+async function withAuditContext<T>(
+  audit: AuditContext,
+  write: (client: pg.PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await getPool().connect()
+  try {
+    await client.query("BEGIN")
+    await client.query(
+      `SELECT set_config('dead_on_film.audit_actor', $1, true),
+              set_config('dead_on_film.audit_reason', $2, true)`,
+      [audit.actor, audit.reason ?? ""]
+    )
+    const result = await write(client)
+    await client.query("COMMIT")
+    return result
+  } catch (error) {
+    await client.query("ROLLBACK")
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
 // Insert or update a deceased person
 // Note: COALESCE prioritizes existing values over new values to preserve first-found data.
 // This is intentional - once we have death info, we don't overwrite it with potentially
 // different/conflicting data from later lookups.
-export async function upsertDeceasedPerson(person: DeceasedPersonRecord): Promise<void> {
-  const db = getPool()
-  await db.query(
-    `INSERT INTO deceased_persons (tmdb_id, name, birthday, deathday, cause_of_death, cause_of_death_source, cause_of_death_details, cause_of_death_details_source, wikipedia_url, profile_path, age_at_death, expected_lifespan, years_lost, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, CURRENT_TIMESTAMP)
+// Rows locked in the moderation console keep their death info as it is, even where
+// it's empty, so a cause a moderator cleared isn't filled in again.
+export async function upsertDeceasedPerson(
+  person: DeceasedPersonRecord,
+  audit: AuditContext
+): Promise<void> {
+  const cause = normalizeCauseOfDeath(person.cause_of_death)
+  await withAuditContext(audit, (client) =>
+    client.query(
+      `INSERT INTO deceased_persons (tmdb_id, name, birthday, deathday, cause_of_death, cause_of_death_source, cause_of_death_details, cause_of_death_details_source, wikipedia_url, profile_path, age_at_death, expected_lifespan, years_lost, cause_of_death_category, cause_of_death_subcategory, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, CURRENT_TIMESTAMP)
      ON CONFLICT (tmdb_id) DO UPDATE SET
        name = EXCLUDED.name,
        birthday = EXCLUDED.birthday,
        deathday = EXCLUDED.deathday,
-       cause_of_death = COALESCE(deceased_persons.cause_of_death, EXCLUDED.cause_of_death),
-       cause_of_death_source = COALESCE(deceased_persons.cause_of_death_source, EXCLUDED.cause_of_death_source),
-       cause_of_death_details = COALESCE(deceased_persons.cause_of_death_details, EXCLUDED.cause_of_death_details),
-       cause_of_death_details_source = COALESCE(deceased_persons.cause_of_death_details_source, EXCLUDED.cause_of_death_details_source),
-       wikipedia_url = COALESCE(deceased_persons.wikipedia_url, EXCLUDED.wikipedia_url),
+       cause_of_death = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death ELSE COALESCE(deceased_persons.cause_of_death, EXCLUDED.cause_of_death) END,
+       cause_of_death_source = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death_source ELSE COALESCE(deceased_persons.cause_of_death_source, EXCLUDED.cause_of_death_source) END,
+       cause_of_death_details = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death_details ELSE COALESCE(deceased_persons.cause_of_death_details, EXCLUDED.cause_of_death_details) END,
+       cause_of_death_details_source = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death_details_source ELSE COALESCE(deceased_persons.cause_of_death_details_source, EXCLUDED.cause_of_death_details_source) END,
+       wikipedia_url = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.wikipedia_url ELSE COALESCE(deceased_persons.wikipedia_url, EXCLUDED.wikipedia_url) END,
        profile_path = COALESCE(deceased_persons.profile_path, EXCLUDED.profile_path),
        age_at_death = COALESCE(deceased_persons.age_at_death, EXCLUDED.age_at_death),
        expected_lifespan = COALESCE(deceased_persons.expected_lifespan, EXCLUDED.expected_lifespan),
        years_lost = COALESCE(deceased_persons.years_lost, EXCLUDED.years_lost),
+       -- The category always follows whichever cause_of_death is kept
+       cause_of_death_category = CASE WHEN deceased_persons.cause_of_death IS NULL AND NOT deceased_persons.death_info_locked THEN EXCLUDED.cause_of_death_category ELSE deceased_persons.cause_of_death_category END,
+       cause_of_death_subcategory = CASE WHEN deceased_persons.cause_of_death IS NULL AND NOT deceased_persons.death_info_locked THEN EXCLUDED.cause_of_death_subcategory ELSE deceased_persons.cause_of_death_subcategory END,
        updated_at = CURRENT_TIMESTAMP`,
-    [
-      person.tmdb_id,
-      person.name,
-      person.birthday,
-      person.deathday,
-      person.cause_of_death,
-      person.cause_of_death_source,
-      person.cause_of_death_details,
-      person.cause_of_death_details_source,
-      person.wikipedia_url,
-      person.profile_path,
-      person.age_at_death,
-      person.expected_lifespan,
-      person.years_lost,
-    ]
+      [
+        person.tmdb_id,
+        person.name,
+        person.birthday,
+        person.deathday,
+        person.cause_of_death,
+        person.cause_of_death_source,
+        person.cause_of_death_details,
+        person.cause_of_death_details_source,
+        person.wikipedia_url,
+        person.profile_path,
+        person.age_at_death,
+        person.expected_lifespan,
+        person.years_lost,
+        cause?.category ?? null,
+        cause?.subcategory ?? null,
+      ]
+    )
   )
 }
 
-// Batch insert/update deceased persons
-export async function batchUpsertDeceasedPersons(persons: DeceasedPersonRecord[]): Promise<void> {
+// Batch insert/update deceased persons, with the same rules as upsertDeceasedPerson
+export async function batchUpsertDeceasedPersons(
+  persons: DeceasedPersonRecord[],
+  audit: AuditContext
+): Promise<void> {
   if (persons.length === 0) return
 
-  const db = getPool()
-
-  // Use a transaction for batch insert
-  const client = await db.connect()
-  try {
-    await client.query("BEGIN")
-
+  // One transaction for the whole batch
+  await withAuditContext(audit, async (client) => {
     for (const person of persons) {
+      const cause = normalizeCauseOfDeath(person.cause_of_death)
       await client.query(
-        `INSERT INTO deceased_persons (tmdb_id, name, birthday, deathday, cause_of_death, cause_of_death_source, cause_of_death_details, cause_of_death_details_source, wikipedia_url, profile_path, age_at_death, expected_lifespan, years_lost, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, CURRENT_TIMESTAMP)
+        `INSERT INTO deceased_persons (tmdb_id, name, birthday, deathday, cause_of_death, cause_of_death_source, cause_of_death_details, cause_of_death_details_source, wikipedia_url, profile_path, age_at_death, expected_lifespan, years_lost, cause_of_death_category, cause_of_death_subcategory, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, CURRENT_TIMESTAMP)
          ON CONFLICT (tmdb_id) DO UPDATE SET
            name = EXCLUDED.name,
            birthday = EXCLUDED.birthday,
            deathday = EXCLUDED.deathday,
-           cause_of_death = COALESCE(deceased_persons.cause_of_death, EXCLUDED.cause_of_death),
-           cause_of_death_source = COALESCE(deceased_persons.cause_of_death_source, EXCLUDED.cause_of_death_source),
-           cause_of_death_details = COALESCE(deceased_persons.cause_of_death_details, EXCLUDED.cause_of_death_details),
-           cause_of_death_details_source = COALESCE(deceased_persons.cause_of_death_details_source, EXCLUDED.cause_of_death_details_source),
-           wikipedia_url = COALESCE(deceased_persons.wikipedia_url, EXCLUDED.wikipedia_url),
+           cause_of_death = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death ELSE COALESCE(deceased_persons.cause_of_death, EXCLUDED.cause_of_death) END,
+           cause_of_death_source = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death_source ELSE COALESCE(deceased_persons.cause_of_death_source, EXCLUDED.cause_of_death_source) END,
+           cause_of_death_details = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death_details ELSE COALESCE(deceased_persons.cause_of_death_details, EXCLUDED.cause_of_death_details) END,
+           cause_of_death_details_source = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.cause_of_death_details_source ELSE COALESCE(deceased_persons.cause_of_death_details_source, EXCLUDED.cause_of_death_details_source) END,
+           wikipedia_url = CASE WHEN deceased_persons.death_info_locked THEN deceased_persons.wikipedia_url ELSE COALESCE(deceased_persons.wikipedia_url, EXCLUDED.wikipedia_url) END,
            profile_path = COALESCE(deceased_persons.profile_path, EXCLUDED.profile_path),
            age_at_death = COALESCE(deceased_persons.age_at_death, EXCLUDED.age_at_death),
            expected_lifespan = COALESCE(deceased_persons.expected_lifespan, EXCLUDED.expected_lifespan),
            years_lost = COALESCE(deceased_persons.years_lost, EXCLUDED.years_lost),
+           -- The category always follows whichever cause_of_death is kept
+           cause_of_death_category = CASE WHEN deceased_persons.cause_of_death IS NULL AND NOT deceased_persons.death_info_locked THEN EXCLUDED.cause_of_death_category ELSE deceased_persons.cause_of_death_category END,
+           cause_of_death_subcategory = CASE WHEN deceased_persons.cause_of_death IS NULL AND NOT deceased_persons.death_info_locked THEN EXCLUDED.cause_of_death_subcategory ELSE deceased_persons.cause_of_death_subcategory END,
            updated_at = CURRENT_TIMESTAMP`,
         [
           person.tmdb_id,
@@ -271,47 +338,52 @@ export async function batchUpsertDeceasedPersons(persons: DeceasedPersonRecord[]
           person.age_at_death,
           person.expected_lifespan,
           person.years_lost,
+          cause?.category ?? null,
+          cause?.subcategory ?? null,
         ]
       )
     }
-
-    await client.query("COMMIT")
-  } catch (error) {
-    await client.query("ROLLBACK")
-    throw error
-  } finally {
-    client.release()
-  }
+  })
 }
 
-// Update just the cause of death and wikipedia URL for an existing person
-// Note: COALESCE prioritizes existing values - see comment on upsertDeceasedPerson
+// Update just the cause of death and wikipedia URL for an existing person.
+// A cause replaces the stored one, taking its details, sources and category with
+// it, so the enrichment worker's resolved answer is what gets displayed; a null
+// cause keeps what's there. The wikipedia URL only fills a gap.
+// Rows locked in the moderation console are never touched.
 export async function updateDeathInfo(
   tmdbId: number,
   causeOfDeath: string | null,
   causeOfDeathSource: DeathInfoSource,
   causeOfDeathDetails: string | null,
   causeOfDeathDetailsSource: DeathInfoSource,
-  wikipediaUrl: string | null
+  wikipediaUrl: string | null,
+  audit: AuditContext
 ): Promise<void> {
-  const db = getPool()
-  await db.query(
-    `UPDATE deceased_persons
-     SET cause_of_death = COALESCE(cause_of_death, $2),
-         cause_of_death_source = COALESCE(cause_of_death_source, $3),
-         cause_of_death_details = COALESCE(cause_of_death_details, $4),
-         cause_of_death_details_source = COALESCE(cause_of_death_details_source, $5),
+  const cause = normalizeCauseOfDeath(causeOfDeath)
+  await withAuditContext(audit, (client) =>
+    client.query(
+      `UPDATE deceased_persons
+     SET cause_of_death_category = CASE WHEN $2::text IS NULL THEN cause_of_death_category ELSE $7 END,
+         cause_of_death_subcategory = CASE WHEN $2::text IS NULL THEN cause_of_death_subcategory ELSE $8 END,
+         cause_of_death_source = CASE WHEN $2::text IS NULL THEN cause_of_death_source ELSE $3 END,
+         cause_of_death_details = CASE WHEN $2::text IS NULL THEN cause_of_death_details ELSE $4 END,
+         cause_of_death_details_source = CASE WHEN $2::text IS NULL THEN cause_of_death_details_source ELSE $5 END,
+         cause_of_death = COALESCE($2, cause_of_death),
          wikipedia_url = COALESCE(wikipedia_url, $6),
          updated_at = CURRENT_TIMESTAMP
-     WHERE tmdb_id = $1`,
-    [
-      tmdbId,
-      causeOfDeath,
-      causeOfDeathSource,
-      causeOfDeathDetails,
-      causeOfDeathDetailsSource,
-      wikipediaUrl,
-    ]
+     WHERE tmdb_id = $1 AND NOT death_info_locked`,
+      [
+        tmdbId,
+        causeOfDeath,
+        causeOfDeathSource,
+        causeOfDeathDetails,
+        causeOfDeathDetailsSource,
+        wikipediaUrl,
+        cause?.category ?? null,
+        cause?.subcategory ?? null,
+      ]
+    )
   )
 }
 
@@ -333,6 +405,89 @@ export async function getDeceasedByMonthDay(
   return result.rows
 }
 
+// ============================================================================
+// Cause of death source answers
+// ============================================================================
+
+// What one source said about a person's death (cause_of_death_data joined with
+// cause_of_death_detail_data)
+export interface CauseOfDeathSourceRecord {
+  source: CauseOfDeathAnswerSource
+  cause_of_death: string | null
+  cause_of_death_details: string | null
+  // Prompt template id and model, for LLM answers
+  prompt_version: string | null
+  model: string | null
+}
+
+// Record every source's answer for a deceased person, replacing that source's
+// previous answer. Does nothing if the person isn't in deceased_persons yet.
+export async function saveCauseOfDeathAnswers(
+  tmdbId: number,
+  answers: CauseOfDeathAnswer[]
+): Promise<void> {
+  if (answers.length === 0) return
+
+  const db = getPool()
+
+  const client = await db.connect()
+  try {
+    await client.query("BEGIN")
+
+    for (const answer of answers) {
+      await client.query(
+        `INSERT INTO cause_of_death_data (deceased_person_id, source, cause_of_death, prompt_version, model)
+         SELECT tmdb_id, $2, $3, $4, $5 FROM deceased_persons WHERE tmdb_id = $1
+         ON CONFLICT (deceased_person_id, source) DO UPDATE SET
+           cause_of_death = EXCLUDED.cause_of_death,
+           prompt_version = EXCLUDED.prompt_version,
+           model = EXCLUDED.model`,
+        [
+          tmdbId,
+          answer.source,
+          answer.causeOfDeath,
+          answer.promptVersion ?? null,
+          answer.model ?? null,
+        ]
+      )
+      await client.query(
+        `INSERT INTO cause_of_death_detail_data (deceased_person_id, source, cause_of_death_details, prompt_version, model)
+         SELECT tmdb_id, $2, $3, $4, $5 FROM deceased_persons WHERE tmdb_id = $1
+         ON CONFLICT (deceased_person_id, source) DO UPDATE SET
+           cause_of_death_details = EXCLUDED.cause_of_death_details,
+           prompt_version = EXCLUDED.prompt_version,
+           model = EXCLUDED.model`,
+        [tmdbId, answer.source, answer.details, answer.promptVersion ?? null, answer.model ?? null]
+      )
+    }
+
+    await client.query("COMMIT")
+  } catch (error) {
+    await client.query("ROLLBACK")
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Get every stored source answer for a deceased person
+export async function getStoredCauseOfDeathAnswers(
+  tmdbId: number
+): Promise<CauseOfDeathSourceRecord[]> {
+  const db = getPool()
+  const result = await db.query<CauseOfDeathSourceRecord>(
+    `SELECT COALESCE(c.source, d.source) as source, c.cause_of_death, d.cause_of_death_details,
+            COALESCE(c.prompt_version, d.prompt_version) as prompt_version,
+            COALESCE(c.model, d.model) as model
+     FROM (SELECT * FROM cause_of_death_data WHERE deceased_person_id = $1) c
+     FULL JOIN (SELECT * FROM cause_of_death_detail_data WHERE deceased_person_id = $1) d
+       ON d.source = c.source
+     ORDER BY 1`,
+    [tmdbId]
+  )
+  return result.rows
+}
+
 // ============================================================================
 // Movies table functions
 // ============================================================================
@@ -352,6 +507,11 @@ export interface MovieRecord {
   living_count: number | null
   expected_deaths: number | null
   mortality_surprise_score: number | null
+  mortality_model: string | null
+  mortality_p_value: number | null
+  expected_deaths_low: number | null
+  expected_deaths_high: number | null
+  cast_depth: CastDepth // Part of the billed cast the statistics cover
 }
 
 // Get a movie by TMDB ID
@@ -361,12 +521,24 @@ export async function getMovie(tmdbId: number): Promise<MovieRecord | null> {
   return result.rows[0] || null
 }
 
+// Get several movies by TMDB ID (in no particular order)
+export async function getMovies(tmdbIds: number[]): Promise<MovieRecord[]> {
+  if (tmdbIds.length === 0) return []
+
+  const db = getPool()
+  const result = await db.query<MovieRecord>(
+    "SELECT * FROM movies WHERE tmdb_id = ANY($1::int[])",
+    [tmdbIds]
+  )
+  return result.rows
+}
+
 // Insert or update a movie
 export async function upsertMovie(movie: MovieRecord): Promise<void> {
   const db = getPool()
   await db.query(
-    `INSERT INTO movies (tmdb_id, title, release_date, release_year, poster_path, genres, original_language, popularity, vote_average, cast_count, deceased_count, living_count, expected_deaths, mortality_surprise_score, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, CURRENT_TIMESTAMP)
+    `INSERT INTO movies (tmdb_id, title, release_date, release_year, poster_path, genres, original_language, popularity, vote_average, cast_count, deceased_count, living_count, expected_deaths, mortality_surprise_score, mortality_model, mortality_p_value, expected_deaths_low, expected_deaths_high, cast_depth, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, CURRENT_TIMESTAMP)
      ON CONFLICT (tmdb_id) DO UPDATE SET
        title = EXCLUDED.title,
        release_date = EXCLUDED.release_date,
@@ -381,6 +553,11 @@ export async function upsertMovie(movie: MovieRecord): Promise<void> {
        living_count = EXCLUDED.living_count,
        expected_deaths = EXCLUDED.expected_deaths,
        mortality_surprise_score = EXCLUDED.mortality_surprise_score,
+       mortality_model = EXCLUDED.mortality_model,
+       mortality_p_value = EXCLUDED.mortality_p_value,
+       expected_deaths_low = EXCLUDED.expected_deaths_low,
+       expected_deaths_high = EXCLUDED.expected_deaths_high,
+       cast_depth = EXCLUDED.cast_depth,
        updated_at = CURRENT_TIMESTAMP`,
     [
       movie.tmdb_id,
@@ -397,6 +574,11 @@ export async function upsertMovie(movie: MovieRecord): Promise<void> {
       movie.living_count,
       movie.expected_deaths,
       movie.mortality_surprise_score,
+      movie.mortality_model,
+      movie.mortality_p_value,
+      movie.expected_deaths_low,
+      movie.expected_deaths_high,
+      movie.cast_depth,
     ]
   )
 }
@@ -409,6 +591,21 @@ export interface HighMortalityOptions {
   toYear?: number // End year (e.g., 1989)
   minDeadActors?: number
   includeObscure?: boolean // Include obscure/unknown movies (default: false)
+  // Rank by the empirical-Bayes shrunk SMR, (deceased + alpha) / (expected + beta),
+  // instead of the raw surprise score
+  shrinkage?: { alpha: number; beta: number }
+}
+
+// Hides obscure movies unless the boolean parameter at $n is true
+function obscureMovieFilter(param: number): string {
+  return `(
+         $${param}::boolean = true
+         OR NOT (
+           poster_path IS NULL
+           OR (original_language = 'en' AND COALESCE(popularity, 0) < 5.0 AND cast_count IS NOT NULL AND cast_count < 5)
+           OR (original_language IS NOT NULL AND original_language != 'en' AND COALESCE(popularity, 0) < 20.0)
+         )
+       )`
 }
 
 // Get movies with high mortality surprise scores
@@ -423,27 +620,37 @@ export async function getHighMortalityMovies(
     toYear,
     minDeadActors = 3,
     includeObscure = false,
+    shrinkage,
   } = options
 
+  const params: unknown[] = [
+    minDeadActors,
+    fromYear || null,
+    toYear || null,
+    limit,
+    offset,
+    includeObscure,
+    DEFAULT_CAST_DEPTH,
+  ]
+  let orderBy = "mortality_surprise_score DESC"
+  if (shrinkage) {
+    params.push(shrinkage.alpha, shrinkage.beta)
+    orderBy = `(deceased_count + $8::float8) / (expected_deaths + $9::float8) DESC NULLS LAST, ${orderBy}`
+  }
+
   const db = getPool()
   const result = await db.query<MovieRecord & { total_count: string }>(
     `SELECT COUNT(*) OVER () as total_count, *
      FROM movies
      WHERE mortality_surprise_score IS NOT NULL
+       AND cast_depth = $7
        AND deceased_count >= $1
        AND ($2::integer IS NULL OR release_year >= $2)
        AND ($3::integer IS NULL OR release_year <= $3)
-       AND (
-         $6::boolean = true
-         OR NOT (
-           poster_path IS NULL
-           OR (original_language = 'en' AND COALESCE(popularity, 0) < 5.0 AND cast_count IS NOT NULL AND cast_count < 5)
-           OR (original_language IS NOT NULL AND original_language != 'en' AND COALESCE(popularity, 0) < 20.0)
-         )
-       )
-     ORDER BY mortality_surprise_score DESC
+       AND ${obscureMovieFilter(6)}
+     ORDER BY ${orderBy}
      LIMIT $4 OFFSET $5`,
-    [minDeadActors, fromYear || null, toYear || null, limit, offset, includeObscure]
+    params
   )
 
   const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
@@ -452,28 +659,238 @@ export async function getHighMortalityMovies(
   return { movies, totalCount }
 }
 
+export interface LowMortalityOptions extends Pick<
+  HighMortalityOptions,
+  "limit" | "offset" | "fromYear" | "toYear" | "includeObscure"
+> {
+  // Only casts old enough that this many deaths were expected, so a young cast
+  // with no deaths yet doesn't count as beating the odds
+  minExpectedDeaths?: number
+  maxPValue?: number // Significance threshold for fewer deaths than expected
+}
+
+// Get movies with significantly fewer deaths than expected ("blessed" movies)
+// Supports pagination and the same year range and obscurity filters as the cursed leaderboard
+export async function getLowMortalityMovies(
+  options: LowMortalityOptions = {}
+): Promise<{ movies: MovieRecord[]; totalCount: number }> {
+  const {
+    limit = 50,
+    offset = 0,
+    fromYear,
+    toYear,
+    includeObscure = false,
+    minExpectedDeaths = 3,
+    maxPValue = 0.05,
+  } = options
+
+  const db = getPool()
+  const result = await db.query<MovieRecord & { total_count: string }>(
+    `SELECT COUNT(*) OVER () as total_count, *
+     FROM movies
+     WHERE mortality_surprise_score < 0
+       AND mortality_p_value < $8
+       AND cast_depth = $7
+       AND expected_deaths >= $1
+       AND ($2::integer IS NULL OR release_year >= $2)
+       AND ($3::integer IS NULL OR release_year <= $3)
+       AND ${obscureMovieFilter(6)}
+     ORDER BY mortality_surprise_score ASC, expected_deaths DESC
+     LIMIT $4 OFFSET $5`,
+    [
+      minExpectedDeaths,
+      fromYear || null,
+      toYear || null,
+      limit,
+      offset,
+      includeObscure,
+      DEFAULT_CAST_DEPTH,
+      maxPValue,
+    ]
+  )
+
+  const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
+  const movies = result.rows.map(({ total_count: _total_count, ...movie }) => movie as MovieRecord)
+
+  return { movies, totalCount }
+}
+
+export interface CohortMortalityOptions {
+  dimensions: CohortDimension[]
+  fromYear?: number
+  toYear?: number
+  genre?: string // Only movies with this genre
+  language?: string // Only movies in this original language (ISO 639-1)
+  includeObscure?: boolean
+  minMovies?: number // Leave out cohorts with fewer movies (default: 5)
+}
+
+// Column expression and alias for each cohort dimension. Genre unnests the genres
+// array, so a movie with several genres counts toward each of them.
+const COHORT_COLUMNS: Record<CohortDimension, { expression: string; alias: string }> = {
+  genre: { expression: "g.genre", alias: "genre" },
+  decade: { expression: "(release_year / 10) * 10", alias: "decade" },
+  language: { expression: "original_language", alias: "language" },
+}
+
+// Sum actual and expected deaths for movies grouped by any combination of genre,
+// release decade and original language
+export async function getCohortMortalityTotals(
+  options: CohortMortalityOptions
+): Promise<CohortTotals[]> {
+  const {
+    dimensions,
+    fromYear,
+    toYear,
+    genre,
+    language,
+    includeObscure = false,
+    minMovies = 5,
+  } = options
+
+  const columns = dimensions.map((d) => COHORT_COLUMNS[d])
+  const selectList = columns.map((c) => `${c.expression} as ${c.alias}`).join(", ")
+  const groupList = columns.map((c) => c.expression).join(", ")
+
+  const db = getPool()
+  const result = await db.query<{
+    genre?: string
+    decade?: number
+    language?: string
+    movie_count: number
+    deaths: number
+    expected_deaths: number
+  }>(
+    `SELECT ${selectList},
+       COUNT(*)::integer as movie_count,
+       SUM(deceased_count)::integer as deaths,
+       SUM(expected_deaths)::float8 as expected_deaths
+     FROM movies
+     ${dimensions.includes("genre") ? "CROSS JOIN LATERAL unnest(genres) as g(genre)" : ""}
+     WHERE mortality_surprise_score IS NOT NULL
+       AND cast_depth = $1
+       AND expected_deaths > 0
+       AND ${obscureMovieFilter(2)}
+       AND ($3::integer IS NULL OR release_year >= $3)
+       AND ($4::integer IS NULL OR release_year <= $4)
+       AND ($5::text IS NULL OR $5 = ANY(genres))
+       AND ($6::text IS NULL OR original_language = $6)
+       ${dimensions.includes("decade") ? "AND release_year IS NOT NULL" : ""}
+       ${dimensions.includes("language") ? "AND original_language IS NOT NULL" : ""}
+     GROUP BY ${groupList}
+     HAVING COUNT(*) >= $7
+     ORDER BY ${groupList}`,
+    [
+      DEFAULT_CAST_DEPTH,
+      includeObscure,
+      fromYear || null,
+      toYear || null,
+      genre || null,
+      language || null,
+      minMovies,
+    ]
+  )
+
+  return result.rows.map((row) => {
+    const totals: CohortTotals = {
+      movieCount: row.movie_count,
+      deaths: row.deaths,
+      expectedDeaths: row.expected_deaths,
+    }
+    if (dimensions.includes("genre")) totals.genre = row.genre
+    if (dimensions.includes("decade")) totals.decade = row.decade
+    if (dimensions.includes("language")) totals.language = row.language
+    return totals
+  })
+}
+
 // Get the maximum min deaths value that still returns at least 5 movies
 export async function getMaxValidMinDeaths(): Promise<number> {
   const db = getPool()
 
   // Find the highest threshold that still returns at least 5 movies
   // Optimized query: group by deceased_count directly instead of generating and joining
-  const result = await db.query<{ max_threshold: number | null }>(`
+  const result = await db.query<{ max_threshold: number | null }>(
+    `
     SELECT MAX(deceased_count) as max_threshold
     FROM (
       SELECT deceased_count, COUNT(*) as count
       FROM movies
       WHERE mortality_surprise_score IS NOT NULL
+        AND cast_depth = $1
         AND deceased_count >= 3
       GROUP BY deceased_count
       HAVING COUNT(*) >= 5
     ) subq
-  `)
+  `,
+    [DEFAULT_CAST_DEPTH]
+  )
 
   // Default to 3 if no valid thresholds found
   return result.rows[0]?.max_threshold ?? 3
 }
 
+// Totals over every movie with mortality statistics, for fitting the shrinkage prior
+export async function getMortalityPopulation(): Promise<MortalityPopulation> {
+  const db = getPool()
+  const result = await db.query<{
+    movie_count: number
+    total_deaths: number
+    total_expected_deaths: number
+    sum_deaths_squared_over_expected: number
+  }>(
+    `SELECT COUNT(*)::integer as movie_count,
+       COALESCE(SUM(deceased_count), 0)::float8 as total_deaths,
+       COALESCE(SUM(expected_deaths), 0)::float8 as total_expected_deaths,
+       COALESCE(SUM(deceased_count::float8 * deceased_count / expected_deaths), 0)::float8
+         as sum_deaths_squared_over_expected
+     FROM movies
+     WHERE mortality_surprise_score IS NOT NULL
+       AND cast_depth = $1
+       AND expected_deaths > 0`,
+    [DEFAULT_CAST_DEPTH]
+  )
+
+  const row = result.rows[0]
+  return {
+    movieCount: row?.movie_count ?? 0,
+    totalDeaths: row?.total_deaths ?? 0,
+    totalExpectedDeaths: row?.total_expected_deaths ?? 0,
+    sumDeathsSquaredOverExpected: row?.sum_deaths_squared_over_expected ?? 0,
+  }
+}
+
+export interface FunnelPlotMovie {
+  tmdb_id: number
+  title: string
+  release_year: number | null
+  deceased_count: number
+  expected_deaths: number
+}
+
+// Every movie with expected deaths, for the funnel plot (filtered like the leaderboard,
+// except for minimum deaths, which would cut off the narrow end of the funnel)
+export async function getFunnelPlotMovies(
+  options: Pick<HighMortalityOptions, "fromYear" | "toYear" | "includeObscure"> = {}
+): Promise<FunnelPlotMovie[]> {
+  const { fromYear, toYear, includeObscure = false } = options
+
+  const db = getPool()
+  const result = await db.query<FunnelPlotMovie>(
+    `SELECT tmdb_id, title, release_year, deceased_count, expected_deaths::float8 as expected_deaths
+     FROM movies
+     WHERE mortality_surprise_score IS NOT NULL
+       AND cast_depth = $4
+       AND expected_deaths > 0
+       AND ($1::integer IS NULL OR release_year >= $1)
+       AND ($2::integer IS NULL OR release_year <= $2)
+       AND ${obscureMovieFilter(3)}
+     ORDER BY expected_deaths`,
+    [fromYear || null, toYear || null, includeObscure, DEFAULT_CAST_DEPTH]
+  )
+  return result.rows
+}
+
 // ============================================================================
 // Actor appearances table functions
 // ============================================================================
@@ -486,20 +903,22 @@ export interface ActorAppearanceRecord {
   billing_order: number | null
   age_at_filming: number | null
   is_deceased: boolean
+  gender: number | null // TMDB gender code (0 = unknown, 1 = female, 2 = male, 3 = non-binary)
 }
 
 // Insert or update an actor appearance
 export async function upsertActorAppearance(appearance: ActorAppearanceRecord): Promise<void> {
   const db = getPool()
   await db.query(
-    `INSERT INTO actor_appearances (actor_tmdb_id, movie_tmdb_id, actor_name, character_name, billing_order, age_at_filming, is_deceased)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `INSERT INTO actor_appearances (actor_tmdb_id, movie_tmdb_id, actor_name, character_name, billing_order, age_at_filming, is_deceased, gender)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
      ON CONFLICT (actor_tmdb_id, movie_tmdb_id) DO UPDATE SET
        actor_name = EXCLUDED.actor_name,
        character_name = EXCLUDED.character_name,
        billing_order = EXCLUDED.billing_order,
        age_at_filming = EXCLUDED.age_at_filming,
-       is_deceased = EXCLUDED.is_deceased`,
+       is_deceased = EXCLUDED.is_deceased,
+       gender = COALESCE(EXCLUDED.gender, actor_appearances.gender)`,
     [
       appearance.actor_tmdb_id,
       appearance.movie_tmdb_id,
@@ -508,6 +927,7 @@ export async function upsertActorAppearance(appearance: ActorAppearanceRecord):
       appearance.billing_order,
       appearance.age_at_filming,
       appearance.is_deceased,
+      appearance.gender,
     ]
   )
 }
@@ -525,14 +945,15 @@ export async function batchUpsertActorAppearances(
 
     for (const appearance of appearances) {
       await client.query(
-        `INSERT INTO actor_appearances (actor_tmdb_id, movie_tmdb_id, actor_name, character_name, billing_order, age_at_filming, is_deceased)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `INSERT INTO actor_appearances (actor_tmdb_id, movie_tmdb_id, actor_name, character_name, billing_order, age_at_filming, is_deceased, gender)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          ON CONFLICT (actor_tmdb_id, movie_tmdb_id) DO UPDATE SET
            actor_name = EXCLUDED.actor_name,
            character_name = EXCLUDED.character_name,
            billing_order = EXCLUDED.billing_order,
            age_at_filming = EXCLUDED.age_at_filming,
-           is_deceased = EXCLUDED.is_deceased`,
+           is_deceased = EXCLUDED.is_deceased,
+           gender = COALESCE(EXCLUDED.gender, actor_appearances.gender)`,
         [
           appearance.actor_tmdb_id,
           appearance.movie_tmdb_id,
@@ -541,6 +962,7 @@ export async function batchUpsertActorAppearances(
           appearance.billing_order,
           appearance.age_at_filming,
           appearance.is_deceased,
+          appearance.gender,
         ]
       )
     }
@@ -637,14 +1059,283 @@ export async function getCursedActors(options: CursedActorsOptions = {}): Promis
       aa.is_deceased,
       COUNT(DISTINCT aa.movie_tmdb_id)::integer as total_movies,
       SUM(m.deceased_count)::integer as total_actual_deaths,
-      ROUND(SUM(m.expected_deaths)::numeric, 1) as total_expected_deaths,
-      ROUND((SUM(m.deceased_count) - SUM(m.expected_deaths))::numeric, 1) as curse_score,
+      ROUND(SUM(m.expected_deaths)::numeric, 1) as total_expected_deaths,
+      ROUND((SUM(m.deceased_count) - SUM(m.expected_deaths))::numeric, 1) as curse_score,
+      COUNT(*) OVER() as total_count
+    FROM actor_appearances aa
+    JOIN movies m ON aa.movie_tmdb_id = m.tmdb_id
+    WHERE ${whereClause}
+    GROUP BY aa.actor_tmdb_id, aa.actor_name, aa.is_deceased
+    HAVING COUNT(DISTINCT aa.movie_tmdb_id) >= $${minMoviesParamIndex}
+    ORDER BY curse_score DESC
+    LIMIT $${limitParamIndex} OFFSET $${offsetParamIndex}
+  `
+
+  const result = await db.query(query, params)
+
+  const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0
+
+  // Remove the total_count field from each row
+  const actors = result.rows.map(
+    ({ total_count: _, ...actor }: { total_count: string } & CursedActorRecord) => actor
+  )
+
+  return { actors, totalCount }
+}
+
+// An actor who appeared alongside another actor, for ensemble detection
+export interface CollaboratorRecord {
+  actor_tmdb_id: number
+  actor_name: string
+  is_deceased: boolean
+  birthday: string | null
+  deathday: string | null
+  gender: number | null // TMDB gender code
+  profile_path: string | null
+  movie_ids: number[] // Movies shared with the actor, ascending
+}
+
+// Get the co-stars who appeared with an actor in at least minSharedMovies movies,
+// most frequent first. The actor themself comes first (sharing their whole filmography)
+// so callers have their details for ensemble mortality.
+export async function getActorCollaborators(
+  actorTmdbId: number,
+  minSharedMovies: number,
+  limit: number = 50
+): Promise<CollaboratorRecord[]> {
+  const db = getPool()
+
+  const result = await db.query<CollaboratorRecord>(
+    `SELECT
+       aa.actor_tmdb_id,
+       MAX(aa.actor_name) as actor_name,
+       BOOL_OR(aa.is_deceased) as is_deceased,
+       MAX(aa.birthday)::text as birthday,
+       MAX(dp.deathday)::text as deathday,
+       MAX(aa.gender)::integer as gender,
+       MAX(aa.profile_path) as profile_path,
+       ARRAY_AGG(aa.movie_tmdb_id ORDER BY aa.movie_tmdb_id) as movie_ids
+     FROM actor_appearances aa
+     JOIN actor_appearances anchor
+       ON anchor.movie_tmdb_id = aa.movie_tmdb_id AND anchor.actor_tmdb_id = $1
+     LEFT JOIN deceased_persons dp ON dp.tmdb_id = aa.actor_tmdb_id
+     GROUP BY aa.actor_tmdb_id
+     HAVING COUNT(*) >= $2
+     ORDER BY (aa.actor_tmdb_id = $1) DESC, COUNT(*) DESC, MAX(aa.actor_name)
+     LIMIT $3`,
+    [actorTmdbId, minSharedMovies, limit + 1]
+  )
+
+  return result.rows
+}
+
+// ============================================================================
+// Co-star graph functions (connections between actors)
+// ============================================================================
+
+// A co-star of an actor, and one movie they appeared in together
+export interface CoStarRecord {
+  actor_tmdb_id: number
+  co_star_tmdb_id: number
+  movie_tmdb_id: number
+}
+
+// Options for getCoStars query
+export interface CoStarsOptions {
+  deceasedOnly?: boolean // Only return deceased co-stars...
+  alwaysInclude?: number[] // ...except for these actors (e.g. the ends of a path)
+}
+
+// Get the co-stars of each of a set of actors. When two actors shared several movies,
+// the earliest one links them.
+export async function getCoStars(
+  actorTmdbIds: number[],
+  options: CoStarsOptions = {}
+): Promise<CoStarRecord[]> {
+  const { deceasedOnly = false, alwaysInclude = [] } = options
+  if (actorTmdbIds.length === 0) return []
+
+  const db = getPool()
+  const deceasedFilter = deceasedOnly
+    ? "AND (co.is_deceased = true OR co.actor_tmdb_id = ANY($2::int[]))"
+    : ""
+
+  const result = await db.query<CoStarRecord>(
+    `SELECT DISTINCT ON (aa.actor_tmdb_id, co.actor_tmdb_id)
+       aa.actor_tmdb_id,
+       co.actor_tmdb_id as co_star_tmdb_id,
+       co.movie_tmdb_id
+     FROM actor_appearances aa
+     JOIN actor_appearances co
+       ON co.movie_tmdb_id = aa.movie_tmdb_id AND co.actor_tmdb_id <> aa.actor_tmdb_id
+     JOIN movies m ON m.tmdb_id = co.movie_tmdb_id
+     WHERE aa.actor_tmdb_id = ANY($1::int[]) ${deceasedFilter}
+     ORDER BY aa.actor_tmdb_id, co.actor_tmdb_id, m.release_year NULLS LAST, m.tmdb_id`,
+    deceasedOnly ? [actorTmdbIds, alwaysInclude] : [actorTmdbIds]
+  )
+
+  return result.rows
+}
+
+// An actor in the co-star graph
+export interface ActorSummaryRecord {
+  actor_tmdb_id: number
+  actor_name: string
+  is_deceased: boolean
+  profile_path: string | null
+}
+
+// Get names, status and photos for actors in actor_appearances
+export async function getActorSummaries(actorTmdbIds: number[]): Promise<ActorSummaryRecord[]> {
+  if (actorTmdbIds.length === 0) return []
+
+  const db = getPool()
+  const result = await db.query<ActorSummaryRecord>(
+    `SELECT
+       actor_tmdb_id,
+       MAX(actor_name) as actor_name,
+       BOOL_OR(is_deceased) as is_deceased,
+       MAX(profile_path) as profile_path
+     FROM actor_appearances
+     WHERE actor_tmdb_id = ANY($1::int[])
+     GROUP BY actor_tmdb_id`,
+    [actorTmdbIds]
+  )
+  return result.rows
+}
+
+// Search actors in actor_appearances by name, most-appearing first
+export async function searchActors(
+  query: string,
+  limit: number = 10
+): Promise<Array<ActorSummaryRecord & { total_movies: number }>> {
+  const db = getPool()
+  const result = await db.query<ActorSummaryRecord & { total_movies: number }>(
+    `SELECT
+       actor_tmdb_id,
+       MAX(actor_name) as actor_name,
+       BOOL_OR(is_deceased) as is_deceased,
+       MAX(profile_path) as profile_path,
+       COUNT(*)::integer as total_movies
+     FROM actor_appearances
+     WHERE actor_name ILIKE $1
+     GROUP BY actor_tmdb_id
+     ORDER BY COUNT(*) DESC, MAX(actor_name)
+     LIMIT $2`,
+    [`%${query.replace(/[\\%_]/g, "\\$&")}%`, limit]
+  )
+  return result.rows
+}
+
+// ============================================================================
+// Crew appearances table functions
+// ============================================================================
+
+export interface CrewAppearanceRecord {
+  person_tmdb_id: number
+  movie_tmdb_id: number
+  person_name: string
+  job: string // e.g. "Director", "Screenplay"
+  department: string // TMDB department, e.g. "Directing", "Writing"
+  age_at_filming: number | null
+  is_deceased: boolean
+  gender: number | null // TMDB gender code (0 = unknown, 1 = female, 2 = male, 3 = non-binary)
+}
+
+// Options for getCursedDirectors query
+export interface CursedDirectorsOptions {
+  limit?: number
+  offset?: number
+  minMovies?: number
+  role?: RankedCrewRole
+  fromYear?: number
+  toYear?: number
+}
+
+// A movie counted toward a director's totals
+export interface CursedDirectorMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+  deceasedCount: number
+  expectedDeaths: number
+}
+
+// Cursed director record returned from database
+export interface CursedDirectorRecord {
+  person_tmdb_id: number
+  person_name: string
+  is_deceased: boolean
+  total_movies: number
+  total_actual_deaths: number
+  total_expected_deaths: number
+  curse_score: number
+  movies: CursedDirectorMovie[]
+}
+
+// Get "cursed directors" - directors (or producers) whose casts died at high rates
+// Ranks by total excess cast deaths (actual - expected) across their films, like getCursedActors
+export async function getCursedDirectors(options: CursedDirectorsOptions = {}): Promise<{
+  directors: CursedDirectorRecord[]
+  totalCount: number
+}> {
+  const { limit = 50, offset = 0, minMovies = 2, role = "director", fromYear, toYear } = options
+
+  const db = getPool()
+
+  // Build dynamic WHERE clause
+  const conditions: string[] = ["m.expected_deaths IS NOT NULL", "ca.job = $1"]
+  const params: (number | string)[] = [RANKED_CREW_ROLES[role]]
+  let paramIndex = 2
+
+  // Year range filters
+  if (fromYear !== undefined) {
+    conditions.push(`m.release_year >= $${paramIndex}`)
+    params.push(fromYear)
+    paramIndex++
+  }
+  if (toYear !== undefined) {
+    conditions.push(`m.release_year <= $${paramIndex}`)
+    params.push(toYear)
+    paramIndex++
+  }
+
+  const whereClause = conditions.join(" AND ")
+
+  // Add pagination params
+  params.push(minMovies) // for HAVING clause
+  const minMoviesParamIndex = paramIndex++
+  params.push(limit)
+  const limitParamIndex = paramIndex++
+  params.push(offset)
+  const offsetParamIndex = paramIndex++
+
+  // One row per person and movie for a single job, so sums count each movie once
+  const query = `
+    SELECT
+      ca.person_tmdb_id,
+      ca.person_name,
+      ca.is_deceased,
+      COUNT(DISTINCT ca.movie_tmdb_id)::integer as total_movies,
+      SUM(m.deceased_count)::integer as total_actual_deaths,
+      ROUND(SUM(m.expected_deaths)::numeric, 1)::float8 as total_expected_deaths,
+      ROUND((SUM(m.deceased_count) - SUM(m.expected_deaths))::numeric, 1)::float8 as curse_score,
+      json_agg(
+        json_build_object(
+          'id', m.tmdb_id,
+          'title', m.title,
+          'releaseYear', m.release_year,
+          'deceasedCount', m.deceased_count,
+          'expectedDeaths', m.expected_deaths::float8
+        )
+        ORDER BY m.release_year, m.title
+      ) as movies,
       COUNT(*) OVER() as total_count
-    FROM actor_appearances aa
-    JOIN movies m ON aa.movie_tmdb_id = m.tmdb_id
+    FROM crew_appearances ca
+    JOIN movies m ON ca.movie_tmdb_id = m.tmdb_id
     WHERE ${whereClause}
-    GROUP BY aa.actor_tmdb_id, aa.actor_name, aa.is_deceased
-    HAVING COUNT(DISTINCT aa.movie_tmdb_id) >= $${minMoviesParamIndex}
+    GROUP BY ca.person_tmdb_id, ca.person_name, ca.is_deceased
+    HAVING COUNT(DISTINCT ca.movie_tmdb_id) >= $${minMoviesParamIndex}
     ORDER BY curse_score DESC
     LIMIT $${limitParamIndex} OFFSET $${offsetParamIndex}
   `
@@ -654,11 +1345,54 @@ export async function getCursedActors(options: CursedActorsOptions = {}): Promis
   const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0
 
   // Remove the total_count field from each row
-  const actors = result.rows.map(
-    ({ total_count: _, ...actor }: { total_count: string } & CursedActorRecord) => actor
+  const directors = result.rows.map(
+    ({ total_count: _, ...director }: { total_count: string } & CursedDirectorRecord) => director
   )
 
-  return { actors, totalCount }
+  return { directors, totalCount }
+}
+
+// Batch insert key crew appearances (one row per job)
+export async function batchUpsertCrewAppearances(
+  appearances: CrewAppearanceRecord[]
+): Promise<void> {
+  if (appearances.length === 0) return
+
+  const db = getPool()
+  const client = await db.connect()
+  try {
+    await client.query("BEGIN")
+
+    for (const appearance of appearances) {
+      await client.query(
+        `INSERT INTO crew_appearances (person_tmdb_id, movie_tmdb_id, person_name, job, department, age_at_filming, is_deceased, gender)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (person_tmdb_id, movie_tmdb_id, job) DO UPDATE SET
+           person_name = EXCLUDED.person_name,
+           department = EXCLUDED.department,
+           age_at_filming = EXCLUDED.age_at_filming,
+           is_deceased = EXCLUDED.is_deceased,
+           gender = COALESCE(EXCLUDED.gender, crew_appearances.gender)`,
+        [
+          appearance.person_tmdb_id,
+          appearance.movie_tmdb_id,
+          appearance.person_name,
+          appearance.job,
+          appearance.department,
+          appearance.age_at_filming,
+          appearance.is_deceased,
+          appearance.gender,
+        ]
+      )
+    }
+
+    await client.query("COMMIT")
+  } catch (error) {
+    await client.query("ROLLBACK")
+    throw error
+  } finally {
+    client.release()
+  }
 }
 
 // ============================================================================
@@ -668,7 +1402,8 @@ export async function getCursedActors(options: CursedActorsOptions = {}): Promis
 export interface SiteStats {
   totalDeceasedActors: number
   totalMoviesAnalyzed: number
-  topCauseOfDeath: string | null
+  topCauseOfDeath: string | null // Label of the most common cause category
+  topCauseOfDeathCategory: CauseCategory | null
   avgMortalityPercentage: number | null
 }
 
@@ -676,7 +1411,7 @@ export interface SiteStats {
 export async function getSiteStats(): Promise<SiteStats> {
   const db = getPool()
 
-  // Get counts and top cause of death in a single query
+  // Get counts and top cause of death category in a single query
   const result = await db.query<{
     total_actors: string
     total_movies: string
@@ -686,9 +1421,9 @@ export async function getSiteStats(): Promise<SiteStats> {
     SELECT
       (SELECT COUNT(*) FROM deceased_persons) as total_actors,
       (SELECT COUNT(*) FROM movies WHERE mortality_surprise_score IS NOT NULL) as total_movies,
-      (SELECT cause_of_death FROM deceased_persons
-       WHERE cause_of_death IS NOT NULL
-       GROUP BY cause_of_death
+      (SELECT cause_of_death_category FROM deceased_persons
+       WHERE cause_of_death_category IS NOT NULL AND cause_of_death_category != 'other'
+       GROUP BY cause_of_death_category
        ORDER BY COUNT(*) DESC
        LIMIT 1) as top_cause,
       (SELECT ROUND(AVG(
@@ -703,7 +1438,8 @@ export async function getSiteStats(): Promise<SiteStats> {
   return {
     totalDeceasedActors: parseInt(row.total_actors, 10) || 0,
     totalMoviesAnalyzed: parseInt(row.total_movies, 10) || 0,
-    topCauseOfDeath: row.top_cause,
+    topCauseOfDeath: row.top_cause ? getCauseCategoryLabel(row.top_cause) : null,
+    topCauseOfDeathCategory: (row.top_cause as CauseCategory | null) ?? null,
     avgMortalityPercentage: row.avg_mortality ? parseFloat(row.avg_mortality) : null,
   }
 }
@@ -883,34 +1619,66 @@ export interface ActorFilmographyMovie {
 }
 
 // ============================================================================
-// COVID-19 deaths functions
+// Deaths by cause functions
 // ============================================================================
 
-export interface CovidDeathOptions {
+export interface CauseDeathOptions {
   limit?: number
   offset?: number
 }
 
-// Get deceased persons who died from COVID-19 or related causes
-export async function getCovidDeaths(options: CovidDeathOptions = {}): Promise<{
+export interface CauseDeathStatsRecord {
+  total_count: number
+  average_age: number | null
+  median_age: number | null
+  youngest_age: number | null
+  oldest_age: number | null
+  decades: Array<{ decade: number; count: number }> // By decade of death
+}
+
+// Build the WHERE condition for a cause, appending its values to params
+function causeMatchCondition(match: CauseMatch, params: unknown[]): string {
+  const conditions: string[] = []
+
+  if (match.patterns.length > 0) {
+    params.push(match.patterns.map((pattern) => `%${pattern}%`))
+    const index = params.length
+    conditions.push(
+      `cause_of_death ILIKE ANY($${index})`,
+      `cause_of_death_details ILIKE ANY($${index})`
+    )
+  }
+
+  if (match.categories.length > 0) {
+    params.push(match.categories)
+    conditions.push(`cause_of_death_category = ANY($${params.length})`)
+  }
+
+  return conditions.length > 0 ? `(${conditions.join(" OR ")})` : "FALSE"
+}
+
+// Get deceased persons who died from a cause, most recent deaths first
+export async function getDeathsByCause(
+  match: CauseMatch,
+  options: CauseDeathOptions = {}
+): Promise<{
   persons: DeceasedPersonRecord[]
   totalCount: number
 }> {
   const { limit = 50, offset = 0 } = options
   const db = getPool()
 
+  const params: unknown[] = []
+  const condition = causeMatchCondition(match, params)
+  params.push(limit, offset)
+
   const result = await db.query<DeceasedPersonRecord & { total_count: string }>(
     `SELECT COUNT(*) OVER () as total_count, *
      FROM deceased_persons
-     WHERE cause_of_death ILIKE '%covid%'
-        OR cause_of_death ILIKE '%coronavirus%'
-        OR cause_of_death ILIKE '%sars-cov-2%'
-        OR cause_of_death_details ILIKE '%covid%'
-        OR cause_of_death_details ILIKE '%coronavirus%'
-        OR cause_of_death_details ILIKE '%sars-cov-2%'
+     WHERE ${condition}
      ORDER BY deathday DESC
-     LIMIT $1 OFFSET $2`,
-    [limit, offset]
+     LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params
   )
 
   const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
@@ -919,6 +1687,57 @@ export async function getCovidDeaths(options: CovidDeathOptions = {}): Promise<{
   return { persons, totalCount }
 }
 
+// Get age-at-death statistics and deaths per decade for everyone who died from a cause
+export async function getCauseDeathStats(match: CauseMatch): Promise<CauseDeathStatsRecord> {
+  const db = getPool()
+  const params: unknown[] = []
+  const condition = causeMatchCondition(match, params)
+
+  const [statsResult, decadesResult] = await Promise.all([
+    db.query<Omit<CauseDeathStatsRecord, "decades">>(
+      `SELECT
+         COUNT(*)::integer as total_count,
+         ROUND(AVG(age_at_death), 1)::float8 as average_age,
+         (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY age_at_death))::float8 as median_age,
+         MIN(age_at_death) as youngest_age,
+         MAX(age_at_death) as oldest_age
+       FROM deceased_persons
+       WHERE ${condition}`,
+      params
+    ),
+    db.query<{ decade: number; count: number }>(
+      `SELECT
+         (EXTRACT(YEAR FROM deathday)::integer / 10) * 10 as decade,
+         COUNT(*)::integer as count
+       FROM deceased_persons
+       WHERE ${condition}
+       GROUP BY decade
+       ORDER BY decade`,
+      params
+    ),
+  ])
+
+  return { ...statsResult.rows[0], decades: decadesResult.rows }
+}
+
+// Count the deceased persons matching each cause, in a single pass over the table
+export async function getCauseCounts(matches: CauseMatch[]): Promise<number[]> {
+  if (matches.length === 0) return []
+
+  const db = getPool()
+  const params: unknown[] = []
+  const columns = matches.map(
+    (match, i) => `COUNT(*) FILTER (WHERE ${causeMatchCondition(match, params)})::integer as c${i}`
+  )
+
+  const result = await db.query<Record<string, number>>(
+    `SELECT ${columns.join(", ")} FROM deceased_persons`,
+    params
+  )
+
+  return matches.map((_, i) => result.rows[0]?.[`c${i}`] ?? 0)
+}
+
 // Get actor's filmography from our database
 export async function getActorFilmography(actorTmdbId: number): Promise<ActorFilmographyMovie[]> {
   const db = getPool()
@@ -993,6 +1812,43 @@ export async function updateMovieLanguage(
   }
 }
 
+// ============================================================================
+// Cause of death category backfill functions
+// ============================================================================
+
+// Get each distinct cause_of_death text and how many people have it.
+// Only uncategorized causes unless all is set (to recategorize after taxonomy changes).
+export async function getDistinctCausesOfDeath(
+  all = false
+): Promise<Array<{ cause: string; count: number }>> {
+  const db = getPool()
+  const result = await db.query<{ cause: string; count: number }>(
+    `SELECT cause_of_death as cause, COUNT(*)::integer as count
+     FROM deceased_persons
+     WHERE cause_of_death IS NOT NULL
+       ${all ? "" : "AND cause_of_death_category IS NULL"}
+     GROUP BY cause_of_death
+     ORDER BY count DESC`
+  )
+  return result.rows
+}
+
+// Set the category of everyone with the given cause_of_death text
+export async function updateCauseOfDeathCategory(
+  cause: string,
+  category: CauseCategory,
+  subcategory: string | null
+): Promise<number> {
+  const db = getPool()
+  const result = await db.query(
+    `UPDATE deceased_persons
+     SET cause_of_death_category = $2, cause_of_death_subcategory = $3, updated_at = NOW()
+     WHERE cause_of_death = $1`,
+    [cause, category, subcategory]
+  )
+  return result.rowCount ?? 0
+}
+
 // ============================================================================
 // Death Watch feature - living actors most likely to die soon
 // ============================================================================
@@ -1013,6 +1869,7 @@ export interface DeathWatchActorRecord {
   profile_path: string | null
   popularity: number | null
   total_movies: number
+  gender: number | null // TMDB gender code
 }
 
 // Get living actors for the Death Watch feature
@@ -1063,6 +1920,7 @@ export async function getDeathWatchActors(options: DeathWatchOptions = {}): Prom
         aa.profile_path,
         MAX(aa.popularity) as popularity,
         COUNT(DISTINCT aa.movie_tmdb_id) as total_movies,
+        MAX(aa.gender) as gender,
         EXTRACT(YEAR FROM age(aa.birthday))::integer as age
       FROM actor_appearances aa
       WHERE aa.is_deceased = false
@@ -1078,6 +1936,7 @@ export async function getDeathWatchActors(options: DeathWatchOptions = {}): Prom
       profile_path,
       popularity::decimal,
       total_movies::integer,
+      gender::integer,
       COUNT(*) OVER() as total_count
     FROM living_actors
     ${whereClause}
@@ -1102,3 +1961,447 @@ export async function getDeathWatchActors(options: DeathWatchOptions = {}): Prom
 
   return { actors, totalCount }
 }
+
+// ============================================================================
+// Enrichment job queue functions
+// ============================================================================
+
+export type EnrichmentJobStatus = "pending" | "running" | "done" | "dead"
+
+export interface EnrichmentJobInput {
+  person_tmdb_id: number
+  person_name: string
+  birthday: string | null
+  deathday: string
+}
+
+export interface EnrichmentJobRecord extends EnrichmentJobInput {
+  id: number
+  status: EnrichmentJobStatus
+  attempts: number
+  max_attempts: number
+}
+
+// Running jobs locked longer than this belong to a worker that died mid-job
+const STALE_JOB_LOCK = "10 minutes"
+
+/**
+ * Queue cause-of-death enrichment jobs. People who already have a job, in any
+ * status, are skipped so each person is only ever enriched by one job.
+ * @returns The number of jobs actually added
+ */
+export async function enqueueEnrichmentJobs(jobs: EnrichmentJobInput[]): Promise<number> {
+  if (jobs.length === 0) return 0
+
+  const db = getPool()
+  const values: unknown[] = []
+  const rows = jobs.map((job, index) => {
+    const offset = index * 4
+    values.push(job.person_tmdb_id, job.person_name, job.birthday, job.deathday)
+    return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4})`
+  })
+
+  const result = await db.query(
+    `INSERT INTO enrichment_jobs (person_tmdb_id, person_name, birthday, deathday)
+     VALUES ${rows.join(", ")}
+     ON CONFLICT (person_tmdb_id) DO NOTHING`,
+    values
+  )
+  return result.rowCount ?? 0
+}
+
+// Queue people again, even if their job already finished or was dead-lettered.
+// Jobs that are pending or running are left alone.
+export async function requeueEnrichmentJobs(jobs: EnrichmentJobInput[]): Promise<number> {
+  if (jobs.length === 0) return 0
+
+  const db = getPool()
+  const values: unknown[] = []
+  const rows = jobs.map((job, index) => {
+    const offset = index * 4
+    values.push(job.person_tmdb_id, job.person_name, job.birthday, job.deathday)
+    return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4})`
+  })
+
+  const result = await db.query(
+    `INSERT INTO enrichment_jobs (person_tmdb_id, person_name, birthday, deathday)
+     VALUES ${rows.join(", ")}
+     ON CONFLICT (person_tmdb_id) DO UPDATE SET
+       status = 'pending',
+       attempts = 0,
+       run_at = NOW(),
+       locked_at = NULL,
+       last_error = NULL,
+       updated_at = NOW()
+     WHERE enrichment_jobs.status IN ('done', 'dead')`,
+    values
+  )
+  return result.rowCount ?? 0
+}
+
+// People whose stored LLM answer came from a different prompt version or model, as
+// enrichment jobs. Only real answers count: people never asked, and empty rows stored
+// by older versions of the worker (no prompt_version), are left to the normal queue.
+export async function getOutdatedLlmAnswerJobs(
+  promptVersion: string,
+  model: string,
+  limit: number
+): Promise<EnrichmentJobInput[]> {
+  const db = getPool()
+  const result = await db.query<EnrichmentJobInput>(
+    `SELECT dp.tmdb_id as person_tmdb_id, dp.name as person_name,
+            dp.birthday::text as birthday, dp.deathday::text as deathday
+     FROM deceased_persons dp
+     JOIN cause_of_death_data c ON c.deceased_person_id = dp.tmdb_id AND c.source = 'claude'
+     WHERE NOT dp.death_info_locked
+       AND c.prompt_version IS NOT NULL
+       AND (c.prompt_version <> $1 OR c.model IS DISTINCT FROM $2)
+     ORDER BY dp.deathday DESC
+     LIMIT $3`,
+    [promptVersion, model, limit]
+  )
+  return result.rows
+}
+
+/**
+ * Claim due jobs for this worker. SKIP LOCKED lets several replicas poll the same
+ * table without claiming the same job, and jobs left running by a crashed worker
+ * are picked up again once their lock goes stale.
+ */
+export async function claimEnrichmentJobs(limit: number): Promise<EnrichmentJobRecord[]> {
+  const db = getPool()
+  const result = await db.query<EnrichmentJobRecord>(
+    `UPDATE enrichment_jobs
+     SET status = 'running',
+         attempts = attempts + 1,
+         locked_at = NOW(),
+         updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM enrichment_jobs
+       WHERE (status = 'pending' AND run_at <= NOW())
+          OR (status = 'running' AND locked_at < NOW() - INTERVAL '${STALE_JOB_LOCK}')
+       ORDER BY run_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, person_tmdb_id, person_name, birthday::text, deathday::text,
+               status, attempts, max_attempts`,
+    [limit]
+  )
+  return result.rows
+}
+
+/**
+ * Mark a job as finished.
+ */
+export async function completeEnrichmentJob(id: number): Promise<void> {
+  const db = getPool()
+  await db.query(
+    `UPDATE enrichment_jobs
+     SET status = 'done', locked_at = NULL, last_error = NULL, updated_at = NOW()
+     WHERE id = $1`,
+    [id]
+  )
+}
+
+/**
+ * Record a failed attempt. The job is retried at retryAt, or moved to the
+ * dead-letter status when retryAt is null.
+ */
+export async function failEnrichmentJob(
+  id: number,
+  error: string,
+  retryAt: Date | null
+): Promise<void> {
+  const db = getPool()
+  await db.query(
+    `UPDATE enrichment_jobs
+     SET status = $2,
+         run_at = COALESCE($3, run_at),
+         locked_at = NULL,
+         last_error = $4,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [id, retryAt ? "pending" : "dead", retryAt, error]
+  )
+}
+
+/**
+ * Get the job status for each person that has an enrichment job.
+ */
+export async function getEnrichmentJobStatuses(
+  personTmdbIds: number[]
+): Promise<Map<number, EnrichmentJobStatus>> {
+  if (personTmdbIds.length === 0) return new Map()
+
+  const db = getPool()
+  const result = await db.query<{ person_tmdb_id: number; status: EnrichmentJobStatus }>(
+    `SELECT person_tmdb_id, status FROM enrichment_jobs WHERE person_tmdb_id = ANY($1)`,
+    [personTmdbIds]
+  )
+  return new Map(result.rows.map((row) => [row.person_tmdb_id, row.status]))
+}
+
+// ============================================================================
+// Reader feedback functions
+// ============================================================================
+
+export type FeedbackStatus = "pending" | "accepted" | "rejected"
+
+export interface PersonFeedbackInput {
+  person_tmdb_id: number
+  category: FeedbackCategory
+  message: string
+  submitter_hash: string
+}
+
+export interface PersonFeedbackRecord extends PersonFeedbackInput {
+  id: number
+  status: FeedbackStatus
+  reviewed_at: string | null
+  created_at: string
+}
+
+/**
+ * Add a reader report to the review queue.
+ * @returns The new feedback ID
+ */
+export async function createPersonFeedback(feedback: PersonFeedbackInput): Promise<number> {
+  const db = getPool()
+  const result = await db.query<{ id: number }>(
+    `INSERT INTO person_feedback (person_tmdb_id, category, message, submitter_hash)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id`,
+    [feedback.person_tmdb_id, feedback.category, feedback.message, feedback.submitter_hash]
+  )
+  return result.rows[0].id
+}
+
+/**
+ * Count a submitter's reports since the given time, for rate limiting.
+ */
+export async function countRecentFeedback(submitterHash: string, since: Date): Promise<number> {
+  const db = getPool()
+  const result = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM person_feedback
+     WHERE submitter_hash = $1 AND created_at >= $2`,
+    [submitterHash, since]
+  )
+  return parseInt(result.rows[0].count, 10)
+}
+
+// ============================================================================
+// Moderation console functions
+// ============================================================================
+
+interface PageOptions {
+  limit?: number
+  offset?: number
+}
+
+// Record how well the sources agreed on a person's cause of death
+export async function setCauseOfDeathAgreement(
+  tmdbId: number,
+  agreement: number | null
+): Promise<void> {
+  const db = getPool()
+  await db.query(`UPDATE deceased_persons SET cause_of_death_agreement = $2 WHERE tmdb_id = $1`, [
+    tmdbId,
+    agreement,
+  ])
+}
+
+// Search deceased persons by name, or by TMDB ID when the query is a number
+export async function searchDeceasedPersons(
+  query: string,
+  options: PageOptions = {}
+): Promise<{ persons: DeceasedPersonRecord[]; totalCount: number }> {
+  const { limit = 25, offset = 0 } = options
+  const db = getPool()
+  const tmdbId = /^\d+$/.test(query) ? parseInt(query, 10) : null
+
+  const result = await db.query<DeceasedPersonRecord & { total_count: string }>(
+    `SELECT COUNT(*) OVER () as total_count, *
+     FROM deceased_persons
+     WHERE name ILIKE '%' || $1 || '%' OR tmdb_id = $2
+     ORDER BY (tmdb_id = $2) DESC NULLS LAST, name
+     LIMIT $3 OFFSET $4`,
+    [query, tmdbId, limit, offset]
+  )
+
+  const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
+  const persons = result.rows.map(({ total_count: _total_count, ...person }) => person)
+
+  return { persons, totalCount }
+}
+
+export interface AdminDeathInfoEdit {
+  cause_of_death: string | null
+  cause_of_death_source: DeathInfoSource
+  cause_of_death_details: string | null
+  cause_of_death_details_source: DeathInfoSource
+  wikipedia_url: string | null
+  death_info_locked: boolean
+}
+
+// Overwrite a person's death info from the moderation console. Unlike
+// updateDeathInfo this replaces existing values, and it ignores the lock.
+// Returns the updated record, or null if the person doesn't exist.
+export async function updateDeathInfoAsAdmin(
+  tmdbId: number,
+  edit: AdminDeathInfoEdit,
+  audit: AuditContext
+): Promise<DeceasedPersonRecord | null> {
+  const cause = normalizeCauseOfDeath(edit.cause_of_death)
+  const result = await withAuditContext(audit, (client) =>
+    client.query<DeceasedPersonRecord>(
+      `UPDATE deceased_persons
+     SET cause_of_death = $2,
+         cause_of_death_source = $3,
+         cause_of_death_details = $4,
+         cause_of_death_details_source = $5,
+         wikipedia_url = $6,
+         death_info_locked = $7,
+         cause_of_death_category = $8,
+         cause_of_death_subcategory = $9,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE tmdb_id = $1
+     RETURNING *`,
+      [
+        tmdbId,
+        edit.cause_of_death,
+        edit.cause_of_death_source,
+        edit.cause_of_death_details,
+        edit.cause_of_death_details_source,
+        edit.wikipedia_url,
+        edit.death_info_locked,
+        cause?.category ?? null,
+        cause?.subcategory ?? null,
+      ]
+    )
+  )
+  return result.rows[0] || null
+}
+
+// A reader report with the reported person's current death info
+export interface FeedbackQueueRecord extends PersonFeedbackRecord {
+  reviewed_by: string | null
+  person_name: string | null // Null when the person isn't in deceased_persons
+  cause_of_death: string | null
+  deathday: string | null
+}
+
+// Get reader reports with a given status, oldest first
+export async function getFeedbackQueue(
+  status: FeedbackStatus,
+  options: PageOptions = {}
+): Promise<{ items: FeedbackQueueRecord[]; totalCount: number }> {
+  const { limit = 25, offset = 0 } = options
+  const db = getPool()
+
+  const result = await db.query<FeedbackQueueRecord & { total_count: string }>(
+    `SELECT COUNT(*) OVER () as total_count, f.*,
+            d.name as person_name, d.cause_of_death, d.deathday
+     FROM person_feedback f
+     LEFT JOIN deceased_persons d ON d.tmdb_id = f.person_tmdb_id
+     WHERE f.status = $1
+     ORDER BY f.created_at
+     LIMIT $2 OFFSET $3`,
+    [status, limit, offset]
+  )
+
+  const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
+  const items = result.rows.map(({ total_count: _total_count, ...item }) => item)
+
+  return { items, totalCount }
+}
+
+// Accept or reject a reader report. Returns false if the report doesn't exist.
+export async function reviewPersonFeedback(
+  id: number,
+  status: Exclude<FeedbackStatus, "pending">,
+  reviewedBy: string
+): Promise<boolean> {
+  const db = getPool()
+  const result = await db.query(
+    `UPDATE person_feedback
+     SET status = $2, reviewed_by = $3, reviewed_at = NOW()
+     WHERE id = $1`,
+    [id, status, reviewedBy]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+// Get unlocked persons whose sources agreed least on the cause of death
+export async function getLowConfidencePersons(
+  maxAgreement: number,
+  options: PageOptions = {}
+): Promise<{ persons: DeceasedPersonRecord[]; totalCount: number }> {
+  const { limit = 25, offset = 0 } = options
+  const db = getPool()
+
+  const result = await db.query<DeceasedPersonRecord & { total_count: string }>(
+    `SELECT COUNT(*) OVER () as total_count, *
+     FROM deceased_persons
+     WHERE cause_of_death_agreement < $1 AND NOT death_info_locked
+     ORDER BY cause_of_death_agreement, deathday DESC
+     LIMIT $2 OFFSET $3`,
+    [maxAgreement, limit, offset]
+  )
+
+  const totalCount = result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
+  const persons = result.rows.map(({ total_count: _total_count, ...person }) => person)
+
+  return { persons, totalCount }
+}
+
+// ============================================================================
+// Death info history
+// ============================================================================
+
+// The audited fields of a death record, as snapshotted by the history trigger
+export interface DeathInfoSnapshot {
+  birthday: string | null
+  deathday: string
+  cause_of_death: string | null
+  cause_of_death_source: DeathInfoSource
+  cause_of_death_details: string | null
+  cause_of_death_details_source: DeathInfoSource
+  wikipedia_url: string | null
+  death_info_locked: boolean
+}
+
+export interface DeathInfoHistoryRecord {
+  id: number
+  person_tmdb_id: number
+  actor: string
+  reason: string | null
+  old_values: DeathInfoSnapshot | null // Null for the entry that created the record
+  new_values: DeathInfoSnapshot
+  created_at: string
+}
+
+// Get every change to a person's death record, newest first
+export async function getDeathInfoHistory(tmdbId: number): Promise<DeathInfoHistoryRecord[]> {
+  const db = getPool()
+  const result = await db.query<DeathInfoHistoryRecord>(
+    `SELECT * FROM death_info_history
+     WHERE person_tmdb_id = $1
+     ORDER BY created_at DESC, id DESC`,
+    [tmdbId]
+  )
+  return result.rows
+}
+
+// Get one history entry, or null if it doesn't exist or belongs to someone else
+export async function getDeathInfoHistoryEntry(
+  tmdbId: number,
+  entryId: number
+): Promise<DeathInfoHistoryRecord | null> {
+  const db = getPool()
+  const result = await db.query<DeathInfoHistoryRecord>(
+    `SELECT * FROM death_info_history WHERE id = $1 AND person_tmdb_id = $2`,
+    [entryId, tmdbId]
+  )
+  return result.rows[0] || null
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+vi.mock("./db.js", () => ({
+  claimEnrichmentJobs: vi.fn(),
+  completeEnrichmentJob: vi.fn(),
+  failEnrichmentJob: vi.fn(),
+  getDeceasedPerson: vi.fn(),
+  saveCauseOfDeathAnswers: vi.fn(),
+  setCauseOfDeathAgreement: vi.fn(),
+  updateDeathInfo: vi.fn(),
+}))
+
+vi.mock("./wikidata.js", () => ({
+  getCauseOfDeathAnswers: vi.fn(),
+}))
+
+import { getRetryDelayMs, runEnrichmentBatch } from "./enrichment-queue.js"
+import {
+  claimEnrichmentJobs,
+  completeEnrichmentJob,
+  failEnrichmentJob,
+  getDeceasedPerson,
+  saveCauseOfDeathAnswers,
+  setCauseOfDeathAgreement,
+  updateDeathInfo,
+  type DeceasedPersonRecord,
+  type EnrichmentJobRecord,
+} from "./db.js"
+import { getCauseOfDeathAnswers } from "./wikidata.js"
+
+const NOW = Date.parse("2025-01-01T00:00:00Z")
+
+function job(overrides: Partial<EnrichmentJobRecord> = {}): EnrichmentJobRecord {
+  return {
+    id: 1,
+    person_tmdb_id: 500,
+    person_name: "Actor One",
+    birthday: "1930-05-01",
+    deathday: "2010-03-02",
+    status: "running",
+    attempts: 1,
+    max_attempts: 5,
+    ...overrides,
+  }
+}
+
+function storedPerson(overrides: Partial<DeceasedPersonRecord> = {}): DeceasedPersonRecord {
+  return {
+    tmdb_id: 500,
+    name: "Actor One",
+    birthday: "1930-05-01",
+    deathday: "2010-03-02",
+    cause_of_death: null,
+    cause_of_death_source: null,
+    cause_of_death_details: null,
+    cause_of_death_details_source: null,
+    wikipedia_url: null,
+    profile_path: null,
+    age_at_death: 79,
+    expected_lifespan: 75,
+    years_lost: -4,
+    death_info_locked: false,
+    ...overrides,
+  }
+}
+
+const foundAnswers = {
+  answers: [
+    { source: "claude" as const, causeOfDeath: "heart attack", details: null },
+    { source: "wikidata" as const, causeOfDeath: "myocardial infarction", details: null },
+  ],
+  wikipediaUrl: "https://en.wikipedia.org/wiki/Actor_One",
+}
+
+describe("getRetryDelayMs", () => {
+  it("doubles the delay after each failed attempt", () => {
+    expect(getRetryDelayMs(1)).toBe(30_000)
+    expect(getRetryDelayMs(2)).toBe(60_000)
+    expect(getRetryDelayMs(3)).toBe(120_000)
+  })
+
+  it("caps the delay at an hour", () => {
+    expect(getRetryDelayMs(20)).toBe(60 * 60 * 1000)
+  })
+})
+
+describe("runEnrichmentBatch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(completeEnrichmentJob).mockResolvedValue()
+    vi.mocked(failEnrichmentJob).mockResolvedValue()
+    vi.mocked(saveCauseOfDeathAnswers).mockResolvedValue()
+    vi.mocked(setCauseOfDeathAgreement).mockResolvedValue()
+    vi.mocked(updateDeathInfo).mockResolvedValue()
+    vi.mocked(getDeceasedPerson).mockResolvedValue(storedPerson())
+  })
+
+  it("records every answer, stores the resolved death info and completes the job", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job()])
+    vi.mocked(getCauseOfDeathAnswers).mockResolvedValue(foundAnswers)
+
+    const claimed = await runEnrichmentBatch(() => NOW)
+
+    expect(claimed).toBe(1)
+    expect(getCauseOfDeathAnswers).toHaveBeenCalledWith("Actor One", "1930-05-01", "2010-03-02")
+    expect(saveCauseOfDeathAnswers).toHaveBeenCalledWith(500, foundAnswers.answers)
+    expect(setCauseOfDeathAgreement).toHaveBeenCalledWith(500, 1)
+    expect(updateDeathInfo).toHaveBeenCalledWith(
+      500,
+      "heart attack",
+      "claude",
+      null,
+      null,
+      "https://en.wikipedia.org/wiki/Actor_One",
+      { actor: "enrichment", reason: "Resolved from 2 sources (100% agreement)" }
+    )
+    expect(completeEnrichmentJob).toHaveBeenCalledWith(1)
+    expect(failEnrichmentJob).not.toHaveBeenCalled()
+  })
+
+  it("replaces a stored cause that differs from the resolved one", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job()])
+    vi.mocked(getCauseOfDeathAnswers).mockResolvedValue(foundAnswers)
+    vi.mocked(getDeceasedPerson).mockResolvedValue(
+      storedPerson({
+        cause_of_death: "stroke",
+        cause_of_death_source: "wikipedia",
+        wikipedia_url: "https://en.wikipedia.org/wiki/Actor_One",
+      })
+    )
+
+    await runEnrichmentBatch(() => NOW)
+
+    // The agreement describes the heart attack that replaces the stroke
+    expect(setCauseOfDeathAgreement).toHaveBeenCalledWith(500, 1)
+    expect(updateDeathInfo).toHaveBeenCalledWith(
+      500,
+      "heart attack",
+      "claude",
+      null,
+      null,
+      "https://en.wikipedia.org/wiki/Actor_One",
+      expect.objectContaining({ actor: "enrichment" })
+    )
+  })
+
+  it("keeps a locked cause and scores the sources against it", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job()])
+    vi.mocked(getCauseOfDeathAnswers).mockResolvedValue(foundAnswers)
+    vi.mocked(getDeceasedPerson).mockResolvedValue(
+      storedPerson({ cause_of_death: "stroke", death_info_locked: true })
+    )
+
+    await runEnrichmentBatch(() => NOW)
+
+    expect(setCauseOfDeathAgreement).toHaveBeenCalledWith(500, 0)
+    expect(updateDeathInfo).not.toHaveBeenCalled()
+    expect(completeEnrichmentJob).toHaveBeenCalledWith(1)
+  })
+
+  it("completes the job without writing when nothing was found", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job()])
+    vi.mocked(getCauseOfDeathAnswers).mockResolvedValue({
+      answers: [{ source: "claude", causeOfDeath: null, details: null }],
+      wikipediaUrl: null,
+    })
+
+    await runEnrichmentBatch(() => NOW)
+
+    expect(updateDeathInfo).not.toHaveBeenCalled()
+    expect(completeEnrichmentJob).toHaveBeenCalledWith(1)
+  })
+
+  it("schedules a retry with backoff when a job fails", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job({ attempts: 2 })])
+    vi.mocked(getCauseOfDeathAnswers).mockResolvedValue(foundAnswers)
+    vi.mocked(updateDeathInfo).mockRejectedValue(new Error("connection terminated"))
+
+    await runEnrichmentBatch(() => NOW)
+
+    expect(completeEnrichmentJob).not.toHaveBeenCalled()
+    expect(failEnrichmentJob).toHaveBeenCalledWith(
+      1,
+      "connection terminated",
+      new Date(NOW + 60_000)
+    )
+  })
+
+  it("retries without recording answers when the LLM lookup fails", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job({ attempts: 1 })])
+    vi.mocked(getCauseOfDeathAnswers).mockRejectedValue(new Error("429 rate limited"))
+
+    await runEnrichmentBatch(() => NOW)
+
+    expect(saveCauseOfDeathAnswers).not.toHaveBeenCalled()
+    expect(updateDeathInfo).not.toHaveBeenCalled()
+    expect(completeEnrichmentJob).not.toHaveBeenCalled()
+    expect(failEnrichmentJob).toHaveBeenCalledWith(1, "429 rate limited", new Date(NOW + 30_000))
+  })
+
+  it("dead-letters a job that has used its last attempt", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([job({ attempts: 5 })])
+    vi.mocked(getCauseOfDeathAnswers).mockRejectedValue(new Error("rate limited"))
+
+    await runEnrichmentBatch(() => NOW)
+
+    expect(failEnrichmentJob).toHaveBeenCalledWith(1, "rate limited", null)
+    consoleSpy.mockRestore()
+  })
+
+  it("returns 0 when no jobs are due", async () => {
+    vi.mocked(claimEnrichmentJobs).mockResolvedValue([])
+
+    expect(await runEnrichmentBatch(() => NOW)).toBe(0)
+    expect(getCauseOfDeathAnswers).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Worker for the durable cause-of-death enrichment queue.
+ *
+ * Movie requests enqueue jobs in the enrichment_jobs table; every server replica
+ * runs this loop, claiming a few due jobs at a time. A failed job is retried with
+ * exponential backoff and moved to the dead-letter status after max_attempts.
+ *
+ * Every source's answer is recorded in cause_of_death_data, and the displayed cause
+ * is whichever answer the resolver picks from them, unless a moderator has locked the
+ * record. The stored agreement score always describes the displayed cause.
+ */
+import {
+  claimEnrichmentJobs,
+  completeEnrichmentJob,
+  failEnrichmentJob,
+  getDeceasedPerson,
+  saveCauseOfDeathAnswers,
+  setCauseOfDeathAgreement,
+  updateDeathInfo,
+  type EnrichmentJobRecord,
+} from "./db.js"
+import { getCauseOfDeathAnswers } from "./wikidata.js"
+import { resolveCauseOfDeath, scoreCauseAgreement } from "./cause-resolver.js"
+
+const BATCH_SIZE = 5
+const POLL_INTERVAL_MS = 5_000
+const BASE_RETRY_DELAY_MS = 30_000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+
+/**
+ * Delay before retrying a job that has failed `attempts` times: 30s, 1m, 2m, ...
+ * capped at an hour.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+  return Math.min(delay, MAX_RETRY_DELAY_MS)
+}
+
+async function processJob(job: EnrichmentJobRecord): Promise<void> {
+  const { answers, wikipediaUrl } = await getCauseOfDeathAnswers(
+    job.person_name,
+    job.birthday,
+    job.deathday
+  )
+  await saveCauseOfDeathAnswers(job.person_tmdb_id, answers)
+
+  const person = await getDeceasedPerson(job.person_tmdb_id)
+  if (!person) return
+
+  const {
+    causeOfDeath,
+    causeOfDeathSource,
+    causeOfDeathDetails,
+    causeOfDeathDetailsSource,
+    agreement,
+  } = resolveCauseOfDeath(answers)
+
+  // Locked records, and people no source named a cause for, keep their stored cause;
+  // the agreement score is taken against whichever cause ends up displayed
+  const replacesCause = causeOfDeath !== null && !person.death_info_locked
+  const displayedCause = replacesCause ? causeOfDeath : person.cause_of_death
+  await setCauseOfDeathAgreement(
+    job.person_tmdb_id,
+    scoreCauseAgreement(answers, displayedCause).agreement
+  )
+
+  const fillsUrl = wikipediaUrl !== null && !person.wikipedia_url
+  if (person.death_info_locked || (!replacesCause && !fillsUrl)) return
+
+  await updateDeathInfo(
+    job.person_tmdb_id,
+    causeOfDeath,
+    causeOfDeathSource,
+    causeOfDeathDetails,
+    causeOfDeathDetailsSource,
+    wikipediaUrl,
+    {
+      actor: "enrichment",
+      reason:
+        agreement === null
+          ? "No source named a cause"
+          : `Resolved from ${answers.length} sources (${Math.round(agreement * 100)}% agreement)`,
+    }
+  )
+}
+
+/**
+ * Claim and process one batch of due jobs.
+ * @returns The number of jobs claimed
+ */
+export async function runEnrichmentBatch(now: () => number = Date.now): Promise<number> {
+  const jobs = await claimEnrichmentJobs(BATCH_SIZE)
+
+  await Promise.all(
+    jobs.map(async (job) => {
+      try {
+        await processJob(job)
+        await completeEnrichmentJob(job.id)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        const retryAt =
+          job.attempts < job.max_attempts ? new Date(now() + getRetryDelayMs(job.attempts)) : null
+        if (!retryAt) {
+          console.error(`Enrichment job ${job.id} failed permanently:`, message)
+        }
+        await failEnrichmentJob(job.id, message, retryAt)
+      }
+    })
+  )
+
+  return jobs.length
+}
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null
+let running = false
+
+/**
+ * Start polling the queue. Full batches are followed immediately by the next one;
+ * otherwise the worker waits POLL_INTERVAL_MS before checking again.
+ */
+export function startEnrichmentWorker(): void {
+  if (running) return
+  running = true
+
+  const poll = async () => {
+    let claimed = 0
+    try {
+      claimed = await runEnrichmentBatch()
+    } catch (error) {
+      console.error("Enrichment worker error:", error)
+    }
+    if (running) {
+      pollTimer = setTimeout(poll, claimed === BATCH_SIZE ? 0 : POLL_INTERVAL_MS)
+    }
+  }
+
+  pollTimer = setTimeout(poll, 0)
+}
+
+export function stopEnrichmentWorker(): void {
+  running = false
+  if (pollTimer) {
+    clearTimeout(pollTimer)
+    pollTimer = null
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest"
+import { findEnsembles, type Collaborator } from "./ensembles.js"
+
+function actor(tmdbId: number, movieIds: number[]): Collaborator {
+  return { tmdbId, movieIds }
+}
+
+describe("findEnsembles", () => {
+  it("groups collaborators who all appeared in the same movies", () => {
+    const anchor = actor(1, [10, 11, 12, 13])
+    const result = findEnsembles(
+      anchor,
+      [actor(2, [10, 11, 12]), actor(3, [10, 11, 12, 13]), actor(4, [13])],
+      { minMovies: 3 }
+    )
+
+    expect(result).toHaveLength(1)
+    expect(result[0].members.map((m) => m.tmdbId)).toEqual([1, 2, 3])
+    expect(result[0].movieIds).toEqual([10, 11, 12])
+  })
+
+  it("includes everyone who appeared in all of a pair's shared movies", () => {
+    const result = findEnsembles(
+      actor(1, [10, 11, 12, 13, 14]),
+      [actor(2, [10, 11, 12, 13]), actor(3, [10, 11, 12, 14]), actor(4, [10, 11, 12, 13, 14])],
+      { minMovies: 3 }
+    )
+
+    const group = result.find((e) => e.movieIds.join() === "10,11,12")
+    expect(group?.members.map((m) => m.tmdbId)).toEqual([1, 2, 3, 4])
+  })
+
+  it("keeps a smaller group that made more movies together", () => {
+    const result = findEnsembles(
+      actor(1, [10, 11, 12, 13, 14]),
+      [actor(2, [10, 11, 12, 13, 14]), actor(3, [10, 11, 12, 13, 14]), actor(4, [10, 11, 12])],
+      { minMovies: 3 }
+    )
+
+    expect(result.map((e) => e.members.map((m) => m.tmdbId))).toEqual([
+      [1, 2, 3],
+      [1, 2, 3, 4],
+    ])
+    expect(result[0].movieIds).toEqual([10, 11, 12, 13, 14])
+  })
+
+  it("skips groups below the minimum movies or size", () => {
+    const collaborators = [actor(2, [10, 11, 12]), actor(3, [10, 11, 13])]
+
+    expect(findEnsembles(actor(1, [10, 11, 12, 13]), collaborators, { minMovies: 3 })).toEqual([])
+    expect(
+      findEnsembles(actor(1, [10, 11, 12, 13]), collaborators, { minMovies: 2, minSize: 4 })
+    ).toEqual([])
+  })
+
+  it("limits the number of ensembles", () => {
+    const collaborators = [
+      actor(2, [10, 11, 12, 13]),
+      actor(3, [10, 11, 12, 13]),
+      actor(4, [10, 11, 12]),
+      actor(5, [10, 11]),
+    ]
+
+    const result = findEnsembles(actor(1, [10, 11, 12, 13]), collaborators, {
+      minMovies: 2,
+      limit: 2,
+    })
+
+    expect(result).toHaveLength(2)
+    expect(result[0].movieIds).toEqual([10, 11, 12, 13])
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Recurring ensembles: groups of actors who appeared together in several movies
+ * (repertory companies, franchise casts).
+ *
+ * Ensembles are found around one actor. Every pair of that actor's collaborators
+ * seeds a candidate: the movies the pair shared with the actor. The candidate's
+ * members are everyone who appeared in all of those movies, so each ensemble's
+ * filmography is exactly the movies its whole group made together.
+ */
+
+/** An actor and the movies they appeared in alongside the anchor actor */
+export interface Collaborator {
+  tmdbId: number
+  movieIds: number[]
+}
+
+export interface Ensemble<T extends Collaborator> {
+  members: T[] // The anchor first, then collaborators in the order given
+  movieIds: number[] // Movies every member appeared in, ascending
+}
+
+export interface FindEnsemblesOptions {
+  minMovies: number // Fewest movies the whole group must share
+  minSize?: number // Fewest members, including the anchor (default 3)
+  limit?: number // Most ensembles to return (default 10)
+}
+
+function intersect(a: number[], b: Set<number>): number[] {
+  return a.filter((id) => b.has(id))
+}
+
+/**
+ * Find the recurring ensembles that include an actor.
+ *
+ * Ensembles are ordered by shared movies, then by size, so the tightest long-running
+ * groups come first. A smaller group that made more movies together is kept alongside
+ * the larger group it belongs to.
+ *
+ * @param anchor The actor, with their whole filmography as movieIds
+ * @param collaborators Co-stars, with movieIds limited to movies shared with the anchor
+ */
+export function findEnsembles<T extends Collaborator>(
+  anchor: T,
+  collaborators: T[],
+  options: FindEnsemblesOptions
+): Ensemble<T>[] {
+  const { minMovies, minSize = 3, limit = 10 } = options
+
+  const candidates = collaborators.filter((c) => c.movieIds.length >= minMovies)
+  const movieSets = candidates.map((c) => new Set(c.movieIds))
+  const ensembles = new Map<string, Ensemble<T>>()
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const shared = intersect(candidates[i].movieIds, movieSets[j])
+      if (shared.length < minMovies) continue
+
+      const members = candidates.filter((_, k) => shared.every((id) => movieSets[k].has(id)))
+      if (members.length + 1 < minSize) continue
+
+      const key = members.map((m) => m.tmdbId).join(",")
+      if (!ensembles.has(key)) {
+        ensembles.set(key, {
+          members: [anchor, ...members],
+          movieIds: [...shared].sort((a, b) => a - b),
+        })
+      }
+    }
+  }
+
+  return [...ensembles.values()]
+    .sort((a, b) => b.movieIds.length - a.movieIds.length || b.members.length - a.members.length)
+    .slice(0, limit)
+}
@@ -0,0 +1,30 @@
+/**
+ * Reader feedback on a person's death information.
+ *
+ * Reports go into the person_feedback table as a review queue; nothing here
+ * changes deceased_persons. Spam is kept down with a honeypot field that real
+ * readers never see and a per-submitter hourly limit.
+ */
+import { createHash } from "node:crypto"
+
+export const FEEDBACK_CATEGORIES = ["wrong_cause", "wrong_date", "not_dead", "other"] as const
+
+export type FeedbackCategory = (typeof FEEDBACK_CATEGORIES)[number]
+
+export const MAX_FEEDBACK_MESSAGE_LENGTH = 1000
+
+// Submissions allowed per submitter within FEEDBACK_RATE_WINDOW_MS
+export const FEEDBACK_RATE_LIMIT = 5
+export const FEEDBACK_RATE_WINDOW_MS = 60 * 60 * 1000
+
+export function isFeedbackCategory(value: unknown): value is FeedbackCategory {
+  return FEEDBACK_CATEGORIES.includes(value as FeedbackCategory)
+}
+
+/**
+ * Hash the submitter's IP address so it can be rate limited without being stored.
+ */
+export function hashSubmitter(ip: string): string {
+  const salt = process.env.FEEDBACK_HASH_SALT || ""
+  return createHash("sha256").update(`${salt}:${ip}`).digest("hex")
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest"
+import { selectKeyCrew, selectProducers, CREW_LIMIT, PRODUCER_LIMIT } from "./key-crew.js"
+import type { TMDBCrewMember } from "./tmdb.js"
+
+function crewMember(id: number, job: string, department: string): TMDBCrewMember {
+  return { id, name: `Person ${id}`, job, department, profile_path: null, gender: 2 }
+}
+
+describe("selectKeyCrew", () => {
+  it("keeps directors, writers, composers and cinematographers", () => {
+    const result = selectKeyCrew([
+      crewMember(1, "Director", "Directing"),
+      crewMember(2, "Screenplay", "Writing"),
+      crewMember(3, "Original Music Composer", "Sound"),
+      crewMember(4, "Director of Photography", "Camera"),
+      crewMember(5, "Producer", "Production"),
+      crewMember(6, "Assistant Director", "Directing"),
+      crewMember(7, "Editor", "Editing"),
+    ])
+
+    expect(result.map((m) => m.id)).toEqual([1, 2, 3, 4])
+  })
+
+  it("orders by department, then by credit order", () => {
+    const result = selectKeyCrew([
+      crewMember(4, "Director of Photography", "Camera"),
+      crewMember(2, "Writer", "Writing"),
+      crewMember(1, "Director", "Directing"),
+      crewMember(3, "Novel", "Writing"),
+    ])
+
+    expect(result.map((m) => m.id)).toEqual([1, 2, 3, 4])
+  })
+
+  it("lists a person with several key jobs once", () => {
+    const result = selectKeyCrew([
+      crewMember(1, "Screenplay", "Writing"),
+      crewMember(1, "Director", "Directing"),
+      crewMember(2, "Director of Photography", "Camera"),
+      crewMember(1, "Story", "Writing"),
+    ])
+
+    expect(result).toHaveLength(2)
+    expect(result[0].job).toBe("Director, Screenplay, Story")
+    expect(result[0].credits).toEqual([
+      { job: "Director", department: "Directing" },
+      { job: "Screenplay", department: "Writing" },
+      { job: "Story", department: "Writing" },
+    ])
+  })
+
+  it("ignores duplicate credits for the same job", () => {
+    const result = selectKeyCrew([
+      crewMember(1, "Director", "Directing"),
+      crewMember(1, "Director", "Directing"),
+    ])
+
+    expect(result[0].credits).toHaveLength(1)
+    expect(result[0].job).toBe("Director")
+  })
+
+  it("limits the number of crew members", () => {
+    const crew = Array.from({ length: CREW_LIMIT + 5 }, (_, i) =>
+      crewMember(i + 1, "Director", "Directing")
+    )
+
+    expect(selectKeyCrew(crew)).toHaveLength(CREW_LIMIT)
+  })
+
+  it("returns an empty list when there is no key crew", () => {
+    expect(selectKeyCrew([crewMember(1, "Producer", "Production")])).toEqual([])
+  })
+})
+
+describe("selectProducers", () => {
+  it("keeps producers only, in credit order", () => {
+    const result = selectProducers([
+      crewMember(1, "Director", "Directing"),
+      crewMember(3, "Producer", "Production"),
+      crewMember(2, "Executive Producer", "Production"),
+      crewMember(4, "Producer", "Production"),
+    ])
+
+    expect(result.map((m) => m.id)).toEqual([3, 4])
+    expect(result[0]).toMatchObject({
+      job: "Producer",
+      credits: [{ job: "Producer", department: "Production" }],
+    })
+  })
+
+  it("lists a producer credited twice once", () => {
+    const result = selectProducers([
+      crewMember(1, "Producer", "Production"),
+      crewMember(1, "Producer", "Production"),
+    ])
+
+    expect(result).toHaveLength(1)
+  })
+
+  it("limits the number of producers", () => {
+    const crew = Array.from({ length: PRODUCER_LIMIT + 3 }, (_, i) =>
+      crewMember(i + 1, "Producer", "Production")
+    )
+
+    expect(selectProducers(crew)).toHaveLength(PRODUCER_LIMIT)
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Key crew selection.
+ *
+ * TMDB credits list every crew member down to the caterers. Mortality is only
+ * tracked for the people most associated with a film: its directors, writers,
+ * composers and cinematographers.
+ */
+
+import type { TMDBCrewMember } from "./tmdb.js"
+
+/** Maximum number of key crew members analyzed per movie */
+export const CREW_LIMIT = 20
+
+/** Tracked crew jobs by TMDB department, in display order */
+export const KEY_CREW_JOBS: Record<string, string[]> = {
+  Directing: ["Director"],
+  Writing: ["Screenplay", "Writer", "Story", "Novel"],
+  Sound: ["Original Music Composer", "Music"],
+  Camera: ["Director of Photography"],
+}
+
+export interface KeyCrewCredit {
+  job: string
+  department: string
+}
+
+export interface KeyCrewMember {
+  id: number
+  name: string
+  profile_path: string | null
+  gender: number
+  credits: KeyCrewCredit[] // Every key job held on the movie
+  job: string // Jobs joined for display, e.g. "Director, Screenplay"
+}
+
+/**
+ * Select the key crew from a movie's credits, one entry per person.
+ *
+ * People are ordered by department (directors first), then by TMDB credit
+ * order. Someone holding several key jobs (e.g. writer-director) appears once,
+ * at their first key job, with all of their jobs listed.
+ */
+export function selectKeyCrew(crew: TMDBCrewMember[]): KeyCrewMember[] {
+  const departments = Object.keys(KEY_CREW_JOBS)
+  const keyCredits = crew
+    .filter((member) => KEY_CREW_JOBS[member.department]?.includes(member.job))
+    .map((member, index) => ({ member, index }))
+    .sort(
+      (a, b) =>
+        departments.indexOf(a.member.department) - departments.indexOf(b.member.department) ||
+        a.index - b.index
+    )
+
+  const byPerson = new Map<number, Omit<KeyCrewMember, "job">>()
+  for (const { member } of keyCredits) {
+    const existing = byPerson.get(member.id)
+    if (existing) {
+      if (!existing.credits.some((c) => c.job === member.job)) {
+        existing.credits.push({ job: member.job, department: member.department })
+      }
+      continue
+    }
+    byPerson.set(member.id, {
+      id: member.id,
+      name: member.name,
+      profile_path: member.profile_path,
+      gender: member.gender,
+      credits: [{ job: member.job, department: member.department }],
+    })
+  }
+
+  return [...byPerson.values()].slice(0, CREW_LIMIT).map((member) => ({
+    ...member,
+    job: member.credits.map((c) => c.job).join(", "),
+  }))
+}
+
+/**
+ * Crew roles ranked on the cursed directors leaderboard by the cast mortality of
+ * their films, with the crew_appearances job each one matches
+ */
+export const RANKED_CREW_ROLES = {
+  director: "Director",
+  producer: "Producer",
+} as const
+export type RankedCrewRole = keyof typeof RANKED_CREW_ROLES
+
+/** Maximum number of producers kept per movie for the director/producer leaderboard */
+export const PRODUCER_LIMIT = 5
+
+/**
+ * Select a movie's producers, in TMDB credit order, one entry per person.
+ *
+ * Producers aren't part of the crew mortality statistics; they're persisted so
+ * the leaderboard can rank them by the cast mortality of the films they produced.
+ */
+export function selectProducers(crew: TMDBCrewMember[]): KeyCrewMember[] {
+  const seen = new Set<number>()
+  const producers: KeyCrewMember[] = []
+  for (const member of crew) {
+    if (member.department !== "Production" || member.job !== "Producer") continue
+    if (seen.has(member.id)) continue
+    seen.add(member.id)
+    producers.push({
+      id: member.id,
+      name: member.name,
+      profile_path: member.profile_path,
+      gender: member.gender,
+      credits: [{ job: member.job, department: member.department }],
+      job: member.job,
+    })
+  }
+  return producers.slice(0, PRODUCER_LIMIT)
+}
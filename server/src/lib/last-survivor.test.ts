@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import {
+  clearLastSurvivorCache,
+  createSeededRandom,
+  getSimulationCount,
+  predictLastSurvivor,
+  simulateLastSurvivor,
+  LAST_SURVIVOR_SIMULATIONS,
+} from "./last-survivor.js"
+import * as mortalityStats from "./mortality-stats.js"
+import type { ActorForMortality } from "./mortality-stats.js"
+
+vi.mock("./mortality-stats.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./mortality-stats.js")>()),
+  loadLifeTables: vi.fn(),
+  getSurvivalTable: vi.fn(),
+  deathProbabilityFromTable: vi.fn(),
+  resolveLifeTableCountry: vi.fn(),
+}))
+
+const survivalTable = { logSurvival: [], logYearSurvival: [] }
+
+describe("createSeededRandom", () => {
+  it("returns the same sequence for the same seed", () => {
+    const a = createSeededRandom(42)
+    const b = createSeededRandom(42)
+    const sequenceA = [a(), a(), a()]
+    const sequenceB = [b(), b(), b()]
+
+    expect(sequenceA).toEqual(sequenceB)
+  })
+
+  it("returns values in [0, 1)", () => {
+    const random = createSeededRandom(7)
+    for (let i = 0; i < 1000; i++) {
+      const value = random()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe("simulateLastSurvivor", () => {
+  it("returns empty results for no actors", () => {
+    const result = simulateLastSurvivor([])
+
+    expect(result.lastSurvivorProbabilities.size).toBe(0)
+    expect(result.expectedYearsUntilAllDeceased).toBe(0)
+  })
+
+  it("gives a single actor a probability of 1", () => {
+    const result = simulateLastSurvivor([{ tmdbId: 1, deathProbabilities: [0.1, 0.2, 0.5, 1] }])
+
+    expect(result.lastSurvivorProbabilities.get(1)).toBe(1)
+  })
+
+  it("splits identical actors evenly", () => {
+    const schedule = Array.from({ length: 40 }, () => 0.05)
+    const result = simulateLastSurvivor([
+      { tmdbId: 1, deathProbabilities: schedule },
+      { tmdbId: 2, deathProbabilities: schedule },
+    ])
+
+    expect(result.lastSurvivorProbabilities.get(1)).toBeCloseTo(0.5, 1)
+    expect(result.lastSurvivorProbabilities.get(2)).toBeCloseTo(0.5, 1)
+  })
+
+  it("favours the actor with lower mortality", () => {
+    const result = simulateLastSurvivor([
+      { tmdbId: 1, deathProbabilities: Array.from({ length: 10 }, () => 0.3) },
+      { tmdbId: 2, deathProbabilities: Array.from({ length: 60 }, () => 0.02) },
+    ])
+
+    expect(result.lastSurvivorProbabilities.get(2)).toBeGreaterThan(0.9)
+  })
+
+  it("has probabilities summing to 1", () => {
+    const result = simulateLastSurvivor([
+      { tmdbId: 1, deathProbabilities: [0.1, 0.2, 0.3, 1] },
+      { tmdbId: 2, deathProbabilities: [0.2, 0.3, 1] },
+      { tmdbId: 3, deathProbabilities: [0.05, 0.1, 0.2, 0.4, 1] },
+    ])
+
+    const total = [...result.lastSurvivorProbabilities.values()].reduce((a, b) => a + b, 0)
+    expect(total).toBeCloseTo(1, 10)
+  })
+
+  it("ends every simulated life by the end of the schedule", () => {
+    const result = simulateLastSurvivor([{ tmdbId: 1, deathProbabilities: [0, 0, 0] }])
+
+    expect(result.expectedYearsUntilAllDeceased).toBeGreaterThan(2)
+    expect(result.expectedYearsUntilAllDeceased).toBeLessThanOrEqual(3)
+  })
+
+  it("is reproducible with the default seed", () => {
+    const schedules = [
+      { tmdbId: 1, deathProbabilities: [0.1, 0.2, 0.3, 1] },
+      { tmdbId: 2, deathProbabilities: [0.2, 0.3, 1] },
+    ]
+
+    expect(simulateLastSurvivor(schedules)).toEqual(simulateLastSurvivor(schedules))
+  })
+})
+
+describe("getSimulationCount", () => {
+  it("uses the full number of simulations for small casts", () => {
+    expect(getSimulationCount(10)).toBe(LAST_SURVIVOR_SIMULATIONS)
+  })
+
+  it("caps the simulated lifetimes for large casts, down to a floor", () => {
+    expect(getSimulationCount(100)).toBe(2500)
+    expect(getSimulationCount(10000)).toBe(1000)
+  })
+})
+
+describe("predictLastSurvivor", () => {
+  const actor = (overrides: Partial<ActorForMortality>): ActorForMortality => ({
+    tmdbId: 1,
+    name: "Actor",
+    birthday: "1950-01-01",
+    deathday: null,
+    gender: "combined",
+    birthCountry: null,
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearLastSurvivorCache()
+    vi.mocked(mortalityStats.loadLifeTables).mockResolvedValue()
+    vi.mocked(mortalityStats.getSurvivalTable).mockReturnValue(survivalTable)
+    vi.mocked(mortalityStats.resolveLifeTableCountry).mockReturnValue("US")
+    // Gompertz-like mortality: qx doubles roughly every 8 years
+    vi.mocked(mortalityStats.deathProbabilityFromTable).mockImplementation((_table, startAge) =>
+      Math.min(1, 0.0001 * Math.pow(2, startAge / 8))
+    )
+  })
+
+  it("ranks younger actors as more likely to be the last survivor", async () => {
+    const result = await predictLastSurvivor(
+      [
+        actor({ tmdbId: 1, name: "Older", birthday: "1940-01-01" }),
+        actor({ tmdbId: 2, name: "Younger", birthday: "1980-01-01" }),
+      ],
+      "2025-01-01"
+    )
+
+    expect(result).not.toBeNull()
+    expect(result!.candidates[0].tmdbId).toBe(2)
+    expect(result!.candidates[0].probability).toBeGreaterThan(result!.candidates[1].probability)
+    expect(result!.simulations).toBe(LAST_SURVIVOR_SIMULATIONS)
+  })
+
+  it("ignores deceased actors and counts living actors without a birthday", async () => {
+    const result = await predictLastSurvivor(
+      [
+        actor({ tmdbId: 1 }),
+        actor({ tmdbId: 2, deathday: "2020-01-01" }),
+        actor({ tmdbId: 3, birthday: null }),
+      ],
+      "2025-01-01"
+    )
+
+    expect(result!.candidates.map((c) => c.tmdbId)).toEqual([1])
+    expect(result!.candidates[0].probability).toBe(1)
+    expect(result!.unknownAgeCount).toBe(1)
+  })
+
+  it("returns the expected year the cast is fully deceased", async () => {
+    const result = await predictLastSurvivor([actor({ birthday: "1950-01-01" })], "2025-01-01")
+
+    expect(result!.expectedAllDeceasedYear).toBeGreaterThan(2025)
+    expect(result!.expectedAllDeceasedYear).toBeLessThanOrEqual(2070) // Age 120
+  })
+
+  it("passes each actor's gender, birth year and life table country to the tables", async () => {
+    vi.mocked(mortalityStats.resolveLifeTableCountry).mockReturnValue("GB")
+
+    await predictLastSurvivor(
+      [actor({ birthday: "1950-06-15", gender: "female", birthCountry: "GB" })],
+      "2025-01-01"
+    )
+
+    expect(mortalityStats.resolveLifeTableCountry).toHaveBeenCalledWith("GB")
+    expect(mortalityStats.getSurvivalTable).toHaveBeenCalledWith("female", 1950, "GB")
+  })
+
+  it("remembers the prediction for the same cast and date", async () => {
+    const cast = [actor({ tmdbId: 1 }), actor({ tmdbId: 2, birthday: "1970-01-01" })]
+
+    const first = await predictLastSurvivor(cast, "2025-01-01")
+    const second = await predictLastSurvivor(cast, "2025-01-01")
+
+    expect(second).toEqual(first)
+    expect(mortalityStats.getSurvivalTable).toHaveBeenCalledTimes(2)
+  })
+
+  it("runs fewer simulations for large casts", async () => {
+    const cast = Array.from({ length: 100 }, (_, i) => actor({ tmdbId: i + 1 }))
+
+    const result = await predictLastSurvivor(cast, "2025-01-01")
+
+    expect(result!.simulations).toBe(getSimulationCount(100))
+    expect(result!.simulations).toBeLessThan(LAST_SURVIVOR_SIMULATIONS)
+  })
+
+  it("returns null when no living actor has a known age", async () => {
+    const result = await predictLastSurvivor(
+      [actor({ birthday: null }), actor({ tmdbId: 2, deathday: "2020-01-01" })],
+      "2025-01-01"
+    )
+
+    expect(result).toBeNull()
+  })
+})
@@ -0,0 +1,274 @@
+/**
+ * Last-survivor prediction for a movie's living cast.
+ *
+ * Each living actor's remaining lifetime is drawn from their own actuarial
+ * curve (age, gender, birth cohort and country, as in mortality-stats). Running
+ * many simulated futures gives the probability that each actor outlives the
+ * rest of the cast, and how long until the whole cast has died.
+ *
+ * The simulation itself is a pure function; predictLastSurvivor loads the
+ * life tables once, builds each actor's yearly death probabilities from their
+ * survival table, and remembers recent predictions since movie pages ask for
+ * the same cast again and again.
+ */
+
+import { formatDate, toDecimalYear } from "./date-utils.js"
+import {
+  deathProbabilityFromTable,
+  getSurvivalTable,
+  loadLifeTables,
+  resolveLifeTableCountry,
+  type ActorForMortality,
+} from "./mortality-stats.js"
+
+/** Number of simulated futures per prediction */
+export const LAST_SURVIVOR_SIMULATIONS = 10000
+
+// Large casts get fewer simulated futures so one prediction draws at most this many lifetimes
+const MAX_SIMULATED_LIFETIMES = 250000
+
+// Smallest number of simulated futures, however large the cast
+const MIN_SIMULATIONS = 1000
+
+// Recent predictions, keyed by as-of date and the living cast
+const MAX_CACHED_PREDICTIONS = 500
+const predictionCache = new Map<string, LastSurvivorPrediction | null>()
+
+// Fixed seed so the same cast always gets the same prediction
+const SIMULATION_SEED = 0x5eed
+
+// Life tables end at age 120, so nobody is simulated beyond it
+const MAX_AGE = 120
+
+/**
+ * Yearly death probabilities for one living actor, starting from the as-of date.
+ * Index k is the probability of dying in year k, given survival to the start of it.
+ */
+export interface SurvivalSchedule {
+  tmdbId: number
+  deathProbabilities: number[]
+}
+
+export interface LastSurvivorSimulation {
+  lastSurvivorProbabilities: Map<number, number> // tmdbId -> probability of being last
+  expectedYearsUntilAllDeceased: number
+}
+
+export interface LastSurvivorCandidate {
+  tmdbId: number
+  probability: number // Probability this actor is the last cast member alive
+}
+
+export interface LastSurvivorPrediction {
+  candidates: LastSurvivorCandidate[] // Sorted most likely first
+  expectedAllDeceasedYear: number // Expected year the last cast member dies
+  simulations: number
+  unknownAgeCount: number // Living actors without a birthday, left out of the simulation
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so simulations are reproducible.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Cumulative probability of having died by the end of each year.
+ * The final year absorbs any remaining probability so everyone dies eventually.
+ */
+function toCumulative(deathProbabilities: number[]): number[] {
+  const cumulative: number[] = []
+  let survival = 1
+  for (const qx of deathProbabilities) {
+    survival *= 1 - Math.min(1, Math.max(0, qx))
+    cumulative.push(1 - survival)
+  }
+  if (cumulative.length > 0) cumulative[cumulative.length - 1] = 1
+  return cumulative
+}
+
+/**
+ * Draw a time of death (in fractional years from now) by inverting the cumulative curve.
+ * Within a year, time is interpolated linearly so ties between actors are broken.
+ */
+function sampleDeathTime(cumulative: number[], u: number): number {
+  if (cumulative.length === 0) return 0
+
+  let low = 0
+  let high = cumulative.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (cumulative[mid] > u) high = mid
+    else low = mid + 1
+  }
+
+  const yearStart = low === 0 ? 0 : cumulative[low - 1]
+  const width = cumulative[low] - yearStart
+  return low + (width > 0 ? (u - yearStart) / width : 0)
+}
+
+/**
+ * Simulate the cast's remaining lifetimes to find who is likely to outlive the others.
+ *
+ * @param schedules Yearly death probabilities for each living actor
+ * @param simulations Number of simulated futures
+ * @param random Random number generator returning values in [0, 1)
+ * @returns Probability that each actor is the last survivor, and the expected
+ *   number of years until the whole cast has died
+ */
+export function simulateLastSurvivor(
+  schedules: SurvivalSchedule[],
+  simulations: number = LAST_SURVIVOR_SIMULATIONS,
+  random: () => number = createSeededRandom(SIMULATION_SEED)
+): LastSurvivorSimulation {
+  const lastSurvivorCounts = new Map(schedules.map((s) => [s.tmdbId, 0]))
+  if (schedules.length === 0 || simulations <= 0) {
+    return { lastSurvivorProbabilities: new Map(), expectedYearsUntilAllDeceased: 0 }
+  }
+
+  const cumulatives = schedules.map((s) => toCumulative(s.deathProbabilities))
+  let totalYearsUntilAllDeceased = 0
+
+  for (let run = 0; run < simulations; run++) {
+    let lastIndex = 0
+    let lastDeathTime = -1
+    for (let i = 0; i < schedules.length; i++) {
+      const deathTime = sampleDeathTime(cumulatives[i], random())
+      if (deathTime > lastDeathTime) {
+        lastDeathTime = deathTime
+        lastIndex = i
+      }
+    }
+
+    const lastId = schedules[lastIndex].tmdbId
+    lastSurvivorCounts.set(lastId, (lastSurvivorCounts.get(lastId) ?? 0) + 1)
+    totalYearsUntilAllDeceased += lastDeathTime
+  }
+
+  const lastSurvivorProbabilities = new Map<number, number>()
+  for (const [tmdbId, count] of lastSurvivorCounts) {
+    lastSurvivorProbabilities.set(tmdbId, count / simulations)
+  }
+
+  return {
+    lastSurvivorProbabilities,
+    expectedYearsUntilAllDeceased: totalYearsUntilAllDeceased / simulations,
+  }
+}
+
+/**
+ * Number of simulated futures for a cast of this many living actors.
+ */
+export function getSimulationCount(livingCount: number): number {
+  if (livingCount <= 0) return LAST_SURVIVOR_SIMULATIONS
+  return Math.max(
+    MIN_SIMULATIONS,
+    Math.min(LAST_SURVIVOR_SIMULATIONS, Math.floor(MAX_SIMULATED_LIFETIMES / livingCount))
+  )
+}
+
+/**
+ * Forget remembered predictions (e.g. after the life tables change).
+ */
+export function clearLastSurvivorCache(): void {
+  predictionCache.clear()
+}
+
+/**
+ * Predict which living cast member is likely to be the last survivor.
+ *
+ * Deceased actors in the list are ignored. Living actors without a birthday
+ * can't be placed on a life table, so they're left out and counted separately.
+ * Results are remembered per as-of date and living cast.
+ *
+ * @param actors Cast members (living and deceased)
+ * @param asOf Date to simulate from (defaults to today)
+ * @returns Ranked candidates and the expected year the cast is fully deceased,
+ *   or null if no living actor has a known age
+ */
+export async function predictLastSurvivor(
+  actors: ActorForMortality[],
+  asOf: string = formatDate(new Date())
+): Promise<LastSurvivorPrediction | null> {
+  const asOfPoint = toDecimalYear(asOf)
+  if (asOfPoint === null) {
+    throw new Error(`Invalid as-of date (${asOf})`)
+  }
+
+  const living = actors.filter((a) => a.deathday === null)
+  const cacheKey = [
+    asOf,
+    ...living.map((a) => `${a.tmdbId}:${a.birthday}:${a.gender}:${a.birthCountry}`),
+  ].join("|")
+  if (predictionCache.has(cacheKey)) return predictionCache.get(cacheKey) ?? null
+
+  await loadLifeTables()
+
+  const schedules: SurvivalSchedule[] = []
+  let unknownAgeCount = 0
+
+  for (const actor of living) {
+    const birthPoint = actor.birthday ? toDecimalYear(actor.birthday) : null
+    if (birthPoint === null || birthPoint > asOfPoint) {
+      unknownAgeCount++
+      continue
+    }
+
+    const currentAge = asOfPoint - birthPoint
+    const table = getSurvivalTable(
+      actor.gender,
+      Math.floor(birthPoint),
+      resolveLifeTableCountry(actor.birthCountry)
+    )
+    const deathProbabilities: number[] = []
+    for (let age = currentAge; age < MAX_AGE; age++) {
+      deathProbabilities.push(deathProbabilityFromTable(table, age, Math.min(age + 1, MAX_AGE)))
+    }
+
+    schedules.push({ tmdbId: actor.tmdbId, deathProbabilities })
+  }
+
+  const prediction = simulatePrediction(schedules, asOfPoint, unknownAgeCount)
+  if (predictionCache.size >= MAX_CACHED_PREDICTIONS) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    predictionCache.delete(predictionCache.keys().next().value as string)
+  }
+  predictionCache.set(cacheKey, prediction)
+  return prediction
+}
+
+/**
+ * Run the simulation and rank the candidates.
+ */
+function simulatePrediction(
+  schedules: SurvivalSchedule[],
+  asOfPoint: number,
+  unknownAgeCount: number
+): LastSurvivorPrediction | null {
+  if (schedules.length === 0) return null
+
+  const simulations = getSimulationCount(schedules.length)
+  const simulation = simulateLastSurvivor(schedules, simulations)
+  const candidates = schedules
+    .map((s) => ({
+      tmdbId: s.tmdbId,
+      probability:
+        Math.round((simulation.lastSurvivorProbabilities.get(s.tmdbId) ?? 0) * 1000) / 1000,
+    }))
+    .sort((a, b) => b.probability - a.probability)
+
+  return {
+    candidates,
+    expectedAllDeceasedYear: Math.floor(asOfPoint + simulation.expectedYearsUntilAllDeceased),
+    simulations,
+    unknownAgeCount,
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import type Anthropic from "@anthropic-ai/sdk"
+import {
+  createAnthropicProvider,
+  createStubProvider,
+  generateStructuredOutput,
+  getLlmProvider,
+  validateStructuredOutput,
+  type JsonObjectSchema,
+  type StructuredOutputRequest,
+} from "./llm-provider.js"
+
+const schema: JsonObjectSchema = {
+  type: "object",
+  properties: {
+    cause: { type: ["string", "null"], maxLength: 20 },
+    details: { type: ["string", "null"] },
+  },
+  required: ["cause", "details"],
+  additionalProperties: false,
+}
+
+function request(prompt: string): StructuredOutputRequest {
+  return {
+    prompt,
+    schemaName: "record_cause_of_death",
+    schemaDescription: "Record how a person died",
+    schema,
+    maxTokens: 300,
+  }
+}
+
+describe("validateStructuredOutput", () => {
+  it("accepts a value that matches the schema", () => {
+    expect(validateStructuredOutput(schema, { cause: "stroke", details: null })).toEqual([])
+  })
+
+  it("reports missing, extra, mistyped and overlong fields", () => {
+    expect(
+      validateStructuredOutput(schema, {
+        cause: "a cause far longer than twenty characters",
+        extra: true,
+      })
+    ).toEqual(["details: missing", "cause: longer than 20 characters", "extra: not allowed"])
+    expect(validateStructuredOutput(schema, { cause: 42, details: ["x"] })).toEqual([
+      "cause: expected string or null",
+      "details: expected string or null",
+    ])
+  })
+
+  it("rejects anything that isn't an object", () => {
+    expect(validateStructuredOutput(schema, "stroke")).toEqual(["expected an object"])
+    expect(validateStructuredOutput(schema, null)).toEqual(["expected an object"])
+  })
+})
+
+describe("createStubProvider", () => {
+  it("answers the same prompt the same way, from its fixtures", async () => {
+    const stub = createStubProvider("stub-1", {
+      record_cause_of_death: { cause: ["stroke", "pneumonia"] },
+    })
+
+    const first = await stub.generateStructured(request("Who? Actor One"))
+    const second = await stub.generateStructured(request("Who? Actor One"))
+
+    expect(first).toEqual(second)
+    expect(["stroke", "pneumonia"]).toContain((first as { cause: string }).cause)
+    expect(first).toHaveProperty("details", null)
+  })
+
+  it("answers null for a schema it has no fixtures for", async () => {
+    const stub = createStubProvider("stub-1", {})
+
+    expect(await stub.generateStructured(request("Who? Actor One"))).toEqual({
+      cause: null,
+      details: null,
+    })
+  })
+})
+
+describe("generateStructuredOutput", () => {
+  it("throws when the provider's output doesn't match the schema", async () => {
+    const provider = {
+      name: "stub" as const,
+      model: "broken-1",
+      generateStructured: vi.fn().mockResolvedValue({ cause: 42, details: null }),
+    }
+
+    await expect(generateStructuredOutput(provider, request("Who?"))).rejects.toThrow(
+      "broken-1 output did not match record_cause_of_death: cause: expected string or null"
+    )
+  })
+})
+
+describe("createAnthropicProvider", () => {
+  it("forces the schema tool and returns its input", async () => {
+    const create = vi.fn().mockResolvedValue({
+      content: [{ type: "tool_use", name: "record_cause_of_death", input: { cause: "stroke" } }],
+    })
+    const provider = createAnthropicProvider("claude-test", {
+      messages: { create },
+    } as unknown as Anthropic)
+
+    const output = await provider.generateStructured(request("Who?"))
+
+    expect(output).toEqual({ cause: "stroke" })
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "claude-test",
+        tools: [expect.objectContaining({ name: "record_cause_of_death", input_schema: schema })],
+        tool_choice: { type: "tool", name: "record_cause_of_death" },
+      })
+    )
+  })
+
+  it("throws when the model answers without calling the tool", async () => {
+    const create = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "No idea" }] })
+    const provider = createAnthropicProvider("claude-test", {
+      messages: { create },
+    } as unknown as Anthropic)
+
+    await expect(provider.generateStructured(request("Who?"))).rejects.toThrow(
+      "claude-test did not return record_cause_of_death"
+    )
+  })
+})
+
+describe("getLlmProvider", () => {
+  const saved = {
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+  }
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+  })
+
+  it("returns the stub with the configured model", () => {
+    process.env.LLM_PROVIDER = "stub"
+    process.env.LLM_MODEL = "stub-2"
+
+    expect(getLlmProvider()).toMatchObject({ name: "stub", model: "stub-2" })
+  })
+
+  it("returns null for Anthropic without an API key", () => {
+    delete process.env.LLM_PROVIDER
+    delete process.env.ANTHROPIC_API_KEY
+
+    expect(getLlmProvider()).toBeNull()
+  })
+
+  it("throws for an unknown provider", () => {
+    process.env.LLM_PROVIDER = "openai"
+
+    expect(() => getLlmProvider()).toThrow('Unknown LLM_PROVIDER "openai"')
+  })
+})
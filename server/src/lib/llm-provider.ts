@@ -0,0 +1,215 @@
+/**
+ * Pluggable LLM providers for structured lookups such as cause of death.
+ *
+ * A provider takes a rendered prompt and a JSON schema and returns an object it
+ * claims matches the schema; generateStructuredOutput checks that claim before
+ * anything is stored. Configure with:
+ *
+ *   LLM_PROVIDER  "anthropic" (default) or "stub"
+ *   LLM_MODEL     Model name, defaults to DEFAULT_ANTHROPIC_MODEL for Anthropic
+ *
+ * The stub answers deterministically from canned answers kept with it, so offline
+ * development and tests get stable results without an API key. They stay out of
+ * the schemas, which are sent to real models as part of the prompt.
+ */
+import { createHash } from "node:crypto"
+import Anthropic from "@anthropic-ai/sdk"
+
+export type LlmProviderName = "anthropic" | "stub"
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-haiku-20240307"
+export const DEFAULT_STUB_MODEL = "stub-1"
+
+type JsonType = "string" | "number" | "boolean" | "null"
+
+export interface JsonPropertySchema {
+  type: JsonType | JsonType[]
+  description?: string
+  maxLength?: number
+}
+
+// The subset of JSON Schema our prompts use: a flat object of scalar fields. A type
+// alias rather than an interface so it fits the SDK's indexed InputSchema type.
+export type JsonObjectSchema = {
+  type: "object"
+  properties: Record<string, JsonPropertySchema>
+  required: string[]
+  additionalProperties: false
+}
+
+export interface StructuredOutputRequest {
+  prompt: string
+  schemaName: string
+  schemaDescription: string
+  schema: JsonObjectSchema
+  maxTokens: number
+}
+
+export interface LlmProvider {
+  name: LlmProviderName
+  model: string
+  generateStructured(request: StructuredOutputRequest): Promise<unknown>
+}
+
+function typeOf(value: unknown): JsonType | "other" {
+  if (value === null) return "null"
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return typeof value as JsonType
+  }
+  return "other"
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem, or an empty
+ * array when the value is valid.
+ */
+export function validateStructuredOutput(schema: JsonObjectSchema, value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["expected an object"]
+  }
+
+  const record = value as Record<string, unknown>
+  const errors: string[] = []
+
+  for (const key of schema.required) {
+    if (!(key in record)) errors.push(`${key}: missing`)
+  }
+
+  for (const [key, fieldValue] of Object.entries(record)) {
+    const property = schema.properties[key]
+    if (!property) {
+      errors.push(`${key}: not allowed`)
+      continue
+    }
+
+    const allowed = Array.isArray(property.type) ? property.type : [property.type]
+    const actual = typeOf(fieldValue)
+    if (actual === "other" || !allowed.includes(actual)) {
+      errors.push(`${key}: expected ${allowed.join(" or ")}`)
+    } else if (
+      typeof fieldValue === "string" &&
+      property.maxLength !== undefined &&
+      fieldValue.length > property.maxLength
+    ) {
+      errors.push(`${key}: longer than ${property.maxLength} characters`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Ask a provider for structured output and validate it against the request's schema.
+ * @throws If the provider fails or its output doesn't match the schema
+ */
+export async function generateStructuredOutput<T>(
+  provider: LlmProvider,
+  request: StructuredOutputRequest
+): Promise<T> {
+  const output = await provider.generateStructured(request)
+  const errors = validateStructuredOutput(request.schema, output)
+  if (errors.length > 0) {
+    throw new Error(
+      `${provider.model} output did not match ${request.schemaName}: ${errors.join("; ")}`
+    )
+  }
+  return output as T
+}
+
+/**
+ * Anthropic provider. The schema is sent as the only tool and the model is made to
+ * call it, so the answer comes back as the tool's input rather than free text.
+ */
+export function createAnthropicProvider(model: string, client: Anthropic): LlmProvider {
+  return {
+    name: "anthropic",
+    model,
+    async generateStructured(request) {
+      const message = await client.messages.create({
+        model,
+        max_tokens: request.maxTokens,
+        tools: [
+          {
+            name: request.schemaName,
+            description: request.schemaDescription,
+            input_schema: request.schema,
+          },
+        ],
+        tool_choice: { type: "tool", name: request.schemaName },
+        messages: [{ role: "user", content: request.prompt }],
+      })
+
+      const toolUse = message.content.find((block) => block.type === "tool_use")
+      if (!toolUse || toolUse.type !== "tool_use") {
+        throw new Error(`${model} did not return ${request.schemaName}`)
+      }
+      return toolUse.input
+    },
+  }
+}
+
+// Canned answers for the stub provider: schema name -> field -> candidate values
+export type StubFixtures = Record<string, Record<string, unknown[]>>
+
+export const DEFAULT_STUB_FIXTURES: StubFixtures = {
+  record_cause_of_death: {
+    cause: ["heart attack", "lung cancer", "stroke", "pneumonia", "car accident", null],
+    details: [null, "Had been treated for the illness for several years."],
+  },
+}
+
+// Stable index into a list, derived from the prompt so the same question always
+// gets the same answer
+function pick<T>(items: T[], seed: string): T {
+  const hash = createHash("sha256").update(seed).digest()
+  return items[hash.readUInt32BE(0) % items.length]
+}
+
+/**
+ * Deterministic offline provider. Each field gets one of its fixtures for the
+ * request's schema, chosen by hashing the prompt, or null when it has none.
+ */
+export function createStubProvider(
+  model: string = DEFAULT_STUB_MODEL,
+  fixtures: StubFixtures = DEFAULT_STUB_FIXTURES
+): LlmProvider {
+  return {
+    name: "stub",
+    model,
+    async generateStructured(request) {
+      const schemaFixtures = fixtures[request.schemaName] ?? {}
+      const output: Record<string, unknown> = {}
+      for (const key of Object.keys(request.schema.properties)) {
+        const candidates = schemaFixtures[key]
+        output[key] = candidates?.length ? pick(candidates, `${request.prompt}\n${key}`) : null
+      }
+      return output
+    },
+  }
+}
+
+let anthropicClient: Anthropic | null = null
+
+/**
+ * The provider configured by LLM_PROVIDER and LLM_MODEL, or null when Anthropic is
+ * selected but ANTHROPIC_API_KEY isn't set.
+ */
+export function getLlmProvider(): LlmProvider | null {
+  const name = process.env.LLM_PROVIDER || "anthropic"
+  const model = process.env.LLM_MODEL
+
+  if (name === "stub") {
+    return createStubProvider(model || DEFAULT_STUB_MODEL)
+  }
+  if (name !== "anthropic") {
+    throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "anthropic" or "stub")`)
+  }
+
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return null
+  }
+  if (!anthropicClient) {
+    anthropicClient = new Anthropic()
+  }
+  return createAnthropicProvider(model || DEFAULT_ANTHROPIC_MODEL, anthropicClient)
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { forecastMortality, getDefaultProjectionYears } from "./mortality-forecast.js"
+import * as mortalityStats from "./mortality-stats.js"
+import type { ActorForMortality } from "./mortality-stats.js"
+
+vi.mock("./mortality-stats.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./mortality-stats.js")>()),
+  loadLifeTables: vi.fn(),
+  getSurvivalTable: vi.fn(),
+  deathProbabilityFromTable: vi.fn(),
+  resolveLifeTableCountry: vi.fn(),
+}))
+
+const survivalTable = { logSurvival: [], logYearSurvival: [] }
+
+function actor(tmdbId: number, overrides: Partial<ActorForMortality> = {}): ActorForMortality {
+  return {
+    tmdbId,
+    name: `Actor ${tmdbId}`,
+    birthday: "1950-01-01",
+    deathday: null,
+    gender: "male",
+    birthCountry: null,
+    ...overrides,
+  }
+}
+
+// Constant yearly hazard: dying over an interval of t years has probability 1 - (1 - rate)^t
+function mockYearlyDeathRate(rate: number) {
+  vi.mocked(mortalityStats.deathProbabilityFromTable).mockImplementation(
+    (_table, startAge, endAge) => 1 - Math.pow(1 - rate, endAge - startAge)
+  )
+}
+
+describe("getDefaultProjectionYears", () => {
+  it("returns the next three decade boundaries", () => {
+    expect(getDefaultProjectionYears(2025)).toEqual([2030, 2040, 2050])
+  })
+
+  it("starts at the following decade when the year is already a boundary", () => {
+    expect(getDefaultProjectionYears(2030)).toEqual([2040, 2050, 2060])
+  })
+})
+
+describe("forecastMortality", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mortalityStats.loadLifeTables).mockResolvedValue()
+    vi.mocked(mortalityStats.getSurvivalTable).mockReturnValue(survivalTable)
+    vi.mocked(mortalityStats.resolveLifeTableCountry).mockReturnValue("US")
+  })
+
+  it("projects expected deaths among the living by the end of each year", async () => {
+    mockYearlyDeathRate(0.1)
+
+    const forecast = await forecastMortality([actor(1), actor(2)], {
+      asOf: "2025-01-01",
+      years: [2030],
+    })
+
+    // Six years of exposure (2025 through 2030): 2 * (1 - 0.9^6)
+    expect(forecast.projections).toHaveLength(1)
+    expect(forecast.projections[0].year).toBe(2030)
+    expect(forecast.projections[0].expectedDeaths).toBeCloseTo(2 * (1 - Math.pow(0.9, 6)), 2)
+    expect(forecast.projections[0].expectedDeathsLow).toBe(0)
+    expect(forecast.projections[0].expectedDeathsHigh).toBe(2)
+  })
+
+  it("uses the default decades when no years are given", async () => {
+    mockYearlyDeathRate(0.1)
+
+    const forecast = await forecastMortality([actor(1)], { asOf: "2025-06-01" })
+
+    expect(forecast.projections.map((p) => p.year)).toEqual([2030, 2040, 2050])
+  })
+
+  it("orders milestone years from earliest to latest", async () => {
+    mockYearlyDeathRate(0.05)
+
+    const forecast = await forecastMortality([actor(1), actor(2), actor(3), actor(4)], {
+      asOf: "2025-01-01",
+    })
+
+    const [half, all] = forecast.milestones
+    expect(half.fraction).toBe(0.5)
+    expect(half.deathsRequired).toBe(2)
+    expect(half.reached).toBe(false)
+    expect(half.earliestYear).not.toBeNull()
+    expect(half.earliestYear!).toBeLessThanOrEqual(half.expectedYear!)
+    expect(half.expectedYear!).toBeLessThanOrEqual(half.latestYear!)
+    expect(all.deathsRequired).toBe(4)
+    expect(all.expectedYear!).toBeGreaterThan(half.expectedYear!)
+  })
+
+  it("counts deceased actors toward milestones", async () => {
+    mockYearlyDeathRate(0.1)
+
+    const forecast = await forecastMortality(
+      [actor(1, { deathday: "2000-05-01" }), actor(2, { deathday: "2010-05-01" }), actor(3)],
+      { asOf: "2025-01-01" }
+    )
+
+    expect(forecast.deceasedCount).toBe(2)
+    expect(forecast.livingCount).toBe(1)
+    expect(forecast.milestones[0]).toMatchObject({
+      deathsRequired: 2,
+      reached: true,
+      expectedYear: null,
+    })
+    expect(forecast.milestones[1].reached).toBe(false)
+  })
+
+  it("reaches milestones in the as-of year when every death is certain", async () => {
+    mockYearlyDeathRate(1)
+
+    const forecast = await forecastMortality([actor(1), actor(2)], { asOf: "2025-01-01" })
+
+    expect(forecast.milestones[1]).toMatchObject({
+      earliestYear: 2025,
+      expectedYear: 2025,
+      latestYear: 2025,
+    })
+  })
+
+  it("assumes living actors without a birthday survive", async () => {
+    mockYearlyDeathRate(0.1)
+
+    const forecast = await forecastMortality([actor(1), actor(2, { birthday: null })], {
+      asOf: "2025-01-01",
+    })
+
+    expect(forecast.unknownAgeCount).toBe(1)
+    expect(forecast.milestones[0].expectedYear).not.toBeNull()
+    expect(forecast.milestones[1]).toMatchObject({
+      reached: false,
+      earliestYear: null,
+      expectedYear: null,
+      latestYear: null,
+    })
+  })
+
+  it("uses each actor's life table country and birth cohort", async () => {
+    mockYearlyDeathRate(0.1)
+    vi.mocked(mortalityStats.resolveLifeTableCountry).mockReturnValue("GB")
+
+    await forecastMortality([actor(1, { birthday: "1960-07-02", birthCountry: "GB" })], {
+      asOf: "2025-01-01",
+      years: [2030],
+    })
+
+    expect(mortalityStats.resolveLifeTableCountry).toHaveBeenCalledWith("GB")
+    expect(mortalityStats.getSurvivalTable).toHaveBeenCalledWith("male", 1960, "GB")
+  })
+
+  it("returns an empty forecast for no actors", async () => {
+    const forecast = await forecastMortality([], { asOf: "2025-01-01", years: [2030] })
+
+    expect(forecast.totalCount).toBe(0)
+    expect(forecast.projections).toEqual([
+      { year: 2030, expectedDeaths: 0, expectedDeathsLow: 0, expectedDeathsHigh: 0 },
+    ])
+    expect(forecast.milestones.every((m) => !m.reached)).toBe(true)
+  })
+
+  it("rejects an invalid as-of date", async () => {
+    await expect(forecastMortality([actor(1)], { asOf: "not-a-date" })).rejects.toThrow(
+      "Invalid as-of date"
+    )
+  })
+})
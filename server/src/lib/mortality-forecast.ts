@@ -0,0 +1,192 @@
+/**
+ * Forecasts of future deaths among a group of actors (a movie's cast, or the
+ * Death Watch list).
+ *
+ * Each living actor's probability of dying by the end of a future year comes
+ * from their survival table, the same one the expected-deaths calculation uses. Deaths are independent, so the number of deaths
+ * by any year follows a Poisson-binomial distribution, which gives both the
+ * 95% range for "deaths by 2040" and the distribution of the year a milestone
+ * (such as half the cast having died) is reached.
+ */
+
+import { formatDate, toDecimalYear } from "./date-utils.js"
+import {
+  deathProbabilityFromTable,
+  getSurvivalTable,
+  loadLifeTables,
+  resolveLifeTableCountry,
+  type ActorForMortality,
+  type SurvivalTable,
+} from "./mortality-stats.js"
+import {
+  poissonBinomialPmf,
+  poissonBinomialQuantile,
+  SIGNIFICANCE_LEVEL,
+} from "./mortality-significance.js"
+
+// Life tables end at age 120, so nobody alive now survives past this horizon
+const MAX_FORECAST_YEARS = 120
+
+/** Number of decades ahead projected by default (e.g. 2030, 2040, 2050) */
+const DEFAULT_DECADES = 3
+
+export interface DeathsProjection {
+  year: number
+  expectedDeaths: number // Expected deaths among the living by the end of the year
+  expectedDeathsLow: number // 95% range
+  expectedDeathsHigh: number
+}
+
+export interface MortalityMilestone {
+  fraction: number // Share of the whole group that has died, e.g. 0.5 for half
+  deathsRequired: number // Total deaths (including those already dead) to reach it
+  reached: boolean // Already reached
+  expectedYear: number | null // Year by which it is more likely than not to be reached
+  earliestYear: number | null // 95% range of the year it is reached
+  latestYear: number | null
+}
+
+export interface MortalityForecast {
+  totalCount: number
+  deceasedCount: number
+  livingCount: number
+  unknownAgeCount: number // Living actors without a birthday, assumed to survive
+  projections: DeathsProjection[]
+  milestones: MortalityMilestone[]
+}
+
+/** Milestones reported by default: half of the group, and all of it */
+export const DEFAULT_MILESTONE_FRACTIONS = [0.5, 1]
+
+/**
+ * Default projection years: the next few decade boundaries after the as-of year.
+ */
+export function getDefaultProjectionYears(asOfYear: number): number[] {
+  const nextDecade = Math.floor(asOfYear / 10) * 10 + 10
+  return Array.from({ length: DEFAULT_DECADES }, (_, i) => nextDecade + i * 10)
+}
+
+/**
+ * Forecast deaths among a group of actors.
+ *
+ * Deceased actors count toward milestones but aren't simulated. Living actors
+ * without a birthday can't be placed on a life table and are assumed to survive,
+ * so milestones that depend on them may never be reached (null years).
+ *
+ * @param actors Living and deceased actors
+ * @param options.asOf Date to forecast from (defaults to today)
+ * @param options.years Years to project expected deaths for (defaults to the next 3 decades)
+ * @param options.milestoneFractions Shares of the group whose deaths are milestones
+ */
+export async function forecastMortality(
+  actors: ActorForMortality[],
+  options: { asOf?: string; years?: number[]; milestoneFractions?: number[] } = {}
+): Promise<MortalityForecast> {
+  const asOf = options.asOf ?? formatDate(new Date())
+  const asOfPoint = toDecimalYear(asOf)
+  if (asOfPoint === null) {
+    throw new Error(`Invalid as-of date (${asOf})`)
+  }
+  const asOfYear = Math.floor(asOfPoint)
+  const projectionYears = new Set(options.years ?? getDefaultProjectionYears(asOfYear))
+  const milestoneFractions = options.milestoneFractions ?? DEFAULT_MILESTONE_FRACTIONS
+
+  const deceasedCount = actors.filter((a) => a.deathday !== null).length
+  const living = actors.filter((a) => a.deathday === null)
+
+  await loadLifeTables()
+
+  // Per-actor survival, advanced a year at a time
+  const tracked: Array<{
+    table: SurvivalTable
+    birthPoint: number
+    exposedUntil: number
+    survival: number
+  }> = []
+  for (const actor of living) {
+    const birthPoint = actor.birthday ? toDecimalYear(actor.birthday) : null
+    if (birthPoint === null || birthPoint > asOfPoint) continue
+    tracked.push({
+      table: getSurvivalTable(
+        actor.gender,
+        Math.floor(birthPoint),
+        resolveLifeTableCountry(actor.birthCountry)
+      ),
+      birthPoint,
+      exposedUntil: asOfPoint,
+      survival: 1,
+    })
+  }
+
+  const alpha = SIGNIFICANCE_LEVEL / 2
+  const milestones: MortalityMilestone[] = milestoneFractions.map((fraction) => {
+    const deathsRequired = Math.ceil(fraction * actors.length)
+    return {
+      fraction,
+      deathsRequired,
+      reached: actors.length > 0 && deceasedCount >= deathsRequired,
+      expectedYear: null,
+      earliestYear: null,
+      latestYear: null,
+    }
+  })
+
+  const projections: DeathsProjection[] = []
+  const lastYear = Math.max(asOfYear + MAX_FORECAST_YEARS, ...projectionYears)
+
+  for (let year = asOfYear; year <= lastYear; year++) {
+    // Probability of dying between now and the end of this year
+    const endOfYear = year + 1
+    for (const entry of tracked) {
+      if (endOfYear <= entry.exposedUntil) continue
+      const stepDeathProbability = deathProbabilityFromTable(
+        entry.table,
+        entry.exposedUntil - entry.birthPoint,
+        endOfYear - entry.birthPoint
+      )
+      entry.survival *= 1 - stepDeathProbability
+      entry.exposedUntil = endOfYear
+    }
+
+    const deathProbabilities = tracked.map((entry) => 1 - entry.survival)
+    const pmf = poissonBinomialPmf(deathProbabilities)
+
+    if (projectionYears.has(year)) {
+      projections.push({
+        year,
+        expectedDeaths: Math.round(deathProbabilities.reduce((sum, p) => sum + p, 0) * 100) / 100,
+        expectedDeathsLow: poissonBinomialQuantile(pmf, alpha),
+        expectedDeathsHigh: poissonBinomialQuantile(pmf, 1 - alpha),
+      })
+    }
+
+    // A milestone is reached by this year with probability P(future deaths >= needed)
+    for (const milestone of milestones) {
+      if (milestone.reached || milestone.latestYear !== null) continue
+      const needed = milestone.deathsRequired - deceasedCount
+      const probabilityReached = pmf.slice(needed).reduce((sum, p) => sum + p, 0)
+      if (milestone.earliestYear === null && probabilityReached >= alpha) {
+        milestone.earliestYear = year
+      }
+      if (milestone.expectedYear === null && probabilityReached >= 0.5) {
+        milestone.expectedYear = year
+      }
+      if (probabilityReached >= 1 - alpha) {
+        milestone.latestYear = year
+      }
+    }
+
+    const pendingMilestones = milestones.some((m) => !m.reached && m.latestYear === null)
+    const pendingProjections = [...projectionYears].some((y) => y > year)
+    if (!pendingMilestones && !pendingProjections) break
+  }
+
+  return {
+    totalCount: actors.length,
+    deceasedCount,
+    livingCount: living.length,
+    unknownAgeCount: living.length - tracked.length,
+    projections: projections.sort((a, b) => a.year - b.year),
+    milestones,
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest"
+import {
+  calculateFunnelLimits,
+  estimateShrinkagePrior,
+  poissonQuantile,
+  shrinkMortalityRatio,
+  type MortalityPopulation,
+} from "./mortality-shrinkage.js"
+
+// Builds population totals from [deaths, expected] pairs
+function population(movies: Array<[number, number]>): MortalityPopulation {
+  return {
+    movieCount: movies.length,
+    totalDeaths: movies.reduce((sum, [d]) => sum + d, 0),
+    totalExpectedDeaths: movies.reduce((sum, [, e]) => sum + e, 0),
+    sumDeathsSquaredOverExpected: movies.reduce((sum, [d, e]) => sum + (d * d) / e, 0),
+  }
+}
+
+describe("estimateShrinkagePrior", () => {
+  it("centres the prior on total deaths over total expected deaths", () => {
+    const prior = estimateShrinkagePrior(
+      population([
+        [2, 1],
+        [10, 8],
+        [30, 20],
+      ])
+    )
+
+    expect(prior).not.toBeNull()
+    expect(prior!.mean).toBeCloseTo(42 / 29, 6)
+    expect(prior!.alpha).toBeCloseTo((prior!.mean * prior!.mean) / prior!.variance, 6)
+    expect(prior!.beta).toBeCloseTo(prior!.mean / prior!.variance, 6)
+  })
+
+  it("estimates more between-movie variance when SMRs are more spread out", () => {
+    const tight = estimateShrinkagePrior(
+      population([
+        [9, 10],
+        [11, 10],
+        [10, 10],
+      ])
+    )
+    const spread = estimateShrinkagePrior(
+      population([
+        [2, 10],
+        [25, 10],
+        [3, 10],
+      ])
+    )
+
+    expect(spread!.variance).toBeGreaterThan(tight!.variance)
+  })
+
+  it("floors the variance when variation is no more than Poisson noise", () => {
+    const prior = estimateShrinkagePrior(
+      population([
+        [10, 10],
+        [10, 10],
+      ])
+    )
+
+    expect(prior!.variance).toBe(1e-4)
+  })
+
+  it("returns null for an empty population", () => {
+    expect(estimateShrinkagePrior(population([]))).toBeNull()
+  })
+})
+
+describe("shrinkMortalityRatio", () => {
+  const prior = { mean: 1, variance: 0.25, alpha: 4, beta: 4 }
+
+  it("pulls small casts strongly toward the population mean", () => {
+    // Raw SMR of 3 from a single expected death
+    expect(shrinkMortalityRatio(3, 1, prior)).toBeCloseTo(7 / 5, 6)
+  })
+
+  it("leaves movies with many expected deaths close to their raw SMR", () => {
+    // Raw SMR of 1.5 from 100 expected deaths
+    expect(shrinkMortalityRatio(150, 100, prior)).toBeCloseTo(154 / 104, 6)
+  })
+
+  it("can rank a large cast above a small cast with a higher raw SMR", () => {
+    const smallCast = shrinkMortalityRatio(3, 1, prior)
+    const largeCast = shrinkMortalityRatio(150, 100, prior)
+
+    expect(largeCast).toBeGreaterThan(smallCast)
+  })
+})
+
+describe("poissonQuantile", () => {
+  it("returns the smallest count reaching the probability", () => {
+    // P(X = 0) for mean 1 is e^-1 ≈ 0.368, P(X <= 1) ≈ 0.736
+    expect(poissonQuantile(1, 0.3)).toBe(0)
+    expect(poissonQuantile(1, 0.5)).toBe(1)
+    expect(poissonQuantile(1, 0.975)).toBe(3)
+  })
+
+  it("returns 0 for a zero mean", () => {
+    expect(poissonQuantile(0, 0.999)).toBe(0)
+  })
+
+  it("handles means too large for e^-mean", () => {
+    // Near-normal: median at the mean, 97.5% about 1.96 standard deviations above
+    expect(poissonQuantile(1000, 0.5)).toBe(1000)
+    expect(poissonQuantile(1000, 0.975)).toBeGreaterThanOrEqual(1060)
+    expect(poissonQuantile(1000, 0.975)).toBeLessThanOrEqual(1064)
+    expect(poissonQuantile(1000, 0.001)).toBeGreaterThan(900)
+  })
+})
+
+describe("calculateFunnelLimits", () => {
+  it("narrows the limits as expected deaths grow", () => {
+    const limits = calculateFunnelLimits(1, 50)
+    const first = limits[0]
+    const last = limits[limits.length - 1]
+
+    expect(last.expectedDeaths).toBe(50)
+    expect(first.upper95 - first.lower95).toBeGreaterThan(last.upper95 - last.lower95)
+  })
+
+  it("nests the 95% limits inside the 99.8% limits around the mean", () => {
+    for (const limit of calculateFunnelLimits(1.2, 20)) {
+      expect(limit.lower998).toBeLessThanOrEqual(limit.lower95)
+      expect(limit.upper998).toBeGreaterThanOrEqual(limit.upper95)
+      expect(limit.lower95).toBeLessThanOrEqual(1.2)
+      expect(limit.upper95).toBeGreaterThanOrEqual(1.2)
+    }
+  })
+
+  it("returns no limits without expected deaths", () => {
+    expect(calculateFunnelLimits(1, 0)).toEqual([])
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Empirical-Bayes shrinkage of movie mortality for the Cursed Movies leaderboard.
+ *
+ * A movie's standardized mortality ratio (SMR) is actual deaths divided by expected
+ * deaths. Small casts with one unexpected death get extreme SMRs by chance alone,
+ * so raw SMRs (and surprise scores, which are SMR - 1) overrate them.
+ *
+ * Deaths are modelled as Poisson(theta * expected), with each movie's true ratio
+ * theta drawn from a gamma distribution fitted to all movies by the method of
+ * moments (Marshall, 1991). The posterior mean, (actual + alpha) / (expected + beta),
+ * pulls movies with few expected deaths toward the population mean and leaves
+ * movies with many expected deaths close to their raw SMR.
+ *
+ * The funnel plot shows the same idea visually: SMR against expected deaths, with
+ * the range of SMRs a movie at the population mean would show by chance.
+ */
+
+/**
+ * Totals over every movie in the population, as returned by getMortalityPopulation
+ */
+export interface MortalityPopulation {
+  movieCount: number
+  totalDeaths: number
+  totalExpectedDeaths: number
+  sumDeathsSquaredOverExpected: number // Sum of actual^2 / expected
+}
+
+/**
+ * Gamma prior for movies' true mortality ratios
+ */
+export interface ShrinkagePrior {
+  mean: number // Population SMR: total deaths / total expected deaths
+  variance: number // Between-movie variance of true SMRs
+  alpha: number // Gamma shape: mean^2 / variance
+  beta: number // Gamma rate: mean / variance
+}
+
+// Floor on the between-movie variance. With no detectable variation every movie
+// would shrink all the way to the mean; keeping a tiny variance preserves an order.
+const MIN_PRIOR_VARIANCE = 1e-4
+
+/** Confidence levels of the funnel plot's control limits */
+export const FUNNEL_LEVELS = [0.95, 0.998] as const
+
+/** Number of points along each funnel limit */
+const FUNNEL_POINTS = 60
+
+/**
+ * Fit the gamma prior to a population of movies by the method of moments.
+ *
+ * The weighted variance of raw SMRs around the mean, less the Poisson noise
+ * expected from the average movie's expected deaths, estimates the true
+ * between-movie variance.
+ *
+ * @returns The prior, or null if the population has no expected deaths
+ */
+export function estimateShrinkagePrior(population: MortalityPopulation): ShrinkagePrior | null {
+  const { movieCount, totalDeaths, totalExpectedDeaths, sumDeathsSquaredOverExpected } = population
+  if (movieCount === 0 || totalExpectedDeaths <= 0) return null
+
+  const mean = totalDeaths / totalExpectedDeaths
+  // Sum of expected * (SMR - mean)^2, expanded so it can be computed from totals
+  const weightedSquares =
+    sumDeathsSquaredOverExpected - 2 * mean * totalDeaths + mean * mean * totalExpectedDeaths
+  const averageExpected = totalExpectedDeaths / movieCount
+  const variance = Math.max(
+    weightedSquares / totalExpectedDeaths - mean / averageExpected,
+    MIN_PRIOR_VARIANCE
+  )
+
+  return {
+    mean,
+    variance,
+    alpha: (mean * mean) / variance,
+    beta: mean / variance,
+  }
+}
+
+/**
+ * Posterior mean SMR for a movie: its raw SMR shrunk toward the population mean.
+ */
+export function shrinkMortalityRatio(
+  deaths: number,
+  expectedDeaths: number,
+  prior: ShrinkagePrior
+): number {
+  return (deaths + prior.alpha) / (expectedDeaths + prior.beta)
+}
+
+/**
+ * Smallest count k with P(X <= k) >= p for X ~ Poisson(mean)
+ */
+export function poissonQuantile(mean: number, p: number): number {
+  if (mean <= 0) return 0
+
+  // Step the pmf in log space: e^-mean underflows to 0 for means above ~745, which
+  // would leave the sum stuck at 0. Terms that underflow are negligible anyway.
+  let k = 0
+  let logProbability = -mean
+  let probability = Math.exp(logProbability)
+  let cumulative = probability
+  while (cumulative < p) {
+    k++
+    logProbability += Math.log(mean / k)
+    probability = Math.exp(logProbability)
+    cumulative += probability
+    // Guard against rounding leaving the sum just short of p in the far tail
+    if (probability < 1e-15 && k > mean) break
+  }
+  return k
+}
+
+/**
+ * Funnel plot control limits at one number of expected deaths
+ */
+export interface FunnelLimit {
+  expectedDeaths: number
+  lower95: number // SMR range a movie at the population mean shows 95% of the time
+  upper95: number
+  lower998: number // 99.8% range
+  upper998: number
+}
+
+/**
+ * Control limits for a funnel plot of SMR against expected deaths, from just above
+ * zero to the largest expected deaths plotted. Limits are the Poisson range of deaths
+ * for a movie whose true SMR is the population mean, divided by expected deaths.
+ *
+ * @param mean Population SMR
+ * @param maxExpectedDeaths Largest expected deaths among the plotted movies
+ */
+export function calculateFunnelLimits(mean: number, maxExpectedDeaths: number): FunnelLimit[] {
+  if (maxExpectedDeaths <= 0) return []
+
+  const [level95, level998] = FUNNEL_LEVELS
+  const limits: FunnelLimit[] = []
+  for (let i = 1; i <= FUNNEL_POINTS; i++) {
+    const expectedDeaths = (maxExpectedDeaths * i) / FUNNEL_POINTS
+    const deathsMean = mean * expectedDeaths
+    const ratio = (deaths: number) => Math.round((deaths / expectedDeaths) * 1000) / 1000
+    limits.push({
+      expectedDeaths: Math.round(expectedDeaths * 100) / 100,
+      lower95: ratio(poissonQuantile(deathsMean, (1 - level95) / 2)),
+      upper95: ratio(poissonQuantile(deathsMean, 1 - (1 - level95) / 2)),
+      lower998: ratio(poissonQuantile(deathsMean, (1 - level998) / 2)),
+      upper998: ratio(poissonQuantile(deathsMean, 1 - (1 - level998) / 2)),
+    })
+  }
+  return limits
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest"
+import {
+  poissonBinomialPmf,
+  calculateMortalitySignificance,
+  SIGNIFICANCE_LEVEL,
+} from "./mortality-significance.js"
+
+describe("mortality-significance", () => {
+  describe("poissonBinomialPmf", () => {
+    it("returns certainty of zero deaths for an empty cast", () => {
+      expect(poissonBinomialPmf([])).toEqual([1])
+    })
+
+    it("matches the binomial distribution when probabilities are equal", () => {
+      const pmf = poissonBinomialPmf([0.5, 0.5, 0.5])
+
+      expect(pmf).toHaveLength(4)
+      expect(pmf[0]).toBeCloseTo(0.125, 10)
+      expect(pmf[1]).toBeCloseTo(0.375, 10)
+      expect(pmf[2]).toBeCloseTo(0.375, 10)
+      expect(pmf[3]).toBeCloseTo(0.125, 10)
+    })
+
+    it("handles mixed probabilities", () => {
+      const pmf = poissonBinomialPmf([0.1, 0.6])
+
+      expect(pmf[0]).toBeCloseTo(0.9 * 0.4, 10)
+      expect(pmf[1]).toBeCloseTo(0.1 * 0.4 + 0.9 * 0.6, 10)
+      expect(pmf[2]).toBeCloseTo(0.1 * 0.6, 10)
+    })
+
+    it("sums to 1", () => {
+      const pmf = poissonBinomialPmf([0.05, 0.2, 0.33, 0.7, 0.91, 0.4])
+      const total = pmf.reduce((sum, p) => sum + p, 0)
+
+      expect(total).toBeCloseTo(1, 10)
+    })
+
+    it("clamps probabilities outside [0, 1]", () => {
+      expect(poissonBinomialPmf([-0.5, 1.5])).toEqual([0, 1, 0])
+    })
+  })
+
+  describe("calculateMortalitySignificance", () => {
+    it("is not significant when actual deaths match expectations", () => {
+      const probabilities = new Array(20).fill(0.25) // 5 expected deaths
+      const result = calculateMortalitySignificance(probabilities, 5)
+
+      expect(result.pValue).toBeGreaterThan(SIGNIFICANCE_LEVEL)
+      expect(result.isSignificant).toBe(false)
+      expect(result.intervalLow).toBeLessThanOrEqual(5)
+      expect(result.intervalHigh).toBeGreaterThanOrEqual(5)
+    })
+
+    it("flags far more deaths than expected as significant", () => {
+      const probabilities = new Array(20).fill(0.05) // 1 expected death
+      const result = calculateMortalitySignificance(probabilities, 8)
+
+      expect(result.pValue).toBeLessThan(0.001)
+      expect(result.isSignificant).toBe(true)
+      expect(result.intervalHigh).toBeLessThan(8)
+    })
+
+    it("flags far fewer deaths than expected as significant", () => {
+      const probabilities = new Array(20).fill(0.8) // 16 expected deaths
+      const result = calculateMortalitySignificance(probabilities, 6)
+
+      expect(result.isSignificant).toBe(true)
+      expect(result.intervalLow).toBeGreaterThan(6)
+    })
+
+    it("treats a single death in a tiny cast as within normal variation", () => {
+      const result = calculateMortalitySignificance([0.2, 0.2, 0.2], 1)
+
+      expect(result.isSignificant).toBe(false)
+    })
+
+    it("computes an exact two-sided p-value", () => {
+      // Binomial(3, 0.5): P(X >= 3) = 0.125, so two-sided p = 0.25
+      const result = calculateMortalitySignificance([0.5, 0.5, 0.5], 3)
+
+      expect(result.pValue).toBe(0.25)
+      expect(result.intervalLow).toBe(0)
+      expect(result.intervalHigh).toBe(3)
+    })
+
+    it("returns a p-value of 1 for an empty cast", () => {
+      expect(calculateMortalitySignificance([], 0)).toEqual({
+        pValue: 1,
+        intervalLow: 0,
+        intervalHigh: 0,
+        isSignificant: false,
+      })
+    })
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Statistical significance for movie cast mortality.
+ *
+ * Each cast member dies (or not) independently with their own actuarial
+ * probability, so the number of deaths in a cast follows a Poisson-binomial
+ * distribution. Comparing the actual death count against that distribution
+ * tells us whether a cast's mortality is genuinely unusual or just noise -
+ * one death in a 3-person cast is far less surprising than ten in a cast of 30.
+ *
+ * These are pure functions with no database access.
+ */
+
+/** Two-sided significance level used to flag a movie as statistically unusual */
+export const SIGNIFICANCE_LEVEL = 0.05
+
+export interface MortalitySignificance {
+  pValue: number // Two-sided p-value for the actual death count
+  intervalLow: number // Lower bound of the 95% interval of deaths expected by chance
+  intervalHigh: number // Upper bound of the 95% interval of deaths expected by chance
+  isSignificant: boolean // pValue < SIGNIFICANCE_LEVEL
+}
+
+/**
+ * Calculate the probability mass function of a Poisson-binomial distribution.
+ *
+ * Uses the standard O(n^2) dynamic programming recurrence, adding one
+ * independent trial at a time.
+ *
+ * @param probabilities Success (death) probability for each trial (actor)
+ * @returns Array where index k is the probability of exactly k deaths
+ */
+export function poissonBinomialPmf(probabilities: number[]): number[] {
+  let pmf = [1]
+
+  for (const rawP of probabilities) {
+    const p = Math.min(1, Math.max(0, rawP))
+    const next = new Array<number>(pmf.length + 1).fill(0)
+    for (let k = 0; k < pmf.length; k++) {
+      next[k] += pmf[k] * (1 - p)
+      next[k + 1] += pmf[k] * p
+    }
+    pmf = next
+  }
+
+  return pmf
+}
+
+/**
+ * Find the smallest death count whose cumulative probability reaches the target.
+ *
+ * @param pmf Probability mass function from poissonBinomialPmf
+ * @param target Cumulative probability, e.g. 0.975 for the upper end of a 95% interval
+ */
+export function poissonBinomialQuantile(pmf: number[], target: number): number {
+  let cumulative = 0
+  for (let k = 0; k < pmf.length; k++) {
+    cumulative += pmf[k]
+    // Small tolerance so floating point drift doesn't push us past the true quantile
+    if (cumulative >= target - 1e-12) return k
+  }
+  return pmf.length - 1
+}
+
+/**
+ * Test whether an actual death count is unusual given each actor's death probability.
+ *
+ * The p-value is two-sided: twice the smaller of P(X >= actual) and P(X <= actual),
+ * capped at 1. The interval is the central 95% range of death counts under the
+ * actuarial model - counts inside it are "within normal variation".
+ *
+ * @param probabilities Per-actor probability of having died by now
+ * @param actualDeaths Observed number of deaths among those actors
+ */
+export function calculateMortalitySignificance(
+  probabilities: number[],
+  actualDeaths: number
+): MortalitySignificance {
+  const pmf = poissonBinomialPmf(probabilities)
+  const clampedDeaths = Math.max(0, Math.min(actualDeaths, pmf.length - 1))
+
+  let lowerTail = 0 // P(X <= actual)
+  let upperTail = 0 // P(X >= actual)
+  for (let k = 0; k < pmf.length; k++) {
+    if (k <= clampedDeaths) lowerTail += pmf[k]
+    if (k >= clampedDeaths) upperTail += pmf[k]
+  }
+
+  const pValue = Math.min(1, 2 * Math.min(lowerTail, upperTail))
+  const alpha = SIGNIFICANCE_LEVEL / 2
+
+  return {
+    pValue: Math.round(pValue * 1000000) / 1000000,
+    intervalLow: poissonBinomialQuantile(pmf, alpha),
+    intervalHigh: poissonBinomialQuantile(pmf, 1 - alpha),
+    isSignificant: pValue < SIGNIFICANCE_LEVEL,
+  }
+}
@@ -1,10 +1,22 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest"
 import {
+  buildSurvivalTable,
   calculateCumulativeDeathProbability,
   calculateMovieMortality,
+  calculateSurvivalCurve,
   calculateYearsLost,
   clearActuarialCache,
+  deathProbabilityFromTable,
+  getActuarialGender,
+  getSurvivalTable,
+  interpolateCohortQx,
+  loadLifeTables,
+  MORTALITY_MODEL,
+  scoreDeathRisks,
+  scoreMovieMortality,
+  scoreYearsLost,
   type ActorForMortality,
+  type CohortQxCurve,
 } from "./mortality-stats.js"
 
 // Note: These tests require a database connection with actuarial data seeded
@@ -19,6 +31,88 @@ describe("mortality-stats", () => {
     clearActuarialCache()
   })
 
+  describe("getActuarialGender", () => {
+    it("maps TMDB female and male codes to sex-specific tables", () => {
+      expect(getActuarialGender(1)).toBe("female")
+      expect(getActuarialGender(2)).toBe("male")
+    })
+
+    it("falls back to combined for unknown or non-binary gender", () => {
+      expect(getActuarialGender(0)).toBe("combined")
+      expect(getActuarialGender(3)).toBe("combined")
+      expect(getActuarialGender(null)).toBe("combined")
+      expect(getActuarialGender(undefined)).toBe("combined")
+    })
+  })
+
+  describe("interpolateCohortQx", () => {
+    const curves: CohortQxCurve[] = [
+      { birthYear: 1900, qx: [0.1, 0.02, 0.01] },
+      { birthYear: 1910, qx: [0.06, 0.01] },
+      { birthYear: 1920, qx: [0.04, 0.008, 0.004] },
+    ]
+
+    it("returns the exact cohort value for a cohort birth year", () => {
+      expect(interpolateCohortQx(curves, 1910, 0)).toBe(0.06)
+    })
+
+    it("interpolates linearly between surrounding cohorts", () => {
+      expect(interpolateCohortQx(curves, 1905, 0)).toBeCloseTo(0.08, 10)
+      expect(interpolateCohortQx(curves, 1915, 1)).toBeCloseTo(0.009, 10)
+    })
+
+    it("clamps to the nearest cohort outside the available range", () => {
+      expect(interpolateCohortQx(curves, 1880, 0)).toBe(0.1)
+      expect(interpolateCohortQx(curves, 1990, 2)).toBe(0.004)
+    })
+
+    it("uses the other cohort when one is missing the age", () => {
+      expect(interpolateCohortQx(curves, 1905, 2)).toBe(0.01)
+      expect(interpolateCohortQx(curves, 1915, 2)).toBe(0.004)
+    })
+
+    it("returns null when no cohort covers the age", () => {
+      expect(interpolateCohortQx(curves, 1950, 50)).toBeNull()
+      expect(interpolateCohortQx([], 1950, 0)).toBeNull()
+    })
+  })
+
+  describe("survival tables", () => {
+    const table = buildSurvivalTable([0.1, 0.2, 0.5])
+
+    it("matches the product of yearly survival for whole ages", () => {
+      expect(deathProbabilityFromTable(table, 0, 3)).toBeCloseTo(1 - 0.9 * 0.8 * 0.5, 10)
+      expect(deathProbabilityFromTable(table, 1, 2)).toBeCloseTo(0.2, 10)
+    })
+
+    it("applies partial years as a fractional power of yearly survival", () => {
+      expect(deathProbabilityFromTable(table, 0.5, 1.25)).toBeCloseTo(
+        1 - Math.pow(0.9, 0.5) * Math.pow(0.8, 0.25),
+        10
+      )
+    })
+
+    it("treats ages without a qx as carrying no risk", () => {
+      expect(deathProbabilityFromTable(table, 3, 50)).toBe(0)
+    })
+
+    it("returns 0 when the end age is not after the start age", () => {
+      expect(deathProbabilityFromTable(table, 2, 2)).toBe(0)
+      expect(deathProbabilityFromTable(table, 2, 1)).toBe(0)
+    })
+
+    it("returns 1 from inside a year of certain death", () => {
+      const certain = buildSurvivalTable([0.1, 1])
+      expect(deathProbabilityFromTable(certain, 0.5, 1.5)).toBe(1)
+      expect(deathProbabilityFromTable(certain, 1.5, 1.75)).toBe(1)
+    })
+
+    it("requires the life tables to be loaded", () => {
+      clearActuarialCache()
+      expect(() => getSurvivalTable("male", 1950)).toThrow("Life tables are not loaded")
+    })
+  })
+
   describe("calculateCumulativeDeathProbability", () => {
     it("returns 0 for same start and end age", async () => {
       const prob = await calculateCumulativeDeathProbability(50, 50)
@@ -48,8 +142,22 @@ describe("mortality-stats", () => {
   describe("calculateMovieMortality", () => {
     it("calculates mortality for a simple case", async () => {
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Living Actor", birthday: "1980-01-01", deathday: null },
-        { tmdbId: 2, name: "Deceased Actor", birthday: "1950-01-01", deathday: "2020-01-01" },
+        {
+          tmdbId: 1,
+          name: "Living Actor",
+          birthday: "1980-01-01",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
+        {
+          tmdbId: 2,
+          name: "Deceased Actor",
+          birthday: "1950-01-01",
+          deathday: "2020-01-01",
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2000, actors, 2024)
@@ -59,9 +167,56 @@ describe("mortality-stats", () => {
       expect(result.actorResults).toHaveLength(2)
     })
 
+    it("scales expected and actual deaths by actor weight", async () => {
+      const actors: ActorForMortality[] = [
+        {
+          tmdbId: 1,
+          name: "Lead",
+          birthday: "1940-01-01",
+          deathday: "2015-01-01",
+          gender: "male",
+          birthCountry: null,
+        },
+        {
+          tmdbId: 2,
+          name: "Bit Part",
+          birthday: "1950-01-01",
+          deathday: null,
+          gender: "female",
+          birthCountry: null,
+        },
+      ]
+
+      const unweighted = await calculateMovieMortality(2000, actors, 2024)
+      const weighted = await calculateMovieMortality(
+        2000,
+        [
+          { ...actors[0], weight: 1 },
+          { ...actors[1], weight: 0.25 },
+        ],
+        2024
+      )
+
+      const [lead, bitPart] = unweighted.actorResults
+      expect(weighted.actualDeaths).toBe(1)
+      expect(weighted.expectedDeaths).toBeCloseTo(
+        lead.deathProbability + 0.25 * bitPart.deathProbability,
+        2
+      )
+      // The significance test ignores weights
+      expect(weighted.significance).toEqual(unweighted.significance)
+    })
+
     it("calculates age at filming correctly", async () => {
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Test Actor", birthday: "1970-06-15", deathday: null },
+        {
+          tmdbId: 1,
+          name: "Test Actor",
+          birthday: "1970-06-15",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2000, actors, 2024)
@@ -70,9 +225,40 @@ describe("mortality-stats", () => {
       expect(result.actorResults[0].currentAge).toBe(54)
     })
 
+    it("uses exact dates for ages and exposure when the release date is known", async () => {
+      const actors: ActorForMortality[] = [
+        {
+          tmdbId: 1,
+          name: "December Birthday",
+          birthday: "1970-12-20",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
+      ]
+
+      const exact = await calculateMovieMortality("2000-06-01", actors, "2024-06-01")
+      const longer = await calculateMovieMortality("2000-01-01", actors, "2024-06-01")
+
+      // Birthday not yet reached on either date
+      expect(exact.actorResults[0].ageAtFilming).toBe(29)
+      expect(exact.actorResults[0].currentAge).toBe(53)
+      // Five extra months of exposure means a higher probability
+      expect(longer.actorResults[0].deathProbability).toBeGreaterThan(
+        exact.actorResults[0].deathProbability
+      )
+    })
+
     it("handles actors with missing birthdays", async () => {
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Unknown Birthday", birthday: null, deathday: null },
+        {
+          tmdbId: 1,
+          name: "Unknown Birthday",
+          birthday: null,
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2000, actors, 2024)
@@ -81,12 +267,64 @@ describe("mortality-stats", () => {
       expect(result.actorResults[0].deathProbability).toBe(0)
     })
 
+    it("uses sex-specific tables so men have higher expected mortality than women", async () => {
+      const result = await calculateMovieMortality(
+        1980,
+        [
+          {
+            tmdbId: 1,
+            name: "Male Actor",
+            birthday: "1930-01-01",
+            deathday: null,
+            gender: "male",
+            birthCountry: null,
+          },
+          {
+            tmdbId: 2,
+            name: "Female Actor",
+            birthday: "1930-01-01",
+            deathday: null,
+            gender: "female",
+            birthCountry: null,
+          },
+        ],
+        2000
+      )
+
+      const [male, female] = result.actorResults
+      expect(male.gender).toBe("male")
+      expect(female.gender).toBe("female")
+      expect(male.deathProbability).toBeGreaterThan(female.deathProbability)
+      expect(result.mortalityModel).toBe(MORTALITY_MODEL)
+    })
+
     it("calculates positive surprise score for more deaths than expected", async () => {
       // Old movie with young cast - most should still be alive
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Actor 1", birthday: "1980-01-01", deathday: "2010-01-01" },
-        { tmdbId: 2, name: "Actor 2", birthday: "1980-01-01", deathday: "2015-01-01" },
-        { tmdbId: 3, name: "Actor 3", birthday: "1980-01-01", deathday: null },
+        {
+          tmdbId: 1,
+          name: "Actor 1",
+          birthday: "1980-01-01",
+          deathday: "2010-01-01",
+          gender: "combined",
+          birthCountry: null,
+        },
+        {
+          tmdbId: 2,
+          name: "Actor 2",
+          birthday: "1980-01-01",
+          deathday: "2015-01-01",
+          gender: "combined",
+          birthCountry: null,
+        },
+        {
+          tmdbId: 3,
+          name: "Actor 3",
+          birthday: "1980-01-01",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2000, actors, 2024)
@@ -100,7 +338,14 @@ describe("mortality-stats", () => {
     it("excludes actor who died more than 3 years BEFORE movie was released (archived footage)", async () => {
       // Actor died 4 years before movie, so should be excluded as archived footage
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Archived Actor", birthday: "1913-09-24", deathday: "2012-05-25" },
+        {
+          tmdbId: 1,
+          name: "Archived Actor",
+          birthday: "1913-09-24",
+          deathday: "2012-05-25",
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2016, actors, 2025)
@@ -114,7 +359,14 @@ describe("mortality-stats", () => {
     it("includes actor who died within 3 years before movie release", async () => {
       // Actor died 2 years before movie - still should be counted (not archived footage)
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Recent Death", birthday: "1934-11-13", deathday: "2014-07-19" },
+        {
+          tmdbId: 1,
+          name: "Recent Death",
+          birthday: "1934-11-13",
+          deathday: "2014-07-19",
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2016, actors, 2025)
@@ -127,23 +379,35 @@ describe("mortality-stats", () => {
     it("handles actor who died SAME YEAR as movie release", async () => {
       // Garry Marshall case: born 1934, died 2016, in 2016 movie
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Same Year Death", birthday: "1934-11-13", deathday: "2016-07-19" },
+        {
+          tmdbId: 1,
+          name: "Same Year Death",
+          birthday: "1934-11-13",
+          deathday: "2016-07-19",
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2016, actors, 2025)
 
-      // ageAtFilming = 2016 - 1934 = 82
-      // ageAtDeath = 2016 - 1934 = 82
-      // With the fix: uses at least 1 year span, so calculates probability for age 82-83
+      // A year-only release is placed mid-year, so the July death still has
+      // a few weeks of exposure rather than zero
       expect(result.actualDeaths).toBe(1)
-      // Now properly calculates death probability > 0 for same-year deaths
       expect(result.actorResults[0].deathProbability).toBeGreaterThan(0)
     })
 
     it("handles very old actor at filming (103+ years old)", async () => {
       // Herb Jeffries case if he were still alive at filming
       const actors: ActorForMortality[] = [
-        { tmdbId: 1, name: "Very Old Actor", birthday: "1913-01-01", deathday: null },
+        {
+          tmdbId: 1,
+          name: "Very Old Actor",
+          birthday: "1913-01-01",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2016, actors, 2025)
@@ -163,19 +427,68 @@ describe("mortality-stats", () => {
       // Real case: Tempest Storm (2016 documentary)
       const actors: ActorForMortality[] = [
         // Tempest Storm - born 1928, died 2021 (5 years after movie)
-        { tmdbId: 1, name: "Tempest Storm", birthday: "1928-02-29", deathday: "2021-04-20" },
+        {
+          tmdbId: 1,
+          name: "Tempest Storm",
+          birthday: "1928-02-29",
+          deathday: "2021-04-20",
+          gender: "combined",
+          birthCountry: null,
+        },
         // Garry Marshall - born 1934, died 2016 (same year as movie)
-        { tmdbId: 2, name: "Garry Marshall", birthday: "1934-11-13", deathday: "2016-07-19" },
+        {
+          tmdbId: 2,
+          name: "Garry Marshall",
+          birthday: "1934-11-13",
+          deathday: "2016-07-19",
+          gender: "combined",
+          birthCountry: null,
+        },
         // Herb Jeffries - born 1913, died 2014 (2 years BEFORE the movie - within 3 year window)
-        { tmdbId: 3, name: "Herb Jeffries", birthday: "1913-09-24", deathday: "2014-05-25" },
+        {
+          tmdbId: 3,
+          name: "Herb Jeffries",
+          birthday: "1913-09-24",
+          deathday: "2014-05-25",
+          gender: "combined",
+          birthCountry: null,
+        },
         // Old Timer - born 1910, died 2010 (6 years BEFORE the movie!) - archived footage
-        { tmdbId: 7, name: "Old Timer", birthday: "1910-01-01", deathday: "2010-01-01" },
+        {
+          tmdbId: 7,
+          name: "Old Timer",
+          birthday: "1910-01-01",
+          deathday: "2010-01-01",
+          gender: "combined",
+          birthCountry: null,
+        },
         // Danielle - born 1975, still alive
-        { tmdbId: 4, name: "Danielle", birthday: "1975-12-03", deathday: null },
+        {
+          tmdbId: 4,
+          name: "Danielle",
+          birthday: "1975-12-03",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
         // Dita - born 1972, still alive
-        { tmdbId: 5, name: "Dita", birthday: "1972-09-28", deathday: null },
+        {
+          tmdbId: 5,
+          name: "Dita",
+          birthday: "1972-09-28",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
         // Fiona - born 1983, still alive
-        { tmdbId: 6, name: "Fiona", birthday: "1983-06-14", deathday: null },
+        {
+          tmdbId: 6,
+          name: "Fiona",
+          birthday: "1983-06-14",
+          deathday: null,
+          gender: "combined",
+          birthCountry: null,
+        },
       ]
 
       const result = await calculateMovieMortality(2016, actors, 2025)
@@ -205,6 +518,146 @@ describe("mortality-stats", () => {
       const oldTimerResult = result.actorResults.find((a) => a.name === "Old Timer")
       expect(oldTimerResult?.deathProbability).toBe(0)
     })
+
+    it("falls back to US tables for birth countries without a seeded table", async () => {
+      const base: ActorForMortality = {
+        tmdbId: 1,
+        name: "Actor",
+        birthday: "1940-06-15",
+        deathday: null,
+        gender: "male",
+        birthCountry: null,
+      }
+
+      const unknown = await calculateMovieMortality("1990-03-01", [base], "2020-03-01")
+      const unseeded = await calculateMovieMortality(
+        "1990-03-01",
+        [{ ...base, birthCountry: "ZZ" }],
+        "2020-03-01"
+      )
+
+      expect(unseeded.actorResults[0].lifeTableCountry).toBe("US")
+      expect(unseeded.nonUsLifeTableCount).toBe(0)
+      expect(unseeded.expectedDeaths).toBe(unknown.expectedDeaths)
+    })
+  })
+
+  describe("calculateSurvivalCurve", () => {
+    const actors: ActorForMortality[] = [
+      {
+        tmdbId: 1,
+        name: "Died Early",
+        birthday: "1950-01-01",
+        deathday: "2003-06-01",
+        gender: "male",
+        birthCountry: null,
+      },
+      {
+        tmdbId: 2,
+        name: "Still Alive",
+        birthday: "1960-01-01",
+        deathday: null,
+        gender: "female",
+        birthCountry: null,
+      },
+      {
+        tmdbId: 3,
+        name: "No Birthday",
+        birthday: null,
+        deathday: null,
+        gender: "combined",
+        birthCountry: null,
+      },
+    ]
+
+    it("returns one point per year since release", async () => {
+      const curve = await calculateSurvivalCurve("2000-03-01", actors, "2010-06-01")
+
+      expect(curve.castCount).toBe(2) // Actor without a birthday is left out
+      expect(curve.points).toHaveLength(11)
+      expect(curve.points[0]).toMatchObject({ year: 2000, yearsSinceRelease: 0 })
+      expect(curve.points[10]).toMatchObject({ year: 2010, yearsSinceRelease: 10 })
+    })
+
+    it("counts observed survivors from death dates", async () => {
+      const curve = await calculateSurvivalCurve("2000-03-01", actors, "2010-06-01")
+
+      expect(curve.points[3].observedLiving).toBe(2) // 2003-03-01, before the death
+      expect(curve.points[4].observedLiving).toBe(1) // 2004-03-01, after the death
+    })
+
+    it("has expected survivors declining over time within the band", async () => {
+      const curve = await calculateSurvivalCurve("2000-03-01", actors, "2010-06-01")
+
+      expect(curve.points[0].expectedLiving).toBe(2)
+      for (let i = 1; i < curve.points.length; i++) {
+        const point = curve.points[i]
+        expect(point.expectedLiving).toBeLessThanOrEqual(curve.points[i - 1].expectedLiving)
+        // The band is in whole cast members, so compare against the rounded expectation
+        expect(point.expectedLivingLow).toBeLessThanOrEqual(Math.ceil(point.expectedLiving))
+        expect(point.expectedLivingHigh).toBeGreaterThanOrEqual(Math.floor(point.expectedLiving))
+      }
+      expect(curve.points[10].expectedLiving).toBeLessThan(curve.points[1].expectedLiving)
+    })
+
+    it("matches the expected deaths from calculateMovieMortality at the last point", async () => {
+      const living = actors.filter((a) => a.deathday === null && a.birthday !== null)
+      const curve = await calculateSurvivalCurve("2000-03-01", living, "2010-03-01")
+      const mortality = await calculateMovieMortality("2000-03-01", living, "2010-03-01")
+
+      const last = curve.points[curve.points.length - 1]
+      expect(living.length - last.expectedLiving).toBeCloseTo(mortality.expectedDeaths, 2)
+    })
+  })
+
+  describe("synchronous scoring", () => {
+    it("scores a cast the same as calculateMovieMortality", async () => {
+      const actors: ActorForMortality[] = [
+        {
+          tmdbId: 1,
+          name: "Living Actor",
+          birthday: "1950-03-10",
+          deathday: null,
+          gender: "female",
+          birthCountry: null,
+        },
+        {
+          tmdbId: 2,
+          name: "Deceased Actor",
+          birthday: "1930-07-01",
+          deathday: "2005-11-20",
+          gender: "male",
+          birthCountry: null,
+        },
+      ]
+
+      const calculated = await calculateMovieMortality("1985-06-01", actors, "2024-01-01")
+      await loadLifeTables()
+      const scored = scoreMovieMortality("1985-06-01", actors, "2024-01-01")
+
+      expect(scored).toEqual(calculated)
+    })
+
+    it("scores one-year death risk like calculateCumulativeDeathProbability", async () => {
+      await loadLifeTables()
+      const [risk] = scoreDeathRisks([
+        { age: 80, birthYear: 1944, gender: "male", birthCountry: null },
+      ])
+
+      expect(risk.oneYearDeathProbability).toBeCloseTo(
+        await calculateCumulativeDeathProbability(80, 81, "male", 1944),
+        10
+      )
+      expect(risk.lifeExpectancy).toBeGreaterThan(0)
+    })
+
+    it("scores years lost the same as calculateYearsLost", async () => {
+      await loadLifeTables()
+
+      expect(scoreYearsLost("1970-01-01", "2010-01-01")).toEqual(
+        await calculateYearsLost("1970-01-01", "2010-01-01")
+      )
+    })
   })
 
   describe("calculateYearsLost", () => {
@@ -5,14 +5,61 @@
  * actuarial life tables. Uses US Social Security Administration Period Life Tables
  * and Cohort Life Tables.
  *
+ * Death probabilities come from the qx curve for the actor's own birth cohort,
+ * interpolated between the cohorts we have data for. Ages a cohort is missing use
+ * the 2022 period table; with no cohort curves seeded at all, loading fails rather
+ * than quietly scoring every movie with the period table under the cohort model.
+ * Actors born outside the US use their birth country's period table when one
+ * has been seeded into country_life_tables.
+ *
+ * Once loaded, each combination of country, gender and birth cohort is turned
+ * into a cumulative survival array indexed by age, so the probability of dying
+ * between any two ages is a constant-time lookup. The score* functions use these
+ * arrays synchronously to score a whole cast or leaderboard page in one pass;
+ * call loadLifeTables() first.
+ *
  * Key concepts:
  * - qx: Probability of dying within one year at age x
+ * - Cohort qx: qx for people born in a given year, as that cohort actually lived (and
+ *   is projected to live) through each age
  * - ex: Life expectancy at age x (remaining years expected to live)
  * - Cumulative survival: Probability of surviving from age A to age B
  * - Cohort life expectancy: Expected lifespan based on year of birth
  */
 
 import { getPool } from "./db.js"
+import { calculateAgeOnDate, formatDate, toDecimalYear } from "./date-utils.js"
+import {
+  calculateMortalitySignificance,
+  type MortalitySignificance,
+} from "./mortality-significance.js"
+
+/**
+ * Gender keys used by the actuarial and cohort life tables.
+ * "combined" is the average of male and female and is used when gender is unknown.
+ */
+export type ActuarialGender = "male" | "female" | "combined"
+
+/**
+ * Identifier for the model used to calculate expected mortality.
+ * Stored alongside movies.expected_deaths so rows calculated with an older
+ * model can be found and recomputed.
+ */
+export const MORTALITY_MODEL = "ssa-cohort-by-gender-exact-age-country"
+
+/** Country code for the US SSA tables in actuarial_life_tables */
+export const US_COUNTRY_CODE = "US"
+
+/**
+ * Map a TMDB gender code to an actuarial table gender.
+ * TMDB codes: 0 = not specified, 1 = female, 2 = male, 3 = non-binary.
+ * Anything other than 1 or 2 falls back to the combined table.
+ */
+export function getActuarialGender(tmdbGender: number | null | undefined): ActuarialGender {
+  if (tmdbGender === 1) return "female"
+  if (tmdbGender === 2) return "male"
+  return "combined"
+}
 
 interface ActuarialEntry {
   age: number
@@ -23,6 +70,21 @@ interface ActuarialEntry {
 // Cache for actuarial data (loaded once from DB)
 let actuarialCache: Map<string, ActuarialEntry[]> | null = null
 
+/**
+ * qx curve for a single birth cohort. qx[age] is the probability of dying
+ * within one year at that age; ages without data are undefined.
+ */
+export interface CohortQxCurve {
+  birthYear: number
+  qx: number[]
+}
+
+// Cache for cohort qx curves by gender, each sorted by birth year (loaded once from DB)
+let cohortQxCache: Map<string, CohortQxCurve[]> | null = null
+
+// Cache for non-US period qx curves: country code -> gender -> qx by age (loaded once from DB)
+let countryLifeTableCache: Map<string, Map<string, number[]>> | null = null
+
 // Cache for cohort life expectancy data (loaded once from database)
 interface CohortLifeExpectancyEntry {
   birthYear: number
@@ -76,10 +138,24 @@ async function loadCohortLifeExpectancy(): Promise<CohortLifeExpectancyEntry[]>
  */
 export async function getCohortLifeExpectancy(
   birthYear: number,
-  gender: "male" | "female" | "combined" = "combined"
+  gender: ActuarialGender = "combined"
 ): Promise<number> {
-  const data = await loadCohortLifeExpectancy()
+  return interpolateCohortLifeExpectancy(await loadCohortLifeExpectancy(), birthYear, gender)
+}
 
+/**
+ * Cohort life expectancy at birth from loaded data, or null if it isn't loaded
+ */
+function lookupCohortLifeExpectancy(birthYear: number, gender: ActuarialGender): number | null {
+  if (!cohortLifeExpectancyCache) return null
+  return interpolateCohortLifeExpectancy(cohortLifeExpectancyCache, birthYear, gender)
+}
+
+function interpolateCohortLifeExpectancy(
+  data: CohortLifeExpectancyEntry[],
+  birthYear: number,
+  gender: ActuarialGender
+): number {
   // Clamp to available data range
   const minYear = data[0].birthYear
   const maxYear = data[data.length - 1].birthYear
@@ -120,6 +196,7 @@ async function loadActuarialData(): Promise<Map<string, ActuarialEntry[]>> {
   }>(`
     SELECT age, gender, death_probability, life_expectancy
     FROM actuarial_life_tables
+    WHERE table_type = 'period'
     ORDER BY gender, age
   `)
 
@@ -146,13 +223,298 @@ async function loadActuarialData(): Promise<Map<string, ActuarialEntry[]>> {
   return actuarialCache
 }
 
+/**
+ * Load per-birth-cohort qx curves from the database into cache.
+ * @throws If no cohort tables have been seeded, since MORTALITY_MODEL depends on them
+ */
+async function loadCohortQxCurves(): Promise<Map<string, CohortQxCurve[]>> {
+  if (cohortQxCache) return cohortQxCache
+
+  const db = getPool()
+  const result = await db.query<{
+    birth_year: number
+    age: number
+    gender: string
+    death_probability: string
+  }>(`
+    SELECT birth_year, age, gender, death_probability
+    FROM actuarial_life_tables
+    WHERE table_type = 'cohort'
+    ORDER BY gender, birth_year, age
+  `)
+
+  if (result.rows.length === 0) {
+    throw new Error(
+      "No cohort life tables are seeded (actuarial_life_tables rows with table_type = 'cohort'). " +
+        "Add data/cohort-life-tables.json and run npm run seed:cohort-tables."
+    )
+  }
+
+  cohortQxCache = new Map()
+
+  for (const row of result.rows) {
+    if (!cohortQxCache.has(row.gender)) {
+      cohortQxCache.set(row.gender, [])
+    }
+    const curves = cohortQxCache.get(row.gender)!
+    let curve = curves[curves.length - 1]
+    if (!curve || curve.birthYear !== row.birth_year) {
+      curve = { birthYear: row.birth_year, qx: [] }
+      curves.push(curve)
+    }
+    curve.qx[row.age] = parseFloat(row.death_probability)
+  }
+
+  return cohortQxCache
+}
+
+/**
+ * Interpolate qx at an age for a birth year from a set of cohort curves.
+ *
+ * Linearly interpolates between the two cohorts surrounding the birth year,
+ * and clamps to the earliest/latest cohort outside the available range.
+ * If either surrounding cohort has no value for the age, the other is used.
+ *
+ * @param curves Cohort curves for one gender, sorted by birth year
+ * @param birthYear Year of birth
+ * @param age Integer age
+ * @returns Interpolated qx, or null if no cohort has data for this age
+ */
+export function interpolateCohortQx(
+  curves: CohortQxCurve[],
+  birthYear: number,
+  age: number
+): number | null {
+  if (curves.length === 0) return null
+
+  const first = curves[0]
+  const last = curves[curves.length - 1]
+
+  if (birthYear <= first.birthYear) return first.qx[age] ?? null
+  if (birthYear >= last.birthYear) return last.qx[age] ?? null
+
+  for (let i = 0; i < curves.length - 1; i++) {
+    const lower = curves[i]
+    const upper = curves[i + 1]
+    if (birthYear >= lower.birthYear && birthYear < upper.birthYear) {
+      const lowerQx = lower.qx[age]
+      const upperQx = upper.qx[age]
+      if (lowerQx === undefined) return upperQx ?? null
+      if (upperQx === undefined) return lowerQx
+
+      const ratio = (birthYear - lower.birthYear) / (upper.birthYear - lower.birthYear)
+      return lowerQx + ratio * (upperQx - lowerQx)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Load non-US period life tables from the database into cache.
+ * Countries without a seeded table are simply absent from the map.
+ */
+async function loadCountryLifeTables(): Promise<Map<string, Map<string, number[]>>> {
+  if (countryLifeTableCache) return countryLifeTableCache
+
+  const db = getPool()
+  const result = await db.query<{
+    country_code: string
+    age: number
+    gender: string
+    death_probability: string
+  }>(`
+    SELECT country_code, age, gender, death_probability
+    FROM country_life_tables
+    ORDER BY country_code, gender, age
+  `)
+
+  countryLifeTableCache = new Map()
+
+  for (const row of result.rows) {
+    if (!countryLifeTableCache.has(row.country_code)) {
+      countryLifeTableCache.set(row.country_code, new Map())
+    }
+    const byGender = countryLifeTableCache.get(row.country_code)!
+    if (!byGender.has(row.gender)) {
+      byGender.set(row.gender, [])
+    }
+    byGender.get(row.gender)![row.age] = parseFloat(row.death_probability)
+  }
+
+  return countryLifeTableCache
+}
+
+/**
+ * Pick the life table country for an actor's birth country.
+ * Returns the birth country if a table has been seeded for it, otherwise the US.
+ *
+ * @param birthCountry ISO 3166-1 alpha-2 code, or null if unknown
+ */
+export async function getLifeTableCountry(birthCountry: string | null): Promise<string> {
+  if (!birthCountry || birthCountry === US_COUNTRY_CODE) return US_COUNTRY_CODE
+
+  await loadCountryLifeTables()
+  return resolveLifeTableCountry(birthCountry)
+}
+
+/**
+ * Synchronous getLifeTableCountry, for use after loadLifeTables().
+ */
+export function resolveLifeTableCountry(birthCountry: string | null): string {
+  if (!birthCountry || birthCountry === US_COUNTRY_CODE) return US_COUNTRY_CODE
+  return countryLifeTableCache?.has(birthCountry) ? birthCountry : US_COUNTRY_CODE
+}
+
+/** Oldest age covered by the life tables */
+const MAX_TABLE_AGE = 120
+
+/**
+ * Precomputed survival for one life table (a country, gender and birth cohort).
+ * logSurvival[age] is the log of the probability of surviving from birth to that
+ * exact age, and logYearSurvival[age] the log of surviving the year of age from it.
+ */
+export interface SurvivalTable {
+  logSurvival: number[] // Ages 0 to 120
+  logYearSurvival: number[] // Ages 0 to 119
+}
+
+// Survival tables built so far, keyed by country, gender and birth year
+const survivalTableCache = new Map<string, SurvivalTable>()
+
+// Resolves once every table the synchronous score* functions use is in memory
+let lifeTablesPromise: Promise<void> | null = null
+
+/**
+ * Load every life table into memory. Must complete before calling the
+ * synchronous score* functions; later calls resolve immediately.
+ *
+ * Cohort life expectancy is optional: without it, years lost and life
+ * expectancy come back as null rather than failing the whole calculation.
+ */
+export function loadLifeTables(): Promise<void> {
+  if (!lifeTablesPromise) {
+    const loading = Promise.all([
+      loadActuarialData(),
+      loadCohortQxCurves(),
+      loadCountryLifeTables(),
+      loadCohortLifeExpectancy().catch(() => null),
+    ]).then(() => undefined)
+    // Let a later call retry if loading failed (e.g. the database was unavailable)
+    loading.catch(() => {
+      if (lifeTablesPromise === loading) lifeTablesPromise = null
+    })
+    lifeTablesPromise = loading
+  }
+  return lifeTablesPromise
+}
+
+/**
+ * Build a survival table from qx by age. Ages without a qx carry no risk.
+ *
+ * @param qxByAge qx for ages 0 to 119
+ */
+export function buildSurvivalTable(qxByAge: Array<number | null | undefined>): SurvivalTable {
+  const logSurvival = [0]
+  const logYearSurvival: number[] = []
+
+  for (let age = 0; age < MAX_TABLE_AGE; age++) {
+    const qx = qxByAge[age] ?? 0
+    logYearSurvival.push(Math.log(1 - qx))
+    logSurvival.push(logSurvival[age] + logYearSurvival[age])
+  }
+
+  return { logSurvival, logYearSurvival }
+}
+
+// Log of surviving from birth to a (possibly fractional) age
+function logSurvivalToAge(table: SurvivalTable, age: number): number {
+  if (age <= 0) return 0
+  if (age >= MAX_TABLE_AGE) return table.logSurvival[MAX_TABLE_AGE]
+
+  const wholeAge = Math.floor(age)
+  const fraction = age - wholeAge
+  // Partial years assume a constant force of mortality within the year of age,
+  // so surviving a fraction f of the year has probability (1 - qx)^f
+  const partialYear = fraction > 0 ? fraction * table.logYearSurvival[wholeAge] : 0
+  return table.logSurvival[wholeAge] + partialYear
+}
+
+/**
+ * Probability of dying between two (possibly fractional) ages, from a survival table.
+ * Anyone alive past an age with qx = 1 is treated as certain to die.
+ */
+export function deathProbabilityFromTable(
+  table: SurvivalTable,
+  startAge: number,
+  endAge: number
+): number {
+  if (startAge >= endAge) return 0
+
+  const logStart = logSurvivalToAge(table, startAge)
+  if (logStart === -Infinity) return 1
+  return 1 - Math.exp(logSurvivalToAge(table, endAge) - logStart)
+}
+
+/**
+ * Get the survival table for a gender, birth cohort and life table country,
+ * building and caching it on first use. Requires loadLifeTables().
+ *
+ * Each age's qx comes from the country's table when it isn't the US, then the
+ * birth cohort's curve, then the US period table, as described for
+ * calculateCumulativeDeathProbability.
+ *
+ * @param gender Gender for actuarial lookup
+ * @param birthYear Year of birth (null = period table only)
+ * @param country Life table country from getLifeTableCountry
+ */
+export function getSurvivalTable(
+  gender: ActuarialGender,
+  birthYear: number | null,
+  country: string = US_COUNTRY_CODE
+): SurvivalTable {
+  const key = `${country}|${gender}|${birthYear ?? "period"}`
+  const cached = survivalTableCache.get(key)
+  if (cached) return cached
+
+  if (!actuarialCache || !cohortQxCache || !countryLifeTableCache) {
+    throw new Error("Life tables are not loaded. Call loadLifeTables() first.")
+  }
+
+  const entries = actuarialCache.get(gender)
+  if (!entries || entries.length === 0) {
+    throw new Error(`No actuarial data found for gender: ${gender}`)
+  }
+
+  const periodQx: number[] = []
+  for (const entry of entries) {
+    periodQx[entry.age] = entry.death_probability
+  }
+  const cohortCurves = birthYear !== null ? cohortQxCache.get(gender) : undefined
+  const countryQx =
+    country !== US_COUNTRY_CODE ? countryLifeTableCache.get(country)?.get(gender) : undefined
+
+  const qxByAge: Array<number | null> = []
+  for (let age = 0; age < MAX_TABLE_AGE; age++) {
+    let qx = countryQx?.[age] ?? null
+    if (qx === null && cohortCurves && birthYear !== null) {
+      qx = interpolateCohortQx(cohortCurves, birthYear, age)
+    }
+    qxByAge.push(qx ?? periodQx[age] ?? null)
+  }
+
+  const table = buildSurvivalTable(qxByAge)
+  survivalTableCache.set(key, table)
+  return table
+}
+
 /**
  * Get life expectancy at a specific age
  * @internal Currently unused but may be useful for future features
  */
 async function _getLifeExpectancy(
   age: number,
-  gender: "male" | "female" | "combined" = "combined"
+  gender: ActuarialGender = "combined"
 ): Promise<number> {
   const data = await loadActuarialData()
   const entries = data.get(gender)
@@ -173,39 +535,32 @@ async function _getLifeExpectancy(
  * Uses the cumulative death probability formula:
  * P(death between age A and B) = 1 - (product of (1 - qx) for each year from A to B-1)
  *
+ * Ages may be fractional. Partial years at either end of the span contribute
+ * (1 - qx)^f, where f is the fraction of that year of age inside the span.
+ *
+ * When a birth year is given, each year's qx comes from that birth cohort's curve,
+ * falling back to the period table for ages the cohort tables don't cover. For a
+ * non-US country with a seeded table, that country's period qx is used instead,
+ * falling back to the US tables for any ages it doesn't cover.
+ *
  * @param startAge Age at the start time (e.g., when movie was released)
  * @param endAge Current age (or age at death)
  * @param gender Gender for actuarial lookup
+ * @param birthYear Year of birth, used to select the cohort curve (null = period table only)
+ * @param country Life table country from getLifeTableCountry (defaults to the US)
  * @returns Probability between 0 and 1
  */
 export async function calculateCumulativeDeathProbability(
   startAge: number,
   endAge: number,
-  gender: "male" | "female" | "combined" = "combined"
+  gender: ActuarialGender = "combined",
+  birthYear: number | null = null,
+  country: string = US_COUNTRY_CODE
 ): Promise<number> {
   if (startAge >= endAge) return 0
-  if (startAge < 0) startAge = 0
-  if (endAge > 120) endAge = 120
-
-  const data = await loadActuarialData()
-  const entries = data.get(gender)
 
-  if (!entries || entries.length === 0) {
-    throw new Error(`No actuarial data found for gender: ${gender}`)
-  }
-
-  // Calculate probability of surviving each year
-  let survivalProbability = 1.0
-
-  for (let age = Math.floor(startAge); age < Math.floor(endAge); age++) {
-    const entry = entries.find((e) => e.age === age)
-    if (entry) {
-      survivalProbability *= 1 - entry.death_probability
-    }
-  }
-
-  // Death probability = 1 - survival probability
-  return 1 - survivalProbability
+  await loadLifeTables()
+  return deathProbabilityFromTable(getSurvivalTable(gender, birthYear, country), startAge, endAge)
 }
 
 /**
@@ -216,6 +571,9 @@ export interface ActorForMortality {
   name: string
   birthday: string | null // YYYY-MM-DD format
   deathday: string | null // YYYY-MM-DD format
+  gender: ActuarialGender
+  birthCountry: string | null // ISO 3166-1 alpha-2, from resolveBirthCountry
+  weight?: number // Contribution to expected and actual deaths (default 1)
 }
 
 /**
@@ -224,6 +582,8 @@ export interface ActorForMortality {
 export interface ActorMortalityResult {
   tmdbId: number
   name: string
+  gender: ActuarialGender
+  lifeTableCountry: string // Country whose life table was used (US unless a birth-country table exists)
   ageAtFilming: number | null
   currentAge: number | null
   isDeceased: boolean
@@ -233,91 +593,149 @@ export interface ActorMortalityResult {
   yearsLost: number | null
 }
 
+/**
+ * Actors who died more than this many years before a movie's release are
+ * assumed to appear via archived footage and are excluded from the calculation.
+ */
+const ARCHIVED_FOOTAGE_YEARS = 3
+
 /**
  * Calculate expected mortality statistics for a movie's cast
  *
- * @param releaseYear Year the movie was released
+ * Each actor is evaluated against the qx curve for their birth cohort and gender,
+ * falling back to the combined table when gender is unknown. Actors born outside the
+ * US use their birth country's table when one exists. The result includes a
+ * Poisson-binomial significance test of the actual death count.
+ *
+ * Actors with a weight (e.g. by billing position) contribute that fraction of
+ * their expected and actual deaths to the totals and surprise score. The
+ * significance test always uses unweighted counts.
+ *
+ * Exposure is day-precise: it starts on the release date and ends on the date of
+ * death or the as-of date, using fractional ages. A movie known only by its year,
+ * or an actor known only by birth year, is placed at the middle of that year.
+ *
+ * @param release Release date (YYYY-MM-DD), or the release year if that's all we have
  * @param actors List of actors with their birth/death dates
- * @param currentYear Current year (defaults to now)
+ * @param asOf Date to measure mortality up to (defaults to today), or a year
  * @returns Statistics including expected deaths and per-actor breakdowns
  */
 export async function calculateMovieMortality(
-  releaseYear: number,
+  release: string | number,
   actors: ActorForMortality[],
-  currentYear: number = new Date().getFullYear()
-): Promise<{
+  asOf: string | number = formatDate(new Date())
+): Promise<MovieMortalityResult> {
+  // Actors without a birthday are scored without any tables
+  if (actors.some((actor) => actor.birthday)) {
+    await loadLifeTables()
+  }
+  return scoreMovieMortality(release, actors, asOf)
+}
+
+export interface MovieMortalityResult {
   expectedDeaths: number
-  actualDeaths: number
+  actualDeaths: number // Weighted when actors have weights
   mortalitySurpriseScore: number
+  mortalityModel: string
+  significance: MortalitySignificance
+  nonUsLifeTableCount: number
   actorResults: ActorMortalityResult[]
-}> {
-  const yearsSinceRelease = currentYear - releaseYear
+}
+
+/**
+ * Synchronous calculateMovieMortality, for scoring many casts after a single
+ * loadLifeTables(). Expected lifespan and years lost are null if cohort life
+ * expectancy isn't loaded.
+ */
+export function scoreMovieMortality(
+  release: string | number,
+  actors: ActorForMortality[],
+  asOf: string | number = formatDate(new Date())
+): MovieMortalityResult {
+  const releasePoint = toDecimalYear(release)
+  const asOfPoint = toDecimalYear(asOf)
+  if (releasePoint === null || asOfPoint === null) {
+    throw new Error(`Invalid release (${release}) or as-of date (${asOf})`)
+  }
+
   const actorResults: ActorMortalityResult[] = []
   let expectedDeaths = 0
   let actualDeaths = 0
+  let nonUsLifeTableCount = 0
+
+  // Significance testing only considers actors with a known age at filming.
+  // Actors without a birthday contribute 0 expected deaths, so counting their
+  // deaths would make any such death look impossible under the model.
+  const testedProbabilities: number[] = []
+  let testedDeaths = 0
 
   for (const actor of actors) {
     const isDeceased = actor.deathday !== null
 
-    // Parse dates
-    const birthYear = actor.birthday ? parseInt(actor.birthday.split("-")[0]) : null
-    const deathYear = actor.deathday ? parseInt(actor.deathday.split("-")[0]) : null
+    // Parse dates as fractional years
+    const birthPoint = actor.birthday ? toDecimalYear(actor.birthday) : null
+    const deathPoint = actor.deathday ? toDecimalYear(actor.deathday) : null
+    const birthYear = birthPoint !== null ? Math.floor(birthPoint) : null
 
-    // Calculate ages
-    const ageAtFilming = birthYear ? releaseYear - birthYear : null
-    const currentAge = birthYear && !isDeceased ? currentYear - birthYear : null
-    const ageAtDeath = birthYear && deathYear ? deathYear - birthYear : null
+    // Ages in completed years for display
+    const ageAtFilming = actor.birthday ? calculateAgeOnDate(actor.birthday, release) : null
+    const currentAge =
+      actor.birthday && !isDeceased ? calculateAgeOnDate(actor.birthday, asOf) : null
+    const ageAtDeath =
+      actor.birthday && actor.deathday ? calculateAgeOnDate(actor.birthday, actor.deathday) : null
 
-    // Check if actor died more than 3 years before movie release (archived footage)
+    // Check if actor died long before movie release (archived footage)
     // These actors should be excluded from mortality calculations
-    const isArchivedFootage = deathYear !== null && deathYear < releaseYear - 3
+    const isArchivedFootage =
+      deathPoint !== null && deathPoint < releasePoint - ARCHIVED_FOOTAGE_YEARS
 
     // Calculate death probability (expected chance they would have died by now)
+    const hasKnownAge = birthPoint !== null && releasePoint >= birthPoint
+    const lifeTableCountry = resolveLifeTableCountry(actor.birthCountry)
     let deathProbability = 0
-    if (ageAtFilming !== null && ageAtFilming >= 0 && !isArchivedFootage) {
-      // For actors who died same year as movie or within 1 year after:
-      // Calculate probability from age at filming to at least 1 year later
-      // This ensures actors who died same year don't get 0% probability
-      const minEndAge = ageAtFilming + 1
-
-      if (isDeceased && ageAtDeath !== null) {
-        // Actor died: calculate probability up to their death age
-        // Use at least 1 year span to handle same-year deaths
-        const effectiveEndAge = Math.max(ageAtDeath, minEndAge)
-        deathProbability = await calculateCumulativeDeathProbability(
-          ageAtFilming,
-          Math.min(effectiveEndAge, ageAtFilming + yearsSinceRelease),
-          "combined"
-        )
-      } else {
-        // Actor still alive: calculate probability over full time span
-        deathProbability = await calculateCumulativeDeathProbability(
-          ageAtFilming,
-          ageAtFilming + yearsSinceRelease,
-          "combined"
-        )
-      }
+    if (hasKnownAge && !isArchivedFootage) {
+      if (lifeTableCountry !== US_COUNTRY_CODE) nonUsLifeTableCount++
+
+      // Actors who died before the release (posthumous appearances) are exposed from
+      // the start of the archived footage window, since any death within it counts
+      const diedBeforeRelease = deathPoint !== null && deathPoint < releasePoint
+      const exposureStart = diedBeforeRelease ? releasePoint - ARCHIVED_FOOTAGE_YEARS : releasePoint
+      const exposureEnd = deathPoint !== null ? Math.min(deathPoint, asOfPoint) : asOfPoint
+
+      deathProbability = deathProbabilityFromTable(
+        getSurvivalTable(actor.gender, birthYear, lifeTableCountry),
+        exposureStart - birthPoint,
+        exposureEnd - birthPoint
+      )
     }
 
     // Calculate expected lifespan and years lost for deceased actors
     // Using birth-year-specific cohort life expectancy
     let expectedLifespan: number | null = null
     let yearsLost: number | null = null
-    if (birthYear && isDeceased && ageAtDeath !== null) {
+    if (birthPoint !== null && birthYear !== null && deathPoint !== null && ageAtDeath !== null) {
       // Life expectancy at birth for their specific birth cohort
-      expectedLifespan = await getCohortLifeExpectancy(birthYear, "combined")
-      yearsLost = expectedLifespan - ageAtDeath
+      expectedLifespan = lookupCohortLifeExpectancy(birthYear, actor.gender)
+      yearsLost = expectedLifespan !== null ? expectedLifespan - (deathPoint - birthPoint) : null
     }
 
     // Only count actors who weren't archived footage
     if (!isArchivedFootage) {
-      expectedDeaths += deathProbability
-      if (isDeceased) actualDeaths++
+      const weight = actor.weight ?? 1
+      expectedDeaths += weight * deathProbability
+      if (isDeceased) actualDeaths += weight
+
+      if (hasKnownAge) {
+        testedProbabilities.push(deathProbability)
+        if (isDeceased) testedDeaths++
+      }
     }
 
     actorResults.push({
       tmdbId: actor.tmdbId,
       name: actor.name,
+      gender: actor.gender,
+      lifeTableCountry,
       ageAtFilming,
       currentAge,
       isDeceased,
@@ -336,50 +754,225 @@ export async function calculateMovieMortality(
 
   return {
     expectedDeaths: Math.round(expectedDeaths * 100) / 100,
-    actualDeaths,
+    actualDeaths: Math.round(actualDeaths * 100) / 100,
     mortalitySurpriseScore: Math.round(mortalitySurpriseScore * 1000) / 1000,
+    mortalityModel: MORTALITY_MODEL,
+    significance: calculateMortalitySignificance(testedProbabilities, testedDeaths),
+    nonUsLifeTableCount,
     actorResults,
   }
 }
 
+/**
+ * A living actor to score for near-term death risk
+ */
+export interface DeathRiskInput {
+  age: number // Current age in completed years
+  birthYear: number
+  gender: ActuarialGender
+  birthCountry: string | null // ISO 3166-1 alpha-2, from resolveBirthCountry
+}
+
+export interface DeathRisk {
+  oneYearDeathProbability: number // Probability of dying within the next year
+  lifeExpectancy: number | null // Cohort life expectancy at birth, null if not loaded
+}
+
+/**
+ * Score the one-year death risk and cohort life expectancy of a batch of living
+ * actors, such as a Death Watch page. Requires loadLifeTables().
+ */
+export function scoreDeathRisks(actors: DeathRiskInput[]): DeathRisk[] {
+  return actors.map((actor) => ({
+    oneYearDeathProbability: deathProbabilityFromTable(
+      getSurvivalTable(actor.gender, actor.birthYear, resolveLifeTableCountry(actor.birthCountry)),
+      actor.age,
+      actor.age + 1
+    ),
+    lifeExpectancy: lookupCohortLifeExpectancy(actor.birthYear, actor.gender),
+  }))
+}
+
+/**
+ * Living cast at one point on a movie's survival curve
+ */
+export interface SurvivalCurvePoint {
+  year: number // Calendar year of the point
+  yearsSinceRelease: number
+  observedLiving: number // Cast members actually alive at this point
+  expectedLiving: number // Expected number alive under the actuarial model
+  expectedLivingLow: number // Lower bound of the 95% range of living cast expected by chance
+  expectedLivingHigh: number // Upper bound of the 95% range
+}
+
+/**
+ * Calculate observed vs expected survival of a movie's cast for each year since release.
+ *
+ * Uses the same actors, life tables and exposure rules as calculateMovieMortality:
+ * actors without a birthday or who died more than 3 years before release are left
+ * out, and posthumous appearances are exposed from the start of the archived footage
+ * window. At each anniversary of the release, expected survivors are the sum of each
+ * actor's survival probability to that date, and the band is the central 95% range
+ * of the Poisson-binomial distribution of deaths so far.
+ *
+ * @param release Release date (YYYY-MM-DD), or the release year if that's all we have
+ * @param actors List of actors with their birth/death dates
+ * @param asOf Last date to include (defaults to today), or a year
+ * @returns Number of actors on the curve and one point per year since release
+ */
+export async function calculateSurvivalCurve(
+  release: string | number,
+  actors: ActorForMortality[],
+  asOf: string | number = formatDate(new Date())
+): Promise<{ castCount: number; points: SurvivalCurvePoint[] }> {
+  const releasePoint = toDecimalYear(release)
+  const asOfPoint = toDecimalYear(asOf)
+  if (releasePoint === null || asOfPoint === null) {
+    throw new Error(`Invalid release (${release}) or as-of date (${asOf})`)
+  }
+
+  if (actors.some((actor) => actor.birthday)) {
+    await loadLifeTables()
+  }
+
+  // Per-actor state, advanced one year at a time so each step only covers a year of ages
+  const tracked: Array<{
+    birthPoint: number
+    deathPoint: number | null
+    table: SurvivalTable
+    exposedUntil: number
+    survival: number
+  }> = []
+
+  for (const actor of actors) {
+    const birthPoint = actor.birthday ? toDecimalYear(actor.birthday) : null
+    const deathPoint = actor.deathday ? toDecimalYear(actor.deathday) : null
+    if (birthPoint === null || releasePoint < birthPoint) continue
+    if (deathPoint !== null && deathPoint < releasePoint - ARCHIVED_FOOTAGE_YEARS) continue
+
+    const diedBeforeRelease = deathPoint !== null && deathPoint < releasePoint
+    tracked.push({
+      birthPoint,
+      deathPoint,
+      table: getSurvivalTable(
+        actor.gender,
+        Math.floor(birthPoint),
+        resolveLifeTableCountry(actor.birthCountry)
+      ),
+      exposedUntil: diedBeforeRelease ? releasePoint - ARCHIVED_FOOTAGE_YEARS : releasePoint,
+      survival: 1,
+    })
+  }
+
+  const points: SurvivalCurvePoint[] = []
+  const totalYears = Math.max(0, Math.floor(asOfPoint - releasePoint))
+
+  for (let yearsSinceRelease = 0; yearsSinceRelease <= totalYears; yearsSinceRelease++) {
+    const pointInTime = releasePoint + yearsSinceRelease
+    const deathProbabilities: number[] = []
+    let observedDeaths = 0
+
+    for (const entry of tracked) {
+      if (pointInTime > entry.exposedUntil) {
+        const stepDeathProbability = deathProbabilityFromTable(
+          entry.table,
+          entry.exposedUntil - entry.birthPoint,
+          pointInTime - entry.birthPoint
+        )
+        entry.survival *= 1 - stepDeathProbability
+        entry.exposedUntil = pointInTime
+      }
+
+      deathProbabilities.push(1 - entry.survival)
+      if (entry.deathPoint !== null && entry.deathPoint <= pointInTime) observedDeaths++
+    }
+
+    const expectedLiving = tracked.reduce((sum, entry) => sum + entry.survival, 0)
+    const { intervalLow, intervalHigh } = calculateMortalitySignificance(
+      deathProbabilities,
+      observedDeaths
+    )
+
+    points.push({
+      year: Math.floor(pointInTime),
+      yearsSinceRelease,
+      observedLiving: tracked.length - observedDeaths,
+      expectedLiving: Math.round(expectedLiving * 100) / 100,
+      expectedLivingLow: tracked.length - intervalHigh,
+      expectedLivingHigh: tracked.length - intervalLow,
+    })
+  }
+
+  return { castCount: tracked.length, points }
+}
+
 /**
  * Calculate years lost for a deceased person
  *
  * Uses birth-year-specific cohort life expectancy from US SSA data.
  * Someone born in 1920 had a different life expectancy than someone born in 1980.
+ * Years lost are measured from the exact (fractional) age at death; the returned
+ * ageAtDeath is in completed years.
  *
- * @param birthday Date of birth (YYYY-MM-DD)
+ * @param birthday Date of birth (YYYY-MM-DD, or YYYY if only the year is known)
  * @param deathday Date of death (YYYY-MM-DD)
+ * @param gender Gender for cohort lookup (defaults to combined when unknown)
  * @returns Years lost compared to life expectancy, or null if can't calculate
  */
 export async function calculateYearsLost(
   birthday: string | null,
-  deathday: string
-): Promise<{ ageAtDeath: number; expectedLifespan: number; yearsLost: number } | null> {
+  deathday: string,
+  gender: ActuarialGender = "combined"
+): Promise<YearsLostResult | null> {
   if (!birthday) return null
 
-  const birthYear = parseInt(birthday.split("-")[0])
-  const deathYear = parseInt(deathday.split("-")[0])
-  const ageAtDeath = deathYear - birthYear
-
-  if (isNaN(birthYear) || isNaN(deathYear) || ageAtDeath < 0) return null
-
   try {
-    // Get life expectancy at birth for their specific birth cohort
-    // This uses US SSA cohort life tables which vary by birth year
-    const expectedLifespan = await getCohortLifeExpectancy(birthYear, "combined")
-    const yearsLost = expectedLifespan - ageAtDeath
-
-    return {
-      ageAtDeath,
-      expectedLifespan: Math.round(expectedLifespan * 10) / 10,
-      yearsLost: Math.round(yearsLost * 10) / 10,
-    }
+    await loadCohortLifeExpectancy()
   } catch {
     // Database not available - return null for years lost calculations
     // This allows E2E tests to run without database access
     return null
   }
+
+  return scoreYearsLost(birthday, deathday, gender)
+}
+
+export interface YearsLostResult {
+  ageAtDeath: number
+  expectedLifespan: number
+  yearsLost: number
+}
+
+/**
+ * Synchronous calculateYearsLost, for scoring many people after a single
+ * loadLifeTables(). Returns null if cohort life expectancy isn't loaded.
+ */
+export function scoreYearsLost(
+  birthday: string | null,
+  deathday: string,
+  gender: ActuarialGender = "combined"
+): YearsLostResult | null {
+  if (!birthday) return null
+
+  const birthPoint = toDecimalYear(birthday)
+  const deathPoint = toDecimalYear(deathday)
+  const ageAtDeath = calculateAgeOnDate(birthday, deathday)
+
+  if (birthPoint === null || deathPoint === null || ageAtDeath === null || ageAtDeath < 0) {
+    return null
+  }
+
+  // Life expectancy at birth for their specific birth cohort
+  // This uses US SSA cohort life tables which vary by birth year
+  const expectedLifespan = lookupCohortLifeExpectancy(Math.floor(birthPoint), gender)
+  if (expectedLifespan === null) return null
+  const yearsLost = expectedLifespan - (deathPoint - birthPoint)
+
+  return {
+    ageAtDeath,
+    expectedLifespan: Math.round(expectedLifespan * 10) / 10,
+    yearsLost: Math.round(yearsLost * 10) / 10,
+  }
 }
 
 /**
@@ -387,5 +980,9 @@ export async function calculateYearsLost(
  */
 export function clearActuarialCache(): void {
   actuarialCache = null
+  cohortQxCache = null
+  countryLifeTableCache = null
   cohortLifeExpectancyCache = null
+  survivalTableCache.clear()
+  lifeTablesPromise = null
 }
@@ -3,6 +3,7 @@ import {
   buildMovieRecord,
   calculateAgeAtFilming,
   buildActorAppearanceRecord,
+  buildCrewAppearanceRecords,
 } from "./movie-cache.js"
 
 describe("movie-cache", () => {
@@ -23,6 +24,9 @@ describe("movie-cache", () => {
         livingCount: 7,
         expectedDeaths: 2.5,
         mortalitySurpriseScore: 0.2,
+        mortalityModel: "ssa-2022-period-by-gender",
+        significance: { pValue: 0.61, intervalLow: 0, intervalHigh: 5, isSignificant: false },
+        castDepth: "30",
       })
 
       expect(result.tmdb_id).toBe(12345)
@@ -38,6 +42,11 @@ describe("movie-cache", () => {
       expect(result.living_count).toBe(7)
       expect(result.expected_deaths).toBe(2.5)
       expect(result.mortality_surprise_score).toBe(0.2)
+      expect(result.mortality_model).toBe("ssa-2022-period-by-gender")
+      expect(result.mortality_p_value).toBe(0.61)
+      expect(result.expected_deaths_low).toBe(0)
+      expect(result.expected_deaths_high).toBe(5)
+      expect(result.cast_depth).toBe("30")
     })
 
     it("handles missing release date", () => {
@@ -53,10 +62,14 @@ describe("movie-cache", () => {
         livingCount: 5,
         expectedDeaths: 0,
         mortalitySurpriseScore: 0,
+        mortalityModel: null,
+        significance: null,
+        castDepth: "30",
       })
 
       expect(result.release_date).toBeNull()
       expect(result.release_year).toBeNull()
+      expect(result.mortality_p_value).toBeNull()
     })
 
     it("handles empty genres array", () => {
@@ -71,6 +84,9 @@ describe("movie-cache", () => {
         livingCount: 5,
         expectedDeaths: 0,
         mortalitySurpriseScore: 0,
+        mortalityModel: null,
+        significance: null,
+        castDepth: "30",
       })
 
       expect(result.genres).toEqual([])
@@ -89,6 +105,9 @@ describe("movie-cache", () => {
         livingCount: 5,
         expectedDeaths: 0,
         mortalitySurpriseScore: 0,
+        mortalityModel: null,
+        significance: null,
+        castDepth: "30",
       })
 
       expect(result.genres).toEqual([])
@@ -106,6 +125,9 @@ describe("movie-cache", () => {
         livingCount: 1,
         expectedDeaths: 0,
         mortalitySurpriseScore: 0,
+        mortalityModel: null,
+        significance: null,
+        castDepth: "30",
       })
 
       expect(result.release_year).toBe(1985)
@@ -123,7 +145,14 @@ describe("movie-cache", () => {
       expect(calculateAgeAtFilming(null, 2020)).toBeNull()
     })
 
-    it("returns null when release year is null", () => {
+    it("uses the exact release date when available", () => {
+      // Birthday not yet reached on the release date
+      expect(calculateAgeAtFilming("1980-05-15", "2020-05-14")).toBe(39)
+      expect(calculateAgeAtFilming("1980-05-15", "2020-05-15")).toBe(40)
+      expect(calculateAgeAtFilming("1999-12-31", "2024-06-01")).toBe(24)
+    })
+
+    it("returns null when release is null", () => {
       expect(calculateAgeAtFilming("1980-05-15", null)).toBeNull()
     })
 
@@ -151,7 +180,7 @@ describe("movie-cache", () => {
         },
         movieId: 12345,
         billingOrder: 0,
-        releaseYear: 2020,
+        release: 2020,
         birthday: "1980-03-20",
         isDeceased: false,
       })
@@ -163,6 +192,25 @@ describe("movie-cache", () => {
       expect(result.billing_order).toBe(0)
       expect(result.age_at_filming).toBe(40)
       expect(result.is_deceased).toBe(false)
+      expect(result.gender).toBeNull()
+    })
+
+    it("stores the TMDB gender code when provided", () => {
+      const result = buildActorAppearanceRecord({
+        castMember: {
+          id: 999,
+          name: "Jane Doe",
+          character: "The Hero",
+          gender: 1,
+        },
+        movieId: 12345,
+        billingOrder: 0,
+        release: 2020,
+        birthday: "1980-03-20",
+        isDeceased: false,
+      })
+
+      expect(result.gender).toBe(1)
     })
 
     it("handles null character name", () => {
@@ -174,7 +222,7 @@ describe("movie-cache", () => {
         },
         movieId: 12345,
         billingOrder: 5,
-        releaseYear: 2020,
+        release: 2020,
         birthday: "1980-03-20",
         isDeceased: true,
       })
@@ -192,7 +240,7 @@ describe("movie-cache", () => {
         },
         movieId: 12345,
         billingOrder: 1,
-        releaseYear: 2020,
+        release: 2020,
         birthday: null,
         isDeceased: false,
       })
@@ -209,7 +257,7 @@ describe("movie-cache", () => {
         },
         movieId: 12345,
         billingOrder: 1,
-        releaseYear: null,
+        release: null,
         birthday: "1980-03-20",
         isDeceased: false,
       })
@@ -226,7 +274,7 @@ describe("movie-cache", () => {
         },
         movieId: 12345,
         billingOrder: 3,
-        releaseYear: 2010,
+        release: 2010,
         birthday: "1930-05-10",
         isDeceased: true,
       })
@@ -235,4 +283,65 @@ describe("movie-cache", () => {
       expect(result.age_at_filming).toBe(80)
     })
   })
+
+  describe("buildCrewAppearanceRecords", () => {
+    it("builds one record per job", () => {
+      const result = buildCrewAppearanceRecords({
+        crewMember: {
+          id: 777,
+          name: "Jane Director",
+          gender: 1,
+          credits: [
+            { job: "Director", department: "Directing" },
+            { job: "Screenplay", department: "Writing" },
+          ],
+        },
+        movieId: 12345,
+        release: "2020-06-15",
+        birthday: "1970-08-01",
+        isDeceased: false,
+      })
+
+      expect(result).toEqual([
+        {
+          person_tmdb_id: 777,
+          movie_tmdb_id: 12345,
+          person_name: "Jane Director",
+          job: "Director",
+          department: "Directing",
+          age_at_filming: 49,
+          is_deceased: false,
+          gender: 1,
+        },
+        {
+          person_tmdb_id: 777,
+          movie_tmdb_id: 12345,
+          person_name: "Jane Director",
+          job: "Screenplay",
+          department: "Writing",
+          age_at_filming: 49,
+          is_deceased: false,
+          gender: 1,
+        },
+      ])
+    })
+
+    it("handles missing birthday and gender", () => {
+      const result = buildCrewAppearanceRecords({
+        crewMember: {
+          id: 777,
+          name: "John Composer",
+          credits: [{ job: "Original Music Composer", department: "Sound" }],
+        },
+        movieId: 12345,
+        release: 2020,
+        birthday: null,
+        isDeceased: true,
+      })
+
+      expect(result[0].age_at_filming).toBeNull()
+      expect(result[0].gender).toBeNull()
+      expect(result[0].is_deceased).toBe(true)
+    })
+  })
 })
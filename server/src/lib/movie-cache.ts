@@ -3,7 +3,10 @@
  * These are pure functions extracted for testability.
  */
 
-import type { MovieRecord, ActorAppearanceRecord } from "./db.js"
+import type { MovieRecord, ActorAppearanceRecord, CrewAppearanceRecord } from "./db.js"
+import type { MortalitySignificance } from "./mortality-significance.js"
+import type { CastDepth } from "./cast-depth.js"
+import { calculateAgeOnDate } from "./date-utils.js"
 
 export interface MovieCacheInput {
   movie: {
@@ -17,6 +20,9 @@ export interface MovieCacheInput {
   livingCount: number
   expectedDeaths: number
   mortalitySurpriseScore: number
+  mortalityModel: string | null
+  significance: MortalitySignificance | null
+  castDepth: CastDepth
 }
 
 export interface ActorAppearanceInput {
@@ -24,10 +30,24 @@ export interface ActorAppearanceInput {
     id: number
     name: string
     character: string | null
+    gender?: number | null
   }
   movieId: number
   billingOrder: number
-  releaseYear: number | null
+  release: string | number | null // Release date, or just the year if that's all we have
+  birthday: string | null
+  isDeceased: boolean
+}
+
+export interface CrewAppearanceInput {
+  crewMember: {
+    id: number
+    name: string
+    gender?: number | null
+    credits: Array<{ job: string; department: string }>
+  }
+  movieId: number
+  release: string | number | null // Release date, or just the year if that's all we have
   birthday: string | null
   isDeceased: boolean
 }
@@ -36,7 +56,16 @@ export interface ActorAppearanceInput {
  * Build a movie record from movie data and mortality statistics.
  */
 export function buildMovieRecord(input: MovieCacheInput): MovieRecord {
-  const { movie, deceasedCount, livingCount, expectedDeaths, mortalitySurpriseScore } = input
+  const {
+    movie,
+    deceasedCount,
+    livingCount,
+    expectedDeaths,
+    mortalitySurpriseScore,
+    mortalityModel,
+    significance,
+    castDepth,
+  } = input
   const releaseYear = movie.release_date ? parseInt(movie.release_date.split("-")[0]) : null
 
   return {
@@ -54,34 +83,37 @@ export function buildMovieRecord(input: MovieCacheInput): MovieRecord {
     living_count: livingCount,
     expected_deaths: expectedDeaths,
     mortality_surprise_score: mortalitySurpriseScore,
+    mortality_model: mortalityModel,
+    mortality_p_value: significance?.pValue ?? null,
+    expected_deaths_low: significance?.intervalLow ?? null,
+    expected_deaths_high: significance?.intervalHigh ?? null,
+    cast_depth: castDepth,
   }
 }
 
 /**
- * Calculate age at filming from birthday and release year.
- * Returns null if either value is missing or invalid.
+ * Calculate age at filming (in completed years) from birthday and release date.
+ * Uses exact dates when both are known, falling back to the difference in years
+ * when the release is only a year. Returns null if either value is missing or invalid.
  *
  * @param birthday - Date string in YYYY-MM-DD format, or null
- * @param releaseYear - The year the movie was released, or null
- * @returns Age at filming, or null if birthday/releaseYear is missing or malformed
+ * @param release - Release date in YYYY-MM-DD format or the release year, or null
+ * @returns Age at filming, or null if birthday/release is missing or malformed
  */
 export function calculateAgeAtFilming(
   birthday: string | null,
-  releaseYear: number | null
+  release: string | number | null
 ): number | null {
-  if (!birthday || !releaseYear) return null
+  if (!birthday || !release) return null
 
-  const birthYear = parseInt(birthday.split("-")[0], 10)
-  if (isNaN(birthYear)) return null
-
-  return releaseYear - birthYear
+  return calculateAgeOnDate(birthday, release)
 }
 
 /**
  * Build an actor appearance record.
  */
 export function buildActorAppearanceRecord(input: ActorAppearanceInput): ActorAppearanceRecord {
-  const { castMember, movieId, billingOrder, releaseYear, birthday, isDeceased } = input
+  const { castMember, movieId, billingOrder, release, birthday, isDeceased } = input
 
   return {
     actor_tmdb_id: castMember.id,
@@ -89,7 +121,27 @@ export function buildActorAppearanceRecord(input: ActorAppearanceInput): ActorAp
     actor_name: castMember.name,
     character_name: castMember.character || null,
     billing_order: billingOrder,
-    age_at_filming: calculateAgeAtFilming(birthday, releaseYear),
+    age_at_filming: calculateAgeAtFilming(birthday, release),
     is_deceased: isDeceased,
+    gender: castMember.gender ?? null,
   }
 }
+
+/**
+ * Build crew appearance records for a key crew member, one per job.
+ */
+export function buildCrewAppearanceRecords(input: CrewAppearanceInput): CrewAppearanceRecord[] {
+  const { crewMember, movieId, release, birthday, isDeceased } = input
+  const ageAtFilming = calculateAgeAtFilming(birthday, release)
+
+  return crewMember.credits.map((credit) => ({
+    person_tmdb_id: crewMember.id,
+    movie_tmdb_id: movieId,
+    person_name: crewMember.name,
+    job: credit.job,
+    department: credit.department,
+    age_at_filming: ageAtFilming,
+    is_deceased: isDeceased,
+    gender: crewMember.gender ?? null,
+  }))
+}
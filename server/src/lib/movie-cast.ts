@@ -0,0 +1,45 @@
+/**
+ * Load a movie's top-billed cast from TMDB in the shape the mortality
+ * calculations expect.
+ */
+
+import {
+  getMovieDetails,
+  getMovieCredits,
+  batchGetPersonDetails,
+  type TMDBMovieDetails,
+} from "./tmdb.js"
+import { getActuarialGender, type ActorForMortality } from "./mortality-stats.js"
+import { resolveBirthCountry } from "./birthplace.js"
+import { DEFAULT_CAST_DEPTH, limitCast, type CastDepth } from "./cast-depth.js"
+
+/**
+ * Fetch a movie and its top-billed cast with birth, death, gender and birth country data.
+ *
+ * @param movieId TMDB movie ID
+ * @param castDepth How much of the billed cast to include
+ * @returns The TMDB movie details and the cast as ActorForMortality records
+ */
+export async function getMovieCastForMortality(
+  movieId: number,
+  castDepth: CastDepth = DEFAULT_CAST_DEPTH
+): Promise<{ movie: TMDBMovieDetails; actors: ActorForMortality[] }> {
+  const [movie, credits] = await Promise.all([getMovieDetails(movieId), getMovieCredits(movieId)])
+
+  const mainCast = limitCast(credits.cast, castDepth)
+  const personDetails = await batchGetPersonDetails(mainCast.map((c) => c.id))
+
+  const actors: ActorForMortality[] = mainCast.map((castMember) => {
+    const person = personDetails.get(castMember.id)
+    return {
+      tmdbId: castMember.id,
+      name: castMember.name,
+      birthday: person?.birthday || null,
+      deathday: person?.deathday || null,
+      gender: getActuarialGender(castMember.gender),
+      birthCountry: resolveBirthCountry(person?.place_of_birth),
+    }
+  })
+
+  return { movie, actors }
+}
@@ -24,6 +24,14 @@ interface ActuarialData {
   female: ActuarialEntry[]
 }
 
+interface CohortTablesData {
+  cohorts: Array<{
+    birthYear: number
+    male: Array<{ age: number; qx: number }>
+    female: Array<{ age: number; qx: number }>
+  }>
+}
+
 /**
  * Find the migrations directory, handling both development and production paths.
  */
@@ -178,6 +186,168 @@ async function seedActuarialDataIfNeeded(): Promise<void> {
   console.log("Actuarial data seeding complete")
 }
 
+/**
+ * Seed the per-birth-cohort qx curves from data/cohort-life-tables.json if none are
+ * in the database yet (the format is described in scripts/seed-cohort-life-tables.ts).
+ * MORTALITY_MODEL is a cohort model, so starting without any curves is an error.
+ */
+async function seedCohortTablesIfNeeded(): Promise<void> {
+  const db = getPool()
+
+  const result = await db.query(
+    "SELECT COUNT(*) as count FROM actuarial_life_tables WHERE table_type = 'cohort'"
+  )
+  const count = parseInt(result.rows[0].count, 10)
+
+  if (count > 0) {
+    console.log(`Cohort life tables already seeded (${count} entries)`)
+    return
+  }
+
+  const dataPath = join(findDataDir(), "cohort-life-tables.json")
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is constructed from hardcoded values
+  if (!existsSync(dataPath)) {
+    throw new Error(
+      `No cohort life tables are seeded and ${dataPath} is missing. ` +
+        "Expected deaths use the SSA cohort tables; add the file (see scripts/seed-cohort-life-tables.ts) " +
+        "or run npm run seed:cohort-tables."
+    )
+  }
+
+  console.log("Seeding cohort life tables...")
+  console.log(`  Loading data from: ${dataPath}`)
+
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is constructed from hardcoded values
+  const data: CohortTablesData = JSON.parse(readFileSync(dataPath, "utf-8"))
+
+  let inserted = 0
+  for (const cohort of data.cohorts) {
+    const allValues: (number | string)[] = []
+    const placeholders: string[] = []
+    const addEntry = (age: number, gender: string, qx: number) => {
+      const index = allValues.length
+      allValues.push(cohort.birthYear, age, gender, qx)
+      placeholders.push(`('cohort', $${index + 1}, $${index + 2}, $${index + 3}, $${index + 4})`)
+    }
+
+    const femaleByAge = new Map(cohort.female.map((e) => [e.age, e.qx]))
+    for (const entry of cohort.male) addEntry(entry.age, "male", entry.qx)
+    for (const entry of cohort.female) addEntry(entry.age, "female", entry.qx)
+    // Combined is the average of male and female, as in the period table
+    for (const male of cohort.male) {
+      const femaleQx = femaleByAge.get(male.age)
+      if (femaleQx !== undefined) addEntry(male.age, "combined", (male.qx + femaleQx) / 2)
+    }
+    if (placeholders.length === 0) continue
+
+    // One insert per cohort keeps each statement well under the parameter limit
+    await db.query(
+      `INSERT INTO actuarial_life_tables (table_type, birth_year, age, gender, death_probability)
+       VALUES ${placeholders.join(", ")}`,
+      allValues
+    )
+    inserted += placeholders.length
+  }
+
+  if (inserted === 0) {
+    throw new Error(`${dataPath} has no cohort life table entries`)
+  }
+  console.log(`  Inserted ${inserted} entries for ${data.cohorts.length} cohorts`)
+}
+
+interface CountryLifeTablesData {
+  source: string
+  countries: Array<{
+    country: string
+    source?: string
+    male: Array<{ age: number; qx: number; lx?: number; ex?: number }>
+    female: Array<{ age: number; qx: number; lx?: number; ex?: number }>
+  }>
+}
+
+/**
+ * Seed non-US period life tables from the bundled data/country-life-tables.json if
+ * country_life_tables is empty. Countries without a table use the US tables, so an
+ * empty file only means every actor is scored against the US.
+ */
+async function seedCountryTablesIfNeeded(): Promise<void> {
+  const db = getPool()
+
+  const result = await db.query("SELECT COUNT(*) as count FROM country_life_tables")
+  const count = parseInt(result.rows[0].count, 10)
+
+  if (count > 0) {
+    console.log(`Country life tables already seeded (${count} entries)`)
+    return
+  }
+
+  const dataPath = join(findDataDir(), "country-life-tables.json")
+  console.log("Seeding country life tables...")
+  console.log(`  Loading data from: ${dataPath}`)
+
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is constructed from hardcoded values
+  const data: CountryLifeTablesData = JSON.parse(readFileSync(dataPath, "utf-8"))
+
+  const average = (a: number | undefined, b: number | undefined) =>
+    a !== undefined && b !== undefined ? (a + b) / 2 : null
+
+  for (const table of data.countries) {
+    const country = table.country.toUpperCase()
+    // The SSA tables in actuarial_life_tables are always used for the US
+    if (country === "US") continue
+    const source = table.source ?? data.source
+
+    const allValues: (number | string | null)[] = []
+    const placeholders: string[] = []
+    const addEntry = (
+      age: number,
+      gender: string,
+      qx: number,
+      ex: number | null,
+      lx: number | null
+    ) => {
+      const index = allValues.length
+      allValues.push(country, age, gender, qx, ex, lx, source)
+      placeholders.push(
+        `($${index + 1}, $${index + 2}, $${index + 3}, $${index + 4}, $${index + 5}, $${index + 6}, $${index + 7})`
+      )
+    }
+
+    for (const gender of ["male", "female"] as const) {
+      for (const entry of table[gender]) {
+        addEntry(entry.age, gender, entry.qx, entry.ex ?? null, entry.lx ?? null)
+      }
+    }
+    const femaleByAge = new Map(table.female.map((e) => [e.age, e]))
+    for (const male of table.male) {
+      const female = femaleByAge.get(male.age)
+      if (female) {
+        const lx = average(male.lx, female.lx)
+        addEntry(
+          male.age,
+          "combined",
+          (male.qx + female.qx) / 2,
+          average(male.ex, female.ex),
+          lx !== null ? Math.round(lx) : null
+        )
+      }
+    }
+    if (placeholders.length === 0) continue
+
+    await db.query(
+      `INSERT INTO country_life_tables
+       (country_code, age, gender, death_probability, life_expectancy, survivors_per_100k, source)
+       VALUES ${placeholders.join(", ")}`,
+      allValues
+    )
+    console.log(`  ${country}: ${placeholders.length} entries`)
+  }
+
+  if (data.countries.length === 0) {
+    console.warn("  No country tables bundled; actors born outside the US use the US tables")
+  }
+}
+
 /**
  * Initialize the database on server startup.
  * Runs migrations and seeds required data.
@@ -194,6 +364,8 @@ export async function initializeDatabase(): Promise<void> {
 
     // Seed actuarial data if needed
     await seedActuarialDataIfNeeded()
+    await seedCohortTablesIfNeeded()
+    await seedCountryTablesIfNeeded()
 
     console.log("Database initialization complete")
   } catch (error) {
@@ -69,6 +69,7 @@ export interface TMDBCrewMember {
   job: string
   department: string
   profile_path: string | null
+  gender: number
 }
 
 export interface TMDBPerson {
@@ -81,6 +82,7 @@ export interface TMDBPerson {
   place_of_birth: string | null
   imdb_id: string | null
   popularity: number
+  gender: number // 0 = not specified, 1 = female, 2 = male, 3 = non-binary
 }
 
 async function tmdbFetch<T>(path: string): Promise<T> {
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from "vitest"
+import express from "express"
+import type { Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { DEFAULT_TRUST_PROXY_HOPS, parseTrustProxyHops } from "./trust-proxy.js"
+
+describe("parseTrustProxyHops", () => {
+  it("defaults to the GCE ingress hop count", () => {
+    expect(parseTrustProxyHops(undefined)).toBe(DEFAULT_TRUST_PROXY_HOPS)
+    expect(parseTrustProxyHops("")).toBe(DEFAULT_TRUST_PROXY_HOPS)
+  })
+
+  it("accepts a non-negative integer", () => {
+    expect(parseTrustProxyHops("3")).toBe(3)
+    expect(parseTrustProxyHops("0")).toBe(0)
+  })
+
+  it("ignores invalid values", () => {
+    expect(parseTrustProxyHops("-1")).toBe(DEFAULT_TRUST_PROXY_HOPS)
+    expect(parseTrustProxyHops("1.5")).toBe(DEFAULT_TRUST_PROXY_HOPS)
+    expect(parseTrustProxyHops("true")).toBe(DEFAULT_TRUST_PROXY_HOPS)
+  })
+})
+
+describe("req.ip behind the ingress", () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve))
+    server = null
+  })
+
+  async function requestIp(hops: number, forwardedFor: string): Promise<string> {
+    const app = express()
+    app.set("trust proxy", hops)
+    app.get("/ip", (req, res) => {
+      res.json({ ip: req.ip })
+    })
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening))
+    })
+    const { port } = server.address() as AddressInfo
+
+    const response = await fetch(`http://127.0.0.1:${port}/ip`, {
+      headers: { "X-Forwarded-For": forwardedFor },
+    })
+    return ((await response.json()) as { ip: string }).ip
+  }
+
+  it("finds the client behind the load balancer's own X-Forwarded-For entry", async () => {
+    const ip = await requestIp(DEFAULT_TRUST_PROXY_HOPS, "203.0.113.7, 198.51.100.1")
+
+    expect(ip).toBe("203.0.113.7")
+  })
+
+  it("ignores addresses the client forged ahead of the real ones", async () => {
+    const ip = await requestIp(DEFAULT_TRUST_PROXY_HOPS, "10.0.0.1, 203.0.113.7, 198.51.100.1")
+
+    expect(ip).toBe("203.0.113.7")
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * How many proxies sit in front of the server, for reading the client IP
+ * (req.ip) from X-Forwarded-For.
+ *
+ * The GCE ingress appends both "<client>, <load balancer IP>" and then
+ * connects from its own address, so the client is two hops back. Counting
+ * too few hops makes every request look like it comes from the load
+ * balancer, which turns per-reader limits into one global limit.
+ */
+
+/** Hops behind the GCE ingress (see k8s/ingress.yaml) */
+export const DEFAULT_TRUST_PROXY_HOPS = 2
+
+/**
+ * Parse TRUST_PROXY_HOPS. Missing or invalid values use the default; 0 trusts no proxy.
+ */
+export function parseTrustProxyHops(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") return DEFAULT_TRUST_PROXY_HOPS
+  const hops = Number(value)
+  return Number.isInteger(hops) && hops >= 0 ? hops : DEFAULT_TRUST_PROXY_HOPS
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { getCauseOfDeath, getWikipediaDeathDetails, type DeathInfoSource } from "./wikidata.js"
+import {
+  getCauseOfDeath,
+  getCauseOfDeathAnswers,
+  getWikipediaDeathDetails,
+  type DeathInfoSource,
+} from "./wikidata.js"
 
 // Mock the claude module
 vi.mock("./claude.js", () => ({
@@ -9,6 +14,9 @@ vi.mock("./claude.js", () => ({
 
 import { getCauseOfDeathFromClaude, isVagueCause } from "./claude.js"
 
+// Provenance the mocked LLM lookup reports with every answer
+const llm = { promptVersion: "cause-of-death@2", model: "claude-3-haiku-20240307" }
+
 // Mock global fetch
 const mockFetch = vi.fn()
 global.fetch = mockFetch
@@ -22,6 +30,7 @@ describe("getCauseOfDeath", () => {
 
   it("returns claude as source when Claude provides cause and details", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: "lung cancer",
       details: "He was diagnosed with lung cancer in 2015 and passed away in 2020.",
     })
@@ -55,6 +64,7 @@ describe("getCauseOfDeath", () => {
 
   it("returns claude for cause but wikipedia for details when Claude provides cause only", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: "heart attack",
       details: null,
     })
@@ -111,6 +121,7 @@ describe("getCauseOfDeath", () => {
 
   it("keeps Claude's vague cause but gets details from Wikipedia", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: "illness",
       details: null,
     })
@@ -171,6 +182,7 @@ describe("getCauseOfDeath", () => {
 
   it("uses Wikidata cause when Claude returns nothing", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: null,
       details: null,
     })
@@ -227,6 +239,7 @@ describe("getCauseOfDeath", () => {
 
   it("returns null sources when no information is available", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: null,
       details: null,
     })
@@ -253,6 +266,7 @@ describe("getCauseOfDeath", () => {
 
   it("handles missing birthday gracefully", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: "stroke",
       details: "Sudden stroke at home.",
     })
@@ -267,8 +281,33 @@ describe("getCauseOfDeath", () => {
     expect(result.wikipediaUrl).toBeNull()
   })
 
+  it("falls back to Wikidata when the Claude lookup fails", async () => {
+    vi.mocked(getCauseOfDeathFromClaude).mockRejectedValue(new Error("429 rate limited"))
+    vi.mocked(isVagueCause).mockReturnValue(true)
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          results: {
+            bindings: [
+              {
+                personLabel: { value: "Fallback Person" },
+                causeOfDeathLabel: { value: "stroke" },
+                deathDate: { value: "2017-05-20" },
+              },
+            ],
+          },
+        }),
+    })
+
+    const result = await getCauseOfDeath("Fallback Person", "1935-02-14", "2017-05-20")
+
+    expect(result.causeOfDeath).toBe("stroke")
+  })
+
   it("handles API errors gracefully", async () => {
     vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
       causeOfDeath: "cancer",
       details: null,
     })
@@ -285,6 +324,136 @@ describe("getCauseOfDeath", () => {
   })
 })
 
+describe("getCauseOfDeathAnswers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("collects an answer from every source without stopping at the first", async () => {
+    vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
+      causeOfDeath: "heart attack",
+      details: "She collapsed on set.",
+    })
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          results: {
+            bindings: [
+              {
+                personLabel: { value: "Carol Lead" },
+                causeOfDeathLabel: { value: "myocardial infarction" },
+                deathDate: { value: "2015-08-01" },
+                article: { value: "https://en.wikipedia.org/wiki/Carol_Lead" },
+              },
+            ],
+          },
+        }),
+    })
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          query: {
+            pages: {
+              "789": {
+                revisions: [
+                  {
+                    slots: {
+                      main: {
+                        "*": `{{Infobox person
+| death_cause = Heart failure
+}}
+== Death ==
+Lead died of a heart attack at her home in 2015.`,
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        }),
+    })
+
+    const result = await getCauseOfDeathAnswers("Carol Lead", "1940-01-01", "2015-08-01")
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(result).toEqual({
+      answers: [
+        {
+          source: "claude",
+          causeOfDeath: "heart attack",
+          details: "She collapsed on set.",
+          ...llm,
+        },
+        { source: "wikidata", causeOfDeath: "myocardial infarction", details: null },
+        { source: "wikipedia_infobox", causeOfDeath: "Heart failure", details: null },
+        {
+          source: "wikipedia_prose",
+          causeOfDeath: "heart attack",
+          details: "Lead died of a heart attack at her home in 2015.",
+        },
+      ],
+      wikipediaUrl: "https://en.wikipedia.org/wiki/Carol_Lead",
+    })
+  })
+
+  it("only asks Claude when the birthday is unknown", async () => {
+    vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
+      causeOfDeath: "stroke",
+      details: null,
+    })
+
+    const result = await getCauseOfDeathAnswers("Actor Name", null, "2021-05-01")
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(result).toEqual({
+      answers: [{ source: "claude", causeOfDeath: "stroke", details: null, ...llm }],
+      wikipediaUrl: null,
+    })
+  })
+
+  it("throws when the Claude lookup fails so the job is retried", async () => {
+    vi.mocked(getCauseOfDeathFromClaude).mockRejectedValue(new Error("429 rate limited"))
+
+    await expect(getCauseOfDeathAnswers("Actor Name", "1950-01-01", "2021-05-01")).rejects.toThrow(
+      "429 rate limited"
+    )
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it("leaves out Claude when no LLM provider is configured", async () => {
+    vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      causeOfDeath: null,
+      details: null,
+      promptVersion: null,
+      model: null,
+    })
+
+    const result = await getCauseOfDeathAnswers("Actor Name", null, "2021-05-01")
+
+    expect(result).toEqual({ answers: [], wikipediaUrl: null })
+  })
+
+  it("leaves out Wikidata when the query fails", async () => {
+    vi.mocked(getCauseOfDeathFromClaude).mockResolvedValue({
+      ...llm,
+      causeOfDeath: null,
+      details: null,
+    })
+    mockFetch.mockRejectedValueOnce(new Error("Network error"))
+
+    const result = await getCauseOfDeathAnswers("Error Case", "1960-01-01", "2022-01-01")
+
+    expect(result.answers.map((a) => a.source)).toEqual(["claude"])
+  })
+})
+
 describe("getWikipediaDeathDetails", () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -1,4 +1,4 @@
-import { getCauseOfDeathFromClaude, isVagueCause } from "./claude.js"
+import { getCauseOfDeathFromClaude, isVagueCause, type ClaudeCauseOfDeathResult } from "./claude.js"
 
 const WIKIDATA_ENDPOINT = "https://query.wikidata.org/sparql"
 const MAX_DEATH_DETAILS_LENGTH = 200
@@ -28,6 +28,27 @@ export interface CauseOfDeathResult {
   wikipediaUrl: string | null
 }
 
+// Every place a cause of death can come from, stored per person in cause_of_death_data
+export type CauseOfDeathAnswerSource =
+  | "claude"
+  | "wikidata"
+  | "wikipedia_infobox"
+  | "wikipedia_prose"
+
+export interface CauseOfDeathAnswer {
+  source: CauseOfDeathAnswerSource
+  causeOfDeath: string | null
+  details: string | null
+  // Set on LLM answers: the prompt template id and model that produced them
+  promptVersion?: string | null
+  model?: string | null
+}
+
+export interface CauseOfDeathAnswers {
+  answers: CauseOfDeathAnswer[]
+  wikipediaUrl: string | null
+}
+
 export async function getCauseOfDeath(
   name: string,
   birthday: string | null,
@@ -36,8 +57,14 @@ export async function getCauseOfDeath(
   const birthYear = birthday ? new Date(birthday).getFullYear() : null
   const deathYear = new Date(deathday).getFullYear()
 
-  // 1. Try Claude first (most accurate)
-  const claudeResult = await getCauseOfDeathFromClaude(name, birthYear, deathYear)
+  // 1. Try Claude first (most accurate); if the lookup fails, fall back to Wikipedia
+  let claudeResult: ClaudeCauseOfDeathResult
+  try {
+    claudeResult = await getCauseOfDeathFromClaude(name, birthYear, deathYear)
+  } catch (error) {
+    console.error(`LLM error for ${name}:`, error)
+    claudeResult = { causeOfDeath: null, details: null, promptVersion: null, model: null }
+  }
   if (claudeResult.causeOfDeath && !isVagueCause(claudeResult.causeOfDeath)) {
     // Get Wikipedia URL from Wikidata for linking
     const wikiUrl = await getWikipediaUrl(name, birthYear, deathYear)
@@ -162,6 +189,70 @@ export async function getCauseOfDeath(
   }
 }
 
+/**
+ * Ask every source for a cause of death instead of stopping at the first answer.
+ * Each source that could be consulted contributes one answer (possibly empty);
+ * choosing between them is left to resolveCauseOfDeath in cause-resolver.ts.
+ *
+ * Claude is only consulted when an LLM provider is configured. If its lookup fails,
+ * the error is thrown so the enrichment job is retried instead of recording an
+ * empty answer over the stored one.
+ */
+export async function getCauseOfDeathAnswers(
+  name: string,
+  birthday: string | null,
+  deathday: string
+): Promise<CauseOfDeathAnswers> {
+  const birthYear = birthday ? new Date(birthday).getFullYear() : null
+  const deathYear = new Date(deathday).getFullYear()
+
+  const claudeResult = await getCauseOfDeathFromClaude(name, birthYear, deathYear)
+  const answers: CauseOfDeathAnswer[] = []
+  if (claudeResult.model !== null) {
+    answers.push({
+      source: "claude",
+      causeOfDeath: claudeResult.causeOfDeath,
+      details: claudeResult.details,
+      promptVersion: claudeResult.promptVersion,
+      model: claudeResult.model,
+    })
+  }
+
+  // Wikidata needs the birth year to tell people with the same name apart
+  const wikidataResult = birthYear ? await queryWikidata(name, birthYear, deathYear) : null
+  if (!wikidataResult) {
+    return { answers, wikipediaUrl: null }
+  }
+  answers.push({ source: "wikidata", causeOfDeath: wikidataResult.causeOfDeath, details: null })
+
+  const { wikipediaUrl } = wikidataResult
+  if (!wikipediaUrl) {
+    return { answers, wikipediaUrl: null }
+  }
+
+  try {
+    const content = await fetchWikipediaWikitext(wikipediaUrl)
+    if (content) {
+      answers.push(
+        { source: "wikipedia_infobox", causeOfDeath: extractInfoboxCause(content), details: null },
+        {
+          source: "wikipedia_prose",
+          causeOfDeath: extractProseCause(content),
+          details: extractDeathDetails(content),
+        }
+      )
+    }
+  } catch (error) {
+    console.log(`Wikipedia error for ${name}:`, error)
+  }
+
+  console.log(
+    `Cause of death answers for ${name}: ${answers.map((a) => `${a.source}="${a.causeOfDeath}"`).join(", ")}`
+  )
+
+  return { answers, wikipediaUrl }
+}
+
 // Helper to just get Wikipedia URL from Wikidata
 async function getWikipediaUrl(
   name: string,
@@ -170,6 +261,16 @@ async function getWikipediaUrl(
 ): Promise<string | null> {
   if (!birthYear) return null
 
+  const result = await queryWikidata(name, birthYear, deathYear)
+  return result?.wikipediaUrl ?? null
+}
+
+// Look the person up on Wikidata; null if the query itself failed
+async function queryWikidata(
+  name: string,
+  birthYear: number,
+  deathYear: number
+): Promise<WikidataParseResult | null> {
   const query = buildSparqlQuery(name, birthYear, deathYear)
 
   try {
@@ -183,8 +284,7 @@ async function getWikipediaUrl(
     if (!response.ok) return null
 
     const data = (await response.json()) as WikidataSparqlResponse
-    const result = parseWikidataResult(data.results.bindings, name, deathYear)
-    return result.wikipediaUrl
+    return parseWikidataResult(data.results.bindings, name, deathYear)
   } catch {
     return null
   }
@@ -278,84 +378,96 @@ function isNameMatch(tmdbName: string, wikidataName: string): boolean {
 // Wikipedia API fallback for cause of death from infobox or article text
 async function getWikipediaInfoboxCauseOfDeath(wikipediaUrl: string): Promise<string | null> {
   try {
-    // Extract article title from URL
-    const urlMatch = wikipediaUrl.match(/\/wiki\/(.+)$/)
-    if (!urlMatch) return null
+    const content = await fetchWikipediaWikitext(wikipediaUrl)
+    if (!content) return null
 
-    const title = decodeURIComponent(urlMatch[1])
+    return extractInfoboxCause(content) ?? extractProseCause(content)
+  } catch (error) {
+    console.log("Wikipedia fallback error:", error)
+    return null
+  }
+}
 
-    // Use Wikipedia API to get wikitext of the article
-    const apiUrl = `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(title)}&prop=revisions&rvprop=content&rvslots=main&format=json&origin=*`
+// Fetch the raw wikitext of an article, or null if the URL or page is invalid
+async function fetchWikipediaWikitext(wikipediaUrl: string): Promise<string | null> {
+  // Extract article title from URL
+  const urlMatch = wikipediaUrl.match(/\/wiki\/(.+)$/)
+  if (!urlMatch) return null
 
-    const response = await fetch(apiUrl, {
-      headers: {
-        "User-Agent": "DeadOnFilm/1.0 (https://deadonfilm.com; contact@deadonfilm.com)",
-      },
-    })
+  const title = decodeURIComponent(urlMatch[1])
 
-    if (!response.ok) return null
+  // Use Wikipedia API to get wikitext of the article
+  const apiUrl = `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(title)}&prop=revisions&rvprop=content&rvslots=main&format=json&origin=*`
 
-    const data = (await response.json()) as WikipediaApiResponse
-    const pages = data.query?.pages
+  const response = await fetch(apiUrl, {
+    headers: {
+      "User-Agent": "DeadOnFilm/1.0 (https://deadonfilm.com; contact@deadonfilm.com)",
+    },
+  })
 
-    if (!pages) return null
+  if (!response.ok) return null
 
-    // Get the first (and only) page
-    const pageId = Object.keys(pages)[0]
-    if (!pageId || pageId === "-1") return null
+  const data = (await response.json()) as WikipediaApiResponse
+  const pages = data.query?.pages
 
-    const content = pages[pageId]?.revisions?.[0]?.slots?.main?.["*"]
-    if (!content) return null
+  if (!pages) return null
 
-    // 1. First try infobox fields
-    const infoboxPatterns = [
-      /\|\s*death_cause\s*=\s*([^\n|]+)/i,
-      /\|\s*cause_of_death\s*=\s*([^\n|]+)/i,
-      /\|\s*death cause\s*=\s*([^\n|]+)/i,
-    ]
-
-    for (const pattern of infoboxPatterns) {
-      const match = content.match(pattern)
-      if (match && match[1]) {
-        const cause = cleanWikiMarkup(match[1])
-        if (cause) return cause
-      }
-    }
+  // Get the first (and only) page
+  const pageId = Object.keys(pages)[0]
+  if (!pageId || pageId === "-1") return null
 
-    // 2. Try to extract from death-related sections
-    // Match various section titles that might contain death info
-    // Note: Using [^=\n]* to prevent ReDoS; eslint-disable for remaining safe patterns
-    /* eslint-disable security/detect-unsafe-regex */
-    const sectionPatterns = [
-      /==\s*Death(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
-      /==\s*(?:Personal\s+life|Later\s+(?:life|years)|Final\s+years)(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
-    ]
-    /* eslint-enable security/detect-unsafe-regex */
-
-    for (const sectionPattern of sectionPatterns) {
-      const sectionMatch = content.match(sectionPattern)
-      if (sectionMatch) {
-        const sectionText = cleanWikiMarkup(sectionMatch[1])
-        const extracted = extractCauseFromText(sectionText)
-        if (extracted) return extracted
-      }
+  return pages[pageId]?.revisions?.[0]?.slots?.main?.["*"] || null
+}
+
+// Cause of death from the infobox fields of an article's wikitext
+function extractInfoboxCause(content: string): string | null {
+  const infoboxPatterns = [
+    /\|\s*death_cause\s*=\s*([^\n|]+)/i,
+    /\|\s*cause_of_death\s*=\s*([^\n|]+)/i,
+    /\|\s*death cause\s*=\s*([^\n|]+)/i,
+  ]
+
+  for (const pattern of infoboxPatterns) {
+    const match = content.match(pattern)
+    if (match && match[1]) {
+      const cause = cleanWikiMarkup(match[1])
+      if (cause) return cause
     }
+  }
+
+  return null
+}
 
-    // 3. Try opening paragraph for "died of X" or "died from X"
-    // Skip past infobox to get to actual article content
-    const afterInfobox = content.replace(/\{\{Infobox[\s\S]*?\}\}/gi, "")
-    const firstParagraph = afterInfobox.match(/'''[^']+'''.{0,500}/s)
-    if (firstParagraph) {
-      const paragraphText = cleanWikiMarkup(firstParagraph[0])
-      const extracted = extractCauseFromText(paragraphText)
+// Cause of death from the article prose: death-related sections, then the opening paragraph
+function extractProseCause(content: string): string | null {
+  // Match various section titles that might contain death info
+  // Note: Using [^=\n]* to prevent ReDoS; eslint-disable for remaining safe patterns
+  /* eslint-disable security/detect-unsafe-regex */
+  const sectionPatterns = [
+    /==\s*Death(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
+    /==\s*(?:Personal\s+life|Later\s+(?:life|years)|Final\s+years)(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
+  ]
+  /* eslint-enable security/detect-unsafe-regex */
+
+  for (const sectionPattern of sectionPatterns) {
+    const sectionMatch = content.match(sectionPattern)
+    if (sectionMatch) {
+      const sectionText = cleanWikiMarkup(sectionMatch[1])
+      const extracted = extractCauseFromText(sectionText)
       if (extracted) return extracted
     }
+  }
 
-    return null
-  } catch (error) {
-    console.log("Wikipedia fallback error:", error)
-    return null
+  // Skip past infobox to get to actual article content
+  const afterInfobox = content.replace(/\{\{Infobox[\s\S]*?\}\}/gi, "")
+  const firstParagraph = afterInfobox.match(/'''[^']+'''.{0,500}/s)
+  if (firstParagraph) {
+    const paragraphText = cleanWikiMarkup(firstParagraph[0])
+    const extracted = extractCauseFromText(paragraphText)
+    if (extracted) return extracted
   }
+
+  return null
 }
 
 // Clean wiki markup from text
@@ -464,76 +576,38 @@ function extractCauseFromText(text: string): string | null {
 // Get death details from Wikipedia article (1-2 sentences about circumstances)
 export async function getWikipediaDeathDetails(wikipediaUrl: string): Promise<string | null> {
   try {
-    // Extract article title from URL
-    const urlMatch = wikipediaUrl.match(/\/wiki\/(.+)$/)
-    if (!urlMatch) return null
-
-    const title = decodeURIComponent(urlMatch[1])
-
-    // Use Wikipedia API to get wikitext of the article
-    const apiUrl = `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(title)}&prop=revisions&rvprop=content&rvslots=main&format=json&origin=*`
-
-    const response = await fetch(apiUrl, {
-      headers: {
-        "User-Agent": "DeadOnFilm/1.0 (https://deadonfilm.com; contact@deadonfilm.com)",
-      },
-    })
-
-    if (!response.ok) return null
-
-    const data = (await response.json()) as WikipediaApiResponse
-    const pages = data.query?.pages
-
-    if (!pages) return null
-
-    // Get the first (and only) page
-    const pageId = Object.keys(pages)[0]
-    if (!pageId || pageId === "-1") return null
-
-    const content = pages[pageId]?.revisions?.[0]?.slots?.main?.["*"]
+    const content = await fetchWikipediaWikitext(wikipediaUrl)
     if (!content) return null
 
-    // Look for death-related sections and extract details
-    // Note: Using [^=\n]* to prevent ReDoS; eslint-disable for remaining safe patterns
-    /* eslint-disable security/detect-unsafe-regex */
-    const sectionPatterns = [
-      /==\s*Death(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
-      /==\s*(?:Personal\s+life|Later\s+(?:life|years)|Final\s+years)(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
-    ]
-    /* eslint-enable security/detect-unsafe-regex */
-
-    for (const sectionPattern of sectionPatterns) {
-      const sectionMatch = content.match(sectionPattern)
-      if (sectionMatch) {
-        const sectionText = cleanWikiMarkup(sectionMatch[1])
-        // Get first 1-2 sentences that mention death
-        const sentences = sectionText.split(/(?<=[.!?])\s+/)
-        const deathSentences = sentences.filter((s) =>
-          /died|death|passed away|succumbed|fatal|killed/i.test(s)
-        )
-
-        if (deathSentences.length > 0) {
-          // Take first 1-2 relevant sentences, max MAX_DEATH_DETAILS_LENGTH chars
-          let details = deathSentences.slice(0, 2).join(" ")
-          if (details.length > MAX_DEATH_DETAILS_LENGTH) {
-            details = details.substring(0, MAX_DEATH_DETAILS_LENGTH - 3) + "..."
-          }
-          return details
-        }
-      }
-    }
+    return extractDeathDetails(content)
+  } catch (error) {
+    console.log("Wikipedia details error:", error)
+    return null
+  }
+}
 
-    // Try opening paragraph for death details
-    const afterInfobox = content.replace(/\{\{Infobox[\s\S]*?\}\}/gi, "")
-    const firstParagraph = afterInfobox.match(/'''[^']+'''.{0,1000}/s)
-    if (firstParagraph) {
-      const paragraphText = cleanWikiMarkup(firstParagraph[0])
-      const sentences = paragraphText.split(/(?<=[.!?])\s+/)
+function extractDeathDetails(content: string): string | null {
+  // Look for death-related sections and extract details
+  // Note: Using [^=\n]* to prevent ReDoS; eslint-disable for remaining safe patterns
+  /* eslint-disable security/detect-unsafe-regex */
+  const sectionPatterns = [
+    /==\s*Death(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
+    /==\s*(?:Personal\s+life|Later\s+(?:life|years)|Final\s+years)(?:\s+and[^=\n]*)?\s*==\s*([\s\S]*?)(?===\s*\w|$)/i,
+  ]
+  /* eslint-enable security/detect-unsafe-regex */
+
+  for (const sectionPattern of sectionPatterns) {
+    const sectionMatch = content.match(sectionPattern)
+    if (sectionMatch) {
+      const sectionText = cleanWikiMarkup(sectionMatch[1])
+      // Get first 1-2 sentences that mention death
+      const sentences = sectionText.split(/(?<=[.!?])\s+/)
       const deathSentences = sentences.filter((s) =>
         /died|death|passed away|succumbed|fatal|killed/i.test(s)
       )
 
       if (deathSentences.length > 0) {
+        // Take first 1-2 relevant sentences, max MAX_DEATH_DETAILS_LENGTH chars
         let details = deathSentences.slice(0, 2).join(" ")
         if (details.length > MAX_DEATH_DETAILS_LENGTH) {
           details = details.substring(0, MAX_DEATH_DETAILS_LENGTH - 3) + "..."
@@ -541,12 +615,28 @@ export async function getWikipediaDeathDetails(wikipediaUrl: string): Promise<st
         return details
       }
     }
+  }
 
-    return null
-  } catch (error) {
-    console.log("Wikipedia details error:", error)
-    return null
+  // Try opening paragraph for death details
+  const afterInfobox = content.replace(/\{\{Infobox[\s\S]*?\}\}/gi, "")
+  const firstParagraph = afterInfobox.match(/'''[^']+'''.{0,1000}/s)
+  if (firstParagraph) {
+    const paragraphText = cleanWikiMarkup(firstParagraph[0])
+    const sentences = paragraphText.split(/(?<=[.!?])\s+/)
+    const deathSentences = sentences.filter((s) =>
+      /died|death|passed away|succumbed|fatal|killed/i.test(s)
+    )
+
+    if (deathSentences.length > 0) {
+      let details = deathSentences.slice(0, 2).join(" ")
+      if (details.length > MAX_DEATH_DETAILS_LENGTH) {
+        details = details.substring(0, MAX_DEATH_DETAILS_LENGTH - 3) + "..."
+      }
+      return details
+    }
   }
+
+  return null
 }
 
 interface WikipediaApiResponse {
@@ -12,6 +12,7 @@ vi.mock("../lib/tmdb.js", () => ({
 vi.mock("../lib/db.js", () => ({
   getActorFilmography: vi.fn(),
   getDeceasedPerson: vi.fn(),
+  getStoredCauseOfDeathAnswers: vi.fn(),
 }))
 
 describe("getActor", () => {
@@ -30,6 +31,7 @@ describe("getActor", () => {
     place_of_birth: "Los Angeles, CA",
     imdb_id: "nm1234567",
     popularity: 5.5,
+    gender: 2,
   }
 
   const mockDeceasedPerson = {
@@ -42,6 +44,7 @@ describe("getActor", () => {
     place_of_birth: "New York, NY",
     imdb_id: "nm7654321",
     popularity: 8.2,
+    gender: 1,
   }
 
   const mockFilmography = [
@@ -85,6 +88,8 @@ describe("getActor", () => {
       json: jsonSpy as Response["json"],
       status: statusSpy as Response["status"],
     }
+
+    vi.mocked(db.getStoredCauseOfDeathAnswers).mockResolvedValue([])
   })
 
   it("returns 400 for invalid actor ID", async () => {
@@ -161,8 +166,117 @@ describe("getActor", () => {
         wikipediaUrl: "https://en.wikipedia.org/wiki/Actor",
         ageAtDeath: 80,
         yearsLost: -5,
+        causeOfDeathSources: null,
+      },
+    })
+  })
+
+  it("shows the stored cause and scores each source's answer against it", async () => {
+    mockReq.params = { id: "67890" }
+    vi.mocked(tmdb.getPersonDetails).mockResolvedValueOnce(mockDeceasedPerson)
+    vi.mocked(db.getActorFilmography).mockResolvedValueOnce([])
+    vi.mocked(db.getDeceasedPerson).mockResolvedValueOnce({
+      ...mockDeceasedRecord,
+      cause_of_death: "heart failure",
+      cause_of_death_details: null,
+    })
+    vi.mocked(db.getStoredCauseOfDeathAnswers).mockResolvedValueOnce([
+      {
+        source: "claude",
+        cause_of_death: "Natural causes",
+        cause_of_death_details: null,
+        prompt_version: "cause-of-death@2",
+        model: "claude-3-haiku-20240307",
+      },
+      {
+        source: "wikidata",
+        cause_of_death: "heart failure",
+        cause_of_death_details: null,
+        prompt_version: null,
+        model: null,
+      },
+      {
+        source: "wikipedia_infobox",
+        cause_of_death: "congestive heart failure",
+        cause_of_death_details: null,
+        prompt_version: null,
+        model: null,
       },
+      {
+        source: "wikipedia_prose",
+        cause_of_death: "pneumonia",
+        cause_of_death_details: "She died in hospital after a long illness.",
+        prompt_version: null,
+        model: null,
+      },
+    ])
+
+    await getActor(mockReq as Request, mockRes as Response)
+
+    expect(db.getStoredCauseOfDeathAnswers).toHaveBeenCalledWith(67890)
+    const { deathInfo } = jsonSpy.mock.calls[0][0]
+    expect(deathInfo.causeOfDeath).toBe("heart failure")
+    expect(deathInfo.causeOfDeathDetails).toBeNull()
+    expect(deathInfo.causeOfDeathSources).toEqual({
+      agreement: 0.8,
+      sources: [
+        { source: "claude", causeOfDeath: "Natural causes", agrees: null },
+        { source: "wikidata", causeOfDeath: "heart failure", agrees: true },
+        { source: "wikipedia_infobox", causeOfDeath: "congestive heart failure", agrees: true },
+        { source: "wikipedia_prose", causeOfDeath: "pneumonia", agrees: false },
+      ],
+    })
+  })
+
+  it("keeps a stored cause the sources outvote, such as a moderator's edit", async () => {
+    mockReq.params = { id: "67890" }
+    vi.mocked(tmdb.getPersonDetails).mockResolvedValueOnce(mockDeceasedPerson)
+    vi.mocked(db.getActorFilmography).mockResolvedValueOnce([])
+    vi.mocked(db.getDeceasedPerson).mockResolvedValueOnce({
+      ...mockDeceasedRecord,
+      cause_of_death: "pneumonia",
+      cause_of_death_details: "Edited by a moderator.",
     })
+    vi.mocked(db.getStoredCauseOfDeathAnswers).mockResolvedValueOnce([
+      {
+        source: "claude",
+        cause_of_death: "Natural causes",
+        cause_of_death_details: null,
+        prompt_version: "cause-of-death@2",
+        model: "claude-3-haiku-20240307",
+      },
+      {
+        source: "wikidata",
+        cause_of_death: "heart failure",
+        cause_of_death_details: null,
+        prompt_version: null,
+        model: null,
+      },
+      {
+        source: "wikipedia_infobox",
+        cause_of_death: "congestive heart failure",
+        cause_of_death_details: null,
+        prompt_version: null,
+        model: null,
+      },
+      {
+        source: "wikipedia_prose",
+        cause_of_death: "pneumonia",
+        cause_of_death_details: "She died in hospital after a long illness.",
+        prompt_version: null,
+        model: null,
+      },
+    ])
+
+    await getActor(mockReq as Request, mockRes as Response)
+
+    const { deathInfo } = jsonSpy.mock.calls[0][0]
+    expect(deathInfo.causeOfDeath).toBe("pneumonia")
+    expect(deathInfo.causeOfDeathDetails).toBe("Edited by a moderator.")
+    expect(deathInfo.causeOfDeathSources.agreement).toBe(0.2)
+    expect(
+      deathInfo.causeOfDeathSources.sources.map((s: { agrees: boolean | null }) => s.agrees)
+    ).toEqual([null, false, false, true])
   })
 
   it("calculates age at death when deceased record not in database", async () => {
@@ -182,6 +296,7 @@ describe("getActor", () => {
           wikipediaUrl: null,
           ageAtDeath: 80, // 2020 - 1940
           yearsLost: null,
+          causeOfDeathSources: null,
         },
       })
     )
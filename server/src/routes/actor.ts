@@ -1,6 +1,7 @@
 import type { Request, Response } from "express"
 import { getPersonDetails } from "../lib/tmdb.js"
-import { getActorFilmography, getDeceasedPerson } from "../lib/db.js"
+import { getActorFilmography, getDeceasedPerson, getStoredCauseOfDeathAnswers } from "../lib/db.js"
+import { scoreCauseAgreement, type ResolvedCauseAnswer } from "../lib/cause-resolver.js"
 
 interface ActorProfileResponse {
   actor: {
@@ -27,6 +28,12 @@ interface ActorProfileResponse {
     wikipediaUrl: string | null
     ageAtDeath: number | null
     yearsLost: number | null
+    // What each source said, and how well they agree with the cause shown, when the
+    // enrichment worker has recorded their answers
+    causeOfDeathSources: {
+      agreement: number | null
+      sources: ResolvedCauseAnswer[]
+    } | null
   } | null
 }
 
@@ -49,12 +56,30 @@ export async function getActor(req: Request, res: Response) {
     if (person.deathday) {
       const deceasedRecord = await getDeceasedPerson(actorId)
       if (deceasedRecord) {
+        // The stored cause is shown, as everywhere else on the site; the sources'
+        // answers are scored against it as supporting detail
+        const storedAnswers = await getStoredCauseOfDeathAnswers(actorId)
+        const scored =
+          storedAnswers.length > 0
+            ? scoreCauseAgreement(
+                storedAnswers.map((a) => ({
+                  source: a.source,
+                  causeOfDeath: a.cause_of_death,
+                  details: a.cause_of_death_details,
+                })),
+                deceasedRecord.cause_of_death
+              )
+            : null
+
         deathInfo = {
           causeOfDeath: deceasedRecord.cause_of_death,
           causeOfDeathDetails: deceasedRecord.cause_of_death_details,
           wikipediaUrl: deceasedRecord.wikipedia_url,
           ageAtDeath: deceasedRecord.age_at_death,
           yearsLost: deceasedRecord.years_lost,
+          causeOfDeathSources: scored
+            ? { agreement: scored.agreement, sources: scored.answers }
+            : null,
         }
       } else {
         // Basic death info from TMDB only
@@ -64,6 +89,7 @@ export async function getActor(req: Request, res: Response) {
           wikipediaUrl: null,
           ageAtDeath: calculateAge(person.birthday, person.deathday),
           yearsLost: null,
+          causeOfDeathSources: null,
         }
       }
     }
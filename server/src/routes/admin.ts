@@ -0,0 +1,375 @@
+import type { Request, Response } from "express"
+import {
+  getDeathInfoHistory,
+  getDeathInfoHistoryEntry,
+  getDeceasedPerson,
+  getFeedbackQueue,
+  getLowConfidencePersons,
+  getStoredCauseOfDeathAnswers,
+  reviewPersonFeedback,
+  searchDeceasedPersons,
+  updateDeathInfoAsAdmin,
+  type AdminDeathInfoEdit,
+  type AuditContext,
+  type DeathInfoHistoryRecord,
+  type DeathInfoSnapshot,
+  type DeathInfoSource,
+  type DeceasedPersonRecord,
+  type FeedbackQueueRecord,
+  type FeedbackStatus,
+} from "../lib/db.js"
+import { LOW_CONFIDENCE_AGREEMENT } from "../lib/cause-resolver.js"
+
+// Moderation console API. Every route here sits behind requireAdmin, which puts
+// the signed-in team member's name in res.locals.adminUser.
+
+const PAGE_SIZE = 25
+const DEATH_INFO_SOURCES: DeathInfoSource[] = ["claude", "wikipedia", "admin", null]
+const FEEDBACK_STATUSES: FeedbackStatus[] = ["pending", "accepted", "rejected"]
+const WIKIPEDIA_URL_PATTERN = /^https:\/\/[a-z-]+\.wikipedia\.org\/wiki\/\S+$/
+const MAX_REASON_LENGTH = 500
+
+// Audited fields, by the names the rest of the admin API uses
+const HISTORY_FIELDS: [keyof DeathInfoSnapshot, string][] = [
+  ["birthday", "birthday"],
+  ["deathday", "deathday"],
+  ["cause_of_death", "causeOfDeath"],
+  ["cause_of_death_source", "causeOfDeathSource"],
+  ["cause_of_death_details", "causeOfDeathDetails"],
+  ["cause_of_death_details_source", "causeOfDeathDetailsSource"],
+  ["wikipedia_url", "wikipediaUrl"],
+  ["death_info_locked", "locked"],
+]
+
+function toAdminPerson(person: DeceasedPersonRecord) {
+  return {
+    id: person.tmdb_id,
+    name: person.name,
+    birthday: person.birthday,
+    deathday: person.deathday,
+    causeOfDeath: person.cause_of_death,
+    causeOfDeathSource: person.cause_of_death_source,
+    causeOfDeathDetails: person.cause_of_death_details,
+    causeOfDeathDetailsSource: person.cause_of_death_details_source,
+    wikipediaUrl: person.wikipedia_url,
+    profilePath: person.profile_path,
+    locked: person.death_info_locked ?? false,
+    agreement: person.cause_of_death_agreement ?? null,
+  }
+}
+
+function toFeedbackItem(item: FeedbackQueueRecord) {
+  return {
+    id: item.id,
+    personId: item.person_tmdb_id,
+    personName: item.person_name,
+    currentCauseOfDeath: item.cause_of_death,
+    deathday: item.deathday,
+    category: item.category,
+    message: item.message,
+    status: item.status,
+    createdAt: item.created_at,
+    reviewedAt: item.reviewed_at,
+    reviewedBy: item.reviewed_by,
+  }
+}
+
+// Only the fields an entry changed. Every non-empty field counts as changed in the
+// entry that created the record.
+function toHistoryEntry(entry: DeathInfoHistoryRecord) {
+  const changes = HISTORY_FIELDS.map(([column, field]) => ({
+    field,
+    from: entry.old_values?.[column] ?? null,
+    to: entry.new_values[column] ?? null,
+  })).filter((change) => change.from !== change.to)
+
+  return {
+    id: entry.id,
+    actor: entry.actor,
+    reason: entry.reason,
+    createdAt: entry.created_at,
+    changes,
+  }
+}
+
+function adminAudit(res: Response, reason: string | null): AuditContext {
+  return { actor: `admin:${res.locals.adminUser}`, reason }
+}
+
+function parsePage(value: unknown): number {
+  return Math.max(1, parseInt(value as string) || 1)
+}
+
+function pagination(page: number, totalCount: number) {
+  return { page, pageSize: PAGE_SIZE, totalCount, totalPages: Math.ceil(totalCount / PAGE_SIZE) }
+}
+
+// Who is signed in, so the SPA can check a token before storing it
+export function getAdminSession(_req: Request, res: Response) {
+  res.json({ user: res.locals.adminUser })
+}
+
+export async function searchAdminPersons(req: Request, res: Response) {
+  const query = typeof req.query.q === "string" ? req.query.q.trim() : ""
+  if (query.length < 2) {
+    return res
+      .status(400)
+      .json({ error: { message: "Search query must be at least 2 characters" } })
+  }
+
+  const page = parsePage(req.query.page)
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return res.json({ persons: [], pagination: pagination(1, 0) })
+    }
+
+    const { persons, totalCount } = await searchDeceasedPersons(query, {
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    })
+
+    res.json({ persons: persons.map(toAdminPerson), pagination: pagination(page, totalCount) })
+  } catch (error) {
+    console.error("Admin search error:", error)
+    res.status(500).json({ error: { message: "Failed to search persons" } })
+  }
+}
+
+export async function getAdminPerson(req: Request, res: Response) {
+  const personId = parseInt(req.params.id, 10)
+  if (!personId || isNaN(personId)) {
+    return res.status(400).json({ error: { message: "Invalid person ID" } })
+  }
+
+  try {
+    const [person, answers] = await Promise.all([
+      getDeceasedPerson(personId),
+      getStoredCauseOfDeathAnswers(personId),
+    ])
+    if (!person) {
+      return res.status(404).json({ error: { message: "Person not found" } })
+    }
+
+    res.json({
+      person: toAdminPerson(person),
+      sources: answers.map((a) => ({
+        source: a.source,
+        causeOfDeath: a.cause_of_death,
+        causeOfDeathDetails: a.cause_of_death_details,
+        promptVersion: a.prompt_version,
+        model: a.model,
+      })),
+    })
+  } catch (error) {
+    console.error("Admin person error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch person" } })
+  }
+}
+
+// Text fields may be a string (blank means clear) or null; undefined leaves them as is
+function parseTextField(value: unknown): string | null | undefined | false {
+  if (value === undefined) return undefined
+  if (value === null) return null
+  if (typeof value !== "string") return false
+  return value.trim() || null
+}
+
+/**
+ * Edit a person's death info. Only the fields present in the body change.
+ */
+export async function updateAdminPerson(req: Request, res: Response) {
+  const personId = parseInt(req.params.id, 10)
+  if (!personId || isNaN(personId)) {
+    return res.status(400).json({ error: { message: "Invalid person ID" } })
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>
+  const causeOfDeath = parseTextField(body.causeOfDeath)
+  const causeOfDeathDetails = parseTextField(body.causeOfDeathDetails)
+  const wikipediaUrl = parseTextField(body.wikipediaUrl)
+
+  if (causeOfDeath === false || causeOfDeathDetails === false || wikipediaUrl === false) {
+    return res.status(400).json({ error: { message: "Invalid death info" } })
+  }
+  for (const key of ["causeOfDeathSource", "causeOfDeathDetailsSource"]) {
+    if (key in body && !DEATH_INFO_SOURCES.includes(body[key] as DeathInfoSource)) {
+      return res.status(400).json({ error: { message: `Invalid ${key}` } })
+    }
+  }
+  if (wikipediaUrl && !WIKIPEDIA_URL_PATTERN.test(wikipediaUrl)) {
+    return res.status(400).json({ error: { message: "Invalid Wikipedia URL" } })
+  }
+  if ("locked" in body && typeof body.locked !== "boolean") {
+    return res.status(400).json({ error: { message: "Invalid locked flag" } })
+  }
+  const reason = parseTextField(body.reason)
+  if (reason === false || (reason && reason.length > MAX_REASON_LENGTH)) {
+    return res.status(400).json({ error: { message: "Invalid reason" } })
+  }
+
+  try {
+    const existing = await getDeceasedPerson(personId)
+    if (!existing) {
+      return res.status(404).json({ error: { message: "Person not found" } })
+    }
+
+    const edit: AdminDeathInfoEdit = {
+      cause_of_death: causeOfDeath === undefined ? existing.cause_of_death : causeOfDeath,
+      cause_of_death_source:
+        "causeOfDeathSource" in body
+          ? (body.causeOfDeathSource as DeathInfoSource)
+          : existing.cause_of_death_source,
+      cause_of_death_details:
+        causeOfDeathDetails === undefined ? existing.cause_of_death_details : causeOfDeathDetails,
+      cause_of_death_details_source:
+        "causeOfDeathDetailsSource" in body
+          ? (body.causeOfDeathDetailsSource as DeathInfoSource)
+          : existing.cause_of_death_details_source,
+      wikipedia_url: wikipediaUrl === undefined ? existing.wikipedia_url : wikipediaUrl,
+      death_info_locked:
+        typeof body.locked === "boolean" ? body.locked : (existing.death_info_locked ?? false),
+    }
+
+    const updated = await updateDeathInfoAsAdmin(personId, edit, adminAudit(res, reason ?? null))
+    if (!updated) {
+      return res.status(404).json({ error: { message: "Person not found" } })
+    }
+
+    console.log(`Admin ${res.locals.adminUser} updated death info for ${personId}`)
+    res.json({ person: toAdminPerson(updated) })
+  } catch (error) {
+    console.error("Admin update error:", error)
+    res.status(500).json({ error: { message: "Failed to update person" } })
+  }
+}
+
+// Every change to a person's death record, newest first
+export async function getAdminPersonHistory(req: Request, res: Response) {
+  const personId = parseInt(req.params.id, 10)
+  if (!personId || isNaN(personId)) {
+    return res.status(400).json({ error: { message: "Invalid person ID" } })
+  }
+
+  try {
+    const history = await getDeathInfoHistory(personId)
+    res.json({ history: history.map(toHistoryEntry) })
+  } catch (error) {
+    console.error("Admin history error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch history" } })
+  }
+}
+
+/**
+ * Restore the death info a history entry recorded. Birthday and death date come
+ * from TMDB and the lock is a moderation setting, so those stay as they are.
+ */
+export async function revertAdminPerson(req: Request, res: Response) {
+  const personId = parseInt(req.params.id, 10)
+  const entryId = parseInt(req.params.entryId, 10)
+  if (!personId || isNaN(personId) || !entryId || isNaN(entryId)) {
+    return res.status(400).json({ error: { message: "Invalid person or history ID" } })
+  }
+
+  try {
+    const [existing, entry] = await Promise.all([
+      getDeceasedPerson(personId),
+      getDeathInfoHistoryEntry(personId, entryId),
+    ])
+    if (!existing || !entry) {
+      return res.status(404).json({ error: { message: "History entry not found" } })
+    }
+
+    const version = entry.new_values
+    const updated = await updateDeathInfoAsAdmin(
+      personId,
+      {
+        cause_of_death: version.cause_of_death,
+        cause_of_death_source: version.cause_of_death_source,
+        cause_of_death_details: version.cause_of_death_details,
+        cause_of_death_details_source: version.cause_of_death_details_source,
+        wikipedia_url: version.wikipedia_url,
+        death_info_locked: existing.death_info_locked ?? false,
+      },
+      adminAudit(res, `Reverted to history entry ${entryId}`)
+    )
+    if (!updated) {
+      return res.status(404).json({ error: { message: "Person not found" } })
+    }
+
+    console.log(`Admin ${res.locals.adminUser} reverted ${personId} to history entry ${entryId}`)
+    res.json({ person: toAdminPerson(updated) })
+  } catch (error) {
+    console.error("Admin revert error:", error)
+    res.status(500).json({ error: { message: "Failed to revert person" } })
+  }
+}
+
+export async function getAdminFeedbackQueue(req: Request, res: Response) {
+  const status = (req.query.status as FeedbackStatus | undefined) ?? "pending"
+  if (!FEEDBACK_STATUSES.includes(status)) {
+    return res.status(400).json({ error: { message: "Invalid feedback status" } })
+  }
+
+  const page = parsePage(req.query.page)
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return res.json({ items: [], pagination: pagination(1, 0) })
+    }
+
+    const { items, totalCount } = await getFeedbackQueue(status, {
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    })
+
+    res.json({ items: items.map(toFeedbackItem), pagination: pagination(page, totalCount) })
+  } catch (error) {
+    console.error("Admin feedback queue error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch feedback" } })
+  }
+}
+
+export async function reviewAdminFeedback(req: Request, res: Response) {
+  const feedbackId = parseInt(req.params.id, 10)
+  if (!feedbackId || isNaN(feedbackId)) {
+    return res.status(400).json({ error: { message: "Invalid feedback ID" } })
+  }
+
+  const status = req.body?.status
+  if (status !== "accepted" && status !== "rejected") {
+    return res.status(400).json({ error: { message: "Status must be accepted or rejected" } })
+  }
+
+  try {
+    const found = await reviewPersonFeedback(feedbackId, status, res.locals.adminUser)
+    if (!found) {
+      return res.status(404).json({ error: { message: "Feedback not found" } })
+    }
+
+    res.json({ id: feedbackId, status })
+  } catch (error) {
+    console.error("Admin feedback review error:", error)
+    res.status(500).json({ error: { message: "Failed to review feedback" } })
+  }
+}
+
+export async function getAdminLowConfidenceQueue(req: Request, res: Response) {
+  const page = parsePage(req.query.page)
+
+  try {
+    if (!process.env.DATABASE_URL) {
+      return res.json({ persons: [], pagination: pagination(1, 0) })
+    }
+
+    const { persons, totalCount } = await getLowConfidencePersons(LOW_CONFIDENCE_AGREEMENT, {
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    })
+
+    res.json({ persons: persons.map(toAdminPerson), pagination: pagination(page, totalCount) })
+  } catch (error) {
+    console.error("Admin low confidence error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch low-confidence records" } })
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { Request, Response } from "express"
+import { getMortalityAnalytics } from "./analytics.js"
+import * as db from "../lib/db.js"
+
+vi.mock("../lib/db.js", () => ({
+  getCohortMortalityTotals: vi.fn(),
+}))
+
+describe("getMortalityAnalytics", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = {
+      query: {},
+    }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+  })
+
+  it("groups by genre by default", async () => {
+    vi.mocked(db.getCohortMortalityTotals).mockResolvedValueOnce([])
+
+    await getMortalityAnalytics(mockReq as Request, mockRes as Response)
+
+    expect(db.getCohortMortalityTotals).toHaveBeenCalledWith({
+      dimensions: ["genre"],
+      fromYear: undefined,
+      toYear: undefined,
+      genre: undefined,
+      language: undefined,
+      includeObscure: false,
+      minMovies: 5,
+    })
+    expect(jsonSpy).toHaveBeenCalledWith({ groupBy: ["genre"], groups: [] })
+  })
+
+  it("returns each group's SMR and interval, highest SMR first", async () => {
+    mockReq.query = { groupBy: "genre,decade" }
+    vi.mocked(db.getCohortMortalityTotals).mockResolvedValueOnce([
+      { genre: "Drama", decade: 1970, movieCount: 40, deaths: 90, expectedDeaths: 100 },
+      { genre: "Horror", decade: 1970, movieCount: 12, deaths: 60, expectedDeaths: 40 },
+    ])
+
+    await getMortalityAnalytics(mockReq as Request, mockRes as Response)
+
+    const response = jsonSpy.mock.calls[0][0]
+    expect(response.groupBy).toEqual(["genre", "decade"])
+    expect(response.groups.map((g: { genre: string }) => g.genre)).toEqual(["Horror", "Drama"])
+    expect(response.groups[0]).toMatchObject({ smr: 1.5, significant: true })
+    expect(response.groups[0].smrLow).toBeLessThan(1.5)
+    expect(response.groups[0].smrHigh).toBeGreaterThan(1.5)
+    expect(response.groups[1]).toMatchObject({ smr: 0.9, significant: false })
+  })
+
+  it("passes filters through", async () => {
+    mockReq.query = {
+      groupBy: "language",
+      from: "1960",
+      to: "1980",
+      genre: "Horror",
+      language: "en",
+      includeObscure: "true",
+      minMovies: "10",
+    }
+    vi.mocked(db.getCohortMortalityTotals).mockResolvedValueOnce([])
+
+    await getMortalityAnalytics(mockReq as Request, mockRes as Response)
+
+    expect(db.getCohortMortalityTotals).toHaveBeenCalledWith({
+      dimensions: ["language"],
+      fromYear: 1960,
+      toYear: 1989,
+      genre: "Horror",
+      language: "en",
+      includeObscure: true,
+      minMovies: 10,
+    })
+  })
+
+  it("returns 400 for an unknown dimension", async () => {
+    mockReq.query = { groupBy: "genre,director" }
+
+    await getMortalityAnalytics(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "groupBy must be a comma-separated list of genre, decade and language" },
+    })
+    expect(db.getCohortMortalityTotals).not.toHaveBeenCalled()
+  })
+
+  it("returns 400 for an invalid minMovies", async () => {
+    mockReq.query = { minMovies: "0" }
+
+    await getMortalityAnalytics(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "minMovies must be a positive integer" },
+    })
+  })
+
+  it("returns 500 on database error", async () => {
+    vi.mocked(db.getCohortMortalityTotals).mockRejectedValueOnce(new Error("Database error"))
+
+    await getMortalityAnalytics(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to fetch mortality analytics" },
+    })
+  })
+})
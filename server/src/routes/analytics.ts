@@ -0,0 +1,43 @@
+import type { Request, Response } from "express"
+import { getCohortMortalityTotals } from "../lib/db.js"
+import { parseCohortDimensions, summarizeCohort } from "../lib/cohort-mortality.js"
+
+// Mortality of movies grouped by any combination of genre, decade and language,
+// with each group's SMR and 95% interval, highest SMR first.
+// Supports filtering by decade range, genre, language, obscurity and minimum group size.
+export async function getMortalityAnalytics(req: Request, res: Response) {
+  const dimensions = parseCohortDimensions(req.query.groupBy ?? "genre")
+  if (!dimensions) {
+    return res.status(400).json({
+      error: { message: "groupBy must be a comma-separated list of genre, decade and language" },
+    })
+  }
+
+  const minMovies = req.query.minMovies ? parseInt(req.query.minMovies as string, 10) : 5
+  if (isNaN(minMovies) || minMovies < 1) {
+    return res.status(400).json({ error: { message: "minMovies must be a positive integer" } })
+  }
+
+  try {
+    const fromDecade = req.query.from ? parseInt(req.query.from as string) : undefined
+    const toDecade = req.query.to ? parseInt(req.query.to as string) : undefined
+
+    const totals = await getCohortMortalityTotals({
+      dimensions,
+      // Convert decades to year ranges
+      fromYear: fromDecade || undefined,
+      toYear: toDecade ? toDecade + 9 : undefined,
+      genre: (req.query.genre as string) || undefined,
+      language: (req.query.language as string) || undefined,
+      includeObscure: req.query.includeObscure === "true",
+      minMovies,
+    })
+
+    const groups = totals.map(summarizeCohort).sort((a, b) => b.smr - a.smr)
+
+    res.json({ groupBy: dimensions, groups })
+  } catch (error) {
+    console.error("Mortality analytics error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch mortality analytics" } })
+  }
+}
@@ -0,0 +1,100 @@
+import type { Request, Response } from "express"
+import { getCauseCounts, getCauseDeathStats, getDeathsByCause } from "../lib/db.js"
+import { CAUSE_REGISTRY, getCauseDefinition, type CauseDefinition } from "../lib/cause-registry.js"
+
+const PAGE_SIZE = 50
+
+// Index of every registered cause, most common first
+export async function getCausesIndex(_req: Request, res: Response) {
+  try {
+    const counts = process.env.DATABASE_URL
+      ? await getCauseCounts(CAUSE_REGISTRY)
+      : CAUSE_REGISTRY.map(() => 0)
+
+    const causes = CAUSE_REGISTRY.map((cause, i) => ({
+      slug: cause.slug,
+      label: cause.label,
+      description: cause.description,
+      count: counts[i],
+    })).sort((a, b) => b.count - a.count)
+
+    res.json({ causes })
+  } catch (error) {
+    console.error("Causes error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch causes" } })
+  }
+}
+
+export async function getCauseDeaths(req: Request, res: Response) {
+  const cause = getCauseDefinition(req.params.slug)
+  if (!cause) {
+    return res.status(404).json({ error: { message: "Cause not found" } })
+  }
+  return sendCauseDeaths(cause, req, res)
+}
+
+// Deprecated: the old /api/covid-deaths endpoint, kept as an alias for
+// /api/causes/covid-19 so existing clients and cached bundles keep working.
+// Its response is a superset of the old one (persons and pagination).
+export async function getCovidDeathsHandler(req: Request, res: Response) {
+  return sendCauseDeaths(getCauseDefinition("covid-19")!, req, res)
+}
+
+async function sendCauseDeaths(cause: CauseDefinition, req: Request, res: Response) {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1)
+  const offset = (page - 1) * PAGE_SIZE
+  const causeInfo = { slug: cause.slug, label: cause.label, description: cause.description }
+
+  try {
+    // Check if database is available
+    if (!process.env.DATABASE_URL) {
+      return res.json({
+        cause: causeInfo,
+        persons: [],
+        pagination: { page: 1, pageSize: PAGE_SIZE, totalCount: 0, totalPages: 0 },
+        stats: {
+          averageAgeAtDeath: null,
+          medianAgeAtDeath: null,
+          youngestAgeAtDeath: null,
+          oldestAgeAtDeath: null,
+        },
+        decades: [],
+      })
+    }
+
+    const [{ persons, totalCount }, stats] = await Promise.all([
+      getDeathsByCause(cause, { limit: PAGE_SIZE, offset }),
+      getCauseDeathStats(cause),
+    ])
+
+    res.json({
+      cause: causeInfo,
+      persons: persons.map((p, i) => ({
+        rank: offset + i + 1,
+        id: p.tmdb_id,
+        name: p.name,
+        deathday: p.deathday,
+        causeOfDeath: p.cause_of_death,
+        causeOfDeathDetails: p.cause_of_death_details,
+        profilePath: p.profile_path,
+        ageAtDeath: p.age_at_death,
+      })),
+      pagination: {
+        page,
+        pageSize: PAGE_SIZE,
+        totalCount,
+        totalPages: Math.ceil(totalCount / PAGE_SIZE),
+      },
+      stats: {
+        averageAgeAtDeath: stats.average_age,
+        medianAgeAtDeath: stats.median_age,
+        youngestAgeAtDeath: stats.youngest_age,
+        oldestAgeAtDeath: stats.oldest_age,
+      },
+      decades: stats.decades,
+    })
+  } catch (error) {
+    console.error("Cause deaths error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch deaths for cause" } })
+  }
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { Request, Response } from "express"
+import { getActorCollaboratorsRoute } from "./collaborators.js"
+import * as db from "../lib/db.js"
+import * as mortalityStats from "../lib/mortality-stats.js"
+
+// Mock the db module
+vi.mock("../lib/db.js", () => ({
+  getActorCollaborators: vi.fn(),
+  getActorFilmography: vi.fn(),
+}))
+
+// Mock the mortality-stats module
+vi.mock("../lib/mortality-stats.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/mortality-stats.js")>()),
+  loadLifeTables: vi.fn(),
+  scoreMovieMortality: vi.fn(),
+}))
+
+function collaborator(id: number, isDeceased: boolean, movieIds: number[]) {
+  return {
+    actor_tmdb_id: id,
+    actor_name: `Actor ${id}`,
+    is_deceased: isDeceased,
+    birthday: "1940-01-01",
+    deathday: isDeceased ? "2010-01-01" : null,
+    gender: 2,
+    profile_path: null,
+    movie_ids: movieIds,
+  }
+}
+
+function filmographyMovie(movieId: number, releaseYear: number) {
+  return {
+    movieId,
+    title: `Movie ${movieId}`,
+    releaseYear,
+    character: null,
+    posterPath: null,
+    deceasedCount: 0,
+    castCount: 10,
+  }
+}
+
+describe("getActorCollaboratorsRoute", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = {
+      params: { id: "1" },
+      query: {},
+    }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+
+    vi.mocked(db.getActorFilmography).mockResolvedValue([
+      filmographyMovie(10, 1975),
+      filmographyMovie(11, 1980),
+      filmographyMovie(12, 1985),
+      filmographyMovie(13, 1990),
+    ])
+    vi.mocked(mortalityStats.scoreMovieMortality).mockReturnValue({
+      actualDeaths: 1,
+      expectedDeaths: 1.25,
+    } as ReturnType<typeof mortalityStats.scoreMovieMortality>)
+  })
+
+  it("returns frequent collaborators with their status and shared movies", async () => {
+    vi.mocked(db.getActorCollaborators).mockResolvedValueOnce([
+      collaborator(1, false, [10, 11, 12, 13]),
+      collaborator(2, true, [10, 11, 12]),
+    ])
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(db.getActorCollaborators).toHaveBeenCalledWith(1, 3)
+    const response = jsonSpy.mock.calls[0][0]
+    expect(response.collaborators).toEqual([
+      {
+        id: 2,
+        name: "Actor 2",
+        isDeceased: true,
+        profilePath: null,
+        sharedMovieCount: 3,
+        movies: [
+          { id: 10, title: "Movie 10", releaseYear: 1975 },
+          { id: 11, title: "Movie 11", releaseYear: 1980 },
+          { id: 12, title: "Movie 12", releaseYear: 1985 },
+        ],
+      },
+    ])
+    expect(response.ensembles).toEqual([])
+  })
+
+  it("scores ensembles from their first movie together", async () => {
+    vi.mocked(db.getActorCollaborators).mockResolvedValueOnce([
+      collaborator(1, false, [10, 11, 12, 13]),
+      collaborator(2, true, [11, 12, 13]),
+      collaborator(3, false, [10, 11, 12, 13]),
+    ])
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(mortalityStats.loadLifeTables).toHaveBeenCalled()
+    expect(mortalityStats.scoreMovieMortality).toHaveBeenCalledWith(
+      1980,
+      expect.arrayContaining([expect.objectContaining({ tmdbId: 2, deathday: "2010-01-01" })])
+    )
+    expect(jsonSpy.mock.calls[0][0].ensembles).toEqual([
+      {
+        members: [
+          { id: 1, name: "Actor 1", isDeceased: false },
+          { id: 2, name: "Actor 2", isDeceased: true },
+          { id: 3, name: "Actor 3", isDeceased: false },
+        ],
+        movies: [
+          { id: 11, title: "Movie 11", releaseYear: 1980 },
+          { id: 12, title: "Movie 12", releaseYear: 1985 },
+          { id: 13, title: "Movie 13", releaseYear: 1990 },
+        ],
+        deceasedCount: 1,
+        actualDeaths: 1,
+        expectedDeaths: 1.3,
+        smr: 0.8,
+      },
+    ])
+  })
+
+  it("measures the SMR with deaths since the first movie together", async () => {
+    vi.mocked(db.getActorCollaborators).mockResolvedValueOnce([
+      collaborator(1, false, [10, 11, 12, 13]),
+      collaborator(2, true, [11, 12, 13]),
+      collaborator(3, true, [10, 11, 12, 13]),
+    ])
+    vi.mocked(mortalityStats.scoreMovieMortality).mockReturnValueOnce({
+      actualDeaths: 1,
+      expectedDeaths: 0.5,
+    } as ReturnType<typeof mortalityStats.scoreMovieMortality>)
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy.mock.calls[0][0].ensembles[0]).toMatchObject({
+      deceasedCount: 2,
+      actualDeaths: 1,
+      smr: 2,
+    })
+  })
+
+  it("leaves deceased members without a death date out of the scoring", async () => {
+    vi.mocked(db.getActorCollaborators).mockResolvedValueOnce([
+      collaborator(1, false, [10, 11, 12, 13]),
+      collaborator(2, false, [11, 12, 13]),
+      { ...collaborator(3, true, [10, 11, 12, 13]), deathday: null },
+    ])
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    const scored = vi.mocked(mortalityStats.scoreMovieMortality).mock.calls[0][1]
+    expect(scored.map((actor) => actor.tmdbId)).toEqual([1, 2])
+    expect(jsonSpy.mock.calls[0][0].ensembles[0].deceasedCount).toBe(1)
+  })
+
+  it("returns empty lists when the actor has no frequent collaborators", async () => {
+    vi.mocked(db.getActorCollaborators).mockResolvedValueOnce([])
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({
+      actorId: 1,
+      minMovies: 3,
+      collaborators: [],
+      ensembles: [],
+    })
+    expect(db.getActorFilmography).not.toHaveBeenCalled()
+  })
+
+  it("passes minMovies through", async () => {
+    mockReq.query = { minMovies: "5" }
+    vi.mocked(db.getActorCollaborators).mockResolvedValueOnce([])
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(db.getActorCollaborators).toHaveBeenCalledWith(1, 5)
+  })
+
+  it("returns 400 for an invalid minMovies", async () => {
+    mockReq.query = { minMovies: "1" }
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "minMovies must be an integer of at least 2" },
+    })
+    expect(db.getActorCollaborators).not.toHaveBeenCalled()
+  })
+
+  it("returns 400 for an invalid actor ID", async () => {
+    mockReq.params = { id: "abc" }
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "Invalid actor ID" } })
+  })
+
+  it("returns 500 on database error", async () => {
+    vi.mocked(db.getActorCollaborators).mockRejectedValueOnce(new Error("Database error"))
+
+    await getActorCollaboratorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to fetch collaborators" },
+    })
+  })
+})
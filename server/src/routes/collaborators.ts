@@ -0,0 +1,162 @@
+import type { Request, Response } from "express"
+import {
+  getActorCollaborators,
+  getActorFilmography,
+  type ActorFilmographyMovie,
+  type CollaboratorRecord,
+} from "../lib/db.js"
+import { findEnsembles } from "../lib/ensembles.js"
+import { getActuarialGender, loadLifeTables, scoreMovieMortality } from "../lib/mortality-stats.js"
+
+// Co-stars count as frequent collaborators from this many shared movies
+const DEFAULT_MIN_MOVIES = 3
+
+interface CollaborationMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+}
+
+interface CollaboratorResponse {
+  id: number
+  name: string
+  isDeceased: boolean
+  profilePath: string | null
+  sharedMovieCount: number
+  movies: CollaborationMovie[]
+}
+
+interface EnsembleResponse {
+  members: Array<{ id: number; name: string; isDeceased: boolean }>
+  movies: CollaborationMovie[]
+  deceasedCount: number
+  actualDeaths: number // Members who died since the group's first movie together
+  expectedDeaths: number // Since the group's first movie together
+  smr: number | null // actualDeaths / expectedDeaths, null when no deaths were expected
+}
+
+interface CollaboratorsResponse {
+  actorId: number
+  minMovies: number
+  collaborators: CollaboratorResponse[]
+  ensembles: EnsembleResponse[]
+}
+
+function toCollaborator(record: CollaboratorRecord) {
+  return { ...record, tmdbId: record.actor_tmdb_id, movieIds: record.movie_ids }
+}
+
+/**
+ * Actual and expected deaths among an ensemble's members between their first movie
+ * together and today. Deceased members without a known death date can't be placed
+ * in that window, so they're left out of the scoring.
+ */
+function scoreEnsemble(
+  members: CollaboratorRecord[],
+  movies: CollaborationMovie[]
+): Omit<EnsembleResponse, "members" | "movies"> {
+  const deceasedCount = members.filter((m) => m.is_deceased).length
+  const years = movies.map((m) => m.releaseYear).filter((y): y is number => y !== null)
+  if (years.length === 0) {
+    return { deceasedCount, actualDeaths: 0, expectedDeaths: 0, smr: null }
+  }
+
+  const { actualDeaths, expectedDeaths } = scoreMovieMortality(
+    Math.min(...years),
+    members
+      .filter((m) => !m.is_deceased || m.deathday !== null)
+      .map((m) => ({
+      tmdbId: m.actor_tmdb_id,
+      name: m.actor_name,
+      birthday: m.birthday,
+      deathday: m.deathday,
+      gender: getActuarialGender(m.gender),
+      birthCountry: null,
+    }))
+  )
+
+  return {
+    deceasedCount,
+    actualDeaths,
+    expectedDeaths: Math.round(expectedDeaths * 10) / 10,
+    smr: expectedDeaths > 0 ? Math.round((actualDeaths / expectedDeaths) * 100) / 100 : null,
+  }
+}
+
+export async function getActorCollaboratorsRoute(req: Request, res: Response) {
+  const actorId = parseInt(req.params.id, 10)
+
+  if (!actorId || isNaN(actorId)) {
+    return res.status(400).json({ error: { message: "Invalid actor ID" } })
+  }
+
+  const minMovies =
+    req.query.minMovies !== undefined ? Number(req.query.minMovies) : DEFAULT_MIN_MOVIES
+  if (!Number.isInteger(minMovies) || minMovies < 2) {
+    return res
+      .status(400)
+      .json({ error: { message: "minMovies must be an integer of at least 2" } })
+  }
+
+  try {
+    const records = await getActorCollaborators(actorId, minMovies)
+    const anchor = records.find((r) => r.actor_tmdb_id === actorId)
+    const others = records.filter((r) => r.actor_tmdb_id !== actorId)
+
+    const response: CollaboratorsResponse = {
+      actorId,
+      minMovies,
+      collaborators: [],
+      ensembles: [],
+    }
+
+    if (!anchor || others.length === 0) {
+      return res.json(response)
+    }
+
+    // Every shared movie is in the actor's own filmography
+    const filmography = await getActorFilmography(actorId)
+    const moviesById = new Map<number, ActorFilmographyMovie>(
+      filmography.map((movie) => [movie.movieId, movie])
+    )
+    const toMovies = (movieIds: number[]): CollaborationMovie[] =>
+      movieIds.flatMap((id) => {
+        const movie = moviesById.get(id)
+        return movie ? [{ id, title: movie.title, releaseYear: movie.releaseYear }] : []
+      })
+
+    response.collaborators = others.map((record) => ({
+      id: record.actor_tmdb_id,
+      name: record.actor_name,
+      isDeceased: record.is_deceased,
+      profilePath: record.profile_path,
+      sharedMovieCount: record.movie_ids.length,
+      movies: toMovies(record.movie_ids),
+    }))
+
+    const ensembles = findEnsembles(toCollaborator(anchor), others.map(toCollaborator), {
+      minMovies,
+    })
+    if (ensembles.length > 0) {
+      await loadLifeTables()
+    }
+
+    response.ensembles = ensembles.map((ensemble) => {
+      const movies = toMovies(ensemble.movieIds)
+      return {
+        members: ensemble.members.map((m) => ({
+          id: m.actor_tmdb_id,
+          name: m.actor_name,
+          isDeceased: m.is_deceased,
+        })),
+        movies,
+        ...scoreEnsemble(ensemble.members, movies),
+      }
+    })
+
+    res.json(response)
+  } catch (error) {
+    console.error("Collaborators error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch collaborators" } })
+  }
+}
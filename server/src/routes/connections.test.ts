@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { Request, Response } from "express"
+import { getConnections, searchConnectionActors } from "./connections.js"
+import * as db from "../lib/db.js"
+
+// Mock the db module
+vi.mock("../lib/db.js", () => ({
+  getCoStars: vi.fn(),
+  getActorSummaries: vi.fn(),
+  getMovies: vi.fn(),
+  searchActors: vi.fn(),
+}))
+
+// Co-star graph: 1 - 2 - 4 via living actor 2, and 1 - 3 - 5 - 4 via deceased actors 3 and 5
+const EDGES: Array<[number, number, number]> = [
+  [1, 2, 100],
+  [2, 4, 101],
+  [1, 3, 102],
+  [3, 5, 103],
+  [5, 4, 104],
+]
+const DECEASED = new Set([3, 5])
+
+function mockCoStars() {
+  vi.mocked(db.getCoStars).mockImplementation(async (actorIds, options = {}) =>
+    EDGES.flatMap(([a, b, movie]) => [
+      { actor_tmdb_id: a, co_star_tmdb_id: b, movie_tmdb_id: movie },
+      { actor_tmdb_id: b, co_star_tmdb_id: a, movie_tmdb_id: movie },
+    ]).filter(
+      (row) =>
+        actorIds.includes(row.actor_tmdb_id) &&
+        (!options.deceasedOnly ||
+          DECEASED.has(row.co_star_tmdb_id) ||
+          options.alwaysInclude?.includes(row.co_star_tmdb_id))
+    )
+  )
+  vi.mocked(db.getActorSummaries).mockImplementation(async (ids) =>
+    ids.map((id) => ({
+      actor_tmdb_id: id,
+      actor_name: `Actor ${id}`,
+      is_deceased: DECEASED.has(id),
+      profile_path: null,
+    }))
+  )
+  vi.mocked(db.getMovies).mockImplementation(
+    async (ids) =>
+      ids.map((id) => ({
+        tmdb_id: id,
+        title: `Movie ${id}`,
+        release_year: 1970,
+        poster_path: `/poster${id}.jpg`,
+      })) as Awaited<ReturnType<typeof db.getMovies>>
+  )
+}
+
+describe("getConnections", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = {
+      query: { from: "1", to: "4" },
+    }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+
+    mockCoStars()
+  })
+
+  it("returns the shortest movie chain between two actors", async () => {
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({
+      fromId: 1,
+      toId: 4,
+      degrees: 2,
+      throughDeceasedOnly: false,
+      deceasedCount: 0,
+      actors: [
+        { id: 1, name: "Actor 1", isDeceased: false, profilePath: null },
+        { id: 2, name: "Actor 2", isDeceased: false, profilePath: null },
+        { id: 4, name: "Actor 4", isDeceased: false, profilePath: null },
+      ],
+      movies: [
+        { id: 100, title: "Movie 100", releaseYear: 1970, posterPath: "/poster100.jpg" },
+        { id: 101, title: "Movie 101", releaseYear: 1970, posterPath: "/poster101.jpg" },
+      ],
+    })
+  })
+
+  it("prefers a path through deceased actors when asked", async () => {
+    mockReq.query = { from: "1", to: "4", prefer: "deceased" }
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    const response = jsonSpy.mock.calls[0][0]
+    expect(response.actors.map((a: { id: number }) => a.id)).toEqual([1, 3, 5, 4])
+    expect(response.degrees).toBe(3)
+    expect(response.throughDeceasedOnly).toBe(true)
+    expect(response.deceasedCount).toBe(2)
+    expect(db.getCoStars).toHaveBeenCalledWith([1], {
+      deceasedOnly: true,
+      alwaysInclude: [1, 4],
+    })
+  })
+
+  it("falls back to any path when no deceased-only path exists", async () => {
+    // Actor 2 only has living co-stars
+    mockReq.query = { from: "2", to: "3", prefer: "deceased" }
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    const response = jsonSpy.mock.calls[0][0]
+    expect(response.actors.map((a: { id: number }) => a.id)).toEqual([2, 1, 3])
+    expect(response.throughDeceasedOnly).toBe(false)
+    expect(response.deceasedCount).toBe(1)
+  })
+
+  it("returns an empty chain when the actors are not connected", async () => {
+    mockReq.query = { from: "1", to: "99" }
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({
+      fromId: 1,
+      toId: 99,
+      degrees: null,
+      throughDeceasedOnly: false,
+      deceasedCount: 0,
+      actors: [],
+      movies: [],
+    })
+  })
+
+  it("returns 400 for missing actor IDs", async () => {
+    mockReq.query = { from: "1" }
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "from and to must be actor IDs" },
+    })
+  })
+
+  it("returns 400 when both ends are the same actor", async () => {
+    mockReq.query = { from: "1", to: "1" }
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "from and to must be different actors" },
+    })
+  })
+
+  it("returns 400 for an invalid prefer value", async () => {
+    mockReq.query = { from: "1", to: "4", prefer: "living" }
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "prefer must be deceased" } })
+    expect(db.getCoStars).not.toHaveBeenCalled()
+  })
+
+  it("returns 500 on database error", async () => {
+    vi.mocked(db.getCoStars).mockRejectedValueOnce(new Error("Database error"))
+
+    await getConnections(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "Failed to find connection" } })
+  })
+})
+
+describe("searchConnectionActors", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    mockReq = { query: { q: "john" } }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: vi.fn().mockReturnThis() as Response["status"],
+    }
+  })
+
+  it("returns matching actors", async () => {
+    vi.mocked(db.searchActors).mockResolvedValueOnce([
+      {
+        actor_tmdb_id: 7,
+        actor_name: "John Actor",
+        is_deceased: true,
+        profile_path: "/john.jpg",
+        total_movies: 12,
+      },
+    ])
+
+    await searchConnectionActors(mockReq as Request, mockRes as Response)
+
+    expect(db.searchActors).toHaveBeenCalledWith("john")
+    expect(jsonSpy).toHaveBeenCalledWith({
+      actors: [
+        { id: 7, name: "John Actor", isDeceased: true, profilePath: "/john.jpg", totalMovies: 12 },
+      ],
+    })
+  })
+
+  it("returns no actors for short queries", async () => {
+    mockReq.query = { q: "j" }
+
+    await searchConnectionActors(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({ actors: [] })
+    expect(db.searchActors).not.toHaveBeenCalled()
+  })
+})
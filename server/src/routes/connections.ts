@@ -0,0 +1,164 @@
+import type { Request, Response } from "express"
+import {
+  getActorSummaries,
+  getCoStars,
+  getMovies,
+  searchActors,
+  type CoStarsOptions,
+} from "../lib/db.js"
+import {
+  findConnection,
+  type CoStarEdge,
+  type CoStarLookup,
+  type ConnectionPath,
+} from "../lib/connections.js"
+
+interface ConnectionActor {
+  id: number
+  name: string
+  isDeceased: boolean
+  profilePath: string | null
+}
+
+interface ConnectionMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+  posterPath: string | null
+}
+
+interface ConnectionsResponse {
+  fromId: number
+  toId: number
+  degrees: number | null // Movies in the chain, null when no connection was found
+  throughDeceasedOnly: boolean // Every actor between the two ends is deceased
+  deceasedCount: number // Deceased actors on the path, including the ends
+  actors: ConnectionActor[]
+  movies: ConnectionMovie[] // movies[i] connects actors[i] and actors[i + 1]
+}
+
+function coStarLookup(options: CoStarsOptions): CoStarLookup {
+  return async (actorIds) => {
+    const rows = await getCoStars(actorIds, options)
+    const coStars = new Map<number, CoStarEdge[]>()
+    for (const row of rows) {
+      const edges = coStars.get(row.actor_tmdb_id) ?? []
+      edges.push({ actorId: row.co_star_tmdb_id, movieId: row.movie_tmdb_id })
+      coStars.set(row.actor_tmdb_id, edges)
+    }
+    return coStars
+  }
+}
+
+async function describePath(path: ConnectionPath) {
+  const [actorRecords, movieRecords] = await Promise.all([
+    getActorSummaries(path.actorIds),
+    getMovies(path.movieIds),
+  ])
+  const actorsById = new Map(actorRecords.map((a) => [a.actor_tmdb_id, a]))
+  const moviesById = new Map(movieRecords.map((m) => [m.tmdb_id, m]))
+
+  const actors: ConnectionActor[] = path.actorIds.map((id) => {
+    const actor = actorsById.get(id)
+    return {
+      id,
+      name: actor?.actor_name ?? "Unknown",
+      isDeceased: actor?.is_deceased ?? false,
+      profilePath: actor?.profile_path ?? null,
+    }
+  })
+  const movies: ConnectionMovie[] = path.movieIds.map((id) => {
+    const movie = moviesById.get(id)
+    return {
+      id,
+      title: movie?.title ?? "Unknown",
+      releaseYear: movie?.release_year ?? null,
+      posterPath: movie?.poster_path ?? null,
+    }
+  })
+
+  return { actors, movies }
+}
+
+export async function getConnections(req: Request, res: Response) {
+  const fromId = parseInt(req.query.from as string, 10)
+  const toId = parseInt(req.query.to as string, 10)
+
+  if (!fromId || !toId || isNaN(fromId) || isNaN(toId)) {
+    return res.status(400).json({ error: { message: "from and to must be actor IDs" } })
+  }
+  if (fromId === toId) {
+    return res.status(400).json({ error: { message: "from and to must be different actors" } })
+  }
+
+  const prefer = req.query.prefer
+  if (prefer !== undefined && prefer !== "deceased") {
+    return res.status(400).json({ error: { message: "prefer must be deceased" } })
+  }
+
+  try {
+    // Try a path through deceased actors first, then fall back to any path
+    let path: ConnectionPath | null = null
+    let throughDeceasedOnly = false
+    if (prefer === "deceased") {
+      path = await findConnection(
+        fromId,
+        toId,
+        coStarLookup({ deceasedOnly: true, alwaysInclude: [fromId, toId] })
+      )
+      throughDeceasedOnly = path !== null
+    }
+    if (!path) {
+      path = await findConnection(fromId, toId, coStarLookup({}))
+    }
+
+    const response: ConnectionsResponse = {
+      fromId,
+      toId,
+      degrees: null,
+      throughDeceasedOnly: false,
+      deceasedCount: 0,
+      actors: [],
+      movies: [],
+    }
+
+    if (path) {
+      const { actors, movies } = await describePath(path)
+      response.degrees = movies.length
+      response.throughDeceasedOnly =
+        throughDeceasedOnly || actors.slice(1, -1).every((actor) => actor.isDeceased)
+      response.deceasedCount = actors.filter((actor) => actor.isDeceased).length
+      response.actors = actors
+      response.movies = movies
+    }
+
+    res.json(response)
+  } catch (error) {
+    console.error("Connections error:", error)
+    res.status(500).json({ error: { message: "Failed to find connection" } })
+  }
+}
+
+export async function searchConnectionActors(req: Request, res: Response) {
+  const query = ((req.query.q as string) || "").trim()
+
+  if (query.length < 2) {
+    return res.json({ actors: [] })
+  }
+
+  try {
+    const records = await searchActors(query)
+    res.json({
+      actors: records.map((record) => ({
+        id: record.actor_tmdb_id,
+        name: record.actor_name,
+        isDeceased: record.is_deceased,
+        profilePath: record.profile_path,
+        totalMovies: record.total_movies,
+      })),
+    })
+  } catch (error) {
+    console.error("Actor search error:", error)
+    res.status(500).json({ error: { message: "Failed to search actors" } })
+  }
+}
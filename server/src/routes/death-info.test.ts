@@ -5,9 +5,10 @@ import { getDeathInfoRoute } from "./death-info.js"
 // Mock the db module
 vi.mock("../lib/db.js", () => ({
   getDeceasedPersons: vi.fn(),
+  getEnrichmentJobStatuses: vi.fn(),
 }))
 
-import { getDeceasedPersons } from "../lib/db.js"
+import { getDeceasedPersons, getEnrichmentJobStatuses } from "../lib/db.js"
 
 describe("getDeathInfoRoute", () => {
   let mockReq: Partial<Request>
@@ -20,6 +21,7 @@ describe("getDeathInfoRoute", () => {
     vi.clearAllMocks()
     // Set DATABASE_URL so getDeceasedPersonsIfAvailable calls the mocked function
     process.env.DATABASE_URL = "postgresql://test"
+    vi.mocked(getEnrichmentJobStatuses).mockResolvedValue(new Map())
 
     jsonSpy = vi.fn()
     statusSpy = vi.fn().mockReturnThis()
@@ -228,4 +230,43 @@ describe("getDeathInfoRoute", () => {
       },
     })
   })
+
+  it("reports pending while any requested person has a queued or running job", async () => {
+    vi.mocked(getDeceasedPersons).mockResolvedValue(new Map())
+    vi.mocked(getEnrichmentJobStatuses).mockResolvedValue(
+      new Map([
+        [123, "done"],
+        [456, "running"],
+      ])
+    )
+
+    mockReq = {
+      params: { id: "389" },
+      query: { personIds: "123,456" },
+    }
+
+    await getDeathInfoRoute(mockReq as Request, mockRes as Response)
+
+    expect(getEnrichmentJobStatuses).toHaveBeenCalledWith([123, 456])
+    expect(jsonSpy).toHaveBeenCalledWith({ pending: true, deathInfo: {} })
+  })
+
+  it("is not pending once every job is done or dead", async () => {
+    vi.mocked(getDeceasedPersons).mockResolvedValue(new Map())
+    vi.mocked(getEnrichmentJobStatuses).mockResolvedValue(
+      new Map([
+        [123, "done"],
+        [456, "dead"],
+      ])
+    )
+
+    mockReq = {
+      params: { id: "389" },
+      query: { personIds: "123,456" },
+    }
+
+    await getDeathInfoRoute(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({ pending: false, deathInfo: {} })
+  })
 })
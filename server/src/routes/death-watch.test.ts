@@ -3,6 +3,7 @@ import type { Request, Response } from "express"
 import { getDeathWatchHandler } from "./death-watch.js"
 import * as db from "../lib/db.js"
 import * as mortalityStats from "../lib/mortality-stats.js"
+import * as mortalityForecast from "../lib/mortality-forecast.js"
 
 // Mock the db module
 vi.mock("../lib/db.js", () => ({
@@ -10,11 +11,23 @@ vi.mock("../lib/db.js", () => ({
 }))
 
 // Mock the mortality-stats module
-vi.mock("../lib/mortality-stats.js", () => ({
-  calculateCumulativeDeathProbability: vi.fn(),
-  getCohortLifeExpectancy: vi.fn(),
+vi.mock("../lib/mortality-stats.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/mortality-stats.js")>()),
+  loadLifeTables: vi.fn(),
+  scoreDeathRisks: vi.fn(),
 }))
 
+vi.mock("../lib/mortality-forecast.js", () => ({
+  forecastMortality: vi.fn(),
+}))
+
+// Give every actor on the page the same risk
+function mockDeathRisks(oneYearDeathProbability: number, lifeExpectancy: number | null) {
+  vi.mocked(mortalityStats.scoreDeathRisks).mockImplementation((actors) =>
+    actors.map(() => ({ oneYearDeathProbability, lifeExpectancy }))
+  )
+}
+
 describe("getDeathWatchHandler", () => {
   let mockReq: Partial<Request>
   let mockRes: Partial<Response>
@@ -30,6 +43,7 @@ describe("getDeathWatchHandler", () => {
       profile_path: "/path1.jpg",
       popularity: 10.5,
       total_movies: 25,
+      gender: null,
     },
     {
       actor_tmdb_id: 2,
@@ -39,9 +53,19 @@ describe("getDeathWatchHandler", () => {
       profile_path: "/path2.jpg",
       popularity: 8.2,
       total_movies: 15,
+      gender: 0,
     },
   ]
 
+  const mockProjection = {
+    totalCount: 2,
+    deceasedCount: 0,
+    livingCount: 2,
+    unknownAgeCount: 0,
+    projections: [{ year: 2030, expectedDeaths: 0.9, expectedDeathsLow: 0, expectedDeathsHigh: 2 }],
+    milestones: [],
+  }
+
   beforeEach(() => {
     vi.clearAllMocks()
 
@@ -60,8 +84,9 @@ describe("getDeathWatchHandler", () => {
     }
 
     // Default mock implementations
-    vi.mocked(mortalityStats.calculateCumulativeDeathProbability).mockResolvedValue(0.15)
-    vi.mocked(mortalityStats.getCohortLifeExpectancy).mockResolvedValue(75)
+    vi.mocked(mortalityStats.loadLifeTables).mockResolvedValue()
+    mockDeathRisks(0.15, 75)
+    vi.mocked(mortalityForecast.forecastMortality).mockResolvedValue(mockProjection)
   })
 
   it("returns death watch actors with default pagination", async () => {
@@ -110,6 +135,7 @@ describe("getDeathWatchHandler", () => {
         totalCount: 2,
         totalPages: 1,
       },
+      projection: mockProjection,
     })
   })
 
@@ -276,6 +302,7 @@ describe("getDeathWatchHandler", () => {
     expect(jsonSpy).toHaveBeenCalledWith({
       actors: [],
       pagination: { page: 1, pageSize: 50, totalCount: 0, totalPages: 0 },
+      projection: null,
     })
   })
 
@@ -298,9 +325,11 @@ describe("getDeathWatchHandler", () => {
 
     await getDeathWatchHandler(mockReq as Request, mockRes as Response)
 
+    expect(mortalityForecast.forecastMortality).not.toHaveBeenCalled()
     expect(jsonSpy).toHaveBeenCalledWith({
       actors: [],
       pagination: { page: 1, pageSize: 50, totalCount: 0, totalPages: 0 },
+      projection: null,
     })
   })
 
@@ -338,7 +367,7 @@ describe("getDeathWatchHandler", () => {
     )
   })
 
-  it("calculates death probability for each actor", async () => {
+  it("calculates death probability for each actor using their birth cohort", async () => {
     vi.mocked(db.getDeathWatchActors).mockResolvedValueOnce({
       actors: mockActors,
       totalCount: 2,
@@ -346,18 +375,58 @@ describe("getDeathWatchHandler", () => {
 
     await getDeathWatchHandler(mockReq as Request, mockRes as Response)
 
-    // Should be called once per actor for 1-year probability
-    expect(mortalityStats.calculateCumulativeDeathProbability).toHaveBeenCalledTimes(2)
-    expect(mortalityStats.calculateCumulativeDeathProbability).toHaveBeenCalledWith(
-      89,
-      90,
-      "combined"
-    )
-    expect(mortalityStats.calculateCumulativeDeathProbability).toHaveBeenCalledWith(
-      84,
-      85,
-      "combined"
-    )
+    // The whole page is scored in one batch after loading the tables
+    expect(mortalityStats.loadLifeTables).toHaveBeenCalledTimes(1)
+    expect(mortalityStats.scoreDeathRisks).toHaveBeenCalledTimes(1)
+    expect(mortalityStats.scoreDeathRisks).toHaveBeenCalledWith([
+      { age: 89, birthYear: 1935, gender: "combined", birthCountry: null },
+      { age: 84, birthYear: 1940, gender: "combined", birthCountry: null },
+    ])
+  })
+
+  it("forecasts deaths among the actors on the page", async () => {
+    vi.mocked(db.getDeathWatchActors).mockResolvedValueOnce({
+      actors: [mockActors[0], { ...mockActors[1], gender: 1 }],
+      totalCount: 2,
+    })
+
+    await getDeathWatchHandler(mockReq as Request, mockRes as Response)
+
+    expect(mortalityForecast.forecastMortality).toHaveBeenCalledWith([
+      {
+        tmdbId: 1,
+        name: "Actor One",
+        birthday: "1935-01-15",
+        deathday: null,
+        gender: "combined",
+        birthCountry: null,
+      },
+      {
+        tmdbId: 2,
+        name: "Actor Two",
+        birthday: "1940-06-20",
+        deathday: null,
+        gender: "female",
+        birthCountry: null,
+      },
+    ])
+  })
+
+  it("uses sex-specific tables when actor gender is known", async () => {
+    vi.mocked(db.getDeathWatchActors).mockResolvedValueOnce({
+      actors: [
+        { ...mockActors[0], gender: 1 },
+        { ...mockActors[1], gender: 2 },
+      ],
+      totalCount: 2,
+    })
+
+    await getDeathWatchHandler(mockReq as Request, mockRes as Response)
+
+    expect(mortalityStats.scoreDeathRisks).toHaveBeenCalledWith([
+      { age: 89, birthYear: 1935, gender: "female", birthCountry: null },
+      { age: 84, birthYear: 1940, gender: "male", birthCountry: null },
+    ])
   })
 
   it("calculates years remaining based on cohort life expectancy", async () => {
@@ -365,14 +434,10 @@ describe("getDeathWatchHandler", () => {
       actors: mockActors,
       totalCount: 2,
     })
-    vi.mocked(mortalityStats.getCohortLifeExpectancy).mockResolvedValue(85)
+    mockDeathRisks(0.15, 85)
 
     await getDeathWatchHandler(mockReq as Request, mockRes as Response)
 
-    expect(mortalityStats.getCohortLifeExpectancy).toHaveBeenCalledTimes(2)
-    expect(mortalityStats.getCohortLifeExpectancy).toHaveBeenCalledWith(1935, "combined")
-    expect(mortalityStats.getCohortLifeExpectancy).toHaveBeenCalledWith(1940, "combined")
-
     // Verify yearsRemaining calculations
     expect(jsonSpy).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -395,9 +460,7 @@ describe("getDeathWatchHandler", () => {
       actors: [mockActors[0]],
       totalCount: 1,
     })
-    vi.mocked(mortalityStats.getCohortLifeExpectancy).mockRejectedValue(
-      new Error("Birth year 1935 not found")
-    )
+    mockDeathRisks(0.15, null)
 
     await getDeathWatchHandler(mockReq as Request, mockRes as Response)
 
@@ -417,7 +480,7 @@ describe("getDeathWatchHandler", () => {
       actors: [mockActors[0]],
       totalCount: 1,
     })
-    vi.mocked(mortalityStats.calculateCumulativeDeathProbability).mockResolvedValue(0.123456789)
+    mockDeathRisks(0.123456789, 75)
 
     await getDeathWatchHandler(mockReq as Request, mockRes as Response)
 
@@ -1,9 +1,7 @@
 import type { Request, Response } from "express"
 import { getDeathWatchActors } from "../lib/db.js"
-import {
-  calculateCumulativeDeathProbability,
-  getCohortLifeExpectancy,
-} from "../lib/mortality-stats.js"
+import { getActuarialGender, loadLifeTables, scoreDeathRisks } from "../lib/mortality-stats.js"
+import { forecastMortality } from "../lib/mortality-forecast.js"
 
 interface DeathWatchActorResponse {
   rank: number
@@ -24,6 +22,7 @@ export async function getDeathWatchHandler(req: Request, res: Response) {
       return res.json({
         actors: [],
         pagination: { page: 1, pageSize: 50, totalCount: 0, totalPages: 0 },
+        projection: null,
       })
     }
 
@@ -44,47 +43,53 @@ export async function getDeathWatchHandler(req: Request, res: Response) {
       includeObscure,
     })
 
-    // Calculate death probabilities and years remaining for each actor
-    const enrichedActors: DeathWatchActorResponse[] = await Promise.all(
-      actors.map(async (actor, index) => {
-        const birthYear = new Date(actor.birthday).getFullYear()
+    // Score 1-year death probability and cohort life expectancy for the whole page at once
+    await loadLifeTables()
+    const risks = scoreDeathRisks(
+      actors.map((actor) => ({
+        age: actor.age,
+        birthYear: new Date(actor.birthday).getFullYear(),
+        gender: getActuarialGender(actor.gender),
+        birthCountry: null,
+      }))
+    )
 
-        // Calculate 1-year death probability
-        const deathProbability = await calculateCumulativeDeathProbability(
-          actor.age,
-          actor.age + 1,
-          "combined"
-        )
+    const enrichedActors: DeathWatchActorResponse[] = actors.map((actor, index) => {
+      const { oneYearDeathProbability, lifeExpectancy } = risks[index]
 
-        // Calculate years remaining based on cohort life expectancy
-        let yearsRemaining: number | null = null
-        try {
-          const lifeExpectancy = await getCohortLifeExpectancy(birthYear, "combined")
-          yearsRemaining = Math.max(0, Math.round((lifeExpectancy - actor.age) * 10) / 10)
-        } catch (err) {
-          // Cohort data may not be available for all birth years
-          // Log unexpected errors for debugging
-          if (err instanceof Error && !err.message.includes("not found")) {
-            console.error(
-              `Error calculating yearsRemaining for ${actor.actor_name} (birthYear: ${birthYear}):`,
-              err
-            )
-          }
-        }
+      // Years remaining based on cohort life expectancy (null when it isn't available)
+      const yearsRemaining =
+        lifeExpectancy !== null
+          ? Math.max(0, Math.round((lifeExpectancy - actor.age) * 10) / 10)
+          : null
 
-        return {
-          rank: offset + index + 1,
-          id: actor.actor_tmdb_id,
-          name: actor.actor_name,
-          age: actor.age,
-          birthday: actor.birthday,
-          profilePath: actor.profile_path,
-          deathProbability: Math.round(deathProbability * 10000) / 10000, // 4 decimal precision
-          yearsRemaining,
-          totalMovies: actor.total_movies,
-        }
-      })
-    )
+      return {
+        rank: offset + index + 1,
+        id: actor.actor_tmdb_id,
+        name: actor.actor_name,
+        age: actor.age,
+        birthday: actor.birthday,
+        profilePath: actor.profile_path,
+        deathProbability: Math.round(oneYearDeathProbability * 10000) / 10000, // 4 decimal precision
+        yearsRemaining,
+        totalMovies: actor.total_movies,
+      }
+    })
+
+    // Expected deaths among the actors on this page in the coming decades
+    const projection =
+      actors.length > 0
+        ? await forecastMortality(
+            actors.map((actor) => ({
+              tmdbId: actor.actor_tmdb_id,
+              name: actor.actor_name,
+              birthday: actor.birthday,
+              deathday: null,
+              gender: getActuarialGender(actor.gender),
+              birthCountry: null,
+            }))
+          )
+        : null
 
     res.json({
       actors: enrichedActors,
@@ -94,6 +99,7 @@ export async function getDeathWatchHandler(req: Request, res: Response) {
         totalCount,
         totalPages: Math.ceil(totalCount / pageSize),
       },
+      projection,
     })
   } catch (error) {
     console.error("Death Watch error:", error)
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { Request, Response } from "express"
+import { getCursedDirectorsRoute } from "./directors.js"
+import * as db from "../lib/db.js"
+
+// Mock the db module
+vi.mock("../lib/db.js", () => ({
+  getCursedDirectors: vi.fn(),
+}))
+
+describe("getCursedDirectorsRoute", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  const mockDirectors = [
+    {
+      person_tmdb_id: 10,
+      person_name: "Cursed Director",
+      is_deceased: true,
+      total_movies: 2,
+      total_actual_deaths: 25,
+      total_expected_deaths: 12.5,
+      curse_score: 12.5,
+      movies: [
+        { id: 1, title: "First Film", releaseYear: 1970, deceasedCount: 15, expectedDeaths: 7.5 },
+        { id: 2, title: "Second Film", releaseYear: 1975, deceasedCount: 10, expectedDeaths: 5 },
+      ],
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = {
+      query: {},
+    }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+  })
+
+  it("returns directors with their contributing movies and pagination metadata", async () => {
+    vi.mocked(db.getCursedDirectors).mockResolvedValueOnce({
+      directors: mockDirectors,
+      totalCount: 75,
+    })
+
+    await getCursedDirectorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({
+      directors: [
+        {
+          rank: 1,
+          id: 10,
+          name: "Cursed Director",
+          isDeceased: true,
+          totalMovies: 2,
+          totalActualDeaths: 25,
+          totalExpectedDeaths: 12.5,
+          curseScore: 12.5,
+          movies: mockDirectors[0].movies,
+        },
+      ],
+      role: "director",
+      pagination: {
+        page: 1,
+        pageSize: 50,
+        totalCount: 75,
+        totalPages: 2,
+      },
+    })
+  })
+
+  it("defaults to directors with at least 2 movies", async () => {
+    vi.mocked(db.getCursedDirectors).mockResolvedValueOnce({ directors: [], totalCount: 0 })
+
+    await getCursedDirectorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(db.getCursedDirectors).toHaveBeenCalledWith({
+      limit: 50,
+      offset: 0,
+      minMovies: 2,
+      role: "director",
+      fromYear: undefined,
+      toYear: undefined,
+    })
+  })
+
+  it("passes role, decade range and minimum movies through", async () => {
+    mockReq.query = { role: "producer", from: "1970", to: "1980", minMovies: "5", page: "2" }
+    vi.mocked(db.getCursedDirectors).mockResolvedValueOnce({ directors: [], totalCount: 0 })
+
+    await getCursedDirectorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(db.getCursedDirectors).toHaveBeenCalledWith({
+      limit: 50,
+      offset: 50,
+      minMovies: 5,
+      role: "producer",
+      fromYear: 1970,
+      toYear: 1989,
+    })
+  })
+
+  it("returns 400 for an invalid role", async () => {
+    mockReq.query = { role: "caterer" }
+
+    await getCursedDirectorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "role must be director or producer" },
+    })
+    expect(db.getCursedDirectors).not.toHaveBeenCalled()
+  })
+
+  it("returns 500 on database error", async () => {
+    vi.mocked(db.getCursedDirectors).mockRejectedValueOnce(new Error("Database error"))
+
+    await getCursedDirectorsRoute(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to fetch cursed directors" },
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import type { Request, Response } from "express"
+import { getCursedDirectors } from "../lib/db.js"
+import { RANKED_CREW_ROLES, type RankedCrewRole } from "../lib/key-crew.js"
+
+// Get list of cursed directors (directors whose casts have died at unusually high rates)
+// Supports pagination, role (director or producer), decade range, and minimum movies
+export async function getCursedDirectorsRoute(req: Request, res: Response) {
+  const role = (req.query.role ?? "director") as RankedCrewRole
+  if (!Object.hasOwn(RANKED_CREW_ROLES, role)) {
+    return res.status(400).json({ error: { message: "role must be director or producer" } })
+  }
+
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1)
+    const pageSize = Math.min(parseInt(req.query.limit as string) || 50, 100)
+    const offset = (page - 1) * pageSize
+
+    // Parse filter parameters
+    const fromDecade = req.query.from ? parseInt(req.query.from as string) : undefined
+    const toDecade = req.query.to ? parseInt(req.query.to as string) : undefined
+    const minMovies = req.query.minMovies ? parseInt(req.query.minMovies as string) : 2
+
+    // Convert decades to year ranges
+    const fromYear = fromDecade || undefined
+    const toYear = toDecade ? toDecade + 9 : undefined
+
+    const { directors, totalCount } = await getCursedDirectors({
+      limit: pageSize,
+      offset,
+      minMovies,
+      role,
+      fromYear,
+      toYear,
+    })
+
+    // Calculate rank based on global position (page offset + index)
+    const result = directors.map((director, index) => ({
+      rank: offset + index + 1,
+      id: director.person_tmdb_id,
+      name: director.person_name,
+      isDeceased: director.is_deceased,
+      totalMovies: director.total_movies,
+      totalActualDeaths: director.total_actual_deaths,
+      totalExpectedDeaths: director.total_expected_deaths,
+      curseScore: director.curse_score,
+      movies: director.movies,
+    }))
+
+    // Enforce max 20 pages
+    const totalPages = Math.min(Math.ceil(totalCount / pageSize), 20)
+
+    res.json({
+      directors: result,
+      role,
+      pagination: {
+        page,
+        pageSize,
+        totalCount,
+        totalPages,
+      },
+    })
+  } catch (error) {
+    console.error("Cursed directors error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch cursed directors" } })
+  }
+}
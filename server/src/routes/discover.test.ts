@@ -1,14 +1,30 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
 import type { Request, Response } from "express"
-import { getCursedMovies, getDiscoverMovie } from "./discover.js"
+import {
+  getBlessedMovies,
+  getCursedMovies,
+  getCursedMoviesFunnel,
+  getDiscoverMovie,
+} from "./discover.js"
 import * as db from "../lib/db.js"
 
 // Mock the db module
 vi.mock("../lib/db.js", () => ({
   getHighMortalityMovies: vi.fn(),
+  getLowMortalityMovies: vi.fn(),
   getForeverYoungMovies: vi.fn(),
+  getMortalityPopulation: vi.fn(),
+  getFunnelPlotMovies: vi.fn(),
 }))
 
+// Three movies with 2 deaths against 1 expected, 10 against 10, and 30 against 20
+const mockPopulation = {
+  movieCount: 3,
+  totalDeaths: 42,
+  totalExpectedDeaths: 31,
+  sumDeathsSquaredOverExpected: 4 + 10 + 45,
+}
+
 describe("getCursedMovies", () => {
   let mockReq: Partial<Request>
   let mockRes: Partial<Response>
@@ -31,6 +47,11 @@ describe("getCursedMovies", () => {
       living_count: 5,
       expected_deaths: 5,
       mortality_surprise_score: 2.0,
+      mortality_model: "ssa-2022-period-by-gender",
+      mortality_p_value: null,
+      expected_deaths_low: null,
+      expected_deaths_high: null,
+      cast_depth: "30" as const,
     },
     {
       tmdb_id: 2,
@@ -47,6 +68,11 @@ describe("getCursedMovies", () => {
       living_count: 5,
       expected_deaths: 4,
       mortality_surprise_score: 1.5,
+      mortality_model: "ssa-2022-period-by-gender",
+      mortality_p_value: null,
+      expected_deaths_low: null,
+      expected_deaths_high: null,
+      cast_depth: "30" as const,
     },
   ]
 
@@ -308,6 +334,259 @@ describe("getCursedMovies", () => {
       },
     })
   })
+
+  it("ranks by raw surprise score by default", async () => {
+    vi.mocked(db.getHighMortalityMovies).mockResolvedValueOnce({
+      movies: mockMovies,
+      totalCount: 2,
+    })
+
+    await getCursedMovies(mockReq as Request, mockRes as Response)
+
+    expect(db.getMortalityPopulation).not.toHaveBeenCalled()
+    expect(vi.mocked(db.getHighMortalityMovies).mock.calls[0][0]?.shrinkage).toBeUndefined()
+    expect(jsonSpy.mock.calls[0][0].movies[0].shrunkMortalityRatio).toBeNull()
+  })
+
+  it("ranks by shrunk SMR when rank=shrunk", async () => {
+    mockReq.query = { rank: "shrunk" }
+    vi.mocked(db.getMortalityPopulation).mockResolvedValueOnce(mockPopulation)
+    vi.mocked(db.getHighMortalityMovies).mockResolvedValueOnce({
+      movies: mockMovies,
+      totalCount: 2,
+    })
+
+    await getCursedMovies(mockReq as Request, mockRes as Response)
+
+    const shrinkage = vi.mocked(db.getHighMortalityMovies).mock.calls[0][0]?.shrinkage
+    expect(shrinkage?.alpha).toBeGreaterThan(0)
+    expect(shrinkage?.beta).toBeGreaterThan(0)
+
+    // 15 deaths against 5 expected is a raw SMR of 3, pulled toward the mean of 42 / 31
+    const [first] = jsonSpy.mock.calls[0][0].movies
+    expect(first.shrunkMortalityRatio).toBeLessThan(3)
+    expect(first.shrunkMortalityRatio).toBeGreaterThan(42 / 31)
+  })
+
+  it("returns 400 for an invalid rank", async () => {
+    mockReq.query = { rank: "best" }
+
+    await getCursedMovies(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "rank must be raw or shrunk" } })
+    expect(db.getHighMortalityMovies).not.toHaveBeenCalled()
+  })
+})
+
+describe("getCursedMoviesFunnel", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = {
+      query: {},
+    }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+  })
+
+  it("returns each movie's SMR with control limits around the population mean", async () => {
+    vi.mocked(db.getMortalityPopulation).mockResolvedValueOnce(mockPopulation)
+    vi.mocked(db.getFunnelPlotMovies).mockResolvedValueOnce([
+      { tmdb_id: 1, title: "Small", release_year: 1980, deceased_count: 2, expected_deaths: 1 },
+      { tmdb_id: 2, title: "Large", release_year: 1990, deceased_count: 30, expected_deaths: 20 },
+    ])
+
+    await getCursedMoviesFunnel(mockReq as Request, mockRes as Response)
+
+    const response = jsonSpy.mock.calls[0][0]
+    expect(response.mean).toBeCloseTo(42 / 31, 3)
+    expect(response.movies).toEqual([
+      {
+        id: 1,
+        title: "Small",
+        releaseYear: 1980,
+        deceasedCount: 2,
+        expectedDeaths: 1,
+        mortalityRatio: 2,
+      },
+      {
+        id: 2,
+        title: "Large",
+        releaseYear: 1990,
+        deceasedCount: 30,
+        expectedDeaths: 20,
+        mortalityRatio: 1.5,
+      },
+    ])
+    expect(response.limits.length).toBeGreaterThan(0)
+    expect(response.limits[response.limits.length - 1].expectedDeaths).toBe(20)
+  })
+
+  it("passes decade and obscurity filters through", async () => {
+    mockReq.query = { from: "1970", to: "1980", includeObscure: "true" }
+    vi.mocked(db.getMortalityPopulation).mockResolvedValueOnce(mockPopulation)
+    vi.mocked(db.getFunnelPlotMovies).mockResolvedValueOnce([])
+
+    await getCursedMoviesFunnel(mockReq as Request, mockRes as Response)
+
+    expect(db.getFunnelPlotMovies).toHaveBeenCalledWith({
+      fromYear: 1970,
+      toYear: 1989,
+      includeObscure: true,
+    })
+  })
+
+  it("returns an empty plot when no movies have statistics", async () => {
+    vi.mocked(db.getMortalityPopulation).mockResolvedValueOnce({
+      movieCount: 0,
+      totalDeaths: 0,
+      totalExpectedDeaths: 0,
+      sumDeathsSquaredOverExpected: 0,
+    })
+    vi.mocked(db.getFunnelPlotMovies).mockResolvedValueOnce([])
+
+    await getCursedMoviesFunnel(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({ mean: null, movies: [], limits: [] })
+  })
+
+  it("returns 500 on database error", async () => {
+    vi.mocked(db.getMortalityPopulation).mockRejectedValueOnce(new Error("Database error"))
+    vi.mocked(db.getFunnelPlotMovies).mockResolvedValueOnce([])
+
+    await getCursedMoviesFunnel(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to fetch cursed movies funnel" },
+    })
+  })
+})
+
+describe("getBlessedMovies", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  const mockMovie = {
+    tmdb_id: 3,
+    title: "Blessed Movie",
+    release_date: "1960-01-01",
+    release_year: 1960,
+    poster_path: "/poster3.jpg",
+    genres: ["Comedy"],
+    original_language: "en",
+    popularity: 12,
+    vote_average: 7.1,
+    deceased_count: 4,
+    cast_count: 20,
+    living_count: 16,
+    expected_deaths: 12.34,
+    mortality_surprise_score: -0.676,
+    mortality_model: "ssa-2022-period-by-gender",
+    mortality_p_value: 0.001,
+    expected_deaths_low: 7,
+    expected_deaths_high: 18,
+    cast_depth: "30" as const,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = {
+      query: {},
+    }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+  })
+
+  it("returns movies with survivors beating the odds and pagination metadata", async () => {
+    vi.mocked(db.getLowMortalityMovies).mockResolvedValueOnce({
+      movies: [mockMovie],
+      totalCount: 60,
+    })
+
+    await getBlessedMovies(mockReq as Request, mockRes as Response)
+
+    expect(jsonSpy).toHaveBeenCalledWith({
+      movies: [
+        {
+          rank: 1,
+          id: 3,
+          title: "Blessed Movie",
+          releaseYear: 1960,
+          posterPath: "/poster3.jpg",
+          deceasedCount: 4,
+          castCount: 20,
+          expectedDeaths: 12.34,
+          mortalitySurpriseScore: -0.676,
+          survivorsBeatingOdds: 8.3,
+        },
+      ],
+      pagination: {
+        page: 1,
+        pageSize: 50,
+        totalCount: 60,
+        totalPages: 2,
+      },
+    })
+  })
+
+  it("converts expected deaths returned as a string", async () => {
+    vi.mocked(db.getLowMortalityMovies).mockResolvedValueOnce({
+      movies: [{ ...mockMovie, expected_deaths: "12.34" as unknown as number }],
+      totalCount: 1,
+    })
+
+    await getBlessedMovies(mockReq as Request, mockRes as Response)
+
+    const [movie] = jsonSpy.mock.calls[0][0].movies
+    expect(movie.expectedDeaths).toBe(12.34)
+    expect(movie.survivorsBeatingOdds).toBe(8.3)
+  })
+
+  it("passes pagination, decade and obscurity filters through", async () => {
+    mockReq.query = { page: "3", limit: "10", from: "1950", to: "1960", includeObscure: "true" }
+    vi.mocked(db.getLowMortalityMovies).mockResolvedValueOnce({ movies: [], totalCount: 0 })
+
+    await getBlessedMovies(mockReq as Request, mockRes as Response)
+
+    expect(db.getLowMortalityMovies).toHaveBeenCalledWith({
+      limit: 10,
+      offset: 20,
+      fromYear: 1950,
+      toYear: 1969,
+      includeObscure: true,
+    })
+  })
+
+  it("returns 500 on database error", async () => {
+    vi.mocked(db.getLowMortalityMovies).mockRejectedValueOnce(new Error("Database error"))
+
+    await getBlessedMovies(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to fetch blessed movies" },
+    })
+  })
 })
 
 describe("getDiscoverMovie", () => {
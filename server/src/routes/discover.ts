@@ -1,5 +1,20 @@
 import type { Request, Response } from "express"
-import { getHighMortalityMovies, getMaxValidMinDeaths, getForeverYoungMovies } from "../lib/db.js"
+import {
+  getHighMortalityMovies,
+  getLowMortalityMovies,
+  getMaxValidMinDeaths,
+  getForeverYoungMovies,
+  getMortalityPopulation,
+  getFunnelPlotMovies,
+} from "../lib/db.js"
+import {
+  calculateFunnelLimits,
+  estimateShrinkagePrior,
+  shrinkMortalityRatio,
+} from "../lib/mortality-shrinkage.js"
+
+const CURSED_MOVIE_RANKINGS = ["raw", "shrunk"] as const
+type CursedMovieRanking = (typeof CURSED_MOVIE_RANKINGS)[number]
 
 interface DiscoverMovieResponse {
   id: number
@@ -48,22 +63,27 @@ export async function getDiscoverMovie(req: Request, res: Response) {
 }
 
 // Get list of high-mortality movies for leaderboard page
-// Supports pagination and filtering by decade range and minimum deaths
+// Supports pagination and filtering by decade range and minimum deaths.
+// rank=shrunk orders by empirical-Bayes shrunk SMR instead of the raw surprise score.
 export async function getCursedMovies(req: Request, res: Response) {
+  const ranking = (req.query.rank ?? "raw") as CursedMovieRanking
+  if (!CURSED_MOVIE_RANKINGS.includes(ranking)) {
+    return res.status(400).json({ error: { message: "rank must be raw or shrunk" } })
+  }
+
   try {
     const page = Math.max(1, parseInt(req.query.page as string) || 1)
     const pageSize = Math.min(parseInt(req.query.limit as string) || 50, 100)
     const offset = (page - 1) * pageSize
 
     // Parse filter parameters
-    const fromDecade = req.query.from ? parseInt(req.query.from as string) : undefined
-    const toDecade = req.query.to ? parseInt(req.query.to as string) : undefined
+    const { fromYear, toYear, includeObscure } = parseCursedMovieFilters(req)
     const minDeadActors = req.query.minDeaths ? parseInt(req.query.minDeaths as string) : 3
-    const includeObscure = req.query.includeObscure === "true"
 
-    // Convert decades to year ranges
-    const fromYear = fromDecade || undefined
-    const toYear = toDecade ? toDecade + 9 : undefined
+    // The prior is fitted to every movie, not just the filtered ones, so a movie's
+    // shrunk SMR doesn't change with the filters
+    const prior =
+      ranking === "shrunk" ? estimateShrinkagePrior(await getMortalityPopulation()) : null
 
     const { movies, totalCount } = await getHighMortalityMovies({
       limit: pageSize,
@@ -72,6 +92,7 @@ export async function getCursedMovies(req: Request, res: Response) {
       toYear,
       minDeadActors,
       includeObscure,
+      shrinkage: prior ? { alpha: prior.alpha, beta: prior.beta } : undefined,
     })
 
     // Calculate rank based on global position (page offset + index)
@@ -85,6 +106,16 @@ export async function getCursedMovies(req: Request, res: Response) {
       castCount: movie.cast_count,
       expectedDeaths: movie.expected_deaths,
       mortalitySurpriseScore: movie.mortality_surprise_score,
+      // expected_deaths is DECIMAL, which pg returns as a string
+      shrunkMortalityRatio: prior
+        ? Math.round(
+            shrinkMortalityRatio(
+              movie.deceased_count ?? 0,
+              Number(movie.expected_deaths ?? 0),
+              prior
+            ) * 1000
+          ) / 1000
+        : null,
     }))
 
     // Enforce max 20 pages
@@ -105,6 +136,110 @@ export async function getCursedMovies(req: Request, res: Response) {
   }
 }
 
+// Get list of movies whose casts outlived expectations (significantly fewer deaths
+// than expected), with the same pagination and filters as the cursed leaderboard
+export async function getBlessedMovies(req: Request, res: Response) {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1)
+    const pageSize = Math.min(parseInt(req.query.limit as string) || 50, 100)
+    const offset = (page - 1) * pageSize
+
+    const { fromYear, toYear, includeObscure } = parseCursedMovieFilters(req)
+
+    const { movies, totalCount } = await getLowMortalityMovies({
+      limit: pageSize,
+      offset,
+      fromYear,
+      toYear,
+      includeObscure,
+    })
+
+    const result = movies.map((movie, index) => {
+      // expected_deaths is DECIMAL, which pg returns as a string
+      const expectedDeaths = Number(movie.expected_deaths ?? 0)
+      const deceasedCount = movie.deceased_count ?? 0
+
+      return {
+        rank: offset + index + 1,
+        id: movie.tmdb_id,
+        title: movie.title,
+        releaseYear: movie.release_year,
+        posterPath: movie.poster_path,
+        deceasedCount,
+        castCount: movie.cast_count,
+        expectedDeaths,
+        mortalitySurpriseScore: movie.mortality_surprise_score,
+        // Cast members still alive who would be expected to have died by now
+        survivorsBeatingOdds: Math.round((expectedDeaths - deceasedCount) * 10) / 10,
+      }
+    })
+
+    // Enforce max 20 pages
+    const totalPages = Math.min(Math.ceil(totalCount / pageSize), 20)
+
+    res.json({
+      movies: result,
+      pagination: {
+        page,
+        pageSize,
+        totalCount,
+        totalPages,
+      },
+    })
+  } catch (error) {
+    console.error("Blessed movies error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch blessed movies" } })
+  }
+}
+
+// Decade range and obscurity filters shared by the leaderboards and the funnel plot
+function parseCursedMovieFilters(req: Request) {
+  const fromDecade = req.query.from ? parseInt(req.query.from as string) : undefined
+  const toDecade = req.query.to ? parseInt(req.query.to as string) : undefined
+
+  // Convert decades to year ranges
+  return {
+    fromYear: fromDecade || undefined,
+    toYear: toDecade ? toDecade + 9 : undefined,
+    includeObscure: req.query.includeObscure === "true",
+  }
+}
+
+// Get every movie's SMR against its expected deaths, with the funnel plot's
+// control limits around the population mean
+export async function getCursedMoviesFunnel(req: Request, res: Response) {
+  try {
+    const filters = parseCursedMovieFilters(req)
+    const [population, movies] = await Promise.all([
+      getMortalityPopulation(),
+      getFunnelPlotMovies(filters),
+    ])
+
+    const prior = estimateShrinkagePrior(population)
+    if (!prior) {
+      return res.json({ mean: null, movies: [], limits: [] })
+    }
+
+    const maxExpectedDeaths = movies.reduce((max, m) => Math.max(max, m.expected_deaths), 0)
+
+    res.json({
+      mean: Math.round(prior.mean * 1000) / 1000,
+      movies: movies.map((movie) => ({
+        id: movie.tmdb_id,
+        title: movie.title,
+        releaseYear: movie.release_year,
+        deceasedCount: movie.deceased_count,
+        expectedDeaths: movie.expected_deaths,
+        mortalityRatio: Math.round((movie.deceased_count / movie.expected_deaths) * 1000) / 1000,
+      })),
+      limits: calculateFunnelLimits(prior.mean, maxExpectedDeaths),
+    })
+  } catch (error) {
+    console.error("Cursed movies funnel error:", error)
+    res.status(500).json({ error: { message: "Failed to fetch cursed movies funnel" } })
+  }
+}
+
 // Get filter options for cursed movies page
 export async function getCursedMoviesFilters(_req: Request, res: Response) {
   try {
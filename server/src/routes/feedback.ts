@@ -0,0 +1,75 @@
+import type { Request, Response } from "express"
+import { countRecentFeedback, createPersonFeedback } from "../lib/db.js"
+import {
+  FEEDBACK_RATE_LIMIT,
+  FEEDBACK_RATE_WINDOW_MS,
+  MAX_FEEDBACK_MESSAGE_LENGTH,
+  hashSubmitter,
+  isFeedbackCategory,
+} from "../lib/feedback.js"
+
+interface FeedbackBody {
+  category?: unknown
+  message?: unknown
+  website?: unknown // Honeypot: hidden from readers, so only bots fill it in
+}
+
+// Report a problem with a person's death information. Reports are queued for
+// review and never change the person's record directly.
+export async function submitPersonFeedback(req: Request, res: Response) {
+  const personId = parseInt(req.params.id, 10)
+
+  if (!personId || isNaN(personId)) {
+    return res.status(400).json({ error: { message: "Invalid person ID" } })
+  }
+
+  const body = (req.body ?? {}) as FeedbackBody
+
+  // Pretend to accept bot submissions so they don't learn to skip the honeypot
+  if (typeof body.website === "string" && body.website.trim() !== "") {
+    return res.status(201).json({ received: true })
+  }
+
+  if (!isFeedbackCategory(body.category)) {
+    return res.status(400).json({ error: { message: "Invalid feedback category" } })
+  }
+
+  const message = typeof body.message === "string" ? body.message.trim() : ""
+  if (!message) {
+    return res.status(400).json({ error: { message: "Please describe the problem" } })
+  }
+  if (message.length > MAX_FEEDBACK_MESSAGE_LENGTH) {
+    return res.status(400).json({
+      error: { message: `Message must be ${MAX_FEEDBACK_MESSAGE_LENGTH} characters or fewer` },
+    })
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return res.status(503).json({ error: { message: "Feedback is not available right now" } })
+  }
+
+  try {
+    const submitterHash = hashSubmitter(req.ip || "unknown")
+    const recent = await countRecentFeedback(
+      submitterHash,
+      new Date(Date.now() - FEEDBACK_RATE_WINDOW_MS)
+    )
+    if (recent >= FEEDBACK_RATE_LIMIT) {
+      return res
+        .status(429)
+        .json({ error: { message: "Too many reports. Please try again later." } })
+    }
+
+    await createPersonFeedback({
+      person_tmdb_id: personId,
+      category: body.category,
+      message,
+      submitter_hash: submitterHash,
+    })
+
+    res.status(201).json({ received: true })
+  } catch (error) {
+    console.error("Feedback error:", error)
+    res.status(500).json({ error: { message: "Failed to submit feedback" } })
+  }
+}
@@ -1,26 +1,56 @@
 import type { Request, Response } from "express"
-import { getMovieDetails, getMovieCredits, batchGetPersonDetails } from "../lib/tmdb.js"
-import { getCauseOfDeath, type DeathInfoSource } from "../lib/wikidata.js"
+import {
+  getMovieDetails,
+  getMovieCredits,
+  batchGetPersonDetails,
+  type TMDBPerson,
+} from "../lib/tmdb.js"
 import {
   getDeceasedPersons,
   batchUpsertDeceasedPersons,
-  updateDeathInfo,
+  enqueueEnrichmentJobs,
+  getEnrichmentJobStatuses,
   upsertMovie,
   batchUpsertActorAppearances,
+  batchUpsertCrewAppearances,
   type DeceasedPersonRecord,
   type ActorAppearanceRecord,
+  type CrewAppearanceRecord,
+  type DeathInfoSource,
+  type EnrichmentJobStatus,
 } from "../lib/db.js"
 import {
   calculateMovieMortality,
   calculateYearsLost,
+  getActuarialGender,
+  MORTALITY_MODEL,
   type ActorForMortality,
+  type ActuarialGender,
 } from "../lib/mortality-stats.js"
-import { buildMovieRecord, buildActorAppearanceRecord } from "../lib/movie-cache.js"
+import type { MortalitySignificance } from "../lib/mortality-significance.js"
+import { resolveBirthCountry } from "../lib/birthplace.js"
+import { predictLastSurvivor } from "../lib/last-survivor.js"
+import {
+  buildMovieRecord,
+  buildActorAppearanceRecord,
+  buildCrewAppearanceRecords,
+} from "../lib/movie-cache.js"
+import {
+  DEFAULT_CAST_DEPTH,
+  getBillingWeight,
+  limitCast,
+  parseCastDepth,
+  parseCastWeighting,
+  type CastDepth,
+  type CastWeighting,
+} from "../lib/cast-depth.js"
+import { selectKeyCrew, selectProducers, type KeyCrewMember } from "../lib/key-crew.js"
 
 interface DeceasedActor {
   id: number
   name: string
-  character: string
+  character: string | null // Null for crew
+  job?: string // Key crew job(s), e.g. "Director, Screenplay"
   profile_path: string | null
   birthday: string | null
   deathday: string
@@ -38,12 +68,40 @@ interface DeceasedActor {
 interface LivingActor {
   id: number
   name: string
-  character: string
+  character: string | null // Null for crew
+  job?: string // Key crew job(s), e.g. "Director, Screenplay"
   profile_path: string | null
   birthday: string | null
   age: number | null
 }
 
+interface LastSurvivorPredictionResponse {
+  candidates: Array<LivingActor & { probability: number }> // Most likely last survivor first
+  expectedAllDeceasedYear: number
+  simulations: number
+  unknownAgeCount: number // Living cast without a birthday, not included in the simulation
+}
+
+interface MovieStats {
+  totalCast: number
+  deceasedCount: number
+  livingCount: number
+  mortalityPercentage: number
+  // Mortality statistics
+  expectedDeaths: number
+  mortalitySurpriseScore: number
+  mortalityModel: string
+  // Poisson-binomial significance of actual vs expected deaths
+  mortalityPValue: number | null
+  expectedDeathsLow: number | null
+  expectedDeathsHigh: number | null
+  isStatisticallySignificant: boolean
+  // People evaluated with their birth country's life table instead of the US one
+  nonUsLifeTableCount: number
+  // Billing-weighted deaths when weighting by billing (expectedDeaths is weighted too)
+  weightedDeaths: number | null
+}
+
 interface MovieResponse {
   movie: {
     id: number
@@ -56,20 +114,35 @@ interface MovieResponse {
   }
   deceased: DeceasedActor[]
   living: LivingActor[]
-  stats: {
-    totalCast: number
-    deceasedCount: number
-    livingCount: number
-    mortalityPercentage: number
-    // Mortality statistics
-    expectedDeaths: number
-    mortalitySurpriseScore: number
+  stats: MovieStats
+  // Key crew (directors, writers, composers, cinematographers)
+  crew: {
+    deceased: DeceasedActor[]
+    living: LivingActor[]
+    stats: MovieStats
   }
+  // Cast and key crew together, counting people in both only once
+  combinedStats: MovieStats
   lastSurvivor: LivingActor | null
+  lastSurvivorPrediction: LastSurvivorPredictionResponse | null
+  castDepth: CastDepth
+  weighting: CastWeighting
   enrichmentPending?: boolean
 }
 
-const CAST_LIMIT = 30
+// A cast or key crew credit to split into deceased and living
+interface PersonCredit {
+  id: number
+  name: string
+  character: string | null
+  job?: string
+  profile_path: string | null
+}
+
+interface CreditGroup {
+  deceased: DeceasedActor[]
+  living: LivingActor[]
+}
 
 export async function getMovie(req: Request, res: Response) {
   const movieId = parseInt(req.params.id, 10)
@@ -78,166 +151,132 @@ export async function getMovie(req: Request, res: Response) {
     return res.status(400).json({ error: { message: "Invalid movie ID" } })
   }
 
+  const castDepth = parseCastDepth(req.query.castDepth)
+  if (castDepth === null) {
+    return res.status(400).json({ error: { message: "castDepth must be 10, 30 or all" } })
+  }
+
+  const weighting = parseCastWeighting(req.query.weighting)
+  if (weighting === null) {
+    return res.status(400).json({ error: { message: "weighting must be none or billing" } })
+  }
+
   try {
     // Fetch movie details and credits in parallel
     const [movie, credits] = await Promise.all([getMovieDetails(movieId), getMovieCredits(movieId)])
 
-    // Limit to top billed cast members
-    const mainCast = credits.cast.slice(0, CAST_LIMIT)
+    // Limit to top billed cast members and key crew
+    const mainCast = limitCast(credits.cast, castDepth)
+    const keyCrew = selectKeyCrew(credits.crew)
+    const producers = selectProducers(credits.crew)
 
-    // Batch fetch person details
-    const personIds = mainCast.map((c) => c.id)
+    // Batch fetch person details (some people are both cast and crew). Producers
+    // are only persisted, but need birthdays and death dates like everyone else.
+    const personIds = [...new Set([...mainCast, ...keyCrew, ...producers].map((c) => c.id))]
     const personDetails = await batchGetPersonDetails(personIds)
 
     // Check database for existing death info
     const dbRecords = await getDeceasedPersonsIfAvailable(personIds)
 
-    // Separate deceased and living
-    const deceased: DeceasedActor[] = []
-    const living: LivingActor[] = []
-    const newDeceasedForDb: DeceasedPersonRecord[] = []
-
-    for (const castMember of mainCast) {
-      const person = personDetails.get(castMember.id)
-      const dbRecord = dbRecords.get(castMember.id)
-
-      if (!person) {
-        living.push({
-          id: castMember.id,
-          name: castMember.name,
-          character: castMember.character,
-          profile_path: castMember.profile_path,
-          birthday: null,
-          age: null,
-        })
-        continue
-      }
-
-      if (person.deathday) {
-        // Generate TMDB profile URL (always available since we have the person ID)
-        const tmdbUrl = `https://www.themoviedb.org/person/${person.id}`
+    // TMDB gender per person, used to pick sex-specific life tables
+    const genders = new Map(
+      [...keyCrew, ...mainCast].map((c) => [c.id, getActuarialGender(c.gender)])
+    )
 
-        // Use database record if available, otherwise use TMDB data
-        // Note: ageAtDeath and yearsLost will be updated by mortality calculation if not in DB
-        deceased.push({
-          id: person.id,
-          name: person.name,
-          character: castMember.character,
-          profile_path: person.profile_path,
-          birthday: person.birthday,
-          deathday: person.deathday,
-          causeOfDeath: dbRecord?.cause_of_death || null,
-          causeOfDeathSource: dbRecord?.cause_of_death_source || null,
-          causeOfDeathDetails: dbRecord?.cause_of_death_details || null,
-          causeOfDeathDetailsSource: dbRecord?.cause_of_death_details_source || null,
-          wikipediaUrl: dbRecord?.wikipedia_url || null,
-          tmdbUrl,
-          // Use database values if available, otherwise will be calculated later
-          ageAtDeath: dbRecord?.age_at_death ?? null,
-          yearsLost: dbRecord?.years_lost ?? null,
-        })
-
-        // Track new deceased persons to save to database
-        if (!dbRecord) {
-          // Calculate mortality stats for new deceased person
-          const yearsLostResult = await calculateYearsLost(person.birthday, person.deathday)
-
-          newDeceasedForDb.push({
-            tmdb_id: person.id,
-            name: person.name,
-            birthday: person.birthday,
-            deathday: person.deathday,
-            cause_of_death: null,
-            cause_of_death_source: null,
-            cause_of_death_details: null,
-            cause_of_death_details_source: null,
-            wikipedia_url: null,
-            profile_path: person.profile_path,
-            age_at_death: yearsLostResult?.ageAtDeath ?? null,
-            expected_lifespan: yearsLostResult?.expectedLifespan ?? null,
-            years_lost: yearsLostResult?.yearsLost ?? null,
-          })
-        }
-      } else {
-        living.push({
-          id: person.id,
-          name: person.name,
-          character: castMember.character,
-          profile_path: person.profile_path,
-          birthday: person.birthday,
-          age: calculateAge(person.birthday),
-        })
-      }
+    // Separate deceased and living
+    const cast = await splitByDeathStatus(
+      mainCast.map((c) => ({
+        id: c.id,
+        name: c.name,
+        character: c.character,
+        profile_path: c.profile_path,
+      })),
+      personDetails,
+      dbRecords,
+      genders
+    )
+    const crew = await splitByDeathStatus(
+      keyCrew.map((c) => ({
+        id: c.id,
+        name: c.name,
+        character: null,
+        job: c.job,
+        profile_path: c.profile_path,
+      })),
+      personDetails,
+      dbRecords,
+      genders
+    )
+    const { deceased, living } = cast
+
+    // Cast and crew together, keeping the cast entry for people in both
+    const castIds = new Set(mainCast.map((c) => c.id))
+    const combined: CreditGroup = {
+      deceased: [...deceased, ...crew.deceased.filter((d) => !castIds.has(d.id))],
+      living: [...living, ...crew.living.filter((l) => !castIds.has(l.id))],
     }
 
     // Save new deceased persons to database in background
-    if (newDeceasedForDb.length > 0) {
-      saveDeceasedToDb(newDeceasedForDb)
-    }
-
-    // Sort deceased by death date (most recent first)
-    deceased.sort((a, b) => {
-      return new Date(b.deathday).getTime() - new Date(a.deathday).getTime()
-    })
-
-    // Calculate stats
-    const totalCast = deceased.length + living.length
-    const deceasedCount = deceased.length
-    const livingCount = living.length
-    const mortalityPercentage = totalCast > 0 ? Math.round((deceasedCount / totalCast) * 100) : 0
-
-    // Calculate mortality statistics
-    let expectedDeaths = 0
-    let mortalitySurpriseScore = 0
-    const releaseYear = movie.release_date ? parseInt(movie.release_date.split("-")[0]) : null
-
-    if (releaseYear && totalCast > 0) {
-      // Prepare actor data for mortality calculation
-      const allActors: ActorForMortality[] = [
-        ...deceased.map((d) => ({
-          tmdbId: d.id,
-          name: d.name,
-          birthday: d.birthday,
-          deathday: d.deathday,
-        })),
-        ...living.map((l) => ({
-          tmdbId: l.id,
-          name: l.name,
-          birthday: l.birthday,
-          deathday: null,
-        })),
-      ]
-
+    const newDeceasedForDb = [
+      ...cast.newDeceasedForDb,
+      ...crew.newDeceasedForDb.filter((record) => !castIds.has(record.tmdb_id)),
+    ]
+    const deceasedSaved =
+      newDeceasedForDb.length > 0 ? saveDeceasedToDb(newDeceasedForDb) : Promise.resolve()
+
+    // Calculate stats, weighting the cast by billing position if requested
+    const billingWeights =
+      weighting === "billing"
+        ? new Map(mainCast.map((c, index) => [c.id, getBillingWeight(index)]))
+        : undefined
+    const castMortality = await calculateGroupMortality(
+      movie.release_date,
+      cast,
+      genders,
+      personDetails,
+      billingWeights
+    )
+    const crewMortality = await calculateGroupMortality(
+      movie.release_date,
+      crew,
+      genders,
+      personDetails
+    )
+    const combinedMortality = await calculateGroupMortality(
+      movie.release_date,
+      combined,
+      genders,
+      personDetails
+    )
+    const { stats, significance } = castMortality
+
+    // Simulate the living cast's remaining lifetimes to rank likely last survivors
+    let lastSurvivorPrediction: LastSurvivorPredictionResponse | null = null
+    if (living.length > 0) {
       try {
-        const mortalityResult = await calculateMovieMortality(releaseYear, allActors)
-        expectedDeaths = mortalityResult.expectedDeaths
-        mortalitySurpriseScore = mortalityResult.mortalitySurpriseScore
-
-        // Update deceased actors with age at death and years lost (only if not already from DB)
-        for (const actorResult of mortalityResult.actorResults) {
-          if (actorResult.isDeceased) {
-            const deceasedActor = deceased.find((d) => d.id === actorResult.tmdbId)
-            if (deceasedActor) {
-              // Only update if not already populated from database
-              if (deceasedActor.ageAtDeath === null) {
-                deceasedActor.ageAtDeath = actorResult.ageAtDeath
-              }
-              if (deceasedActor.yearsLost === null) {
-                deceasedActor.yearsLost = actorResult.yearsLost
-              }
-            }
+        const prediction = await predictLastSurvivor(castMortality.actors)
+        if (prediction) {
+          lastSurvivorPrediction = {
+            candidates: prediction.candidates.flatMap((candidate) => {
+              const actor = living.find((l) => l.id === candidate.tmdbId)
+              return actor ? [{ ...actor, probability: candidate.probability }] : []
+            }),
+            expectedAllDeceasedYear: prediction.expectedAllDeceasedYear,
+            simulations: prediction.simulations,
+            unknownAgeCount: prediction.unknownAgeCount,
           }
         }
       } catch (error) {
-        console.error("Error calculating mortality stats:", error)
-        // Continue without mortality stats if calculation fails
+        console.error("Error predicting last survivor:", error)
+        // Continue without a prediction if the life tables are unavailable
       }
     }
 
-    // Find last survivor
+    // Find last survivor (the most likely one when a prediction is available)
     let lastSurvivor: LivingActor | null = null
     if (living.length > 0 && living.length <= 5) {
-      lastSurvivor = living[0]
+      const mostLikelyId = lastSurvivorPrediction?.candidates[0]?.id
+      lastSurvivor = living.find((l) => l.id === mostLikelyId) ?? living[0]
     }
 
     const response: MovieResponse = {
@@ -252,39 +291,48 @@ export async function getMovie(req: Request, res: Response) {
       },
       deceased,
       living,
-      stats: {
-        totalCast,
-        deceasedCount,
-        livingCount,
-        mortalityPercentage,
-        expectedDeaths,
-        mortalitySurpriseScore,
+      stats,
+      crew: {
+        deceased: crew.deceased,
+        living: crew.living,
+        stats: crewMortality.stats,
       },
+      combinedStats: combinedMortality.stats,
       lastSurvivor,
+      lastSurvivorPrediction,
+      castDepth,
+      weighting,
     }
 
-    // Check if any actors need enrichment
-    const needsEnrichment = deceased.some((actor) => !actor.causeOfDeath && !actor.wikipediaUrl)
+    // Check if any cast or crew need enrichment
+    const needsEnrichment = combined.deceased.some(
+      (person) => !person.causeOfDeath && !person.wikipediaUrl
+    )
 
-    // Start Wikidata enrichment in background (don't await)
-    if (needsEnrichment) {
-      const enrichmentPromise = enrichWithWikidata(movieId, deceased)
-      pendingEnrichment.set(movieId, enrichmentPromise)
-      enrichmentPromise.finally(() => pendingEnrichment.delete(movieId))
+    // Queue cause-of-death enrichment for the worker (don't await)
+    if (needsEnrichment && process.env.DATABASE_URL) {
+      queueEnrichment(combined.deceased, deceasedSaved)
       response.enrichmentPending = true
     }
 
-    // Cache movie and actor appearances in background (on-demand seeding)
-    // This populates the movies and actor_appearances tables for cursed movies/actors features
-    cacheMovieInBackground({
-      movie,
-      deceased,
-      living,
-      expectedDeaths,
-      mortalitySurpriseScore,
-      personDetails,
-      mainCast,
-    })
+    // Cache movie and cast/crew appearances in background (on-demand seeding)
+    // This populates the movies and appearances tables for cursed movies/actors features.
+    // Only the default analysis is cached so leaderboards compare like with like.
+    if (castDepth === DEFAULT_CAST_DEPTH && weighting === "none") {
+      cacheMovieInBackground({
+        movie,
+        deceased,
+        living,
+        expectedDeaths: stats.expectedDeaths,
+        mortalitySurpriseScore: stats.mortalitySurpriseScore,
+        mortalityModel: stats.mortalityModel,
+        significance,
+        personDetails,
+        mainCast,
+        keyCrew,
+        producers,
+      })
+    }
 
     res.json(response)
   } catch (error) {
@@ -293,6 +341,216 @@ export async function getMovie(req: Request, res: Response) {
   }
 }
 
+/**
+ * Split cast or crew credits into deceased and living, using stored death info
+ * where available. Deceased people are sorted by death date, most recent first.
+ */
+async function splitByDeathStatus(
+  credits: PersonCredit[],
+  personDetails: Map<number, TMDBPerson>,
+  dbRecords: Map<number, DeceasedPersonRecord>,
+  genders: Map<number, ActuarialGender>
+): Promise<CreditGroup & { newDeceasedForDb: DeceasedPersonRecord[] }> {
+  const deceased: DeceasedActor[] = []
+  const living: LivingActor[] = []
+  const newDeceasedForDb: DeceasedPersonRecord[] = []
+
+  for (const credit of credits) {
+    const person = personDetails.get(credit.id)
+    const dbRecord = dbRecords.get(credit.id)
+
+    if (!person) {
+      living.push({
+        id: credit.id,
+        name: credit.name,
+        character: credit.character,
+        job: credit.job,
+        profile_path: credit.profile_path,
+        birthday: null,
+        age: null,
+      })
+      continue
+    }
+
+    if (person.deathday) {
+      // Generate TMDB profile URL (always available since we have the person ID)
+      const tmdbUrl = `https://www.themoviedb.org/person/${person.id}`
+
+      // Use database record if available, otherwise use TMDB data
+      // Note: ageAtDeath and yearsLost will be updated by mortality calculation if not in DB
+      deceased.push({
+        id: person.id,
+        name: person.name,
+        character: credit.character,
+        job: credit.job,
+        profile_path: person.profile_path,
+        birthday: person.birthday,
+        deathday: person.deathday,
+        causeOfDeath: dbRecord?.cause_of_death || null,
+        causeOfDeathSource: dbRecord?.cause_of_death_source || null,
+        causeOfDeathDetails: dbRecord?.cause_of_death_details || null,
+        causeOfDeathDetailsSource: dbRecord?.cause_of_death_details_source || null,
+        wikipediaUrl: dbRecord?.wikipedia_url || null,
+        tmdbUrl,
+        // Use database values if available, otherwise will be calculated later
+        ageAtDeath: dbRecord?.age_at_death ?? null,
+        yearsLost: dbRecord?.years_lost ?? null,
+      })
+
+      // Track new deceased persons to save to database
+      if (!dbRecord) {
+        // Calculate mortality stats for new deceased person
+        const yearsLostResult = await calculateYearsLost(
+          person.birthday,
+          person.deathday,
+          genders.get(credit.id)
+        )
+
+        newDeceasedForDb.push({
+          tmdb_id: person.id,
+          name: person.name,
+          birthday: person.birthday,
+          deathday: person.deathday,
+          cause_of_death: null,
+          cause_of_death_source: null,
+          cause_of_death_details: null,
+          cause_of_death_details_source: null,
+          wikipedia_url: null,
+          profile_path: person.profile_path,
+          age_at_death: yearsLostResult?.ageAtDeath ?? null,
+          expected_lifespan: yearsLostResult?.expectedLifespan ?? null,
+          years_lost: yearsLostResult?.yearsLost ?? null,
+        })
+      }
+    } else {
+      living.push({
+        id: person.id,
+        name: person.name,
+        character: credit.character,
+        job: credit.job,
+        profile_path: person.profile_path,
+        birthday: person.birthday,
+        age: calculateAge(person.birthday),
+      })
+    }
+  }
+
+  // Sort deceased by death date (most recent first)
+  deceased.sort((a, b) => {
+    return new Date(b.deathday).getTime() - new Date(a.deathday).getTime()
+  })
+
+  return { deceased, living, newDeceasedForDb }
+}
+
+/**
+ * Calculate counts and expected mortality for a group of cast and/or crew.
+ * Fills in age at death and years lost for deceased people not already in the database.
+ *
+ * With weights (by person ID), expected deaths and the surprise score are weighted.
+ * The significance range is for unweighted counts, so it is left out.
+ */
+async function calculateGroupMortality(
+  release: string,
+  group: CreditGroup,
+  genders: Map<number, ActuarialGender>,
+  personDetails: Map<number, TMDBPerson>,
+  weights?: Map<number, number>
+): Promise<{
+  stats: MovieStats
+  significance: MortalitySignificance | null
+  actors: ActorForMortality[]
+}> {
+  const { deceased, living } = group
+  const totalCast = deceased.length + living.length
+  const deceasedCount = deceased.length
+  const livingCount = living.length
+  const mortalityPercentage = totalCast > 0 ? Math.round((deceasedCount / totalCast) * 100) : 0
+
+  // Calculate mortality statistics
+  let expectedDeaths = 0
+  let mortalitySurpriseScore = 0
+  let mortalityModel = MORTALITY_MODEL
+  let significance: MortalitySignificance | null = null
+  let nonUsLifeTableCount = 0
+  let weightedDeaths: number | null = null
+
+  // Prepare actor data for mortality calculation
+  const actors: ActorForMortality[] = [
+    ...deceased.map((d) => ({
+      tmdbId: d.id,
+      name: d.name,
+      birthday: d.birthday,
+      deathday: d.deathday,
+      gender: genders.get(d.id) ?? "combined",
+      birthCountry: resolveBirthCountry(personDetails.get(d.id)?.place_of_birth),
+      weight: weights?.get(d.id),
+    })),
+    ...living.map((l) => ({
+      tmdbId: l.id,
+      name: l.name,
+      birthday: l.birthday,
+      deathday: null,
+      gender: genders.get(l.id) ?? "combined",
+      birthCountry: resolveBirthCountry(personDetails.get(l.id)?.place_of_birth),
+      weight: weights?.get(l.id),
+    })),
+  ]
+
+  if (release && totalCast > 0) {
+    try {
+      const mortalityResult = await calculateMovieMortality(release, actors)
+      expectedDeaths = mortalityResult.expectedDeaths
+      mortalitySurpriseScore = mortalityResult.mortalitySurpriseScore
+      mortalityModel = mortalityResult.mortalityModel
+      significance = weights ? null : mortalityResult.significance
+      nonUsLifeTableCount = mortalityResult.nonUsLifeTableCount
+      if (weights) {
+        weightedDeaths = mortalityResult.actualDeaths
+      }
+
+      // Update deceased with age at death and years lost (only if not already from DB)
+      for (const actorResult of mortalityResult.actorResults) {
+        if (actorResult.isDeceased) {
+          const deceasedActor = deceased.find((d) => d.id === actorResult.tmdbId)
+          if (deceasedActor) {
+            // Only update if not already populated from database
+            if (deceasedActor.ageAtDeath === null) {
+              deceasedActor.ageAtDeath = actorResult.ageAtDeath
+            }
+            if (deceasedActor.yearsLost === null) {
+              deceasedActor.yearsLost = actorResult.yearsLost
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Error calculating mortality stats:", error)
+      // Continue without mortality stats if calculation fails
+    }
+  }
+
+  return {
+    stats: {
+      totalCast,
+      deceasedCount,
+      livingCount,
+      mortalityPercentage,
+      expectedDeaths,
+      mortalitySurpriseScore,
+      mortalityModel,
+      mortalityPValue: significance?.pValue ?? null,
+      expectedDeathsLow: significance?.intervalLow ?? null,
+      expectedDeathsHigh: significance?.intervalHigh ?? null,
+      isStatisticallySignificant: significance?.isSignificant ?? false,
+      nonUsLifeTableCount,
+      weightedDeaths,
+    },
+    significance,
+    actors,
+  }
+}
+
 function calculateAge(birthday: string | null): number | null {
   if (!birthday) return null
 
@@ -308,9 +566,6 @@ function calculateAge(birthday: string | null): number | null {
   return age
 }
 
-// Track movies with pending enrichment
-const pendingEnrichment = new Map<number, Promise<void>>()
-
 // Helper to safely get deceased persons from database (returns empty map if DB unavailable)
 async function getDeceasedPersonsIfAvailable(
   tmdbIds: number[]
@@ -324,10 +579,14 @@ async function getDeceasedPersonsIfAvailable(
   }
 }
 
-// Helper to save deceased persons to database in background
-function saveDeceasedToDb(persons: DeceasedPersonRecord[]): void {
-  if (!process.env.DATABASE_URL) return
-  batchUpsertDeceasedPersons(persons).catch((error) => {
+// Helper to save deceased persons to database in background. Resolves once the
+// write has finished, whether or not it succeeded.
+function saveDeceasedToDb(persons: DeceasedPersonRecord[]): Promise<void> {
+  if (!process.env.DATABASE_URL) return Promise.resolve()
+  return batchUpsertDeceasedPersons(persons, {
+    actor: "movie-lookup",
+    reason: "Deceased cast found on a movie page",
+  }).catch((error) => {
     console.error("Database write error:", error)
   })
 }
@@ -345,8 +604,12 @@ interface CacheMovieParams {
   living: LivingActor[]
   expectedDeaths: number
   mortalitySurpriseScore: number
+  mortalityModel: string
+  significance: MortalitySignificance | null
   personDetails: Map<number, { birthday?: string | null; deathday?: string | null }>
-  mainCast: Array<{ id: number; name: string; character: string | null }>
+  mainCast: Array<{ id: number; name: string; character: string | null; gender: number }>
+  keyCrew: KeyCrewMember[]
+  producers: KeyCrewMember[]
 }
 
 function cacheMovieInBackground(params: CacheMovieParams): void {
@@ -358,18 +621,24 @@ function cacheMovieInBackground(params: CacheMovieParams): void {
     living,
     expectedDeaths,
     mortalitySurpriseScore,
+    mortalityModel,
+    significance,
     personDetails,
     mainCast,
+    keyCrew,
+    producers,
   } = params
-  const releaseYear = movie.release_date ? parseInt(movie.release_date.split("-")[0]) : null
 
   // Build movie record using extracted utility
   const movieRecord = buildMovieRecord({
     movie,
+    castDepth: DEFAULT_CAST_DEPTH,
     deceasedCount: deceased.length,
     livingCount: living.length,
     expectedDeaths,
     mortalitySurpriseScore,
+    mortalityModel,
+    significance,
   })
 
   // Build actor appearance records using extracted utility
@@ -379,87 +648,66 @@ function cacheMovieInBackground(params: CacheMovieParams): void {
       castMember,
       movieId: movie.id,
       billingOrder: index,
-      releaseYear,
+      release: movie.release_date || null,
       birthday: person?.birthday ?? null,
       isDeceased: !!person?.deathday,
     })
   })
 
-  // Save in background
-  Promise.all([upsertMovie(movieRecord), batchUpsertActorAppearances(appearances)]).catch(
-    (error) => {
-      console.error("Movie cache error:", error)
+  const crewAppearances: CrewAppearanceRecord[] = [...keyCrew, ...producers].flatMap(
+    (crewMember) => {
+      const person = personDetails.get(crewMember.id)
+      return buildCrewAppearanceRecords({
+        crewMember,
+        movieId: movie.id,
+        release: movie.release_date || null,
+        birthday: person?.birthday ?? null,
+        isDeceased: !!person?.deathday,
+      })
     }
   )
-}
 
-// Helper to update death info in database
-function updateDeathInfoInDb(
-  tmdbId: number,
-  causeOfDeath: string | null,
-  causeOfDeathSource: DeathInfoSource,
-  causeOfDeathDetails: string | null,
-  causeOfDeathDetailsSource: DeathInfoSource,
-  wikipediaUrl: string | null
-): void {
-  if (!process.env.DATABASE_URL) return
-  if (!causeOfDeath && !wikipediaUrl) return
-  updateDeathInfo(
-    tmdbId,
-    causeOfDeath,
-    causeOfDeathSource,
-    causeOfDeathDetails,
-    causeOfDeathDetailsSource,
-    wikipediaUrl
-  ).catch((error) => {
-    console.error("Database update error:", error)
+  // Save in background
+  Promise.all([
+    upsertMovie(movieRecord),
+    batchUpsertActorAppearances(appearances),
+    batchUpsertCrewAppearances(crewAppearances),
+  ]).catch((error) => {
+    console.error("Movie cache error:", error)
   })
 }
 
-async function enrichWithWikidata(_movieId: number, deceased: DeceasedActor[]): Promise<void> {
-  // Only enrich actors that don't already have cause of death
-  const toEnrich = deceased.filter((actor) => !actor.causeOfDeath).slice(0, 15)
-
-  if (toEnrich.length === 0) return
-
-  // Fetch in parallel for speed
-  const results = await Promise.allSettled(
-    toEnrich.map((actor) => getCauseOfDeath(actor.name, actor.birthday, actor.deathday))
-  )
-
-  // Store results in database
-  for (let i = 0; i < toEnrich.length; i++) {
-    const result = results[i]
-    const actor = toEnrich[i]
-
-    if (result.status === "fulfilled") {
-      const {
-        causeOfDeath,
-        causeOfDeathSource,
-        causeOfDeathDetails,
-        causeOfDeathDetailsSource,
-        wikipediaUrl,
-      } = result.value
-
-      // Update the deceased actor in the array
-      if (causeOfDeath || wikipediaUrl) {
-        actor.causeOfDeath = causeOfDeath
-        actor.causeOfDeathSource = causeOfDeathSource
-        actor.causeOfDeathDetails = causeOfDeathDetails
-        actor.causeOfDeathDetailsSource = causeOfDeathDetailsSource
-        actor.wikipediaUrl = wikipediaUrl
-      }
+// Helper to queue enrichment jobs in background (the worker in lib/enrichment-queue does the rest).
+// Jobs are only queued once the deceased rows are saved: the worker writes answers and
+// death info against those rows, and would otherwise finish a job that changed nothing.
+function queueEnrichment(deceased: DeceasedActor[], deceasedSaved: Promise<void>): void {
+  // Only enrich people that don't already have cause of death
+  const jobs = deceased
+    .filter((person) => !person.causeOfDeath)
+    .map((person) => ({
+      person_tmdb_id: person.id,
+      person_name: person.name,
+      birthday: person.birthday,
+      deathday: person.deathday,
+    }))
+
+  deceasedSaved
+    .then(() => enqueueEnrichmentJobs(jobs))
+    .catch((error) => {
+      console.error("Enrichment queue error:", error)
+    })
+}
 
-      // Save to database for permanent storage
-      updateDeathInfoInDb(
-        actor.id,
-        causeOfDeath,
-        causeOfDeathSource,
-        causeOfDeathDetails,
-        causeOfDeathDetailsSource,
-        wikipediaUrl
-      )
-    }
+// Helper to safely get enrichment job statuses (returns empty map if DB unavailable)
+async function getEnrichmentJobStatusesIfAvailable(
+  tmdbIds: number[]
+): Promise<Map<number, EnrichmentJobStatus>> {
+  if (!process.env.DATABASE_URL) return new Map()
+  try {
+    return await getEnrichmentJobStatuses(tmdbIds)
+  } catch (error) {
+    console.error("Enrichment status error:", error)
+    return new Map()
   }
 }
 
@@ -481,11 +729,16 @@ export async function getMovieDeathInfo(req: Request, res: Response) {
     .map((id) => parseInt(id, 10))
     .filter((id) => !isNaN(id))
 
-  // Check if enrichment is still pending
-  const isPending = pendingEnrichment.has(movieId)
+  // Query database directly for the latest job statuses and death info
+  const [jobStatuses, dbRecords] = await Promise.all([
+    getEnrichmentJobStatusesIfAvailable(personIds),
+    getDeceasedPersonsIfAvailable(personIds),
+  ])
 
-  // Query database directly for the latest death info
-  const dbRecords = await getDeceasedPersonsIfAvailable(personIds)
+  // Enrichment is pending while any requested person's job is queued or running
+  const isPending = [...jobStatuses.values()].some(
+    (status) => status === "pending" || status === "running"
+  )
 
   // Return death info for requested actors
   const deathInfo: Record<
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { Request, Response } from "express"
+import { getMovieProjection } from "./projection.js"
+import * as tmdb from "../lib/tmdb.js"
+import * as mortalityForecast from "../lib/mortality-forecast.js"
+import { MORTALITY_MODEL } from "../lib/mortality-stats.js"
+
+vi.mock("../lib/tmdb.js", () => ({
+  getMovieDetails: vi.fn(),
+  getMovieCredits: vi.fn(),
+  batchGetPersonDetails: vi.fn(),
+}))
+
+vi.mock("../lib/mortality-forecast.js", () => ({
+  forecastMortality: vi.fn(),
+}))
+
+describe("getMovieProjection", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  const currentYear = new Date().getFullYear()
+
+  const mockForecast = {
+    totalCount: 2,
+    deceasedCount: 1,
+    livingCount: 1,
+    unknownAgeCount: 0,
+    projections: [
+      { year: currentYear + 10, expectedDeaths: 0.4, expectedDeathsLow: 0, expectedDeathsHigh: 1 },
+    ],
+    milestones: [
+      {
+        fraction: 0.5,
+        deathsRequired: 1,
+        reached: true,
+        expectedYear: null,
+        earliestYear: null,
+        latestYear: null,
+      },
+    ],
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = { params: { id: "550" }, query: {} }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+
+    vi.mocked(tmdb.getMovieDetails).mockResolvedValue({
+      id: 550,
+      title: "Fight Club",
+      release_date: "1999-10-15",
+      poster_path: null,
+      overview: "",
+      runtime: 139,
+      genres: [],
+    } as Awaited<ReturnType<typeof tmdb.getMovieDetails>>)
+    vi.mocked(tmdb.getMovieCredits).mockResolvedValue({
+      id: 550,
+      cast: [
+        {
+          id: 1,
+          name: "Actor One",
+          character: "Narrator",
+          profile_path: null,
+          order: 0,
+          gender: 2,
+        },
+        { id: 2, name: "Actor Two", character: "Marla", profile_path: null, order: 1, gender: 1 },
+      ],
+    } as Awaited<ReturnType<typeof tmdb.getMovieCredits>>)
+    vi.mocked(tmdb.batchGetPersonDetails).mockResolvedValue(
+      new Map([
+        [
+          1,
+          {
+            id: 1,
+            name: "Actor One",
+            birthday: "1963-12-18",
+            deathday: null,
+            place_of_birth: "Shawnee, Oklahoma, USA",
+          },
+        ],
+        [
+          2,
+          {
+            id: 2,
+            name: "Actor Two",
+            birthday: "1940-05-26",
+            deathday: "2020-01-01",
+            place_of_birth: null,
+          },
+        ],
+      ]) as Awaited<ReturnType<typeof tmdb.batchGetPersonDetails>>
+    )
+    vi.mocked(mortalityForecast.forecastMortality).mockResolvedValue(mockForecast)
+  })
+
+  it("returns 400 for invalid movie ID", async () => {
+    mockReq.params = { id: "abc" }
+
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "Invalid movie ID" } })
+  })
+
+  it("forecasts the cast with default years", async () => {
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(mortalityForecast.forecastMortality).toHaveBeenCalledWith(
+      [
+        {
+          tmdbId: 1,
+          name: "Actor One",
+          birthday: "1963-12-18",
+          deathday: null,
+          gender: "male",
+          birthCountry: "US",
+        },
+        {
+          tmdbId: 2,
+          name: "Actor Two",
+          birthday: "1940-05-26",
+          deathday: "2020-01-01",
+          gender: "female",
+          birthCountry: null,
+        },
+      ],
+      { years: undefined }
+    )
+    expect(jsonSpy).toHaveBeenCalledWith({
+      movieId: 550,
+      mortalityModel: MORTALITY_MODEL,
+      ...mockForecast,
+    })
+  })
+
+  it("passes requested projection years", async () => {
+    mockReq.query = { years: `${currentYear + 5}, ${currentYear + 15}` }
+
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(mortalityForecast.forecastMortality).toHaveBeenCalledWith(expect.any(Array), {
+      years: [currentYear + 5, currentYear + 15],
+    })
+  })
+
+  it("returns 400 for past or non-numeric years", async () => {
+    mockReq.query = { years: `${currentYear - 1},soon` }
+
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(mortalityForecast.forecastMortality).not.toHaveBeenCalled()
+  })
+
+  it("returns 400 for more than five years", async () => {
+    mockReq.query = { years: [1, 2, 3, 4, 5, 6].map((n) => currentYear + n).join(",") }
+
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "years must be up to 5 comma-separated future years" },
+    })
+  })
+
+  it("returns 400 for an unsupported castDepth", async () => {
+    mockReq.query = { castDepth: "50" }
+
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "castDepth must be 10, 30 or all" } })
+    expect(mortalityForecast.forecastMortality).not.toHaveBeenCalled()
+  })
+
+  it("returns 500 when TMDB fails", async () => {
+    vi.mocked(tmdb.getMovieDetails).mockRejectedValueOnce(new Error("TMDB error"))
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    await getMovieProjection(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to calculate mortality projection" },
+    })
+    consoleSpy.mockRestore()
+  })
+})
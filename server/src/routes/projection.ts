@@ -0,0 +1,68 @@
+import type { Request, Response } from "express"
+import { MORTALITY_MODEL } from "../lib/mortality-stats.js"
+import { forecastMortality, type MortalityForecast } from "../lib/mortality-forecast.js"
+import { getMovieCastForMortality } from "../lib/movie-cast.js"
+import { parseCastDepth } from "../lib/cast-depth.js"
+
+// Most custom projection years accepted in one request
+const MAX_PROJECTION_YEARS = 5
+
+interface ProjectionResponse extends MortalityForecast {
+  movieId: number
+  mortalityModel: string
+}
+
+/**
+ * Parse the optional comma-separated `years` query (e.g. "2030,2040").
+ * Returns undefined when absent, or null when any year is invalid.
+ */
+function parseProjectionYears(value: unknown, currentYear: number): number[] | undefined | null {
+  if (value === undefined || value === "") return undefined
+  if (typeof value !== "string") return null
+
+  const years = value.split(",").map((part) => Number(part.trim()))
+  const valid =
+    years.length <= MAX_PROJECTION_YEARS &&
+    years.every(
+      (year) => Number.isInteger(year) && year >= currentYear && year <= currentYear + 120
+    )
+  return valid ? [...new Set(years)] : null
+}
+
+export async function getMovieProjection(req: Request, res: Response) {
+  const movieId = parseInt(req.params.id, 10)
+
+  if (!movieId || isNaN(movieId)) {
+    return res.status(400).json({ error: { message: "Invalid movie ID" } })
+  }
+
+  const years = parseProjectionYears(req.query.years, new Date().getFullYear())
+  if (years === null) {
+    return res.status(400).json({
+      error: {
+        message: `years must be up to ${MAX_PROJECTION_YEARS} comma-separated future years`,
+      },
+    })
+  }
+
+  const castDepth = parseCastDepth(req.query.castDepth)
+  if (castDepth === null) {
+    return res.status(400).json({ error: { message: "castDepth must be 10, 30 or all" } })
+  }
+
+  try {
+    const { actors } = await getMovieCastForMortality(movieId, castDepth)
+    const forecast = await forecastMortality(actors, { years })
+
+    const response: ProjectionResponse = {
+      movieId,
+      mortalityModel: MORTALITY_MODEL,
+      ...forecast,
+    }
+
+    res.json(response)
+  } catch (error) {
+    console.error("Projection error:", error)
+    res.status(500).json({ error: { message: "Failed to calculate mortality projection" } })
+  }
+}
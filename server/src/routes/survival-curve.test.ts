@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { Request, Response } from "express"
+import { getMovieSurvivalCurve } from "./survival-curve.js"
+import * as tmdb from "../lib/tmdb.js"
+import * as mortalityStats from "../lib/mortality-stats.js"
+
+vi.mock("../lib/tmdb.js", () => ({
+  getMovieDetails: vi.fn(),
+  getMovieCredits: vi.fn(),
+  batchGetPersonDetails: vi.fn(),
+}))
+
+vi.mock("../lib/mortality-stats.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/mortality-stats.js")>()),
+  calculateSurvivalCurve: vi.fn(),
+}))
+
+describe("getMovieSurvivalCurve", () => {
+  let mockReq: Partial<Request>
+  let mockRes: Partial<Response>
+  let jsonSpy: ReturnType<typeof vi.fn>
+  let statusSpy: ReturnType<typeof vi.fn>
+
+  const mockMovie = {
+    id: 550,
+    title: "Fight Club",
+    release_date: "1999-10-15",
+    poster_path: null,
+    overview: "",
+    runtime: 139,
+    genres: [],
+  }
+
+  const mockCredits = {
+    id: 550,
+    cast: [
+      { id: 1, name: "Actor One", character: "Narrator", profile_path: null, order: 0, gender: 2 },
+      { id: 2, name: "Actor Two", character: "Marla", profile_path: null, order: 1, gender: 1 },
+    ],
+  }
+
+  const mockPoints = [
+    {
+      year: 1999,
+      yearsSinceRelease: 0,
+      observedLiving: 2,
+      expectedLiving: 2,
+      expectedLivingLow: 2,
+      expectedLivingHigh: 2,
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    jsonSpy = vi.fn()
+    statusSpy = vi.fn().mockReturnThis()
+
+    mockReq = { params: { id: "550" }, query: {} }
+    mockRes = {
+      json: jsonSpy as Response["json"],
+      status: statusSpy as Response["status"],
+    }
+
+    vi.mocked(tmdb.getMovieDetails).mockResolvedValue(
+      mockMovie as Awaited<ReturnType<typeof tmdb.getMovieDetails>>
+    )
+    vi.mocked(tmdb.getMovieCredits).mockResolvedValue(
+      mockCredits as Awaited<ReturnType<typeof tmdb.getMovieCredits>>
+    )
+    vi.mocked(tmdb.batchGetPersonDetails).mockResolvedValue(
+      new Map([
+        [
+          1,
+          {
+            id: 1,
+            name: "Actor One",
+            birthday: "1963-12-18",
+            deathday: null,
+            place_of_birth: "Shawnee, Oklahoma, USA",
+          },
+        ],
+        [
+          2,
+          {
+            id: 2,
+            name: "Actor Two",
+            birthday: "1966-05-26",
+            deathday: null,
+            place_of_birth: "London, England, UK",
+          },
+        ],
+      ]) as Awaited<ReturnType<typeof tmdb.batchGetPersonDetails>>
+    )
+    vi.mocked(mortalityStats.calculateSurvivalCurve).mockResolvedValue({
+      castCount: 2,
+      points: mockPoints,
+    })
+  })
+
+  it("returns 400 for invalid movie ID", async () => {
+    mockReq.params = { id: "abc" }
+
+    await getMovieSurvivalCurve(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "Invalid movie ID" } })
+  })
+
+  it("builds the curve from the cast's birth, death and gender data", async () => {
+    await getMovieSurvivalCurve(mockReq as Request, mockRes as Response)
+
+    expect(mortalityStats.calculateSurvivalCurve).toHaveBeenCalledWith("1999-10-15", [
+      {
+        tmdbId: 1,
+        name: "Actor One",
+        birthday: "1963-12-18",
+        deathday: null,
+        gender: "male",
+        birthCountry: "US",
+      },
+      {
+        tmdbId: 2,
+        name: "Actor Two",
+        birthday: "1966-05-26",
+        deathday: null,
+        gender: "female",
+        birthCountry: "GB",
+      },
+    ])
+    expect(jsonSpy).toHaveBeenCalledWith({
+      movieId: 550,
+      releaseDate: "1999-10-15",
+      castCount: 2,
+      mortalityModel: mortalityStats.MORTALITY_MODEL,
+      points: mockPoints,
+    })
+  })
+
+  it("returns an empty curve when the movie has no release date", async () => {
+    vi.mocked(tmdb.getMovieDetails).mockResolvedValue({
+      ...mockMovie,
+      release_date: "",
+    } as Awaited<ReturnType<typeof tmdb.getMovieDetails>>)
+
+    await getMovieSurvivalCurve(mockReq as Request, mockRes as Response)
+
+    expect(mortalityStats.calculateSurvivalCurve).not.toHaveBeenCalled()
+    expect(jsonSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ releaseDate: null, castCount: 0, points: [] })
+    )
+  })
+
+  it("returns 400 for an unsupported castDepth", async () => {
+    mockReq.query = { castDepth: "5" }
+
+    await getMovieSurvivalCurve(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(400)
+    expect(jsonSpy).toHaveBeenCalledWith({ error: { message: "castDepth must be 10, 30 or all" } })
+  })
+
+  it("returns 500 when the calculation fails", async () => {
+    vi.mocked(mortalityStats.calculateSurvivalCurve).mockRejectedValue(new Error("No data"))
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    await getMovieSurvivalCurve(mockReq as Request, mockRes as Response)
+
+    expect(statusSpy).toHaveBeenCalledWith(500)
+    expect(jsonSpy).toHaveBeenCalledWith({
+      error: { message: "Failed to calculate survival curve" },
+    })
+    consoleSpy.mockRestore()
+  })
+})
@@ -0,0 +1,56 @@
+import type { Request, Response } from "express"
+import {
+  calculateSurvivalCurve,
+  MORTALITY_MODEL,
+  type SurvivalCurvePoint,
+} from "../lib/mortality-stats.js"
+import { getMovieCastForMortality } from "../lib/movie-cast.js"
+import { parseCastDepth } from "../lib/cast-depth.js"
+
+interface SurvivalCurveResponse {
+  movieId: number
+  releaseDate: string | null
+  castCount: number // Cast members with a known birthday included in the curve
+  mortalityModel: string
+  points: SurvivalCurvePoint[]
+}
+
+export async function getMovieSurvivalCurve(req: Request, res: Response) {
+  const movieId = parseInt(req.params.id, 10)
+
+  if (!movieId || isNaN(movieId)) {
+    return res.status(400).json({ error: { message: "Invalid movie ID" } })
+  }
+
+  const castDepth = parseCastDepth(req.query.castDepth)
+  if (castDepth === null) {
+    return res.status(400).json({ error: { message: "castDepth must be 10, 30 or all" } })
+  }
+
+  try {
+    // Same top-billed cast as the movie page
+    const { movie, actors } = await getMovieCastForMortality(movieId, castDepth)
+
+    const response: SurvivalCurveResponse = {
+      movieId,
+      releaseDate: movie.release_date || null,
+      castCount: 0,
+      mortalityModel: MORTALITY_MODEL,
+      points: [],
+    }
+
+    // Without a release date there is nothing to measure survival from
+    if (!movie.release_date) {
+      return res.json(response)
+    }
+
+    const curve = await calculateSurvivalCurve(movie.release_date, actors)
+    response.castCount = curve.castCount
+    response.points = curve.points
+
+    res.json(response)
+  } catch (error) {
+    console.error("Survival curve error:", error)
+    res.status(500).json({ error: { message: "Failed to calculate survival curve" } })
+  }
+}
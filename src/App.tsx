@@ -1,5 +1,5 @@
 import { lazy, Suspense } from "react"
-import { Routes, Route } from "react-router-dom"
+import { Routes, Route, Navigate } from "react-router-dom"
 import Layout from "./components/layout/Layout"
 import HomePage from "./pages/HomePage"
 import LoadingSpinner from "./components/common/LoadingSpinner"
@@ -10,9 +10,15 @@ import { useNewRelicBrowser } from "./hooks/useNewRelicBrowser"
 const MoviePage = lazy(() => import("./pages/MoviePage"))
 const ActorPage = lazy(() => import("./pages/ActorPage"))
 const CursedMoviesPage = lazy(() => import("./pages/CursedMoviesPage"))
+const BlessedMoviesPage = lazy(() => import("./pages/BlessedMoviesPage"))
 const CursedActorsPage = lazy(() => import("./pages/CursedActorsPage"))
-const CovidDeathsPage = lazy(() => import("./pages/CovidDeathsPage"))
+const CursedDirectorsPage = lazy(() => import("./pages/CursedDirectorsPage"))
+const CausesPage = lazy(() => import("./pages/CausesPage"))
+const CauseDeathsPage = lazy(() => import("./pages/CauseDeathsPage"))
 const DeathWatchPage = lazy(() => import("./pages/DeathWatchPage"))
+const AnalyticsPage = lazy(() => import("./pages/AnalyticsPage"))
+const ConnectionsPage = lazy(() => import("./pages/ConnectionsPage"))
+const AdminPage = lazy(() => import("./pages/AdminPage"))
 
 function App() {
   useGoogleAnalytics()
@@ -26,9 +32,16 @@ function App() {
           <Route path="/movie/:slug" element={<MoviePage />} />
           <Route path="/actor/:slug" element={<ActorPage />} />
           <Route path="/cursed-movies" element={<CursedMoviesPage />} />
+          <Route path="/blessed-movies" element={<BlessedMoviesPage />} />
           <Route path="/cursed-actors" element={<CursedActorsPage />} />
-          <Route path="/covid-deaths" element={<CovidDeathsPage />} />
+          <Route path="/cursed-directors" element={<CursedDirectorsPage />} />
+          <Route path="/causes" element={<CausesPage />} />
+          <Route path="/cause/:slug" element={<CauseDeathsPage />} />
+          <Route path="/covid-deaths" element={<Navigate to="/cause/covid-19" replace />} />
           <Route path="/death-watch" element={<DeathWatchPage />} />
+          <Route path="/analytics" element={<AnalyticsPage />} />
+          <Route path="/connections" element={<ConnectionsPage />} />
+          <Route path="/admin" element={<AdminPage />} />
         </Routes>
       </Suspense>
     </Layout>
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest"
+import { render, screen } from "@testing-library/react"
+import CauseOfDeathSources from "./CauseOfDeathSources"
+
+describe("CauseOfDeathSources", () => {
+  it("lists each source's answer when they disagree", () => {
+    render(
+      <CauseOfDeathSources
+        sources={{
+          agreement: 0.8,
+          sources: [
+            { source: "claude", causeOfDeath: "heart failure", agrees: true },
+            { source: "wikidata", causeOfDeath: "congestive heart failure", agrees: true },
+            { source: "wikipedia_infobox", causeOfDeath: null, agrees: null },
+            { source: "wikipedia_prose", causeOfDeath: "pneumonia", agrees: false },
+          ],
+        }}
+      />
+    )
+
+    expect(screen.getByText("Sources disagree")).toBeInTheDocument()
+    expect(screen.getByText("(80% agreement)")).toBeInTheDocument()
+    expect(screen.getByTestId("cause-source-claude")).toHaveTextContent("Claude: Heart Failure")
+    expect(screen.getByTestId("cause-source-wikipedia_prose")).toHaveTextContent(
+      "Wikipedia article: Pneumonia"
+    )
+    expect(screen.getByTestId("cause-source-wikipedia_prose")).toHaveClass("text-accent")
+    // Sources without an answer are left out
+    expect(screen.queryByTestId("cause-source-wikipedia_infobox")).not.toBeInTheDocument()
+  })
+
+  it("renders nothing when every source agrees", () => {
+    const { container } = render(
+      <CauseOfDeathSources
+        sources={{
+          agreement: 1,
+          sources: [
+            { source: "claude", causeOfDeath: "heart attack", agrees: true },
+            { source: "wikidata", causeOfDeath: "myocardial infarction", agrees: true },
+          ],
+        }}
+      />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,48 @@
+import { toTitleCase } from "@/utils/formatText"
+import type { CauseOfDeathSourceName, CauseOfDeathSources as Sources } from "@/types"
+
+const SOURCE_LABELS: Record<CauseOfDeathSourceName, string> = {
+  claude: "Claude",
+  wikidata: "Wikidata",
+  wikipedia_infobox: "Wikipedia infobox",
+  wikipedia_prose: "Wikipedia article",
+}
+
+interface CauseOfDeathSourcesProps {
+  sources: Sources
+}
+
+// Lists what each source said about the cause of death, shown only when they disagree
+export default function CauseOfDeathSources({ sources }: CauseOfDeathSourcesProps) {
+  if (!sources.sources.some((s) => s.agrees === false)) {
+    return null
+  }
+
+  const answered = sources.sources.filter((s) => s.causeOfDeath)
+
+  return (
+    <div data-testid="cause-of-death-sources" className="mt-2 rounded-lg bg-cream p-3 text-xs">
+      <p className="font-medium text-brown-dark">
+        Sources disagree
+        {sources.agreement !== null && (
+          <span className="font-normal text-text-muted">
+            {" "}
+            ({Math.round(sources.agreement * 100)}% agreement)
+          </span>
+        )}
+      </p>
+      <ul className="mt-1 space-y-0.5">
+        {answered.map((s) => (
+          <li
+            key={s.source}
+            data-testid={`cause-source-${s.source}`}
+            className={s.agrees === false ? "text-accent" : "text-text-muted"}
+          >
+            <span className="font-medium">{SOURCE_LABELS[s.source]}:</span>{" "}
+            {toTitleCase(s.causeOfDeath!)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
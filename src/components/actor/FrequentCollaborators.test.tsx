@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { MemoryRouter } from "react-router-dom"
+import FrequentCollaborators from "./FrequentCollaborators"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getActorCollaborators: vi.fn(),
+  getProfileUrl: vi.fn((path) => (path ? `https://image.tmdb.org/t/p/w185${path}` : null)),
+}))
+
+function collaborator(id: number, isDeceased: boolean) {
+  return {
+    id,
+    name: `Actor ${id}`,
+    isDeceased,
+    profilePath: null,
+    sharedMovieCount: 3,
+    movies: [
+      { id: 10, title: "First Film", releaseYear: 1975 },
+      { id: 11, title: "Second Film", releaseYear: 1980 },
+      { id: 12, title: "Third Film", releaseYear: null },
+    ],
+  }
+}
+
+const mockResponse = {
+  actorId: 1,
+  minMovies: 3,
+  collaborators: [collaborator(2, true), collaborator(3, false)],
+  ensembles: [
+    {
+      members: [
+        { id: 1, name: "Actor 1", isDeceased: false },
+        { id: 2, name: "Actor 2", isDeceased: true },
+        { id: 3, name: "Actor 3", isDeceased: false },
+      ],
+      movies: [
+        { id: 10, title: "First Film", releaseYear: 1975 },
+        { id: 11, title: "Second Film", releaseYear: 1980 },
+        { id: 12, title: "Third Film", releaseYear: null },
+      ],
+      deceasedCount: 1,
+      actualDeaths: 1,
+      expectedDeaths: 0.8,
+      smr: 1.25,
+    },
+  ],
+}
+
+function renderWithProviders(ui: React.ReactElement) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <MemoryRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+      <QueryClientProvider client={queryClient}>{ui}</QueryClientProvider>
+    </MemoryRouter>
+  )
+}
+
+describe("FrequentCollaborators", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("shows each collaborator's living or deceased status", async () => {
+    vi.mocked(api.getActorCollaborators).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<FrequentCollaborators actorId={1} />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Frequent Collaborators")).toBeInTheDocument()
+    })
+
+    const cards = screen.getAllByTestId("collaborator-card")
+    expect(cards).toHaveLength(2)
+    expect(cards[0]).toHaveAttribute("href", "/actor/actor-2-2")
+    expect(cards[0]).toHaveAttribute("title", "First Film (1975), Second Film (1980), Third Film")
+    const statuses = screen.getAllByTestId("collaborator-status")
+    expect(statuses[0]).toHaveTextContent("Deceased")
+    expect(statuses[1]).toHaveTextContent("Living")
+    expect(api.getActorCollaborators).toHaveBeenCalledWith(1)
+  })
+
+  it("shows recurring ensembles with their mortality", async () => {
+    vi.mocked(api.getActorCollaborators).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<FrequentCollaborators actorId={1} />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Recurring Ensembles")).toBeInTheDocument()
+    })
+
+    expect(screen.getByTestId("ensemble-row")).toHaveTextContent("Actor 1, Actor 2, Actor 3")
+    expect(screen.getByTestId("ensemble-mortality")).toHaveTextContent(
+      "1 of 3 deceased · 1 since their first movie vs 0.8 expected · SMR 1.25"
+    )
+  })
+
+  it("shows the rest of a long list on request", async () => {
+    const collaborators = Array.from({ length: 10 }, (_, i) => collaborator(i + 2, false))
+    vi.mocked(api.getActorCollaborators).mockResolvedValue({
+      ...mockResponse,
+      collaborators,
+      ensembles: [],
+    })
+
+    renderWithProviders(<FrequentCollaborators actorId={1} />)
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId("collaborator-card")).toHaveLength(8)
+    })
+    expect(screen.queryByText("Recurring Ensembles")).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText("Show all 10"))
+
+    expect(screen.getAllByTestId("collaborator-card")).toHaveLength(10)
+  })
+
+  it("renders nothing when the actor has no frequent collaborators", async () => {
+    vi.mocked(api.getActorCollaborators).mockResolvedValue({
+      ...mockResponse,
+      collaborators: [],
+      ensembles: [],
+    })
+
+    const { container } = renderWithProviders(<FrequentCollaborators actorId={1} />)
+
+    await waitFor(() => {
+      expect(api.getActorCollaborators).toHaveBeenCalled()
+    })
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,134 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { useActorCollaborators } from "@/hooks/useActorCollaborators"
+import { getProfileUrl } from "@/services/api"
+import { createActorSlug } from "@/utils/slugify"
+import { PersonIcon, SkullIcon } from "@/components/icons"
+import type { Collaborator, Ensemble } from "@/types"
+
+// Collaborators shown before "Show all"
+const INITIAL_COLLABORATORS = 8
+
+function formatMovieList(movies: Collaborator["movies"]): string {
+  return movies.map((m) => (m.releaseYear ? `${m.title} (${m.releaseYear})` : m.title)).join(", ")
+}
+
+function CollaboratorCard({ collaborator }: { collaborator: Collaborator }) {
+  const profileUrl = getProfileUrl(collaborator.profilePath, "w185")
+
+  return (
+    <Link
+      to={`/actor/${createActorSlug(collaborator.name, collaborator.id)}`}
+      title={formatMovieList(collaborator.movies)}
+      className="flex items-center gap-3 rounded-lg bg-white p-3 transition-colors hover:bg-cream"
+      data-testid="collaborator-card"
+    >
+      {profileUrl ? (
+        <img
+          src={profileUrl}
+          alt={collaborator.name}
+          width={40}
+          height={40}
+          loading="lazy"
+          className="h-10 w-10 flex-shrink-0 rounded-full object-cover"
+        />
+      ) : (
+        <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-beige">
+          <PersonIcon size={20} className="text-text-muted" />
+        </div>
+      )}
+
+      <div className="min-w-0 flex-1">
+        <h3
+          className={`truncate font-display text-base ${collaborator.isDeceased ? "text-accent" : "text-brown-dark"}`}
+        >
+          {collaborator.name}
+        </h3>
+        <p className="text-xs text-text-muted">{collaborator.sharedMovieCount} movies together</p>
+      </div>
+
+      <span
+        className={`flex flex-shrink-0 items-center gap-1 text-xs ${collaborator.isDeceased ? "text-accent" : "text-living-dark"}`}
+        data-testid="collaborator-status"
+      >
+        {collaborator.isDeceased && <SkullIcon size={12} />}
+        {collaborator.isDeceased ? "Deceased" : "Living"}
+      </span>
+    </Link>
+  )
+}
+
+function EnsembleRow({ ensemble }: { ensemble: Ensemble }) {
+  return (
+    <div className="rounded-lg bg-white p-3" data-testid="ensemble-row">
+      <p className="text-sm text-brown-dark">
+        {ensemble.members.map((member, index) => (
+          <span key={member.id}>
+            {index > 0 && ", "}
+            <span className={member.isDeceased ? "text-accent" : undefined}>{member.name}</span>
+          </span>
+        ))}
+      </p>
+      <p className="mt-1 text-xs text-text-muted">
+        {ensemble.movies.length} movies together: {formatMovieList(ensemble.movies)}
+      </p>
+      <p className="mt-1 text-xs text-text-muted" data-testid="ensemble-mortality">
+        {ensemble.deceasedCount} of {ensemble.members.length} deceased · {ensemble.actualDeaths}{" "}
+        since their first movie vs {ensemble.expectedDeaths.toFixed(1)} expected
+        {ensemble.smr !== null && ` · SMR ${ensemble.smr.toFixed(2)}`}
+      </p>
+    </div>
+  )
+}
+
+export default function FrequentCollaborators({ actorId }: { actorId: number }) {
+  const { data, isLoading, error } = useActorCollaborators(actorId)
+  const [showAll, setShowAll] = useState(false)
+
+  if (isLoading || error || !data || data.collaborators.length === 0) {
+    return null // Silently skip - this is an enhancement feature
+  }
+
+  const collaborators = showAll
+    ? data.collaborators
+    : data.collaborators.slice(0, INITIAL_COLLABORATORS)
+
+  return (
+    <section data-testid="frequent-collaborators" className="mb-6">
+      <h2 className="mb-1 font-display text-lg text-brown-dark">Frequent Collaborators</h2>
+      <p className="mb-3 text-sm text-text-muted">
+        Actors who appeared alongside them in {data.minMovies} or more analyzed movies.
+      </p>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {collaborators.map((collaborator) => (
+          <CollaboratorCard key={collaborator.id} collaborator={collaborator} />
+        ))}
+      </div>
+
+      {data.collaborators.length > INITIAL_COLLABORATORS && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-2 text-sm text-accent hover:underline"
+        >
+          {showAll ? "Show fewer" : `Show all ${data.collaborators.length}`}
+        </button>
+      )}
+
+      {data.ensembles.length > 0 && (
+        <div className="mt-4">
+          <h3 className="mb-1 font-display text-base text-brown-dark">Recurring Ensembles</h3>
+          <p className="mb-2 text-xs text-text-muted">
+            Groups who all appeared together, with deaths since their first movie together compared
+            to actuarial expectations (SMR above 1 means more deaths than expected).
+          </p>
+          <div className="space-y-2">
+            {data.ensembles.map((ensemble) => (
+              <EnsembleRow key={ensemble.members.map((m) => m.id).join("-")} ensemble={ensemble} />
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,53 @@
+import { useState } from "react"
+import { useAdminLogin } from "@/hooks/useAdmin"
+
+interface AdminLoginProps {
+  onSignIn: (token: string, user: string) => void
+}
+
+// Checks the token against the API before handing it to the page, so a typo
+// fails here rather than on every request afterwards.
+export default function AdminLogin({ onSignIn }: AdminLoginProps) {
+  const [token, setToken] = useState("")
+  const { mutate, isPending, error } = useAdminLogin()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = token.trim()
+    mutate(trimmed, { onSuccess: ({ user }) => onSignIn(trimmed, user) })
+  }
+
+  return (
+    <form
+      data-testid="admin-login"
+      onSubmit={handleSubmit}
+      className="mx-auto max-w-sm space-y-3 rounded-lg bg-white p-6 text-sm"
+    >
+      <h1 className="font-display text-2xl text-brown-dark">Moderation</h1>
+      <label className="block">
+        <span className="text-xs text-text-muted">Admin token</span>
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          autoComplete="off"
+          className="mt-1 block w-full rounded border border-brown-medium/30 bg-white px-2 py-1 text-brown-dark"
+        />
+      </label>
+
+      {error && (
+        <p data-testid="admin-login-error" className="text-xs text-accent">
+          {error.message}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isPending || !token.trim()}
+        className="rounded-full bg-brown-dark px-3 py-1.5 text-xs text-cream transition-colors hover:bg-brown-medium disabled:opacity-50"
+      >
+        {isPending ? "Checking..." : "Sign in"}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,47 @@
+import type { AdminPerson } from "@/types"
+
+interface AdminPersonListProps {
+  persons: AdminPerson[]
+  selectedId: number | null
+  onSelect: (personId: number) => void
+  emptyMessage: string
+}
+
+export default function AdminPersonList({
+  persons,
+  selectedId,
+  onSelect,
+  emptyMessage,
+}: AdminPersonListProps) {
+  if (persons.length === 0) {
+    return <p className="text-sm text-text-muted">{emptyMessage}</p>
+  }
+
+  return (
+    <ul data-testid="admin-person-list" className="space-y-1">
+      {persons.map((person) => (
+        <li key={person.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(person.id)}
+            data-testid={`admin-person-${person.id}`}
+            className={`block w-full rounded-lg p-2 text-left text-sm transition-colors hover:bg-cream ${
+              person.id === selectedId ? "bg-cream" : "bg-white"
+            }`}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium text-brown-dark">{person.name}</span>
+              <span className="flex-shrink-0 text-xs text-text-muted">
+                {person.locked && "Locked · "}
+                {person.agreement !== null && `${Math.round(person.agreement * 100)}% agreement`}
+              </span>
+            </div>
+            <p className="text-xs text-text-muted">
+              Died {person.deathday} · {person.causeOfDeath ?? "Cause unknown"}
+            </p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from "react"
+import { useAdminFeedback, useReviewFeedback } from "@/hooks/useAdmin"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+import type { FeedbackCategory, FeedbackStatus } from "@/types"
+
+const CATEGORY_LABELS: Record<FeedbackCategory, string> = {
+  wrong_cause: "Wrong cause",
+  wrong_date: "Wrong date",
+  not_dead: "Not dead",
+  other: "Other",
+}
+
+const STATUS_OPTIONS: FeedbackStatus[] = ["pending", "accepted", "rejected"]
+
+interface FeedbackQueueProps {
+  token: string
+  onEditPerson: (personId: number) => void
+}
+
+// Reader reports. Accepting a report only marks it reviewed; fix the record
+// itself in the editor.
+export default function FeedbackQueue({ token, onEditPerson }: FeedbackQueueProps) {
+  const [status, setStatus] = useState<FeedbackStatus>("pending")
+  const { data, isLoading, error } = useAdminFeedback(token, status)
+  const review = useReviewFeedback(token)
+
+  return (
+    <div data-testid="feedback-queue" className="space-y-2 text-sm">
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value as FeedbackStatus)}
+        aria-label="Report status"
+        className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-brown-dark"
+      >
+        {STATUS_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {option.charAt(0).toUpperCase() + option.slice(1)}
+          </option>
+        ))}
+      </select>
+
+      {isLoading && <LoadingSpinner message="Loading reports..." />}
+      {error && <p className="text-accent">{error.message}</p>}
+      {review.error && <p className="text-accent">{review.error.message}</p>}
+
+      {data && data.items.length === 0 && <p className="text-text-muted">No {status} reports.</p>}
+
+      {data && data.items.length > 0 && (
+        <ul className="space-y-2">
+          {data.items.map((item) => (
+            <li
+              key={item.id}
+              data-testid={`feedback-item-${item.id}`}
+              className="rounded-lg bg-white p-3"
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-medium text-brown-dark">
+                  {item.personName ?? `Unknown person (TMDB ${item.personId})`}
+                </span>
+                <span className="flex-shrink-0 text-xs text-accent">
+                  {CATEGORY_LABELS[item.category]}
+                </span>
+              </div>
+              <p className="text-xs text-text-muted">
+                Currently: {item.currentCauseOfDeath ?? "no cause"}
+                {item.deathday && `, died ${item.deathday}`}
+              </p>
+              <p className="mt-1 whitespace-pre-line text-brown-dark">{item.message}</p>
+              <p className="mt-1 text-xs text-text-muted">
+                Reported {new Date(item.createdAt).toLocaleDateString()}
+                {item.reviewedBy && ` · ${item.status} by ${item.reviewedBy}`}
+              </p>
+
+              <div className="mt-2 flex gap-2">
+                {item.personName && (
+                  <button
+                    type="button"
+                    onClick={() => onEditPerson(item.personId)}
+                    className="rounded-full bg-beige px-3 py-1 text-xs text-brown-dark transition-colors hover:bg-cream"
+                  >
+                    Edit record
+                  </button>
+                )}
+                {item.status === "pending" && (
+                  <>
+                    <button
+                      type="button"
+                      disabled={review.isPending}
+                      onClick={() => review.mutate({ id: item.id, status: "accepted" })}
+                      className="rounded-full bg-brown-dark px-3 py-1 text-xs text-cream transition-colors hover:bg-brown-medium disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      type="button"
+                      disabled={review.isPending}
+                      onClick={() => review.mutate({ id: item.id, status: "rejected" })}
+                      className="rounded-full bg-beige px-3 py-1 text-xs text-brown-dark transition-colors hover:bg-cream disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import PersonEditor from "./PersonEditor"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getAdminPerson: vi.fn(),
+  updateAdminPerson: vi.fn(),
+  getAdminPersonHistory: vi.fn(),
+  revertAdminPerson: vi.fn(),
+}))
+
+const mockPerson = {
+  id: 500,
+  name: "Actor One",
+  birthday: "1930-05-01",
+  deathday: "2010-03-02",
+  causeOfDeath: "heart attack",
+  causeOfDeathSource: "claude" as const,
+  causeOfDeathDetails: null,
+  causeOfDeathDetailsSource: null,
+  wikipediaUrl: "https://en.wikipedia.org/wiki/Actor_One",
+  profilePath: null,
+  locked: false,
+  agreement: 0.5,
+}
+
+function renderEditor() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  })
+  render(
+    <QueryClientProvider client={queryClient}>
+      <PersonEditor token="secret-1" personId={500} onClose={vi.fn()} />
+    </QueryClientProvider>
+  )
+}
+
+describe("PersonEditor", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(api.getAdminPersonHistory).mockResolvedValue({ history: [] })
+    vi.mocked(api.getAdminPerson).mockResolvedValue({
+      person: mockPerson,
+      sources: [
+        {
+          source: "claude",
+          causeOfDeath: "heart attack",
+          causeOfDeathDetails: null,
+          promptVersion: "cause-of-death@2",
+          model: "claude-3-haiku-20240307",
+        },
+        {
+          source: "wikidata",
+          causeOfDeath: "stroke",
+          causeOfDeathDetails: "Collapsed at home.",
+          promptVersion: null,
+          model: null,
+        },
+      ],
+    })
+  })
+
+  it("credits a typed cause to admin and saves the lock", async () => {
+    vi.mocked(api.updateAdminPerson).mockResolvedValue({
+      person: { ...mockPerson, causeOfDeath: "Stroke", locked: true },
+    })
+    renderEditor()
+
+    await waitFor(() => {
+      expect(screen.getByTestId("person-editor")).toBeInTheDocument()
+    })
+
+    fireEvent.change(screen.getByLabelText("Cause of death"), { target: { value: "Stroke" } })
+    fireEvent.click(screen.getByRole("checkbox"))
+    fireEvent.change(screen.getByLabelText(/Reason for the change/), {
+      target: { value: "Obituary in the Times" },
+    })
+    fireEvent.click(screen.getByRole("button", { name: "Save" }))
+
+    await waitFor(() => {
+      expect(api.updateAdminPerson).toHaveBeenCalledWith("secret-1", 500, {
+        causeOfDeath: "Stroke",
+        causeOfDeathSource: "admin",
+        causeOfDeathDetails: "",
+        causeOfDeathDetailsSource: null,
+        wikipediaUrl: "https://en.wikipedia.org/wiki/Actor_One",
+        locked: true,
+        reason: "Obituary in the Times",
+      })
+    })
+  })
+
+  it("copies a stored source's answer into the form", async () => {
+    renderEditor()
+
+    await waitFor(() => {
+      expect(screen.getByTestId("person-editor-sources")).toHaveTextContent("50% agreement")
+    })
+    expect(screen.getByTestId("person-editor-sources")).toHaveTextContent(
+      "(claude-3-haiku-20240307, cause-of-death@2)"
+    )
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Use" })[1])
+
+    expect(screen.getByLabelText("Cause of death")).toHaveValue("stroke")
+    expect(screen.getByLabelText("Source")).toHaveValue("wikipedia")
+    expect(screen.getByLabelText("Details")).toHaveValue("Collapsed at home.")
+  })
+
+  it("shows the server's error when a save fails", async () => {
+    vi.mocked(api.updateAdminPerson).mockRejectedValue(new Error("Invalid Wikipedia URL"))
+    renderEditor()
+
+    await waitFor(() => {
+      expect(screen.getByTestId("person-editor")).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByRole("button", { name: "Save" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("person-editor-save-error")).toHaveTextContent(
+        "Invalid Wikipedia URL"
+      )
+    })
+  })
+})
@@ -0,0 +1,266 @@
+import { useState } from "react"
+import { useAdminPerson, useUpdateAdminPerson } from "@/hooks/useAdmin"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+import PersonHistory from "./PersonHistory"
+import type {
+  AdminPerson,
+  AdminPersonResponse,
+  CauseOfDeathSourceName,
+  DeathInfoSource,
+} from "@/types"
+
+const SOURCE_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "None" },
+  { value: "claude", label: "Claude" },
+  { value: "wikipedia", label: "Wikipedia" },
+  { value: "admin", label: "Admin" },
+]
+
+const SOURCE_LABELS: Record<CauseOfDeathSourceName, string> = {
+  claude: "Claude",
+  wikidata: "Wikidata",
+  wikipedia_infobox: "Wikipedia infobox",
+  wikipedia_prose: "Wikipedia article",
+}
+
+// Stored answers come from finer-grained sources than the record tracks
+function toDeathInfoSource(source: CauseOfDeathSourceName): DeathInfoSource {
+  return source === "claude" ? "claude" : "wikipedia"
+}
+
+const inputClass =
+  "mt-1 block w-full rounded border border-brown-medium/30 bg-white px-2 py-1 text-brown-dark"
+
+interface PersonEditorProps {
+  token: string
+  personId: number
+  onClose: () => void
+}
+
+export default function PersonEditor({ token, personId, onClose }: PersonEditorProps) {
+  const { data, isLoading, error } = useAdminPerson(token, personId)
+  const update = useUpdateAdminPerson(token, personId)
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading record..." />
+  }
+
+  if (error || !data) {
+    return (
+      <p data-testid="person-editor-error" className="text-sm text-accent">
+        {error?.message ?? "Record not found"}
+      </p>
+    )
+  }
+
+  // Keyed so the form resets to the saved values once a save refetches the record
+  return (
+    <div className="space-y-4">
+      <PersonForm
+        key={JSON.stringify(data.person)}
+        person={data.person}
+        sources={data.sources}
+        update={update}
+        onClose={onClose}
+      />
+      <PersonHistory token={token} personId={personId} />
+    </div>
+  )
+}
+
+interface PersonFormProps {
+  person: AdminPerson
+  sources: AdminPersonResponse["sources"]
+  update: ReturnType<typeof useUpdateAdminPerson>
+  onClose: () => void
+}
+
+function PersonForm({ person, sources, update, onClose }: PersonFormProps) {
+  const [causeOfDeath, setCauseOfDeath] = useState(person.causeOfDeath ?? "")
+  const [causeOfDeathSource, setCauseOfDeathSource] = useState(person.causeOfDeathSource ?? "")
+  const [details, setDetails] = useState(person.causeOfDeathDetails ?? "")
+  const [detailsSource, setDetailsSource] = useState(person.causeOfDeathDetailsSource ?? "")
+  const [wikipediaUrl, setWikipediaUrl] = useState(person.wikipediaUrl ?? "")
+  const [locked, setLocked] = useState(person.locked)
+  const [reason, setReason] = useState("")
+  const { mutate, isPending, isSuccess, error } = update
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    mutate({
+      causeOfDeath,
+      causeOfDeathSource: (causeOfDeathSource || null) as DeathInfoSource,
+      causeOfDeathDetails: details,
+      causeOfDeathDetailsSource: (detailsSource || null) as DeathInfoSource,
+      wikipediaUrl,
+      locked,
+      reason,
+    })
+  }
+
+  const applyAnswer = (answer: AdminPersonResponse["sources"][number]) => {
+    setCauseOfDeath(answer.causeOfDeath ?? "")
+    setCauseOfDeathSource(toDeathInfoSource(answer.source) ?? "")
+    if (answer.causeOfDeathDetails) {
+      setDetails(answer.causeOfDeathDetails)
+      setDetailsSource(toDeathInfoSource(answer.source) ?? "")
+    }
+  }
+
+  return (
+    <form
+      data-testid="person-editor"
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg bg-white p-4 text-sm"
+    >
+      <div className="flex items-baseline justify-between gap-2">
+        <h2 className="font-display text-xl text-brown-dark">{person.name}</h2>
+        <span className="text-xs text-text-muted">
+          TMDB {person.id} · died {person.deathday}
+        </span>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+        <label className="block">
+          <span className="text-xs text-text-muted">Cause of death</span>
+          <input
+            type="text"
+            value={causeOfDeath}
+            onChange={(e) => {
+              setCauseOfDeath(e.target.value)
+              setCauseOfDeathSource("admin")
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-text-muted">Source</span>
+          <select
+            value={causeOfDeathSource}
+            onChange={(e) => setCauseOfDeathSource(e.target.value)}
+            className={inputClass}
+          >
+            {SOURCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+        <label className="block">
+          <span className="text-xs text-text-muted">Details</span>
+          <textarea
+            value={details}
+            onChange={(e) => {
+              setDetails(e.target.value)
+              setDetailsSource("admin")
+            }}
+            rows={3}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-text-muted">Details source</span>
+          <select
+            value={detailsSource}
+            onChange={(e) => setDetailsSource(e.target.value)}
+            className={inputClass}
+          >
+            {SOURCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-xs text-text-muted">Wikipedia URL</span>
+        <input
+          type="url"
+          value={wikipediaUrl}
+          onChange={(e) => setWikipediaUrl(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-brown-dark">
+        <input type="checkbox" checked={locked} onChange={(e) => setLocked(e.target.checked)} />
+        Lock record (automated enrichment won't overwrite it)
+      </label>
+
+      <label className="block">
+        <span className="text-xs text-text-muted">Reason for the change (kept in the history)</span>
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+          className={inputClass}
+        />
+      </label>
+
+      {sources.length > 0 && (
+        <div data-testid="person-editor-sources">
+          <p className="text-xs text-text-muted">
+            What each source said
+            {person.agreement !== null && ` (${Math.round(person.agreement * 100)}% agreement)`}
+          </p>
+          <ul className="mt-1 space-y-1">
+            {sources.map((answer) => (
+              <li key={answer.source} className="flex items-baseline justify-between gap-2">
+                <span className="text-brown-dark">
+                  <span className="font-medium">{SOURCE_LABELS[answer.source]}:</span>{" "}
+                  {answer.causeOfDeath ?? "No answer"}
+                  {answer.model && (
+                    <span className="text-xs text-text-muted">
+                      {" "}
+                      ({answer.model}, {answer.promptVersion})
+                    </span>
+                  )}
+                </span>
+                {answer.causeOfDeath && (
+                  <button
+                    type="button"
+                    onClick={() => applyAnswer(answer)}
+                    className="text-xs text-brown-medium underline hover:text-brown-dark"
+                  >
+                    Use
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <p data-testid="person-editor-save-error" className="text-xs text-accent">
+          {error.message}
+        </p>
+      )}
+      {isSuccess && <p className="text-xs text-text-muted">Saved.</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-full bg-brown-dark px-3 py-1.5 text-xs text-cream transition-colors hover:bg-brown-medium disabled:opacity-50"
+        >
+          {isPending ? "Saving..." : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full bg-beige px-3 py-1.5 text-xs text-brown-dark transition-colors hover:bg-white"
+        >
+          Close
+        </button>
+      </div>
+    </form>
+  )
+}
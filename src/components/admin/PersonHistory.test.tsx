@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import PersonHistory from "./PersonHistory"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getAdminPersonHistory: vi.fn(),
+  revertAdminPerson: vi.fn(),
+}))
+
+const mockHistory = [
+  {
+    id: 2,
+    actor: "admin:alice",
+    reason: "Obituary in the Times",
+    createdAt: "2025-01-02T00:00:00Z",
+    changes: [{ field: "causeOfDeath", from: "heart attack", to: "stroke" }],
+  },
+  {
+    id: 1,
+    actor: "enrichment",
+    reason: "Resolved from 2 sources (100% agreement)",
+    createdAt: "2025-01-01T00:00:00Z",
+    changes: [{ field: "causeOfDeath", from: null, to: "heart attack" }],
+  },
+]
+
+function renderHistory() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  })
+  render(
+    <QueryClientProvider client={queryClient}>
+      <PersonHistory token="secret-1" personId={500} />
+    </QueryClientProvider>
+  )
+}
+
+describe("PersonHistory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(api.getAdminPersonHistory).mockResolvedValue({ history: mockHistory })
+  })
+
+  it("shows who changed what and why", async () => {
+    renderHistory()
+
+    await waitFor(() => {
+      expect(screen.getByTestId("history-entry-2")).toBeInTheDocument()
+    })
+    const entry = screen.getByTestId("history-entry-2")
+    expect(entry).toHaveTextContent("admin:alice")
+    expect(entry).toHaveTextContent("Obituary in the Times")
+    expect(entry).toHaveTextContent("Cause of death: heart attack stroke")
+    expect(screen.getByTestId("history-entry-1")).toHaveTextContent("(empty) heart attack")
+  })
+
+  it("restores an earlier version but not the current one", async () => {
+    vi.mocked(api.revertAdminPerson).mockResolvedValue({
+      person: {
+        id: 500,
+        name: "Actor One",
+        birthday: null,
+        deathday: "2010-03-02",
+        causeOfDeath: "heart attack",
+        causeOfDeathSource: "claude",
+        causeOfDeathDetails: null,
+        causeOfDeathDetailsSource: null,
+        wikipediaUrl: null,
+        profilePath: null,
+        locked: false,
+        agreement: null,
+      },
+    })
+    renderHistory()
+
+    await waitFor(() => {
+      expect(screen.getByTestId("history-entry-1")).toBeInTheDocument()
+    })
+    const restoreButtons = screen.getAllByRole("button", { name: "Restore this version" })
+    expect(restoreButtons).toHaveLength(1)
+
+    fireEvent.click(restoreButtons[0])
+
+    await waitFor(() => {
+      expect(api.revertAdminPerson).toHaveBeenCalledWith("secret-1", 500, 1)
+    })
+  })
+})
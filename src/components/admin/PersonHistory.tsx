@@ -0,0 +1,91 @@
+import { useAdminPersonHistory, useRevertAdminPerson } from "@/hooks/useAdmin"
+import type { AdminHistoryChange } from "@/types"
+
+const FIELD_LABELS: Record<string, string> = {
+  birthday: "Birthday",
+  deathday: "Death date",
+  causeOfDeath: "Cause of death",
+  causeOfDeathSource: "Cause source",
+  causeOfDeathDetails: "Details",
+  causeOfDeathDetailsSource: "Details source",
+  wikipediaUrl: "Wikipedia URL",
+  locked: "Locked",
+}
+
+function formatValue(value: AdminHistoryChange["from"]): string {
+  if (value === null || value === "") return "(empty)"
+  if (typeof value === "boolean") return value ? "yes" : "no"
+  return value
+}
+
+interface PersonHistoryProps {
+  token: string
+  personId: number
+}
+
+// Timeline of every change to a record. A revert is itself a change, so it can
+// be undone from here too.
+export default function PersonHistory({ token, personId }: PersonHistoryProps) {
+  const { data, isLoading, error } = useAdminPersonHistory(token, personId)
+  const revert = useRevertAdminPerson(token, personId)
+
+  if (isLoading) {
+    return <p className="text-xs text-text-muted">Loading history...</p>
+  }
+
+  if (error) {
+    return <p className="text-xs text-accent">{error.message}</p>
+  }
+
+  const history = data?.history || []
+
+  return (
+    <div data-testid="person-history" className="space-y-2 text-sm">
+      <h3 className="font-display text-lg text-brown-dark">History</h3>
+      {revert.error && <p className="text-xs text-accent">{revert.error.message}</p>}
+      {history.length === 0 ? (
+        <p className="text-xs text-text-muted">No recorded changes.</p>
+      ) : (
+        <ol className="space-y-2">
+          {history.map((entry, index) => (
+            <li
+              key={entry.id}
+              data-testid={`history-entry-${entry.id}`}
+              className="rounded-lg bg-white p-3"
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-medium text-brown-dark">{entry.actor}</span>
+                <span className="flex-shrink-0 text-xs text-text-muted">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {entry.reason && <p className="text-xs text-text-muted">{entry.reason}</p>}
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {entry.changes.map((change) => (
+                  <li key={change.field} className="break-words">
+                    <span className="text-text-muted">
+                      {FIELD_LABELS[change.field] ?? change.field}:
+                    </span>{" "}
+                    <span className="text-accent line-through">{formatValue(change.from)}</span>{" "}
+                    <span className="text-brown-dark">{formatValue(change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+              {/* The newest entry is the current version */}
+              {index > 0 && (
+                <button
+                  type="button"
+                  disabled={revert.isPending}
+                  onClick={() => revert.mutate(entry.id)}
+                  className="mt-2 text-xs text-brown-medium underline hover:text-brown-dark disabled:opacity-50"
+                >
+                  Restore this version
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
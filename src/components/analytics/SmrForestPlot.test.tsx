@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest"
+import { render, screen } from "@testing-library/react"
+import SmrForestPlot from "./SmrForestPlot"
+import type { CohortMortality } from "@/types"
+
+function group(overrides: Partial<CohortMortality>): CohortMortality {
+  return {
+    movieCount: 10,
+    deaths: 20,
+    expectedDeaths: 20,
+    smr: 1,
+    smrLow: 0.6,
+    smrHigh: 1.5,
+    significant: false,
+    ...overrides,
+  }
+}
+
+describe("SmrForestPlot", () => {
+  it("renders a labelled row per group", () => {
+    render(
+      <SmrForestPlot
+        groups={[
+          group({
+            genre: "Horror",
+            decade: 1970,
+            smr: 1.5,
+            smrLow: 1.1,
+            smrHigh: 2,
+            significant: true,
+          }),
+          group({ genre: "Drama", decade: 1970 }),
+        ]}
+      />
+    )
+
+    expect(screen.getAllByTestId("smr-forest-plot-row")).toHaveLength(2)
+    expect(screen.getByText("Horror · 1970s")).toBeInTheDocument()
+    expect(screen.getByText("Drama · 1970s")).toBeInTheDocument()
+    expect(screen.getByText("1.50 (1.10–2.00)")).toBeInTheDocument()
+  })
+
+  it("shows language names instead of codes", () => {
+    render(<SmrForestPlot groups={[group({ language: "fr" })]} />)
+
+    expect(screen.getByText("French")).toBeInTheDocument()
+  })
+
+  it("colors groups by whether their interval excludes 1", () => {
+    const { container } = render(
+      <SmrForestPlot
+        groups={[
+          group({ genre: "Horror", smr: 1.5, smrLow: 1.1, smrHigh: 2, significant: true }),
+          group({ genre: "Family", smr: 0.6, smrLow: 0.4, smrHigh: 0.8, significant: true }),
+          group({ genre: "Drama" }),
+        ]}
+      />
+    )
+
+    const circles = container.querySelectorAll("circle")
+    expect(circles[0]).toHaveClass("fill-accent")
+    expect(circles[1]).toHaveClass("fill-living-dark")
+    expect(circles[2]).toHaveClass("fill-brown-medium")
+  })
+
+  it("renders nothing without groups", () => {
+    const { container } = render(<SmrForestPlot groups={[]} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,149 @@
+import type { CohortMortality } from "@/types"
+
+interface SmrForestPlotProps {
+  groups: CohortMortality[]
+}
+
+// SVG layout (scaled to the container width via viewBox); height grows with the rows
+const WIDTH = 720
+const ROW_HEIGHT = 24
+const LABEL_WIDTH = 200
+const VALUE_WIDTH = 130
+const MARGIN = { top: 8, bottom: 28 }
+const PLOT_LEFT = LABEL_WIDTH + 8
+const PLOT_WIDTH = WIDTH - PLOT_LEFT - VALUE_WIDTH
+
+// Intervals for groups with few expected deaths can run past 10×; cap the axis and
+// draw anything wider to the edge
+const MAX_AXIS = 4
+
+// Full class names so Tailwind picks them up
+const ROW_STYLES = {
+  above: { stroke: "stroke-accent", fill: "fill-accent" },
+  below: { stroke: "stroke-living-dark", fill: "fill-living-dark" },
+  within: { stroke: "stroke-brown-medium", fill: "fill-brown-medium" },
+}
+
+const LANGUAGE_NAMES = new Intl.DisplayNames(["en"], { type: "language" })
+
+function languageName(code: string): string {
+  try {
+    return LANGUAGE_NAMES.of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
+function formatCohortLabel(group: CohortMortality): string {
+  const parts: string[] = []
+  if (group.genre !== undefined) parts.push(group.genre)
+  if (group.decade !== undefined) parts.push(`${group.decade}s`)
+  if (group.language !== undefined) parts.push(languageName(group.language))
+  return parts.join(" · ")
+}
+
+export default function SmrForestPlot({ groups }: SmrForestPlotProps) {
+  if (groups.length === 0) {
+    return null
+  }
+
+  const xMax = Math.min(Math.max(2, Math.ceil(Math.max(...groups.map((g) => g.smrHigh)))), MAX_AXIS)
+  const x = (smr: number) => PLOT_LEFT + (Math.min(smr, xMax) / xMax) * PLOT_WIDTH
+  const height = MARGIN.top + groups.length * ROW_HEIGHT + MARGIN.bottom
+  const plotBottom = MARGIN.top + groups.length * ROW_HEIGHT
+  const ticks = Array.from({ length: xMax * 2 + 1 }, (_, i) => i / 2)
+
+  return (
+    <div
+      data-testid="smr-forest-plot"
+      className="rounded-lg border border-brown-medium/20 bg-white p-4"
+    >
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="h-auto w-full"
+        role="img"
+        aria-label={`Standardized mortality ratio with 95% interval for ${groups.length} groups`}
+      >
+        {/* X axis: SMR */}
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={x(tick)}
+              x2={x(tick)}
+              y1={MARGIN.top}
+              y2={plotBottom}
+              className={tick === 1 ? "stroke-living-dark" : "stroke-brown-medium/10"}
+              strokeDasharray={tick === 1 ? "6 4" : undefined}
+            />
+            <text
+              x={x(tick)}
+              y={plotBottom + 16}
+              textAnchor="middle"
+              className="fill-text-muted text-[11px]"
+            >
+              {tick}×
+            </text>
+          </g>
+        ))}
+
+        {groups.map((group, index) => {
+          const y = MARGIN.top + index * ROW_HEIGHT + ROW_HEIGHT / 2
+          const label = formatCohortLabel(group)
+          const style = !group.significant
+            ? ROW_STYLES.within
+            : group.smr > 1
+              ? ROW_STYLES.above
+              : ROW_STYLES.below
+
+          return (
+            <g key={label} data-testid="smr-forest-plot-row">
+              <title>
+                {`${label}: ${group.deaths} deaths vs ${group.expectedDeaths.toFixed(1)} expected across ${group.movieCount} movies`}
+              </title>
+              <text
+                x={LABEL_WIDTH}
+                y={y}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-brown-dark text-[12px]"
+              >
+                {label}
+              </text>
+              <line
+                x1={x(group.smrLow)}
+                x2={x(group.smrHigh)}
+                y1={y}
+                y2={y}
+                strokeWidth={2}
+                className={style.stroke}
+              />
+              <circle cx={x(group.smr)} cy={y} r={4} className={style.fill} />
+              <text
+                x={WIDTH - VALUE_WIDTH + 12}
+                y={y}
+                dominantBaseline="middle"
+                className="fill-text-muted text-[11px]"
+              >
+                {group.smr.toFixed(2)} ({group.smrLow.toFixed(2)}–{group.smrHigh.toFixed(2)})
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="mt-2 flex flex-wrap justify-center gap-4 text-xs text-text-muted">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-full bg-accent" /> More deaths than expected
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-full bg-living-dark" /> Fewer deaths than
+          expected
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-full bg-brown-medium" /> Within chance
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -26,7 +26,10 @@ export default function CalculationExplainer({ type }: CalculationExplainerProps
                 <p>
                   For each actor in a film, we calculate the probability they would have died
                   between the movie's release and today using US Social Security Administration
-                  actuarial life tables. This accounts for their age at the time of filming.
+                  actuarial life tables. This accounts for their age at the time of filming, uses
+                  the death rates their own birth generation experienced, and uses separate tables
+                  for men and women where gender is known. Actors born outside the US are measured
+                  against their birth country's life table when one is available.
                 </p>
                 <p className="mt-1">
                   The sum of all individual death probabilities gives us the{" "}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest"
+import { render, screen } from "@testing-library/react"
+import MortalityForecast from "./MortalityForecast"
+import type { MortalityForecast as Forecast } from "@/types"
+
+const forecast: Forecast = {
+  totalCount: 30,
+  deceasedCount: 8,
+  livingCount: 22,
+  unknownAgeCount: 0,
+  projections: [
+    { year: 2030, expectedDeaths: 2.07, expectedDeathsLow: 0, expectedDeathsHigh: 5 },
+    { year: 2040, expectedDeaths: 7.26, expectedDeathsLow: 4, expectedDeathsHigh: 11 },
+  ],
+  milestones: [
+    {
+      fraction: 0.5,
+      deathsRequired: 15,
+      reached: false,
+      expectedYear: 2039,
+      earliestYear: 2033,
+      latestYear: 2045,
+    },
+    {
+      fraction: 1,
+      deathsRequired: 30,
+      reached: false,
+      expectedYear: 2076,
+      earliestYear: 2067,
+      latestYear: 2086,
+    },
+  ],
+}
+
+describe("MortalityForecast", () => {
+  it("shows milestone years with their ranges", () => {
+    render(<MortalityForecast forecast={forecast} groupLabel="the cast" />)
+
+    const milestones = screen.getAllByTestId("forecast-milestone")
+    expect(milestones[0]).toHaveTextContent("Half of the cast deceased")
+    expect(milestones[0]).toHaveTextContent("2039")
+    expect(milestones[0]).toHaveTextContent("(2033–2045)")
+    expect(milestones[1]).toHaveTextContent("All of the cast deceased")
+    expect(milestones[1]).toHaveTextContent("2076")
+  })
+
+  it("shows expected deaths by year with their ranges", () => {
+    render(<MortalityForecast forecast={forecast} groupLabel="the cast" />)
+
+    const projections = screen.getAllByTestId("forecast-projection")
+    expect(projections[0]).toHaveTextContent("Expected deaths by 2030")
+    expect(projections[0]).toHaveTextContent("2.1")
+    expect(projections[0]).toHaveTextContent("(0–5)")
+    expect(projections[1]).toHaveTextContent("7.3")
+  })
+
+  it("marks milestones that were already reached or can't be estimated", () => {
+    render(
+      <MortalityForecast
+        forecast={{
+          ...forecast,
+          unknownAgeCount: 1,
+          milestones: [
+            { ...forecast.milestones[0], reached: true, expectedYear: null },
+            {
+              ...forecast.milestones[1],
+              expectedYear: null,
+              earliestYear: null,
+              latestYear: null,
+            },
+          ],
+        }}
+        groupLabel="the cast"
+      />
+    )
+
+    const milestones = screen.getAllByTestId("forecast-milestone")
+    expect(milestones[0]).toHaveTextContent("Already reached")
+    expect(milestones[1]).toHaveTextContent("Can't be estimated")
+    expect(screen.getByTestId("forecast-unknown-age-note")).toHaveTextContent(
+      "1 living person without a known birthday is assumed to survive."
+    )
+  })
+
+  it("renders nothing when nobody is living", () => {
+    const { container } = render(
+      <MortalityForecast forecast={{ ...forecast, livingCount: 0 }} groupLabel="the cast" />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,100 @@
+import type { MortalityForecast as Forecast, MortalityMilestone } from "@/types"
+
+interface MortalityForecastProps {
+  forecast: Forecast
+  groupLabel: string // e.g. "the cast"
+}
+
+function milestoneLabel(fraction: number, groupLabel: string): string {
+  if (fraction === 1) return `All of ${groupLabel}`
+  if (fraction === 0.5) return `Half of ${groupLabel}`
+  return `${Math.round(fraction * 100)}% of ${groupLabel}`
+}
+
+function formatRange(low: number | null, high: number | null): string | null {
+  if (low === null || high === null || low === high) return null
+  return `${low}–${high}`
+}
+
+function MilestoneValue({ milestone }: { milestone: MortalityMilestone }) {
+  if (milestone.reached) {
+    return <span className="text-text-muted">Already reached</span>
+  }
+  if (milestone.expectedYear === null) {
+    return <span className="text-text-muted">Can't be estimated</span>
+  }
+
+  const range = formatRange(milestone.earliestYear, milestone.latestYear)
+  return (
+    <span>
+      <span className="font-display text-lg text-brown-dark">{milestone.expectedYear}</span>
+      {range && <span className="ml-1 text-xs text-text-muted">({range})</span>}
+    </span>
+  )
+}
+
+export default function MortalityForecast({ forecast, groupLabel }: MortalityForecastProps) {
+  const { livingCount, unknownAgeCount, projections, milestones } = forecast
+
+  // Nothing left to forecast once everyone has died
+  if (livingCount === 0) {
+    return null
+  }
+
+  return (
+    <div data-testid="mortality-forecast" className="mb-8 rounded-lg bg-white p-4">
+      <h3 className="font-display text-lg text-brown-dark">Mortality Forecast</h3>
+      <p className="mb-3 text-xs text-text-muted">
+        Projected from actuarial life tables for the {livingCount} living. Ranges show where 95% of
+        outcomes fall.
+      </p>
+
+      <dl className="grid gap-2 sm:grid-cols-2">
+        {milestones.map((milestone) => (
+          <div
+            key={milestone.fraction}
+            data-testid="forecast-milestone"
+            className="flex items-baseline justify-between gap-2 rounded bg-cream px-3 py-2"
+          >
+            <dt className="text-sm text-brown-medium">
+              {milestoneLabel(milestone.fraction, groupLabel)} deceased
+            </dt>
+            <dd className="text-sm">
+              <MilestoneValue milestone={milestone} />
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {projections.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {projections.map((projection) => {
+            const range = formatRange(projection.expectedDeathsLow, projection.expectedDeathsHigh)
+            return (
+              <li
+                key={projection.year}
+                data-testid="forecast-projection"
+                className="flex items-baseline justify-between text-sm"
+              >
+                <span className="text-brown-medium">Expected deaths by {projection.year}</span>
+                <span>
+                  <span className="font-semibold text-brown-dark">
+                    {projection.expectedDeaths.toFixed(1)}
+                  </span>
+                  {range && <span className="ml-1 text-xs text-text-muted">({range})</span>}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {unknownAgeCount > 0 && (
+        <p data-testid="forecast-unknown-age-note" className="mt-3 text-xs text-text-muted">
+          {unknownAgeCount} living {unknownAgeCount !== 1 ? "people" : "person"} without a known
+          birthday {unknownAgeCount !== 1 ? "are" : "is"} assumed to survive.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import ReportProblemForm from "./ReportProblemForm"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  submitPersonFeedback: vi.fn(),
+}))
+
+function renderForm(onClose = vi.fn()) {
+  const queryClient = new QueryClient({
+    defaultOptions: { mutations: { retry: false } },
+  })
+  render(
+    <QueryClientProvider client={queryClient}>
+      <ReportProblemForm personId={123} personName="John Doe" onClose={onClose} />
+    </QueryClientProvider>
+  )
+  return onClose
+}
+
+describe("ReportProblemForm", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("submits the category and message, then thanks the reader", async () => {
+    vi.mocked(api.submitPersonFeedback).mockResolvedValue({ received: true })
+    renderForm()
+
+    fireEvent.change(screen.getByRole("combobox"), { target: { value: "wrong_date" } })
+    fireEvent.change(screen.getByRole("textbox", { name: /details/i }), {
+      target: { value: "  Died in 1998, not 1999.  " },
+    })
+    fireEvent.click(screen.getByRole("button", { name: "Send report" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("report-problem-success")).toBeInTheDocument()
+    })
+    expect(api.submitPersonFeedback).toHaveBeenCalledWith(123, {
+      category: "wrong_date",
+      message: "Died in 1998, not 1999.",
+      website: "",
+    })
+  })
+
+  it("disables submit until the reader describes the problem", () => {
+    renderForm()
+
+    expect(screen.getByRole("button", { name: "Send report" })).toBeDisabled()
+  })
+
+  it("shows the server's error message", async () => {
+    vi.mocked(api.submitPersonFeedback).mockRejectedValue(
+      new Error("Too many reports. Please try again later.")
+    )
+    renderForm()
+
+    fireEvent.change(screen.getByRole("textbox", { name: /details/i }), {
+      target: { value: "Still alive" },
+    })
+    fireEvent.click(screen.getByRole("button", { name: "Send report" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("report-problem-error")).toHaveTextContent(
+        "Too many reports. Please try again later."
+      )
+    })
+  })
+
+  it("calls onClose when cancelled", () => {
+    const onClose = renderForm()
+
+    fireEvent.click(screen.getByRole("button", { name: "Cancel" }))
+
+    expect(onClose).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,125 @@
+import { useState } from "react"
+import { useSubmitFeedback } from "@/hooks/useSubmitFeedback"
+import type { FeedbackCategory } from "@/types"
+
+const CATEGORY_OPTIONS: { value: FeedbackCategory; label: string }[] = [
+  { value: "wrong_cause", label: "Wrong cause of death" },
+  { value: "wrong_date", label: "Wrong date of death" },
+  { value: "not_dead", label: "This person is not dead" },
+  { value: "other", label: "Something else" },
+]
+
+const MAX_MESSAGE_LENGTH = 1000
+
+interface ReportProblemFormProps {
+  personId: number
+  personName: string
+  onClose: () => void
+}
+
+// Lets readers flag wrong death information. Reports are reviewed before anything changes.
+export default function ReportProblemForm({
+  personId,
+  personName,
+  onClose,
+}: ReportProblemFormProps) {
+  const [category, setCategory] = useState<FeedbackCategory>("wrong_cause")
+  const [message, setMessage] = useState("")
+  const [website, setWebsite] = useState("")
+  const { mutate, isPending, isSuccess, error } = useSubmitFeedback(personId)
+
+  if (isSuccess) {
+    return (
+      <div data-testid="report-problem-success" className="rounded-lg bg-cream p-3 text-sm">
+        <p className="text-brown-dark">Thanks! We'll review your report about {personName}.</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="mt-2 text-xs text-brown-medium underline hover:text-brown-dark"
+        >
+          Close
+        </button>
+      </div>
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    mutate({ category, message: message.trim(), website })
+  }
+
+  return (
+    <form
+      data-testid="report-problem-form"
+      onSubmit={handleSubmit}
+      className="relative space-y-2 rounded-lg bg-cream p-3 text-sm"
+    >
+      <p className="font-medium text-brown-dark">Report a problem with {personName}</p>
+
+      <label className="block">
+        <span className="text-xs text-text-muted">What's wrong?</span>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as FeedbackCategory)}
+          className="mt-1 block w-full rounded border border-brown-medium/30 bg-white px-2 py-1 text-brown-dark"
+        >
+          {CATEGORY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className="text-xs text-text-muted">Details (a source helps us verify)</span>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={3}
+          required
+          className="mt-1 block w-full rounded border border-brown-medium/30 bg-white px-2 py-1 text-brown-dark"
+        />
+      </label>
+
+      {/* Honeypot: kept off-screen so only bots fill it in */}
+      <div aria-hidden="true" className="absolute left-[-9999px] h-px w-px overflow-hidden">
+        <label>
+          Website
+          <input
+            type="text"
+            name="website"
+            tabIndex={-1}
+            autoComplete="off"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <p data-testid="report-problem-error" className="text-xs text-accent">
+          {error.message}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isPending || !message.trim()}
+          className="rounded-full bg-brown-dark px-3 py-1.5 text-xs text-cream transition-colors hover:bg-brown-medium disabled:opacity-50"
+        >
+          {isPending ? "Sending..." : "Send report"}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full bg-beige px-3 py-1.5 text-xs text-brown-dark transition-colors hover:bg-white"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,125 @@
+import { useState, useId } from "react"
+import { useActorSearch } from "@/hooks/useActorSearch"
+import { useKeyboardNavigation } from "@/hooks/useKeyboardNavigation"
+import { getProfileUrl } from "@/services/api"
+import { PersonIcon, SkullIcon } from "@/components/icons"
+import type { ActorSearchResult } from "@/types"
+
+interface ActorPickerProps {
+  id: string
+  label: string
+  selectedName: string | null // Name of the chosen actor, or null to show the search box
+  onSelect: (actor: ActorSearchResult) => void
+  onClear: () => void
+}
+
+export default function ActorPicker({
+  id,
+  label,
+  selectedName,
+  onSelect,
+  onClear,
+}: ActorPickerProps) {
+  const [query, setQuery] = useState("")
+  const [isOpen, setIsOpen] = useState(false)
+  const listboxId = useId()
+
+  const { data, isLoading } = useActorSearch(query)
+  const actors = data?.actors || []
+
+  const handleSelect = (actor: ActorSearchResult) => {
+    onSelect(actor)
+    setIsOpen(false)
+    setQuery("")
+  }
+
+  const { selectedIndex, handleKeyDown } = useKeyboardNavigation({
+    items: actors,
+    isOpen,
+    onSelect: handleSelect,
+    onEscape: () => setIsOpen(false),
+  })
+
+  return (
+    <div data-testid={`actor-picker-${id}`} className="relative flex-1">
+      <label htmlFor={id} className="mb-1 block text-sm text-text-muted">
+        {label}
+      </label>
+
+      {selectedName ? (
+        <div className="flex items-center justify-between rounded-lg border-2 border-brown-medium/30 bg-white px-3 py-2">
+          <span className="truncate font-display text-brown-dark">{selectedName}</span>
+          <button
+            id={id}
+            onClick={onClear}
+            className="ml-2 flex-shrink-0 text-sm text-accent hover:underline"
+          >
+            Change
+          </button>
+        </div>
+      ) : (
+        <>
+          <input
+            id={id}
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setIsOpen(true)
+            }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => setTimeout(() => setIsOpen(false), 200)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search actors..."
+            className="w-full rounded-lg border-2 border-brown-medium/30 bg-white px-3 py-2 placeholder:text-text-muted/50 focus:border-brown-medium focus:outline-none focus:ring-2 focus:ring-brown-medium/20"
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={isOpen && actors.length > 0}
+            aria-controls={listboxId}
+            autoComplete="off"
+          />
+
+          {isOpen && query.length >= 2 && !isLoading && actors.length > 0 && (
+            <ul
+              id={listboxId}
+              role="listbox"
+              className="absolute z-50 mt-1 max-h-80 w-full overflow-y-auto rounded-lg border border-brown-medium/30 bg-cream shadow-lg"
+            >
+              {actors.map((actor, index) => {
+                const profileUrl = getProfileUrl(actor.profilePath, "w45")
+                return (
+                  <li
+                    key={actor.id}
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    onMouseDown={() => handleSelect(actor)}
+                    className={`flex cursor-pointer items-center gap-2 px-3 py-2 hover:bg-beige ${index === selectedIndex ? "bg-beige" : ""}`}
+                  >
+                    {profileUrl ? (
+                      <img
+                        src={profileUrl}
+                        alt=""
+                        width={24}
+                        height={36}
+                        className="h-9 w-6 flex-shrink-0 rounded object-cover"
+                      />
+                    ) : (
+                      <PersonIcon size={24} className="flex-shrink-0 text-text-muted" />
+                    )}
+                    <span className="truncate text-brown-dark">{actor.name}</span>
+                    {actor.isDeceased && (
+                      <SkullIcon size={12} className="flex-shrink-0 text-brown-medium" />
+                    )}
+                    <span className="ml-auto flex-shrink-0 text-xs text-text-muted">
+                      {actor.totalMovies} movies
+                    </span>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { Fragment } from "react"
+import { Link } from "react-router-dom"
+import { getPosterUrl, getProfileUrl } from "@/services/api"
+import { createActorSlug, createMovieSlug } from "@/utils/slugify"
+import { FilmReelIcon, PersonIcon, SkullIcon } from "@/components/icons"
+import type { ConnectionActor, ConnectionMovie } from "@/types"
+
+interface ConnectionChainProps {
+  actors: ConnectionActor[]
+  movies: ConnectionMovie[] // movies[i] connects actors[i] and actors[i + 1]
+}
+
+function ActorCard({ actor }: { actor: ConnectionActor }) {
+  const profileUrl = getProfileUrl(actor.profilePath, "w185")
+
+  return (
+    <Link
+      to={`/actor/${createActorSlug(actor.name, actor.id)}`}
+      className="flex w-24 flex-col items-center rounded-lg bg-white p-2 text-center transition-colors hover:bg-cream"
+      data-testid="connection-actor"
+    >
+      {profileUrl ? (
+        <img
+          src={profileUrl}
+          alt={actor.name}
+          width={64}
+          height={96}
+          loading="lazy"
+          className={`h-24 w-16 rounded object-cover ${actor.isDeceased ? "grayscale" : ""}`}
+        />
+      ) : (
+        <div className="flex h-24 w-16 items-center justify-center rounded bg-beige">
+          <PersonIcon size={32} className="text-text-muted" />
+        </div>
+      )}
+      <span
+        className={`mt-1 line-clamp-2 text-xs ${actor.isDeceased ? "text-accent" : "text-brown-dark"}`}
+      >
+        {actor.name}
+      </span>
+      {actor.isDeceased && (
+        <span className="flex items-center gap-0.5 text-[10px] text-accent">
+          <SkullIcon size={10} /> Deceased
+        </span>
+      )}
+    </Link>
+  )
+}
+
+function MovieCard({ movie }: { movie: ConnectionMovie }) {
+  const posterUrl = getPosterUrl(movie.posterPath, "w92")
+  const slug = createMovieSlug(movie.title, movie.releaseYear?.toString() || "", movie.id)
+
+  return (
+    <Link
+      to={`/movie/${slug}`}
+      className="flex w-20 flex-col items-center rounded-lg border border-dashed border-brown-medium/30 p-2 text-center transition-colors hover:bg-cream"
+      data-testid="connection-movie"
+    >
+      {posterUrl ? (
+        <img
+          src={posterUrl}
+          alt={movie.title}
+          width={46}
+          height={69}
+          loading="lazy"
+          className="h-[69px] w-[46px] rounded object-cover"
+        />
+      ) : (
+        <div className="flex h-[69px] w-[46px] items-center justify-center rounded bg-beige">
+          <FilmReelIcon size={20} className="text-text-muted" />
+        </div>
+      )}
+      <span className="mt-1 line-clamp-2 text-[11px] text-brown-dark">{movie.title}</span>
+      {movie.releaseYear && (
+        <span className="text-[10px] text-text-muted">{movie.releaseYear}</span>
+      )}
+    </Link>
+  )
+}
+
+export default function ConnectionChain({ actors, movies }: ConnectionChainProps) {
+  return (
+    <div
+      data-testid="connection-chain"
+      className="flex flex-wrap items-center justify-center gap-2"
+    >
+      {actors.map((actor, index) => (
+        <Fragment key={actor.id}>
+          <ActorCard actor={actor} />
+          {movies[index] && (
+            <>
+              <span aria-hidden="true" className="text-brown-medium">
+                →
+              </span>
+              <MovieCard movie={movies[index]} />
+              <span aria-hidden="true" className="text-brown-medium">
+                →
+              </span>
+            </>
+          )}
+        </Fragment>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, fireEvent } from "@testing-library/react"
+import { MemoryRouter } from "react-router-dom"
+import FunnelPlot from "./FunnelPlot"
+import type { FunnelLimit, FunnelPlotMovie } from "@/types"
+
+function movie(id: number, deceasedCount: number, expectedDeaths: number): FunnelPlotMovie {
+  return {
+    id,
+    title: `Movie ${id}`,
+    releaseYear: 1980,
+    deceasedCount,
+    expectedDeaths,
+    mortalityRatio: deceasedCount / expectedDeaths,
+  }
+}
+
+const limits: FunnelLimit[] = [
+  { expectedDeaths: 5, lower95: 0.2, upper95: 2, lower998: 0, upper998: 2.6 },
+  { expectedDeaths: 10, lower95: 0.4, upper95: 1.7, lower998: 0.2, upper998: 2.1 },
+]
+
+function renderPlot(movies: FunnelPlotMovie[]) {
+  return render(
+    <MemoryRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+      <FunnelPlot movies={movies} limits={limits} mean={1} />
+    </MemoryRouter>
+  )
+}
+
+describe("FunnelPlot", () => {
+  it("renders the mean, control limits and a point per movie", () => {
+    renderPlot([movie(1, 5, 5), movie(2, 9, 10)])
+
+    expect(screen.getByTestId("funnel-plot-mean")).toBeInTheDocument()
+    expect(screen.getByTestId("funnel-plot-limit-95")).toBeInTheDocument()
+    expect(screen.getByTestId("funnel-plot-limit-998")).toBeInTheDocument()
+    expect(screen.getByTestId("funnel-plot-movie-1")).toBeInTheDocument()
+    expect(screen.getByTestId("funnel-plot-movie-2")).toBeInTheDocument()
+  })
+
+  it("counts movies above the 99.8% limit", () => {
+    // 30 deaths against 10 expected is well above the 2.1 limit
+    renderPlot([movie(1, 5, 5), movie(2, 30, 10)])
+
+    expect(screen.getByTestId("funnel-plot-summary")).toHaveTextContent(
+      "1 of 2 movies had more deaths than chance alone would explain"
+    )
+  })
+
+  it("says when every movie is within the limits", () => {
+    renderPlot([movie(1, 5, 5), movie(2, 9, 10)])
+
+    expect(screen.getByTestId("funnel-plot-summary")).toHaveTextContent(
+      "All 2 movies are within what chance alone would explain"
+    )
+  })
+
+  it("shows details and a link for the hovered movie", () => {
+    renderPlot([movie(1, 5, 5), movie(2, 9, 10)])
+
+    fireEvent.mouseEnter(screen.getByTestId("funnel-plot-movie-2"))
+
+    const details = screen.getByTestId("funnel-plot-details")
+    expect(details).toHaveTextContent("9 deaths vs 10.0 expected")
+    expect(details).toHaveTextContent("SMR 0.90")
+    expect(screen.getByRole("link", { name: "Movie 2" })).toHaveAttribute(
+      "href",
+      "/movie/movie-2-1980-2"
+    )
+  })
+
+  it("renders nothing without movies", () => {
+    const { container } = renderPlot([])
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
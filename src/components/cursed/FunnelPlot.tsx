@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react"
+import { Link } from "react-router-dom"
+import { createMovieSlug } from "@/utils/slugify"
+import type { FunnelLimit, FunnelPlotMovie } from "@/types"
+
+interface FunnelPlotProps {
+  movies: FunnelPlotMovie[]
+  limits: FunnelLimit[]
+  mean: number
+}
+
+// SVG layout (scaled to the container width via viewBox)
+const WIDTH = 640
+const HEIGHT = 360
+const MARGIN = { top: 16, right: 16, bottom: 40, left: 44 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+
+// Tiny casts can have SMRs of 20 or more; cap the axis so the funnel stays readable
+// and draw anything higher on the top edge
+const MAX_RATIO_AXIS = 5
+
+function upperLimitAt(limits: FunnelLimit[], expectedDeaths: number): number | null {
+  const limit = limits.find((l) => l.expectedDeaths >= expectedDeaths) ?? limits[limits.length - 1]
+  return limit ? limit.upper998 : null
+}
+
+export default function FunnelPlot({ movies, limits, mean }: FunnelPlotProps) {
+  const [activeId, setActiveId] = useState<number | null>(null)
+
+  const chart = useMemo(() => {
+    const maxExpected = Math.max(
+      ...movies.map((m) => m.expectedDeaths),
+      ...limits.map((l) => l.expectedDeaths),
+      1
+    )
+    const maxRatio = Math.max(...movies.map((m) => m.mortalityRatio), mean * 2)
+    const yMax = Math.min(Math.ceil(maxRatio), MAX_RATIO_AXIS)
+
+    const x = (expectedDeaths: number) => MARGIN.left + (expectedDeaths / maxExpected) * PLOT_WIDTH
+    const y = (ratio: number) =>
+      MARGIN.top + PLOT_HEIGHT - (Math.min(ratio, yMax) / yMax) * PLOT_HEIGHT
+
+    const limitPath = (key: keyof Omit<FunnelLimit, "expectedDeaths">) =>
+      limits.map((l, i) => `${i === 0 ? "M" : "L"}${x(l.expectedDeaths)},${y(l[key])}`).join(" ")
+
+    const yTicks = Array.from({ length: yMax + 1 }, (_, i) => i)
+    const xTicks = Array.from({ length: 5 }, (_, i) => Math.round((maxExpected * i) / 4))
+
+    return {
+      x,
+      y,
+      yTicks,
+      xTicks: [...new Set(xTicks)],
+      upper95: limitPath("upper95"),
+      lower95: limitPath("lower95"),
+      upper998: limitPath("upper998"),
+      lower998: limitPath("lower998"),
+    }
+  }, [movies, limits, mean])
+
+  // Movies above the 99.8% limit are unlikely to be explained by chance
+  const outliers = useMemo(
+    () =>
+      new Set(
+        movies
+          .filter((m) => {
+            const upper = upperLimitAt(limits, m.expectedDeaths)
+            return upper !== null && m.mortalityRatio > upper
+          })
+          .map((m) => m.id)
+      ),
+    [movies, limits]
+  )
+
+  if (movies.length === 0 || limits.length === 0) {
+    return null
+  }
+
+  const active = movies.find((m) => m.id === activeId) ?? null
+
+  return (
+    <div
+      data-testid="funnel-plot"
+      className="rounded-lg border border-brown-medium/20 bg-white p-4"
+    >
+      {/* Details for the hovered movie */}
+      <div data-testid="funnel-plot-details" className="mb-2 text-sm text-text-muted">
+        {active ? (
+          <>
+            <Link
+              to={`/movie/${createMovieSlug(
+                active.title,
+                active.releaseYear?.toString() || "",
+                active.id
+              )}`}
+              className="font-semibold text-brown-dark hover:underline"
+            >
+              {active.title}
+            </Link>
+            {active.releaseYear && ` (${active.releaseYear})`}
+            {" · "}
+            {active.deceasedCount} deaths vs {active.expectedDeaths.toFixed(1)} expected
+            {" · "}
+            SMR {active.mortalityRatio.toFixed(2)}
+          </>
+        ) : (
+          "Hover over a movie to see its details"
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-auto w-full"
+        role="img"
+        aria-label={`Mortality ratio against expected deaths for ${movies.length} movies`}
+      >
+        {/* Y axis: mortality ratio */}
+        {chart.yTicks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={chart.y(tick)}
+              y2={chart.y(tick)}
+              className="stroke-brown-medium/10"
+            />
+            <text
+              x={MARGIN.left - 8}
+              y={chart.y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-text-muted text-[11px]"
+            >
+              {tick}×
+            </text>
+          </g>
+        ))}
+
+        {/* X axis: expected deaths */}
+        {chart.xTicks.map((tick) => (
+          <text
+            key={tick}
+            x={chart.x(tick)}
+            y={HEIGHT - 22}
+            textAnchor="middle"
+            className="fill-text-muted text-[11px]"
+          >
+            {tick}
+          </text>
+        ))}
+        <text
+          x={MARGIN.left + PLOT_WIDTH / 2}
+          y={HEIGHT - 4}
+          textAnchor="middle"
+          className="fill-text-muted text-[11px]"
+        >
+          Expected deaths
+        </text>
+
+        {/* Population mean and control limits */}
+        <line
+          data-testid="funnel-plot-mean"
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={chart.y(mean)}
+          y2={chart.y(mean)}
+          strokeWidth={1.5}
+          className="stroke-living-dark"
+        />
+        <path
+          data-testid="funnel-plot-limit-95"
+          d={`${chart.upper95} ${chart.lower95}`}
+          fill="none"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+          className="stroke-living-dark"
+        />
+        <path
+          data-testid="funnel-plot-limit-998"
+          d={`${chart.upper998} ${chart.lower998}`}
+          fill="none"
+          strokeWidth={1.5}
+          strokeDasharray="2 3"
+          className="stroke-brown-medium/60"
+        />
+
+        {movies.map((movie) => (
+          <circle
+            key={movie.id}
+            data-testid={`funnel-plot-movie-${movie.id}`}
+            cx={chart.x(movie.expectedDeaths)}
+            cy={chart.y(movie.mortalityRatio)}
+            r={movie.id === activeId ? 5 : 3}
+            tabIndex={0}
+            aria-label={`${movie.title}: ${movie.deceasedCount} deaths vs ${movie.expectedDeaths.toFixed(1)} expected`}
+            className={
+              outliers.has(movie.id)
+                ? "fill-accent/80 stroke-accent"
+                : "fill-brown-medium/30 stroke-brown-medium/60"
+            }
+            onMouseEnter={() => setActiveId(movie.id)}
+            onFocus={() => setActiveId(movie.id)}
+          />
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="mt-2 flex flex-wrap justify-center gap-4 text-xs text-text-muted">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-0.5 w-4 bg-living-dark" /> Average ({mean.toFixed(2)}×)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 border-t-2 border-dashed border-living-dark" /> 95%
+          limits
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 border-t-2 border-dotted border-brown-medium/60" />{" "}
+          99.8% limits
+        </span>
+      </div>
+
+      {/* Summary */}
+      <div
+        data-testid="funnel-plot-summary"
+        className="mt-4 border-t border-brown-medium/10 pt-3 text-center text-sm text-text-muted"
+      >
+        {outliers.size > 0
+          ? `${outliers.size} of ${movies.length} movies had more deaths than chance alone would explain`
+          : `All ${movies.length} movies are within what chance alone would explain`}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "@testing-library/react"
+import CastDepthControls from "./CastDepthControls"
+
+describe("CastDepthControls", () => {
+  const defaultProps = {
+    castDepth: "30" as const,
+    onCastDepthChange: vi.fn(),
+    weighting: "none" as const,
+    onWeightingChange: vi.fn(),
+  }
+
+  it("marks the selected cast depth as pressed", () => {
+    render(<CastDepthControls {...defaultProps} />)
+
+    expect(screen.getByTestId("cast-depth-30-btn")).toHaveAttribute("aria-pressed", "true")
+    expect(screen.getByTestId("cast-depth-10-btn")).toHaveAttribute("aria-pressed", "false")
+    expect(screen.getByTestId("cast-depth-all-btn")).toHaveAttribute("aria-pressed", "false")
+  })
+
+  it("calls onCastDepthChange with the clicked depth", () => {
+    const onCastDepthChange = vi.fn()
+    render(<CastDepthControls {...defaultProps} onCastDepthChange={onCastDepthChange} />)
+
+    fireEvent.click(screen.getByTestId("cast-depth-all-btn"))
+    expect(onCastDepthChange).toHaveBeenCalledWith("all")
+  })
+
+  it("turns billing weighting on", () => {
+    const onWeightingChange = vi.fn()
+    render(<CastDepthControls {...defaultProps} onWeightingChange={onWeightingChange} />)
+
+    fireEvent.click(screen.getByTestId("billing-weight-btn"))
+    expect(onWeightingChange).toHaveBeenCalledWith("billing")
+  })
+
+  it("turns billing weighting off", () => {
+    const onWeightingChange = vi.fn()
+    render(
+      <CastDepthControls
+        {...defaultProps}
+        weighting="billing"
+        onWeightingChange={onWeightingChange}
+      />
+    )
+
+    expect(screen.getByTestId("billing-weight-btn")).toHaveAttribute("aria-pressed", "true")
+    fireEvent.click(screen.getByTestId("billing-weight-btn"))
+    expect(onWeightingChange).toHaveBeenCalledWith("none")
+  })
+})
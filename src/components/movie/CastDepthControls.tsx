@@ -0,0 +1,61 @@
+import type { CastDepth, CastWeighting } from "@/types"
+
+const CAST_DEPTHS: Array<{ value: CastDepth; label: string }> = [
+  { value: "10", label: "Top 10" },
+  { value: "30", label: "Top 30" },
+  { value: "all", label: "All" },
+]
+
+interface CastDepthControlsProps {
+  castDepth: CastDepth
+  onCastDepthChange: (depth: CastDepth) => void
+  weighting: CastWeighting
+  onWeightingChange: (weighting: CastWeighting) => void
+}
+
+export default function CastDepthControls({
+  castDepth,
+  onCastDepthChange,
+  weighting,
+  onWeightingChange,
+}: CastDepthControlsProps) {
+  const weighted = weighting === "billing"
+
+  return (
+    <div
+      data-testid="cast-depth-controls"
+      className="mb-4 flex flex-wrap items-center justify-center gap-3 text-sm"
+    >
+      <span className="text-text-muted">Stats cover</span>
+      <div className="inline-flex overflow-hidden rounded-lg border border-brown-medium/30 bg-white">
+        {CAST_DEPTHS.map(({ value, label }) => (
+          <button
+            key={value}
+            data-testid={`cast-depth-${value}-btn`}
+            aria-pressed={castDepth === value}
+            onClick={() => onCastDepthChange(value)}
+            className={`px-3 py-1.5 font-medium transition-colors duration-200 ${
+              castDepth === value
+                ? "bg-brown-dark text-white"
+                : "bg-white text-brown-dark hover:bg-beige"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        data-testid="billing-weight-btn"
+        aria-pressed={weighted}
+        onClick={() => onWeightingChange(weighted ? "none" : "billing")}
+        title="Count leads more than bit parts"
+        className={`rounded-lg border border-brown-medium/30 px-3 py-1.5 font-medium transition-colors duration-200 ${
+          weighted ? "bg-brown-dark text-white" : "bg-white text-brown-dark hover:bg-beige"
+        }`}
+      >
+        Weight by billing
+      </button>
+    </div>
+  )
+}
@@ -160,4 +160,36 @@ describe("CastToggle", () => {
       expect(screen.getByTestId("timeline-view-btn")).toHaveAttribute("title", "Timeline view")
     })
   })
+
+  describe("cast/crew filter", () => {
+    it("is hidden when the movie has no key crew", () => {
+      render(<CastToggle {...defaultProps} onCreditFilterChange={vi.fn()} crewCount={0} />)
+
+      expect(screen.queryByTestId("crew-filter-btn")).not.toBeInTheDocument()
+    })
+
+    it("shows cast, crew and both options when crew is available", () => {
+      render(<CastToggle {...defaultProps} onCreditFilterChange={vi.fn()} crewCount={4} />)
+
+      expect(screen.getByTestId("cast-filter-btn")).toHaveAttribute("aria-pressed", "true")
+      expect(screen.getByTestId("crew-filter-btn")).toHaveAttribute("aria-pressed", "false")
+      expect(screen.getByTestId("both-filter-btn")).toHaveAttribute("aria-pressed", "false")
+    })
+
+    it("calls onCreditFilterChange with the selected filter", () => {
+      const onCreditFilterChange = vi.fn()
+      render(
+        <CastToggle
+          {...defaultProps}
+          creditFilter="crew"
+          onCreditFilterChange={onCreditFilterChange}
+          crewCount={4}
+        />
+      )
+
+      expect(screen.getByTestId("crew-filter-btn")).toHaveAttribute("aria-pressed", "true")
+      fireEvent.click(screen.getByTestId("both-filter-btn"))
+      expect(onCreditFilterChange).toHaveBeenCalledWith("both")
+    })
+  })
 })
@@ -1,5 +1,11 @@
 import { ListIcon, TimelineIcon } from "@/components/icons"
-import type { ViewMode } from "@/types"
+import type { CreditFilter, ViewMode } from "@/types"
+
+const CREDIT_FILTERS: Array<{ value: CreditFilter; label: string }> = [
+  { value: "cast", label: "Cast" },
+  { value: "crew", label: "Crew" },
+  { value: "both", label: "Both" },
+]
 
 interface CastToggleProps {
   showLiving: boolean
@@ -8,6 +14,10 @@ interface CastToggleProps {
   livingCount: number
   viewMode: ViewMode
   onViewModeChange: (mode: ViewMode) => void
+  // Cast/crew switch, shown when the movie has key crew
+  creditFilter?: CreditFilter
+  onCreditFilterChange?: (filter: CreditFilter) => void
+  crewCount?: number
 }
 
 export default function CastToggle({
@@ -17,6 +27,9 @@ export default function CastToggle({
   livingCount,
   viewMode,
   onViewModeChange,
+  creditFilter = "cast",
+  onCreditFilterChange,
+  crewCount = 0,
 }: CastToggleProps) {
   const deceasedDisabled = deceasedCount === 0
   const livingDisabled = livingCount === 0
@@ -26,6 +39,27 @@ export default function CastToggle({
       data-testid="cast-toggle"
       className="mb-6 flex flex-wrap items-center justify-center gap-3"
     >
+      {/* Cast/Crew/Both toggle */}
+      {onCreditFilterChange && crewCount > 0 && (
+        <div className="inline-flex overflow-hidden rounded-lg border border-brown-medium/30 bg-white">
+          {CREDIT_FILTERS.map(({ value, label }) => (
+            <button
+              key={value}
+              data-testid={`${value}-filter-btn`}
+              aria-pressed={creditFilter === value}
+              onClick={() => onCreditFilterChange(value)}
+              className={`px-3 py-2 text-sm font-medium transition-colors duration-200 ${
+                creditFilter === value
+                  ? "bg-brown-dark text-white"
+                  : "bg-white text-brown-dark hover:bg-beige"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Deceased/Living toggle */}
       <div className="inline-flex overflow-hidden rounded-lg border border-brown-medium/30 bg-white">
         <button
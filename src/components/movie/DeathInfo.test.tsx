@@ -1,5 +1,5 @@
-import { describe, it, expect } from "vitest"
-import { render, screen } from "@testing-library/react"
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "@testing-library/react"
 import userEvent from "@testing-library/user-event"
 import DeathInfo from "./DeathInfo"
 
@@ -451,4 +451,26 @@ describe("DeathInfo", () => {
     // Lifespan bar should not be rendered
     expect(container.querySelector(".w-40.ml-auto")).not.toBeInTheDocument()
   })
+
+  it("shows a report-a-problem button only when a handler is given", () => {
+    const onReportProblem = vi.fn()
+    const props = {
+      actorName: defaultActorName,
+      deathday: "2000-01-01",
+      birthday: "1960-01-01",
+      ageAtDeath: 40,
+      yearsLost: null,
+      causeOfDeath: "Heart attack",
+      causeOfDeathDetails: null,
+      wikipediaUrl: null,
+      tmdbUrl: defaultTmdbUrl,
+    }
+
+    const { rerender } = render(<DeathInfo {...props} />)
+    expect(screen.queryByTestId("report-problem-button")).not.toBeInTheDocument()
+
+    rerender(<DeathInfo {...props} onReportProblem={onReportProblem} />)
+    fireEvent.click(screen.getByTestId("report-problem-button"))
+    expect(onReportProblem).toHaveBeenCalled()
+  })
 })
@@ -15,6 +15,7 @@ interface DeathInfoProps {
   wikipediaUrl: string | null
   tmdbUrl: string
   isLoading?: boolean
+  onReportProblem?: () => void
 }
 
 /**
@@ -165,6 +166,7 @@ export default function DeathInfo({
   wikipediaUrl,
   tmdbUrl,
   isLoading = false,
+  onReportProblem,
 }: DeathInfoProps) {
   // Use prop if available, otherwise calculate from dates
   const ageAtDeath = ageAtDeathProp ?? calculateAge(birthday, deathday)
@@ -338,6 +340,17 @@ export default function DeathInfo({
           <LoadingEllipsis />
         </p>
       )}
+
+      {onReportProblem && (
+        <button
+          type="button"
+          data-testid="report-problem-button"
+          onClick={onReportProblem}
+          className="mt-1 text-xs text-text-muted underline decoration-dotted hover:text-brown-dark"
+        >
+          Report a problem
+        </button>
+      )}
     </div>
   )
 }
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest"
 import { render, screen, fireEvent } from "@testing-library/react"
 import { MemoryRouter } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 import DeceasedCard from "./DeceasedCard"
 import type { DeceasedActor } from "@/types"
 
@@ -127,6 +128,28 @@ describe("DeceasedCard", () => {
     })
   })
 
+  describe("report a problem", () => {
+    it("opens the report form from the death info", () => {
+      render(
+        <QueryClientProvider client={new QueryClient()}>
+          <MemoryRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+            <DeceasedCard actor={mockActor} />
+          </MemoryRouter>
+        </QueryClientProvider>
+      )
+
+      expect(screen.queryByTestId("report-problem-form")).not.toBeInTheDocument()
+
+      fireEvent.click(screen.getByTestId("report-problem-button"))
+      expect(screen.getByTestId("report-problem-form")).toHaveTextContent(
+        "Report a problem with John Doe"
+      )
+
+      fireEvent.click(screen.getByRole("button", { name: "Cancel" }))
+      expect(screen.queryByTestId("report-problem-form")).not.toBeInTheDocument()
+    })
+  })
+
   describe("styling", () => {
     it("has base card styling", () => {
       renderWithRouter(<DeceasedCard actor={mockActor} />)
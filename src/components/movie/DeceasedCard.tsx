@@ -3,7 +3,9 @@ import { Link } from "react-router-dom"
 import type { DeceasedActor } from "@/types"
 import { getProfileUrl } from "@/services/api"
 import { createActorSlug } from "@/utils/slugify"
+import { formatRole } from "@/utils/formatText"
 import DeathInfo from "./DeathInfo"
+import ReportProblemForm from "@/components/common/ReportProblemForm"
 import { PersonIcon, ChevronIcon } from "@/components/icons"
 
 interface DeceasedCardProps {
@@ -13,6 +15,7 @@ interface DeceasedCardProps {
 
 export default function DeceasedCard({ actor, isPolling = false }: DeceasedCardProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [isReporting, setIsReporting] = useState(false)
   const profileUrl = getProfileUrl(actor.profile_path, "w185")
 
   // Show loading indicator only for actors without cause/wikipedia info while polling
@@ -55,7 +58,7 @@ export default function DeceasedCard({ actor, isPolling = false }: DeceasedCardP
                 </Link>
               </h3>
               <p data-testid="actor-character" className="text-sm italic text-text-muted">
-                as {actor.character}
+                {formatRole(actor)}
               </p>
             </div>
 
@@ -70,11 +73,22 @@ export default function DeceasedCard({ actor, isPolling = false }: DeceasedCardP
               wikipediaUrl={actor.wikipediaUrl}
               tmdbUrl={actor.tmdbUrl}
               isLoading={showLoading}
+              onReportProblem={() => setIsReporting(true)}
             />
           </div>
         </div>
       </div>
 
+      {isReporting && (
+        <div className="mt-3">
+          <ReportProblemForm
+            personId={actor.id}
+            personName={actor.name}
+            onClose={() => setIsReporting(false)}
+          />
+        </div>
+      )}
+
       {/* Expand/collapse button */}
       <button
         type="button"
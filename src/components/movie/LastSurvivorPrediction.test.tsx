@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, fireEvent } from "@testing-library/react"
+import { MemoryRouter } from "react-router-dom"
+import LastSurvivorPrediction from "./LastSurvivorPrediction"
+import type { LastSurvivorCandidate, LastSurvivorPrediction as Prediction } from "@/types"
+
+function candidate(
+  id: number,
+  probability: number,
+  age: number | null = 50
+): LastSurvivorCandidate {
+  return {
+    id,
+    name: `Actor ${id}`,
+    character: `Character ${id}`,
+    profile_path: null,
+    birthday: null,
+    age,
+    probability,
+  }
+}
+
+const prediction: Prediction = {
+  candidates: [candidate(1, 0.62, 35), candidate(2, 0.3, 48), candidate(3, 0.08, 70)],
+  expectedAllDeceasedYear: 2081,
+  simulations: 10000,
+  unknownAgeCount: 0,
+}
+
+function renderPrediction(value: Prediction) {
+  return render(
+    <MemoryRouter>
+      <LastSurvivorPrediction prediction={value} />
+    </MemoryRouter>
+  )
+}
+
+describe("LastSurvivorPrediction", () => {
+  it("renders candidates ranked with their probabilities", () => {
+    renderPrediction(prediction)
+
+    const rows = screen.getAllByTestId("last-survivor-candidate")
+    expect(rows).toHaveLength(3)
+    expect(rows[0]).toHaveTextContent("Actor 1")
+    expect(rows[0]).toHaveTextContent("62%")
+    expect(rows[2]).toHaveTextContent("Actor 3")
+    expect(rows[2]).toHaveTextContent("8%")
+  })
+
+  it("shows the expected year the cast is fully deceased", () => {
+    renderPrediction(prediction)
+
+    expect(screen.getByTestId("expected-all-deceased-year")).toHaveTextContent("2081")
+    expect(screen.getByText(/10,000 simulations/)).toBeInTheDocument()
+  })
+
+  it("shows very small probabilities as less than 1%", () => {
+    renderPrediction({
+      ...prediction,
+      candidates: [candidate(1, 0.996), candidate(2, 0.004)],
+    })
+
+    const probabilities = screen.getAllByTestId("last-survivor-probability")
+    expect(probabilities[1]).toHaveTextContent("<1%")
+  })
+
+  it("renders nothing with a single candidate", () => {
+    const { container } = renderPrediction({ ...prediction, candidates: [candidate(1, 1)] })
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it("shows the top five and expands to all candidates", () => {
+    const candidates = Array.from({ length: 8 }, (_, i) => candidate(i + 1, (8 - i) / 36))
+    renderPrediction({ ...prediction, candidates })
+
+    expect(screen.getAllByTestId("last-survivor-candidate")).toHaveLength(5)
+
+    fireEvent.click(screen.getByText("Show all 8"))
+    expect(screen.getAllByTestId("last-survivor-candidate")).toHaveLength(8)
+
+    fireEvent.click(screen.getByText("Show fewer"))
+    expect(screen.getAllByTestId("last-survivor-candidate")).toHaveLength(5)
+  })
+
+  it("notes living cast members left out for lack of a birthday", () => {
+    renderPrediction({ ...prediction, unknownAgeCount: 2 })
+
+    expect(screen.getByTestId("unknown-age-note")).toHaveTextContent(
+      "2 living cast members without a known birthday aren't included."
+    )
+  })
+
+  it("omits the note when every living cast member has a birthday", () => {
+    renderPrediction(prediction)
+
+    expect(screen.queryByTestId("unknown-age-note")).not.toBeInTheDocument()
+  })
+})
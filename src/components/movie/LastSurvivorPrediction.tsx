@@ -0,0 +1,123 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import type { LastSurvivorPrediction as Prediction } from "@/types"
+import { getProfileUrl } from "@/services/api"
+import { createActorSlug } from "@/utils/slugify"
+import { PersonIcon } from "@/components/icons"
+
+interface LastSurvivorPredictionProps {
+  prediction: Prediction
+}
+
+// Candidates shown before "Show all"
+const INITIAL_VISIBLE = 5
+
+function formatProbability(probability: number): string {
+  if (probability > 0 && probability < 0.01) return "<1%"
+  return `${Math.round(probability * 100)}%`
+}
+
+export default function LastSurvivorPrediction({ prediction }: LastSurvivorPredictionProps) {
+  const [showAll, setShowAll] = useState(false)
+  const { candidates, expectedAllDeceasedYear, simulations, unknownAgeCount } = prediction
+
+  // A single living actor is already covered by the last survivor card
+  if (candidates.length < 2) {
+    return null
+  }
+
+  const visible = showAll ? candidates : candidates.slice(0, INITIAL_VISIBLE)
+
+  return (
+    <div
+      data-testid="last-survivor-prediction"
+      className="mb-8 rounded-lg border border-living-border/30 bg-living-bg p-4"
+    >
+      <h3 className="font-display text-lg text-brown-dark">Likely Last Survivor</h3>
+      <p className="mb-3 text-xs text-text-muted">
+        Based on {simulations.toLocaleString()} simulations of each living cast member's remaining
+        lifetime. The last cast member is expected to die around{" "}
+        <span data-testid="expected-all-deceased-year" className="font-semibold">
+          {expectedAllDeceasedYear}
+        </span>
+        .
+      </p>
+
+      <ol className="space-y-2">
+        {visible.map((actor, index) => {
+          const profileUrl = getProfileUrl(actor.profile_path, "w45")
+          return (
+            <li
+              key={actor.id}
+              data-testid="last-survivor-candidate"
+              className="flex items-center gap-3"
+            >
+              <span className="w-5 text-right text-sm font-semibold text-living-dark">
+                {index + 1}
+              </span>
+              {profileUrl ? (
+                <img
+                  src={profileUrl}
+                  alt={actor.name}
+                  width={32}
+                  height={32}
+                  loading="lazy"
+                  className="h-8 w-8 flex-shrink-0 rounded-full object-cover"
+                />
+              ) : (
+                <div
+                  className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-living-muted/20"
+                  aria-hidden="true"
+                >
+                  <PersonIcon size={16} className="text-living" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline justify-between gap-2">
+                  <Link
+                    to={`/actor/${createActorSlug(actor.name, actor.id)}`}
+                    className="truncate text-sm font-medium text-brown-dark hover:text-accent hover:underline"
+                  >
+                    {actor.name}
+                    {actor.age !== null && (
+                      <span className="ml-1 font-normal text-text-muted">({actor.age})</span>
+                    )}
+                  </Link>
+                  <span
+                    data-testid="last-survivor-probability"
+                    className="text-sm font-semibold text-living-dark"
+                  >
+                    {formatProbability(actor.probability)}
+                  </span>
+                </div>
+                <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-living-muted/20">
+                  <div
+                    className="h-full rounded-full bg-living"
+                    style={{ width: `${Math.max(actor.probability * 100, 1)}%` }}
+                  />
+                </div>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+
+      {candidates.length > INITIAL_VISIBLE && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 text-sm text-living-dark hover:text-accent hover:underline"
+        >
+          {showAll ? "Show fewer" : `Show all ${candidates.length}`}
+        </button>
+      )}
+
+      {unknownAgeCount > 0 && (
+        <p data-testid="unknown-age-note" className="mt-3 text-xs text-text-muted">
+          {unknownAgeCount} living cast member{unknownAgeCount !== 1 ? "s" : ""} without a known
+          birthday {unknownAgeCount !== 1 ? "aren't" : "isn't"} included.
+        </p>
+      )}
+    </div>
+  )
+}
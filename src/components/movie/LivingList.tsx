@@ -2,6 +2,7 @@ import { Link } from "react-router-dom"
 import type { LivingActor } from "@/types"
 import { getProfileUrl } from "@/services/api"
 import { createActorSlug } from "@/utils/slugify"
+import { formatRole } from "@/utils/formatText"
 import { PersonIcon } from "@/components/icons"
 
 interface LivingListProps {
@@ -77,7 +78,7 @@ function LivingCard({ actor }: { actor: LivingActor }) {
               </Link>
             </h3>
             <p data-testid="living-actor-character" className="text-sm italic text-living-dark">
-              as {actor.character}
+              {formatRole(actor)}
             </p>
           </div>
 
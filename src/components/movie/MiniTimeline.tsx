@@ -3,7 +3,7 @@ import { Link } from "react-router-dom"
 import { getProfileUrl } from "@/services/api"
 import { createActorSlug } from "@/utils/slugify"
 import { formatDate } from "@/utils/formatDate"
-import { toTitleCase } from "@/utils/formatText"
+import { toTitleCase, formatRole } from "@/utils/formatText"
 import { PersonIcon, InfoIcon } from "@/components/icons"
 import type { DeceasedActor } from "@/types"
 
@@ -147,9 +147,9 @@ export default function MiniTimeline({ releaseYear, deceased }: MiniTimelineProp
                               >
                                 {actor.name}
                               </Link>
-                              {actor.character && (
+                              {formatRole(actor) && (
                                 <p className="text-xs italic text-text-muted">
-                                  as {actor.character}
+                                  {formatRole(actor)}
                                 </p>
                               )}
                               <p className="mt-1 text-sm text-text-muted">
@@ -259,9 +259,7 @@ export default function MiniTimeline({ releaseYear, deceased }: MiniTimelineProp
                               </div>
                             ) : (
                               <div className="truncate text-xs text-text-muted">
-                                {actor.character
-                                  ? `as ${actor.character}`
-                                  : formatDate(actor.deathday)}
+                                {formatRole(actor) || formatDate(actor.deathday)}
                               </div>
                             )}
                           </div>
@@ -93,6 +93,20 @@ describe("MortalityGauge", () => {
       expect(screen.getByText("5")).toBeInTheDocument()
     })
 
+    it("displays billing-weighted actual deaths when weighted", () => {
+      render(<MortalityGauge stats={{ ...defaultStats, weightedDeaths: 2.64 }} />)
+
+      expect(screen.getByText("2.6")).toBeInTheDocument()
+      expect(screen.getByTestId("weighted-label")).toBeInTheDocument()
+    })
+
+    it("does not show the weighted note for unweighted stats", () => {
+      render(<MortalityGauge stats={{ ...defaultStats, weightedDeaths: null }} />)
+
+      expect(screen.getByText("5")).toBeInTheDocument()
+      expect(screen.queryByTestId("weighted-label")).not.toBeInTheDocument()
+    })
+
     it("does not show comparison when expectedDeaths is 0", () => {
       const stats = { ...defaultStats, expectedDeaths: 0, mortalitySurpriseScore: 0 }
       render(<MortalityGauge stats={stats} />)
@@ -128,4 +142,57 @@ describe("MortalityGauge", () => {
       expect(screen.getByTestId("surprise-label")).toHaveTextContent("As Expected")
     })
   })
+
+  describe("statistical significance display", () => {
+    it("shows 'Statistically unusual' when the result is significant", () => {
+      const stats = {
+        ...defaultStats,
+        mortalityPValue: 0.012,
+        isStatisticallySignificant: true,
+      }
+      render(<MortalityGauge stats={stats} />)
+
+      expect(screen.getByTestId("significance-label")).toHaveTextContent(
+        "Statistically unusual (p = 0.012)"
+      )
+    })
+
+    it("shows 'Within normal variation' when the result is not significant", () => {
+      const stats = {
+        ...defaultStats,
+        mortalityPValue: 0.42,
+        isStatisticallySignificant: false,
+      }
+      render(<MortalityGauge stats={stats} />)
+
+      expect(screen.getByTestId("significance-label")).toHaveTextContent(
+        "Within normal variation (p = 0.420)"
+      )
+    })
+
+    it("formats very small p-values", () => {
+      const stats = {
+        ...defaultStats,
+        mortalityPValue: 0.00001,
+        isStatisticallySignificant: true,
+      }
+      render(<MortalityGauge stats={stats} />)
+
+      expect(screen.getByTestId("significance-label")).toHaveTextContent("p < 0.001")
+    })
+
+    it("shows the range of deaths expected by chance", () => {
+      const stats = { ...defaultStats, expectedDeathsLow: 1, expectedDeathsHigh: 6 }
+      render(<MortalityGauge stats={stats} />)
+
+      expect(screen.getByTestId("expected-range")).toHaveTextContent("Normal range: 1–6 deaths")
+    })
+
+    it("omits significance when no p-value is available", () => {
+      render(<MortalityGauge stats={{ ...defaultStats, mortalityPValue: null }} />)
+
+      expect(screen.queryByTestId("significance-label")).not.toBeInTheDocument()
+      expect(screen.queryByTestId("expected-range")).not.toBeInTheDocument()
+    })
+  })
 })
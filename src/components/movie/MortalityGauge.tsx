@@ -8,11 +8,31 @@ interface MortalityGaugeProps {
     mortalityPercentage: number
     expectedDeaths: number
     mortalitySurpriseScore: number
+    mortalityPValue?: number | null
+    expectedDeathsLow?: number | null
+    expectedDeathsHigh?: number | null
+    isStatisticallySignificant?: boolean
+    weightedDeaths?: number | null // Set when the stats are weighted by billing
   }
 }
 
+function formatPValue(pValue: number): string {
+  if (pValue < 0.001) return "p < 0.001"
+  return `p = ${pValue.toFixed(3)}`
+}
+
 export default function MortalityGauge({ stats }: MortalityGaugeProps) {
-  const { mortalityPercentage, deceasedCount, expectedDeaths, mortalitySurpriseScore } = stats
+  const {
+    mortalityPercentage,
+    deceasedCount,
+    expectedDeaths,
+    mortalitySurpriseScore,
+    mortalityPValue,
+    expectedDeathsLow,
+    expectedDeathsHigh,
+    isStatisticallySignificant,
+    weightedDeaths,
+  } = stats
   const [animatedPercentage, setAnimatedPercentage] = useState(0)
 
   // Determine if mortality is higher or lower than expected
@@ -24,6 +44,8 @@ export default function MortalityGauge({ stats }: MortalityGaugeProps) {
     return { text: "As Expected", color: "text-text-muted" }
   }
   const surpriseLabel = getSurpriseLabel()
+  const hasRange = typeof expectedDeathsLow === "number" && typeof expectedDeathsHigh === "number"
+  const isWeighted = typeof weightedDeaths === "number"
 
   // Animate the gauge on mount
   useEffect(() => {
@@ -139,9 +161,16 @@ export default function MortalityGauge({ stats }: MortalityGaugeProps) {
             <div className="text-brown-medium/40">|</div>
             <div>
               <span className="text-text-muted">Actual: </span>
-              <span className="font-medium text-accent">{deceasedCount}</span>
+              <span className="font-medium text-accent">
+                {isWeighted ? weightedDeaths.toFixed(1) : deceasedCount}
+              </span>
             </div>
           </div>
+          {isWeighted && (
+            <div data-testid="weighted-label" className="mt-0.5 text-xs text-text-muted">
+              Weighted by billing: leads count more than bit parts
+            </div>
+          )}
           {surpriseLabel && (
             <div
               data-testid="surprise-label"
@@ -150,6 +179,20 @@ export default function MortalityGauge({ stats }: MortalityGaugeProps) {
               {surpriseLabel.text}
             </div>
           )}
+          {typeof mortalityPValue === "number" && (
+            <div
+              data-testid="significance-label"
+              className={`mt-1 text-xs ${isStatisticallySignificant ? "font-medium text-accent" : "text-text-muted"}`}
+            >
+              {isStatisticallySignificant ? "Statistically unusual" : "Within normal variation"} (
+              {formatPValue(mortalityPValue)})
+            </div>
+          )}
+          {hasRange && (
+            <div data-testid="expected-range" className="mt-0.5 text-xs text-text-muted">
+              Normal range: {expectedDeathsLow}–{expectedDeathsHigh} deaths
+            </div>
+          )}
         </div>
       )}
     </div>
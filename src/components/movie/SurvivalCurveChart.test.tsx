@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, fireEvent } from "@testing-library/react"
+import SurvivalCurveChart from "./SurvivalCurveChart"
+import type { SurvivalCurvePoint } from "@/types"
+
+function point(
+  year: number,
+  observedLiving: number,
+  expectedLiving: number,
+  expectedLivingLow: number,
+  expectedLivingHigh: number
+): SurvivalCurvePoint {
+  return {
+    year,
+    yearsSinceRelease: year - 2000,
+    observedLiving,
+    expectedLiving,
+    expectedLivingLow,
+    expectedLivingHigh,
+  }
+}
+
+const withinBand: SurvivalCurvePoint[] = [
+  point(2000, 10, 10, 10, 10),
+  point(2001, 10, 9.8, 9, 10),
+  point(2002, 9, 9.5, 8, 10),
+]
+
+describe("SurvivalCurveChart", () => {
+  it("renders the chart with band, expected and observed lines", () => {
+    render(<SurvivalCurveChart points={withinBand} castCount={10} />)
+
+    expect(screen.getByTestId("survival-curve")).toBeInTheDocument()
+    expect(screen.getByTestId("survival-curve-band")).toBeInTheDocument()
+    expect(screen.getByTestId("survival-curve-expected")).toBeInTheDocument()
+    expect(screen.getByTestId("survival-curve-observed")).toBeInTheDocument()
+  })
+
+  it("renders nothing with fewer than two points", () => {
+    const { container } = render(
+      <SurvivalCurveChart points={[point(2000, 10, 10, 10, 10)]} castCount={10} />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it("renders nothing when no cast members are on the curve", () => {
+    const { container } = render(<SurvivalCurveChart points={withinBand} castCount={0} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it("shows the latest year by default", () => {
+    render(<SurvivalCurveChart points={withinBand} castCount={10} />)
+
+    const details = screen.getByTestId("survival-curve-details")
+    expect(details).toHaveTextContent("2002")
+    expect(details).toHaveTextContent("9 living")
+    expect(details).toHaveTextContent("expected 9.5 (normal range 8–10)")
+  })
+
+  it("shows details for the hovered year", () => {
+    render(<SurvivalCurveChart points={withinBand} castCount={10} />)
+
+    fireEvent.mouseEnter(screen.getByTestId("survival-curve-year-2001"))
+
+    const details = screen.getByTestId("survival-curve-details")
+    expect(details).toHaveTextContent("2001")
+    expect(details).toHaveTextContent("expected 9.8")
+  })
+
+  it("shows details for the focused year for keyboard users", () => {
+    render(<SurvivalCurveChart points={withinBand} castCount={10} />)
+
+    fireEvent.focus(screen.getByTestId("survival-curve-year-2000"))
+
+    expect(screen.getByTestId("survival-curve-details")).toHaveTextContent("2000")
+  })
+
+  it("says when the cast stayed within the normal range", () => {
+    render(<SurvivalCurveChart points={withinBand} castCount={10} />)
+
+    expect(screen.getByTestId("survival-curve-summary")).toHaveTextContent(
+      "The cast has stayed within the normal range since release"
+    )
+  })
+
+  it("reports the first year the cast fell below the normal range", () => {
+    const points = [...withinBand, point(2003, 6, 9.2, 8, 10), point(2004, 5, 9, 7, 10)]
+    render(<SurvivalCurveChart points={points} castCount={10} />)
+
+    expect(screen.getByTestId("survival-curve-summary")).toHaveTextContent(
+      "More cast members had died than expected by 2003"
+    )
+  })
+
+  it("reports when fewer cast members died than expected", () => {
+    const points = [point(2000, 10, 10, 10, 10), point(2030, 10, 6, 4, 8)]
+    render(<SurvivalCurveChart points={points} castCount={10} />)
+
+    expect(screen.getByTestId("survival-curve-summary")).toHaveTextContent(
+      "Fewer cast members had died than expected by 2030"
+    )
+  })
+})
@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react"
+import type { SurvivalCurvePoint } from "@/types"
+
+interface SurvivalCurveChartProps {
+  points: SurvivalCurvePoint[]
+  castCount: number
+}
+
+// SVG layout (scaled to the container width via viewBox)
+const WIDTH = 640
+const HEIGHT = 280
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 40 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+
+function isOutsideBand(point: SurvivalCurvePoint): boolean {
+  return (
+    point.observedLiving < point.expectedLivingLow ||
+    point.observedLiving > point.expectedLivingHigh
+  )
+}
+
+export default function SurvivalCurveChart({ points, castCount }: SurvivalCurveChartProps) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+
+  const chart = useMemo(() => {
+    const lastIndex = Math.max(points.length - 1, 1)
+    const x = (index: number) => MARGIN.left + (index / lastIndex) * PLOT_WIDTH
+    const y = (living: number) =>
+      MARGIN.top + PLOT_HEIGHT - (castCount > 0 ? living / castCount : 0) * PLOT_HEIGHT
+
+    // Band: upper edge left to right, then lower edge back
+    const bandPath =
+      points.map((p, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(p.expectedLivingHigh)}`).join(" ") +
+      " " +
+      points
+        .map((p, i) => ({ p, i }))
+        .reverse()
+        .map(({ p, i }) => `L${x(i)},${y(p.expectedLivingLow)}`)
+        .join(" ") +
+      " Z"
+
+    const expectedPath = points
+      .map((p, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(p.expectedLiving)}`)
+      .join(" ")
+
+    // Observed survivors only change when someone dies, so draw as steps
+    const observedPath = points
+      .map((p, i) =>
+        i === 0 ? `M${x(i)},${y(p.observedLiving)}` : `H${x(i)} V${y(p.observedLiving)}`
+      )
+      .join(" ")
+
+    // Label roughly five evenly spaced years
+    const tickStep = Math.max(1, Math.ceil(points.length / 5))
+    const xTicks = points
+      .map((p, i) => ({ year: p.year, x: x(i), index: i }))
+      .filter(({ index }) => index % tickStep === 0 || index === points.length - 1)
+
+    return { x, y, bandPath, expectedPath, observedPath, xTicks }
+  }, [points, castCount])
+
+  const divergence = useMemo(() => points.find(isOutsideBand) ?? null, [points])
+
+  if (points.length < 2 || castCount === 0) {
+    return null
+  }
+
+  const shownIndex = activeIndex ?? points.length - 1
+  const active = points[shownIndex]
+  const columnWidth = PLOT_WIDTH / (points.length - 1)
+
+  return (
+    <div data-testid="survival-curve" className="space-y-4">
+      <h2 className="font-display text-xl text-brown-dark">Survival vs Expectation</h2>
+
+      <div className="rounded-lg border border-brown-medium/20 bg-white p-4">
+        {/* Details for the hovered (or latest) year */}
+        <div data-testid="survival-curve-details" className="mb-2 text-sm text-text-muted">
+          <span className="font-semibold text-brown-dark">{active.year}</span>
+          {" · "}
+          <span className="text-accent">{active.observedLiving} living</span>
+          {" · "}
+          expected {active.expectedLiving.toFixed(1)} (normal range {active.expectedLivingLow}–
+          {active.expectedLivingHigh})
+        </div>
+
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="h-auto w-full"
+          role="img"
+          aria-label={`Living cast members by year since release, observed vs expected, out of ${castCount}`}
+          onMouseLeave={() => setActiveIndex(null)}
+        >
+          {/* Y axis: 0, half and full cast */}
+          {[0, 0.5, 1].map((fraction) => {
+            const living = Math.round(castCount * fraction)
+            return (
+              <g key={fraction}>
+                <line
+                  x1={MARGIN.left}
+                  x2={WIDTH - MARGIN.right}
+                  y1={chart.y(living)}
+                  y2={chart.y(living)}
+                  className="stroke-brown-medium/10"
+                />
+                <text
+                  x={MARGIN.left - 8}
+                  y={chart.y(living)}
+                  textAnchor="end"
+                  dominantBaseline="middle"
+                  className="fill-text-muted text-[11px]"
+                >
+                  {living}
+                </text>
+              </g>
+            )
+          })}
+
+          {/* X axis years */}
+          {chart.xTicks.map((tick) => (
+            <text
+              key={tick.year}
+              x={tick.x}
+              y={HEIGHT - 8}
+              textAnchor="middle"
+              className="fill-text-muted text-[11px]"
+            >
+              {tick.year}
+            </text>
+          ))}
+
+          <path
+            data-testid="survival-curve-band"
+            d={chart.bandPath}
+            className="fill-living/15 stroke-none"
+          />
+          <path
+            data-testid="survival-curve-expected"
+            d={chart.expectedPath}
+            fill="none"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            className="stroke-living-dark"
+          />
+          <path
+            data-testid="survival-curve-observed"
+            d={chart.observedPath}
+            fill="none"
+            strokeWidth={2.5}
+            className="stroke-accent"
+          />
+
+          {/* Highlight the active year */}
+          <line
+            x1={chart.x(shownIndex)}
+            x2={chart.x(shownIndex)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + PLOT_HEIGHT}
+            className="stroke-brown-medium/30"
+          />
+          <circle
+            cx={chart.x(shownIndex)}
+            cy={chart.y(active.observedLiving)}
+            r={4}
+            className="fill-accent"
+          />
+
+          {/* Invisible hover/focus targets, one per year */}
+          {points.map((point, index) => (
+            <rect
+              key={point.year}
+              data-testid={`survival-curve-year-${point.year}`}
+              x={chart.x(index) - columnWidth / 2}
+              y={MARGIN.top}
+              width={columnWidth}
+              height={PLOT_HEIGHT}
+              fill="transparent"
+              tabIndex={0}
+              aria-label={`${point.year}: ${point.observedLiving} living, ${point.expectedLiving.toFixed(1)} expected`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onFocus={() => setActiveIndex(index)}
+            />
+          ))}
+        </svg>
+
+        {/* Legend */}
+        <div className="mt-2 flex flex-wrap justify-center gap-4 text-xs text-text-muted">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-0.5 w-4 bg-accent" /> Actually living
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 border-t-2 border-dashed border-living-dark" />{" "}
+            Expected
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-4 bg-living/15" /> Normal range (95%)
+          </span>
+        </div>
+
+        {/* Summary */}
+        <div
+          data-testid="survival-curve-summary"
+          className="mt-4 border-t border-brown-medium/10 pt-3 text-center text-sm text-text-muted"
+        >
+          {divergence
+            ? `${
+                divergence.observedLiving < divergence.expectedLivingLow ? "More" : "Fewer"
+              } cast members had died than expected by ${divergence.year}`
+            : "The cast has stayed within the normal range since release"}
+        </div>
+      </div>
+    </div>
+  )
+}
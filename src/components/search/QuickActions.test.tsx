@@ -32,7 +32,7 @@ describe("QuickActions", () => {
     vi.clearAllMocks()
   })
 
-  it("renders all five action buttons", () => {
+  it("renders all six action buttons", () => {
     renderWithRouter(<QuickActions />)
 
     expect(screen.getByTestId("quick-actions")).toBeInTheDocument()
@@ -41,6 +41,7 @@ describe("QuickActions", () => {
     expect(screen.getByTestId("cursed-actors-btn")).toBeInTheDocument()
     expect(screen.getByTestId("covid-deaths-btn")).toBeInTheDocument()
     expect(screen.getByTestId("death-watch-btn")).toBeInTheDocument()
+    expect(screen.getByTestId("connections-btn")).toBeInTheDocument()
   })
 
   it("displays correct button text", () => {
@@ -51,6 +52,7 @@ describe("QuickActions", () => {
     expect(screen.getByText("Cursed Actors")).toBeInTheDocument()
     expect(screen.getByText("COVID-19")).toBeInTheDocument()
     expect(screen.getByText("Death Watch")).toBeInTheDocument()
+    expect(screen.getByText("Six Degrees")).toBeInTheDocument()
   })
 
   it("navigates to forever young movie when clicked", async () => {
@@ -99,6 +101,9 @@ describe("QuickActions", () => {
     expect(screen.getByText("Actors with unusually high co-star mortality")).toBeInTheDocument()
     expect(screen.getByText("Actors who died from COVID-19")).toBeInTheDocument()
     expect(screen.getByText("Living actors most likely to die soon")).toBeInTheDocument()
+    expect(
+      screen.getByText("The shortest chain of co-stars between two actors")
+    ).toBeInTheDocument()
   })
 
   it("Cursed Movies button links to /cursed-movies", () => {
@@ -129,11 +134,11 @@ describe("QuickActions", () => {
     expect(link.querySelector("svg")).toBeInTheDocument()
   })
 
-  it("COVID-19 button links to /covid-deaths", () => {
+  it("COVID-19 button links to the COVID-19 cause page", () => {
     renderWithRouter(<QuickActions />)
 
     const link = screen.getByTestId("covid-deaths-btn")
-    expect(link).toHaveAttribute("href", "/covid-deaths")
+    expect(link).toHaveAttribute("href", "/cause/covid-19")
   })
 
   it("COVID-19 button has microbe emoji", () => {
@@ -149,6 +154,13 @@ describe("QuickActions", () => {
     expect(link).toHaveAttribute("href", "/death-watch")
   })
 
+  it("Six Degrees button links to /connections", () => {
+    renderWithRouter(<QuickActions />)
+
+    const link = screen.getByTestId("connections-btn")
+    expect(link).toHaveAttribute("href", "/connections")
+  })
+
   it("Death Watch button has hourglass emoji", () => {
     renderWithRouter(<QuickActions />)
 
@@ -177,6 +189,7 @@ describe("QuickActions", () => {
     const cursedActorsBtn = screen.getByTestId("cursed-actors-btn")
     const covidDeathsBtn = screen.getByTestId("covid-deaths-btn")
     const deathWatchBtn = screen.getByTestId("death-watch-btn")
+    const connectionsBtn = screen.getByTestId("connections-btn")
 
     // Verify all buttons have the same height-affecting CSS classes
     // Note: getBoundingClientRect() returns 0 in jsdom, so we test classes instead
@@ -188,6 +201,7 @@ describe("QuickActions", () => {
       cursedActorsBtn,
       covidDeathsBtn,
       deathWatchBtn,
+      connectionsBtn,
     ]
     buttons.forEach((btn) => {
       heightClasses.forEach((cls) => {
@@ -71,7 +71,7 @@ export default function QuickActions() {
       </div>
 
       <div className="group relative">
-        <Link data-testid="covid-deaths-btn" to="/covid-deaths" className={linkClass}>
+        <Link data-testid="covid-deaths-btn" to="/cause/covid-19" className={linkClass}>
           <span className={emojiClass}>🦠</span>
           COVID-19
         </Link>
@@ -85,6 +85,14 @@ export default function QuickActions() {
         </Link>
         <span className={tooltipClass}>Living actors most likely to die soon</span>
       </div>
+
+      <div className="group relative">
+        <Link data-testid="connections-btn" to="/connections" className={linkClass}>
+          <span className={emojiClass}>🔗</span>
+          Six Degrees
+        </Link>
+        <span className={tooltipClass}>The shortest chain of co-stars between two actors</span>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query"
+import { getActorCollaborators } from "@/services/api"
+
+export function useActorCollaborators(actorId: number) {
+  return useQuery({
+    queryKey: ["actors", actorId, "collaborators"],
+    queryFn: () => getActorCollaborators(actorId),
+    enabled: actorId > 0,
+    staleTime: 10 * 60 * 1000, // Cache for 10 minutes
+    retry: 1,
+  })
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query"
+import { searchActors } from "@/services/api"
+import { useDebouncedValue } from "./useDebouncedValue"
+
+export function useActorSearch(query: string) {
+  const debouncedQuery = useDebouncedValue(query, 300)
+
+  return useQuery({
+    queryKey: ["actors", "search", debouncedQuery],
+    queryFn: () => searchActors(debouncedQuery),
+    enabled: debouncedQuery.length >= 2,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+    placeholderData: (previousData) => previousData,
+  })
+}
@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  getAdminSession,
+  searchAdminPersons,
+  getAdminPerson,
+  updateAdminPerson,
+  getAdminPersonHistory,
+  revertAdminPerson,
+  getAdminFeedback,
+  reviewAdminFeedback,
+  getAdminLowConfidence,
+} from "@/services/api"
+import type { AdminPersonUpdate, FeedbackStatus } from "@/types"
+
+// Hooks for the moderation console. Queries share the "admin" key prefix so
+// edits can refresh every queue at once.
+
+const ADMIN_STALE_TIME = 30 * 1000 // 30 seconds; moderators expect fresh data
+
+export function useAdminLogin() {
+  return useMutation({
+    mutationFn: (token: string) => getAdminSession(token),
+  })
+}
+
+export function useAdminPersonSearch(token: string, query: string) {
+  return useQuery({
+    queryKey: ["admin", "persons", query],
+    queryFn: () => searchAdminPersons(token, query),
+    enabled: query.length >= 2,
+    staleTime: ADMIN_STALE_TIME,
+    retry: 1,
+  })
+}
+
+export function useAdminPerson(token: string, personId: number | null) {
+  return useQuery({
+    queryKey: ["admin", "person", personId],
+    queryFn: () => getAdminPerson(token, personId!),
+    enabled: personId !== null,
+    staleTime: ADMIN_STALE_TIME,
+    retry: 1,
+  })
+}
+
+export function useUpdateAdminPerson(token: string, personId: number) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (update: AdminPersonUpdate) => updateAdminPerson(token, personId, update),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin"] }),
+  })
+}
+
+export function useAdminPersonHistory(token: string, personId: number) {
+  return useQuery({
+    queryKey: ["admin", "history", personId],
+    queryFn: () => getAdminPersonHistory(token, personId),
+    staleTime: ADMIN_STALE_TIME,
+    retry: 1,
+  })
+}
+
+export function useRevertAdminPerson(token: string, personId: number) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (entryId: number) => revertAdminPerson(token, personId, entryId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin"] }),
+  })
+}
+
+export function useAdminFeedback(token: string, status: FeedbackStatus = "pending") {
+  return useQuery({
+    queryKey: ["admin", "feedback", status],
+    queryFn: () => getAdminFeedback(token, status),
+    staleTime: ADMIN_STALE_TIME,
+    retry: 1,
+  })
+}
+
+export function useReviewFeedback(token: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, status }: { id: number; status: Exclude<FeedbackStatus, "pending"> }) =>
+      reviewAdminFeedback(token, id, status),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin", "feedback"] }),
+  })
+}
+
+export function useAdminLowConfidence(token: string) {
+  return useQuery({
+    queryKey: ["admin", "low-confidence"],
+    queryFn: () => getAdminLowConfidence(token),
+    staleTime: ADMIN_STALE_TIME,
+    retry: 1,
+  })
+}
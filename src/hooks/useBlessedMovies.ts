@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query"
+import { getBlessedMovies, type BlessedMoviesOptions } from "@/services/api"
+
+export function useBlessedMovies(options: BlessedMoviesOptions = {}) {
+  return useQuery({
+    queryKey: ["blessed-movies", options],
+    queryFn: () => getBlessedMovies(options),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  })
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query"
+import { getCauseDeaths } from "@/services/api"
+
+export function useCauseDeaths(slug: string, page: number = 1) {
+  return useQuery({
+    queryKey: ["cause-deaths", slug, page],
+    queryFn: () => getCauseDeaths(slug, page),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  })
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query"
+import { getCauses } from "@/services/api"
+
+export function useCauses() {
+  return useQuery({
+    queryKey: ["causes"],
+    queryFn: getCauses,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  })
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query"
+import { getConnections, type ConnectionsOptions } from "@/services/api"
+
+export function useConnections(options: ConnectionsOptions, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["connections", options],
+    queryFn: () => getConnections(options),
+    enabled: enabled && options.from > 0 && options.to > 0,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  })
+}
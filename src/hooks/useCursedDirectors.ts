@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query"
+import { getCursedDirectors, type CursedDirectorsOptions } from "@/services/api"
+
+export function useCursedDirectors(options: CursedDirectorsOptions = {}) {
+  return useQuery({
+    queryKey: ["cursed-directors", options],
+    queryFn: () => getCursedDirectors(options),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  })
+}
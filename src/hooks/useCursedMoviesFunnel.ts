@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query"
+import { getCursedMoviesFunnel, type CursedMoviesFunnelOptions } from "@/services/api"
+
+export function useCursedMoviesFunnel(options: CursedMoviesFunnelOptions = {}, enabled = true) {
+  return useQuery({
+    queryKey: ["cursed-movies-funnel", options],
+    queryFn: () => getCursedMoviesFunnel(options),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+    enabled,
+  })
+}
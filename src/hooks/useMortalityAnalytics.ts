@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query"
+import { getMortalityAnalytics, type MortalityAnalyticsOptions } from "@/services/api"
+
+export function useMortalityAnalytics(options: MortalityAnalyticsOptions) {
+  return useQuery({
+    queryKey: ["mortality-analytics", options],
+    queryFn: () => getMortalityAnalytics(options),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  })
+}
@@ -1,11 +1,15 @@
 import { useQuery } from "@tanstack/react-query"
-import { getMovie } from "@/services/api"
+import { getMovie, type MovieOptions } from "@/services/api"
 
-export function useMovie(movieId: number) {
+export function useMovie(movieId: number, options: MovieOptions = {}) {
+  const { castDepth, weighting } = options
   return useQuery({
-    queryKey: ["movies", movieId],
-    queryFn: () => getMovie(movieId),
+    queryKey: ["movies", movieId, castDepth ?? "default", weighting ?? "none"],
+    queryFn: () => getMovie(movieId, { castDepth, weighting }),
     enabled: movieId > 0,
     staleTime: 10 * 60 * 1000, // Cache for 10 minutes
+    // Keep showing the current stats while another cast depth of the same movie loads
+    placeholderData: (previousData) =>
+      previousData?.movie.id === movieId ? previousData : undefined,
   })
 }
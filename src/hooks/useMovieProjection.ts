@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query"
+import { getMovieProjection } from "@/services/api"
+import type { CastDepth } from "@/types"
+
+export function useMovieProjection(
+  movieId: number,
+  enabled: boolean = true,
+  castDepth?: CastDepth
+) {
+  return useQuery({
+    queryKey: ["movies", movieId, "projection", castDepth ?? "default"],
+    queryFn: () => getMovieProjection(movieId, castDepth),
+    enabled: enabled && movieId > 0,
+    staleTime: 10 * 60 * 1000, // Cache for 10 minutes
+  })
+}
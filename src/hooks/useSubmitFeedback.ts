@@ -0,0 +1,9 @@
+import { useMutation } from "@tanstack/react-query"
+import { submitPersonFeedback } from "@/services/api"
+import type { PersonFeedbackRequest } from "@/types"
+
+export function useSubmitFeedback(personId: number) {
+  return useMutation({
+    mutationFn: (feedback: PersonFeedbackRequest) => submitPersonFeedback(personId, feedback),
+  })
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query"
+import { getMovieSurvivalCurve } from "@/services/api"
+import type { CastDepth } from "@/types"
+
+export function useSurvivalCurve(movieId: number, enabled: boolean = true, castDepth?: CastDepth) {
+  return useQuery({
+    queryKey: ["movies", movieId, "survival-curve", castDepth ?? "default"],
+    queryFn: () => getMovieSurvivalCurve(movieId, castDepth),
+    enabled: enabled && movieId > 0,
+    staleTime: 10 * 60 * 1000, // Cache for 10 minutes
+  })
+}
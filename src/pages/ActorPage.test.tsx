@@ -9,6 +9,9 @@ import * as api from "@/services/api"
 // Mock the API
 vi.mock("@/services/api", () => ({
   getActor: vi.fn(),
+  getActorCollaborators: vi.fn(() =>
+    Promise.resolve({ actorId: 0, minMovies: 3, collaborators: [], ensembles: [] })
+  ),
   getProfileUrl: vi.fn((path: string | null) => (path ? `https://image.tmdb.org${path}` : null)),
   getPosterUrl: vi.fn((path: string | null) => (path ? `https://image.tmdb.org${path}` : null)),
 }))
@@ -73,6 +76,7 @@ const mockDeceasedActor = {
     wikipediaUrl: "https://en.wikipedia.org/wiki/Deceased_Actor",
     ageAtDeath: 80,
     yearsLost: -5,
+    causeOfDeathSources: null,
   },
 }
 
@@ -9,6 +9,8 @@ import { toTitleCase } from "@/utils/formatText"
 import { getProfileUrl, getPosterUrl } from "@/services/api"
 import LoadingSpinner from "@/components/common/LoadingSpinner"
 import ErrorMessage from "@/components/common/ErrorMessage"
+import FrequentCollaborators from "@/components/actor/FrequentCollaborators"
+import CauseOfDeathSources from "@/components/actor/CauseOfDeathSources"
 import { PersonIcon, FilmReelIcon, InfoIcon } from "@/components/icons"
 import type { ActorFilmographyMovie } from "@/types"
 
@@ -258,6 +260,10 @@ export default function ActorPage() {
                 </p>
               )}
 
+              {deathInfo?.causeOfDeathSources && (
+                <CauseOfDeathSources sources={deathInfo.causeOfDeathSources} />
+              )}
+
               {deathInfo?.yearsLost && Number(deathInfo.yearsLost) > 0 && (
                 <p className="text-accent">
                   Died {Number(deathInfo.yearsLost).toFixed(1)} years before life expectancy
@@ -299,6 +305,8 @@ export default function ActorPage() {
           </div>
         )}
 
+        <FrequentCollaborators actorId={actor.id} />
+
         {/* Filmography */}
         <div>
           <h2 className="mb-3 font-display text-lg text-brown-dark">
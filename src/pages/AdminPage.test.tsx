@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { MemoryRouter } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import AdminPage from "./AdminPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getAdminSession: vi.fn(),
+  searchAdminPersons: vi.fn(),
+  getAdminPerson: vi.fn(),
+  updateAdminPerson: vi.fn(),
+  getAdminPersonHistory: vi.fn(),
+  revertAdminPerson: vi.fn(),
+  getAdminFeedback: vi.fn(),
+  reviewAdminFeedback: vi.fn(),
+  getAdminLowConfidence: vi.fn(),
+}))
+
+const mockPerson = {
+  id: 500,
+  name: "Actor One",
+  birthday: "1930-05-01",
+  deathday: "2010-03-02",
+  causeOfDeath: "heart attack",
+  causeOfDeathSource: "claude" as const,
+  causeOfDeathDetails: null,
+  causeOfDeathDetailsSource: null,
+  wikipediaUrl: null,
+  profilePath: null,
+  locked: false,
+  agreement: 0.5,
+}
+
+const emptyPagination = { page: 1, pageSize: 25, totalCount: 0, totalPages: 0 }
+
+function renderWithProviders(ui: React.ReactElement) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={["/admin"]}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          {ui}
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+function signIn() {
+  sessionStorage.setItem(
+    "deadonfilm-admin-session",
+    JSON.stringify({ token: "secret-1", user: "alice" })
+  )
+}
+
+describe("AdminPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    sessionStorage.clear()
+    vi.mocked(api.getAdminPersonHistory).mockResolvedValue({ history: [] })
+    vi.mocked(api.getAdminLowConfidence).mockResolvedValue({
+      persons: [],
+      pagination: emptyPagination,
+    })
+  })
+
+  it("asks for a token and signs in once the API accepts it", async () => {
+    vi.mocked(api.getAdminSession).mockResolvedValue({ user: "alice" })
+
+    renderWithProviders(<AdminPage />)
+
+    fireEvent.change(screen.getByLabelText("Admin token"), { target: { value: " secret-1 " } })
+    fireEvent.click(screen.getByRole("button", { name: "Sign in" }))
+
+    await waitFor(() => {
+      expect(screen.getByText(/Signed in as alice/)).toBeInTheDocument()
+    })
+    expect(api.getAdminSession).toHaveBeenCalledWith("secret-1")
+    expect(sessionStorage.getItem("deadonfilm-admin-session")).toContain("secret-1")
+  })
+
+  it("shows the error for a rejected token", async () => {
+    vi.mocked(api.getAdminSession).mockRejectedValue(new Error("Unauthorized"))
+
+    renderWithProviders(<AdminPage />)
+
+    fireEvent.change(screen.getByLabelText("Admin token"), { target: { value: "nope" } })
+    fireEvent.click(screen.getByRole("button", { name: "Sign in" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("admin-login-error")).toHaveTextContent("Unauthorized")
+    })
+    expect(sessionStorage.getItem("deadonfilm-admin-session")).toBeNull()
+  })
+
+  it("searches records and opens one in the editor", async () => {
+    signIn()
+    vi.mocked(api.searchAdminPersons).mockResolvedValue({
+      persons: [mockPerson],
+      pagination: { ...emptyPagination, totalCount: 1, totalPages: 1 },
+    })
+    vi.mocked(api.getAdminPerson).mockResolvedValue({ person: mockPerson, sources: [] })
+
+    renderWithProviders(<AdminPage />)
+
+    fireEvent.change(screen.getByLabelText("Search deceased persons"), {
+      target: { value: "actor" },
+    })
+    fireEvent.click(screen.getByRole("button", { name: "Search" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("admin-person-500")).toBeInTheDocument()
+    })
+    expect(api.searchAdminPersons).toHaveBeenCalledWith("secret-1", "actor")
+
+    fireEvent.click(screen.getByTestId("admin-person-500"))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("person-editor")).toBeInTheDocument()
+    })
+    expect(api.getAdminPerson).toHaveBeenCalledWith("secret-1", 500)
+  })
+
+  it("lists pending reader reports and reviews them", async () => {
+    signIn()
+    vi.mocked(api.getAdminFeedback).mockResolvedValue({
+      items: [
+        {
+          id: 7,
+          personId: 500,
+          personName: "Actor One",
+          currentCauseOfDeath: "heart attack",
+          deathday: "2010-03-02",
+          category: "wrong_cause",
+          message: "It was a stroke.",
+          status: "pending",
+          createdAt: "2025-01-01T00:00:00Z",
+          reviewedAt: null,
+          reviewedBy: null,
+        },
+      ],
+      pagination: { ...emptyPagination, totalCount: 1, totalPages: 1 },
+    })
+    vi.mocked(api.reviewAdminFeedback).mockResolvedValue({ id: 7, status: "rejected" })
+
+    renderWithProviders(<AdminPage />)
+
+    fireEvent.click(screen.getByRole("tab", { name: "Reader reports" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("feedback-item-7")).toHaveTextContent("It was a stroke.")
+    })
+
+    fireEvent.click(screen.getByRole("button", { name: "Reject" }))
+
+    await waitFor(() => {
+      expect(api.reviewAdminFeedback).toHaveBeenCalledWith("secret-1", 7, "rejected")
+    })
+  })
+
+  it("shows low-confidence records", async () => {
+    signIn()
+    vi.mocked(api.getAdminLowConfidence).mockResolvedValue({
+      persons: [mockPerson],
+      pagination: { ...emptyPagination, totalCount: 1, totalPages: 1 },
+    })
+
+    renderWithProviders(<AdminPage />)
+
+    fireEvent.click(screen.getByRole("tab", { name: "Low confidence" }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("admin-person-500")).toHaveTextContent("50% agreement")
+    })
+  })
+
+  it("signs out and forgets the token", () => {
+    signIn()
+
+    renderWithProviders(<AdminPage />)
+
+    fireEvent.click(screen.getByRole("button", { name: "Sign out" }))
+
+    expect(screen.getByTestId("admin-login")).toBeInTheDocument()
+    expect(sessionStorage.getItem("deadonfilm-admin-session")).toBeNull()
+  })
+})
@@ -0,0 +1,184 @@
+import { useState } from "react"
+import { Helmet } from "react-helmet-async"
+import { useAdminPersonSearch, useAdminLowConfidence } from "@/hooks/useAdmin"
+import AdminLogin from "@/components/admin/AdminLogin"
+import AdminPersonList from "@/components/admin/AdminPersonList"
+import FeedbackQueue from "@/components/admin/FeedbackQueue"
+import PersonEditor from "@/components/admin/PersonEditor"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+
+// Kept in sessionStorage so closing the tab signs the moderator out
+const SESSION_KEY = "deadonfilm-admin-session"
+
+type AdminTab = "search" | "feedback" | "low-confidence"
+
+const TABS: { value: AdminTab; label: string }[] = [
+  { value: "search", label: "Search" },
+  { value: "feedback", label: "Reader reports" },
+  { value: "low-confidence", label: "Low confidence" },
+]
+
+interface AdminSession {
+  token: string
+  user: string
+}
+
+function loadSession(): AdminSession | null {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEY)
+    return stored ? (JSON.parse(stored) as AdminSession) : null
+  } catch {
+    return null
+  }
+}
+
+export default function AdminPage() {
+  const [session, setSession] = useState<AdminSession | null>(loadSession)
+
+  const handleSignIn = (token: string, user: string) => {
+    const next = { token, user }
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(next))
+    setSession(next)
+  }
+
+  const handleSignOut = () => {
+    sessionStorage.removeItem(SESSION_KEY)
+    setSession(null)
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>Moderation - Dead on Film</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <div data-testid="admin-page" className="mx-auto max-w-4xl">
+        {session ? (
+          <ModerationConsole session={session} onSignOut={handleSignOut} />
+        ) : (
+          <AdminLogin onSignIn={handleSignIn} />
+        )}
+      </div>
+    </>
+  )
+}
+
+interface ModerationConsoleProps {
+  session: AdminSession
+  onSignOut: () => void
+}
+
+function ModerationConsole({ session, onSignOut }: ModerationConsoleProps) {
+  const [tab, setTab] = useState<AdminTab>("search")
+  const [searchInput, setSearchInput] = useState("")
+  const [query, setQuery] = useState("")
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+
+  const search = useAdminPersonSearch(session.token, query)
+  const lowConfidence = useAdminLowConfidence(session.token)
+  const list = tab === "search" ? search : lowConfidence
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setQuery(searchInput.trim())
+  }
+
+  return (
+    <>
+      <div className="mb-4 flex items-baseline justify-between gap-2">
+        <h1 className="font-display text-3xl text-brown-dark">Moderation</h1>
+        <span className="text-xs text-text-muted">
+          Signed in as {session.user} ·{" "}
+          <button type="button" onClick={onSignOut} className="underline hover:text-brown-dark">
+            Sign out
+          </button>
+        </span>
+      </div>
+
+      <div className="mb-4 flex gap-2" role="tablist">
+        {TABS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={tab === value}
+            onClick={() => setTab(value)}
+            className={`rounded-full px-3 py-1.5 text-xs transition-colors ${
+              tab === value ? "bg-brown-dark text-cream" : "bg-beige text-brown-dark hover:bg-white"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          {tab === "feedback" ? (
+            <FeedbackQueue token={session.token} onEditPerson={setSelectedId} />
+          ) : (
+            <>
+              {tab === "search" && (
+                <form onSubmit={handleSearch} className="mb-3 flex gap-2">
+                  <input
+                    type="search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Name or TMDB ID"
+                    aria-label="Search deceased persons"
+                    className="block w-full rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm text-brown-dark"
+                  />
+                  <button
+                    type="submit"
+                    disabled={searchInput.trim().length < 2}
+                    className="rounded-full bg-brown-dark px-3 py-1.5 text-xs text-cream transition-colors hover:bg-brown-medium disabled:opacity-50"
+                  >
+                    Search
+                  </button>
+                </form>
+              )}
+              {tab === "low-confidence" && (
+                <p className="mb-3 text-xs text-text-muted">
+                  Unlocked records whose sources disagree about the cause of death.
+                </p>
+              )}
+
+              {list.isLoading && <LoadingSpinner message="Loading..." />}
+              {list.error && <p className="text-sm text-accent">{list.error.message}</p>}
+              {list.data && (
+                <>
+                  <AdminPersonList
+                    persons={list.data.persons}
+                    selectedId={selectedId}
+                    onSelect={setSelectedId}
+                    emptyMessage={tab === "search" ? "No matching records." : "Nothing to review."}
+                  />
+                  {list.data.pagination.totalPages > 1 && (
+                    <p className="mt-2 text-xs text-text-muted">
+                      Showing {list.data.persons.length} of{" "}
+                      {list.data.pagination.totalCount.toLocaleString()}
+                    </p>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div>
+          {selectedId !== null ? (
+            <PersonEditor
+              key={selectedId}
+              token={session.token}
+              personId={selectedId}
+              onClose={() => setSelectedId(null)}
+            />
+          ) : (
+            <p className="text-sm text-text-muted">Select a record to edit it.</p>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
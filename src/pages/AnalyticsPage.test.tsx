@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { MemoryRouter, Route, Routes } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import AnalyticsPage from "./AnalyticsPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getMortalityAnalytics: vi.fn(),
+}))
+
+const mockResponse = {
+  groupBy: ["genre" as const],
+  groups: [
+    {
+      genre: "Horror",
+      movieCount: 40,
+      deaths: 120,
+      expectedDeaths: 90,
+      smr: 1.333,
+      smrLow: 1.106,
+      smrHigh: 1.594,
+      significant: true,
+    },
+    {
+      genre: "Drama",
+      movieCount: 200,
+      deaths: 510,
+      expectedDeaths: 500,
+      smr: 1.02,
+      smrLow: 0.933,
+      smrHigh: 1.112,
+      significant: false,
+    },
+  ],
+}
+
+function renderWithProviders(ui: React.ReactElement, { initialEntries = ["/analytics"] } = {}) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          <Routes>
+            <Route path="/analytics" element={ui} />
+          </Routes>
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+describe("AnalyticsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("groups by genre by default", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<AnalyticsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId("smr-forest-plot")).toBeInTheDocument()
+    })
+
+    expect(api.getMortalityAnalytics).toHaveBeenCalledWith({
+      groupBy: ["genre"],
+      fromDecade: undefined,
+      toDecade: undefined,
+      includeObscure: false,
+      minMovies: 5,
+    })
+    expect(screen.getByTestId("group-by-genre")).toBeChecked()
+    expect(screen.getByTestId("group-by-decade")).not.toBeChecked()
+    expect(screen.getByTestId("analytics-summary")).toHaveTextContent(
+      "1 of 2 groups had significantly more or fewer deaths than expected"
+    )
+  })
+
+  it("reads grouping and filters from URL parameters", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<AnalyticsPage />, {
+      initialEntries: ["/analytics?groupBy=decade,genre&from=1970&to=1970&minMovies=10"],
+    })
+
+    await waitFor(() => {
+      expect(api.getMortalityAnalytics).toHaveBeenCalledWith({
+        groupBy: ["genre", "decade"],
+        fromDecade: 1970,
+        toDecade: 1970,
+        includeObscure: false,
+        minMovies: 10,
+      })
+    })
+  })
+
+  it("adds a dimension when its checkbox is checked", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<AnalyticsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId("group-by-decade")).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByTestId("group-by-decade"))
+
+    await waitFor(() => {
+      expect(api.getMortalityAnalytics).toHaveBeenCalledWith(
+        expect.objectContaining({ groupBy: ["genre", "decade"] })
+      )
+    })
+  })
+
+  it("keeps at least one dimension", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<AnalyticsPage />, { initialEntries: ["/analytics?groupBy=language"] })
+
+    await waitFor(() => {
+      expect(screen.getByTestId("group-by-language")).toBeChecked()
+    })
+
+    fireEvent.click(screen.getByTestId("group-by-language"))
+
+    await waitFor(() => {
+      expect(api.getMortalityAnalytics).toHaveBeenLastCalledWith(
+        expect.objectContaining({ groupBy: ["genre"] })
+      )
+    })
+  })
+
+  it("shows only significant groups when filtered", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockResolvedValue(mockResponse)
+
+    renderWithProviders(<AnalyticsPage />, { initialEntries: ["/analytics?significant=true"] })
+
+    await waitFor(() => {
+      expect(screen.getByText("Horror")).toBeInTheDocument()
+    })
+    expect(screen.queryByText("Drama")).not.toBeInTheDocument()
+  })
+
+  it("shows empty state when no groups match", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockResolvedValue({ groupBy: ["genre"], groups: [] })
+
+    renderWithProviders(<AnalyticsPage />)
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("No groups match these filters. Try adjusting your criteria.")
+      ).toBeInTheDocument()
+    })
+  })
+
+  it("renders error state when API fails", async () => {
+    vi.mocked(api.getMortalityAnalytics).mockRejectedValue(new Error("API Error"))
+
+    renderWithProviders(<AnalyticsPage />)
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId("error-message")).toBeInTheDocument()
+      },
+      { timeout: 3000 }
+    )
+
+    expect(screen.getByTestId("error-text")).toHaveTextContent("API Error")
+  })
+})
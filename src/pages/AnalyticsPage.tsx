@@ -0,0 +1,216 @@
+import { useSearchParams } from "react-router-dom"
+import { Helmet } from "react-helmet-async"
+import { useMortalityAnalytics } from "@/hooks/useMortalityAnalytics"
+import { getDecadeOptions } from "@/utils/formatDate"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+import ErrorMessage from "@/components/common/ErrorMessage"
+import SmrForestPlot from "@/components/analytics/SmrForestPlot"
+import type { CohortDimension } from "@/types"
+
+const DECADE_OPTIONS = getDecadeOptions(1930)
+
+const DIMENSION_OPTIONS: { value: CohortDimension; label: string }[] = [
+  { value: "genre", label: "Genre" },
+  { value: "decade", label: "Decade" },
+  { value: "language", label: "Language" },
+]
+
+const MIN_MOVIES_OPTIONS = ["5", "10", "25", "50"]
+
+function parseGroupBy(value: string | null): CohortDimension[] {
+  const dimensions = DIMENSION_OPTIONS.map((opt) => opt.value).filter((d) =>
+    (value || "genre").split(",").includes(d)
+  )
+  return dimensions.length > 0 ? dimensions : ["genre"]
+}
+
+export default function AnalyticsPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Parse URL params
+  const groupBy = parseGroupBy(searchParams.get("groupBy"))
+  const fromDecade = searchParams.get("from") ? parseInt(searchParams.get("from")!, 10) : undefined
+  const toDecade = searchParams.get("to") ? parseInt(searchParams.get("to")!, 10) : undefined
+  const minMovies = parseInt(searchParams.get("minMovies") || "5", 10)
+  const includeObscure = searchParams.get("includeObscure") === "true"
+  const significantOnly = searchParams.get("significant") === "true"
+
+  const { data, isLoading, error } = useMortalityAnalytics({
+    groupBy,
+    fromDecade,
+    toDecade,
+    includeObscure,
+    minMovies,
+  })
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const newParams = new URLSearchParams(searchParams)
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined || value === "") {
+        newParams.delete(key)
+      } else {
+        newParams.set(key, value)
+      }
+    }
+
+    setSearchParams(newParams)
+  }
+
+  const toggleDimension = (dimension: CohortDimension, checked: boolean) => {
+    const next = checked ? [...groupBy, dimension] : groupBy.filter((d) => d !== dimension)
+    // Keep at least one dimension; genre alone is the default
+    const value = parseGroupBy(next.join(",")).join(",")
+    updateParams({ groupBy: value === "genre" ? undefined : value })
+  }
+
+  const groups = data
+    ? significantOnly
+      ? data.groups.filter((group) => group.significant)
+      : data.groups
+    : []
+  const significantCount = data ? data.groups.filter((group) => group.significant).length : 0
+
+  return (
+    <>
+      <Helmet>
+        <title>Mortality Explorer - Dead on Film</title>
+        <meta
+          name="description"
+          content="Compare cast mortality across genres, decades and languages. See which groups of movies had more deaths than actuarial tables predicted."
+        />
+      </Helmet>
+
+      <div data-testid="analytics-page" className="mx-auto max-w-4xl">
+        <div className="mb-6 text-center">
+          <h1 className="font-display text-3xl text-brown-dark">Mortality Explorer</h1>
+          <p className="mt-2 text-sm text-text-muted">
+            Group movies by genre, decade and language to see whether their casts died at the rate
+            actuarial tables predict. An SMR (standardized mortality ratio) of 1.5 means 50% more
+            deaths than expected. Groups whose 95% interval doesn't cross 1 are unlikely to be
+            chance.
+          </p>
+        </div>
+
+        {/* Controls */}
+        <div className="mb-6 flex flex-wrap items-center justify-center gap-4 rounded-lg bg-beige p-4">
+          <fieldset className="flex items-center gap-3">
+            <legend className="sr-only">Group by</legend>
+            <span className="text-sm text-text-muted">Group by:</span>
+            {DIMENSION_OPTIONS.map((opt) => (
+              <label
+                key={opt.value}
+                className="flex cursor-pointer items-center gap-1 text-sm text-brown-dark"
+              >
+                <input
+                  type="checkbox"
+                  data-testid={`group-by-${opt.value}`}
+                  checked={groupBy.includes(opt.value)}
+                  onChange={(e) => toggleDimension(opt.value, e.target.checked)}
+                  className="rounded border-brown-medium/30"
+                />
+                {opt.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="from-decade" className="text-sm text-text-muted">
+              From:
+            </label>
+            <select
+              id="from-decade"
+              value={fromDecade?.toString() || ""}
+              onChange={(e) => updateParams({ from: e.target.value || undefined })}
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {DECADE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="to-decade" className="text-sm text-text-muted">
+              To:
+            </label>
+            <select
+              id="to-decade"
+              value={toDecade?.toString() || ""}
+              onChange={(e) => updateParams({ to: e.target.value || undefined })}
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {DECADE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="min-movies" className="text-sm text-text-muted">
+              Min Movies:
+            </label>
+            <select
+              id="min-movies"
+              value={minMovies.toString()}
+              onChange={(e) =>
+                updateParams({ minMovies: e.target.value === "5" ? undefined : e.target.value })
+              }
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {MIN_MOVIES_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}+
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex cursor-pointer items-center gap-2 text-sm text-text-muted">
+            <input
+              type="checkbox"
+              checked={includeObscure}
+              onChange={(e) =>
+                updateParams({ includeObscure: e.target.checked ? "true" : undefined })
+              }
+              className="rounded border-brown-medium/30"
+            />
+            Include obscure movies
+          </label>
+
+          <label className="flex cursor-pointer items-center gap-2 text-sm text-text-muted">
+            <input
+              type="checkbox"
+              checked={significantOnly}
+              onChange={(e) => updateParams({ significant: e.target.checked ? "true" : undefined })}
+              className="rounded border-brown-medium/30"
+            />
+            Significant only
+          </label>
+        </div>
+
+        {isLoading ? (
+          <LoadingSpinner message="Loading mortality analytics..." />
+        ) : error ? (
+          <ErrorMessage message={error.message} />
+        ) : groups.length === 0 ? (
+          <div className="text-center text-text-muted">
+            <p>No groups match these filters. Try adjusting your criteria.</p>
+          </div>
+        ) : (
+          <>
+            <p data-testid="analytics-summary" className="mb-4 text-center text-sm text-text-muted">
+              {significantCount} of {data!.groups.length} groups had significantly more or fewer
+              deaths than expected.
+            </p>
+            <SmrForestPlot groups={groups} />
+          </>
+        )}
+      </div>
+    </>
+  )
+}
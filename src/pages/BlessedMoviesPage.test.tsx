@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { MemoryRouter, Route, Routes } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import BlessedMoviesPage from "./BlessedMoviesPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getBlessedMovies: vi.fn(),
+  getPosterUrl: vi.fn((path) => (path ? `https://image.tmdb.org/t/p/w92${path}` : null)),
+}))
+
+const mockMovies = [
+  {
+    rank: 1,
+    id: 1,
+    title: "Very Blessed Movie",
+    releaseYear: 1955,
+    posterPath: "/poster1.jpg",
+    deceasedCount: 4,
+    castCount: 20,
+    expectedDeaths: 12.3,
+    mortalitySurpriseScore: -0.67,
+    survivorsBeatingOdds: 8.3,
+  },
+  {
+    rank: 2,
+    id: 2,
+    title: "Somewhat Blessed Movie",
+    releaseYear: 1962,
+    posterPath: null,
+    deceasedCount: 6,
+    castCount: 18,
+    expectedDeaths: 10,
+    mortalitySurpriseScore: -0.4,
+    survivorsBeatingOdds: 4,
+  },
+]
+
+function renderWithProviders(
+  ui: React.ReactElement,
+  { initialEntries = ["/blessed-movies"] } = {}
+) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          <Routes>
+            <Route path="/blessed-movies" element={ui} />
+          </Routes>
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+describe("BlessedMoviesPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("renders loading state initially", () => {
+    vi.mocked(api.getBlessedMovies).mockImplementation(
+      () => new Promise(() => {}) // Never resolves
+    )
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    expect(screen.getByText("Loading blessed movies...")).toBeInTheDocument()
+  })
+
+  it("renders movie list when data loads", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Very Blessed Movie")).toBeInTheDocument()
+      expect(screen.getByText("Somewhat Blessed Movie")).toBeInTheDocument()
+    })
+  })
+
+  it("shows living cast and survivors beating the odds", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(() => {
+      // Living count (castCount - deceasedCount) out of cast
+      expect(screen.getByText("16/20")).toBeInTheDocument()
+      expect(screen.getByText("4 of 12.3 expected deaths")).toBeInTheDocument()
+      expect(screen.getByText("+8.3")).toBeInTheDocument()
+      expect(screen.getByText("+4.0")).toBeInTheDocument()
+    })
+  })
+
+  it("does not render a minimum deaths filter", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("From:")).toBeInTheDocument()
+      expect(screen.getByLabelText("To:")).toBeInTheDocument()
+      expect(screen.getByText("Include obscure movies")).toBeInTheDocument()
+    })
+    expect(screen.queryByLabelText("Min Deaths:")).not.toBeInTheDocument()
+  })
+
+  it("reads filters from URL parameters", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 2, pageSize: 50, totalCount: 100, totalPages: 2 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />, {
+      initialEntries: ["/blessed-movies?page=2&from=1950&to=1960&includeObscure=true"],
+    })
+
+    await waitFor(() => {
+      expect(api.getBlessedMovies).toHaveBeenCalledWith({
+        page: 2,
+        fromDecade: 1950,
+        toDecade: 1960,
+        includeObscure: true,
+      })
+    })
+  })
+
+  it("calls API with correct params when filter is changed", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("From:")).toBeInTheDocument()
+    })
+
+    fireEvent.change(screen.getByLabelText("From:"), { target: { value: "1960" } })
+
+    await waitFor(() => {
+      expect(api.getBlessedMovies).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromDecade: 1960,
+        })
+      )
+    })
+    expect(await screen.findByText("Clear filters")).toBeInTheDocument()
+  })
+
+  it("renders pagination controls when multiple pages", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 100, totalPages: 2 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Previous")).toBeDisabled()
+      expect(screen.getByText("Next")).not.toBeDisabled()
+      expect(screen.getByText("Page 1 of 2")).toBeInTheDocument()
+    })
+  })
+
+  it("shows empty state when no movies match filters", async () => {
+    vi.mocked(api.getBlessedMovies).mockResolvedValue({
+      movies: [],
+      pagination: { page: 1, pageSize: 50, totalCount: 0, totalPages: 0 },
+    })
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("No movies match these filters. Try adjusting your criteria.")
+      ).toBeInTheDocument()
+    })
+  })
+
+  it("renders error state when API fails", async () => {
+    vi.mocked(api.getBlessedMovies).mockRejectedValue(new Error("API Error"))
+
+    renderWithProviders(<BlessedMoviesPage />)
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId("error-message")).toBeInTheDocument()
+      },
+      { timeout: 3000 }
+    )
+
+    expect(screen.getByTestId("error-text")).toHaveTextContent("API Error")
+  })
+})
@@ -0,0 +1,347 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { MemoryRouter, Route, Routes } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import CauseDeathsPage from "./CauseDeathsPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getCauseDeaths: vi.fn(),
+  getProfileUrl: vi.fn((path: string | null) => (path ? `https://image.tmdb.org${path}` : null)),
+}))
+
+const mockPersons = [
+  {
+    rank: 1,
+    id: 123,
+    name: "Actor One",
+    deathday: "2021-03-15",
+    causeOfDeath: "COVID-19",
+    causeOfDeathDetails: "Complications from COVID-19",
+    profilePath: "/path1.jpg",
+    ageAtDeath: 72,
+  },
+  {
+    rank: 2,
+    id: 456,
+    name: "Actor Two",
+    deathday: "2020-12-01",
+    causeOfDeath: "Coronavirus",
+    causeOfDeathDetails: null,
+    profilePath: null,
+    ageAtDeath: 65,
+  },
+]
+
+const covidCause = {
+  slug: "covid-19",
+  label: "COVID-19",
+  description: "Actors who died from COVID-19, coronavirus, or related complications.",
+}
+
+const mockStats = {
+  averageAgeAtDeath: 68.5,
+  medianAgeAtDeath: 68.5,
+  youngestAgeAtDeath: 65,
+  oldestAgeAtDeath: 72,
+}
+
+const mockDecades = [
+  { decade: 2010, count: 3 },
+  { decade: 2020, count: 12 },
+]
+
+function mockResponse(
+  persons: typeof mockPersons,
+  pagination: { page: number; pageSize: number; totalPages: number; totalCount: number }
+) {
+  return { cause: covidCause, persons, pagination, stats: mockStats, decades: mockDecades }
+}
+
+function renderWithProviders(
+  ui: React.ReactElement,
+  { initialEntries = ["/cause/covid-19"] } = {}
+) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          <Routes>
+            <Route path="/cause/:slug" element={ui} />
+          </Routes>
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+describe("CauseDeathsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("renders loading state initially", () => {
+    vi.mocked(api.getCauseDeaths).mockImplementation(
+      () => new Promise(() => {}) // Never resolves
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    expect(screen.getByText("Loading deaths...")).toBeInTheDocument()
+  })
+
+  it("renders actor list when data loads", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, {
+        page: 1,
+        pageSize: 50,
+        totalPages: 2,
+        totalCount: 100,
+      })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      // Use getAllByText since responsive layout renders both desktop and mobile versions
+      expect(screen.getAllByText("Actor One").length).toBeGreaterThanOrEqual(1)
+      expect(screen.getAllByText("Actor Two").length).toBeGreaterThanOrEqual(1)
+    })
+  })
+
+  it("renders page title and description", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("COVID-19 Deaths")).toBeInTheDocument()
+      expect(screen.getByText(/Actors who died from COVID-19, coronavirus/)).toBeInTheDocument()
+    })
+  })
+
+  it("shows empty state when no results", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse([], { page: 1, pageSize: 50, totalPages: 0, totalCount: 0 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("No COVID-19 deaths found in our database.")).toBeInTheDocument()
+    })
+  })
+
+  it("displays actor details correctly", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      // Check death info is displayed - use getAllByText since responsive layout renders both desktop and mobile versions
+      expect(screen.getAllByText(/Age 72/).length).toBeGreaterThanOrEqual(1)
+      expect(screen.getAllByText("COVID-19").length).toBeGreaterThanOrEqual(1)
+      // Details only shown in desktop view
+      expect(screen.getByText("Complications from COVID-19")).toBeInTheDocument()
+    })
+  })
+
+  it("renders pagination controls when multiple pages", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 2, totalCount: 100 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Previous")).toBeInTheDocument()
+      expect(screen.getByText("Next")).toBeInTheDocument()
+      expect(screen.getByText("Page 1 of 2")).toBeInTheDocument()
+    })
+  })
+
+  it("disables Previous button on first page", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 2, totalCount: 100 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Previous")).toBeDisabled()
+      expect(screen.getByText("Next")).not.toBeDisabled()
+    })
+  })
+
+  it("calls API with page 2 when Next is clicked", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 2, totalCount: 100 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Next")).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByText("Next"))
+
+    await waitFor(() => {
+      expect(api.getCauseDeaths).toHaveBeenCalledWith("covid-19", 2)
+    })
+  })
+
+  it("hides pagination when only one page", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      // Use getAllByText since responsive layout renders both desktop and mobile versions
+      expect(screen.getAllByText("Actor One").length).toBeGreaterThanOrEqual(1)
+    })
+
+    expect(screen.queryByText("Previous")).not.toBeInTheDocument()
+    expect(screen.queryByText("Next")).not.toBeInTheDocument()
+  })
+
+  it("renders error state when API fails", async () => {
+    vi.mocked(api.getCauseDeaths).mockRejectedValue(new Error("API Error"))
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId("error-message")).toBeInTheDocument()
+      },
+      { timeout: 3000 }
+    )
+
+    expect(screen.getByTestId("error-text")).toHaveTextContent("API Error")
+  })
+
+  it("shows total count footer", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 2, totalCount: 100 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Showing 2 of 100 actors")).toBeInTheDocument()
+    })
+  })
+
+  it("reads page from URL parameters", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 2, pageSize: 50, totalPages: 3, totalCount: 150 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />, {
+      initialEntries: ["/cause/covid-19?page=2"],
+    })
+
+    await waitFor(() => {
+      expect(api.getCauseDeaths).toHaveBeenCalledWith("covid-19", 2)
+    })
+  })
+
+  it("actor rows link to actor profile pages", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      const actorRow = screen.getByTestId("cause-death-row-123")
+      expect(actorRow).toHaveAttribute("href", "/actor/actor-one-123")
+    })
+  })
+
+  it("displays placeholder icon when no profile image", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse([mockPersons[1]], { page: 1, pageSize: 50, totalPages: 1, totalCount: 1 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      // The PersonIcon should be rendered as an SVG
+      const actorRow = screen.getByTestId("cause-death-row-456")
+      expect(actorRow.querySelector("svg")).toBeInTheDocument()
+    })
+  })
+
+  it("shows age-at-death stats and a decade histogram", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 15 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId("cause-stats")).toBeInTheDocument()
+    })
+
+    const stats = screen.getByTestId("cause-stats")
+    expect(stats).toHaveTextContent("15Deaths")
+    expect(stats).toHaveTextContent("68.5Average age")
+    expect(stats).toHaveTextContent("65Youngest")
+    expect(stats).toHaveTextContent("72Oldest")
+
+    const histogram = screen.getByTestId("decade-histogram")
+    expect(histogram).toHaveTextContent("2010s")
+    expect(histogram).toHaveTextContent("2020s")
+    expect(histogram).toHaveTextContent("12")
+  })
+
+  it("renders any cause from the registry", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue({
+      ...mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 }),
+      cause: {
+        slug: "cancer",
+        label: "Cancer",
+        description: "Actors whose cause of death is classified as cancer.",
+      },
+    })
+
+    renderWithProviders(<CauseDeathsPage />, { initialEntries: ["/cause/cancer"] })
+
+    await waitFor(() => {
+      expect(screen.getByText("Cancer Deaths")).toBeInTheDocument()
+    })
+    expect(api.getCauseDeaths).toHaveBeenCalledWith("cancer", 1)
+  })
+
+  it("links back to the index of all causes", async () => {
+    vi.mocked(api.getCauseDeaths).mockResolvedValue(
+      mockResponse(mockPersons, { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 })
+    )
+
+    renderWithProviders(<CauseDeathsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("All causes of death")).toHaveAttribute("href", "/causes")
+    })
+  })
+})
@@ -1,22 +1,22 @@
-import { useSearchParams, Link } from "react-router-dom"
+import { useParams, useSearchParams, Link } from "react-router-dom"
 import { Helmet } from "react-helmet-async"
-import { useCovidDeaths } from "@/hooks/useCovidDeaths"
+import { useCauseDeaths } from "@/hooks/useCauseDeaths"
 import { createActorSlug } from "@/utils/slugify"
 import { getProfileUrl } from "@/services/api"
 import { formatDate } from "@/utils/formatDate"
 import LoadingSpinner from "@/components/common/LoadingSpinner"
 import ErrorMessage from "@/components/common/ErrorMessage"
 import { PersonIcon } from "@/components/icons"
-import type { CovidDeath } from "@/types"
+import type { CauseDeath, CauseDeathStats, CauseDecadeCount } from "@/types"
 
-function ActorRow({ person }: { person: CovidDeath }) {
+function ActorRow({ person }: { person: CauseDeath }) {
   const slug = createActorSlug(person.name, person.id)
   const profileUrl = getProfileUrl(person.profilePath, "w185")
 
   return (
     <Link
       to={`/actor/${slug}`}
-      data-testid={`covid-death-row-${person.id}`}
+      data-testid={`cause-death-row-${person.id}`}
       className="block rounded-lg bg-white p-3 transition-colors hover:bg-cream"
     >
       {/* Desktop layout */}
@@ -91,12 +91,58 @@ function ActorRow({ person }: { person: CovidDeath }) {
   )
 }
 
-export default function CovidDeathsPage() {
+function StatsSummary({ stats, totalCount }: { stats: CauseDeathStats; totalCount: number }) {
+  const items = [
+    { label: "Deaths", value: totalCount },
+    { label: "Average age", value: stats.averageAgeAtDeath },
+    { label: "Median age", value: stats.medianAgeAtDeath },
+    { label: "Youngest", value: stats.youngestAgeAtDeath },
+    { label: "Oldest", value: stats.oldestAgeAtDeath },
+  ]
+
+  return (
+    <div data-testid="cause-stats" className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-lg bg-white p-3 text-center">
+          <p className="font-display text-xl text-brown-dark">{item.value ?? "—"}</p>
+          <p className="text-xs text-text-muted">{item.label}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function DecadeHistogram({ decades }: { decades: CauseDecadeCount[] }) {
+  const maxCount = Math.max(...decades.map((d) => d.count))
+
+  return (
+    <div data-testid="decade-histogram" className="rounded-lg bg-white p-4">
+      <h2 className="mb-3 font-display text-lg text-brown-dark">Deaths by Decade</h2>
+      <div className="space-y-1">
+        {decades.map((d) => (
+          <div key={d.decade} className="flex items-center gap-2 text-sm">
+            <span className="w-12 flex-shrink-0 text-text-muted">{d.decade}s</span>
+            <div className="h-4 flex-1 rounded bg-beige">
+              <div
+                className="h-4 rounded bg-accent"
+                style={{ width: `${(d.count / maxCount) * 100}%` }}
+              />
+            </div>
+            <span className="w-10 flex-shrink-0 text-right text-brown-dark">{d.count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function CauseDeathsPage() {
+  const { slug = "" } = useParams<{ slug: string }>()
   const [searchParams, setSearchParams] = useSearchParams()
 
   const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10))
 
-  const { data, isLoading, error } = useCovidDeaths(page)
+  const { data, isLoading, error } = useCauseDeaths(slug, page)
 
   const goToPage = (newPage: number) => {
     const newParams = new URLSearchParams(searchParams)
@@ -109,52 +155,57 @@ export default function CovidDeathsPage() {
   }
 
   if (isLoading) {
-    return <LoadingSpinner message="Loading COVID-19 deaths..." />
+    return <LoadingSpinner message="Loading deaths..." />
   }
 
   if (error) {
     return <ErrorMessage message={error.message} />
   }
 
-  const noResults = !data || data.persons.length === 0
+  if (!data) {
+    return null
+  }
+
+  const { cause } = data
+  const noResults = data.persons.length === 0
 
   return (
     <>
       <Helmet>
-        <title>COVID-19 Deaths | Dead on Film</title>
-        <meta
-          name="description"
-          content="Actors who died from COVID-19 or related complications. A memorial to film industry members lost to the pandemic."
-        />
-        <meta property="og:title" content="COVID-19 Deaths | Dead on Film" />
-        <meta
-          property="og:description"
-          content="Actors who died from COVID-19 or related complications"
-        />
+        <title>{`${cause.label} Deaths | Dead on Film`}</title>
+        <meta name="description" content={cause.description} />
+        <meta property="og:title" content={`${cause.label} Deaths | Dead on Film`} />
+        <meta property="og:description" content={cause.description} />
         <meta property="og:type" content="website" />
       </Helmet>
 
-      <div data-testid="covid-deaths-page" className="mx-auto max-w-3xl">
+      <div data-testid="cause-deaths-page" className="mx-auto max-w-3xl">
         <div className="mb-6 text-center">
-          <h1 className="font-display text-3xl text-brown-dark">COVID-19 Deaths</h1>
+          <h1 className="font-display text-3xl text-brown-dark">{cause.label} Deaths</h1>
           <p className="mt-2 text-sm text-text-muted">
-            Actors in our database who died from COVID-19, coronavirus, or related complications.
-            Ordered by death date, most recent first.
+            {cause.description} Ordered by death date, most recent first.
           </p>
+          <Link to="/causes" className="mt-1 inline-block text-sm text-accent hover:underline">
+            All causes of death
+          </Link>
         </div>
 
         {noResults ? (
           <div className="text-center text-text-muted">
-            <p>No COVID-19 deaths found in our database.</p>
+            <p>No {cause.label} deaths found in our database.</p>
           </div>
         ) : (
           <>
+            <div className="mb-6 space-y-4">
+              <StatsSummary stats={data.stats} totalCount={data.pagination.totalCount} />
+              {data.decades.length > 0 && <DecadeHistogram decades={data.decades} />}
+            </div>
+
             <div className="space-y-2">
               {data.persons.map((person) => (
                 <ActorRow key={person.id} person={person} />
               ))}
             </div>
-
             {/* Pagination */}
             {data.pagination.totalPages > 1 && (
               <div className="mt-6 flex items-center justify-center gap-4">
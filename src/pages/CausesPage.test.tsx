@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, waitFor } from "@testing-library/react"
+import { MemoryRouter } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import CausesPage from "./CausesPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getCauses: vi.fn(),
+}))
+
+const mockCauses = [
+  {
+    slug: "cancer",
+    label: "Cancer",
+    description: "Actors whose cause of death is classified as cancer.",
+    count: 1204,
+  },
+  {
+    slug: "covid-19",
+    label: "COVID-19",
+    description: "Actors who died from COVID-19, coronavirus, or related complications.",
+    count: 1,
+  },
+]
+
+function renderWithProviders(ui: React.ReactElement) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={["/causes"]}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          {ui}
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+describe("CausesPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("renders loading state initially", () => {
+    vi.mocked(api.getCauses).mockImplementation(() => new Promise(() => {}))
+
+    renderWithProviders(<CausesPage />)
+
+    expect(screen.getByText("Loading causes of death...")).toBeInTheDocument()
+  })
+
+  it("lists every cause with its count", async () => {
+    vi.mocked(api.getCauses).mockResolvedValue({ causes: mockCauses })
+
+    renderWithProviders(<CausesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Causes of Death")).toBeInTheDocument()
+    })
+    expect(screen.getByTestId("cause-link-cancer")).toHaveTextContent("1,204 actors")
+    expect(screen.getByTestId("cause-link-covid-19")).toHaveTextContent("1 actor")
+  })
+
+  it("links each cause to its page", async () => {
+    vi.mocked(api.getCauses).mockResolvedValue({ causes: mockCauses })
+
+    renderWithProviders(<CausesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId("cause-link-covid-19")).toHaveAttribute("href", "/cause/covid-19")
+    })
+  })
+
+  it("shows empty state when there are no causes", async () => {
+    vi.mocked(api.getCauses).mockResolvedValue({ causes: [] })
+
+    renderWithProviders(<CausesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("No causes of death found.")).toBeInTheDocument()
+    })
+  })
+
+  it("renders error state when API fails", async () => {
+    vi.mocked(api.getCauses).mockRejectedValue(new Error("API Error"))
+
+    renderWithProviders(<CausesPage />)
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId("error-message")).toBeInTheDocument()
+      },
+      { timeout: 3000 }
+    )
+    expect(screen.getByTestId("error-text")).toHaveTextContent("API Error")
+  })
+})
@@ -0,0 +1,65 @@
+import { Link } from "react-router-dom"
+import { Helmet } from "react-helmet-async"
+import { useCauses } from "@/hooks/useCauses"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+import ErrorMessage from "@/components/common/ErrorMessage"
+
+export default function CausesPage() {
+  const { data, isLoading, error } = useCauses()
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading causes of death..." />
+  }
+
+  if (error) {
+    return <ErrorMessage message={error.message} />
+  }
+
+  const causes = data?.causes || []
+
+  return (
+    <>
+      <Helmet>
+        <title>Causes of Death - Dead on Film</title>
+        <meta
+          name="description"
+          content="Browse deceased actors by cause of death, from cancer and heart disease to accidents and COVID-19."
+        />
+      </Helmet>
+
+      <div data-testid="causes-page" className="mx-auto max-w-3xl">
+        <div className="mb-6 text-center">
+          <h1 className="font-display text-3xl text-brown-dark">Causes of Death</h1>
+          <p className="mt-2 text-sm text-text-muted">
+            Browse the actors in our database by what killed them. Most common causes first.
+          </p>
+        </div>
+
+        {causes.length === 0 ? (
+          <div className="text-center text-text-muted">
+            <p>No causes of death found.</p>
+          </div>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {causes.map((cause) => (
+              <Link
+                key={cause.slug}
+                to={`/cause/${cause.slug}`}
+                data-testid={`cause-link-${cause.slug}`}
+                className="block rounded-lg bg-white p-3 transition-colors hover:bg-cream"
+              >
+                <div className="flex items-baseline justify-between gap-2">
+                  <h2 className="font-display text-lg text-brown-dark">{cause.label}</h2>
+                  <span className="flex-shrink-0 text-sm text-accent">
+                    {cause.count.toLocaleString()} {cause.count === 1 ? "actor" : "actors"}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-text-muted">{cause.description}</p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { MemoryRouter, Route, Routes } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import ConnectionsPage from "./ConnectionsPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getConnections: vi.fn(),
+  searchActors: vi.fn(),
+  getProfileUrl: vi.fn((path) => (path ? `https://image.tmdb.org/t/p/w185${path}` : null)),
+  getPosterUrl: vi.fn((path) => (path ? `https://image.tmdb.org/t/p/w92${path}` : null)),
+}))
+
+const mockConnection = {
+  fromId: 1,
+  toId: 3,
+  degrees: 2,
+  throughDeceasedOnly: true,
+  deceasedCount: 1,
+  actors: [
+    { id: 1, name: "First Actor", isDeceased: false, profilePath: "/first.jpg" },
+    { id: 2, name: "Middle Actor", isDeceased: true, profilePath: null },
+    { id: 3, name: "Last Actor", isDeceased: false, profilePath: null },
+  ],
+  movies: [
+    { id: 100, title: "Shared Film", releaseYear: 1970, posterPath: "/shared.jpg" },
+    { id: 101, title: "Other Film", releaseYear: null, posterPath: null },
+  ],
+}
+
+function renderWithProviders(ui: React.ReactElement, { initialEntries = ["/connections"] } = {}) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          <Routes>
+            <Route path="/connections" element={ui} />
+          </Routes>
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+describe("ConnectionsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("asks for two actors before searching", () => {
+    renderWithProviders(<ConnectionsPage />)
+
+    expect(screen.getByText("Pick two actors to connect.")).toBeInTheDocument()
+    expect(screen.getByLabelText("From:")).toBeInTheDocument()
+    expect(screen.getByLabelText("To:")).toBeInTheDocument()
+    expect(api.getConnections).not.toHaveBeenCalled()
+  })
+
+  it("renders the chain of actors and movies", async () => {
+    vi.mocked(api.getConnections).mockResolvedValue(mockConnection)
+
+    renderWithProviders(<ConnectionsPage />, { initialEntries: ["/connections?from=1&to=3"] })
+
+    await waitFor(() => {
+      expect(screen.getByTestId("connection-chain")).toBeInTheDocument()
+    })
+
+    expect(screen.getAllByTestId("connection-actor")).toHaveLength(3)
+    expect(screen.getAllByTestId("connection-movie")).toHaveLength(2)
+    expect(screen.getByRole("link", { name: /Shared Film/ })).toHaveAttribute(
+      "href",
+      "/movie/shared-film-1970-100"
+    )
+    expect(screen.getByRole("link", { name: /Middle Actor/ })).toHaveAttribute(
+      "href",
+      "/actor/middle-actor-2"
+    )
+    expect(screen.getByTestId("connection-summary")).toHaveTextContent(
+      "2 degrees of separation · 1 of 3 actors on the path have died"
+    )
+    // Picked actors from the URL take their names from the result
+    expect(screen.getByText("First Actor", { selector: "span.font-display" })).toBeInTheDocument()
+    expect(api.getConnections).toHaveBeenCalledWith({ from: 1, to: 3, preferDeceased: false })
+  })
+
+  it("prefers deceased paths when the option is checked", async () => {
+    vi.mocked(api.getConnections).mockResolvedValue(mockConnection)
+
+    renderWithProviders(<ConnectionsPage />, { initialEntries: ["/connections?from=1&to=3"] })
+
+    await waitFor(() => {
+      expect(screen.getByTestId("connection-chain")).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByLabelText("Prefer paths through deceased actors"))
+
+    await waitFor(() => {
+      expect(api.getConnections).toHaveBeenCalledWith({ from: 1, to: 3, preferDeceased: true })
+    })
+    expect(await screen.findByText(/Every actor in between is deceased/)).toBeInTheDocument()
+  })
+
+  it("picks actors from search results", async () => {
+    vi.mocked(api.searchActors).mockResolvedValue({
+      actors: [
+        { id: 7, name: "Searched Actor", isDeceased: true, profilePath: null, totalMovies: 12 },
+      ],
+    })
+    vi.mocked(api.getConnections).mockResolvedValue({ ...mockConnection, fromId: 7 })
+
+    renderWithProviders(<ConnectionsPage />, { initialEntries: ["/connections?to=3"] })
+
+    fireEvent.change(screen.getByLabelText("From:"), { target: { value: "sear" } })
+
+    const option = await screen.findByRole("option", { name: /Searched Actor/ })
+    fireEvent.mouseDown(option)
+
+    await waitFor(() => {
+      expect(api.getConnections).toHaveBeenCalledWith({ from: 7, to: 3, preferDeceased: false })
+    })
+    expect(api.searchActors).toHaveBeenCalledWith("sear")
+    expect(screen.getByText("Searched Actor")).toBeInTheDocument()
+  })
+
+  it("shows a message when the actors are not connected", async () => {
+    vi.mocked(api.getConnections).mockResolvedValue({
+      ...mockConnection,
+      degrees: null,
+      throughDeceasedOnly: false,
+      deceasedCount: 0,
+      actors: [],
+      movies: [],
+    })
+
+    renderWithProviders(<ConnectionsPage />, { initialEntries: ["/connections?from=1&to=3"] })
+
+    await waitFor(() => {
+      expect(screen.getByText("No connection found within six degrees.")).toBeInTheDocument()
+    })
+  })
+
+  it("renders error state when API fails", async () => {
+    vi.mocked(api.getConnections).mockRejectedValue(new Error("API Error"))
+
+    renderWithProviders(<ConnectionsPage />, { initialEntries: ["/connections?from=1&to=3"] })
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId("error-message")).toBeInTheDocument()
+      },
+      { timeout: 3000 }
+    )
+
+    expect(screen.getByTestId("error-text")).toHaveTextContent("API Error")
+  })
+})
@@ -0,0 +1,136 @@
+import { useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { Helmet } from "react-helmet-async"
+import { useConnections } from "@/hooks/useConnections"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+import ErrorMessage from "@/components/common/ErrorMessage"
+import ActorPicker from "@/components/connections/ActorPicker"
+import ConnectionChain from "@/components/connections/ConnectionChain"
+
+export default function ConnectionsPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Parse URL params
+  const fromId = parseInt(searchParams.get("from") || "0", 10) || 0
+  const toId = parseInt(searchParams.get("to") || "0", 10) || 0
+  const preferDeceased = searchParams.get("prefer") === "deceased"
+
+  // Names of actors picked on this page; actors from the URL get theirs from the result
+  const [pickedNames, setPickedNames] = useState<Record<number, string>>({})
+
+  const canSearch = fromId > 0 && toId > 0 && fromId !== toId
+  const { data, isLoading, error } = useConnections(
+    { from: fromId, to: toId, preferDeceased },
+    canSearch
+  )
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const newParams = new URLSearchParams(searchParams)
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined || value === "") {
+        newParams.delete(key)
+      } else {
+        newParams.set(key, value)
+      }
+    }
+
+    setSearchParams(newParams)
+  }
+
+  const nameFor = (actorId: number): string | null => {
+    if (!actorId) return null
+    return (
+      pickedNames[actorId] ??
+      data?.actors.find((actor) => actor.id === actorId)?.name ??
+      `Actor #${actorId}`
+    )
+  }
+
+  const pickActor = (key: "from" | "to") => (actor: { id: number; name: string }) => {
+    setPickedNames((names) => ({ ...names, [actor.id]: actor.name }))
+    updateParams({ [key]: String(actor.id) })
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>Six Degrees of Death - Dead on Film</title>
+        <meta
+          name="description"
+          content="Find the shortest chain of movies connecting any two actors, and see how many of the actors along the way have died."
+        />
+      </Helmet>
+
+      <div data-testid="connections-page" className="mx-auto max-w-4xl">
+        <div className="mb-6 text-center">
+          <h1 className="font-display text-3xl text-brown-dark">Six Degrees of Death</h1>
+          <p className="mt-2 text-sm text-text-muted">
+            Pick two actors to find the shortest chain of co-stars connecting them through movies in
+            our database. Prefer the dead to route through deceased actors whenever possible.
+          </p>
+        </div>
+
+        {/* Controls */}
+        <div className="mb-6 rounded-lg bg-beige p-4">
+          <div className="flex flex-col gap-4 sm:flex-row">
+            <ActorPicker
+              id="from-actor"
+              label="From:"
+              selectedName={nameFor(fromId)}
+              onSelect={pickActor("from")}
+              onClear={() => updateParams({ from: undefined })}
+            />
+            <ActorPicker
+              id="to-actor"
+              label="To:"
+              selectedName={nameFor(toId)}
+              onSelect={pickActor("to")}
+              onClear={() => updateParams({ to: undefined })}
+            />
+          </div>
+
+          <label className="mt-3 flex cursor-pointer items-center justify-center gap-2 text-sm text-text-muted">
+            <input
+              type="checkbox"
+              checked={preferDeceased}
+              onChange={(e) => updateParams({ prefer: e.target.checked ? "deceased" : undefined })}
+              className="rounded border-brown-medium/30"
+            />
+            Prefer paths through deceased actors
+          </label>
+        </div>
+
+        {fromId > 0 && fromId === toId ? (
+          <p className="text-center text-text-muted">Pick two different actors.</p>
+        ) : !canSearch ? (
+          <p className="text-center text-text-muted">Pick two actors to connect.</p>
+        ) : isLoading ? (
+          <LoadingSpinner message="Searching for a connection..." />
+        ) : error ? (
+          <ErrorMessage message={error.message} />
+        ) : !data || data.degrees === null ? (
+          <div className="text-center text-text-muted">
+            <p>No connection found within six degrees.</p>
+          </div>
+        ) : (
+          <>
+            <p
+              data-testid="connection-summary"
+              className="mb-4 text-center text-sm text-text-muted"
+            >
+              {data.degrees} {data.degrees === 1 ? "degree" : "degrees"} of separation ·{" "}
+              {data.deceasedCount} of {data.actors.length} actors on the path have died
+              {preferDeceased &&
+                data.actors.length > 2 &&
+                (data.throughDeceasedOnly
+                  ? " · Every actor in between is deceased"
+                  : " · No path through only deceased actors")}
+            </p>
+            <ConnectionChain actors={data.actors} movies={data.movies} />
+          </>
+        )}
+      </div>
+    </>
+  )
+}
@@ -154,7 +154,11 @@ export default function CursedActorsPage() {
           <p className="mt-2 text-sm text-text-muted">
             Actors whose co-stars have died at unusually high rates across their filmography. The
             curse score shows excess co-star mortality: 50% means 50% more co-star deaths than
-            actuarial tables predicted based on cast ages.
+            actuarial tables predicted based on cast ages. See also{" "}
+            <Link to="/cursed-directors" className="text-accent hover:underline">
+              cursed directors
+            </Link>
+            .
           </p>
         </div>
 
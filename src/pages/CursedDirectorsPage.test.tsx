@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { render, screen, fireEvent, waitFor } from "@testing-library/react"
+import { MemoryRouter, Route, Routes } from "react-router-dom"
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
+import { HelmetProvider } from "react-helmet-async"
+import CursedDirectorsPage from "./CursedDirectorsPage"
+import * as api from "@/services/api"
+
+// Mock the API
+vi.mock("@/services/api", () => ({
+  getCursedDirectors: vi.fn(),
+}))
+
+const mockDirectors = [
+  {
+    rank: 1,
+    id: 10,
+    name: "Cursed Director",
+    isDeceased: true,
+    totalMovies: 2,
+    totalActualDeaths: 25,
+    totalExpectedDeaths: 12.5,
+    curseScore: 12.5,
+    movies: [
+      { id: 1, title: "First Film", releaseYear: 1970, deceasedCount: 15, expectedDeaths: 7.5 },
+      { id: 2, title: "Second Film", releaseYear: 1975, deceasedCount: 10, expectedDeaths: 5 },
+    ],
+  },
+  {
+    rank: 2,
+    id: 20,
+    name: "Living Director",
+    isDeceased: false,
+    totalMovies: 3,
+    totalActualDeaths: 12,
+    totalExpectedDeaths: 10,
+    curseScore: 2,
+    movies: [],
+  },
+]
+
+function renderWithProviders(
+  ui: React.ReactElement,
+  { initialEntries = ["/cursed-directors"] } = {}
+) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <HelmetProvider>
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          <Routes>
+            <Route path="/cursed-directors" element={ui} />
+          </Routes>
+        </MemoryRouter>
+      </HelmetProvider>
+    </QueryClientProvider>
+  )
+}
+
+describe("CursedDirectorsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("renders loading state initially", () => {
+    vi.mocked(api.getCursedDirectors).mockImplementation(
+      () => new Promise(() => {}) // Never resolves
+    )
+
+    renderWithProviders(<CursedDirectorsPage />)
+
+    expect(screen.getByText("Loading cursed directors...")).toBeInTheDocument()
+  })
+
+  it("renders directors with curse scores", async () => {
+    vi.mocked(api.getCursedDirectors).mockResolvedValue({
+      directors: mockDirectors,
+      role: "director",
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<CursedDirectorsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Cursed Director")).toBeInTheDocument()
+      expect(screen.getByText("Living Director")).toBeInTheDocument()
+    })
+    // (25 - 12.5) / 12.5 = 100%
+    expect(screen.getByText("100%")).toBeInTheDocument()
+    expect(screen.getByText("+12.5 above expected")).toBeInTheDocument()
+  })
+
+  it("links to each contributing movie", async () => {
+    vi.mocked(api.getCursedDirectors).mockResolvedValue({
+      directors: mockDirectors,
+      role: "director",
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<CursedDirectorsPage />)
+
+    const link = await screen.findByRole("link", { name: "First Film" })
+    expect(link).toHaveAttribute("href", "/movie/first-film-1970-1")
+    expect(screen.getByRole("link", { name: "Second Film" })).toHaveAttribute(
+      "href",
+      "/movie/second-film-1975-2"
+    )
+    expect(screen.getByText("(1970) 15 of 7.5 expected")).toBeInTheDocument()
+  })
+
+  it("reads filters from URL parameters", async () => {
+    vi.mocked(api.getCursedDirectors).mockResolvedValue({
+      directors: mockDirectors,
+      role: "producer",
+      pagination: { page: 2, pageSize: 50, totalCount: 100, totalPages: 2 },
+    })
+
+    renderWithProviders(<CursedDirectorsPage />, {
+      initialEntries: ["/cursed-directors?page=2&from=1960&to=1980&minMovies=5&role=producer"],
+    })
+
+    await waitFor(() => {
+      expect(api.getCursedDirectors).toHaveBeenCalledWith({
+        page: 2,
+        fromDecade: 1960,
+        toDecade: 1980,
+        minMovies: 5,
+        role: "producer",
+      })
+    })
+    expect(await screen.findByText("Most Cursed Producers")).toBeInTheDocument()
+  })
+
+  it("calls API with the selected role", async () => {
+    vi.mocked(api.getCursedDirectors).mockResolvedValue({
+      directors: mockDirectors,
+      role: "director",
+      pagination: { page: 1, pageSize: 50, totalCount: 2, totalPages: 1 },
+    })
+
+    renderWithProviders(<CursedDirectorsPage />)
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Role:")).toBeInTheDocument()
+    })
+
+    fireEvent.change(screen.getByLabelText("Role:"), { target: { value: "producer" } })
+
+    await waitFor(() => {
+      expect(api.getCursedDirectors).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: "producer",
+        })
+      )
+    })
+    expect(await screen.findByText("Clear filters")).toBeInTheDocument()
+  })
+
+  it("shows empty state when no directors match filters", async () => {
+    vi.mocked(api.getCursedDirectors).mockResolvedValue({
+      directors: [],
+      role: "director",
+      pagination: { page: 1, pageSize: 50, totalCount: 0, totalPages: 0 },
+    })
+
+    renderWithProviders(<CursedDirectorsPage />)
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("No directors match these filters. Try adjusting your criteria.")
+      ).toBeInTheDocument()
+    })
+  })
+
+  it("renders error state when API fails", async () => {
+    vi.mocked(api.getCursedDirectors).mockRejectedValue(new Error("API Error"))
+
+    renderWithProviders(<CursedDirectorsPage />)
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId("error-message")).toBeInTheDocument()
+      },
+      { timeout: 3000 }
+    )
+
+    expect(screen.getByTestId("error-text")).toHaveTextContent("API Error")
+  })
+})
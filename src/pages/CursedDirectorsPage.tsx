@@ -0,0 +1,321 @@
+import { useSearchParams, Link } from "react-router-dom"
+import { Helmet } from "react-helmet-async"
+import { useCursedDirectors } from "@/hooks/useCursedDirectors"
+import { getDecadeOptions } from "@/utils/formatDate"
+import { createMovieSlug } from "@/utils/slugify"
+import LoadingSpinner from "@/components/common/LoadingSpinner"
+import ErrorMessage from "@/components/common/ErrorMessage"
+import { PersonIcon, SkullIcon } from "@/components/icons"
+import type { CursedDirector, DirectorRole } from "@/types"
+
+const DECADE_OPTIONS = getDecadeOptions(1930)
+
+const ROLE_OPTIONS: { value: DirectorRole; label: string }[] = [
+  { value: "director", label: "Directors" },
+  { value: "producer", label: "Producers" },
+]
+
+const MIN_MOVIES_OPTIONS = [
+  { value: "2", label: "Any" },
+  { value: "3", label: "3+" },
+  { value: "5", label: "5+" },
+  { value: "10", label: "10+" },
+]
+
+function DirectorRow({ director }: { director: CursedDirector }) {
+  const excessDeaths =
+    Math.round((director.totalActualDeaths - director.totalExpectedDeaths) * 10) / 10
+  const cursePercentage =
+    director.totalExpectedDeaths > 0
+      ? ((director.totalActualDeaths - director.totalExpectedDeaths) /
+          director.totalExpectedDeaths) *
+        100
+      : 0
+
+  return (
+    <div data-testid="cursed-director-row" className="rounded-lg bg-white p-3">
+      <div className="flex items-center gap-4">
+        <span className="w-8 text-center font-display text-lg text-brown-medium">
+          {director.rank}
+        </span>
+
+        <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-beige">
+          <PersonIcon size={24} className="text-brown-medium" />
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <h3 className="truncate font-display text-lg text-brown-dark">{director.name}</h3>
+            {director.isDeceased && (
+              <SkullIcon size={16} className="flex-shrink-0 text-brown-medium" />
+            )}
+          </div>
+          <p className="text-sm text-text-muted">{director.totalMovies} movies analyzed</p>
+        </div>
+
+        <div className="flex-shrink-0 text-right">
+          <p className="font-display text-lg text-brown-dark">
+            {director.totalActualDeaths} deaths
+          </p>
+          <p className="text-xs text-text-muted">
+            +{excessDeaths > 0 ? excessDeaths.toFixed(1) : "0"} above expected
+          </p>
+        </div>
+
+        <div className="flex-shrink-0 text-right">
+          <p className="font-display text-xl text-brown-dark">
+            {cursePercentage > 0 ? `${cursePercentage.toFixed(0)}%` : "0%"}
+          </p>
+          <p className="text-xs text-text-muted">curse score</p>
+        </div>
+      </div>
+
+      {/* Contributing movies */}
+      <ul className="ml-12 mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        {director.movies.map((movie) => {
+          const releaseYear = movie.releaseYear?.toString() || ""
+          const slug = createMovieSlug(movie.title, releaseYear, movie.id)
+
+          return (
+            <li key={movie.id}>
+              <Link to={`/movie/${slug}`} className="text-accent hover:underline">
+                {movie.title}
+              </Link>{" "}
+              <span className="text-xs text-text-muted">
+                ({releaseYear || "Unknown"}) {movie.deceasedCount} of{" "}
+                {movie.expectedDeaths.toFixed(1)} expected
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+function getPageTitle(role: DirectorRole): string {
+  return role === "producer"
+    ? "Most Cursed Producers - Dead on Film"
+    : "Most Cursed Directors - Dead on Film"
+}
+
+export default function CursedDirectorsPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Parse URL params
+  const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10))
+  const fromDecade = searchParams.get("from") ? parseInt(searchParams.get("from")!, 10) : undefined
+  const toDecade = searchParams.get("to") ? parseInt(searchParams.get("to")!, 10) : undefined
+  const minMovies = parseInt(searchParams.get("minMovies") || "2", 10)
+  const role: DirectorRole = searchParams.get("role") === "producer" ? "producer" : "director"
+
+  const { data, isLoading, error } = useCursedDirectors({
+    page,
+    fromDecade,
+    toDecade,
+    minMovies,
+    role,
+  })
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const newParams = new URLSearchParams(searchParams)
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined || value === "") {
+        newParams.delete(key)
+      } else {
+        newParams.set(key, value)
+      }
+    }
+
+    // Reset to page 1 when filters change
+    if (!("page" in updates)) {
+      newParams.delete("page")
+    }
+
+    setSearchParams(newParams)
+  }
+
+  const goToPage = (newPage: number) => {
+    updateParams({ page: newPage > 1 ? String(newPage) : undefined })
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading cursed directors..." />
+  }
+
+  if (error) {
+    return <ErrorMessage message={error.message} />
+  }
+
+  const roleLabel = role === "producer" ? "producers" : "directors"
+  const hasFilters = fromDecade || toDecade || minMovies !== 2 || role !== "director"
+  const noResults = !data || data.directors.length === 0
+
+  return (
+    <>
+      <Helmet>
+        <title>{getPageTitle(role)}</title>
+        <meta
+          name="description"
+          content="Discover directors whose casts have died at unusually high rates. Ranked by curse score - how many more cast deaths than statistically expected across the movies they directed."
+        />
+        <meta property="og:title" content={getPageTitle(role)} />
+        <meta
+          property="og:description"
+          content="Directors ranked by how many of their cast members died above statistical expectations"
+        />
+        <meta property="og:type" content="website" />
+      </Helmet>
+
+      <div data-testid="cursed-directors-page" className="mx-auto max-w-3xl">
+        <div className="mb-6 text-center">
+          <h1 className="font-display text-3xl text-brown-dark">
+            {role === "producer" ? "Most Cursed Producers" : "Most Cursed Directors"}
+          </h1>
+          <p className="mt-2 text-sm text-text-muted">
+            Like{" "}
+            <Link to="/cursed-actors" className="text-accent hover:underline">
+              cursed actors
+            </Link>
+            , but behind the camera: cast deaths are combined across every movie a person{" "}
+            {role === "producer" ? "produced" : "directed"}. The curse score shows excess mortality:
+            50% means 50% more cast deaths than actuarial tables predicted.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap items-center justify-center gap-4 rounded-lg bg-beige p-4">
+          <div className="flex items-center gap-2">
+            <label htmlFor="role" className="text-sm text-text-muted">
+              Role:
+            </label>
+            <select
+              id="role"
+              value={role}
+              onChange={(e) =>
+                updateParams({ role: e.target.value === "director" ? undefined : e.target.value })
+              }
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {ROLE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="from-decade" className="text-sm text-text-muted">
+              From:
+            </label>
+            <select
+              id="from-decade"
+              value={fromDecade?.toString() || ""}
+              onChange={(e) => updateParams({ from: e.target.value || undefined })}
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {DECADE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="to-decade" className="text-sm text-text-muted">
+              To:
+            </label>
+            <select
+              id="to-decade"
+              value={toDecade?.toString() || ""}
+              onChange={(e) => updateParams({ to: e.target.value || undefined })}
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {DECADE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="min-movies" className="text-sm text-text-muted">
+              Min Movies:
+            </label>
+            <select
+              id="min-movies"
+              value={minMovies.toString()}
+              onChange={(e) =>
+                updateParams({ minMovies: e.target.value === "2" ? undefined : e.target.value })
+              }
+              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+            >
+              {MIN_MOVIES_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {hasFilters && (
+            <button
+              onClick={() => setSearchParams(new URLSearchParams())}
+              className="text-sm text-accent hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {noResults ? (
+          <div className="text-center text-text-muted">
+            <p>No {roleLabel} match these filters. Try adjusting your criteria.</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {data.directors.map((director) => (
+                <DirectorRow key={director.id} director={director} />
+              ))}
+            </div>
+
+            {/* Pagination */}
+            {data.pagination.totalPages > 1 && (
+              <div className="mt-6 flex items-center justify-center gap-4">
+                <button
+                  onClick={() => goToPage(page - 1)}
+                  disabled={page <= 1}
+                  className="rounded bg-brown-medium px-4 py-2 text-sm text-white transition-colors hover:bg-brown-dark disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Previous
+                </button>
+
+                <span className="text-sm text-text-muted">
+                  Page {page} of {data.pagination.totalPages}
+                </span>
+
+                <button
+                  onClick={() => goToPage(page + 1)}
+                  disabled={page >= data.pagination.totalPages}
+                  className="rounded bg-brown-medium px-4 py-2 text-sm text-white transition-colors hover:bg-brown-dark disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+
+            {/* Total count */}
+            <p className="mt-4 text-center text-sm text-text-muted">
+              Showing {data.directors.length} of {data.pagination.totalCount} {roleLabel}
+            </p>
+          </>
+        )}
+      </div>
+    </>
+  )
+}
@@ -10,6 +10,7 @@ import * as api from "@/services/api"
 vi.mock("@/services/api", () => ({
   getCursedMovies: vi.fn(),
   getCursedMoviesFilters: vi.fn(() => Promise.resolve({ maxMinDeaths: 10 })),
+  getCursedMoviesFunnel: vi.fn(),
   getPosterUrl: vi.fn((path) => (path ? `https://image.tmdb.org/t/p/w92${path}` : null)),
 }))
 
@@ -260,6 +261,7 @@ describe("CursedMoviesPage", () => {
         toDecade: 1990,
         minDeadActors: 5,
         includeObscure: false,
+        rank: "raw",
       })
     })
   })
@@ -388,4 +390,102 @@ describe("CursedMoviesPage", () => {
       )
     })
   })
+
+  it("reads shrunk ranking from URL parameters and shows adjusted scores", async () => {
+    vi.mocked(api.getCursedMovies).mockResolvedValue({
+      movies: [{ ...mockMovies[0], shrunkMortalityRatio: 1.8 }],
+      pagination: { page: 1, pageSize: 50, totalCount: 1, totalPages: 1 },
+    })
+
+    renderWithProviders(<CursedMoviesPage />, {
+      initialEntries: ["/cursed-movies?rank=shrunk"],
+    })
+
+    await waitFor(() => {
+      expect(screen.getByText("Very Cursed Movie")).toBeInTheDocument()
+    })
+
+    expect(api.getCursedMovies).toHaveBeenCalledWith(expect.objectContaining({ rank: "shrunk" }))
+    expect(screen.getByLabelText("Rank by:")).toHaveValue("shrunk")
+    expect(screen.getByText("80%")).toBeInTheDocument()
+    expect(screen.getByText("adjusted score")).toBeInTheDocument()
+    expect(screen.getByTestId("shrunk-ranking-note")).toBeInTheDocument()
+  })
+
+  it("calls API with shrunk ranking when Rank by is changed", async () => {
+    vi.mocked(api.getCursedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 100, totalPages: 2 },
+    })
+
+    renderWithProviders(<CursedMoviesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Rank by:")).toBeInTheDocument()
+    })
+
+    fireEvent.change(screen.getByLabelText("Rank by:"), { target: { value: "shrunk" } })
+
+    await waitFor(() => {
+      expect(api.getCursedMovies).toHaveBeenCalledWith(expect.objectContaining({ rank: "shrunk" }))
+    })
+  })
+
+  it("does not fetch the funnel plot in the leaderboard view", async () => {
+    vi.mocked(api.getCursedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 100, totalPages: 2 },
+    })
+
+    renderWithProviders(<CursedMoviesPage />)
+
+    await waitFor(() => {
+      expect(screen.getByText("Very Cursed Movie")).toBeInTheDocument()
+    })
+
+    expect(api.getCursedMoviesFunnel).not.toHaveBeenCalled()
+  })
+
+  it("shows the funnel plot when the funnel view is selected", async () => {
+    vi.mocked(api.getCursedMovies).mockResolvedValue({
+      movies: mockMovies,
+      pagination: { page: 1, pageSize: 50, totalCount: 100, totalPages: 2 },
+    })
+    vi.mocked(api.getCursedMoviesFunnel).mockResolvedValue({
+      mean: 1.1,
+      movies: [
+        {
+          id: 1,
+          title: "Very Cursed Movie",
+          releaseYear: 1980,
+          deceasedCount: 15,
+          expectedDeaths: 5,
+          mortalityRatio: 3,
+        },
+      ],
+      limits: [{ expectedDeaths: 5, lower95: 0.4, upper95: 2, lower998: 0.2, upper998: 2.6 }],
+    })
+
+    renderWithProviders(<CursedMoviesPage />, {
+      initialEntries: ["/cursed-movies?from=1970"],
+    })
+
+    await waitFor(() => {
+      expect(screen.getByTestId("cursed-view-funnel-btn")).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByTestId("cursed-view-funnel-btn"))
+
+    await waitFor(() => {
+      expect(screen.getByTestId("funnel-plot")).toBeInTheDocument()
+    })
+
+    expect(api.getCursedMoviesFunnel).toHaveBeenCalledWith({
+      fromDecade: 1970,
+      toDecade: undefined,
+      includeObscure: false,
+    })
+    expect(screen.queryByLabelText("Rank by:")).not.toBeInTheDocument()
+    expect(screen.queryByText("Showing 2 of 100 movies")).not.toBeInTheDocument()
+  })
 })
@@ -2,21 +2,26 @@ import { Link, useSearchParams } from "react-router-dom"
 import { Helmet } from "react-helmet-async"
 import { useQuery } from "@tanstack/react-query"
 import { useCursedMovies } from "@/hooks/useCursedMovies"
+import { useCursedMoviesFunnel } from "@/hooks/useCursedMoviesFunnel"
 import { getPosterUrl, getCursedMoviesFilters } from "@/services/api"
 import { createMovieSlug } from "@/utils/slugify"
 import { getDecadeOptions } from "@/utils/formatDate"
 import LoadingSpinner from "@/components/common/LoadingSpinner"
 import ErrorMessage from "@/components/common/ErrorMessage"
 import CalculationExplainer from "@/components/common/CalculationExplainer"
-import type { CursedMovie } from "@/types"
+import FunnelPlot from "@/components/cursed/FunnelPlot"
+import type { CursedMovie, CursedMovieRanking, CursedMoviesFunnelResponse } from "@/types"
 
 const DECADE_OPTIONS = getDecadeOptions(1930)
 
-function MovieRow({ movie }: { movie: CursedMovie }) {
+function MovieRow({ movie, ranking }: { movie: CursedMovie; ranking: CursedMovieRanking }) {
   const posterUrl = getPosterUrl(movie.posterPath, "w92")
   const releaseYear = movie.releaseYear?.toString() || "Unknown"
   const slug = createMovieSlug(movie.title, releaseYear, movie.id)
   const excessDeaths = Math.round((movie.deceasedCount - movie.expectedDeaths) * 10) / 10
+  const adjusted = ranking === "shrunk" && movie.shrunkMortalityRatio != null
+  // Shrunk SMR shown on the same scale as the curse score (SMR - 1)
+  const score = adjusted ? movie.shrunkMortalityRatio! - 1 : movie.mortalitySurpriseScore
 
   return (
     <Link
@@ -57,10 +62,8 @@ function MovieRow({ movie }: { movie: CursedMovie }) {
       </div>
 
       <div className="flex-shrink-0 text-right">
-        <p className="font-display text-xl text-brown-dark">
-          {(movie.mortalitySurpriseScore * 100).toFixed(0)}%
-        </p>
-        <p className="text-xs text-text-muted">curse score</p>
+        <p className="font-display text-xl text-brown-dark">{(score * 100).toFixed(0)}%</p>
+        <p className="text-xs text-text-muted">{adjusted ? "adjusted score" : "curse score"}</p>
       </div>
     </Link>
   )
@@ -85,6 +88,43 @@ function generateMinDeathsOptions(maxMinDeaths: number) {
   return options
 }
 
+function FunnelView({
+  data,
+  isLoading,
+  error,
+}: {
+  data: CursedMoviesFunnelResponse | undefined
+  isLoading: boolean
+  error: Error | null
+}) {
+  if (isLoading) {
+    return <LoadingSpinner message="Loading funnel plot..." />
+  }
+
+  if (error) {
+    return <ErrorMessage message={error.message} />
+  }
+
+  if (!data || data.mean === null || data.movies.length === 0) {
+    return (
+      <div className="text-center text-text-muted">
+        <p>No movies match these filters. Try adjusting your criteria.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div data-testid="cursed-movies-funnel" className="space-y-3">
+      <p className="text-center text-sm text-text-muted">
+        Each dot is a movie's deaths divided by its expected deaths. Movies with few expected deaths
+        vary widely by chance, so the limits narrow as casts get older and larger. Dots above the
+        dotted line had more deaths than chance alone would explain.
+      </p>
+      <FunnelPlot movies={data.movies} limits={data.limits} mean={data.mean} />
+    </div>
+  )
+}
+
 export default function CursedMoviesPage() {
   const [searchParams, setSearchParams] = useSearchParams()
 
@@ -104,6 +144,8 @@ export default function CursedMoviesPage() {
   const toDecade = searchParams.get("to") ? parseInt(searchParams.get("to")!, 10) : undefined
   const minDeadActors = parseInt(searchParams.get("minDeaths") || "3", 10)
   const includeObscure = searchParams.get("includeObscure") === "true"
+  const ranking: CursedMovieRanking = searchParams.get("rank") === "shrunk" ? "shrunk" : "raw"
+  const showFunnel = searchParams.get("view") === "funnel"
 
   const { data, isLoading, error } = useCursedMovies({
     page,
@@ -111,8 +153,12 @@ export default function CursedMoviesPage() {
     toDecade,
     minDeadActors,
     includeObscure,
+    rank: ranking,
   })
 
+  // The funnel plot shows every movie, so it ignores paging, min deaths and ranking
+  const funnel = useCursedMoviesFunnel({ fromDecade, toDecade, includeObscure }, showFunnel)
+
   const updateParams = (updates: Record<string, string | undefined>) => {
     const newParams = new URLSearchParams(searchParams)
 
@@ -144,7 +190,8 @@ export default function CursedMoviesPage() {
     return <ErrorMessage message={error.message} />
   }
 
-  const hasFilters = fromDecade || toDecade || minDeadActors !== 3 || includeObscure
+  const hasFilters =
+    fromDecade || toDecade || minDeadActors !== 3 || includeObscure || ranking !== "raw"
   const noResults = !data || data.movies.length === 0
 
   return (
@@ -170,10 +217,41 @@ export default function CursedMoviesPage() {
             Movies ranked by statistically abnormal mortality. A film from the 1930s with all
             deceased actors isn't "cursed" if that's expected for their ages. These films had
             significantly more deaths than actuarial tables predicted. The curse score shows excess
-            mortality: 50% means 50% more deaths than expected.
+            mortality: 50% means 50% more deaths than expected. For casts that outlived the odds,
+            see the{" "}
+            <Link to="/blessed-movies" className="text-accent hover:underline">
+              most blessed movies
+            </Link>
+            , or compare genres and decades in the{" "}
+            <Link to="/analytics" className="text-accent hover:underline">
+              mortality explorer
+            </Link>
+            .
           </p>
         </div>
 
+        {/* View toggle */}
+        <div className="mb-4 flex justify-center gap-2">
+          <button
+            data-testid="cursed-view-list-btn"
+            onClick={() => updateParams({ view: undefined, page: undefined })}
+            className={`rounded px-3 py-1 text-sm transition-colors ${
+              showFunnel ? "bg-beige text-brown-dark hover:bg-cream" : "bg-brown-dark text-white"
+            }`}
+          >
+            Leaderboard
+          </button>
+          <button
+            data-testid="cursed-view-funnel-btn"
+            onClick={() => updateParams({ view: "funnel", page: undefined })}
+            className={`rounded px-3 py-1 text-sm transition-colors ${
+              showFunnel ? "bg-brown-dark text-white" : "bg-beige text-brown-dark hover:bg-cream"
+            }`}
+          >
+            Funnel plot
+          </button>
+        </div>
+
         {/* Filters */}
         <div className="mb-6 flex flex-wrap items-center justify-center gap-4 rounded-lg bg-beige p-4">
           <div className="flex items-center gap-2">
@@ -212,25 +290,46 @@ export default function CursedMoviesPage() {
             </select>
           </div>
 
-          <div className="flex items-center gap-2">
-            <label htmlFor="min-deaths" className="text-sm text-text-muted">
-              Min Deaths:
-            </label>
-            <select
-              id="min-deaths"
-              value={minDeadActors.toString()}
-              onChange={(e) =>
-                updateParams({ minDeaths: e.target.value === "3" ? undefined : e.target.value })
-              }
-              className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
-            >
-              {minDeathsOptions.map((opt) => (
-                <option key={opt.value} value={opt.value}>
-                  {opt.label}
-                </option>
-              ))}
-            </select>
-          </div>
+          {!showFunnel && (
+            <>
+              <div className="flex items-center gap-2">
+                <label htmlFor="rank-by" className="text-sm text-text-muted">
+                  Rank by:
+                </label>
+                <select
+                  id="rank-by"
+                  value={ranking}
+                  onChange={(e) =>
+                    updateParams({ rank: e.target.value === "shrunk" ? "shrunk" : undefined })
+                  }
+                  className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+                >
+                  <option value="raw">Curse score</option>
+                  <option value="shrunk">Adjusted for cast size</option>
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <label htmlFor="min-deaths" className="text-sm text-text-muted">
+                  Min Deaths:
+                </label>
+                <select
+                  id="min-deaths"
+                  value={minDeadActors.toString()}
+                  onChange={(e) =>
+                    updateParams({ minDeaths: e.target.value === "3" ? undefined : e.target.value })
+                  }
+                  className="rounded border border-brown-medium/30 bg-white px-2 py-1 text-sm"
+                >
+                  {minDeathsOptions.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
 
           <label className="flex cursor-pointer items-center gap-2 text-sm text-text-muted">
             <input
@@ -246,7 +345,7 @@ export default function CursedMoviesPage() {
 
           {hasFilters && (
             <button
-              onClick={() => setSearchParams(new URLSearchParams())}
+              onClick={() => setSearchParams(new URLSearchParams(showFunnel ? "view=funnel" : ""))}
               className="text-sm text-accent hover:underline"
             >
               Clear filters
@@ -254,15 +353,27 @@ export default function CursedMoviesPage() {
           )}
         </div>
 
-        {noResults ? (
+        {showFunnel ? (
+          <FunnelView data={funnel.data} isLoading={funnel.isLoading} error={funnel.error} />
+        ) : noResults ? (
           <div className="text-center text-text-muted">
             <p>No movies match these filters. Try adjusting your criteria.</p>
           </div>
         ) : (
           <>
+            {ranking === "shrunk" && (
+              <p
+                data-testid="shrunk-ranking-note"
+                className="mb-4 text-center text-xs text-text-muted"
+              >
+                Adjusted scores pull movies with few expected deaths toward the average, so one
+                early death in a small cast can't top the list on its own.
+              </p>
+            )}
+
             <div className="space-y-2">
               {data.movies.map((movie) => (
-                <MovieRow key={movie.id} movie={movie} />
+                <MovieRow key={movie.id} movie={movie} ranking={ranking} />
               ))}
             </div>
 
@@ -113,6 +113,40 @@ describe("DeathWatchPage", () => {
     })
   })
 
+  it("shows the mortality forecast for the actors on the page", async () => {
+    vi.mocked(api.getDeathWatch).mockResolvedValue({
+      actors: mockActors,
+      pagination: { page: 1, pageSize: 50, totalPages: 1, totalCount: 2 },
+      projection: {
+        totalCount: 2,
+        deceasedCount: 0,
+        livingCount: 2,
+        unknownAgeCount: 0,
+        projections: [
+          { year: 2030, expectedDeaths: 1.62, expectedDeathsLow: 1, expectedDeathsHigh: 2 },
+        ],
+        milestones: [
+          {
+            fraction: 0.5,
+            deathsRequired: 1,
+            reached: false,
+            expectedYear: 2026,
+            earliestYear: 2025,
+            latestYear: 2029,
+          },
+        ],
+      },
+    })
+
+    renderWithProviders(<DeathWatchPage />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId("mortality-forecast")).toBeInTheDocument()
+    })
+    expect(screen.getByText("Half of the actors on this page deceased")).toBeInTheDocument()
+    expect(screen.getByText("Expected deaths by 2030")).toBeInTheDocument()
+  })
+
   it("shows empty state when no results", async () => {
     vi.mocked(api.getDeathWatch).mockResolvedValue({
       actors: [],
@@ -3,6 +3,7 @@ import { Helmet } from "react-helmet-async"
 import { useDeathWatch } from "@/hooks/useDeathWatch"
 import { createActorSlug } from "@/utils/slugify"
 import { getProfileUrl } from "@/services/api"
+import MortalityForecast from "@/components/common/MortalityForecast"
 import LoadingSpinner from "@/components/common/LoadingSpinner"
 import ErrorMessage from "@/components/common/ErrorMessage"
 import { PersonIcon } from "@/components/icons"
@@ -187,6 +188,10 @@ export default function DeathWatchPage() {
           </div>
         ) : (
           <>
+            {data.projection && (
+              <MortalityForecast forecast={data.projection} groupLabel="the actors on this page" />
+            )}
+
             <div className="space-y-2">
               {data.actors.map((actor) => (
                 <ActorRow key={actor.id} actor={actor} />
@@ -1,46 +1,76 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useParams } from "react-router-dom"
 import { Helmet } from "react-helmet-async"
 import { useMovie } from "@/hooks/useMovie"
 import { useDeathInfoPolling } from "@/hooks/useDeathInfoPolling"
+import { useSurvivalCurve } from "@/hooks/useSurvivalCurve"
+import { useMovieProjection } from "@/hooks/useMovieProjection"
 import { extractMovieId } from "@/utils/slugify"
 import { getYear } from "@/utils/formatDate"
+import { selectCredits } from "@/utils/credits"
 import MovieHeader, { MoviePoster } from "@/components/movie/MovieHeader"
 import MortalityGauge from "@/components/movie/MortalityGauge"
 import MiniTimeline from "@/components/movie/MiniTimeline"
+import SurvivalCurveChart from "@/components/movie/SurvivalCurveChart"
 import CastToggle from "@/components/movie/CastToggle"
+import CastDepthControls from "@/components/movie/CastDepthControls"
 import DeceasedList from "@/components/movie/DeceasedList"
 import LivingList from "@/components/movie/LivingList"
 import LastSurvivor from "@/components/movie/LastSurvivor"
+import LastSurvivorPrediction from "@/components/movie/LastSurvivorPrediction"
+import MortalityForecast from "@/components/common/MortalityForecast"
 import LoadingSpinner from "@/components/common/LoadingSpinner"
 import ErrorMessage from "@/components/common/ErrorMessage"
-import type { ViewMode } from "@/types"
+import type { CastDepth, CastWeighting, CreditFilter, ViewMode } from "@/types"
 
 export default function MoviePage() {
   const { slug } = useParams<{ slug: string }>()
   const movieId = slug ? extractMovieId(slug) : 0
-  const { data, isLoading, error } = useMovie(movieId)
+  const [castDepth, setCastDepth] = useState<CastDepth>("30")
+  const [weighting, setWeighting] = useState<CastWeighting>("none")
+  const { data, isLoading, error } = useMovie(movieId, { castDepth, weighting })
   const [showLiving, setShowLiving] = useState(false)
   const [viewMode, setViewMode] = useState<ViewMode>("list")
+  const [creditFilter, setCreditFilter] = useState<CreditFilter>("cast")
+
+  // Deceased, living and stats for the selected cast/crew filter
+  const credits = useMemo(
+    () => (data ? selectCredits(data, creditFilter) : null),
+    [data, creditFilter]
+  )
+
+  // Survival curve covers the cast and is only shown in timeline view, so only fetch it there
+  const { data: survivalCurve } = useSurvivalCurve(
+    movieId,
+    viewMode === "timeline" && creditFilter === "cast",
+    castDepth
+  )
+
+  // Forecasts only matter while some of the cast is still alive
+  const { data: projection } = useMovieProjection(
+    movieId,
+    (data?.stats.livingCount ?? 0) > 0,
+    castDepth
+  )
 
   // Poll for death info updates if enrichment is pending
   const { enrichedDeceased, isPolling } = useDeathInfoPolling({
     movieId,
-    deceased: data?.deceased ?? [],
+    deceased: credits?.deceased ?? [],
     enrichmentPending: data?.enrichmentPending,
   })
 
   // Auto-select the non-zero group when one group is empty
   // Must be before conditional returns to follow Rules of Hooks
   useEffect(() => {
-    if (!data) return
-    const { stats } = data
+    if (!credits) return
+    const { stats } = credits
     if (stats.deceasedCount === 0 && stats.livingCount > 0) {
       setShowLiving(true)
     } else if (stats.livingCount === 0 && stats.deceasedCount > 0) {
       setShowLiving(false)
     }
-  }, [data])
+  }, [credits])
 
   if (!movieId) {
     return <ErrorMessage message="Invalid movie URL" />
@@ -54,11 +84,11 @@ export default function MoviePage() {
     return <ErrorMessage message={error.message} />
   }
 
-  if (!data) {
+  if (!data || !credits) {
     return <ErrorMessage message="Movie not found" />
   }
 
-  const { movie, living, stats, lastSurvivor } = data
+  const { movie, stats, lastSurvivor, lastSurvivorPrediction } = data
   const year = getYear(movie.release_date)
   const title = `${movie.title} (${year})`
 
@@ -84,29 +114,54 @@ export default function MoviePage() {
         {/* Poster + Gauge side by side */}
         <div className="mb-4 flex items-center justify-center gap-4">
           <MoviePoster movie={movie} />
-          <MortalityGauge stats={stats} />
+          <MortalityGauge stats={credits.stats} />
         </div>
 
-        {lastSurvivor && stats.mortalityPercentage >= 50 && !showLiving && (
-          <LastSurvivor actor={lastSurvivor} totalLiving={stats.livingCount} />
-        )}
+        <CastDepthControls
+          castDepth={castDepth}
+          onCastDepthChange={setCastDepth}
+          weighting={weighting}
+          onWeightingChange={setWeighting}
+        />
+
+        {lastSurvivor &&
+          stats.mortalityPercentage >= 50 &&
+          !showLiving &&
+          creditFilter === "cast" && (
+            <LastSurvivor actor={lastSurvivor} totalLiving={stats.livingCount} />
+          )}
+
+        {lastSurvivorPrediction && <LastSurvivorPrediction prediction={lastSurvivorPrediction} />}
+
+        {projection && <MortalityForecast forecast={projection} groupLabel="the cast" />}
 
         <CastToggle
           showLiving={showLiving}
           onToggle={setShowLiving}
-          deceasedCount={stats.deceasedCount}
-          livingCount={stats.livingCount}
+          deceasedCount={credits.stats.deceasedCount}
+          livingCount={credits.stats.livingCount}
           viewMode={viewMode}
           onViewModeChange={setViewMode}
+          creditFilter={creditFilter}
+          onCreditFilterChange={setCreditFilter}
+          crewCount={data.crew?.stats.totalCast ?? 0}
         />
 
         {showLiving ? (
-          <LivingList actors={living} />
+          <LivingList actors={credits.living} />
         ) : viewMode === "timeline" ? (
-          <MiniTimeline
-            releaseYear={new Date(movie.release_date).getFullYear()}
-            deceased={enrichedDeceased}
-          />
+          <div className="space-y-8">
+            {survivalCurve && creditFilter === "cast" && (
+              <SurvivalCurveChart
+                points={survivalCurve.points}
+                castCount={survivalCurve.castCount}
+              />
+            )}
+            <MiniTimeline
+              releaseYear={new Date(movie.release_date).getFullYear()}
+              deceased={enrichedDeceased}
+            />
+          </div>
         ) : (
           <DeceasedList actors={enrichedDeceased} isPolling={isPolling} />
         )}
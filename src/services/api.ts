@@ -1,17 +1,41 @@
 import type {
+  CastDepth,
+  CastWeighting,
   SearchResponse,
   MovieResponse,
   OnThisDayResponse,
   DeathInfoResponse,
+  SurvivalCurveResponse,
+  MovieProjectionResponse,
   RandomMovieResponse,
   SiteStatsResponse,
   RecentDeathsResponse,
   CursedMoviesResponse,
   CursedMoviesFiltersResponse,
+  CursedMoviesFunnelResponse,
+  CursedMovieRanking,
+  BlessedMoviesResponse,
+  CohortDimension,
+  MortalityAnalyticsResponse,
   CursedActorsResponse,
+  CursedDirectorsResponse,
+  DirectorRole,
   ActorProfileResponse,
-  CovidDeathsResponse,
+  ActorCollaboratorsResponse,
+  ConnectionsResponse,
+  ActorSearchResponse,
+  CausesResponse,
+  CauseDeathsResponse,
   DeathWatchResponse,
+  PersonFeedbackRequest,
+  PersonFeedbackResponse,
+  AdminSessionResponse,
+  AdminPersonsResponse,
+  AdminPersonResponse,
+  AdminPersonUpdate,
+  AdminFeedbackResponse,
+  AdminHistoryResponse,
+  FeedbackStatus,
 } from "@/types"
 
 const API_BASE = "/api"
@@ -29,6 +53,23 @@ async function fetchJson<T>(path: string): Promise<T> {
   return response.json()
 }
 
+async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as {
+      error?: { message?: string }
+    }
+    throw new Error(errorData.error?.message || `API error: ${response.status}`)
+  }
+
+  return response.json()
+}
+
 export async function searchMovies(query: string): Promise<SearchResponse> {
   if (!query || query.length < 2) {
     return { results: [], page: 1, total_pages: 0, total_results: 0 }
@@ -36,8 +77,23 @@ export async function searchMovies(query: string): Promise<SearchResponse> {
   return fetchJson(`/search?q=${encodeURIComponent(query)}`)
 }
 
-export async function getMovie(movieId: number): Promise<MovieResponse> {
-  return fetchJson(`/movie/${movieId}`)
+export interface MovieOptions {
+  castDepth?: CastDepth // Top 10, top 30 (default) or the full cast
+  weighting?: CastWeighting // "billing" counts leads more than bit parts
+}
+
+export async function getMovie(
+  movieId: number,
+  options: MovieOptions = {}
+): Promise<MovieResponse> {
+  const { castDepth, weighting } = options
+  const params = new URLSearchParams()
+
+  if (castDepth) params.set("castDepth", castDepth)
+  if (weighting && weighting !== "none") params.set("weighting", weighting)
+
+  const query = params.toString()
+  return fetchJson(`/movie/${movieId}${query ? `?${query}` : ""}`)
 }
 
 export async function getOnThisDay(): Promise<OnThisDayResponse> {
@@ -51,6 +107,22 @@ export async function getDeathInfo(
   return fetchJson(`/movie/${movieId}/death-info?personIds=${personIds.join(",")}`)
 }
 
+export async function getMovieSurvivalCurve(
+  movieId: number,
+  castDepth?: CastDepth
+): Promise<SurvivalCurveResponse> {
+  const query = castDepth ? `?castDepth=${castDepth}` : ""
+  return fetchJson(`/movie/${movieId}/survival-curve${query}`)
+}
+
+export async function getMovieProjection(
+  movieId: number,
+  castDepth?: CastDepth
+): Promise<MovieProjectionResponse> {
+  const query = castDepth ? `?castDepth=${castDepth}` : ""
+  return fetchJson(`/movie/${movieId}/projection${query}`)
+}
+
 export async function getDiscoverMovie(): Promise<RandomMovieResponse> {
   return fetchJson("/discover/forever-young")
 }
@@ -70,12 +142,21 @@ export interface CursedMoviesOptions {
   toDecade?: number // e.g., 1990
   minDeadActors?: number
   includeObscure?: boolean // Include obscure/unknown movies (default: false)
+  rank?: CursedMovieRanking // Order by raw surprise score (default) or shrunk SMR
 }
 
 export async function getCursedMovies(
   options: CursedMoviesOptions = {}
 ): Promise<CursedMoviesResponse> {
-  const { page = 1, limit = 50, fromDecade, toDecade, minDeadActors, includeObscure } = options
+  const {
+    page = 1,
+    limit = 50,
+    fromDecade,
+    toDecade,
+    minDeadActors,
+    includeObscure,
+    rank,
+  } = options
   const params = new URLSearchParams()
 
   params.set("page", String(page))
@@ -84,10 +165,77 @@ export async function getCursedMovies(
   if (toDecade) params.set("to", String(toDecade))
   if (minDeadActors) params.set("minDeaths", String(minDeadActors))
   if (includeObscure) params.set("includeObscure", "true")
+  if (rank === "shrunk") params.set("rank", "shrunk")
 
   return fetchJson(`/cursed-movies?${params.toString()}`)
 }
 
+export type CursedMoviesFunnelOptions = Pick<
+  CursedMoviesOptions,
+  "fromDecade" | "toDecade" | "includeObscure"
+>
+
+export async function getCursedMoviesFunnel(
+  options: CursedMoviesFunnelOptions = {}
+): Promise<CursedMoviesFunnelResponse> {
+  const { fromDecade, toDecade, includeObscure } = options
+  const params = new URLSearchParams()
+
+  if (fromDecade) params.set("from", String(fromDecade))
+  if (toDecade) params.set("to", String(toDecade))
+  if (includeObscure) params.set("includeObscure", "true")
+
+  const query = params.toString()
+  return fetchJson(`/cursed-movies/funnel${query ? `?${query}` : ""}`)
+}
+
+export type BlessedMoviesOptions = Pick<
+  CursedMoviesOptions,
+  "page" | "limit" | "fromDecade" | "toDecade" | "includeObscure"
+>
+
+export async function getBlessedMovies(
+  options: BlessedMoviesOptions = {}
+): Promise<BlessedMoviesResponse> {
+  const { page = 1, limit = 50, fromDecade, toDecade, includeObscure } = options
+  const params = new URLSearchParams()
+
+  params.set("page", String(page))
+  params.set("limit", String(limit))
+  if (fromDecade) params.set("from", String(fromDecade))
+  if (toDecade) params.set("to", String(toDecade))
+  if (includeObscure) params.set("includeObscure", "true")
+
+  return fetchJson(`/blessed-movies?${params.toString()}`)
+}
+
+export interface MortalityAnalyticsOptions {
+  groupBy: CohortDimension[]
+  fromDecade?: number
+  toDecade?: number
+  genre?: string
+  language?: string // ISO 639-1 code, e.g. "en"
+  includeObscure?: boolean
+  minMovies?: number // Leave out groups with fewer movies (server default: 5)
+}
+
+export async function getMortalityAnalytics(
+  options: MortalityAnalyticsOptions
+): Promise<MortalityAnalyticsResponse> {
+  const { groupBy, fromDecade, toDecade, genre, language, includeObscure, minMovies } = options
+  const params = new URLSearchParams()
+
+  params.set("groupBy", groupBy.join(","))
+  if (fromDecade) params.set("from", String(fromDecade))
+  if (toDecade) params.set("to", String(toDecade))
+  if (genre) params.set("genre", genre)
+  if (language) params.set("language", language)
+  if (includeObscure) params.set("includeObscure", "true")
+  if (minMovies) params.set("minMovies", String(minMovies))
+
+  return fetchJson(`/analytics/mortality?${params.toString()}`)
+}
+
 export async function getCursedMoviesFilters(): Promise<CursedMoviesFiltersResponse> {
   return fetchJson("/cursed-movies/filters")
 }
@@ -117,6 +265,31 @@ export async function getCursedActors(
   return fetchJson(`/cursed-actors?${params.toString()}`)
 }
 
+export interface CursedDirectorsOptions {
+  page?: number
+  limit?: number
+  fromDecade?: number
+  toDecade?: number
+  minMovies?: number
+  role?: DirectorRole
+}
+
+export async function getCursedDirectors(
+  options: CursedDirectorsOptions = {}
+): Promise<CursedDirectorsResponse> {
+  const { page = 1, limit = 50, fromDecade, toDecade, minMovies, role } = options
+  const params = new URLSearchParams()
+
+  params.set("page", String(page))
+  params.set("limit", String(limit))
+  if (fromDecade) params.set("from", String(fromDecade))
+  if (toDecade) params.set("to", String(toDecade))
+  if (minMovies) params.set("minMovies", String(minMovies))
+  if (role) params.set("role", role)
+
+  return fetchJson(`/cursed-directors?${params.toString()}`)
+}
+
 // TMDB image URL helpers
 const TMDB_IMAGE_BASE = "https://image.tmdb.org/t/p"
 
@@ -140,8 +313,44 @@ export async function getActor(actorId: number): Promise<ActorProfileResponse> {
   return fetchJson(`/actor/${actorId}`)
 }
 
-export async function getCovidDeaths(page: number = 1): Promise<CovidDeathsResponse> {
-  return fetchJson(`/covid-deaths?page=${page}`)
+export async function getActorCollaborators(
+  actorId: number,
+  minMovies?: number
+): Promise<ActorCollaboratorsResponse> {
+  const query = minMovies ? `?minMovies=${minMovies}` : ""
+  return fetchJson(`/actor/${actorId}/collaborators${query}`)
+}
+
+export interface ConnectionsOptions {
+  from: number
+  to: number
+  preferDeceased?: boolean // Look for a path through deceased actors first
+}
+
+export async function getConnections(options: ConnectionsOptions): Promise<ConnectionsResponse> {
+  const params = new URLSearchParams()
+
+  params.set("from", String(options.from))
+  params.set("to", String(options.to))
+  if (options.preferDeceased) params.set("prefer", "deceased")
+
+  return fetchJson(`/connections?${params.toString()}`)
+}
+
+// Search actors in our database (unlike searchMovies, which searches TMDB)
+export async function searchActors(query: string): Promise<ActorSearchResponse> {
+  if (!query || query.length < 2) {
+    return { actors: [] }
+  }
+  return fetchJson(`/connections/actors?q=${encodeURIComponent(query)}`)
+}
+
+export async function getCauses(): Promise<CausesResponse> {
+  return fetchJson("/causes")
+}
+
+export async function getCauseDeaths(slug: string, page: number = 1): Promise<CauseDeathsResponse> {
+  return fetchJson(`/causes/${encodeURIComponent(slug)}?page=${page}`)
 }
 
 export interface DeathWatchOptions {
@@ -164,3 +373,100 @@ export async function getDeathWatch(options: DeathWatchOptions = {}): Promise<De
 
   return fetchJson(`/death-watch?${params.toString()}`)
 }
+
+export async function submitPersonFeedback(
+  personId: number,
+  feedback: PersonFeedbackRequest
+): Promise<PersonFeedbackResponse> {
+  return postJson(`/person/${personId}/feedback`, feedback)
+}
+
+// Moderation console. Every request carries the admin's bearer token.
+async function adminRequest<T>(
+  token: string,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(`${API_BASE}/admin${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  })
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as {
+      error?: { message?: string }
+    }
+    throw new Error(errorData.error?.message || `API error: ${response.status}`)
+  }
+
+  return response.json()
+}
+
+export async function getAdminSession(token: string): Promise<AdminSessionResponse> {
+  return adminRequest(token, "/session")
+}
+
+export async function searchAdminPersons(
+  token: string,
+  query: string,
+  page: number = 1
+): Promise<AdminPersonsResponse> {
+  return adminRequest(token, `/persons?q=${encodeURIComponent(query)}&page=${page}`)
+}
+
+export async function getAdminPerson(
+  token: string,
+  personId: number
+): Promise<AdminPersonResponse> {
+  return adminRequest(token, `/persons/${personId}`)
+}
+
+export async function updateAdminPerson(
+  token: string,
+  personId: number,
+  update: AdminPersonUpdate
+): Promise<{ person: AdminPersonResponse["person"] }> {
+  return adminRequest(token, `/persons/${personId}`, { method: "PATCH", body: update })
+}
+
+export async function getAdminPersonHistory(
+  token: string,
+  personId: number
+): Promise<AdminHistoryResponse> {
+  return adminRequest(token, `/persons/${personId}/history`)
+}
+
+export async function revertAdminPerson(
+  token: string,
+  personId: number,
+  entryId: number
+): Promise<{ person: AdminPersonResponse["person"] }> {
+  return adminRequest(token, `/persons/${personId}/history/${entryId}/revert`, { method: "POST" })
+}
+
+export async function getAdminFeedback(
+  token: string,
+  status: FeedbackStatus = "pending",
+  page: number = 1
+): Promise<AdminFeedbackResponse> {
+  return adminRequest(token, `/feedback?status=${status}&page=${page}`)
+}
+
+export async function reviewAdminFeedback(
+  token: string,
+  feedbackId: number,
+  status: Exclude<FeedbackStatus, "pending">
+): Promise<{ id: number; status: FeedbackStatus }> {
+  return adminRequest(token, `/feedback/${feedbackId}`, { method: "PATCH", body: { status } })
+}
+
+export async function getAdminLowConfidence(
+  token: string,
+  page: number = 1
+): Promise<AdminPersonsResponse> {
+  return adminRequest(token, `/low-confidence?page=${page}`)
+}
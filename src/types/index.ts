@@ -1,5 +1,10 @@
 // UI types
 export type ViewMode = "list" | "timeline"
+export type CreditFilter = "cast" | "crew" | "both"
+
+// How much of the billed cast the mortality stats cover, and how billing positions count
+export type CastDepth = "10" | "30" | "all"
+export type CastWeighting = "none" | "billing"
 
 // Movie types
 export interface MovieSearchResult {
@@ -42,7 +47,8 @@ export interface PersonDetails {
 export interface DeceasedActor {
   id: number
   name: string
-  character: string
+  character: string | null // Null for crew
+  job?: string // Key crew job(s), e.g. "Director, Screenplay"
   profile_path: string | null
   birthday: string | null
   deathday: string
@@ -58,7 +64,8 @@ export interface DeceasedActor {
 export interface LivingActor {
   id: number
   name: string
-  character: string
+  character: string | null // Null for crew
+  job?: string // Key crew job(s), e.g. "Director, Screenplay"
   profile_path: string | null
   birthday: string | null
   age: number | null
@@ -72,23 +79,104 @@ export interface SearchResponse {
   total_results: number
 }
 
+export interface MovieStats {
+  totalCast: number
+  deceasedCount: number
+  livingCount: number
+  mortalityPercentage: number
+  // Mortality statistics
+  expectedDeaths: number
+  mortalitySurpriseScore: number
+  mortalityModel?: string // Identifier of the actuarial model used for expectedDeaths
+  // Poisson-binomial significance of actual vs expected deaths
+  mortalityPValue?: number | null
+  expectedDeathsLow?: number | null // 95% range of deaths expected by chance
+  expectedDeathsHigh?: number | null
+  isStatisticallySignificant?: boolean
+  nonUsLifeTableCount?: number // People evaluated with a non-US birth-country life table
+  weightedDeaths?: number | null // Billing-weighted deaths when weighting by billing
+}
+
 export interface MovieResponse {
   movie: MovieDetails
   deceased: DeceasedActor[]
   living: LivingActor[]
-  stats: {
-    totalCast: number
-    deceasedCount: number
-    livingCount: number
-    mortalityPercentage: number
-    // Mortality statistics
-    expectedDeaths: number
-    mortalitySurpriseScore: number
+  stats: MovieStats
+  // Key crew (directors, writers, composers, cinematographers)
+  crew?: {
+    deceased: DeceasedActor[]
+    living: LivingActor[]
+    stats: MovieStats
   }
+  combinedStats?: MovieStats // Cast and crew, counting people in both once
   lastSurvivor: LivingActor | null
+  lastSurvivorPrediction?: LastSurvivorPrediction | null
+  castDepth?: CastDepth
+  weighting?: CastWeighting
   enrichmentPending?: boolean
 }
 
+export interface LastSurvivorCandidate extends LivingActor {
+  probability: number // Probability of outliving the rest of the cast
+}
+
+// Simulation of the living cast's remaining lifetimes
+export interface LastSurvivorPrediction {
+  candidates: LastSurvivorCandidate[] // Most likely last survivor first
+  expectedAllDeceasedYear: number
+  simulations: number
+  unknownAgeCount: number // Living cast without a birthday, not included
+}
+
+// Observed vs expected living cast for each year since release
+export interface SurvivalCurvePoint {
+  year: number
+  yearsSinceRelease: number
+  observedLiving: number
+  expectedLiving: number
+  expectedLivingLow: number // 95% range of living cast expected by chance
+  expectedLivingHigh: number
+}
+
+export interface SurvivalCurveResponse {
+  movieId: number
+  releaseDate: string | null
+  castCount: number // Cast members with a known birthday included in the curve
+  mortalityModel: string
+  points: SurvivalCurvePoint[]
+}
+
+// Forecast of future deaths among the living
+export interface DeathsProjection {
+  year: number
+  expectedDeaths: number // Expected deaths among the living by the end of the year
+  expectedDeathsLow: number // 95% range
+  expectedDeathsHigh: number
+}
+
+export interface MortalityMilestone {
+  fraction: number // Share of the group that has died, e.g. 0.5 for half
+  deathsRequired: number
+  reached: boolean
+  expectedYear: number | null // Null when it can't be estimated
+  earliestYear: number | null // 95% range
+  latestYear: number | null
+}
+
+export interface MortalityForecast {
+  totalCount: number
+  deceasedCount: number
+  livingCount: number
+  unknownAgeCount: number // Living without a birthday, assumed to survive
+  projections: DeathsProjection[]
+  milestones: MortalityMilestone[]
+}
+
+export interface MovieProjectionResponse extends MortalityForecast {
+  movieId: number
+  mortalityModel: string
+}
+
 export interface DeathInfoResponse {
   pending: boolean
   deathInfo: Record<
@@ -150,8 +238,13 @@ export interface CursedMovie {
   castCount: number
   expectedDeaths: number
   mortalitySurpriseScore: number
+  shrunkMortalityRatio?: number | null // Only set when ranked by shrunk SMR
 }
 
+// How the cursed movies leaderboard is ordered: raw surprise score, or SMR shrunk
+// toward the population mean by empirical Bayes
+export type CursedMovieRanking = "raw" | "shrunk"
+
 export interface PaginationInfo {
   page: number
   pageSize: number
@@ -164,10 +257,73 @@ export interface CursedMoviesResponse {
   pagination: PaginationInfo
 }
 
+export interface BlessedMovie {
+  rank: number
+  id: number
+  title: string
+  releaseYear: number | null
+  posterPath: string | null
+  deceasedCount: number
+  castCount: number
+  expectedDeaths: number
+  mortalitySurpriseScore: number // Negative: fewer deaths than expected
+  survivorsBeatingOdds: number // Expected deaths minus actual deaths
+}
+
+export interface BlessedMoviesResponse {
+  movies: BlessedMovie[]
+  pagination: PaginationInfo
+}
+
+// Ways the analytics explorer can group movies
+export type CohortDimension = "genre" | "decade" | "language"
+
+export interface CohortMortality {
+  genre?: string // Only the keys for the grouped dimensions are set
+  decade?: number
+  language?: string
+  movieCount: number
+  deaths: number
+  expectedDeaths: number
+  smr: number // Deaths / expected deaths
+  smrLow: number // 95% interval
+  smrHigh: number
+  significant: boolean // The interval excludes 1
+}
+
+export interface MortalityAnalyticsResponse {
+  groupBy: CohortDimension[]
+  groups: CohortMortality[] // Highest SMR first
+}
+
 export interface CursedMoviesFiltersResponse {
   maxMinDeaths: number
 }
 
+export interface FunnelPlotMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+  deceasedCount: number
+  expectedDeaths: number
+  mortalityRatio: number // Deceased / expected (SMR)
+}
+
+// Range of SMRs a movie at the population mean shows by chance at one number of expected deaths
+export interface FunnelLimit {
+  expectedDeaths: number
+  lower95: number
+  upper95: number
+  lower998: number
+  upper998: number
+}
+
+export interface CursedMoviesFunnelResponse {
+  mean: number | null // Population SMR, null when no movies have statistics
+  movies: FunnelPlotMovie[]
+  limits: FunnelLimit[]
+}
+
 export interface CursedActor {
   rank: number
   id: number
@@ -184,6 +340,35 @@ export interface CursedActorsResponse {
   pagination: PaginationInfo
 }
 
+// Cursed directors (and producers): combined cast mortality across the movies they made
+export type DirectorRole = "director" | "producer"
+
+export interface CursedDirectorMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+  deceasedCount: number
+  expectedDeaths: number
+}
+
+export interface CursedDirector {
+  rank: number
+  id: number
+  name: string
+  isDeceased: boolean
+  totalMovies: number
+  totalActualDeaths: number
+  totalExpectedDeaths: number
+  curseScore: number
+  movies: CursedDirectorMovie[]
+}
+
+export interface CursedDirectorsResponse {
+  directors: CursedDirector[]
+  role: DirectorRole
+  pagination: PaginationInfo
+}
+
 // Actor Profile types
 export interface ActorFilmographyMovie {
   movieId: number
@@ -195,12 +380,26 @@ export interface ActorFilmographyMovie {
   castCount: number
 }
 
+export type CauseOfDeathSourceName = "claude" | "wikidata" | "wikipedia_infobox" | "wikipedia_prose"
+
+export interface CauseOfDeathSourceAnswer {
+  source: CauseOfDeathSourceName
+  causeOfDeath: string | null
+  agrees: boolean | null // null when the source gave no answer or only a vague one
+}
+
+export interface CauseOfDeathSources {
+  agreement: number | null // 0-1 share of source weight behind the displayed cause
+  sources: CauseOfDeathSourceAnswer[]
+}
+
 export interface ActorDeathInfo {
   causeOfDeath: string | null
   causeOfDeathDetails: string | null
   wikipediaUrl: string | null
   ageAtDeath: number | null
   yearsLost: number | null
+  causeOfDeathSources: CauseOfDeathSources | null
 }
 
 export interface ActorProfileResponse {
@@ -217,8 +416,87 @@ export interface ActorProfileResponse {
   deathInfo: ActorDeathInfo | null
 }
 
-// COVID-19 Deaths types
-export interface CovidDeath {
+// Frequent collaborators and recurring ensembles
+export interface CollaborationMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+}
+
+export interface Collaborator {
+  id: number
+  name: string
+  isDeceased: boolean
+  profilePath: string | null
+  sharedMovieCount: number
+  movies: CollaborationMovie[]
+}
+
+export interface Ensemble {
+  members: Array<{ id: number; name: string; isDeceased: boolean }>
+  movies: CollaborationMovie[] // Movies the whole group appeared in
+  deceasedCount: number
+  actualDeaths: number // Since the group's first movie together
+  expectedDeaths: number // Since the group's first movie together
+  smr: number | null
+}
+
+export interface ActorCollaboratorsResponse {
+  actorId: number
+  minMovies: number
+  collaborators: Collaborator[]
+  ensembles: Ensemble[]
+}
+
+// Connections (shortest co-star path between two actors)
+export interface ConnectionActor {
+  id: number
+  name: string
+  isDeceased: boolean
+  profilePath: string | null
+}
+
+export interface ConnectionMovie {
+  id: number
+  title: string
+  releaseYear: number | null
+  posterPath: string | null
+}
+
+export interface ConnectionsResponse {
+  fromId: number
+  toId: number
+  degrees: number | null // null when no connection was found
+  throughDeceasedOnly: boolean
+  deceasedCount: number
+  actors: ConnectionActor[]
+  movies: ConnectionMovie[] // movies[i] connects actors[i] and actors[i + 1]
+}
+
+export interface ActorSearchResult extends ConnectionActor {
+  totalMovies: number
+}
+
+export interface ActorSearchResponse {
+  actors: ActorSearchResult[]
+}
+
+// Browse-by-cause types
+export interface CauseInfo {
+  slug: string
+  label: string
+  description: string
+}
+
+export interface CauseSummary extends CauseInfo {
+  count: number // Deceased actors matching the cause
+}
+
+export interface CausesResponse {
+  causes: CauseSummary[]
+}
+
+export interface CauseDeath {
   rank: number
   id: number
   name: string
@@ -229,9 +507,24 @@ export interface CovidDeath {
   ageAtDeath: number | null
 }
 
-export interface CovidDeathsResponse {
-  persons: CovidDeath[]
+export interface CauseDeathStats {
+  averageAgeAtDeath: number | null
+  medianAgeAtDeath: number | null
+  youngestAgeAtDeath: number | null
+  oldestAgeAtDeath: number | null
+}
+
+export interface CauseDecadeCount {
+  decade: number // Decade of death, e.g. 2020
+  count: number
+}
+
+export interface CauseDeathsResponse {
+  cause: CauseInfo
+  persons: CauseDeath[]
   pagination: PaginationInfo
+  stats: CauseDeathStats
+  decades: CauseDecadeCount[]
 }
 
 // Death Watch types
@@ -250,4 +543,105 @@ export interface DeathWatchActor {
 export interface DeathWatchResponse {
   actors: DeathWatchActor[]
   pagination: PaginationInfo
+  projection?: MortalityForecast | null // Forecast for the actors on this page
+}
+
+// Reader feedback types
+export type FeedbackCategory = "wrong_cause" | "wrong_date" | "not_dead" | "other"
+
+export interface PersonFeedbackRequest {
+  category: FeedbackCategory
+  message: string
+  website?: string // Honeypot field, always empty for real readers
+}
+
+export interface PersonFeedbackResponse {
+  received: boolean
+}
+
+// Moderation console types
+export type DeathInfoSource = "claude" | "wikipedia" | "admin" | null
+
+export interface AdminSessionResponse {
+  user: string
+}
+
+export interface AdminPerson {
+  id: number
+  name: string
+  birthday: string | null
+  deathday: string
+  causeOfDeath: string | null
+  causeOfDeathSource: DeathInfoSource
+  causeOfDeathDetails: string | null
+  causeOfDeathDetailsSource: DeathInfoSource
+  wikipediaUrl: string | null
+  profilePath: string | null
+  locked: boolean // Protected from automated overwrites
+  agreement: number | null // 0-1 source agreement, null if sources were never compared
+}
+
+export interface AdminPersonsResponse {
+  persons: AdminPerson[]
+  pagination: PaginationInfo
+}
+
+export interface AdminPersonResponse {
+  person: AdminPerson
+  sources: Array<{
+    source: CauseOfDeathSourceName
+    causeOfDeath: string | null
+    causeOfDeathDetails: string | null
+    promptVersion: string | null // LLM answers only: prompt template id and model
+    model: string | null
+  }>
+}
+
+export interface AdminPersonUpdate {
+  causeOfDeath?: string | null
+  causeOfDeathSource?: DeathInfoSource
+  causeOfDeathDetails?: string | null
+  causeOfDeathDetailsSource?: DeathInfoSource
+  wikipediaUrl?: string | null
+  locked?: boolean
+  reason?: string | null // Recorded in the record's history
+}
+
+export interface AdminHistoryChange {
+  field: string // birthday, deathday, causeOfDeath, ..., locked
+  from: string | boolean | null
+  to: string | boolean | null
+}
+
+export interface AdminHistoryEntry {
+  id: number
+  actor: string // "sync", "enrichment", "movie-lookup", "seed", "admin:<name>" or "unknown"
+  reason: string | null
+  createdAt: string
+  changes: AdminHistoryChange[]
+}
+
+export interface AdminHistoryResponse {
+  history: AdminHistoryEntry[]
+}
+
+export type FeedbackStatus = "pending" | "accepted" | "rejected"
+
+export interface AdminFeedbackItem {
+  id: number
+  personId: number
+  personName: string | null // Null when the person isn't in our database
+  currentCauseOfDeath: string | null
+  deathday: string | null
+  category: FeedbackCategory
+  message: string
+  status: FeedbackStatus
+  createdAt: string
+  reviewedAt: string | null
+  reviewedBy: string | null
+}
+
+export interface AdminFeedbackResponse {
+  items: AdminFeedbackItem[]
+  pagination: PaginationInfo
 }
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest"
+import { selectCredits } from "./credits"
+import type { DeceasedActor, LivingActor, MovieResponse, MovieStats } from "@/types"
+
+function deceasedPerson(id: number, deathday: string, role: Partial<DeceasedActor> = {}) {
+  return {
+    id,
+    name: `Person ${id}`,
+    character: `Character ${id}`,
+    profile_path: null,
+    birthday: "1930-01-01",
+    deathday,
+    causeOfDeath: null,
+    causeOfDeathDetails: null,
+    wikipediaUrl: null,
+    tmdbUrl: `https://www.themoviedb.org/person/${id}`,
+    ageAtDeath: null,
+    yearsLost: null,
+    ...role,
+  }
+}
+
+function livingPerson(id: number, role: Partial<LivingActor> = {}): LivingActor {
+  return {
+    id,
+    name: `Person ${id}`,
+    character: `Character ${id}`,
+    profile_path: null,
+    birthday: "1960-01-01",
+    age: 65,
+    ...role,
+  }
+}
+
+function stats(totalCast: number): MovieStats {
+  return {
+    totalCast,
+    deceasedCount: 0,
+    livingCount: totalCast,
+    mortalityPercentage: 0,
+    expectedDeaths: 0,
+    mortalitySurpriseScore: 0,
+  }
+}
+
+const movieData: MovieResponse = {
+  movie: {
+    id: 1,
+    title: "Test",
+    release_date: "1970-01-01",
+    poster_path: null,
+    overview: "",
+    runtime: null,
+    genres: [],
+  },
+  deceased: [deceasedPerson(1, "2000-01-01"), deceasedPerson(2, "1990-01-01")],
+  living: [livingPerson(3)],
+  stats: stats(3),
+  crew: {
+    deceased: [
+      deceasedPerson(2, "1990-01-01", { character: null, job: "Director" }),
+      deceasedPerson(4, "2010-01-01", { character: null, job: "Original Music Composer" }),
+    ],
+    living: [livingPerson(5, { character: null, job: "Screenplay" })],
+    stats: stats(3),
+  },
+  combinedStats: stats(5),
+  lastSurvivor: null,
+}
+
+describe("selectCredits", () => {
+  it("returns the cast for the cast filter", () => {
+    const result = selectCredits(movieData, "cast")
+
+    expect(result.deceased).toBe(movieData.deceased)
+    expect(result.living).toBe(movieData.living)
+    expect(result.stats).toBe(movieData.stats)
+  })
+
+  it("returns the key crew for the crew filter", () => {
+    const result = selectCredits(movieData, "crew")
+
+    expect(result.deceased.map((p) => p.id)).toEqual([2, 4])
+    expect(result.living.map((p) => p.id)).toEqual([5])
+    expect(result.stats).toBe(movieData.crew!.stats)
+  })
+
+  it("merges cast and crew, listing people in both once", () => {
+    const result = selectCredits(movieData, "both")
+
+    expect(result.deceased.map((p) => p.id)).toEqual([4, 1, 2])
+    expect(result.deceased.find((p) => p.id === 2)).toMatchObject({
+      character: "Character 2",
+      job: "Director",
+    })
+    expect(result.living.map((p) => p.id)).toEqual([3, 5])
+    expect(result.stats).toBe(movieData.combinedStats)
+  })
+
+  it("handles responses without crew", () => {
+    const { crew: _crew, combinedStats: _combined, ...castOnly } = movieData
+
+    expect(selectCredits(castOnly, "crew")).toMatchObject({ deceased: [], living: [] })
+    expect(selectCredits(castOnly, "both").stats).toBe(movieData.stats)
+  })
+})
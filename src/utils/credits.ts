@@ -0,0 +1,46 @@
+import type { CreditFilter, DeceasedActor, LivingActor, MovieResponse, MovieStats } from "@/types"
+
+export interface SelectedCredits {
+  deceased: DeceasedActor[]
+  living: LivingActor[]
+  stats: MovieStats
+}
+
+/**
+ * Merge crew into cast, listing people in both once with their character and job
+ */
+function mergeCredits<T extends DeceasedActor | LivingActor>(cast: T[], crew: T[]): T[] {
+  const crewById = new Map(crew.map((person) => [person.id, person]))
+  const castIds = new Set(cast.map((person) => person.id))
+  return [
+    ...cast.map((person) => {
+      const crewCredit = crewById.get(person.id)
+      return crewCredit ? { ...person, job: crewCredit.job } : person
+    }),
+    ...crew.filter((person) => !castIds.has(person.id)),
+  ]
+}
+
+/**
+ * Pick the deceased, living and stats to show for a cast/crew filter
+ */
+export function selectCredits(data: MovieResponse, filter: CreditFilter): SelectedCredits {
+  const crew = data.crew ?? { deceased: [], living: [], stats: data.stats }
+
+  if (filter === "crew") {
+    return crew
+  }
+
+  if (filter === "both") {
+    return {
+      // Most recent deaths first, as in the separate lists
+      deceased: mergeCredits(data.deceased, crew.deceased).sort(
+        (a, b) => new Date(b.deathday).getTime() - new Date(a.deathday).getTime()
+      ),
+      living: mergeCredits(data.living, crew.living),
+      stats: data.combinedStats ?? data.stats,
+    }
+  }
+
+  return { deceased: data.deceased, living: data.living, stats: data.stats }
+}
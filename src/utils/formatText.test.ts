@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { toTitleCase } from "./formatText"
+import { toTitleCase, formatRole } from "./formatText"
 
 describe("toTitleCase", () => {
   it("capitalizes first letter of each word", () => {
@@ -31,3 +31,23 @@ describe("toTitleCase", () => {
     expect(toTitleCase("heart  attack")).toBe("Heart  Attack")
   })
 })
+
+describe("formatRole", () => {
+  it("describes a cast member by character", () => {
+    expect(formatRole({ character: "The Narrator" })).toBe("as The Narrator")
+  })
+
+  it("describes a crew member by job", () => {
+    expect(formatRole({ character: null, job: "Director, Screenplay" })).toBe(
+      "Director, Screenplay"
+    )
+  })
+
+  it("combines character and job for people in both", () => {
+    expect(formatRole({ character: "Himself", job: "Director" })).toBe("as Himself · Director")
+  })
+
+  it("returns an empty string when neither is known", () => {
+    expect(formatRole({ character: "" })).toBe("")
+  })
+})
@@ -9,3 +9,14 @@ export function toTitleCase(str: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(" ")
 }
+
+/**
+ * Describe someone's part in a movie: their character, their crew job, or both
+ * Example: { character: "Rick", job: "Director" } → "as Rick · Director"
+ */
+export function formatRole(person: { character: string | null; job?: string }): string {
+  const parts: string[] = []
+  if (person.character) parts.push(`as ${person.character}`)
+  if (person.job) parts.push(person.job)
+  return parts.join(" · ")
+}